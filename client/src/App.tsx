@@ -1,6 +1,8 @@
-import { Switch, Route } from "wouter";
-import { queryClient } from "./lib/queryClient";
-import { QueryClientProvider } from "@tanstack/react-query";
+import { Switch, Route, Redirect, useLocation } from "wouter";
+import { useEffect } from "react";
+import { queryClient, queryPersister, CACHE_MAX_AGE } from "./lib/queryClient";
+import { PersistQueryClientProvider } from "@tanstack/react-query-persist-client";
+import { startOfflineSync, syncOutbox, prefetchOfflineData } from "./lib/offline-sync";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "./hooks/useAuth";
@@ -8,6 +10,7 @@ import Dashboard from "@/pages/Dashboard";
 import Organizations from "@/pages/Organizations";
 import Inspections from "@/pages/Inspections";
 import ActionPlans from "@/pages/ActionPlans";
+import InspectionSchedules from "@/pages/InspectionSchedules";
 import Reports from "@/pages/Reports";
 import Users from "@/pages/Users";
 import ChecklistTemplates from "@/pages/ChecklistTemplates";
@@ -18,16 +21,37 @@ import CSVImport from "@/pages/CSVImport";
 import AIChecklistGenerator from "@/pages/AIChecklistGenerator";
 import NewInspection from "@/pages/NewInspection";
 import InspectionDetail from "@/pages/InspectionDetail";
+import InspectionExecution from "@/pages/InspectionExecution";
+import InspectionMap from "@/pages/InspectionMap";
+import CompanyImport from "@/pages/CompanyImport";
 import Companies from "@/pages/Companies";
 import CompanyForm from "@/pages/CompanyForm";
+import CompanyAssets from "@/pages/CompanyAssets";
+import ScanAsset from "@/pages/ScanAsset";
 import AcceptInvite from "@/pages/AcceptInvite";
+import Login from "@/pages/Login";
 import NotFound from "@/pages/not-found";
 import Sidebar from "@/components/Layout/Sidebar";
 import TopBar from "@/components/Layout/TopBar";
 import AIChatbot from "@/components/AIChatbot";
+import TwoFactorSetup from "@/components/Auth/TwoFactorSetup";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
 function AppLayout({ children }: { children: React.ReactNode }) {
-  const { user } = useAuth();
+  const { user, isLoading } = useAuth();
+  const [location] = useLocation();
+
+  // Send queued offline work and refresh the field data once signed in
+  useEffect(() => {
+    if (!user?.id) return;
+    startOfflineSync();
+    syncOutbox();
+    prefetchOfflineData().catch(() => {});
+  }, [user?.id]);
+
+  if (!isLoading && !user) {
+    return <Redirect to={`/login?redirect=${encodeURIComponent(location)}`} />;
+  }
 
   if (!user) {
     return (
@@ -40,6 +64,25 @@ function AppLayout({ children }: { children: React.ReactNode }) {
     );
   }
 
+  // The organization requires 2FA and this user hasn't enrolled yet
+  if (user.twoFactorSetupRequired) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4" data-testid="two-factor-required">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Configure a autenticação em dois fatores</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Sua organização exige um segundo fator para acessar o COMPIA.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <TwoFactorSetup />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="flex min-h-screen bg-background">
       <Sidebar />
@@ -57,12 +100,15 @@ function AppLayout({ children }: { children: React.ReactNode }) {
 function Router() {
   return (
     <Switch>
+      <Route path="/login" component={Login} />
       <Route path="/accept-invite" component={AcceptInvite} />
+      <Route path="/scan/:token" component={ScanAsset} />
       <Route path="/" component={() => <AppLayout><Dashboard /></AppLayout>} />
       <Route path="/dashboard" component={() => <AppLayout><Dashboard /></AppLayout>} />
       <Route path="/organizations" component={() => <AppLayout><Organizations /></AppLayout>} />
       <Route path="/inspections" component={() => <AppLayout><Inspections /></AppLayout>} />
       <Route path="/inspections/new" component={() => <AppLayout><NewInspection /></AppLayout>} />
+      <Route path="/inspections/:id/execute" component={() => <AppLayout><InspectionExecution /></AppLayout>} />
       <Route path="/inspections/:id" component={() => <AppLayout><InspectionDetail /></AppLayout>} />
       <Route path="/checklists" component={() => <AppLayout><ChecklistTemplates /></AppLayout>} />
       <Route path="/checklist-templates" component={() => <AppLayout><ChecklistTemplates /></AppLayout>} />
@@ -71,25 +117,39 @@ function Router() {
       <Route path="/checklists/ai-generator" component={() => <AppLayout><AIChecklistGenerator /></AppLayout>} />
       <Route path="/checklists/:id/edit" component={() => <AppLayout><ChecklistEdit /></AppLayout>} />
       <Route path="/checklists/:id" component={() => <AppLayout><ChecklistDetail /></AppLayout>} />
+      <Route path="/schedules" component={() => <AppLayout><InspectionSchedules /></AppLayout>} />
       <Route path="/action-plans" component={() => <AppLayout><ActionPlans /></AppLayout>} />
       <Route path="/reports" component={() => <AppLayout><Reports /></AppLayout>} />
+      <Route path="/inspection-map" component={() => <AppLayout><InspectionMap /></AppLayout>} />
       <Route path="/users" component={() => <AppLayout><Users /></AppLayout>} />
       <Route path="/companies" component={() => <AppLayout><Companies /></AppLayout>} />
       <Route path="/companies/new" component={() => <AppLayout><CompanyForm /></AppLayout>} />
+      <Route path="/companies/import" component={() => <AppLayout><CompanyImport /></AppLayout>} />
+      <Route path="/companies/import/:id" component={() => <AppLayout><CompanyImport /></AppLayout>} />
       <Route path="/companies/:id/edit" component={() => <AppLayout><CompanyForm /></AppLayout>} />
+      <Route path="/companies/:id/locations" component={() => <AppLayout><CompanyAssets /></AppLayout>} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+// Restored data shows immediately and is refreshed when there is a connection
+function refreshRestoredCache() {
+  if (navigator.onLine) queryClient.invalidateQueries();
+}
+
 function App() {
   return (
-    <QueryClientProvider client={queryClient}>
+    <PersistQueryClientProvider
+      client={queryClient}
+      persistOptions={{ persister: queryPersister, maxAge: CACHE_MAX_AGE }}
+      onSuccess={refreshRestoredCache}
+    >
       <TooltipProvider>
         <Toaster />
         <Router />
       </TooltipProvider>
-    </QueryClientProvider>
+    </PersistQueryClientProvider>
   );
 }
 
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { ShieldCheck } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import TwoFactorSetup, { RecoveryCodesList } from "./TwoFactorSetup";
+
+interface AccountSecurityDialogProps {
+  trigger: React.ReactNode;
+}
+
+export default function AccountSecurityDialog({ trigger }: AccountSecurityDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const onError = (title: string) => (error: unknown) => {
+    setCode("");
+    toast({ title, description: (error as Error).message, variant: "destructive" });
+  };
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => apiRequest('/api/auth/2fa/recovery-codes', 'POST', { code }),
+    onSuccess: (data) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+    },
+    onError: onError("Erro ao gerar novos códigos")
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => apiRequest('/api/auth/2fa/disable', 'POST', { code }),
+    onSuccess: (updatedUser) => {
+      setCode("");
+      queryClient.setQueryData(['/api/user/me'], updatedUser);
+      toast({ title: "Autenticação em dois fatores desativada" });
+    },
+    onError: onError("Erro ao desativar")
+  });
+
+  if (!user) return null;
+
+  const isPasswordUser = (user.authProvider || "password") === "password";
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) {
+          queryClient.invalidateQueries({ queryKey: ['/api/user/me'] });
+        }
+        setCode("");
+        setRecoveryCodes(null);
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[440px]" data-testid="account-security-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ShieldCheck className="w-5 h-5 text-compia-blue" />
+            <span>Segurança da conta</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <span className="text-sm font-medium">Autenticação em dois fatores</span>
+          <Badge className={user.totpEnabled ? "bg-compia-green/10 text-compia-green" : "bg-muted text-muted-foreground"}>
+            {user.totpEnabled ? "Ativa" : "Inativa"}
+          </Badge>
+        </div>
+
+        {!isPasswordUser ? (
+          <p className="text-sm text-muted-foreground">
+            Sua conta entra pelo login corporativo (SSO). O segundo fator é controlado pelo provedor de identidade da sua empresa.
+          </p>
+        ) : !user.totpEnabled ? (
+          <TwoFactorSetup onComplete={() => setOpen(false)} />
+        ) : recoveryCodes ? (
+          <RecoveryCodesList codes={recoveryCodes} />
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Informe um código do aplicativo autenticador para gerar novos códigos de recuperação ou desativar o segundo fator.
+            </p>
+            <div className="flex justify-center">
+              <InputOTP maxLength={6} value={code} onChange={setCode} data-testid="security-code">
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="outline"
+                onClick={() => regenerateMutation.mutate()}
+                disabled={code.length !== 6 || regenerateMutation.isPending}
+                data-testid="regenerate-recovery-codes"
+              >
+                Novos códigos
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => disableMutation.mutate()}
+                disabled={code.length !== 6 || disableMutation.isPending}
+                data-testid="disable-two-factor"
+              >
+                Desativar
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
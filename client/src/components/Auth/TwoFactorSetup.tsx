@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Smartphone, Copy, CheckCircle } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+interface TwoFactorSetupProps {
+  onComplete?: () => void;
+}
+
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  return (
+    <div className="space-y-3" data-testid="recovery-codes">
+      <p className="text-sm text-muted-foreground">
+        Guarde estes códigos em local seguro. Cada um pode ser usado uma única vez para entrar se você perder o celular.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border bg-muted/50 p-4 font-mono text-sm">
+        {codes.map(code => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full"
+        onClick={() => {
+          navigator.clipboard.writeText(codes.join("\n"));
+          toast({ title: "Códigos copiados" });
+        }}
+        data-testid="copy-recovery-codes"
+      >
+        <Copy className="w-4 h-4 mr-2" />
+        Copiar códigos
+      </Button>
+    </div>
+  );
+}
+
+export default function TwoFactorSetup({ onComplete }: TwoFactorSetupProps) {
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [enabledUser, setEnabledUser] = useState<unknown>(null);
+  const { toast } = useToast();
+
+  const setupMutation = useMutation({
+    mutationFn: () => apiRequest('/api/auth/2fa/setup', 'POST'),
+    onSuccess: (data: Enrollment) => setEnrollment(data),
+    onError: (error) => {
+      toast({
+        title: "Erro ao iniciar configuração",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: () => apiRequest('/api/auth/2fa/enable', 'POST', { code }),
+    onSuccess: (data) => {
+      // The session user is only swapped on "Concluir" so the codes stay on screen
+      setRecoveryCodes(data.recoveryCodes);
+      setEnabledUser(data.user);
+    },
+    onError: () => {
+      setCode("");
+      toast({
+        title: "Código inválido",
+        description: "Confira o horário do seu celular e tente novamente.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4" data-testid="two-factor-enabled">
+        <div className="flex items-center space-x-2 text-compia-green">
+          <CheckCircle className="w-5 h-5" />
+          <span className="font-medium">Autenticação em dois fatores ativada</span>
+        </div>
+        <RecoveryCodesList codes={recoveryCodes} />
+        <Button
+          className="w-full bg-compia-blue hover:bg-compia-blue/90"
+          onClick={() => {
+            queryClient.setQueryData(['/api/user/me'], enabledUser);
+            onComplete?.();
+          }}
+          data-testid="finish-two-factor-setup"
+        >
+          Concluir
+        </Button>
+      </div>
+    );
+  }
+
+  if (!enrollment) {
+    return (
+      <div className="space-y-4 text-center" data-testid="two-factor-start">
+        <Smartphone className="w-12 h-12 text-compia-blue mx-auto" />
+        <p className="text-sm text-muted-foreground">
+          Use um aplicativo autenticador (Google Authenticator, Microsoft Authenticator, Authy) para gerar um código a cada login.
+        </p>
+        <Button
+          onClick={() => setupMutation.mutate()}
+          disabled={setupMutation.isPending}
+          className="bg-compia-blue hover:bg-compia-blue/90"
+          data-testid="start-two-factor-setup"
+        >
+          {setupMutation.isPending ? "Gerando..." : "Configurar aplicativo"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4" data-testid="two-factor-enroll">
+      <p className="text-sm text-muted-foreground">
+        1. Escaneie o QR code no aplicativo autenticador.
+      </p>
+      <img
+        src={enrollment.qrCode}
+        alt="QR code para o aplicativo autenticador"
+        className="w-48 h-48 mx-auto rounded-lg border"
+        data-testid="two-factor-qr"
+      />
+      <p className="text-xs text-center text-muted-foreground">
+        Ou digite a chave manualmente: <span className="font-mono text-foreground break-all">{enrollment.secret}</span>
+      </p>
+      <p className="text-sm text-muted-foreground">
+        2. Informe o código de 6 dígitos exibido no aplicativo.
+      </p>
+      <div className="flex justify-center">
+        <InputOTP maxLength={6} value={code} onChange={setCode} data-testid="two-factor-setup-code">
+          <InputOTPGroup>
+            {Array.from({ length: 6 }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+      <Button
+        className="w-full bg-compia-blue hover:bg-compia-blue/90"
+        onClick={() => enableMutation.mutate()}
+        disabled={code.length !== 6 || enableMutation.isPending}
+        data-testid="confirm-two-factor-setup"
+      >
+        {enableMutation.isPending ? "Verificando..." : "Ativar"}
+      </Button>
+    </div>
+  );
+}
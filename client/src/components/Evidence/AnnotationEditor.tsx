@@ -0,0 +1,334 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useSyncStatus } from "@/hooks/useSyncStatus";
+import { saveAnnotatedEvidence } from "@/lib/evidence";
+import { ArrowUpRight, Circle, Loader2, Pencil, Square, Trash2, Type, Undo2 } from "lucide-react";
+import type { EvidenceAnnotations, EvidenceAnnotationShape, EvidenceFile } from "@shared/schema";
+
+type Tool = EvidenceAnnotationShape["type"];
+type Point = [number, number];
+
+const TOOLS: { tool: Tool; label: string; icon: typeof Circle }[] = [
+  { tool: "ellipse", label: "Círculo", icon: Circle },
+  { tool: "arrow", label: "Seta", icon: ArrowUpRight },
+  { tool: "rect", label: "Retângulo", icon: Square },
+  { tool: "freehand", label: "Desenho livre", icon: Pencil },
+  { tool: "text", label: "Texto", icon: Type }
+];
+
+const COLORS = ["#EF4444", "#F59E0B", "#3B82F6", "#22C55E", "#FFFFFF", "#111827"];
+const STROKE_WIDTH = 6;
+// Longest side of the rendered revision; phone photos are scaled down to it
+const MAX_IMAGE_SIZE = 2048;
+const MAX_FREEHAND_POINTS = 2000;
+
+const round = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 10000) / 10000;
+
+// Paints the shapes over whatever the canvas holds; coordinates are fractions
+// of the canvas size and stroke widths are relative to 1000 px of width
+export function drawAnnotations(context: CanvasRenderingContext2D, shapes: EvidenceAnnotationShape[]) {
+  const { width, height } = context.canvas;
+  const scale = width / 1000;
+  context.save();
+  context.lineCap = "round";
+  context.lineJoin = "round";
+  for (const shape of shapes) {
+    const lineWidth = shape.strokeWidth * scale;
+    context.strokeStyle = shape.color;
+    context.fillStyle = shape.color;
+    context.lineWidth = lineWidth;
+    context.beginPath();
+    switch (shape.type) {
+      case "ellipse":
+        context.ellipse(
+          (shape.x + shape.width / 2) * width, (shape.y + shape.height / 2) * height,
+          (shape.width / 2) * width, (shape.height / 2) * height,
+          0, 0, Math.PI * 2
+        );
+        context.stroke();
+        break;
+      case "rect":
+        context.strokeRect(shape.x * width, shape.y * height, shape.width * width, shape.height * height);
+        break;
+      case "arrow": {
+        const [x1, y1, x2, y2] = [shape.x1 * width, shape.y1 * height, shape.x2 * width, shape.y2 * height];
+        const angle = Math.atan2(y2 - y1, x2 - x1);
+        const head = lineWidth * 4;
+        context.moveTo(x1, y1);
+        context.lineTo(x2, y2);
+        context.moveTo(x2 - head * Math.cos(angle - Math.PI / 6), y2 - head * Math.sin(angle - Math.PI / 6));
+        context.lineTo(x2, y2);
+        context.lineTo(x2 - head * Math.cos(angle + Math.PI / 6), y2 - head * Math.sin(angle + Math.PI / 6));
+        context.stroke();
+        break;
+      }
+      case "freehand":
+        shape.points.forEach(([x, y], index) => {
+          if (index === 0) context.moveTo(x * width, y * height);
+          else context.lineTo(x * width, y * height);
+        });
+        context.stroke();
+        break;
+      case "text": {
+        const fontSize = shape.strokeWidth * 5 * scale;
+        context.font = `bold ${fontSize}px sans-serif`;
+        context.textBaseline = "top";
+        // A contrasting outline keeps the text readable on busy photos
+        context.lineWidth = fontSize / 8;
+        context.strokeStyle = shape.color === "#111827" ? "#FFFFFF" : "#111827";
+        context.strokeText(shape.text, shape.x * width, shape.y * height);
+        context.fillText(shape.text, shape.x * width, shape.y * height);
+        break;
+      }
+    }
+  }
+  context.restore();
+}
+
+function shapeBetween(tool: "ellipse" | "rect" | "arrow", [x1, y1]: Point, [x2, y2]: Point, color: string): EvidenceAnnotationShape {
+  const style = { color, strokeWidth: STROKE_WIDTH };
+  if (tool === "arrow") return { type: "arrow", x1, y1, x2, y2, ...style };
+  return { type: tool, x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1), ...style };
+}
+
+// Taps without a drag would store invisible shapes
+function isVisible(shape: EvidenceAnnotationShape): boolean {
+  switch (shape.type) {
+    case "ellipse":
+    case "rect":
+      return shape.width > 0.005 && shape.height > 0.005;
+    case "arrow":
+      return Math.hypot(shape.x2 - shape.x1, shape.y2 - shape.y1) > 0.01;
+    case "freehand":
+      return shape.points.length >= 2;
+    default:
+      return true;
+  }
+}
+
+function annotatedFileName(name: string): string {
+  return `${name.replace(/\.[^.]+$/, "")}-anotada.jpg`;
+}
+
+interface AnnotationEditorProps {
+  file: EvidenceFile;
+  // Listing to refresh once the revision is stored
+  filesUrl: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Draws circles, arrows, boxes and text over an evidence photo. The original
+// is never changed: saving uploads the rendered image and the shapes as a new
+// revision, and reopening the editor starts from the latest revision's shapes.
+export default function AnnotationEditor({ file, filesUrl, open, onOpenChange }: AnnotationEditorProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { online } = useSyncStatus();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const origin = useRef<Point | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [shapes, setShapes] = useState<EvidenceAnnotationShape[]>([]);
+  const [draft, setDraft] = useState<EvidenceAnnotationShape | null>(null);
+  const [tool, setTool] = useState<Tool>("ellipse");
+  const [color, setColor] = useState(COLORS[0]);
+  const [text, setText] = useState("");
+
+  const revisionId = file.annotatedVersion?.id;
+
+  useEffect(() => {
+    if (!open) return;
+    setShapes((file.annotatedVersion?.annotations as EvidenceAnnotations | null)?.shapes ?? []);
+    setDraft(null);
+    setImage(null);
+    setLoadError(false);
+
+    // S3 downloads redirect to another origin; without CORS the canvas could
+    // not be exported
+    const original = new Image();
+    original.crossOrigin = "anonymous";
+    original.onload = () => setImage(original);
+    original.onerror = () => setLoadError(true);
+    original.src = file.url;
+    return () => {
+      original.onload = null;
+      original.onerror = null;
+    };
+  }, [open, file.id, revisionId]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context || !image) return;
+    const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    const width = Math.round(image.naturalWidth * scale);
+    const height = Math.round(image.naturalHeight * scale);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    context.drawImage(image, 0, 0, width, height);
+    drawAnnotations(context, draft ? [...shapes, draft] : shapes);
+  }, [image, shapes, draft]);
+
+  const point = (event: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return [round((event.clientX - rect.left) / rect.width), round((event.clientY - rect.top) / rect.height)];
+  };
+
+  const start = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!image || saveMutation.isPending) return;
+    const [x, y] = point(event);
+    if (tool === "text") {
+      if (!text.trim()) {
+        toast({ title: "Digite o texto antes de posicioná-lo na imagem" });
+        return;
+      }
+      setShapes(prev => [...prev, { type: "text", x, y, text: text.trim().slice(0, 200), color, strokeWidth: STROKE_WIDTH }]);
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    origin.current = [x, y];
+    setDraft(tool === "freehand"
+      ? { type: "freehand", points: [[x, y]], color, strokeWidth: STROKE_WIDTH }
+      : shapeBetween(tool, [x, y], [x, y], color));
+  };
+
+  const move = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const from = origin.current;
+    if (!from) return;
+    const to = point(event);
+    setDraft(prev => {
+      if (!prev) return prev;
+      if (prev.type !== "freehand") return shapeBetween(prev.type as "ellipse" | "rect" | "arrow", from, to, prev.color);
+      const [lastX, lastY] = prev.points[prev.points.length - 1];
+      if (prev.points.length >= MAX_FREEHAND_POINTS || Math.hypot(to[0] - lastX, to[1] - lastY) < 0.002) return prev;
+      return { ...prev, points: [...prev.points, to] };
+    });
+  };
+
+  const end = () => {
+    if (!origin.current) return;
+    origin.current = null;
+    if (draft && isVisible(draft)) setShapes(prev => [...prev, draft]);
+    setDraft(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const canvas = canvasRef.current;
+      if (!canvas) throw new Error("Imagem não carregada");
+      const rendered = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/jpeg", 0.9));
+      if (!rendered) throw new Error("Não foi possível gerar a imagem anotada");
+      return saveAnnotatedEvidence(file.id, rendered, annotatedFileName(file.name), { shapes });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [filesUrl] });
+      toast({ title: "Anotação salva", description: "A foto original foi mantida." });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao salvar anotação", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Anotar evidência</DialogTitle>
+          <DialogDescription>
+            Destaque o problema com círculos, setas e textos. A foto original é preservada.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {TOOLS.map(({ tool: option, label, icon: Icon }) => (
+            <Button
+              key={option}
+              type="button"
+              size="sm"
+              variant={tool === option ? "default" : "outline"}
+              onClick={() => setTool(option)}
+              title={label}
+              aria-label={label}
+              data-testid={`annotation-tool-${option}`}
+            >
+              <Icon className="w-4 h-4" />
+            </Button>
+          ))}
+          <div className="flex items-center gap-1 mx-2">
+            {COLORS.map(option => (
+              <button
+                key={option}
+                type="button"
+                className={`w-6 h-6 rounded-full border-2 ${color === option ? "border-primary" : "border-muted"}`}
+                style={{ backgroundColor: option }}
+                onClick={() => setColor(option)}
+                aria-label={`Cor ${option}`}
+              />
+            ))}
+          </div>
+          {tool === "text" && (
+            <Input
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Texto e clique na imagem"
+              maxLength={200}
+              className="w-56 h-9"
+              data-testid="annotation-text"
+            />
+          )}
+          <div className="ml-auto flex gap-2">
+            <Button type="button" size="sm" variant="outline" onClick={() => setShapes(prev => prev.slice(0, -1))} disabled={shapes.length === 0}>
+              <Undo2 className="w-4 h-4 mr-1" />
+              Desfazer
+            </Button>
+            <Button type="button" size="sm" variant="outline" onClick={() => setShapes([])} disabled={shapes.length === 0}>
+              <Trash2 className="w-4 h-4 mr-1" />
+              Limpar
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex justify-center bg-muted rounded-md overflow-auto max-h-[65vh]">
+          {loadError ? (
+            <p className="p-8 text-sm text-muted-foreground">Não foi possível carregar a imagem.</p>
+          ) : !image ? (
+            <Loader2 className="w-8 h-8 m-8 animate-spin text-muted-foreground" />
+          ) : null}
+          <canvas
+            ref={canvasRef}
+            className={`max-w-full h-auto touch-none cursor-crosshair ${image ? "" : "hidden"}`}
+            onPointerDown={start}
+            onPointerMove={move}
+            onPointerUp={end}
+            onPointerCancel={end}
+            data-testid="annotation-canvas"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            type="button"
+            onClick={() => saveMutation.mutate()}
+            disabled={!image || shapes.length === 0 || !online || saveMutation.isPending}
+            title={online ? undefined : "Salvar a anotação precisa de conexão"}
+            data-testid="save-annotation"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Salvar anotação
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
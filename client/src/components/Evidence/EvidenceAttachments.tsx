@@ -0,0 +1,128 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useSyncStatus } from "@/hooks/useSyncStatus";
+import { uploadEvidence, isAnnotatable, EVIDENCE_ACCEPT } from "@/lib/evidence";
+import AnnotationEditor from "./AnnotationEditor";
+import { FileText, Paperclip, PenLine, X, Loader2 } from "lucide-react";
+import type { EvidenceFile } from "@shared/schema";
+
+interface EvidenceAttachmentsProps {
+  inspectionId: string;
+  itemId: string;
+  // File ids stored on the item's response
+  evidence: string[];
+  onChange: (evidence: string[]) => void;
+  disabled?: boolean;
+}
+
+// Evidence of one checklist item. Uploads need a connection; the ids are then
+// saved with the answer like any other change. Answers keep the original's id,
+// annotating a photo only changes which version is displayed.
+export default function EvidenceAttachments({ inspectionId, itemId, evidence, onChange, disabled }: EvidenceAttachmentsProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { online } = useSyncStatus();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [annotating, setAnnotating] = useState<EvidenceFile | null>(null);
+  const filesUrl = `/api/inspections/${inspectionId}/files`;
+
+  const { data: files = [] } = useQuery<EvidenceFile[]>({
+    queryKey: [filesUrl],
+    enabled: evidence.length > 0,
+  });
+  const filesById = new Map(files.map(file => [file.id, file]));
+
+  const uploadMutation = useMutation({
+    mutationFn: (selected: FileList) => uploadEvidence(filesUrl, selected, itemId),
+    onSuccess: (uploaded) => {
+      queryClient.invalidateQueries({ queryKey: [filesUrl] });
+      onChange([...evidence, ...uploaded.map(file => file.id)]);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao enviar evidência", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="space-y-2">
+      {evidence.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {evidence.map(id => {
+            const file = filesById.get(id);
+            const shown = file?.annotatedVersion ?? file;
+            return (
+              <div key={id} className="relative group" data-testid={`item-evidence-${id}`}>
+                <a href={shown?.url || `/api/files/${id}/download`} target="_blank" rel="noreferrer">
+                  {shown?.thumbnailUrl ? (
+                    <img src={shown.thumbnailUrl} alt={file!.name} className="w-20 h-20 object-cover rounded border" />
+                  ) : (
+                    <div className="w-20 h-20 flex flex-col items-center justify-center rounded border bg-muted p-1">
+                      <FileText className="w-6 h-6 text-muted-foreground" />
+                      <span className="text-[10px] truncate w-full text-center">{file?.name}</span>
+                    </div>
+                  )}
+                </a>
+                {!disabled && (
+                  <button
+                    type="button"
+                    className="absolute -top-2 -right-2 rounded-full bg-background border p-0.5"
+                    onClick={() => onChange(evidence.filter(e => e !== id))}
+                    aria-label="Remover evidência"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+                {!disabled && online && file && isAnnotatable(file) && (
+                  <button
+                    type="button"
+                    className="absolute -bottom-2 -right-2 rounded-full bg-background border p-0.5"
+                    onClick={() => setAnnotating(file)}
+                    aria-label="Anotar evidência"
+                    data-testid={`annotate-item-evidence-${id}`}
+                  >
+                    <PenLine className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={EVIDENCE_ACCEPT}
+        className="hidden"
+        onChange={(e) => {
+          if (e.target.files?.length) uploadMutation.mutate(e.target.files);
+          e.target.value = "";
+        }}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || !online || uploadMutation.isPending}
+        title={online ? undefined : "O envio de evidências precisa de conexão"}
+        data-testid={`attach-evidence-${itemId}`}
+      >
+        {uploadMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Paperclip className="w-4 h-4 mr-2" />}
+        Anexar evidência
+      </Button>
+
+      {annotating && (
+        <AnnotationEditor
+          file={annotating}
+          filesUrl={filesUrl}
+          open={!!annotating}
+          onOpenChange={(open) => !open && setAnnotating(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { uploadEvidence, isAnnotatable, EVIDENCE_ACCEPT } from "@/lib/evidence";
+import AnnotationEditor from "./AnnotationEditor";
+import { FileText, MapPin, Upload, Loader2, PenLine } from "lucide-react";
+import type { EvidenceFile } from "@shared/schema";
+
+interface EvidenceGalleryProps {
+  // Files endpoint of the inspection or action plan, also used for uploads
+  filesUrl: string;
+  // Allows uploading and annotating photos
+  canUpload?: boolean;
+  // Checklist item labels by id, to caption item evidence
+  itemLabels?: Record<string, string>;
+}
+
+export default function EvidenceGallery({ filesUrl, canUpload, itemLabels }: EvidenceGalleryProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [annotating, setAnnotating] = useState<EvidenceFile | null>(null);
+
+  const { data: files = [], isLoading } = useQuery<EvidenceFile[]>({
+    queryKey: [filesUrl],
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: (selected: FileList) => uploadEvidence(filesUrl, selected),
+    onSuccess: (uploaded) => {
+      queryClient.invalidateQueries({ queryKey: [filesUrl] });
+      toast({ title: `${uploaded.length} arquivo(s) enviado(s)` });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao enviar evidência", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="space-y-4" data-testid="evidence-gallery">
+      {canUpload && (
+        <div>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept={EVIDENCE_ACCEPT}
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files?.length) uploadMutation.mutate(e.target.files);
+              e.target.value = "";
+            }}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => inputRef.current?.click()}
+            disabled={uploadMutation.isPending}
+            data-testid="upload-evidence"
+          >
+            {uploadMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            Enviar evidências
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="h-24 bg-muted rounded animate-pulse" />
+      ) : files.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhuma evidência anexada.</p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {files.map(file => {
+            // Annotated photos are shown as annotated; the original stays one click away
+            const shown = file.annotatedVersion ?? file;
+            return (
+              <div key={file.id} className="rounded-md border p-2 text-xs space-y-1" data-testid={`evidence-${file.id}`}>
+                <a href={shown.url} target="_blank" rel="noreferrer" className="block space-y-1 hover:opacity-90">
+                  {shown.thumbnailUrl ? (
+                    <img src={shown.thumbnailUrl} alt={file.name} loading="lazy" className="w-full h-28 object-cover rounded" />
+                  ) : (
+                    <div className="w-full h-28 flex items-center justify-center bg-muted rounded">
+                      <FileText className="w-8 h-8 text-muted-foreground" />
+                    </div>
+                  )}
+                  <p className="font-medium truncate">{file.name}</p>
+                </a>
+                {file.itemId && itemLabels?.[file.itemId] && (
+                  <p className="text-muted-foreground truncate">{itemLabels[file.itemId]}</p>
+                )}
+                {file.capturedAt && (
+                  <p className="text-muted-foreground">Capturada em {new Date(file.capturedAt).toLocaleString('pt-BR')}</p>
+                )}
+                {file.latitude !== null && file.longitude !== null && (
+                  <p className="text-muted-foreground flex items-center">
+                    <MapPin className="w-3 h-3 mr-1" />
+                    {file.latitude.toFixed(5)}, {file.longitude.toFixed(5)}
+                  </p>
+                )}
+                {(file.annotatedVersion || (canUpload && isAnnotatable(file))) && (
+                  <div className="flex items-center gap-2 pt-1">
+                    {file.annotatedVersion && (
+                      <>
+                        <Badge variant="secondary">Anotada</Badge>
+                        <a href={file.url} target="_blank" rel="noreferrer" className="text-muted-foreground underline">
+                          Original
+                        </a>
+                      </>
+                    )}
+                    {canUpload && isAnnotatable(file) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 ml-auto text-xs"
+                        onClick={() => setAnnotating(file)}
+                        data-testid={`annotate-evidence-${file.id}`}
+                      >
+                        <PenLine className="w-3 h-3 mr-1" />
+                        Anotar
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {annotating && (
+        <AnnotationEditor
+          file={annotating}
+          filesUrl={filesUrl}
+          open={!!annotating}
+          onOpenChange={(open) => !open && setAnnotating(null)}
+        />
+      )}
+    </div>
+  );
+}
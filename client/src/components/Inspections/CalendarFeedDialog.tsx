@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CalendarPlus, Copy, RefreshCw, Trash2, Loader2 } from "lucide-react";
+
+interface CalendarFeedStatus {
+  active: boolean;
+  createdAt: string | null;
+  url?: string;
+}
+
+// Personal .ics subscription link. The server keeps only a hash of the
+// token, so the full URL is visible right after it is generated.
+export default function CalendarFeedDialog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+
+  const { data: feed } = useQuery<CalendarFeedStatus>({
+    queryKey: ['/api/user/calendar-feed'],
+    enabled: open,
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: () => apiRequest('/api/user/calendar-feed', 'POST'),
+    onSuccess: (result: CalendarFeedStatus) => {
+      setUrl(result.url ?? null);
+      queryClient.invalidateQueries({ queryKey: ['/api/user/calendar-feed'] });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao gerar link", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: () => apiRequest('/api/user/calendar-feed', 'DELETE'),
+    onSuccess: () => {
+      setUrl(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/user/calendar-feed'] });
+      toast({ title: "Link revogado", description: "Calendários inscritos deixarão de ser atualizados." });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao revogar link", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  const copy = async () => {
+    if (!url) return;
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Link copiado" });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) setUrl(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="calendar-feed-button">
+          <CalendarPlus className="w-4 h-4 mr-2" />
+          Assinar calendário
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Assinar no Outlook ou Google Agenda</DialogTitle>
+          <DialogDescription>
+            Link pessoal (.ics) com as inspeções atribuídas a você e os prazos dos seus planos de ação.
+            Adicione-o como "calendário da internet" / "a partir do URL".
+          </DialogDescription>
+        </DialogHeader>
+
+        {url ? (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input value={url} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} data-testid="calendar-feed-url" />
+              <Button variant="outline" size="icon" onClick={copy} title="Copiar">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <Alert>
+              <AlertDescription>
+                Guarde este link agora: ele não será exibido novamente. Quem tiver o link vê sua agenda de inspeções.
+              </AlertDescription>
+            </Alert>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {feed?.active
+              ? `Link ativo desde ${new Date(feed.createdAt!).toLocaleDateString('pt-BR')}. Gere um novo link para vê-lo; o anterior deixará de funcionar.`
+              : "Nenhum link gerado."}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {feed?.active && (
+            <Button
+              variant="outline"
+              onClick={() => revokeMutation.mutate()}
+              disabled={revokeMutation.isPending}
+              data-testid="calendar-feed-revoke"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Revogar
+            </Button>
+          )}
+          <Button onClick={() => generateMutation.mutate()} disabled={generateMutation.isPending} data-testid="calendar-feed-generate">
+            {generateMutation.isPending
+              ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              : <RefreshCw className="w-4 h-4 mr-2" />}
+            {feed?.active ? "Gerar novo link" : "Gerar link"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,162 @@
+import { useEffect, useRef, useState } from "react";
+import type { GeoPoint } from "@shared/geofence";
+
+const TILE_SIZE = 256;
+const MAX_ZOOM = 18;
+const PADDING = 32;
+const METERS_PER_DEGREE = 111320;
+
+export interface MapMarker {
+  id: string;
+  point: GeoPoint;
+  color: string;
+  label: string;
+  onClick?: () => void;
+}
+
+export interface MapCircle {
+  center: GeoPoint;
+  radiusMeters: number;
+}
+
+interface CheckInMapProps {
+  markers: MapMarker[];
+  circles?: MapCircle[];
+  height?: number;
+}
+
+// Web Mercator pixel coordinates of a point at the given zoom
+function project(point: GeoPoint, zoom: number) {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.min(Math.max(Math.sin(point.latitude * Math.PI / 180), -0.9999), 0.9999);
+  return {
+    x: scale * (point.longitude + 180) / 360,
+    y: scale * (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI))
+  };
+}
+
+function metersPerPixel(latitude: number, zoom: number) {
+  return 156543.03392 * Math.cos(latitude * Math.PI / 180) / 2 ** zoom;
+}
+
+// Corners of everything that must be visible, circles included
+function boundingPoints(markers: MapMarker[], circles: MapCircle[]): GeoPoint[] {
+  const points = markers.map(marker => marker.point);
+  for (const { center, radiusMeters } of circles) {
+    const dLat = radiusMeters / METERS_PER_DEGREE;
+    const dLon = radiusMeters / (METERS_PER_DEGREE * Math.max(Math.cos(center.latitude * Math.PI / 180), 0.01));
+    points.push(
+      { latitude: center.latitude + dLat, longitude: center.longitude - dLon },
+      { latitude: center.latitude - dLat, longitude: center.longitude + dLon }
+    );
+  }
+  return points;
+}
+
+// Largest zoom that fits every point in the viewport
+function fitZoom(points: GeoPoint[], width: number, height: number) {
+  for (let zoom = MAX_ZOOM; zoom > 0; zoom--) {
+    const projected = points.map(point => project(point, zoom));
+    const xs = projected.map(p => p.x);
+    const ys = projected.map(p => p.y);
+    if (Math.max(...xs) - Math.min(...xs) <= width - 2 * PADDING &&
+        Math.max(...ys) - Math.min(...ys) <= height - 2 * PADDING) {
+      return zoom;
+    }
+  }
+  return 1;
+}
+
+// Static OpenStreetMap view framing the given markers and radius circles.
+// Tiles are laid out by hand so no map library is needed for a read-only map.
+export default function CheckInMap({ markers, circles = [], height = 320 }: CheckInMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.round(entry.contentRect.width)));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const points = boundingPoints(markers, circles);
+  const zoom = width && points.length ? fitZoom(points, width, height) : 1;
+  const projected = points.map(point => project(point, zoom));
+  const centerX = (Math.min(...projected.map(p => p.x)) + Math.max(...projected.map(p => p.x))) / 2;
+  const centerY = (Math.min(...projected.map(p => p.y)) + Math.max(...projected.map(p => p.y))) / 2;
+  const originX = centerX - width / 2;
+  const originY = centerY - height / 2;
+  const tileCount = 2 ** zoom;
+
+  const tiles: { key: string; url: string; left: number; top: number }[] = [];
+  const firstTileX = Math.floor(originX / TILE_SIZE);
+  const firstTileY = Math.floor(originY / TILE_SIZE);
+  for (let tx = firstTileX; points.length && tx * TILE_SIZE < originX + width; tx++) {
+    for (let ty = Math.max(firstTileY, 0); ty < tileCount && ty * TILE_SIZE < originY + height; ty++) {
+      tiles.push({
+        key: `${tx}-${ty}`,
+        // Wraps around the antimeridian
+        url: `https://tile.openstreetmap.org/${zoom}/${((tx % tileCount) + tileCount) % tileCount}/${ty}.png`,
+        left: tx * TILE_SIZE - originX,
+        top: ty * TILE_SIZE - originY
+      });
+    }
+  }
+
+  const toScreen = (point: GeoPoint) => {
+    const { x, y } = project(point, zoom);
+    return { left: x - originX, top: y - originY };
+  };
+
+  return (
+    <div ref={containerRef} className="relative overflow-hidden rounded-md border bg-muted" style={{ height }} data-testid="check-in-map">
+      {points.length === 0 ? (
+        <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+          Nenhuma coordenada registrada
+        </div>
+      ) : width > 0 && (
+        <>
+          {tiles.map(tile => (
+            <img
+              key={tile.key}
+              src={tile.url}
+              alt=""
+              draggable={false}
+              className="absolute max-w-none select-none"
+              style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+            />
+          ))}
+          {circles.map(({ center, radiusMeters }, index) => {
+            const { left, top } = toScreen(center);
+            const radius = radiusMeters / metersPerPixel(center.latitude, zoom);
+            return (
+              <div
+                key={index}
+                className="absolute rounded-full border-2 border-compia-blue bg-compia-blue/10 pointer-events-none"
+                style={{ left: left - radius, top: top - radius, width: radius * 2, height: radius * 2 }}
+              />
+            );
+          })}
+          {markers.map(marker => {
+            const { left, top } = toScreen(marker.point);
+            return (
+              <button
+                key={marker.id}
+                type="button"
+                title={marker.label}
+                onClick={marker.onClick}
+                className={`absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white shadow ${marker.color} ${marker.onClick ? "cursor-pointer" : "cursor-default"}`}
+                style={{ left, top }}
+              />
+            );
+          })}
+        </>
+      )}
+      <span className="absolute bottom-0 right-0 bg-white/80 px-1 text-[10px] text-gray-700">
+        © <a href="https://www.openstreetmap.org/copyright" target="_blank" rel="noreferrer">OpenStreetMap</a>
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Star, MapPin, Upload, Loader2, Camera } from "lucide-react";
+import SignaturePad from "./SignaturePad";
+import { useToast } from "@/hooks/use-toast";
+import type { ChecklistItemDefinition } from "@shared/inspection-responses";
+
+// File fields keep their content inline as a data URL so they work offline;
+// they are capped well below the API body limit. Larger evidence goes
+// through the evidence upload instead.
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+
+interface ChecklistFieldInputProps {
+  item: ChecklistItemDefinition;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  disabled?: boolean;
+}
+
+// <input type="datetime-local"> works in local time without a zone
+function toDateTimeLocal(value: unknown): string {
+  if (typeof value !== "string" || !value) return "";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "";
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+export default function ChecklistFieldInput({ item, value, onChange, disabled }: ChecklistFieldInputProps) {
+  const [locating, setLocating] = useState(false);
+  const { toast } = useToast();
+  const testId = `field-${item.id}`;
+
+  switch (item.type) {
+    case "textarea":
+      return (
+        <Textarea
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          data-testid={testId}
+        />
+      );
+
+    case "select":
+      return (
+        <Select value={typeof value === "string" ? value : undefined} onValueChange={onChange} disabled={disabled}>
+          <SelectTrigger data-testid={testId}>
+            <SelectValue placeholder="Selecione" />
+          </SelectTrigger>
+          <SelectContent>
+            {(item.options || []).map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+
+    case "radio":
+      return (
+        <RadioGroup value={typeof value === "string" ? value : ""} onValueChange={onChange} disabled={disabled} data-testid={testId}>
+          {(item.options || []).map(option => (
+            <div key={option} className="flex items-center space-x-2">
+              <RadioGroupItem value={option} id={`${item.id}-${option}`} />
+              <Label htmlFor={`${item.id}-${option}`}>{option}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+
+    case "multiselect": {
+      const selected = Array.isArray(value) ? value as string[] : [];
+      return (
+        <div className="space-y-2" data-testid={testId}>
+          {(item.options || []).map(option => (
+            <label key={option} className="flex items-center space-x-2 text-sm">
+              <Checkbox
+                checked={selected.includes(option)}
+                disabled={disabled}
+                onCheckedChange={(checked) => onChange(
+                  checked === true ? [...selected, option] : selected.filter(o => o !== option)
+                )}
+              />
+              <span>{option}</span>
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    case "checkbox":
+    case "boolean":
+      return (
+        <div className="flex items-center space-x-2">
+          <Switch checked={value === true} onCheckedChange={onChange} disabled={disabled} data-testid={testId} />
+          <span className="text-sm">{value === true ? "Sim" : value === false ? "Não" : "Sem resposta"}</span>
+        </div>
+      );
+
+    case "date":
+      return (
+        <Input
+          type="date"
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          disabled={disabled}
+          data-testid={testId}
+        />
+      );
+
+    case "time":
+      return (
+        <Input
+          type="time"
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          disabled={disabled}
+          data-testid={testId}
+        />
+      );
+
+    case "datetime":
+      return (
+        <Input
+          type="datetime-local"
+          value={toDateTimeLocal(value)}
+          onChange={(e) => onChange(e.target.value ? new Date(e.target.value).toISOString() : undefined)}
+          disabled={disabled}
+          data-testid={testId}
+        />
+      );
+
+    case "number":
+      return (
+        <Input
+          type="number"
+          min={item.min}
+          max={item.max}
+          value={typeof value === "number" ? value : ""}
+          onChange={(e) => onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+          disabled={disabled}
+          data-testid={testId}
+        />
+      );
+
+    case "rating":
+      return (
+        <div className="flex items-center space-x-1" data-testid={testId}>
+          {[1, 2, 3, 4, 5].map(rating => (
+            <button
+              key={rating}
+              type="button"
+              disabled={disabled}
+              onClick={() => onChange(rating)}
+              aria-label={`Nota ${rating}`}
+            >
+              <Star className={`w-6 h-6 ${typeof value === "number" && rating <= value ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"}`} />
+            </button>
+          ))}
+        </div>
+      );
+
+    case "file": {
+      const fileValue = typeof value === "string" ? value : "";
+      const readFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+        if (file.size > MAX_FILE_BYTES) {
+          toast({ title: "Arquivo muito grande", description: "O limite é de 2 MB.", variant: "destructive" });
+          return;
+        }
+        const reader = new FileReader();
+        reader.onload = () => onChange(reader.result as string);
+        reader.readAsDataURL(file);
+      };
+      return (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            <label className="inline-flex items-center cursor-pointer rounded-md border px-3 py-2 text-sm hover:bg-muted">
+              <Upload className="w-4 h-4 mr-2" />
+              {fileValue ? "Substituir arquivo" : "Selecionar arquivo"}
+              <input type="file" className="hidden" disabled={disabled} data-testid={testId} onChange={readFile} />
+            </label>
+            {/* Opens the rear camera on phones; works offline like any other answer */}
+            <label className="inline-flex items-center cursor-pointer rounded-md border px-3 py-2 text-sm hover:bg-muted">
+              <Camera className="w-4 h-4 mr-2" />
+              Tirar foto
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                className="hidden"
+                disabled={disabled}
+                data-testid={`${testId}-camera`}
+                onChange={readFile}
+              />
+            </label>
+          </div>
+          {fileValue.startsWith("data:image/") && (
+            <img src={fileValue} alt={item.label} className="max-h-40 rounded-md border" />
+          )}
+          {fileValue && !fileValue.startsWith("data:image/") && (
+            <p className="text-xs text-muted-foreground">Arquivo anexado</p>
+          )}
+        </div>
+      );
+    }
+
+    case "signature":
+      return <SignaturePad value={value} onChange={onChange} disabled={disabled} />;
+
+    case "location": {
+      const location = value as { latitude: number; longitude: number; accuracy?: number } | undefined;
+      return (
+        <div className="space-y-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={disabled || locating}
+            data-testid={testId}
+            onClick={() => {
+              if (!navigator.geolocation) {
+                toast({ title: "Geolocalização indisponível neste navegador", variant: "destructive" });
+                return;
+              }
+              setLocating(true);
+              navigator.geolocation.getCurrentPosition(
+                (position) => {
+                  setLocating(false);
+                  onChange({
+                    latitude: position.coords.latitude,
+                    longitude: position.coords.longitude,
+                    accuracy: position.coords.accuracy
+                  });
+                },
+                (error) => {
+                  setLocating(false);
+                  toast({ title: "Não foi possível obter a localização", description: error.message, variant: "destructive" });
+                },
+                { enableHighAccuracy: true, timeout: 15000 }
+              );
+            }}
+          >
+            {locating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <MapPin className="w-4 h-4 mr-2" />}
+            {location ? "Atualizar localização" : "Capturar localização"}
+          </Button>
+          {location && (
+            <p className="text-xs text-muted-foreground">
+              {location.latitude.toFixed(6)}, {location.longitude.toFixed(6)}
+              {location.accuracy ? ` (±${Math.round(location.accuracy)} m)` : ""}
+            </p>
+          )}
+        </div>
+      );
+    }
+
+    default:
+      return (
+        <Input
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          data-testid={testId}
+        />
+      );
+  }
+}
@@ -0,0 +1,150 @@
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ACTION_STATUS_LABELS } from "@/lib/constants";
+import { GitCompare, Download, ArrowLeft } from "lucide-react";
+import { FOLLOW_UP_OUTCOME_LABELS, type FollowUpComparisonRow, type FollowUpOutcome } from "@shared/inspection-follow-up";
+import { INSPECTION_RESPONSE_STATUS_LABELS, type InspectionItemResponse } from "@shared/inspection-responses";
+import type { ActionPlan, EvidenceFile, Inspection } from "@shared/schema";
+
+interface FollowUpComparisonData {
+  parent: Inspection;
+  followUp: Inspection;
+  rows: (FollowUpComparisonRow & { actionPlans: ActionPlan[] })[];
+}
+
+const OUTCOME_COLORS: Record<FollowUpOutcome, string> = {
+  resolved: "bg-green-100 text-green-800",
+  persisting: "bg-red-100 text-red-800",
+  not_applicable: "bg-gray-100 text-gray-800",
+  pending: "bg-yellow-100 text-yellow-800"
+};
+
+const RESPONSE_COLORS: Record<string, string> = {
+  conform: "text-green-700",
+  non_conform: "text-red-700",
+  not_applicable: "text-gray-600"
+};
+
+interface ResponseSummaryProps {
+  response: InspectionItemResponse | null | undefined;
+  files: EvidenceFile[];
+}
+
+// Answer, notes and evidence thumbnails of one checklist item
+export function ResponseSummary({ response, files }: ResponseSummaryProps) {
+  if (!response) return <p className="text-sm text-muted-foreground">Sem resposta</p>;
+  const evidence = files.filter(file => response.evidence?.includes(file.id));
+  return (
+    <div className="space-y-2 text-sm">
+      <p className={`font-medium ${RESPONSE_COLORS[response.status] ?? ""}`}>
+        {INSPECTION_RESPONSE_STATUS_LABELS[response.status] ?? response.status}
+      </p>
+      {response.notes && <p className="text-muted-foreground whitespace-pre-wrap">{response.notes}</p>}
+      {evidence.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {evidence.map(file => {
+            const shown = file.annotatedVersion ?? file;
+            return (
+              <a key={file.id} href={shown.url} target="_blank" rel="noreferrer" title={file.name}>
+                {shown.thumbnailUrl ? (
+                  <img src={shown.thumbnailUrl} alt={file.name} loading="lazy" className="w-full h-20 object-cover rounded border" />
+                ) : (
+                  <span className="block h-20 rounded border bg-muted p-1 text-xs truncate">{file.name}</span>
+                )}
+              </a>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface FollowUpComparisonProps {
+  inspection: Inspection;
+}
+
+// Before/after of each re-checked item on a follow-up inspection, with the
+// action plans opened for it (closed automatically once the item is conform)
+export default function FollowUpComparison({ inspection }: FollowUpComparisonProps) {
+  const { data: comparison, isLoading } = useQuery<FollowUpComparisonData>({
+    queryKey: ['/api/inspections', inspection.id, 'follow-up-comparison'],
+  });
+  const { data: beforeFiles = [] } = useQuery<EvidenceFile[]>({
+    queryKey: ['/api/inspections', inspection.parentInspectionId, 'files'],
+  });
+  const { data: afterFiles = [] } = useQuery<EvidenceFile[]>({
+    queryKey: ['/api/inspections', inspection.id, 'files'],
+  });
+
+  return (
+    <Card className="hover:shadow-md transition-shadow duration-200" data-testid="follow-up-comparison">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <GitCompare className="w-5 h-5 mr-2 text-compia-blue" />
+            Antes e depois
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => window.open(`/api/reports/inspection/${inspection.id}/follow-up`, '_blank')}
+            data-testid="follow-up-report"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Relatório
+          </Button>
+        </CardTitle>
+        {comparison && (
+          <Link href={`/inspections/${comparison.parent.id}`} className="text-sm text-compia-blue hover:underline flex items-center">
+            <ArrowLeft className="w-3 h-3 mr-1" />
+            Inspeção original: {comparison.parent.title}
+          </Link>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="h-24 bg-muted rounded animate-pulse" />
+        ) : (
+          comparison?.rows.map(row => (
+            <div key={row.itemId} className="rounded-md border p-3 space-y-3" data-testid={`comparison-${row.itemId}`}>
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium">{row.label}</p>
+                  {row.standard && <p className="text-xs text-muted-foreground">{row.standard}</p>}
+                </div>
+                <Badge className={OUTCOME_COLORS[row.outcome]}>{FOLLOW_UP_OUTCOME_LABELS[row.outcome]}</Badge>
+              </div>
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <p className="font-semibold text-muted-foreground uppercase tracking-wide text-xs mb-1">Antes</p>
+                  <ResponseSummary response={row.before} files={beforeFiles} />
+                </div>
+                <div>
+                  <p className="font-semibold text-muted-foreground uppercase tracking-wide text-xs mb-1">Depois</p>
+                  <ResponseSummary response={row.after} files={afterFiles} />
+                </div>
+              </div>
+              {row.actionPlans.length > 0 && (
+                <div className="text-sm">
+                  <p className="font-semibold text-muted-foreground uppercase tracking-wide text-xs mb-1">Planos de ação</p>
+                  {row.actionPlans.map(plan => (
+                    <p key={plan.id}>
+                      {plan.title}{" "}
+                      <span className="text-muted-foreground">
+                        ({ACTION_STATUS_LABELS[plan.status as keyof typeof ACTION_STATUS_LABELS] ?? plan.status})
+                      </span>
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
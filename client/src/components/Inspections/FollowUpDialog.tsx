@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CalendarCheck, Loader2 } from "lucide-react";
+import type { Inspection, PublicUser } from "@shared/schema";
+
+interface FollowUpDialogProps {
+  inspection: Inspection;
+  nonConformCount: number;
+}
+
+// Schedules the verification visit for the non-conformities of a completed
+// inspection and opens the new inspection
+export default function FollowUpDialog({ inspection, nonConformCount }: FollowUpDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [scheduledAt, setScheduledAt] = useState("");
+  const [inspectorId, setInspectorId] = useState(inspection.inspectorId);
+
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ['/api/users'],
+    enabled: open,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest(`/api/inspections/${inspection.id}/follow-up`, 'POST', {
+      scheduledAt: scheduledAt ? new Date(scheduledAt).toISOString() : undefined,
+      inspectorId
+    }),
+    onSuccess: (followUp: Inspection) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/inspections'] });
+      toast({ title: "Verificação agendada", description: followUp.title });
+      setOpen(false);
+      setLocation(`/inspections/${followUp.id}`);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao agendar verificação", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="schedule-follow-up">
+          <CalendarCheck className="w-4 h-4 mr-2" />
+          Agendar verificação
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Agendar verificação</DialogTitle>
+          <DialogDescription>
+            Cria uma nova inspeção com os {nonConformCount} item(ns) não conforme(s), para confirmar que foram corrigidos.
+            As evidências anteriores aparecem ao lado de cada item.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="followUpDate">Data da visita</Label>
+            <Input
+              id="followUpDate"
+              type="datetime-local"
+              value={scheduledAt}
+              onChange={(e) => setScheduledAt(e.target.value)}
+              data-testid="follow-up-date"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Inspetor</Label>
+            <Select value={inspectorId} onValueChange={setInspectorId}>
+              <SelectTrigger data-testid="follow-up-inspector">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {users.filter(u => u.isActive !== false).map(u => <SelectItem key={u.id} value={u.id}>{u.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancelar</Button>
+          <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending} data-testid="confirm-follow-up">
+            {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Criar verificação
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
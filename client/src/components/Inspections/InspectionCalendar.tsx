@@ -0,0 +1,331 @@
+import { useMemo, useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import {
+  addDays, addMonths, addWeeks, endOfMonth, endOfWeek, format, isSameDay, isSameMonth,
+  startOfDay, startOfMonth, startOfWeek, subMonths, subWeeks
+} from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, hasPermission } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { ChevronLeft, ChevronRight, Clock, Play, CheckCircle2 } from "lucide-react";
+import type { Inspection } from "@shared/schema";
+
+type CalendarView = "month" | "week" | "agenda";
+type EventKind = "scheduled" | "started" | "completed";
+
+interface CalendarEvent {
+  key: string;
+  kind: EventKind;
+  date: Date;
+  inspection: Inspection;
+}
+
+const EVENT_STYLES: Record<EventKind, { label: string; icon: typeof Clock; className: string }> = {
+  scheduled: { label: "Agendada", icon: Clock, className: "bg-yellow-100 text-yellow-900 border-yellow-300" },
+  started: { label: "Iniciada", icon: Play, className: "bg-blue-100 text-blue-900 border-blue-300" },
+  completed: { label: "Concluída", icon: CheckCircle2, className: "bg-green-100 text-green-900 border-green-300" }
+};
+
+const STATUS_OPTIONS = [
+  { value: "draft", label: "Rascunho" },
+  { value: "in_progress", label: "Em Andamento" },
+  { value: "completed", label: "Concluída" },
+  { value: "approved", label: "Aprovada" },
+  { value: "rejected", label: "Rejeitada" }
+];
+
+const WEEK_OPTIONS = { weekStartsOn: 0 as const, locale: ptBR };
+const MAX_EVENTS_PER_DAY = 3;
+
+function toEvents(inspection: Inspection): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+  const push = (kind: EventKind, value: Date | string | null) => {
+    if (value) events.push({ key: `${inspection.id}-${kind}`, kind, date: new Date(value), inspection });
+  };
+  push("scheduled", inspection.scheduledAt);
+  push("started", inspection.startedAt);
+  push("completed", inspection.completedAt);
+  return events;
+}
+
+interface InspectionCalendarProps {
+  inspections: Inspection[];
+  onRescheduled: () => void;
+}
+
+// Month, week and agenda views of the scheduled, start and completion dates.
+// Scheduled dates of inspections not started yet can be dragged to another
+// day; the time of day is kept.
+export default function InspectionCalendar({ inspections, onRescheduled }: InspectionCalendarProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [view, setView] = useState<CalendarView>("month");
+  const [cursor, setCursor] = useState(() => new Date());
+  const [inspectorFilter, setInspectorFilter] = useState("all");
+  const [companyFilter, setCompanyFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const canReschedule = hasPermission(user, 'inspection:update');
+
+  const inspectors = useMemo(() => {
+    const names = new Map<string, string>();
+    inspections.forEach(inspection => {
+      names.set(inspection.inspectorId, inspection.technicianName || names.get(inspection.inspectorId) || "Sem nome");
+    });
+    return Array.from(names.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [inspections]);
+
+  const companies = useMemo(() => Array.from(new Set(
+    inspections.map(inspection => inspection.companyName).filter((name): name is string => !!name)
+  )).sort(), [inspections]);
+
+  const events = useMemo(() => inspections
+    .filter(inspection =>
+      (inspectorFilter === "all" || inspection.inspectorId === inspectorFilter) &&
+      (companyFilter === "all" || inspection.companyName === companyFilter) &&
+      (statusFilter === "all" || inspection.status === statusFilter))
+    .flatMap(toEvents)
+    .sort((a, b) => a.date.getTime() - b.date.getTime()),
+  [inspections, inspectorFilter, companyFilter, statusFilter]);
+
+  const rescheduleMutation = useMutation({
+    mutationFn: ({ id, scheduledAt }: { id: string; scheduledAt: Date }) =>
+      apiRequest(`/api/inspections/${id}/reschedule`, 'POST', { scheduledAt: scheduledAt.toISOString() }),
+    onSuccess: (_, { scheduledAt }) => {
+      toast({ title: "Inspeção reagendada", description: format(scheduledAt, "PPPp", { locale: ptBR }) });
+      onRescheduled();
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao reagendar", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  const isDraggable = (event: CalendarEvent) =>
+    canReschedule && event.kind === "scheduled" && event.inspection.status === "draft";
+
+  const handleDrop = (day: Date, dataTransfer: DataTransfer) => {
+    setDropTarget(null);
+    const inspection = inspections.find(i => i.id === dataTransfer.getData("text/plain"));
+    if (!inspection?.scheduledAt) return;
+
+    const current = new Date(inspection.scheduledAt);
+    if (isSameDay(current, day)) return;
+    const scheduledAt = new Date(day);
+    scheduledAt.setHours(current.getHours(), current.getMinutes(), 0, 0);
+    rescheduleMutation.mutate({ id: inspection.id, scheduledAt });
+  };
+
+  const dropHandlers = (day: Date) => canReschedule ? {
+    onDragOver: (e: React.DragEvent) => { e.preventDefault(); setDropTarget(day.toDateString()); },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent) => { e.preventDefault(); handleDrop(day, e.dataTransfer); }
+  } : {};
+
+  const renderEvent = (event: CalendarEvent, compact = true) => {
+    const style = EVENT_STYLES[event.kind];
+    const Icon = style.icon;
+    const draggable = isDraggable(event);
+    return (
+      <Link key={event.key} href={`/inspections/${event.inspection.id}`}>
+        <div
+          draggable={draggable}
+          onDragStart={(e) => e.dataTransfer.setData("text/plain", event.inspection.id)}
+          title={`${style.label}: ${event.inspection.title} - ${format(event.date, "Pp", { locale: ptBR })}`}
+          className={cn(
+            "flex items-center gap-1 rounded border px-1.5 py-0.5 text-xs truncate cursor-pointer",
+            style.className,
+            draggable && "cursor-grab active:cursor-grabbing"
+          )}
+          data-testid={`calendar-event-${event.key}`}
+        >
+          <Icon className="w-3 h-3 shrink-0" />
+          <span className="font-medium">{format(event.date, "HH:mm")}</span>
+          <span className="truncate">{event.inspection.title}</span>
+          {!compact && event.inspection.technicianName && (
+            <span className="ml-auto text-muted-foreground truncate">{event.inspection.technicianName}</span>
+          )}
+        </div>
+      </Link>
+    );
+  };
+
+  const eventsOn = (day: Date) => events.filter(event => isSameDay(event.date, day));
+
+  const days = (start: Date, end: Date) => {
+    const result: Date[] = [];
+    for (let day = startOfDay(start); day <= end; day = addDays(day, 1)) result.push(day);
+    return result;
+  };
+
+  const navigate = (direction: 1 | -1) => {
+    if (view === "week") setCursor(direction > 0 ? addWeeks(cursor, 1) : subWeeks(cursor, 1));
+    else setCursor(direction > 0 ? addMonths(cursor, 1) : subMonths(cursor, 1));
+  };
+
+  const title = view === "week"
+    ? `${format(startOfWeek(cursor, WEEK_OPTIONS), "d MMM", { locale: ptBR })} - ${format(endOfWeek(cursor, WEEK_OPTIONS), "d MMM yyyy", { locale: ptBR })}`
+    : format(cursor, "MMMM yyyy", { locale: ptBR });
+
+  const weekDayNames = days(startOfWeek(cursor, WEEK_OPTIONS), endOfWeek(cursor, WEEK_OPTIONS))
+    .map(day => format(day, "EEE", { locale: ptBR }));
+
+  const renderMonth = () => {
+    const monthDays = days(startOfWeek(startOfMonth(cursor), WEEK_OPTIONS), endOfWeek(endOfMonth(cursor), WEEK_OPTIONS));
+    return (
+      <div className="grid grid-cols-7 border-l border-t">
+        {weekDayNames.map(name => (
+          <div key={name} className="border-r border-b px-2 py-1 text-xs font-semibold uppercase text-muted-foreground">{name}</div>
+        ))}
+        {monthDays.map(day => {
+          const dayEvents = eventsOn(day);
+          return (
+            <div
+              key={day.toISOString()}
+              {...dropHandlers(day)}
+              className={cn(
+                "border-r border-b min-h-[96px] p-1 space-y-1",
+                !isSameMonth(day, cursor) && "bg-muted/40 text-muted-foreground",
+                dropTarget === day.toDateString() && "bg-compia-blue/10"
+              )}
+            >
+              <div className={cn("text-xs font-medium", isSameDay(day, new Date()) && "text-compia-blue font-bold")}>
+                {format(day, "d")}
+              </div>
+              {dayEvents.slice(0, MAX_EVENTS_PER_DAY).map(event => renderEvent(event))}
+              {dayEvents.length > MAX_EVENTS_PER_DAY && (
+                <button
+                  className="text-xs text-compia-blue hover:underline"
+                  onClick={() => { setCursor(day); setView("week"); }}
+                >
+                  +{dayEvents.length - MAX_EVENTS_PER_DAY} mais
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderWeek = () => (
+    <div className="grid grid-cols-7 border-l border-t">
+      {days(startOfWeek(cursor, WEEK_OPTIONS), endOfWeek(cursor, WEEK_OPTIONS)).map(day => (
+        <div
+          key={day.toISOString()}
+          {...dropHandlers(day)}
+          className={cn("border-r border-b min-h-[320px] p-1 space-y-1", dropTarget === day.toDateString() && "bg-compia-blue/10")}
+        >
+          <div className={cn("text-xs font-semibold pb-1 border-b mb-1", isSameDay(day, new Date()) && "text-compia-blue")}>
+            {format(day, "EEE d/MM", { locale: ptBR })}
+          </div>
+          {eventsOn(day).map(event => renderEvent(event))}
+        </div>
+      ))}
+    </div>
+  );
+
+  // Upcoming month from the cursor, grouped by day
+  const renderAgenda = () => {
+    const from = startOfDay(cursor);
+    const until = addMonths(from, 1);
+    const upcoming = events.filter(event => event.date >= from && event.date < until);
+    const grouped = new Map<string, CalendarEvent[]>();
+    upcoming.forEach(event => {
+      const key = startOfDay(event.date).toISOString();
+      grouped.set(key, [...(grouped.get(key) ?? []), event]);
+    });
+
+    if (grouped.size === 0) {
+      return <p className="py-12 text-center text-muted-foreground">Nenhuma inspeção no período</p>;
+    }
+    return (
+      <div className="divide-y">
+        {Array.from(grouped.entries()).map(([key, dayEvents]) => (
+          <div key={key} className="flex gap-4 py-3">
+            <div className="w-28 shrink-0 text-sm font-semibold capitalize">
+              {format(new Date(key), "EEE, d MMM", { locale: ptBR })}
+            </div>
+            <div className="flex-1 space-y-1">{dayEvents.map(event => renderEvent(event, false))}</div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Card data-testid="inspection-calendar">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => navigate(-1)} data-testid="calendar-prev">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setCursor(new Date())}>Hoje</Button>
+          <Button variant="outline" size="icon" onClick={() => navigate(1)} data-testid="calendar-next">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <h2 className="text-lg font-semibold capitalize mx-2">{view === "agenda" ? `A partir de ${format(cursor, "d MMM yyyy", { locale: ptBR })}` : title}</h2>
+
+          <ToggleGroup
+            type="single"
+            value={view}
+            onValueChange={(value) => value && setView(value as CalendarView)}
+            className="ml-auto"
+          >
+            <ToggleGroupItem value="month" data-testid="calendar-view-month">Mês</ToggleGroupItem>
+            <ToggleGroupItem value="week" data-testid="calendar-view-week">Semana</ToggleGroupItem>
+            <ToggleGroupItem value="agenda" data-testid="calendar-view-agenda">Agenda</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Select value={inspectorFilter} onValueChange={setInspectorFilter}>
+            <SelectTrigger className="w-48" data-testid="calendar-filter-inspector"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os inspetores</SelectItem>
+              {inspectors.map(([id, name]) => <SelectItem key={id} value={id}>{name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={companyFilter} onValueChange={setCompanyFilter}>
+            <SelectTrigger className="w-48" data-testid="calendar-filter-company"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas as empresas</SelectItem>
+              {companies.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-48" data-testid="calendar-filter-status"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os Status</SelectItem>
+              {STATUS_OPTIONS.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-3 ml-auto text-xs text-muted-foreground">
+            {(Object.keys(EVENT_STYLES) as EventKind[]).map(kind => (
+              <span key={kind} className="flex items-center gap-1">
+                <span className={cn("w-3 h-3 rounded border", EVENT_STYLES[kind].className)} />
+                {EVENT_STYLES[kind].label}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {view === "month" && renderMonth()}
+        {view === "week" && renderWeek()}
+        {view === "agenda" && renderAgenda()}
+
+        {canReschedule && view !== "agenda" && (
+          <p className="text-xs text-muted-foreground">
+            Arraste uma inspeção agendada ainda não iniciada para outro dia para reagendá-la.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,108 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Crosshair } from "lucide-react";
+import CheckInMap, { type MapCircle, type MapMarker } from "./CheckInMap";
+import {
+  CHECK_IN_EVENT_LABELS, GEOFENCE_STATUS_LABELS, formatDistance,
+  type CheckInEvent, type GeofenceStatus
+} from "@shared/geofence";
+import type { Inspection, InspectionCheckIn } from "@shared/schema";
+
+export const GEOFENCE_STATUS_COLORS: Record<GeofenceStatus, string> = {
+  inside: "bg-green-100 text-green-800",
+  outside: "bg-red-100 text-red-800",
+  no_position: "bg-yellow-100 text-yellow-800",
+  no_site: "bg-gray-100 text-gray-800"
+};
+
+export const CHECK_IN_MARKER_COLORS: Record<CheckInEvent, string> = {
+  start: "bg-compia-blue",
+  complete: "bg-compia-green"
+};
+
+// Map markers and site circles of a set of check-ins; the site is drawn
+// once per distinct reference, with the radius in force at the time
+export function buildCheckInMapLayers(checkIns: InspectionCheckIn[], onClick?: (checkIn: InspectionCheckIn) => void) {
+  const markers: MapMarker[] = checkIns
+    .filter(checkIn => checkIn.latitude != null && checkIn.longitude != null)
+    .map(checkIn => ({
+      id: checkIn.id,
+      point: { latitude: checkIn.latitude!, longitude: checkIn.longitude! },
+      color: CHECK_IN_MARKER_COLORS[checkIn.event as CheckInEvent] ?? "bg-gray-500",
+      label: `${CHECK_IN_EVENT_LABELS[checkIn.event as CheckInEvent] ?? checkIn.event} · ${formatDistance(checkIn.distanceMeters)}`,
+      onClick: onClick && (() => onClick(checkIn))
+    }));
+
+  const circles = new Map<string, MapCircle>();
+  for (const checkIn of checkIns) {
+    if (checkIn.siteLatitude == null || checkIn.siteLongitude == null) continue;
+    circles.set(`${checkIn.siteLatitude},${checkIn.siteLongitude},${checkIn.radiusMeters}`, {
+      center: { latitude: checkIn.siteLatitude, longitude: checkIn.siteLongitude },
+      radiusMeters: checkIn.radiusMeters
+    });
+  }
+  return { markers, circles: Array.from(circles.values()) };
+}
+
+interface InspectionCheckInsProps {
+  inspection: Inspection;
+}
+
+// Where the inspection was started and completed, against the registered site
+export default function InspectionCheckIns({ inspection }: InspectionCheckInsProps) {
+  const { data: checkIns = [], isLoading } = useQuery<InspectionCheckIn[]>({
+    queryKey: ['/api/inspections', inspection.id, 'check-ins'],
+  });
+
+  const { markers, circles } = buildCheckInMapLayers(checkIns);
+
+  return (
+    <Card className="hover:shadow-md transition-shadow duration-200" data-testid="inspection-check-ins">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <Crosshair className="w-5 h-5 mr-2 text-compia-blue" />
+            Check-in por GPS
+          </span>
+          {inspection.geofenceStatus && (
+            <Badge className={GEOFENCE_STATUS_COLORS[inspection.geofenceStatus as GeofenceStatus]} data-testid="geofence-status">
+              {GEOFENCE_STATUS_LABELS[inspection.geofenceStatus as GeofenceStatus] ?? inspection.geofenceStatus}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando...</p>
+        ) : checkIns.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum check-in registrado</p>
+        ) : (
+          <>
+            <CheckInMap markers={markers} circles={circles} height={260} />
+            <div className="divide-y">
+              {checkIns.map(checkIn => (
+                <div key={checkIn.id} className="flex items-center justify-between gap-2 py-2 text-sm" data-testid={`check-in-${checkIn.id}`}>
+                  <div>
+                    <p className="font-medium flex items-center">
+                      <span className={`inline-block w-2.5 h-2.5 rounded-full mr-2 ${CHECK_IN_MARKER_COLORS[checkIn.event as CheckInEvent] ?? "bg-gray-500"}`} />
+                      {CHECK_IN_EVENT_LABELS[checkIn.event as CheckInEvent] ?? checkIn.event}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {new Date(checkIn.capturedAt ?? checkIn.createdAt).toLocaleString('pt-BR')}
+                      {checkIn.distanceMeters != null && ` · ${formatDistance(checkIn.distanceMeters)} do local (raio ${formatDistance(checkIn.radiusMeters)})`}
+                      {checkIn.accuracy != null && ` · precisão ±${formatDistance(checkIn.accuracy)}`}
+                    </p>
+                  </div>
+                  <Badge className={GEOFENCE_STATUS_COLORS[checkIn.status as GeofenceStatus]}>
+                    {GEOFENCE_STATUS_LABELS[checkIn.status as GeofenceStatus] ?? checkIn.status}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
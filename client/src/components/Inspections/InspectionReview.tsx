@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, hasPermission } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { ClipboardCheck, CheckCircle2, Undo2, Lock, Loader2 } from "lucide-react";
+import { REVIEW_ACTION_LABELS, isInspectionLocked, type ReviewAction } from "@shared/inspection-workflow";
+import type { Inspection, InspectionReview as ReviewEntry } from "@shared/schema";
+
+interface Reviewer {
+  id: string;
+  name: string;
+  email: string;
+}
+
+const ACTION_COLORS: Record<ReviewAction, string> = {
+  submitted: "bg-blue-100 text-blue-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  reassigned: "bg-gray-100 text-gray-800"
+};
+
+interface InspectionReviewProps {
+  inspection: Inspection;
+}
+
+// Review step after completion: the assigned manager approves (locking the
+// inspection) or returns it to the inspector with the corrections needed.
+export default function InspectionReview({ inspection }: InspectionReviewProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rejecting, setRejecting] = useState(false);
+  const [comments, setComments] = useState("");
+
+  const awaitingReview = inspection.status === "completed";
+  const locked = isInspectionLocked(inspection.status);
+
+  const { data: history = [], isLoading } = useQuery<ReviewEntry[]>({
+    queryKey: ['/api/inspections', inspection.id, 'reviews'],
+  });
+
+  const { data: reviewers = [] } = useQuery<Reviewer[]>({
+    queryKey: ['/api/inspections', inspection.id, 'reviewers'],
+    enabled: awaitingReview,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/inspections', inspection.id] });
+    queryClient.invalidateQueries({ queryKey: ['/api/inspections'] });
+  };
+
+  const decisionMutation = useMutation({
+    mutationFn: (decision: "approve" | "reject") =>
+      apiRequest(`/api/inspections/${inspection.id}/${decision}`, 'POST', { comments: comments.trim() || undefined }),
+    onSuccess: (_, decision) => {
+      refresh();
+      setRejecting(false);
+      setComments("");
+      toast({
+        title: decision === "approve" ? "Inspeção aprovada" : "Inspeção devolvida",
+        description: decision === "approve" ? "A inspeção está bloqueada para edição." : "O inspetor foi notificado das correções."
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Erro na revisão", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  const reassignMutation = useMutation({
+    mutationFn: (reviewerId: string) => apiRequest(`/api/inspections/${inspection.id}/reviewer`, 'PUT', { reviewerId }),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Revisor alterado" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao alterar revisor", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  const isAdmin = user?.role === "org_admin" || user?.role === "system_admin";
+  const canReview = awaitingReview && hasPermission(user, 'inspection:approve') && user?.id !== inspection.inspectorId &&
+    (!inspection.reviewerId || inspection.reviewerId === user?.id || isAdmin);
+  const reviewerName = reviewers.find(reviewer => reviewer.id === inspection.reviewerId)?.name
+    ?? [...history].reverse().find(entry => entry.reviewerId === inspection.reviewerId)?.reviewerName;
+
+  return (
+    <Card className="hover:shadow-md transition-shadow duration-200" data-testid="inspection-review">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ClipboardCheck className="w-5 h-5 mr-2 text-compia-blue" />
+          Revisão
+          {awaitingReview && <Badge className="ml-2 bg-blue-100 text-blue-800">Aguardando revisão</Badge>}
+          {locked && <Badge className="ml-2 bg-green-100 text-green-800">Aprovada</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {locked && (
+          <Alert>
+            <Lock className="h-4 w-4" />
+            <AlertDescription>
+              Inspeção aprovada: respostas, evidências e dados não podem mais ser alterados.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {awaitingReview && (
+          <div className="space-y-3">
+            <div className="space-y-1 text-sm">
+              <Label>Revisor</Label>
+              {hasPermission(user, 'inspection:approve') && reviewers.length > 0 ? (
+                <Select
+                  value={inspection.reviewerId ?? undefined}
+                  onValueChange={(value) => reassignMutation.mutate(value)}
+                  disabled={reassignMutation.isPending}
+                >
+                  <SelectTrigger data-testid="review-reviewer">
+                    <SelectValue placeholder="Qualquer gestor da organização" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reviewers.map(reviewer => (
+                      <SelectItem key={reviewer.id} value={reviewer.id}>{reviewer.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <p className="text-muted-foreground">{reviewerName || "Qualquer gestor da organização"}</p>
+              )}
+            </div>
+
+            {canReview && (
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  onClick={() => decisionMutation.mutate("approve")}
+                  disabled={decisionMutation.isPending}
+                  className="bg-compia-green hover:bg-compia-green/90"
+                  data-testid="approve-inspection"
+                >
+                  <CheckCircle2 className="w-4 h-4 mr-2" />
+                  Aprovar
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => { setComments(""); setRejecting(true); }}
+                  disabled={decisionMutation.isPending}
+                  data-testid="reject-inspection"
+                >
+                  <Undo2 className="w-4 h-4 mr-2" />
+                  Devolver para correção
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <p className="font-semibold text-muted-foreground uppercase tracking-wide text-xs">Histórico</p>
+          {isLoading ? (
+            <div className="h-16 bg-muted rounded animate-pulse" />
+          ) : history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">A inspeção ainda não foi enviada para revisão.</p>
+          ) : (
+            <ol className="space-y-3 border-l pl-4" data-testid="review-history">
+              {history.map(entry => (
+                <li key={entry.id} className="text-sm space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge className={ACTION_COLORS[entry.action as ReviewAction]}>
+                      {REVIEW_ACTION_LABELS[entry.action as ReviewAction] ?? entry.action}
+                    </Badge>
+                    <span className="text-muted-foreground text-xs">
+                      {new Date(entry.createdAt!).toLocaleString('pt-BR')}
+                    </span>
+                  </div>
+                  <p>
+                    {entry.actorName}
+                    {(entry.action === "submitted" || entry.action === "reassigned") && entry.reviewerName && (
+                      <span className="text-muted-foreground"> → {entry.reviewerName}</span>
+                    )}
+                  </p>
+                  {entry.comments && <p className="text-muted-foreground whitespace-pre-wrap">{entry.comments}</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={rejecting} onOpenChange={setRejecting}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Devolver para correção</DialogTitle>
+            <DialogDescription>
+              A inspeção volta para "Em andamento" e o inspetor recebe seus comentários por notificação e e-mail.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="reviewComments">O que precisa ser corrigido *</Label>
+            <Textarea
+              id="reviewComments"
+              rows={5}
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              data-testid="review-comments"
+            />
+            <p className="text-xs text-muted-foreground">Mínimo de 10 caracteres.</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(false)}>Cancelar</Button>
+            <Button
+              variant="destructive"
+              onClick={() => decisionMutation.mutate("reject")}
+              disabled={comments.trim().length < 10 || decisionMutation.isPending}
+              data-testid="confirm-reject"
+            >
+              {decisionMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Devolver
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
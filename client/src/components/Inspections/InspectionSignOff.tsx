@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, hasPermission } from "@/hooks/useAuth";
+import { useSyncStatus } from "@/hooks/useSyncStatus";
+import { apiRequest } from "@/lib/queryClient";
+import SignaturePad from "./SignaturePad";
+import { PenTool, ShieldCheck, ShieldAlert, Loader2 } from "lucide-react";
+import type { Inspection, SignatureRole, VerifiedSignature } from "@shared/schema";
+
+const ROLES: { role: SignatureRole; label: string }[] = [
+  { role: "technician", label: "Técnico responsável" },
+  { role: "company_responsible", label: "Responsável da empresa" }
+];
+
+interface SignatureVerification {
+  payloadHash: string;
+  signatures: VerifiedSignature[];
+  signedOff: boolean;
+}
+
+interface InspectionSignOffProps {
+  inspection: Inspection;
+}
+
+// Sign-off by the technician and the company representative once the
+// inspection is completed. The server binds each signature to a hash of the
+// content; any later edit shows it here as invalid until signed again.
+export default function InspectionSignOff({ inspection }: InspectionSignOffProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { online } = useSyncStatus();
+  const [signing, setSigning] = useState<SignatureRole | null>(null);
+  const [signerName, setSignerName] = useState("");
+  const [signerDocument, setSignerDocument] = useState("");
+  const [image, setImage] = useState<string | undefined>();
+
+  const { data: verification, isLoading } = useQuery<SignatureVerification>({
+    queryKey: ['/api/inspections', inspection.id, 'signatures'],
+  });
+
+  const signMutation = useMutation({
+    mutationFn: () => apiRequest(`/api/inspections/${inspection.id}/signatures`, 'POST', {
+      role: signing,
+      signerName,
+      signerDocument: signerDocument || undefined,
+      image
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/inspections', inspection.id, 'signatures'] });
+      toast({ title: "Assinatura registrada" });
+      setSigning(null);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao assinar", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  const openSignDialog = (role: SignatureRole) => {
+    setSignerName((role === "technician" ? inspection.technicianName || user?.name : inspection.companyResponsibleName) || "");
+    setSignerDocument("");
+    setImage(undefined);
+    setSigning(role);
+  };
+
+  const signable = inspection.status === 'completed' || inspection.status === 'approved';
+  const canSign = (role: SignatureRole) =>
+    signable && hasPermission(user, 'inspection:update') &&
+    (role !== "technician" || inspection.inspectorId === user?.id);
+
+  const current = (verification?.signatures ?? []).filter(signature => signature.current);
+  const invalidated = current.some(signature => !signature.valid);
+
+  return (
+    <Card className="hover:shadow-md transition-shadow duration-200" data-testid="inspection-sign-off">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <PenTool className="w-5 h-5 mr-2 text-compia-blue" />
+          Assinaturas
+          {verification?.signedOff && (
+            <Badge className="ml-2 bg-green-100 text-green-800">Assinada</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {invalidated && (
+          <Alert variant="destructive">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertDescription>
+              A inspeção foi alterada depois de assinada. As assinaturas inválidas precisam ser coletadas novamente.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="h-24 bg-muted rounded animate-pulse" />
+        ) : (
+          <div className="grid md:grid-cols-2 gap-4">
+            {ROLES.map(({ role, label }) => {
+              const signature = current.find(s => s.role === role);
+              return (
+                <div key={role} className="rounded-md border p-3 space-y-2 text-sm" data-testid={`signature-${role}`}>
+                  <p className="font-semibold text-muted-foreground uppercase tracking-wide text-xs">{label}</p>
+                  {signature ? (
+                    <>
+                      <img src={signature.image} alt={`Assinatura de ${signature.signerName}`} className="h-16 bg-white rounded border" />
+                      <p className="font-medium">
+                        {signature.signerName}
+                        {signature.signerDocument && <span className="text-muted-foreground"> ({signature.signerDocument})</span>}
+                      </p>
+                      <p className="text-muted-foreground text-xs">
+                        {new Date(signature.signedAt).toLocaleString('pt-BR')} · IP {signature.ipAddress || 'desconhecido'}
+                      </p>
+                      <p className="text-muted-foreground text-xs truncate" title={signature.userAgent || undefined}>
+                        {signature.userAgent || 'Dispositivo desconhecido'}
+                      </p>
+                      <p className="font-mono text-[10px] break-all text-muted-foreground">SHA-256 {signature.payloadHash}</p>
+                      {signature.valid ? (
+                        <Badge className="bg-green-100 text-green-800"><ShieldCheck className="w-3 h-3 mr-1" />Válida</Badge>
+                      ) : (
+                        <Badge variant="destructive"><ShieldAlert className="w-3 h-3 mr-1" />Inválida: conteúdo alterado</Badge>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-muted-foreground">
+                      {signable ? 'Aguardando assinatura' : 'Disponível após a conclusão da inspeção'}
+                    </p>
+                  )}
+                  {(!signature || !signature.valid) && canSign(role) && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => openSignDialog(role)}
+                      disabled={!online}
+                      title={online ? undefined : "A assinatura precisa de conexão"}
+                      data-testid={`sign-${role}`}
+                    >
+                      <PenTool className="w-4 h-4 mr-2" />
+                      {signature ? 'Assinar novamente' : 'Assinar'}
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!signing} onOpenChange={(open) => !open && setSigning(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{ROLES.find(r => r.role === signing)?.label}</DialogTitle>
+            <DialogDescription>
+              Ao assinar, você confirma o conteúdo desta inspeção. Serão registrados data e hora, IP, dispositivo e o hash SHA-256 do conteúdo assinado.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="signerName">Nome completo *</Label>
+              <Input id="signerName" value={signerName} onChange={(e) => setSignerName(e.target.value)} data-testid="signer-name" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="signerDocument">CPF ou documento</Label>
+              <Input id="signerDocument" value={signerDocument} onChange={(e) => setSignerDocument(e.target.value)} data-testid="signer-document" />
+            </div>
+            <div className="space-y-1">
+              <Label>Assinatura *</Label>
+              <SignaturePad value={image} onChange={setImage} disabled={signMutation.isPending} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSigning(null)}>Cancelar</Button>
+            <Button
+              onClick={() => signMutation.mutate()}
+              disabled={!image || signerName.trim().length < 3 || signMutation.isPending}
+              data-testid="confirm-signature"
+            >
+              {signMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Confirmar assinatura
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -5,47 +5,36 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { QrCode, Download, Copy, Share2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import QRCode from "qrcode";
 
 interface QRCodeGeneratorProps {
-  inspectionId: string;
-  inspectionTitle: string;
-  qrCode?: string;
+  // App path the code opens, e.g. /scan/<token>
+  path: string;
+  title: string;
+  heading?: string;
+  fileName: string;
 }
 
-export default function QRCodeGenerator({ inspectionId, inspectionTitle, qrCode }: QRCodeGeneratorProps) {
-  const [qrCodeUrl, setQrCodeUrl] = useState<string>(qrCode || "");
-  const [inspectionUrl, setInspectionUrl] = useState<string>("");
+export default function QRCodeGenerator({ path, title, heading = "QR Code", fileName }: QRCodeGeneratorProps) {
+  const [qrCodeUrl, setQrCodeUrl] = useState<string>("");
+  const url = `${window.location.origin}${path}`;
   const { toast } = useToast();
 
   useEffect(() => {
-    const baseUrl = window.location.origin;
-    const url = `${baseUrl}/inspections/${inspectionId}`;
-    setInspectionUrl(url);
-
-    // If no QR code provided, we would normally generate one here
-    // For now, we'll simulate a QR code data URL
-    if (!qrCode) {
-      // In a real implementation, this would call an API to generate the QR code
-      // For demo purposes, using a placeholder
-      const placeholderQR = `data:image/svg+xml;base64,${btoa(`
-        <svg width="200" height="200" xmlns="http://www.w3.org/2000/svg">
-          <rect width="200" height="200" fill="white"/>
-          <rect x="10" y="10" width="180" height="180" fill="none" stroke="#3B82F6" stroke-width="2"/>
-          <text x="100" y="100" text-anchor="middle" font-family="Arial" font-size="12" fill="#3B82F6">QR Code</text>
-          <text x="100" y="120" text-anchor="middle" font-family="Arial" font-size="10" fill="#666">Inspection ID:</text>
-          <text x="100" y="135" text-anchor="middle" font-family="Arial" font-size="8" fill="#666">${inspectionId.slice(0, 8)}</text>
-        </svg>
-      `)}`;
-      setQrCodeUrl(placeholderQR);
-    }
-  }, [inspectionId, qrCode]);
+    let cancelled = false;
+    setQrCodeUrl("");
+    QRCode.toDataURL(url, { errorCorrectionLevel: 'M', margin: 1, width: 512 })
+      .then(dataUrl => { if (!cancelled) setQrCodeUrl(dataUrl); })
+      .catch(() => toast({ title: "Erro ao gerar QR Code", variant: "destructive" }));
+    return () => { cancelled = true; };
+  }, [url]);
 
   const copyUrl = async () => {
     try {
-      await navigator.clipboard.writeText(inspectionUrl);
+      await navigator.clipboard.writeText(url);
       toast({
         title: "URL copiada!",
-        description: "URL da inspeção copiada para a área de transferência",
+        description: "URL copiada para a área de transferência",
       });
     } catch (error) {
       toast({
@@ -60,7 +49,7 @@ export default function QRCodeGenerator({ inspectionId, inspectionTitle, qrCode
     if (qrCodeUrl) {
       const link = document.createElement('a');
       link.href = qrCodeUrl;
-      link.download = `qr-code-${inspectionId}.png`;
+      link.download = `${fileName}.png`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -72,13 +61,13 @@ export default function QRCodeGenerator({ inspectionId, inspectionTitle, qrCode
     }
   };
 
-  const shareInspection = async () => {
+  const shareUrl = async () => {
     if (navigator.share) {
       try {
         await navigator.share({
-          title: inspectionTitle,
-          text: `Inspeção: ${inspectionTitle}`,
-          url: inspectionUrl,
+          title,
+          text: title,
+          url,
         });
       } catch (error) {
         // User cancelled sharing or share failed
@@ -94,7 +83,7 @@ export default function QRCodeGenerator({ inspectionId, inspectionTitle, qrCode
       <CardHeader>
         <CardTitle className="flex items-center space-x-2">
           <QrCode className="w-5 h-5 text-compia-blue" />
-          <span>QR Code da Inspeção</span>
+          <span>{heading}</span>
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -104,7 +93,7 @@ export default function QRCodeGenerator({ inspectionId, inspectionTitle, qrCode
             <div className="bg-white p-4 rounded-lg border shadow-sm">
               <img 
                 src={qrCodeUrl} 
-                alt={`QR Code para ${inspectionTitle}`}
+                alt={`QR Code para ${title}`}
                 className="w-48 h-48 object-contain"
                 data-testid="qr-code-image"
               />
@@ -120,15 +109,15 @@ export default function QRCodeGenerator({ inspectionId, inspectionTitle, qrCode
         </div>
 
         {/* Inspection URL */}
-        <div className="space-y-2" data-testid="inspection-url-section">
-          <Label htmlFor="inspection-url">URL da Inspeção</Label>
+        <div className="space-y-2" data-testid="qr-url-section">
+          <Label htmlFor="qr-url">Endereço</Label>
           <div className="flex space-x-2">
             <Input
-              id="inspection-url"
-              value={inspectionUrl}
+              id="qr-url"
+              value={url}
               readOnly
               className="flex-1 bg-muted"
-              data-testid="inspection-url-input"
+              data-testid="qr-url-input"
             />
             <Button
               onClick={copyUrl}
@@ -156,9 +145,9 @@ export default function QRCodeGenerator({ inspectionId, inspectionTitle, qrCode
           </Button>
           
           <Button
-            onClick={shareInspection}
+            onClick={shareUrl}
             className="flex items-center space-x-2 bg-compia-blue hover:bg-compia-blue/90"
-            data-testid="share-inspection-button"
+            data-testid="share-url-button"
           >
             <Share2 className="w-4 h-4" />
             <span>Compartilhar</span>
@@ -169,10 +158,10 @@ export default function QRCodeGenerator({ inspectionId, inspectionTitle, qrCode
         <div className="bg-muted/50 rounded-lg p-4" data-testid="qr-instructions">
           <h4 className="font-medium text-foreground mb-2">Como usar:</h4>
           <ul className="text-sm text-muted-foreground space-y-1">
-            <li>• Escaneie o QR Code com qualquer leitor</li>
-            <li>• Compartilhe o QR Code ou URL para acesso direto</li>
-            <li>• Use para facilitar o acesso móvel à inspeção</li>
-            <li>• QR Code permanece válido enquanto a inspeção existir</li>
+            <li>• Escaneie o QR Code com a câmera do celular</li>
+            <li>• A página mostra o histórico e o último resultado das inspeções</li>
+            <li>• Inspetores autenticados podem iniciar o checklist vinculado</li>
+            <li>• O QR Code continua válido se o cadastro for editado</li>
           </ul>
         </div>
       </CardContent>
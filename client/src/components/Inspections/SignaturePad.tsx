@@ -0,0 +1,89 @@
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Eraser } from "lucide-react";
+
+interface SignaturePadProps {
+  // PNG data URL of the drawing, undefined when empty
+  value: unknown;
+  onChange: (value: string | undefined) => void;
+  disabled?: boolean;
+}
+
+export default function SignaturePad({ value, onChange, disabled }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    if (typeof value === "string" && value) {
+      const image = new Image();
+      image.onload = () => context.drawImage(image, 0, 0);
+      image.src = value;
+    }
+    // Only repaint from the saved value on mount; strokes draw directly
+  }, []);
+
+  const point = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * (event.currentTarget.width / rect.width),
+      y: (event.clientY - rect.top) * (event.currentTarget.height / rect.height)
+    };
+  };
+
+  const start = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const context = event.currentTarget.getContext("2d")!;
+    const { x, y } = point(event);
+    drawing.current = true;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    context.lineWidth = 2;
+    context.lineCap = "round";
+    context.strokeStyle = "#111827";
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const move = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const context = event.currentTarget.getContext("2d")!;
+    const { x, y } = point(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const end = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(event.currentTarget.toDataURL("image/png"));
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(undefined);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={600}
+        height={180}
+        className="w-full max-w-xl h-36 rounded-md border bg-white touch-none"
+        onPointerDown={start}
+        onPointerMove={move}
+        onPointerUp={end}
+        onPointerLeave={end}
+        data-testid="signature-pad"
+      />
+      <Button type="button" variant="outline" size="sm" onClick={clear} disabled={disabled}>
+        <Eraser className="w-4 h-4 mr-2" />
+        Limpar assinatura
+      </Button>
+    </div>
+  );
+}
@@ -1,43 +1,57 @@
 import { Link, useLocation } from "wouter";
-import { Shield, BarChart3, ClipboardCheck, ListTodo, FileText, Building, Building2, Users, Settings, Bell, CheckSquare } from "lucide-react";
+import { Shield, BarChart3, ClipboardCheck, ListTodo, FileText, Building, Building2, Users, Settings, Bell, CheckSquare, LogOut, ShieldCheck, CalendarClock, Map as MapIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { useAuth, hasPermission } from "@/hooks/useAuth";
+import { useAuth, useLogout, hasPermission } from "@/hooks/useAuth";
 import { Badge } from "@/components/ui/badge";
+import AccountSecurityDialog from "@/components/Auth/AccountSecurityDialog";
 
 export default function Sidebar() {
   const [location] = useLocation();
   const { user } = useAuth();
+  const logoutMutation = useLogout();
 
   const navigationItems = [
     {
       title: "Dashboard",
       href: "/dashboard",
       icon: BarChart3,
-      permission: "view_dashboard"
+      permission: "dashboard:view" as const
     },
     {
       title: "Inspeções",
       href: "/inspections",
       icon: ClipboardCheck,
-      permission: "create_inspection"
+      permission: "inspection:view" as const
+    },
+    {
+      title: "Agendamentos",
+      href: "/schedules",
+      icon: CalendarClock,
+      permission: "schedule:view" as const
     },
     {
       title: "Checklists",
       href: "/checklists",
       icon: CheckSquare,
-      permission: "create_inspection"
+      permission: "checklist_template:view" as const
     },
     {
       title: "Planos de Ação",
       href: "/action-plans",
       icon: ListTodo,
-      permission: "manage_action_plans"
+      permission: "action_plan:view" as const
     },
     {
       title: "Relatórios",
       href: "/reports",
       icon: FileText,
-      permission: "view_reports"
+      permission: "report:view" as const
+    },
+    {
+      title: "Mapa de Inspeções",
+      href: "/inspection-map",
+      icon: MapIcon,
+      permission: "report:view" as const
     }
   ];
 
@@ -46,25 +60,25 @@ export default function Sidebar() {
       title: "Organizações",
       href: "/organizations",
       icon: Building,
-      permission: "manage_organization"
+      permission: "organization:update" as const
     },
     {
       title: "Empresas",
       href: "/companies", 
       icon: Building2,
-      permission: "manage_inspections"
+      permission: "company:view" as const
     },
     {
       title: "Usuários",
       href: "/users",
       icon: Users,
-      permission: "invite_user"
+      permission: "user:view" as const
     },
     {
       title: "Configurações",
       href: "/settings",
       icon: Settings,
-      permission: "system_admin"
+      permission: "system:admin" as const
     }
   ];
 
@@ -175,6 +189,26 @@ export default function Sidebar() {
               3
             </Badge>
           </div>
+          <AccountSecurityDialog
+            trigger={
+              <button
+                className="text-muted-foreground hover:text-foreground"
+                title="Segurança da conta"
+                data-testid="account-security-button"
+              >
+                <ShieldCheck className="w-4 h-4" />
+              </button>
+            }
+          />
+          <button
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+            className="text-muted-foreground hover:text-foreground"
+            title="Sair"
+            data-testid="logout-button"
+          >
+            <LogOut className="w-4 h-4" />
+          </button>
         </div>
       </div>
     </aside>
@@ -0,0 +1,42 @@
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useSyncStatus } from "@/hooks/useSyncStatus";
+import { syncOutbox, clearSyncConflicts } from "@/lib/offline-sync";
+
+// Connection and offline outbox state; clicking sends queued changes now
+export default function SyncIndicator() {
+  const sync = useSyncStatus();
+
+  if (sync.online && sync.pending === 0 && sync.conflicts === 0) return null;
+
+  let icon = <Cloud className="w-4 h-4 mr-2" />;
+  let label = `${sync.pending} alteração(ões) pendente(s)`;
+  if (!sync.online) {
+    icon = <CloudOff className="w-4 h-4 mr-2" />;
+    label = sync.pending > 0 ? `Offline · ${sync.pending} pendente(s)` : "Offline";
+  } else if (sync.syncing) {
+    icon = <RefreshCw className="w-4 h-4 mr-2 animate-spin" />;
+    label = "Sincronizando...";
+  } else if (sync.conflicts > 0 && sync.pending === 0) {
+    icon = <AlertTriangle className="w-4 h-4 mr-2" />;
+    label = `${sync.conflicts} conflito(s) resolvido(s) pelo servidor`;
+  }
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      className={!sync.online || sync.conflicts > 0 ? "border-yellow-300 text-yellow-800" : ""}
+      disabled={!sync.online || sync.syncing}
+      onClick={() => {
+        clearSyncConflicts();
+        syncOutbox();
+      }}
+      title={sync.lastError || undefined}
+      data-testid="sync-indicator"
+    >
+      {icon}
+      {label}
+    </Button>
+  );
+}
@@ -2,6 +2,8 @@ import { ChevronRight, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useLocation } from "wouter";
 import { useAuth, hasPermission } from "@/hooks/useAuth";
+import NotificationBell from "@/components/Notifications/NotificationBell";
+import SyncIndicator from "@/components/Layout/SyncIndicator";
 
 export default function TopBar() {
   const [location] = useLocation();
@@ -14,7 +16,7 @@ export default function TopBar() {
         return {
           breadcrumbs: ["Dashboard", "Visão Geral"],
           title: "Dashboard Executivo",
-          showNewButton: hasPermission(user, "create_inspection"),
+          showNewButton: hasPermission(user, "inspection:create"),
           newButtonText: "Nova Inspeção",
           newButtonAction: () => window.location.href = "/inspections?new=true"
         };
@@ -22,7 +24,7 @@ export default function TopBar() {
         return {
           breadcrumbs: ["Inspeções", "Lista"],
           title: "Inspeções de Segurança",
-          showNewButton: hasPermission(user, "create_inspection"),
+          showNewButton: hasPermission(user, "inspection:create"),
           newButtonText: "Nova Inspeção",
           newButtonAction: () => {}
         };
@@ -30,7 +32,7 @@ export default function TopBar() {
         return {
           breadcrumbs: ["Planos de Ação", "Lista"],
           title: "Planos de Ação 5W2H",
-          showNewButton: hasPermission(user, "manage_action_plans"),
+          showNewButton: hasPermission(user, "action_plan:create"),
           newButtonText: "Novo Plano",
           newButtonAction: () => {}
         };
@@ -38,7 +40,7 @@ export default function TopBar() {
         return {
           breadcrumbs: ["Relatórios", "Dashboard"],
           title: "Relatórios e Analytics",
-          showNewButton: hasPermission(user, "export_data"),
+          showNewButton: hasPermission(user, "report:export"),
           newButtonText: "Exportar",
           newButtonAction: () => {}
         };
@@ -54,7 +56,7 @@ export default function TopBar() {
         return {
           breadcrumbs: ["Administração", "Usuários"],
           title: "Gestão de Usuários",
-          showNewButton: hasPermission(user, "invite_user"),
+          showNewButton: hasPermission(user, "user:invite"),
           newButtonText: "Convidar Usuário",
           newButtonAction: () => {}
         };
@@ -94,6 +96,8 @@ export default function TopBar() {
         </div>
         
         <div className="flex items-center space-x-4" data-testid="topbar-actions">
+          <SyncIndicator />
+          <NotificationBell />
           {pageInfo.showNewButton && (
             <Button 
               onClick={pageInfo.newButtonAction}
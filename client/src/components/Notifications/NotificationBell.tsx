@@ -0,0 +1,100 @@
+import { Bell, CheckCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Notification } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export default function NotificationBell() {
+  const [, setLocation] = useLocation();
+
+  const { data: notifications } = useQuery<Notification[]>({
+    queryKey: ['/api/notifications'],
+    refetchInterval: POLL_INTERVAL_MS
+  });
+
+  const unreadCount = (notifications || []).filter(notification => !notification.readAt).length;
+
+  const markReadMutation = useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/notifications/${id}/read`, 'POST'),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/notifications'] })
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: () => apiRequest('/api/notifications/read-all', 'POST'),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/notifications'] })
+  });
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      setLocation(notification.link);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" data-testid="notifications-button">
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-destructive text-[10px] font-semibold text-white flex items-center justify-center"
+              data-testid="notifications-unread-count"
+            >
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0" data-testid="notifications-panel">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <span className="font-medium">Notificações</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+              data-testid="notifications-read-all"
+            >
+              <CheckCheck className="w-4 h-4 mr-1" />
+              Marcar todas como lidas
+            </Button>
+          )}
+        </div>
+        <ScrollArea className="max-h-96">
+          {!notifications?.length ? (
+            <p className="p-4 text-sm text-muted-foreground">Nenhuma notificação.</p>
+          ) : (
+            <div className="divide-y">
+              {notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => openNotification(notification)}
+                  className={`w-full text-left px-4 py-3 hover:bg-muted/50 ${notification.readAt ? "" : "bg-compia-blue/5"}`}
+                  data-testid={`notification-${notification.id}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className={`text-sm ${notification.readAt ? "" : "font-semibold"}`}>{notification.title}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {notification.createdAt ? new Date(notification.createdAt).toLocaleDateString('pt-BR') : ""}
+                    </span>
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-1">{notification.message}</p>
+                </button>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plug, Copy, Trash2 } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { API_KEY_SCOPES, API_KEY_SCOPE_LABELS, type ApiKeyScope } from "@shared/permissions";
+import type { PublicApiKey } from "@shared/schema";
+
+const SCOPES = Object.keys(API_KEY_SCOPES) as ApiKeyScope[];
+
+// Days until expiry; "never" keeps the key valid until revoked
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 dias" },
+  { value: "90", label: "90 dias" },
+  { value: "365", label: "1 ano" },
+  { value: "never", label: "Sem expiração" }
+];
+
+interface ApiKeysDialogProps {
+  organizationId: string;
+  trigger: React.ReactNode;
+}
+
+function formatDate(value: Date | string | null) {
+  return value ? new Date(value).toLocaleDateString('pt-BR') : "—";
+}
+
+export default function ApiKeysDialog({ organizationId, trigger }: ApiKeysDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<Set<ApiKeyScope>>(new Set());
+  const [expiry, setExpiry] = useState("90");
+  const [rateLimit, setRateLimit] = useState("60");
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const keysQueryKey = [`/api/api-keys?organizationId=${organizationId}`];
+  const { data: apiKeys, isLoading } = useQuery<PublicApiKey[]>({
+    queryKey: keysQueryKey,
+    enabled: open
+  });
+
+  const resetForm = () => {
+    setName("");
+    setScopes(new Set());
+    setExpiry("90");
+    setRateLimit("60");
+    setCreatedKey(null);
+  };
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(scope); else next.delete(scope);
+      return next;
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest('/api/api-keys', 'POST', {
+      organizationId,
+      name,
+      scopes: Array.from(scopes),
+      rateLimitPerMinute: Number(rateLimit),
+      expiresAt: expiry === "never" ? null : new Date(Date.now() + Number(expiry) * 24 * 60 * 60 * 1000)
+    }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: keysQueryKey });
+      setCreatedKey(data.key);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao criar chave",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/api-keys/${id}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: keysQueryKey });
+      toast({ title: "Chave revogada", description: "Integrações que usavam esta chave deixarão de funcionar." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao revogar chave",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        resetForm();
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto" data-testid="api-keys-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Plug className="w-5 h-5 text-compia-blue" />
+            <span>Chaves de API</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {createdKey ? (
+          <div className="space-y-3" data-testid="api-key-created">
+            <p className="text-sm text-muted-foreground">
+              Copie a chave agora. Por segurança ela não será exibida novamente.
+            </p>
+            <div className="rounded-lg border bg-muted/50 p-3 font-mono text-sm break-all" data-testid="api-key-value">
+              {createdKey}
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  navigator.clipboard.writeText(createdKey);
+                  toast({ title: "Chave copiada" });
+                }}
+                data-testid="copy-api-key"
+              >
+                <Copy className="w-4 h-4 mr-2" />
+                Copiar
+              </Button>
+              <Button className="bg-compia-blue hover:bg-compia-blue/90" onClick={resetForm}>
+                Concluir
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 rounded-lg border p-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="api-key-name">Nome</Label>
+                <Input
+                  id="api-key-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Ex.: Integração ERP"
+                  data-testid="input-api-key-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Expira em</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger data-testid="select-api-key-expiry">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="api-key-rate-limit">Requisições/minuto</Label>
+                <Input
+                  id="api-key-rate-limit"
+                  type="number"
+                  min={1}
+                  max={6000}
+                  value={rateLimit}
+                  onChange={(e) => setRateLimit(e.target.value)}
+                  data-testid="input-api-key-rate-limit"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Escopos</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {SCOPES.map(scope => (
+                  <label key={scope} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={scopes.has(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      data-testid={`api-key-scope-${scope}`}
+                    />
+                    <span>{API_KEY_SCOPE_LABELS[scope]}</span>
+                    <span className="font-mono text-xs text-muted-foreground">{scope}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={createMutation.isPending || name.trim().length < 2 || scopes.size === 0 || !(Number(rateLimit) >= 1)}
+                className="bg-compia-blue hover:bg-compia-blue/90"
+                data-testid="create-api-key"
+              >
+                {createMutation.isPending ? "Gerando..." : "Gerar chave"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="divide-y rounded-lg border" data-testid="api-keys-list">
+          {isLoading ? (
+            <p className="p-4 text-sm text-muted-foreground">Carregando...</p>
+          ) : !apiKeys?.length ? (
+            <p className="p-4 text-sm text-muted-foreground">Nenhuma chave criada para esta organização.</p>
+          ) : apiKeys.map(apiKey => {
+            const expired = !!apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now();
+            return (
+              <div key={apiKey.id} className="flex items-start justify-between p-3" data-testid={`api-key-${apiKey.id}`}>
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{apiKey.name}</span>
+                    <span className="font-mono text-xs text-muted-foreground">cmp_{apiKey.prefix}_…</span>
+                    {apiKey.revokedAt ? (
+                      <Badge className="bg-destructive/10 text-destructive">Revogada</Badge>
+                    ) : expired ? (
+                      <Badge className="bg-muted text-muted-foreground">Expirada</Badge>
+                    ) : (
+                      <Badge className="bg-compia-green/10 text-compia-green">Ativa</Badge>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {apiKey.scopes.map(scope => (
+                      <Badge key={scope} variant="outline" className="font-mono text-xs">{scope}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Expira: {formatDate(apiKey.expiresAt)} · Último uso: {formatDate(apiKey.lastUsedAt)} · {apiKey.rateLimitPerMinute} req/min
+                  </p>
+                </div>
+                {!apiKey.revokedAt && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    onClick={() => revokeMutation.mutate(apiKey.id)}
+                    disabled={revokeMutation.isPending}
+                    data-testid={`revoke-api-key-${apiKey.id}`}
+                  >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Revogar
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
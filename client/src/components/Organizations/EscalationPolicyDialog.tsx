@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BellRing, Plus, Trash2 } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_ESCALATION_POLICY, type EscalationAudience, type EscalationStep } from "@shared/action-plans";
+
+const MAX_STEPS = 10;
+
+const AUDIENCE_LABELS: Record<EscalationAudience, string> = {
+  assignee: "Responsável",
+  managers: "Responsável e gestores"
+};
+
+interface EscalationPolicyDialogProps {
+  organizationId: string;
+  policy?: EscalationStep[] | null;
+  trigger: React.ReactNode;
+}
+
+function describeStep(days: number) {
+  if (days < 0) return `${-days} dia(s) antes do prazo`;
+  if (days === 0) return "No dia do prazo";
+  return `${days} dia(s) após o prazo`;
+}
+
+export default function EscalationPolicyDialog({ organizationId, policy, trigger }: EscalationPolicyDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [steps, setSteps] = useState<EscalationStep[]>([]);
+  const { toast } = useToast();
+
+  const resetSteps = () => setSteps((policy?.length ? policy : DEFAULT_ESCALATION_POLICY).map(step => ({ ...step })));
+
+  const updateStep = (index: number, changes: Partial<EscalationStep>) => {
+    setSteps(prev => prev.map((step, i) => i === index ? { ...step, ...changes } : step));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest(`/api/organizations/${organizationId}/escalation-policy`, 'PUT', { steps }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organizations'] });
+      toast({ title: "Régua de cobrança salva", description: "Os próximos lembretes seguirão as novas etapas." });
+      setOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao salvar régua",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const isValid = steps.length > 0 && steps.every(step => Number.isInteger(step.days) && step.days >= -60 && step.days <= 365);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (value) resetSteps();
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]" data-testid="escalation-policy-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <BellRing className="w-5 h-5 text-compia-blue" />
+            <span>Lembretes de planos de ação</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          Dias relativos ao prazo do plano: valores negativos avisam antes do vencimento. Cada etapa envia e-mail e notificação no sistema.
+        </p>
+
+        <div className="space-y-2">
+          {steps.map((step, index) => (
+            <div key={index} className="grid grid-cols-[120px_1fr_auto] items-end gap-2" data-testid={`escalation-step-${index}`}>
+              <div className="space-y-1">
+                <Label htmlFor={`escalation-days-${index}`}>Dias</Label>
+                <Input
+                  id={`escalation-days-${index}`}
+                  type="number"
+                  min={-60}
+                  max={365}
+                  value={Number.isNaN(step.days) ? "" : step.days}
+                  onChange={(e) => updateStep(index, { days: parseInt(e.target.value, 10) })}
+                  data-testid={`input-escalation-days-${index}`}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>{Number.isNaN(step.days) ? "Destinatários" : describeStep(step.days)}</Label>
+                <Select
+                  value={step.audience}
+                  onValueChange={(value) => updateStep(index, { audience: value as EscalationAudience })}
+                >
+                  <SelectTrigger data-testid={`select-escalation-audience-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(AUDIENCE_LABELS) as EscalationAudience[]).map(audience => (
+                      <SelectItem key={audience} value={audience}>{AUDIENCE_LABELS[audience]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive"
+                onClick={() => setSteps(prev => prev.filter((_, i) => i !== index))}
+                disabled={steps.length === 1}
+                data-testid={`remove-escalation-step-${index}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between">
+          <Button
+            variant="outline"
+            onClick={() => setSteps(prev => [...prev, { days: (prev[prev.length - 1]?.days ?? 0) + 7, audience: "managers" }])}
+            disabled={steps.length >= MAX_STEPS}
+            data-testid="add-escalation-step"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Adicionar etapa
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !isValid}
+            className="bg-compia-blue hover:bg-compia-blue/90"
+            data-testid="save-escalation-policy"
+          >
+            {saveMutation.isPending ? "Salvando..." : "Salvar"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
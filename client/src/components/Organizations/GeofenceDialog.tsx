@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MapPinned } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_GEOFENCE_RADIUS_METERS, MAX_GEOFENCE_RADIUS_METERS, MIN_GEOFENCE_RADIUS_METERS
+} from "@shared/geofence";
+
+interface GeofenceDialogProps {
+  organizationId: string;
+  radiusMeters?: number | null;
+  trigger: React.ReactNode;
+}
+
+export default function GeofenceDialog({ organizationId, radiusMeters, trigger }: GeofenceDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [radius, setRadius] = useState(DEFAULT_GEOFENCE_RADIUS_METERS);
+  const { toast } = useToast();
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest(`/api/organizations/${organizationId}/geofence`, 'PUT', { radiusMeters: radius }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organizations'] });
+      toast({ title: "Raio de check-in salvo", description: "Os próximos check-ins usarão o novo raio." });
+      setOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao salvar raio",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const isValid = Number.isInteger(radius) && radius >= MIN_GEOFENCE_RADIUS_METERS && radius <= MAX_GEOFENCE_RADIUS_METERS;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (value) setRadius(radiusMeters ?? DEFAULT_GEOFENCE_RADIUS_METERS);
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[440px]" data-testid="geofence-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <MapPinned className="w-5 h-5 text-compia-blue" />
+            <span>Check-in por GPS</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          Inspeções iniciadas ou concluídas além deste raio do local cadastrado, ou sem GPS, são sinalizadas para auditoria.
+        </p>
+
+        <div className="space-y-1">
+          <Label htmlFor="geofence-radius">Raio (metros)</Label>
+          <Input
+            id="geofence-radius"
+            type="number"
+            min={MIN_GEOFENCE_RADIUS_METERS}
+            max={MAX_GEOFENCE_RADIUS_METERS}
+            step={50}
+            value={Number.isNaN(radius) ? "" : radius}
+            onChange={(e) => setRadius(parseInt(e.target.value, 10))}
+            data-testid="input-geofence-radius"
+          />
+          <p className="text-xs text-muted-foreground">
+            Entre {MIN_GEOFENCE_RADIUS_METERS} e {MAX_GEOFENCE_RADIUS_METERS.toLocaleString('pt-BR')} metros
+          </p>
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !isValid}
+            className="bg-compia-blue hover:bg-compia-blue/90"
+            data-testid="save-geofence"
+          >
+            {saveMutation.isPending ? "Salvando..." : "Salvar"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
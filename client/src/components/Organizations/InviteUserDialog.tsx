@@ -14,6 +14,7 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { ROLE_LABELS } from "@/lib/constants";
+import { canAssignRole } from "@shared/permissions";
 
 const inviteUserSchema = z.object({
   email: z.string().email("Email inválido"),
@@ -96,9 +97,8 @@ export default function InviteUserDialog({ organizationId, trigger }: InviteUser
     }
   };
 
-  const availableRoles = user.role === 'system_admin' 
-    ? ['org_admin', 'manager', 'inspector', 'client']
-    : ['manager', 'inspector', 'client'];
+  const availableRoles = ['org_admin', 'manager', 'inspector', 'client']
+    .filter(role => canAssignRole(user.role, role));
 
   const defaultTrigger = (
     <Button className="bg-compia-blue hover:bg-compia-blue/90 text-primary-foreground">
@@ -60,8 +60,8 @@ export default function OrganizationHierarchy() {
   const renderOrganizationNode = (node: OrganizationNode): JSX.Element => {
     const hasChildren = node.children && node.children.length > 0;
     const isExpanded = expandedNodes.has(node.id);
-    const canManage = hasPermission(user, 'manage_organization');
-    const canCreateChild = hasPermission(user, 'create_organization') || 
+    const canManage = hasPermission(user, 'organization:update');
+    const canCreateChild = hasPermission(user, 'organization:create') || 
                           (user.role === 'org_admin' && user.organizationId === node.id);
 
     const planColors = {
@@ -215,7 +215,7 @@ export default function OrganizationHierarchy() {
           <CardTitle className="text-lg font-heading font-semibold text-foreground">
             Hierarquia Organizacional
           </CardTitle>
-          {hasPermission(user, 'create_organization') && (
+          {hasPermission(user, 'organization:create') && (
             <Button 
               className="bg-compia-blue hover:bg-compia-blue/90 text-primary-foreground"
               onClick={() => setShowNewOrgModal(true)}
@@ -0,0 +1,342 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { CheckCircle, KeyRound } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ROLE_LABELS } from "@/lib/constants";
+import type { SsoDomainClaim } from "@shared/schema";
+
+const PROVISIONED_ROLES = ["org_admin", "manager", "inspector", "client"] as const;
+
+const ssoFormSchema = z.object({
+  isEnabled: z.boolean(),
+  domains: z.string().min(3, "Informe pelo menos um domínio"),
+  issuerUrl: z.string().url("URL inválida").or(z.literal("")),
+  clientId: z.string(),
+  clientSecret: z.string(),
+  scopes: z.string(),
+  defaultRole: z.enum(PROVISIONED_ROLES),
+  roleClaim: z.string(),
+  // One "claim value=role" pair per line
+  roleMappings: z.string()
+});
+
+type SSOFormData = z.infer<typeof ssoFormSchema>;
+
+interface SSOConfigDialogProps {
+  organizationId: string;
+  trigger: React.ReactNode;
+}
+
+function parseRoleMappings(text: string): Record<string, string> {
+  return Object.fromEntries(
+    text.split("\n")
+      .map(line => line.split("="))
+      .filter(([value, role]) => value?.trim() && PROVISIONED_ROLES.includes(role?.trim() as any))
+      .map(([value, role]) => [value.trim(), role.trim()])
+  );
+}
+
+export default function SSOConfigDialog({ organizationId, trigger }: SSOConfigDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+
+  const { data: config } = useQuery<any>({
+    queryKey: [`/api/organizations/${organizationId}/sso`],
+    enabled: open
+  });
+
+  const form = useForm<SSOFormData>({
+    resolver: zodResolver(ssoFormSchema),
+    defaultValues: {
+      isEnabled: false,
+      domains: "",
+      issuerUrl: "",
+      clientId: "",
+      clientSecret: "",
+      scopes: "openid email profile",
+      defaultRole: "inspector",
+      roleClaim: "",
+      roleMappings: ""
+    }
+  });
+
+  useEffect(() => {
+    if (config) {
+      form.reset({
+        isEnabled: !!config.isEnabled,
+        domains: (config.domains || []).join(", "),
+        issuerUrl: config.issuerUrl || "",
+        clientId: config.clientId || "",
+        clientSecret: "",
+        scopes: config.scopes || "openid email profile",
+        defaultRole: config.defaultRole || "inspector",
+        roleClaim: config.roleClaim || "",
+        roleMappings: Object.entries(config.roleMappings || {}).map(([value, role]) => `${value}=${role}`).join("\n")
+      });
+    }
+  }, [config]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: SSOFormData) => apiRequest(`/api/organizations/${organizationId}/sso`, 'PUT', {
+      ...data,
+      domains: data.domains.split(/[,\s]+/).filter(Boolean),
+      issuerUrl: data.issuerUrl || null,
+      clientSecret: data.clientSecret || null,
+      roleClaim: data.roleClaim || null,
+      roleMappings: parseRoleMappings(data.roleMappings)
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/organizations/${organizationId}/sso`] });
+      toast({
+        title: "SSO atualizado",
+        description: "A configuração de login corporativo foi salva.",
+      });
+      setOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao salvar SSO",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: (domain: string) =>
+      apiRequest(`/api/organizations/${organizationId}/sso/domains/${encodeURIComponent(domain)}/verify`, 'POST'),
+    onSuccess: (_data, domain) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/organizations/${organizationId}/sso`] });
+      toast({
+        title: "Domínio verificado",
+        description: `Usuários de ${domain} já podem entrar pelo provedor de identidade.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Domínio não verificado",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const domainClaims: SsoDomainClaim[] = config?.domainClaims || [];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto" data-testid="sso-config-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <KeyRound className="w-5 h-5 text-compia-blue" />
+            <span>Login Corporativo (SSO)</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="isEnabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <FormLabel>SSO ativo</FormLabel>
+                    <FormDescription>Usuários dos domínios abaixo entram pelo provedor de identidade</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-sso-enabled" />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="defaultRole"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Perfil padrão</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-sso-default-role">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {PROVISIONED_ROLES.map(role => (
+                        <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="domains"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Domínios de email</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="empresa.com.br, empresa.com" data-testid="input-sso-domains" />
+                  </FormControl>
+                  <FormDescription>Cada domínio só passa a usar o SSO depois de verificado por DNS</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {domainClaims.length > 0 && (
+              <div className="space-y-2" data-testid="sso-domain-claims">
+                {domainClaims.map(claim => (
+                  <div key={claim.domain} className="rounded-lg border p-3 space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{claim.domain}</span>
+                      {claim.verifiedAt ? (
+                        <Badge className="bg-compia-green/10 text-compia-green">
+                          <CheckCircle className="w-3 h-3 mr-1" />
+                          Verificado
+                        </Badge>
+                      ) : (
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          disabled={verifyMutation.isPending}
+                          onClick={() => verifyMutation.mutate(claim.domain)}
+                          data-testid={`verify-sso-domain-${claim.domain}`}
+                        >
+                          Verificar
+                        </Button>
+                      )}
+                    </div>
+                    {!claim.verifiedAt && (
+                      <p className="text-xs text-muted-foreground break-all">
+                        Crie um registro TXT <span className="font-mono">{claim.recordName}</span> com o valor{" "}
+                        <span className="font-mono">{claim.recordValue}</span>
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="issuerUrl"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Issuer URL</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="https://login.empresa.com/realms/sst" data-testid="input-sso-issuer" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="clientId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Client ID</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-sso-client-id" />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="clientSecret"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Client Secret</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="password"
+                        placeholder={config?.hasClientSecret ? "•••••• (mantido)" : ""}
+                        data-testid="input-sso-client-secret"
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="scopes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Escopos</FormLabel>
+                  <FormControl>
+                    <Input {...field} data-testid="input-sso-scopes" />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="roleClaim"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Claim de perfil</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="groups" data-testid="input-sso-role-claim" />
+                  </FormControl>
+                  <FormDescription>Deixe em branco para usar sempre o perfil padrão</FormDescription>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="roleMappings"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Mapeamento de perfis</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={3} placeholder={"SST-Admins=org_admin\nSST-Gestores=manager"} data-testid="input-sso-role-mappings" />
+                  </FormControl>
+                  <FormDescription>Um valor por linha no formato valor=perfil</FormDescription>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancelar
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveMutation.isPending}
+                className="bg-compia-blue hover:bg-compia-blue/90"
+                data-testid="save-sso-config"
+              >
+                {saveMutation.isPending ? "Salvando..." : "Salvar"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
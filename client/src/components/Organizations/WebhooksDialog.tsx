@@ -0,0 +1,364 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Webhook, Copy, Trash2, Send, RotateCcw, ArrowLeft, History } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { WebhookEvent, PublicWebhookEndpoint, WebhookDelivery } from "@shared/schema";
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  "inspection.created": "Inspeção criada",
+  "inspection.started": "Inspeção iniciada",
+  "inspection.completed": "Inspeção concluída",
+  "inspection.approved": "Inspeção aprovada",
+  "inspection.rejected": "Inspeção rejeitada",
+  "inspection.missed": "Inspeção agendada não iniciada",
+  "action_plan.created": "Plano de ação criado",
+  "action_plan.status_changed": "Status do plano de ação alterado",
+  "action_plan.overdue": "Plano de ação atrasado"
+};
+
+const EVENTS = Object.keys(EVENT_LABELS) as WebhookEvent[];
+
+const DELIVERY_STATUS: Record<string, { label: string; className: string }> = {
+  pending: { label: "Pendente", className: "bg-compia-blue/10 text-compia-blue" },
+  succeeded: { label: "Entregue", className: "bg-compia-green/10 text-compia-green" },
+  failed: { label: "Falhou", className: "bg-destructive/10 text-destructive" }
+};
+
+interface WebhooksDialogProps {
+  organizationId: string;
+  trigger: React.ReactNode;
+}
+
+function DeliveryLog({ endpoint, onBack }: { endpoint: PublicWebhookEndpoint; onBack: () => void }) {
+  const { toast } = useToast();
+  const deliveriesQueryKey = [`/api/webhooks/${endpoint.id}/deliveries`];
+
+  const { data: deliveries, isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: deliveriesQueryKey,
+    refetchInterval: 10000
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/webhooks/deliveries/${id}/replay`, 'POST'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: deliveriesQueryKey });
+      toast({ title: "Reenvio agendado" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao reenviar", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="space-y-3" data-testid="webhook-deliveries">
+      <div className="flex items-center space-x-2">
+        <Button variant="ghost" size="sm" onClick={onBack} data-testid="webhook-deliveries-back">
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <span className="font-mono text-sm break-all">{endpoint.url}</span>
+      </div>
+
+      <div className="divide-y rounded-lg border">
+        {isLoading ? (
+          <p className="p-4 text-sm text-muted-foreground">Carregando...</p>
+        ) : !deliveries?.length ? (
+          <p className="p-4 text-sm text-muted-foreground">Nenhuma entrega registrada.</p>
+        ) : deliveries.map(delivery => {
+          const status = DELIVERY_STATUS[delivery.status];
+          return (
+            <div key={delivery.id} className="flex items-start justify-between p-3" data-testid={`webhook-delivery-${delivery.id}`}>
+              <div className="space-y-1 min-w-0">
+                <div className="flex items-center space-x-2">
+                  <Badge className={status.className}>{status.label}</Badge>
+                  <span className="font-mono text-xs">{delivery.event}</span>
+                  {delivery.responseStatus && (
+                    <span className="text-xs text-muted-foreground">HTTP {delivery.responseStatus}</span>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {delivery.createdAt ? new Date(delivery.createdAt).toLocaleString('pt-BR') : "—"} · {delivery.attempts} tentativa(s)
+                  {delivery.status === "pending" && delivery.nextAttemptAt && (
+                    <> · próxima em {new Date(delivery.nextAttemptAt).toLocaleTimeString('pt-BR')}</>
+                  )}
+                </p>
+                {delivery.error && delivery.status !== "succeeded" && (
+                  <p className="text-xs text-destructive truncate">{delivery.error}</p>
+                )}
+              </div>
+              {delivery.status !== "pending" && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => replayMutation.mutate(delivery.id)}
+                  disabled={replayMutation.isPending}
+                  data-testid={`replay-webhook-delivery-${delivery.id}`}
+                >
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                  Reenviar
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default function WebhooksDialog({ organizationId, trigger }: WebhooksDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<Set<WebhookEvent>>(new Set());
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [selectedEndpoint, setSelectedEndpoint] = useState<PublicWebhookEndpoint | null>(null);
+  const { toast } = useToast();
+
+  const endpointsQueryKey = [`/api/webhooks?organizationId=${organizationId}`];
+  const { data: endpoints, isLoading } = useQuery<PublicWebhookEndpoint[]>({
+    queryKey: endpointsQueryKey,
+    enabled: open
+  });
+
+  const resetForm = () => {
+    setUrl("");
+    setDescription("");
+    setEvents(new Set());
+    setCreatedSecret(null);
+    setSelectedEndpoint(null);
+  };
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(event); else next.delete(event);
+      return next;
+    });
+  };
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({ title, description: (error as Error).message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest('/api/webhooks', 'POST', {
+      organizationId,
+      url,
+      description: description || null,
+      events: Array.from(events)
+    }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: endpointsQueryKey });
+      setCreatedSecret(data.secret);
+    },
+    onError: onError("Erro ao cadastrar webhook")
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiRequest(`/api/webhooks/${id}`, 'PUT', { isActive }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: endpointsQueryKey }),
+    onError: onError("Erro ao alterar webhook")
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/webhooks/${id}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: endpointsQueryKey });
+      toast({ title: "Webhook removido" });
+    },
+    onError: onError("Erro ao remover webhook")
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/webhooks/${id}/test`, 'POST'),
+    onSuccess: (delivery: WebhookDelivery) => {
+      queryClient.invalidateQueries({ queryKey: endpointsQueryKey });
+      toast(delivery.status === "succeeded"
+        ? { title: "Teste entregue", description: `O receptor respondeu HTTP ${delivery.responseStatus}.` }
+        : { title: "Teste falhou", description: delivery.error || "Sem resposta do receptor", variant: "destructive" });
+    },
+    onError: onError("Erro ao enviar teste")
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        resetForm();
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto" data-testid="webhooks-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Webhook className="w-5 h-5 text-compia-blue" />
+            <span>Webhooks</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {selectedEndpoint ? (
+          <DeliveryLog endpoint={selectedEndpoint} onBack={() => setSelectedEndpoint(null)} />
+        ) : (
+          <>
+            {createdSecret ? (
+              <div className="space-y-3" data-testid="webhook-created">
+                <p className="text-sm text-muted-foreground">
+                  Use este segredo para validar o cabeçalho <span className="font-mono">X-Compia-Signature</span>.
+                  Ele não será exibido novamente.
+                </p>
+                <div className="rounded-lg border bg-muted/50 p-3 font-mono text-sm break-all" data-testid="webhook-secret">
+                  {createdSecret}
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      navigator.clipboard.writeText(createdSecret);
+                      toast({ title: "Segredo copiado" });
+                    }}
+                    data-testid="copy-webhook-secret"
+                  >
+                    <Copy className="w-4 h-4 mr-2" />
+                    Copiar
+                  </Button>
+                  <Button className="bg-compia-blue hover:bg-compia-blue/90" onClick={resetForm}>
+                    Concluir
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4 rounded-lg border p-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="webhook-url">URL</Label>
+                    <Input
+                      id="webhook-url"
+                      value={url}
+                      onChange={(e) => setUrl(e.target.value)}
+                      placeholder="https://erp.exemplo.com.br/webhooks/compia"
+                      data-testid="input-webhook-url"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="webhook-description">Descrição</Label>
+                    <Input
+                      id="webhook-description"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      placeholder="Ex.: ERP financeiro"
+                      data-testid="input-webhook-description"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Eventos</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {EVENTS.map(event => (
+                      <label key={event} className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={events.has(event)}
+                          onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                          data-testid={`webhook-event-${event}`}
+                        />
+                        <span>{EVENT_LABELS[event]}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <Button
+                    onClick={() => createMutation.mutate()}
+                    disabled={createMutation.isPending || !url || events.size === 0}
+                    className="bg-compia-blue hover:bg-compia-blue/90"
+                    data-testid="create-webhook"
+                  >
+                    {createMutation.isPending ? "Salvando..." : "Cadastrar webhook"}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="divide-y rounded-lg border" data-testid="webhooks-list">
+              {isLoading ? (
+                <p className="p-4 text-sm text-muted-foreground">Carregando...</p>
+              ) : !endpoints?.length ? (
+                <p className="p-4 text-sm text-muted-foreground">Nenhum webhook cadastrado para esta organização.</p>
+              ) : endpoints.map(endpoint => (
+                <div key={endpoint.id} className="space-y-2 p-3" data-testid={`webhook-${endpoint.id}`}>
+                  <div className="flex items-start justify-between">
+                    <div className="space-y-1 min-w-0">
+                      <p className="font-mono text-sm break-all">{endpoint.url}</p>
+                      {endpoint.description && (
+                        <p className="text-xs text-muted-foreground">{endpoint.description}</p>
+                      )}
+                      {endpoint.disabledAt && !endpoint.isActive && (
+                        <Badge className="bg-destructive/10 text-destructive">
+                          Desativado após {endpoint.consecutiveFailures} falhas
+                        </Badge>
+                      )}
+                    </div>
+                    <Switch
+                      checked={!!endpoint.isActive}
+                      disabled={toggleMutation.isPending}
+                      onCheckedChange={(checked) => toggleMutation.mutate({ id: endpoint.id, isActive: checked })}
+                      data-testid={`toggle-webhook-${endpoint.id}`}
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {endpoint.events.map(event => (
+                      <Badge key={event} variant="outline" className="font-mono text-xs">{event}</Badge>
+                    ))}
+                  </div>
+                  <div className="flex justify-end space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => testMutation.mutate(endpoint.id)}
+                      disabled={testMutation.isPending}
+                      data-testid={`test-webhook-${endpoint.id}`}
+                    >
+                      <Send className="w-4 h-4 mr-1" />
+                      Testar
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSelectedEndpoint(endpoint)}
+                      data-testid={`webhook-log-${endpoint.id}`}
+                    >
+                      <History className="w-4 h-4 mr-1" />
+                      Entregas
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => deleteMutation.mutate(endpoint.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`delete-webhook-${endpoint.id}`}
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Remover
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ShieldCheck } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, hasPermission } from "@/hooks/useAuth";
+import { ROLE_LABELS } from "@/lib/constants";
+import {
+  PERMISSION_RESOURCES, RESOURCE_LABELS, ACTION_LABELS, DEFAULT_ROLE_PERMISSIONS,
+  type Permission, type PermissionResource
+} from "@shared/permissions";
+import type { CustomRole } from "@shared/schema";
+
+const BASE_ROLES = ["org_admin", "manager", "inspector", "client"] as const;
+type BaseRole = typeof BASE_ROLES[number];
+
+// Platform administration can't be delegated through a custom role
+const EDITABLE_RESOURCES = (Object.keys(PERMISSION_RESOURCES) as PermissionResource[])
+  .filter(resource => resource !== "system");
+
+const ALL_ACTIONS = Array.from(new Set(EDITABLE_RESOURCES.flatMap(resource => [...PERMISSION_RESOURCES[resource]])));
+
+interface RoleEditorDialogProps {
+  organizationId: string;
+  role?: CustomRole;
+  trigger: React.ReactNode;
+}
+
+export default function RoleEditorDialog({ organizationId, role, trigger }: RoleEditorDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [baseRole, setBaseRole] = useState<BaseRole>("inspector");
+  const [permissions, setPermissions] = useState<Set<Permission>>(new Set());
+  const { toast } = useToast();
+  const { user } = useAuth();
+  // The server refuses permissions the editor doesn't have
+  const canGrant = (permission: Permission) => hasPermission(user, permission);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(role?.name || "");
+    setDescription(role?.description || "");
+    setBaseRole((role?.baseRole as BaseRole) || "inspector");
+    setPermissions(new Set((role?.permissions || DEFAULT_ROLE_PERMISSIONS.inspector.filter(canGrant)) as Permission[]));
+  }, [open, role]);
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setPermissions(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(permission); else next.delete(permission);
+      return next;
+    });
+  };
+
+  const applyBaseRole = (value: BaseRole) => {
+    setBaseRole(value);
+    setPermissions(new Set(DEFAULT_ROLE_PERMISSIONS[value].filter(canGrant)));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const payload = {
+        organizationId,
+        name,
+        description: description || null,
+        baseRole,
+        permissions: Array.from(permissions)
+      };
+      return role
+        ? apiRequest(`/api/roles/${role.id}`, 'PUT', payload)
+        : apiRequest('/api/roles', 'POST', payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
+      toast({
+        title: role ? "Perfil atualizado" : "Perfil criado",
+        description: `As permissões de "${name}" foram salvas.`,
+      });
+      setOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao salvar perfil",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto" data-testid="role-editor-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ShieldCheck className="w-5 h-5 text-compia-blue" />
+            <span>{role ? "Editar perfil de acesso" : "Novo perfil de acesso"}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="role-name">Nome</Label>
+              <Input
+                id="role-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Ex.: Auditor externo"
+                data-testid="input-role-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Baseado em</Label>
+              <Select value={baseRole} onValueChange={(value) => applyBaseRole(value as BaseRole)}>
+                <SelectTrigger data-testid="select-role-base">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BASE_ROLES.map(base => (
+                    <SelectItem key={base} value={base}>{ROLE_LABELS[base]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="role-description">Descrição</Label>
+            <Textarea
+              id="role-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              data-testid="input-role-description"
+            />
+          </div>
+
+          {/* Permission matrix: one row per resource, one column per action */}
+          <div className="overflow-x-auto rounded-lg border">
+            <table className="w-full text-sm" data-testid="permission-matrix">
+              <thead>
+                <tr className="border-b bg-muted/50">
+                  <th className="text-left p-2 font-medium text-muted-foreground">Recurso</th>
+                  {ALL_ACTIONS.map(action => (
+                    <th key={action} className="p-2 font-medium text-muted-foreground text-center">
+                      {ACTION_LABELS[action] || action}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {EDITABLE_RESOURCES.map(resource => (
+                  <tr key={resource}>
+                    <td className="p-2 font-medium text-foreground">{RESOURCE_LABELS[resource]}</td>
+                    {ALL_ACTIONS.map(action => {
+                      const permission = `${resource}:${action}` as Permission;
+                      const available = (PERMISSION_RESOURCES[resource] as readonly string[]).includes(action);
+                      return (
+                        <td key={action} className="p-2 text-center">
+                          {available && (
+                            <Checkbox
+                              checked={permissions.has(permission)}
+                              disabled={!permissions.has(permission) && !canGrant(permission)}
+                              onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                              data-testid={`permission-${resource}-${action}`}
+                            />
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || name.trim().length < 2}
+              className="bg-compia-blue hover:bg-compia-blue/90"
+              data-testid="save-role"
+            >
+              {saveMutation.isPending ? "Salvando..." : "Salvar"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,56 +1,42 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import type { User } from "@shared/schema";
+import type { Permission } from "@shared/permissions";
+import { apiRequest, getQueryFn, queryClient, queryPersister } from "@/lib/queryClient";
+
+export type SessionUser = User & {
+  permissions?: Permission[];
+  twoFactorSetupRequired?: boolean;
+};
 
 export function useAuth() {
-  const { data: user, isLoading, error } = useQuery<User>({
+  const { data: user, isLoading, error } = useQuery<SessionUser | null>({
     queryKey: ['/api/user/me'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
     retry: false
   });
 
-  // Mock user for development - in production this would come from real auth
-  const mockUser: User = {
-    id: "admin-id",
-    email: "admin@iasst.com",
-    name: "System Administrator",
-    role: "system_admin",
-    organizationId: "master-org-id",
-    isActive: true,
-    lastLoginAt: new Date(),
-    createdAt: new Date(),
-    updatedAt: new Date()
-  };
-
   return {
-    user: user || mockUser,
+    user: user ?? undefined,
     isLoading,
     error,
-    isAuthenticated: !!(user || mockUser)
+    isAuthenticated: !!user
   };
 }
 
-export function hasPermission(user: User, permission: string): boolean {
-  switch (permission) {
-    case "view_dashboard":
-      return true;
-    case "create_organization":
-      return user.role === "system_admin";
-    case "manage_organization":
-      return user.role === "system_admin" || user.role === "org_admin";
-    case "invite_user":
-      return user.role === "system_admin" || user.role === "org_admin";
-    case "create_inspection":
-      return user.role !== "client";
-    case "manage_inspections":
-      return user.role !== "client";
-    case "manage_action_plans":
-      return user.role !== "client";
-    case "view_reports":
-      return true;
-    case "export_data":
-      return user.role !== "client";
-    case "system_admin":
-      return user.role === "system_admin";
-    default:
-      return false;
-  }
+export function useLogout() {
+  return useMutation({
+    mutationFn: () => apiRequest('/api/auth/logout', 'POST'),
+    onSuccess: async () => {
+      queryClient.setQueryData(['/api/user/me'], null);
+      queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== '/api/user/me' });
+      // Organization data must not stay on a shared device after logout
+      await queryPersister.removeClient();
+      window.location.href = '/login';
+    }
+  });
+}
+
+// Permissions are resolved on the server (role defaults or a custom role)
+export function hasPermission(user: SessionUser | undefined, permission: Permission): boolean {
+  return !!user?.permissions?.includes(permission);
 }
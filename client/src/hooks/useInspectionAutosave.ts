@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useSyncStatus } from "@/hooks/useSyncStatus";
+import {
+  queueSyncChange, syncOutbox, getPendingChanges, onSyncResult, appliedItemIds,
+  type OutboxEntry, type SyncResult
+} from "@/lib/offline-sync";
+import type { InspectionItemResponse } from "@shared/inspection-responses";
+
+export type AutosaveStatus = "idle" | "pending" | "saving" | "saved" | "offline" | "error";
+
+const DEBOUNCE_MS = 800;
+
+// null marks an answer that was cleared
+type PendingChanges = Record<string, InspectionItemResponse | null>;
+
+// Keeps checklist answers in local state and queues each change in the
+// offline outbox, which stores it in IndexedDB and sends it to /api/sync.
+// Every change carries the server version of the answer it replaces, so
+// edits made elsewhere in the meantime come back as conflicts; the server
+// copy is kept and shown in their place.
+export function useInspectionAutosave(inspectionId: string | undefined, savedResponses: InspectionItemResponse[] | undefined) {
+  const { toast } = useToast();
+  const sync = useSyncStatus();
+  const [responses, setResponses] = useState<Record<string, InspectionItemResponse>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const [ready, setReady] = useState(false);
+  const [debouncing, setDebouncing] = useState(false);
+
+  // Server version (updatedAt) each local answer is based on
+  const bases = useRef<Record<string, string | null>>({});
+  const debounced = useRef<PendingChanges>({});
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+
+  const queue = useCallback(async () => {
+    clearTimeout(timer.current);
+    timer.current = undefined;
+    const batch = debounced.current;
+    debounced.current = {};
+    setDebouncing(false);
+    const itemIds = Object.keys(batch);
+    if (!inspectionId || itemIds.length === 0) return;
+
+    try {
+      await queueSyncChange(inspectionId, "responses", {
+        responses: itemIds
+          .filter(id => batch[id])
+          .map(id => ({ ...batch[id]!, updatedAt: undefined, baseUpdatedAt: bases.current[id] ?? null })),
+        removed: itemIds
+          .filter(id => batch[id] === null)
+          .map(id => ({ itemId: id, baseUpdatedAt: bases.current[id] ?? null }))
+      });
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [inspectionId]);
+
+  // Resolves to whether every change of this inspection reached the server
+  const flush = useCallback(async (): Promise<boolean> => {
+    if (!inspectionId) return false;
+    await queue();
+    await syncOutbox();
+    return (await getPendingChanges(inspectionId)).length === 0;
+  }, [inspectionId, queue]);
+
+  // Load the server copy once, with the changes still in the outbox on top
+  useEffect(() => {
+    if (!inspectionId || !savedResponses || ready) return;
+    let cancelled = false;
+    getPendingChanges(inspectionId).then(pending => {
+      if (cancelled) return;
+      const merged: Record<string, InspectionItemResponse> = {};
+      for (const response of savedResponses) {
+        merged[response.itemId] = response;
+        bases.current[response.itemId] = response.updatedAt ?? null;
+      }
+      for (const entry of pending) {
+        for (const { baseUpdatedAt, ...response } of entry.responses) {
+          merged[response.itemId] = response;
+          bases.current[response.itemId] = baseUpdatedAt;
+        }
+        for (const { itemId, baseUpdatedAt } of entry.removed) {
+          delete merged[itemId];
+          bases.current[itemId] = baseUpdatedAt;
+        }
+      }
+      setResponses(merged);
+      setReady(true);
+    });
+    return () => { cancelled = true; };
+  }, [inspectionId, savedResponses, ready]);
+
+  // Applied answers become the new base; conflicting and rejected ones are
+  // replaced by the server copy
+  useEffect(() => {
+    if (!inspectionId) return;
+    return onSyncResult((result: SyncResult, entry: OutboxEntry) => {
+      if (result.inspectionId !== inspectionId) return;
+      const server = new Map(
+        ((result.inspection?.responses ?? []) as InspectionItemResponse[]).map(r => [r.itemId, r])
+      );
+      const applied = appliedItemIds(result, entry);
+      const reverted = [...entry.responses, ...entry.removed]
+        .map(r => r.itemId)
+        .filter(itemId => !applied.has(itemId));
+
+      applied.forEach(itemId => { bases.current[itemId] = server.get(itemId)?.updatedAt ?? null; });
+      if (result.inspection) {
+        for (const itemId of reverted) bases.current[itemId] = server.get(itemId)?.updatedAt ?? null;
+        setResponses(prev => {
+          const next = { ...prev };
+          for (const itemId of reverted) {
+            const response = server.get(itemId);
+            if (response) next[itemId] = response; else delete next[itemId];
+          }
+          return next;
+        });
+      }
+
+      if (result.status === "applied") {
+        setSavedAt(new Date());
+        setError(null);
+      } else if (result.status === "conflict") {
+        toast({
+          title: "Conflito de sincronização",
+          description: `${result.message || "A inspeção foi alterada em outro dispositivo"}. A versão do servidor foi mantida.`,
+          variant: "destructive"
+        });
+      } else {
+        setError(result.message || "Alterações recusadas pelo servidor");
+      }
+    });
+  }, [inspectionId, toast]);
+
+  // Changes still in the debounce window go to the outbox on the way out
+  useEffect(() => () => { queue(); }, [queue]);
+
+  // Text inputs are debounced; discrete choices are queued straight away
+  const setResponse = useCallback((itemId: string, response: InspectionItemResponse | null, options: { debounce?: boolean } = {}) => {
+    if (!inspectionId) return;
+    setResponses(prev => {
+      const next = { ...prev };
+      if (response) next[itemId] = response; else delete next[itemId];
+      return next;
+    });
+    debounced.current = { ...debounced.current, [itemId]: response };
+    setDebouncing(true);
+    clearTimeout(timer.current);
+    timer.current = setTimeout(() => { queue(); }, options.debounce ? DEBOUNCE_MS : 0);
+  }, [inspectionId, queue]);
+
+  const queued = !!inspectionId && sync.pendingInspectionIds.includes(inspectionId);
+  let status: AutosaveStatus = savedAt ? "saved" : "idle";
+  if (error) status = "error";
+  else if (debouncing) status = "pending";
+  else if (queued) status = sync.online && !sync.lastError ? "saving" : "offline";
+
+  // Queued changes are safe in IndexedDB; only the debounce window is not
+  const hasUnsavedChanges = debouncing;
+
+  return { responses, setResponse, flush, status, error, savedAt, ready, hasUnsavedChanges };
+}
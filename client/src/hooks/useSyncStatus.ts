@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { getSyncStatus, subscribeSyncStatus, type SyncStatus } from "@/lib/offline-sync";
+
+// Connectivity and outbox state of the offline sync
+export function useSyncStatus(): SyncStatus {
+  return useSyncExternalStore(subscribeSyncStatus, getSyncStatus);
+}
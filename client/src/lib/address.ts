@@ -0,0 +1,29 @@
+import { apiRequest } from "@/lib/queryClient";
+import { normalizeCep, type AddressFields, type PostalAddress } from "@shared/address";
+import type { GeoPoint } from "@shared/geofence";
+
+export type CepLookup = PostalAddress & { fields: AddressFields };
+
+const isNotFound = (error: unknown) => (error as Error).message.startsWith("404");
+
+// Resolves null for an incomplete or unknown CEP; an unavailable lookup
+// service rejects, so the form can tell the user to type the address
+export async function fetchCepAddress(value: string): Promise<CepLookup | null> {
+  const cep = normalizeCep(value);
+  if (!cep) return null;
+  try {
+    return await apiRequest(`/api/address/cep/${cep}`);
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+}
+
+export async function fetchAddressCoordinates(fields: Partial<AddressFields>): Promise<GeoPoint | null> {
+  try {
+    return await apiRequest('/api/address/geocode', 'POST', fields);
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+}
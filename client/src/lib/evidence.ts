@@ -0,0 +1,25 @@
+import { apiRequest } from "@/lib/queryClient";
+import type { EvidenceAnnotations, PublicFile } from "@shared/schema";
+
+// Matches the types the API accepts (server/services/evidence.ts)
+export const EVIDENCE_ACCEPT = "image/jpeg,image/png,image/webp,image/heic,image/heif,application/pdf,.docx,.xlsx,.txt,.csv";
+
+export async function uploadEvidence(url: string, files: FileList | File[], itemId?: string): Promise<PublicFile[]> {
+  const body = new FormData();
+  Array.from(files).forEach(file => body.append("files", file));
+  if (itemId) body.append("itemId", itemId);
+  return apiRequest(url, { method: "POST", body });
+}
+
+// Stores the rendered image as a new revision of the original photo
+export async function saveAnnotatedEvidence(fileId: string, image: Blob, fileName: string, annotations: EvidenceAnnotations): Promise<PublicFile> {
+  const body = new FormData();
+  body.append("files", image, fileName);
+  body.append("annotations", JSON.stringify(annotations));
+  return apiRequest(`/api/files/${fileId}/annotations`, { method: "POST", body });
+}
+
+// Photos every browser can decode into the annotation canvas
+export function isAnnotatable(file: PublicFile): boolean {
+  return ["image/jpeg", "image/png", "image/webp"].includes(file.type);
+}
@@ -0,0 +1,24 @@
+import type { DevicePosition } from "@shared/geofence";
+
+const POSITION_TIMEOUT_MS = 10000;
+// A fix this recent is still where the inspector is standing
+const MAX_POSITION_AGE_MS = 60000;
+
+// Current device position for check-ins. Resolves undefined when the
+// inspector denies access or no fix arrives in time: the action still goes
+// through and the server flags it as done without GPS.
+export function getDevicePosition(): Promise<DevicePosition | undefined> {
+  if (!("geolocation" in navigator)) return Promise.resolve(undefined);
+  return new Promise(resolve => {
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+        capturedAt: new Date(position.timestamp).toISOString()
+      }),
+      () => resolve(undefined),
+      { enableHighAccuracy: true, timeout: POSITION_TIMEOUT_MS, maximumAge: MAX_POSITION_AGE_MS }
+    );
+  });
+}
@@ -0,0 +1,337 @@
+import { createStore, get, set } from "idb-keyval";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { InspectionItemResponse } from "@shared/inspection-responses";
+import type { DevicePosition } from "@shared/geofence";
+import type { Inspection, User } from "@shared/schema";
+
+// Offline outbox for inspection work. Every change is written to IndexedDB
+// first and sent to POST /api/sync in order; the server records each change
+// id, so resending a batch after a lost response is harmless.
+
+export type SyncChangeKind = "start" | "responses" | "complete";
+
+export interface OutboxEntry {
+  id: string;
+  userId: string;
+  inspectionId: string;
+  kind: SyncChangeKind;
+  // baseUpdatedAt is the server version the inspector edited; null for
+  // answers the device never received from the server
+  responses: (InspectionItemResponse & { baseUpdatedAt: string | null })[];
+  removed: { itemId: string; baseUpdatedAt: string | null }[];
+  // GPS check-in of start and complete changes, taken when queued
+  position?: DevicePosition;
+  createdAt: string;
+}
+
+export interface SyncConflict {
+  itemId: string;
+  server: InspectionItemResponse | null;
+  client: InspectionItemResponse | null;
+}
+
+export interface SyncResult {
+  id: string;
+  inspectionId: string;
+  status: "applied" | "conflict" | "rejected";
+  message?: string;
+  errors?: string[];
+  conflicts?: SyncConflict[];
+  inspection?: Pick<Inspection, "id" | "status" | "responses" | "score" | "updatedAt">;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  pendingInspectionIds: string[];
+  conflicts: number;
+  lastSyncAt: Date | null;
+  lastError: string | null;
+}
+
+const RETRY_MS = 30000;
+// Keeps batches with photos under the 5 MB API body limit
+const MAX_BATCH_BYTES = 4 * 1024 * 1024;
+const MAX_BATCH_CHANGES = 100;
+
+const outboxStore = createStore("compia-offline", "outbox");
+const OUTBOX_KEY = "changes";
+
+let entries: OutboxEntry[] = [];
+let loaded: Promise<void> | null = null;
+let writing: Promise<void> = Promise.resolve();
+const inFlight = new Set<string>();
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+let status: SyncStatus = {
+  online: typeof navigator === "undefined" ? true : navigator.onLine,
+  syncing: false,
+  pending: 0,
+  pendingInspectionIds: [],
+  conflicts: 0,
+  lastSyncAt: null,
+  lastError: null
+};
+
+const statusListeners = new Set<() => void>();
+const resultListeners = new Set<(result: SyncResult, entry: OutboxEntry) => void>();
+
+function setStatus(changes: Partial<SyncStatus>) {
+  status = { ...status, ...changes };
+  statusListeners.forEach(listener => listener());
+}
+
+function refreshPending() {
+  setStatus({
+    pending: entries.length,
+    pendingInspectionIds: Array.from(new Set(entries.map(entry => entry.inspectionId)))
+  });
+}
+
+function loadOutbox(): Promise<void> {
+  if (!loaded) {
+    loaded = get<OutboxEntry[]>(OUTBOX_KEY, outboxStore)
+      .then(stored => {
+        entries = [...(stored || []), ...entries];
+      })
+      .catch(() => {
+        // IndexedDB is unavailable (private mode); the outbox stays in memory
+      })
+      .finally(refreshPending);
+  }
+  return loaded;
+}
+
+function saveOutbox(): Promise<void> {
+  const snapshot = entries.slice();
+  writing = writing.then(() => set(OUTBOX_KEY, snapshot, outboxStore)).catch(() => {});
+  refreshPending();
+  return writing;
+}
+
+function currentUserId(): string | undefined {
+  return queryClient.getQueryData<User | null>(['/api/user/me'])?.id;
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+export function subscribeSyncStatus(listener: () => void): () => void {
+  statusListeners.add(listener);
+  return () => statusListeners.delete(listener);
+}
+
+// Called with every server answer, together with the change it refers to
+export function onSyncResult(listener: (result: SyncResult, entry: OutboxEntry) => void): () => void {
+  resultListeners.add(listener);
+  return () => resultListeners.delete(listener);
+}
+
+export async function getPendingChanges(inspectionId: string): Promise<OutboxEntry[]> {
+  await loadOutbox();
+  return entries.filter(entry => entry.inspectionId === inspectionId);
+}
+
+export function clearSyncConflicts() {
+  setStatus({ conflicts: 0 });
+}
+
+// Queues a change and tries to send it. Consecutive answer changes for the
+// same inspection are merged while the batch has not been sent, keeping the
+// oldest base version of each item.
+export async function queueSyncChange(
+  inspectionId: string,
+  kind: SyncChangeKind,
+  changes: Pick<OutboxEntry, "responses" | "removed"> = { responses: [], removed: [] },
+  position?: DevicePosition
+): Promise<string> {
+  await loadOutbox();
+  const userId = currentUserId();
+  if (!userId) throw new Error("Sessão expirada. Entre novamente para salvar.");
+
+  const last = entries[entries.length - 1];
+  if (kind === "responses" && last && last.kind === "responses" && last.inspectionId === inspectionId &&
+      last.userId === userId && !inFlight.has(last.id)) {
+    const bases = new Map<string, string | null>([
+      ...last.responses.map(r => [r.itemId, r.baseUpdatedAt] as const),
+      ...last.removed.map(r => [r.itemId, r.baseUpdatedAt] as const)
+    ]);
+    const touched = new Set([...changes.responses, ...changes.removed].map(r => r.itemId));
+    const baseOf = (itemId: string, fallback: string | null) => bases.has(itemId) ? bases.get(itemId)! : fallback;
+
+    last.responses = [
+      ...last.responses.filter(r => !touched.has(r.itemId)),
+      ...changes.responses.map(r => ({ ...r, baseUpdatedAt: baseOf(r.itemId, r.baseUpdatedAt) }))
+    ];
+    last.removed = [
+      ...last.removed.filter(r => !touched.has(r.itemId)),
+      ...changes.removed.map(r => ({ ...r, baseUpdatedAt: baseOf(r.itemId, r.baseUpdatedAt) }))
+    ];
+    await saveOutbox();
+    syncOutbox();
+    return last.id;
+  }
+
+  const entry: OutboxEntry = {
+    id: crypto.randomUUID(),
+    userId,
+    inspectionId,
+    kind,
+    responses: changes.responses,
+    removed: changes.removed,
+    position,
+    createdAt: new Date().toISOString()
+  };
+  entries.push(entry);
+  await saveOutbox();
+  syncOutbox();
+  return entry.id;
+}
+
+function nextBatch(userId: string): OutboxEntry[] {
+  const batch: OutboxEntry[] = [];
+  let bytes = 0;
+  for (const entry of entries) {
+    if (entry.userId !== userId) continue;
+    const size = JSON.stringify(entry).length;
+    if (batch.length > 0 && (bytes + size > MAX_BATCH_BYTES || batch.length >= MAX_BATCH_CHANGES)) break;
+    batch.push(entry);
+    bytes += size;
+  }
+  return batch;
+}
+
+// Items of the change the server accepted; a conflict still applies the
+// items that did not conflict
+export function appliedItemIds(result: SyncResult, entry: OutboxEntry): Set<string> {
+  if (result.status === "rejected" || (result.status === "conflict" && !result.conflicts)) return new Set();
+  const conflicting = new Set((result.conflicts ?? []).map(conflict => conflict.itemId));
+  return new Set([...entry.responses, ...entry.removed].map(r => r.itemId).filter(itemId => !conflicting.has(itemId)));
+}
+
+// Queued changes were based on the versions the device had; once an earlier
+// change for the same items is applied, they build on the new server version
+function rebaseQueued(result: SyncResult, entry: OutboxEntry) {
+  const serverResponses = new Map(
+    ((result.inspection?.responses ?? []) as InspectionItemResponse[]).map(r => [r.itemId, r.updatedAt ?? null])
+  );
+  const applied = appliedItemIds(result, entry);
+  for (const queued of entries) {
+    if (queued.inspectionId !== entry.inspectionId) continue;
+    for (const change of [...queued.responses, ...queued.removed]) {
+      if (applied.has(change.itemId)) change.baseUpdatedAt = serverResponses.get(change.itemId) ?? null;
+    }
+  }
+}
+
+function updateCachedInspection(result: SyncResult) {
+  if (!result.inspection) return;
+  queryClient.setQueryData<Inspection>(['/api/inspections', result.inspectionId], (cached) =>
+    cached ? { ...cached, ...result.inspection } : cached
+  );
+}
+
+let syncing: Promise<SyncResult[]> | null = null;
+
+// Sends queued changes until the outbox is empty or the server is unreachable.
+// Resolves with the results of this run.
+export function syncOutbox(): Promise<SyncResult[]> {
+  if (!syncing) {
+    syncing = runSync().finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+}
+
+async function runSync(): Promise<SyncResult[]> {
+  await loadOutbox();
+  clearTimeout(retryTimer);
+  const userId = currentUserId();
+  const results: SyncResult[] = [];
+  if (!userId || !navigator.onLine) return results;
+
+  setStatus({ syncing: true });
+  try {
+    for (let batch = nextBatch(userId); batch.length > 0; batch = nextBatch(userId)) {
+      batch.forEach(entry => inFlight.add(entry.id));
+      let response: { results: SyncResult[] };
+      try {
+        response = await apiRequest('/api/sync', 'POST', {
+          changes: batch.map(({ id, inspectionId, kind, responses, removed, position }) => ({ id, inspectionId, kind, responses, removed, position }))
+        });
+      } finally {
+        batch.forEach(entry => inFlight.delete(entry.id));
+      }
+
+      const byId = new Map(batch.map(entry => [entry.id, entry]));
+      let conflicts = 0;
+      for (const result of response.results) {
+        const entry = byId.get(result.id);
+        if (!entry) continue;
+        entries = entries.filter(e => e.id !== entry.id);
+        rebaseQueued(result, entry);
+        if (result.status !== "applied") conflicts++;
+        updateCachedInspection(result);
+        resultListeners.forEach(listener => listener(result, entry));
+        results.push(result);
+      }
+      await saveOutbox();
+      setStatus({ conflicts: status.conflicts + conflicts });
+    }
+
+    setStatus({ lastSyncAt: new Date(), lastError: null });
+    if (results.length > 0) {
+      queryClient.invalidateQueries({ queryKey: ['/api/inspections'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+    }
+  } catch (error) {
+    const message = (error as Error).message;
+    // A 401 waits for the next login; anything else is retried later
+    if (!/^401:/.test(message)) {
+      retryTimer = setTimeout(() => { syncOutbox(); }, RETRY_MS);
+    }
+    setStatus({ lastError: message });
+  } finally {
+    setStatus({ syncing: false });
+  }
+  return results;
+}
+
+// Loads what an inspector needs in the field into the persisted query cache:
+// their open inspections with checklists, templates and companies
+export async function prefetchOfflineData() {
+  const userId = currentUserId();
+  if (!userId || !navigator.onLine) return;
+
+  const [inspections] = await Promise.all([
+    queryClient.fetchQuery<Inspection[]>({ queryKey: ['/api/inspections'], staleTime: 0 }),
+    queryClient.prefetchQuery({ queryKey: ['/api/checklist-templates'], staleTime: 0 }),
+    queryClient.prefetchQuery({ queryKey: ["/api/companies"], staleTime: 0 })
+  ]);
+
+  const assigned = inspections.filter(inspection =>
+    inspection.inspectorId === userId && (inspection.status === 'draft' || inspection.status === 'in_progress')
+  );
+  await Promise.all(assigned.map(inspection =>
+    queryClient.prefetchQuery({ queryKey: ['/api/inspections', inspection.id], staleTime: 0 })
+  ));
+}
+
+let started = false;
+
+// Wires the outbox to connectivity changes; called once at startup
+export function startOfflineSync() {
+  if (started || typeof window === "undefined") return;
+  started = true;
+
+  window.addEventListener("online", () => {
+    setStatus({ online: true });
+    syncOutbox();
+    prefetchOfflineData().catch(() => {});
+  });
+  window.addEventListener("offline", () => setStatus({ online: false }));
+  loadOutbox();
+}
@@ -1,4 +1,6 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { createAsyncStoragePersister } from "@tanstack/query-async-storage-persister";
+import { get, set, del } from "idb-keyval";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -60,6 +62,8 @@ export const getQueryFn: (options: { on401: UnauthorizedBehavior }) => QueryFunc
     return await res.json();
   };
 
+export const CACHE_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
@@ -67,6 +71,10 @@ export const queryClient = new QueryClient({
       refetchInterval: false,
       refetchOnWindowFocus: false,
       staleTime: Infinity,
+      // Kept for as long as the persisted cache so offline data survives reloads
+      gcTime: CACHE_MAX_AGE,
+      // Cached data is served offline instead of pausing the query
+      networkMode: "offlineFirst",
       retry: false,
     },
     mutations: {
@@ -74,3 +82,14 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// The cache is saved to IndexedDB so inspections, checklists and companies
+// loaded while online are available in the field
+export const queryPersister = createAsyncStoragePersister({
+  key: "compia-query-cache",
+  storage: {
+    getItem: (key) => get<string>(key).then((value) => value ?? null),
+    setItem: (key, value) => set(key, value),
+    removeItem: (key) => del(key),
+  },
+});
@@ -0,0 +1,37 @@
+// Spreadsheet reading for the import pages. SheetJS is loaded on demand, so
+// it stays out of the main bundle.
+
+async function loadSheetJs() {
+  return await import("xlsx");
+}
+
+function sheetRows(XLSX: Awaited<ReturnType<typeof loadSheetJs>>, workbook: any): string[][] {
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+  // Blank rows are kept so row numbers match the file
+  return XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: "", blankrows: true })
+    .map(row => row.map(cell => String(cell ?? "")));
+}
+
+// CSV text, comma or semicolon separated; values are kept as typed
+export async function parseCsvText(text: string): Promise<string[][]> {
+  const XLSX = await loadSheetJs();
+  return sheetRows(XLSX, XLSX.read(text, { type: "string", raw: true }));
+}
+
+// Excel saves CSV in Windows-1252 unless told otherwise
+function decodeText(buffer: ArrayBuffer): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("windows-1252").decode(buffer);
+  }
+}
+
+// First sheet of a .csv, .xlsx or .xls file
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  const buffer = await file.arrayBuffer();
+  if (/\.(csv|txt)$/i.test(file.name)) return parseCsvText(decodeText(buffer));
+  const XLSX = await loadSheetJs();
+  return sheetRows(XLSX, XLSX.read(buffer, { type: "array" }));
+}
@@ -9,13 +9,18 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Mail, CheckCircle, AlertTriangle, Shield, Users, ArrowRight } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 
 const acceptInviteSchema = z.object({
   name: z.string().min(2, "Nome deve ter pelo menos 2 caracteres"),
   email: z.string().email("Email inválido"),
+  password: z.string().min(8, "A senha deve ter pelo menos 8 caracteres"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "As senhas não conferem",
+  path: ["confirmPassword"],
 });
 
 type AcceptInviteFormData = z.infer<typeof acceptInviteSchema>;
@@ -32,6 +37,8 @@ export default function AcceptInvite() {
     defaultValues: {
       name: "",
       email: "",
+      password: "",
+      confirmPassword: "",
     }
   });
 
@@ -77,14 +84,17 @@ export default function AcceptInvite() {
   };
 
   const acceptInviteMutation = useMutation({
-    mutationFn: async (data: AcceptInviteFormData) => {
+    mutationFn: async ({ confirmPassword, ...userInfo }: AcceptInviteFormData) => {
       const res = await apiRequest('/api/invitations/accept', 'POST', {
         token,
-        userInfo: data
+        userInfo
       });
       return res;
     },
     onSuccess: (result) => {
+      // The server opens a session for the new user on acceptance
+      queryClient.invalidateQueries({ queryKey: ['/api/user/me'] });
+
       toast({
         title: "Convite aceito com sucesso!",
         description: `Bem-vindo ao COMPIA, ${result.user.name}!`,
@@ -272,7 +282,26 @@ export default function AcceptInvite() {
           </Card>
         )}
 
-        {/* Accept Invitation Form */}
+        {/* SSO domains skip registration: the account is created on first corporate login */}
+        {invitationDetails?.sso?.enabled ? (
+          <Card data-testid="accept-invite-sso">
+            <CardContent className="p-6 text-center space-y-4">
+              <Shield className="w-10 h-10 text-compia-blue mx-auto" />
+              <p className="text-muted-foreground">
+                Sua organização utiliza login corporativo. Entre com a conta da sua empresa
+                para acessar o COMPIA.
+              </p>
+              <Button
+                onClick={() => { window.location.href = invitationDetails.sso.loginUrl; }}
+                className="w-full bg-compia-blue hover:bg-compia-blue/90 text-primary-foreground"
+                data-testid="sso-login-button"
+              >
+                Entrar com SSO corporativo
+                <ArrowRight className="w-4 h-4 ml-2" />
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
         <Card data-testid="accept-invite-form">
           <CardHeader>
             <CardTitle>Complete seu cadastro</CardTitle>
@@ -319,6 +348,46 @@ export default function AcceptInvite() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Senha</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="password"
+                          autoComplete="new-password"
+                          placeholder="Mínimo de 8 caracteres"
+                          data-testid="input-password"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirmar Senha</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="password"
+                          autoComplete="new-password"
+                          placeholder="Repita a senha"
+                          data-testid="input-confirm-password"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <div className="pt-4">
                   <Button
                     type="submit"
@@ -345,6 +414,7 @@ export default function AcceptInvite() {
             </Form>
           </CardContent>
         </Card>
+        )}
 
         {/* Footer */}
         <div className="text-center text-sm text-muted-foreground">
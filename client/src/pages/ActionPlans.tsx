@@ -13,17 +13,32 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { 
   Search, Filter, Plus, Eye, Edit, Trash2, Clock, AlertTriangle, 
-  CheckCircle, Calendar, User, MapPin, Lightbulb, Zap
+  CheckCircle, Calendar, User, MapPin, Lightbulb, Zap, Play, XCircle, RotateCcw
 } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth, hasPermission } from "@/hooks/useAuth";
+import EvidenceGallery from "@/components/Evidence/EvidenceGallery";
 import type { ActionPlan } from "@/lib/types";
 import { ACTION_STATUS_LABELS, ACTION_STATUS_COLORS, PRIORITY_LABELS, PRIORITY_COLORS } from "@/lib/constants";
+import {
+  ACTION_PLAN_TRANSITION_LABELS, getAvailableActionPlanTransitions, isActionPlanEditable,
+  type ActionPlanTransition
+} from "@shared/action-plans";
+import { normalizeChecklistItems } from "@shared/inspection-responses";
+import { getNonConformItemIds } from "@shared/inspection-follow-up";
+
+const TRANSITION_ICONS: Record<ActionPlanTransition, typeof Play> = {
+  start: Play,
+  complete: CheckCircle,
+  cancel: XCircle,
+  reopen: RotateCcw
+};
 
 const actionPlanSchema = z.object({
   inspectionId: z.string().min(1, "Inspeção é obrigatória"),
+  itemId: z.string().optional(),
   title: z.string().min(1, "Título é obrigatório"),
   description: z.string().optional(),
   what: z.string().min(1, "O que fazer é obrigatório"),
@@ -73,6 +88,7 @@ export default function ActionPlans() {
       howMuch: "",
       priority: "medium",
       inspectionId: "",
+      itemId: "",
       assignedTo: "",
       dueDate: "",
     }
@@ -131,7 +147,74 @@ export default function ActionPlans() {
     }
   });
 
-  const canManageActionPlans = hasPermission(user, 'manage_action_plans');
+  const transitionMutation = useMutation({
+    mutationFn: ({ id, transition }: { id: string; transition: ActionPlanTransition }) =>
+      apiRequest(`/api/action-plans/${id}/${transition}`, 'POST'),
+    onSuccess: (actionPlan: ActionPlan, { transition }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/action-plans'] });
+      setShowDetails(current => current?.id === actionPlan.id ? actionPlan : current);
+      toast({
+        title: "Status atualizado",
+        description: `${ACTION_PLAN_TRANSITION_LABELS[transition]}: "${actionPlan.title}" agora está ${ACTION_STATUS_LABELS[actionPlan.status as keyof typeof ACTION_STATUS_LABELS].toLowerCase()}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao alterar status",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteActionPlanMutation = useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/action-plans/${id}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/action-plans'] });
+      setShowDetails(null);
+      toast({ title: "Plano excluído" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao excluir plano",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const canManageActionPlans = hasPermission(user, 'action_plan:create');
+  const canUpdateActionPlans = hasPermission(user, 'action_plan:update');
+  const canDeleteActionPlans = hasPermission(user, 'action_plan:delete');
+
+  const handleDelete = (actionPlan: ActionPlan) => {
+    if (window.confirm(`Tem certeza que deseja excluir o plano "${actionPlan.title}"?`)) {
+      deleteActionPlanMutation.mutate(actionPlan.id);
+    }
+  };
+
+  const renderTransitionButtons = (actionPlan: ActionPlan, withLabels: boolean) =>
+    canUpdateActionPlans && getAvailableActionPlanTransitions(actionPlan.status).map(transition => {
+      const Icon = TRANSITION_ICONS[transition];
+      return (
+        <Button
+          key={transition}
+          variant={withLabels ? "outline" : "ghost"}
+          size="sm"
+          title={ACTION_PLAN_TRANSITION_LABELS[transition]}
+          className={transition === 'cancel' ? "text-destructive hover:text-destructive/80" : "text-muted-foreground hover:text-foreground"}
+          disabled={transitionMutation.isPending}
+          onClick={(e) => {
+            e.stopPropagation();
+            transitionMutation.mutate({ id: actionPlan.id, transition });
+          }}
+          data-testid={`${transition}-action-plan-${actionPlan.id}`}
+        >
+          <Icon className={withLabels ? "w-4 h-4 mr-2" : "w-4 h-4"} />
+          {withLabels && ACTION_PLAN_TRANSITION_LABELS[transition]}
+        </Button>
+      );
+    });
 
   const filteredActionPlans = (actionPlans || []).filter(plan => {
     const matchesSearch = plan.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -142,9 +225,14 @@ export default function ActionPlans() {
   });
 
   const handleSubmit = (data: ActionPlanFormData) => {
-    createActionPlanMutation.mutate(data);
+    createActionPlanMutation.mutate({ ...data, itemId: data.itemId || null } as ActionPlanFormData);
   };
 
+  // Linking a plan to a checklist item lets a follow-up inspection close it
+  const selectedInspection = inspections?.find((inspection: any) => inspection.id === form.watch('inspectionId'));
+  const nonConformIds = new Set(getNonConformItemIds(selectedInspection?.responses));
+  const checklistItems = normalizeChecklistItems(selectedInspection?.checklist);
+
   const openEditForm = (actionPlan: ActionPlan) => {
     setSelectedActionPlan(actionPlan);
     form.reset({
@@ -159,6 +247,7 @@ export default function ActionPlans() {
       howMuch: actionPlan.howMuch || "",
       priority: actionPlan.priority,
       inspectionId: actionPlan.inspectionId,
+      itemId: actionPlan.itemId || "",
       assignedTo: actionPlan.assignedTo || "",
       dueDate: actionPlan.dueDate ? new Date(actionPlan.dueDate).toISOString().slice(0, 10) : "",
     });
@@ -306,7 +395,7 @@ export default function ActionPlans() {
           </Card>
         ) : (
           filteredActionPlans.map((actionPlan) => {
-            const isOverdue = actionPlan.dueDate && new Date(actionPlan.dueDate) < new Date() && actionPlan.status !== 'completed';
+            const isOverdue = actionPlan.dueDate && new Date(actionPlan.dueDate) < new Date() && isActionPlanEditable(actionPlan.status);
             const daysUntilDue = actionPlan.dueDate 
               ? Math.ceil((new Date(actionPlan.dueDate).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24))
               : null;
@@ -397,7 +486,7 @@ export default function ActionPlans() {
                         <Eye className="w-4 h-4" />
                       </Button>
                       
-                      {canManageActionPlans && (
+                      {canUpdateActionPlans && isActionPlanEditable(actionPlan.status) && (
                         <Button 
                           variant="ghost" 
                           size="sm" 
@@ -411,6 +500,24 @@ export default function ActionPlans() {
                           <Edit className="w-4 h-4" />
                         </Button>
                       )}
+                      
+                      {canDeleteActionPlans && (
+                        <Button 
+                          variant="ghost" 
+                          size="sm" 
+                          className="text-destructive hover:text-destructive/80"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(actionPlan);
+                          }}
+                          data-testid={`delete-action-plan-${actionPlan.id}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                    <div className="flex space-x-1">
+                      {renderTransitionButtons(actionPlan, false)}
                     </div>
                   </div>
                 </CardContent>
@@ -483,6 +590,37 @@ export default function ActionPlans() {
                     />
                   </div>
 
+                  {checklistItems.length > 0 && (
+                    <FormField
+                      control={form.control}
+                      name="itemId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Item do Checklist</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(value === "none" ? "" : value)}
+                            value={field.value || "none"}
+                          >
+                            <FormControl>
+                              <SelectTrigger data-testid="select-item">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">Nenhum item específico</SelectItem>
+                              {checklistItems.map(item => (
+                                <SelectItem key={item.id} value={item.id}>
+                                  {item.label}{nonConformIds.has(item.id) ? " (não conforme)" : ""}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                     <FormField
                       control={form.control}
@@ -779,19 +917,23 @@ export default function ActionPlans() {
                         </Badge>
                       </div>
                     </div>
-                    {canManageActionPlans && (
-                      <Button
-                        variant="outline"
-                        onClick={() => {
-                          setShowDetails(null);
-                          openEditForm(showDetails);
-                        }}
-                        data-testid="edit-from-details"
-                      >
-                        <Edit className="w-4 h-4 mr-2" />
-                        Editar
-                      </Button>
-                    )}
+                    <div className="flex flex-wrap justify-end gap-2">
+                      {renderTransitionButtons(showDetails, true)}
+                      {canUpdateActionPlans && isActionPlanEditable(showDetails.status) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setShowDetails(null);
+                            openEditForm(showDetails);
+                          }}
+                          data-testid="edit-from-details"
+                        >
+                          <Edit className="w-4 h-4 mr-2" />
+                          Editar
+                        </Button>
+                      )}
+                    </div>
                   </div>
                   
                   {showDetails.description && (
@@ -862,6 +1004,18 @@ export default function ActionPlans() {
                   )}
                 </CardContent>
               </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Evidências</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <EvidenceGallery
+                    filesUrl={`/api/action-plans/${showDetails.id}/files`}
+                    canUpload={canUpdateActionPlans}
+                  />
+                </CardContent>
+              </Card>
             </div>
           )}
         </DialogContent>
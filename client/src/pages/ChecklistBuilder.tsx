@@ -17,6 +17,7 @@ import { useToast } from '@/hooks/use-toast';
 import { useMutation, useQuery } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { cn } from '@/lib/utils';
+import type { ChecklistFieldType } from '@shared/inspection-responses';
 
 interface ChecklistField {
   id: string;
@@ -28,10 +29,12 @@ interface ChecklistField {
   min?: number;
   max?: number;
   placeholder?: string;
+  // Relative weight in the inspection score
+  weight: number;
   order: number;
 }
 
-const fieldTypes = [
+const fieldTypes: { value: ChecklistFieldType; label: string; icon: typeof Type }[] = [
   { value: 'text', label: 'Texto Curto', icon: Type },
   { value: 'textarea', label: 'Texto Longo', icon: AlignLeft },
   { value: 'select', label: 'Lista Suspensa', icon: List },
@@ -92,6 +95,9 @@ export default function ChecklistBuilder() {
         description: item.description || item.standard || '',
         required: item.required || item.isRequired || false,
         options: item.options,
+        min: item.min,
+        max: item.max,
+        weight: typeof item.weight === 'number' ? item.weight : 1,
         order: index
       }));
       
@@ -107,6 +113,7 @@ export default function ChecklistBuilder() {
       label: `Nova Pergunta`,
       required: false,
       options: type === 'select' || type === 'multiselect' || type === 'radio' ? ['Opção 1'] : undefined,
+      weight: 1,
       order: fields.length
     };
     setFields([...fields, newField]);
@@ -441,6 +448,17 @@ export default function ChecklistBuilder() {
                                   </div>
                                 )}
 
+                                <div className="w-32">
+                                  <Label>Peso na pontuação</Label>
+                                  <Input
+                                    type="number"
+                                    min={0}
+                                    step="0.5"
+                                    value={field.weight}
+                                    onChange={(e) => updateField(field.id, { weight: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                  />
+                                </div>
+
                                 <div className="flex items-center justify-between">
                                   <div className="flex items-center space-x-2">
                                     <Switch
@@ -466,7 +484,7 @@ export default function ChecklistBuilder() {
                                   <p className="text-sm text-muted-foreground mb-2">{field.description}</p>
                                 )}
                                 <p className="text-xs text-muted-foreground">
-                                  Tipo: {fieldType?.label} • Clique para editar
+                                  Tipo: {fieldType?.label} • Peso: {field.weight} • Clique para editar
                                 </p>
                               </div>
                             )}
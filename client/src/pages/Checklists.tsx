@@ -145,8 +145,8 @@ export default function Checklists() {
     template.description?.toLowerCase().includes(searchTerm.toLowerCase())
   ) || [];
 
-  const canCreateTemplates = hasPermission(user, 'create_inspection');
-  const canManageTemplates = hasPermission(user, 'manage_organization');
+  const canCreateTemplates = hasPermission(user, 'checklist_template:create');
+  const canManageTemplates = hasPermission(user, 'checklist_template:delete');
 
   return (
     <div className="p-6 space-y-6" data-testid="checklists-page">
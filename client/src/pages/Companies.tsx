@@ -6,7 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "wouter";
-import { Building2, MapPin, User, Phone, Mail, Plus, Edit, Trash2, Eye } from "lucide-react";
+import { Building2, MapPin, User, Phone, Mail, Plus, Edit, Trash2, Eye, Upload } from "lucide-react";
 import type { Company } from "@shared/schema";
 
 export default function Companies() {
@@ -66,12 +66,20 @@ export default function Companies() {
           <h1 className="text-3xl font-bold">Empresas Cadastradas</h1>
           <p className="text-gray-600 mt-2">Gerencie as empresas da organização</p>
         </div>
-        <Link href="/companies/new">
-          <Button className="gap-2">
-            <Plus size={20} />
-            Nova Empresa
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          <Link href="/companies/import">
+            <Button variant="outline" className="gap-2" data-testid="button-import-companies">
+              <Upload size={20} />
+              Importar Planilha
+            </Button>
+          </Link>
+          <Link href="/companies/new">
+            <Button className="gap-2">
+              <Plus size={20} />
+              Nova Empresa
+            </Button>
+          </Link>
+        </div>
       </div>
 
       <div className="mb-6">
@@ -160,7 +168,7 @@ export default function Companies() {
                   <Link href={`/companies/${company.id}/locations`}>
                     <Button variant="outline" size="sm" className="gap-1" data-testid={`button-view-locations-${company.id}`}>
                       <MapPin size={14} />
-                      Locais
+                      Locais e equipamentos
                     </Button>
                   </Link>
                   <Link href={`/companies/${company.id}`}>
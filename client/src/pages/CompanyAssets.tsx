@@ -0,0 +1,337 @@
+import { useState } from "react";
+import { Link, useRoute } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import QRCodeGenerator from "@/components/Inspections/QRCodeGenerator";
+import { ArrowLeft, MapPin, Wrench, Plus, Edit, Trash2, QrCode, Printer, Loader2, ClipboardCheck } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, hasPermission } from "@/hooks/useAuth";
+import { QR_ASSET_KIND_LABELS, getScanPath, type QrAssetKind } from "@shared/qr-assets";
+import type { ChecklistTemplate, Company, CompanyLocation, Equipment } from "@shared/schema";
+
+type Asset = CompanyLocation | Equipment;
+
+interface FieldDefinition {
+  key: string;
+  label: string;
+  placeholder?: string;
+}
+
+const FIELDS: Record<QrAssetKind, FieldDefinition[]> = {
+  location: [
+    { key: "name", label: "Nome *", placeholder: "Ex.: Galpão 2" },
+    { key: "type", label: "Tipo", placeholder: "Fábrica, depósito, obra..." },
+    { key: "address", label: "Endereço" },
+    { key: "city", label: "Cidade" },
+    { key: "state", label: "UF" },
+    { key: "zipCode", label: "CEP" },
+    { key: "responsibleName", label: "Responsável" }
+  ],
+  equipment: [
+    { key: "name", label: "Nome *", placeholder: "Ex.: Extintor PQS 6kg" },
+    { key: "tag", label: "Identificação (TAG)", placeholder: "Ex.: EXT-014" },
+    { key: "type", label: "Tipo", placeholder: "Extintor, prensa, caldeira..." },
+    { key: "manufacturer", label: "Fabricante" },
+    { key: "model", label: "Modelo" },
+    { key: "serialNumber", label: "Nº de série" }
+  ]
+};
+
+const NONE = "none";
+
+function toForm(kind: QrAssetKind, asset: Asset | null): Record<string, string> {
+  const keys = [...FIELDS[kind].map(field => field.key), "checklistTemplateId", "locationId", "notes"];
+  return Object.fromEntries(keys.map(key => [key, (asset as Record<string, any> | null)?.[key] ?? ""]));
+}
+
+// Sites and equipment of a company, with the QR labels that open their
+// inspection history
+export default function CompanyAssets() {
+  const [, params] = useRoute<{ id: string }>("/companies/:id/locations");
+  const companyId = params?.id ?? "";
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const canManage = hasPermission(user, 'company:update');
+  const [editing, setEditing] = useState<{ kind: QrAssetKind; asset: Asset | null } | null>(null);
+  const [form, setForm] = useState<Record<string, string>>({});
+  const [qrAsset, setQrAsset] = useState<Asset | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const { data: company } = useQuery<Company>({
+    queryKey: ['/api/companies', companyId],
+    enabled: !!companyId,
+  });
+
+  const { data: locations = [], isLoading: loadingLocations } = useQuery<CompanyLocation[]>({
+    queryKey: ['/api/companies', companyId, 'locations'],
+    enabled: !!companyId,
+  });
+
+  const { data: equipment = [], isLoading: loadingEquipment } = useQuery<Equipment[]>({
+    queryKey: ['/api/companies', companyId, 'equipment'],
+    enabled: !!companyId,
+  });
+
+  const { data: templates = [] } = useQuery<(ChecklistTemplate & { is_category_folder?: boolean })[]>({
+    queryKey: ['/api/checklist-templates'],
+  });
+
+  const invalidate = (kind: QrAssetKind) =>
+    queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, kind === "location" ? 'locations' : 'equipment'] });
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const { kind, asset } = editing!;
+      const body = Object.fromEntries(Object.entries(form).map(([key, value]) => [key, value.trim() || null]));
+      if (kind === "location") {
+        delete body.locationId;
+        return asset
+          ? apiRequest(`/api/companies/locations/${asset.id}`, 'PUT', body)
+          : apiRequest(`/api/companies/${companyId}/locations`, 'POST', body);
+      }
+      return asset
+        ? apiRequest(`/api/equipment/${asset.id}`, 'PUT', body)
+        : apiRequest(`/api/companies/${companyId}/equipment`, 'POST', body);
+    },
+    onSuccess: () => {
+      invalidate(editing!.kind);
+      toast({ title: `${QR_ASSET_KIND_LABELS[editing!.kind]} salvo` });
+      setEditing(null);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao salvar", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: ({ kind, asset }: { kind: QrAssetKind; asset: Asset }) => apiRequest(
+      kind === "location" ? `/api/companies/locations/${asset.id}` : `/api/equipment/${asset.id}`,
+      'DELETE'
+    ),
+    onSuccess: (_, { kind }) => {
+      invalidate(kind);
+      toast({ title: `${QR_ASSET_KIND_LABELS[kind]} excluído` });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao excluir", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  const openForm = (kind: QrAssetKind, asset: Asset | null) => {
+    setForm(toForm(kind, asset));
+    setEditing({ kind, asset });
+  };
+
+  const toggleSelected = (id: string) => setSelected(current => {
+    const next = new Set(current);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  // Without a selection the sheet has every site and piece of equipment
+  const printLabels = () => {
+    const query = new URLSearchParams();
+    const locationIds = locations.filter(location => selected.has(location.id)).map(location => location.id);
+    const equipmentIds = equipment.filter(item => selected.has(item.id)).map(item => item.id);
+    if (locationIds.length) query.set("locations", locationIds.join(","));
+    if (equipmentIds.length) query.set("equipment", equipmentIds.join(","));
+    window.open(`/api/companies/${companyId}/qr-labels?${query}`, '_blank');
+  };
+
+  const templateName = (id: string | null) => templates.find(template => template.id === id)?.name;
+  const locationName = (id: string | null) => locations.find(location => location.id === id)?.name;
+
+  const renderAsset = (kind: QrAssetKind, asset: Asset) => {
+    const details = kind === "location"
+      ? [asset.type, [(asset as CompanyLocation).city, (asset as CompanyLocation).state].filter(Boolean).join(" - ")]
+      : [(asset as Equipment).tag, asset.type, locationName((asset as Equipment).locationId)];
+    const template = templateName(asset.checklistTemplateId);
+    return (
+      <div key={asset.id} className="flex items-center gap-3 rounded-md border p-3" data-testid={`asset-${asset.id}`}>
+        <Checkbox checked={selected.has(asset.id)} onCheckedChange={() => toggleSelected(asset.id)} aria-label={`Selecionar ${asset.name}`} />
+        <div className="flex-1 min-w-0">
+          <p className="font-medium truncate">{asset.name}</p>
+          <p className="text-sm text-muted-foreground truncate">{details.filter(Boolean).join(" · ") || "-"}</p>
+          {template && (
+            <p className="text-xs text-muted-foreground flex items-center mt-1">
+              <ClipboardCheck className="w-3 h-3 mr-1" />
+              {template}
+            </p>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setQrAsset(asset)} data-testid={`qr-${asset.id}`}>
+          <QrCode className="w-4 h-4" />
+        </Button>
+        {canManage && (
+          <>
+            <Button variant="outline" size="sm" onClick={() => openForm(kind, asset)} data-testid={`edit-${asset.id}`}>
+              <Edit className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => window.confirm(`Excluir ${asset.name}?`) && deleteMutation.mutate({ kind, asset })}
+              disabled={deleteMutation.isPending}
+              data-testid={`delete-${asset.id}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const sections: { kind: QrAssetKind; title: string; icon: typeof MapPin; items: Asset[]; isLoading: boolean }[] = [
+    { kind: "location", title: "Locais", icon: MapPin, items: locations, isLoading: loadingLocations },
+    { kind: "equipment", title: "Equipamentos", icon: Wrench, items: equipment, isLoading: loadingEquipment }
+  ];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <Link href="/companies" className="text-sm text-compia-blue hover:underline flex items-center mb-1">
+            <ArrowLeft className="w-3 h-3 mr-1" />
+            Empresas
+          </Link>
+          <h1 className="text-3xl font-bold text-foreground">{company?.name ?? "Empresa"}</h1>
+          <p className="text-muted-foreground">
+            Locais e equipamentos com QR Code para consultar o histórico e iniciar inspeções
+          </p>
+        </div>
+        <Button onClick={printLabels} variant="outline" disabled={!locations.length && !equipment.length} data-testid="print-labels">
+          <Printer className="w-4 h-4 mr-2" />
+          {selected.size ? `Imprimir etiquetas (${selected.size})` : "Imprimir todas as etiquetas"}
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {sections.map(({ kind, title, icon: Icon, items, isLoading }) => (
+          <Card key={kind}>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center">
+                  <Icon className="w-5 h-5 mr-2 text-compia-blue" />
+                  {title}
+                  <Badge variant="secondary" className="ml-2">{items.length}</Badge>
+                </span>
+                {canManage && (
+                  <Button size="sm" onClick={() => openForm(kind, null)} data-testid={`new-${kind}`}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Adicionar
+                  </Button>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {isLoading ? (
+                <div className="h-16 bg-muted rounded animate-pulse" />
+              ) : items.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">Nenhum {QR_ASSET_KIND_LABELS[kind].toLowerCase()} cadastrado</p>
+              ) : (
+                items.map(asset => renderAsset(kind, asset))
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {editing && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{editing.asset ? "Editar" : "Novo"} {QR_ASSET_KIND_LABELS[editing.kind].toLowerCase()}</DialogTitle>
+                <DialogDescription>
+                  O checklist vinculado é sugerido quando um inspetor escaneia o QR Code.
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                {FIELDS[editing.kind].map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <Label htmlFor={`asset-${field.key}`}>{field.label}</Label>
+                    <Input
+                      id={`asset-${field.key}`}
+                      value={form[field.key]}
+                      placeholder={field.placeholder}
+                      onChange={(e) => setForm(current => ({ ...current, [field.key]: e.target.value }))}
+                    />
+                  </div>
+                ))}
+
+                {editing.kind === "equipment" && (
+                  <div className="space-y-1">
+                    <Label>Local</Label>
+                    <Select value={form.locationId || NONE} onValueChange={(value) => setForm(current => ({ ...current, locationId: value === NONE ? "" : value }))}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Sem local</SelectItem>
+                        {locations.map(location => <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="space-y-1">
+                  <Label>Checklist vinculado</Label>
+                  <Select
+                    value={form.checklistTemplateId || NONE}
+                    onValueChange={(value) => setForm(current => ({ ...current, checklistTemplateId: value === NONE ? "" : value }))}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Escolher ao escanear</SelectItem>
+                      {templates.filter(template => !template.is_category_folder).map(template => (
+                        <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1 md:col-span-2">
+                  <Label htmlFor="asset-notes">Observações</Label>
+                  <Textarea id="asset-notes" value={form.notes} onChange={(e) => setForm(current => ({ ...current, notes: e.target.value }))} />
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setEditing(null)}>Cancelar</Button>
+                <Button onClick={() => saveMutation.mutate()} disabled={!form.name?.trim() || saveMutation.isPending} data-testid="save-asset">
+                  {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Salvar
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!qrAsset} onOpenChange={(open) => !open && setQrAsset(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{qrAsset?.name}</DialogTitle>
+          </DialogHeader>
+          {qrAsset && (
+            <QRCodeGenerator
+              path={getScanPath(qrAsset.qrToken)}
+              title={qrAsset.name}
+              fileName={`qr-${qrAsset.name}`}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { useMutation, useQuery } from "@tanstack/react-query";
 import { useRoute } from "wouter";
 import { Link, useLocation } from "wouter";
 import { z } from "zod";
-import { queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -15,14 +15,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft, Building2, Save, Search } from "lucide-react";
+import { fetchCepAddress } from "@/lib/address";
+import { getCnpjError, isValidCnpj, normalizeCnpj, type CnpjCompanyFields, type CnpjLookupResult } from "@shared/cnpj";
 import type { Company, Organization } from "@shared/schema";
 
 const companyFormSchema = z.object({
   name: z.string().min(1, "Nome da empresa é obrigatório"),
-  cnpj: z.string().optional(),
+  cnpj: z.string().optional().refine(value => !value || isValidCnpj(value), "CNPJ inválido"),
   email: z.string().email("Email inválido").optional().or(z.literal("")),
   phone: z.string().optional(),
   website: z.string().optional(),
+  cnae: z.string().optional(),
+  cnaeDescription: z.string().optional(),
   
   // Address
   address: z.string().optional(),
@@ -76,6 +80,8 @@ export default function CompanyForm() {
       email: "",
       phone: "",
       website: "",
+      cnae: "",
+      cnaeDescription: "",
       address: "",
       city: "",
       state: "",
@@ -103,6 +109,8 @@ export default function CompanyForm() {
         email: company.email || "",
         phone: company.phone || "",
         website: company.website || "",
+        cnae: company.cnae || "",
+        cnaeDescription: company.cnaeDescription || "",
         address: company.address || "",
         city: company.city || "",
         state: company.state || "",
@@ -123,83 +131,39 @@ export default function CompanyForm() {
     }
   }, [company, isEdit, form]);
 
-  // Função para limpar formatação do CNPJ
-  const cleanCNPJ = (cnpj: string) => {
-    return cnpj.replace(/\D/g, '');
-  };
-
-  // Função para buscar dados da empresa pelo CNPJ
+  // Busca os dados da empresa na Receita Federal pelo CNPJ
   const searchCompanyByCNPJ = async () => {
-    const cnpj = cleanCNPJ(form.getValues('cnpj') || '');
+    const cnpj = form.getValues('cnpj') || '';
+    const cnpjError = getCnpjError(cnpj);
     
-    if (cnpj.length !== 14) {
-      toast({
-        title: "CNPJ inválido",
-        description: "CNPJ deve ter 14 dígitos",
-        variant: "destructive",
-      });
+    if (cnpjError) {
+      form.setError('cnpj', { message: cnpjError });
       return;
     }
 
     setIsSearchingCNPJ(true);
 
     try {
-      // Usando endpoint do backend para evitar problemas de CORS
-      const response = await fetch(`/api/cnpj/${cnpj}`);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const lookup: CnpjLookupResult = await apiRequest(`/api/cnpj/${normalizeCnpj(cnpj)}`);
+      const { fields } = lookup;
 
-      // Verificar se houve erro na consulta
-      if (data.status === 'ERROR' || data.message) {
-        toast({
-          title: "CNPJ não encontrado",
-          description: data.message || "CNPJ não foi encontrado na Receita Federal",
-          variant: "destructive",
-        });
-        return;
+      // Preencher os campos automaticamente, sem apagar o que a consulta não trouxe
+      for (const key of Object.keys(fields) as (keyof CnpjCompanyFields)[]) {
+        if (fields[key]) form.setValue(key, fields[key]!);
       }
 
-      // Verificar se os dados essenciais estão presentes
-      if (!data.nome) {
-        toast({
-          title: "Dados incompletos",
-          description: "CNPJ encontrado, mas dados incompletos na Receita Federal",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // Preencher os campos automaticamente
-      form.setValue('name', data.nome || '');
-      form.setValue('email', data.email || '');
-      form.setValue('phone', data.telefone || '');
-      
-      // Montar endereço completo
-      const addressParts = [
-        data.logradouro,
-        data.numero,
-        data.complemento
-      ].filter(part => part && part.trim() !== '').join(', ');
-      
-      form.setValue('address', addressParts);
-      form.setValue('city', data.municipio || '');
-      form.setValue('state', data.uf || '');
-      form.setValue('zipCode', data.cep?.replace(/\D/g, '') || '');
-
       toast({
         title: "Dados encontrados!",
-        description: `Empresa "${data.nome}" carregada com sucesso`,
+        description: lookup.registrationStatus && lookup.registrationStatus !== "ATIVA"
+          ? `Empresa "${fields.name}" carregada. Situação cadastral: ${lookup.registrationStatus}`
+          : `Empresa "${fields.name}" carregada com sucesso`,
       });
 
     } catch (error) {
       console.error('Erro ao buscar CNPJ:', error);
       toast({
         title: "Erro ao buscar dados",
-        description: "Não foi possível consultar os dados do CNPJ. Tente novamente.",
+        description: (error as Error).message,
         variant: "destructive",
       });
     } finally {
@@ -207,6 +171,23 @@ export default function CompanyForm() {
     }
   };
 
+  // Completes the address from the CEP, keeping a street the user typed
+  const fillAddressFromCep = async (zipCode: string) => {
+    try {
+      const lookup = await fetchCepAddress(zipCode);
+      if (!lookup) return;
+      if (!form.getValues('address')) form.setValue('address', lookup.fields.address || '');
+      form.setValue('city', lookup.city);
+      form.setValue('state', lookup.state);
+    } catch (error) {
+      toast({
+        title: "Não foi possível consultar o CEP",
+        description: "Preencha o endereço manualmente.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const saveMutation = useMutation({
     mutationFn: async (data: CompanyFormData) => {
       const url = isEdit && params?.id ? `/api/companies/${params.id}` : "/api/companies";
@@ -216,7 +197,6 @@ export default function CompanyForm() {
         method,
         headers: {
           "Content-Type": "application/json",
-          "x-user-email": "admin@iasst.com", // Header necessário para autenticação
         },
         body: JSON.stringify(data),
         credentials: "include",
@@ -377,6 +357,36 @@ export default function CompanyForm() {
                 />
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="cnae"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>CNAE principal</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="0000-0/00" data-testid="input-cnae" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="cnaeDescription"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-2">
+                      <FormLabel>Atividade econômica</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-cnae-description" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
               <FormField
                 control={form.control}
                 name="organizationId"
@@ -460,7 +470,15 @@ export default function CompanyForm() {
                     <FormItem>
                       <FormLabel>CEP</FormLabel>
                       <FormControl>
-                        <Input {...field} placeholder="00000-000" data-testid="input-zipcode" />
+                        <Input
+                          {...field}
+                          placeholder="00000-000"
+                          onBlur={(e) => {
+                            field.onBlur();
+                            fillAddressFromCep(e.target.value);
+                          }}
+                          data-testid="input-zipcode"
+                        />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -0,0 +1,566 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useLocation, useRoute } from 'wouter';
+import { Upload, ArrowLeft, Download, FileSpreadsheet, Check, Info, AlertTriangle, Loader2, Building2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { parseCsvText, readSpreadsheet } from '@/lib/spreadsheet';
+import {
+  COMPANY_IMPORT_FIELDS, MAX_IMPORT_ROWS, applyColumnMapping, guessColumnMapping,
+  type CompanyImportMapping, type CompanyImportPreview, type CompanyImportRowResult, type CompanyImportView,
+  type ExistingCompanyPolicy
+} from '@shared/company-import';
+
+const NOT_MAPPED = 'none';
+const POLL_INTERVAL_MS = 2000;
+
+const COMPANY_ACTION_LABELS: Record<string, string> = {
+  created: 'Nova',
+  updated: 'Atualizada',
+  existing: 'Já cadastrada'
+};
+
+const LOCATION_ACTION_LABELS: Record<string, string> = {
+  created: 'Novo',
+  existing: 'Já cadastrado'
+};
+
+const STATUS_LABELS: Record<CompanyImportView['status'], string> = {
+  pending: 'Na fila',
+  running: 'Importando',
+  completed: 'Concluída',
+  failed: 'Falhou'
+};
+
+const sampleCSV = `Razão social;CNPJ;E-mail;Telefone;Endereço;Cidade;UF;CEP;Responsável;Local;Tipo do local;Endereço do local;Cidade do local;UF do local;CEP do local
+Metalúrgica Exemplo Ltda;11.222.333/0001-81;contato@exemplo.com.br;(11) 3333-4444;Av. Paulista, 1000;São Paulo;SP;01310-100;Maria Souza;Fábrica;factory;Rua das Indústrias, 200;Guarulhos;SP;07034-000
+Metalúrgica Exemplo Ltda;11.222.333/0001-81;;;;;;;;Depósito;warehouse;Rod. Anhanguera, km 20;Osasco;SP;06233-000`;
+
+function ResultRow({ result }: { result: CompanyImportRowResult }) {
+  return (
+    <tr className="hover:bg-muted/50 align-top">
+      <td className="py-2 pr-3 text-sm text-muted-foreground">{result.row}</td>
+      <td className="py-2 pr-3 text-sm">
+        <p className="font-medium">{result.name || '—'}</p>
+        {result.cnpj && <p className="text-xs text-muted-foreground">{result.cnpj}</p>}
+      </td>
+      <td className="py-2 pr-3">
+        {result.company && <Badge variant={result.company === 'existing' ? 'secondary' : 'default'}>{COMPANY_ACTION_LABELS[result.company]}</Badge>}
+      </td>
+      <td className="py-2 pr-3">
+        {result.location && <Badge variant={result.location === 'existing' ? 'secondary' : 'default'}>{LOCATION_ACTION_LABELS[result.location]}</Badge>}
+      </td>
+      <td className="py-2 text-sm">
+        {result.errors.map((error, index) => (
+          <p key={`e${index}`} className="text-destructive">{error}</p>
+        ))}
+        {result.warnings.map((warning, index) => (
+          <p key={`w${index}`} className="text-amber-600">{warning}</p>
+        ))}
+      </td>
+    </tr>
+  );
+}
+
+function ResultsTable({ results }: { results: CompanyImportRowResult[] }) {
+  return (
+    <div className="max-h-96 overflow-y-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left py-2 text-sm font-medium text-muted-foreground">Linha</th>
+            <th className="text-left py-2 text-sm font-medium text-muted-foreground">Empresa</th>
+            <th className="text-left py-2 text-sm font-medium text-muted-foreground">Cadastro</th>
+            <th className="text-left py-2 text-sm font-medium text-muted-foreground">Local</th>
+            <th className="text-left py-2 text-sm font-medium text-muted-foreground">Mensagens</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {results.map(result => <ResultRow key={result.row} result={result} />)}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function ImportJobStatus({ jobId }: { jobId: string }) {
+  const [, navigate] = useLocation();
+  const { data: job, isLoading } = useQuery<CompanyImportView>({
+    queryKey: ['/api/company-imports', jobId],
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === 'completed' || status === 'failed' ? false : POLL_INTERVAL_MS;
+    }
+  });
+
+  const finished = job?.status === 'completed' || job?.status === 'failed';
+  useEffect(() => {
+    if (finished) queryClient.invalidateQueries({ queryKey: ['/api/companies'] });
+  }, [finished]);
+
+  if (isLoading || !job) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">Carregando importação...</CardContent>
+      </Card>
+    );
+  }
+
+  const { summary } = job;
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            {finished ? <Check className="h-5 w-5 text-green-600" /> : <Loader2 className="h-5 w-5 animate-spin" />}
+            {job.fileName}
+          </span>
+          <Badge variant={job.status === 'failed' ? 'destructive' : 'secondary'}>{STATUS_LABELS[job.status]}</Badge>
+        </CardTitle>
+        <CardDescription>
+          {job.processedRows} de {job.totalRows} linhas processadas. A importação continua mesmo se você sair desta página.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Progress value={job.totalRows ? (job.processedRows / job.totalRows) * 100 : 0} />
+        {job.error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Importação interrompida</AlertTitle>
+            <AlertDescription>{job.error}</AlertDescription>
+          </Alert>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="outline">{summary.companiesCreated} empresa(s) criada(s)</Badge>
+          <Badge variant="outline">{summary.companiesUpdated} empresa(s) atualizada(s)</Badge>
+          <Badge variant="outline">{summary.locationsCreated} local(is) criado(s)</Badge>
+          <Badge variant={summary.failedRows ? 'destructive' : 'outline'}>{summary.failedRows} linha(s) com erro</Badge>
+        </div>
+        {job.issues.length > 0 && <ResultsTable results={job.issues} />}
+        <div className="flex justify-end gap-2">
+          {finished && summary.failedRows > 0 && (
+            <Button variant="outline" asChild>
+              <a href={`/api/company-imports/${job.id}/errors.csv`} download>
+                <Download className="mr-2 h-4 w-4" />
+                Baixar Relatório de Erros
+              </a>
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => navigate('/companies/import')}>
+            Nova Importação
+          </Button>
+          <Button onClick={() => navigate('/companies')} disabled={!finished}>
+            <Building2 className="mr-2 h-4 w-4" />
+            Ver Empresas
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function CompanyImport() {
+  const [, navigate] = useLocation();
+  const [, params] = useRoute<{ id: string }>('/companies/import/:id');
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState('');
+  const [csvData, setCsvData] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CompanyImportMapping>({});
+  const [existingCompanies, setExistingCompanies] = useState<ExistingCompanyPolicy>('skip');
+  const [preview, setPreview] = useState<CompanyImportPreview | null>(null);
+  const [onlyIssues, setOnlyIssues] = useState(false);
+
+  const headers = rows[0] ?? [];
+  const records = useMemo(() => applyColumnMapping(rows.slice(1), mapping), [rows, mapping]);
+
+  const loadRows = (parsed: string[][], name: string) => {
+    const header = parsed[0] ?? [];
+    if (!header.some(cell => cell.trim())) {
+      toast({
+        title: "Formato Inválido",
+        description: "A primeira linha da planilha deve conter os nomes das colunas",
+        variant: "destructive"
+      });
+      return;
+    }
+    setFileName(name);
+    setRows(parsed);
+    setMapping(guessColumnMapping(header));
+    setPreview(null);
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      loadRows(await readSpreadsheet(file), file.name);
+    } catch (error) {
+      console.error('Erro ao ler planilha:', error);
+      toast({
+        title: "Erro no Processamento",
+        description: "Não foi possível ler o arquivo. Use CSV, XLSX ou XLS.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handlePaste = async (value: string) => {
+    setCsvData(value);
+    if (value.trim()) loadRows(await parseCsvText(value), 'dados-colados.csv');
+  };
+
+  const downloadSample = () => {
+    const blob = new Blob(['\uFEFF' + sampleCSV], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', 'modelo_importacao_empresas.csv');
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const updateMapping = (key: string, value: string) => {
+    setMapping(current => {
+      const next = { ...current };
+      if (value === NOT_MAPPED) delete next[key as keyof CompanyImportMapping];
+      else next[key as keyof CompanyImportMapping] = Number(value);
+      return next;
+    });
+    setPreview(null);
+  };
+
+  const clear = () => {
+    setFileName('');
+    setCsvData('');
+    setRows([]);
+    setMapping({});
+    setPreview(null);
+  };
+
+  const requestBody = () => ({ fileName, existingCompanies, records });
+
+  const previewMutation = useMutation({
+    mutationFn: async (): Promise<CompanyImportPreview> => {
+      return apiRequest('/api/company-imports/preview', 'POST', requestBody());
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      setOnlyIssues(data.summary.failedRows + data.summary.warningRows > 0);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro na Validação",
+        description: error.message || "Falha ao validar a planilha",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (): Promise<CompanyImportView> => {
+      return apiRequest('/api/company-imports', 'POST', requestBody());
+    },
+    onSuccess: (job) => {
+      toast({
+        title: "Importação Iniciada",
+        description: `${job.totalRows} linhas serão importadas em segundo plano`
+      });
+      clear();
+      navigate(`/companies/import/${job.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro na Importação",
+        description: error.message || "Falha ao iniciar a importação",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handlePreview = () => {
+    if (mapping.name === undefined) {
+      toast({
+        title: "Mapeamento Incompleto",
+        description: "Indique a coluna com a razão social",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      toast({
+        title: "Planilha Muito Grande",
+        description: `Importe no máximo ${MAX_IMPORT_ROWS} linhas por vez`,
+        variant: "destructive"
+      });
+      return;
+    }
+    previewMutation.mutate();
+  };
+
+  const visibleResults = preview
+    ? preview.results.filter(result => !onlyIssues || result.errors.length || result.warnings.length)
+    : [];
+  const importableRows = preview ? preview.summary.totalRows - preview.summary.failedRows : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate('/companies')}
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div className="flex-1">
+          <h1 className="text-3xl font-bold flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-green-500 to-blue-500 rounded-lg">
+              <FileSpreadsheet className="h-6 w-6 text-white" />
+            </div>
+            Importar Empresas e Locais
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Cadastre empresas e seus locais a partir de planilhas CSV ou Excel
+          </p>
+        </div>
+      </div>
+
+      {params?.id ? (
+        <ImportJobStatus jobId={params.id} />
+      ) : (
+        <>
+          {/* Instructions */}
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertTitle>Como Importar</AlertTitle>
+            <AlertDescription className="mt-2 space-y-1">
+              <p>1. Use uma linha por local; repita a empresa (mesmo CNPJ) para cadastrar vários locais</p>
+              <p>2. Faça upload do arquivo e confira o mapeamento das colunas</p>
+              <p>3. Valide a planilha: a simulação mostra os erros de cada linha sem gravar nada</p>
+              <p>4. Clique em "Importar" para processar as linhas válidas em segundo plano</p>
+            </AlertDescription>
+          </Alert>
+
+          {/* Import Methods */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Planilha</CardTitle>
+              <CardDescription>
+                {fileName ? `${fileName}: ${records.length} linha(s) com dados` : 'Envie um arquivo CSV, XLSX ou XLS, ou cole os dados'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Tabs defaultValue="upload">
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="upload">Upload de Planilha</TabsTrigger>
+                  <TabsTrigger value="paste">Colar CSV</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="upload" className="space-y-4">
+                  <div className="border-2 border-dashed rounded-lg p-8 text-center">
+                    <FileSpreadsheet className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+                    <p className="mb-4">Selecione a planilha com as empresas e locais</p>
+                    <input
+                      type="file"
+                      accept=".csv,.txt,.xlsx,.xls"
+                      onChange={handleFileUpload}
+                      className="hidden"
+                      id="company-import-upload"
+                    />
+                    <label htmlFor="company-import-upload">
+                      <Button asChild>
+                        <span>
+                          <Upload className="mr-2 h-4 w-4" />
+                          Selecionar Arquivo
+                        </span>
+                      </Button>
+                    </label>
+                    <div className="mt-4">
+                      <Button variant="outline" onClick={downloadSample}>
+                        <Download className="mr-2 h-4 w-4" />
+                        Baixar Modelo CSV
+                      </Button>
+                    </div>
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="paste" className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="company-import-paste">Cole os dados CSV aqui (com a linha de cabeçalho)</Label>
+                    <Textarea
+                      id="company-import-paste"
+                      rows={10}
+                      value={csvData}
+                      onChange={(e) => handlePaste(e.target.value)}
+                      className="font-mono text-sm"
+                      placeholder={sampleCSV.split('\n').slice(0, 2).join('\n')}
+                    />
+                  </div>
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+
+          {/* Column mapping */}
+          {headers.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Mapeamento de Colunas</CardTitle>
+                <CardDescription>
+                  Colunas com nomes conhecidos já foram associadas; ajuste o que for necessário
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {(['company', 'location'] as const).map(entity => (
+                  <div key={entity} className="space-y-3">
+                    <h3 className="font-medium">{entity === 'company' ? 'Empresa' : 'Local'}</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      {COMPANY_IMPORT_FIELDS.filter(field => field.entity === entity).map(field => (
+                        <div key={field.key} className="space-y-1">
+                          <Label>
+                            {field.label}
+                            {'required' in field && field.required && <span className="text-destructive ml-1">*</span>}
+                          </Label>
+                          <Select
+                            value={mapping[field.key] === undefined ? NOT_MAPPED : String(mapping[field.key])}
+                            onValueChange={(value) => updateMapping(field.key, value)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NOT_MAPPED}>Não importar</SelectItem>
+                              {headers.map((header, index) => (
+                                <SelectItem key={index} value={String(index)}>
+                                  {header || `Coluna ${index + 1}`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+
+                <div className="space-y-1 md:w-1/2">
+                  <Label>Empresas já cadastradas (mesmo CNPJ)</Label>
+                  <Select
+                    value={existingCompanies}
+                    onValueChange={(value) => {
+                      setExistingCompanies(value as ExistingCompanyPolicy);
+                      setPreview(null);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="skip">Manter os dados atuais e só adicionar locais</SelectItem>
+                      <SelectItem value="update">Atualizar com os dados da planilha</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={clear}>
+                    Limpar
+                  </Button>
+                  <Button onClick={handlePreview} disabled={!records.length || previewMutation.isPending}>
+                    {previewMutation.isPending ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Validando...
+                      </>
+                    ) : (
+                      <>
+                        <Check className="mr-2 h-4 w-4" />
+                        Validar Planilha
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Preview */}
+          {preview && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {preview.summary.failedRows ? (
+                    <AlertTriangle className="h-5 w-5 text-amber-600" />
+                  ) : (
+                    <Check className="h-5 w-5 text-green-600" />
+                  )}
+                  Simulação ({preview.summary.totalRows} linhas)
+                </CardTitle>
+                <CardDescription>
+                  Nada foi gravado ainda. Linhas com erro serão ignoradas na importação.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline">{preview.summary.companiesCreated} empresa(s) nova(s)</Badge>
+                  <Badge variant="outline">{preview.summary.companiesUpdated} empresa(s) a atualizar</Badge>
+                  <Badge variant="outline">{preview.summary.locationsCreated} local(is) novo(s)</Badge>
+                  <Badge variant={preview.summary.failedRows ? 'destructive' : 'outline'}>{preview.summary.failedRows} linha(s) com erro</Badge>
+                  <Badge variant="outline">{preview.summary.warningRows} linha(s) com aviso</Badge>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Switch id="only-issues" checked={onlyIssues} onCheckedChange={setOnlyIssues} />
+                  <Label htmlFor="only-issues">Mostrar apenas linhas com erros ou avisos</Label>
+                </div>
+
+                {visibleResults.length > 0 ? (
+                  <ResultsTable results={visibleResults} />
+                ) : (
+                  <p className="text-center text-muted-foreground py-4">Nenhuma linha com erros ou avisos</p>
+                )}
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={clear}>
+                    Limpar
+                  </Button>
+                  <Button
+                    onClick={() => importMutation.mutate()}
+                    disabled={!importableRows || importMutation.isPending}
+                  >
+                    {importMutation.isPending ? (
+                      <>
+                        <Upload className="mr-2 h-4 w-4 animate-spin" />
+                        Importando...
+                      </>
+                    ) : (
+                      <>
+                        <Check className="mr-2 h-4 w-4" />
+                        Importar {importableRows} Linha(s)
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,12 @@
 import { useState, useEffect } from 'react';
-import { useRoute, useLocation } from 'wouter';
+import { useRoute, useLocation, Link } from 'wouter';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { useAuth } from "@/hooks/useAuth";
+import { useAuth, hasPermission } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/queryClient";
 import { 
   ArrowLeft, 
@@ -23,9 +23,22 @@ import {
   Edit,
   Plus,
   HelpCircle,
-  Info
+  Info,
+  Paperclip,
+  Crosshair
 } from 'lucide-react';
+import { normalizeChecklistItems, type InspectionItemResponse } from "@shared/inspection-responses";
+import { canTransitionInspection, isInspectionLocked } from "@shared/inspection-workflow";
+import { getNonConformItemIds } from "@shared/inspection-follow-up";
+import { GEOFENCE_STATUS_LABELS, isGeofenceFlagged, type GeofenceStatus } from "@shared/geofence";
 import type { Inspection } from "@shared/schema";
+import EvidenceGallery from "@/components/Evidence/EvidenceGallery";
+import InspectionSignOff from "@/components/Inspections/InspectionSignOff";
+import InspectionReview from "@/components/Inspections/InspectionReview";
+import FollowUpDialog from "@/components/Inspections/FollowUpDialog";
+import FollowUpComparison from "@/components/Inspections/FollowUpComparison";
+import InspectionCheckIns from "@/components/Inspections/InspectionCheckIns";
+import { getDevicePosition } from "@/lib/geolocation";
 
 export default function InspectionDetail() {
   const [match, params] = useRoute('/inspections/:id');
@@ -40,15 +53,19 @@ export default function InspectionDetail() {
     retry: false,
   });
 
+  const { data: followUps = [] } = useQuery<Inspection[]>({
+    queryKey: ['/api/inspections', inspectionId, 'follow-ups'],
+    enabled: !!inspectionId,
+  });
+
   // Debug logging
   console.log('InspectionDetail - inspectionId:', inspectionId);
   console.log('InspectionDetail - inspection:', inspection);
   console.log('InspectionDetail - isLoading:', isLoading);
   console.log('InspectionDetail - error:', error);
 
-  const updateStatusMutation = useMutation({
-    mutationFn: (status: string) => 
-      apiRequest(`/api/inspections/${inspectionId}`, 'PATCH', { status }),
+  const startMutation = useMutation({
+    mutationFn: async () => apiRequest(`/api/inspections/${inspectionId}/start`, 'POST', { position: await getDevicePosition() }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/inspections', inspectionId] });
       queryClient.invalidateQueries({ queryKey: ['/api/inspections'] });
@@ -107,13 +124,21 @@ export default function InspectionDetail() {
   };
 
   const handleStartInspection = () => {
-    updateStatusMutation.mutate('in_progress');
+    startMutation.mutate();
   };
 
-  const handleCompleteInspection = () => {
-    updateStatusMutation.mutate('completed');
+  // Completion happens in the execution screen, which checks required items
+  const handleOpenExecution = () => {
+    setLocation(`/inspections/${inspectionId}/execute`);
   };
 
+  const locked = isInspectionLocked(inspection?.status ?? null);
+  const nonConformCount = getNonConformItemIds(inspection?.responses as InspectionItemResponse[] | null).length;
+  const checklistItems = normalizeChecklistItems(inspection?.checklist);
+  const answeredIds = new Set(((inspection?.responses ?? []) as InspectionItemResponse[]).map(response => response.itemId));
+  const answeredCount = checklistItems.filter(item => answeredIds.has(item.id)).length;
+  const progress = checklistItems.length > 0 ? Math.round((answeredCount / checklistItems.length) * 100) : 0;
+
   if (!match || !inspectionId) {
     return (
       <div className="p-6">
@@ -188,6 +213,12 @@ export default function InspectionDetail() {
                 {getStatusIcon(inspection.status || 'draft')}
                 <span className="ml-2">{getStatusLabel(inspection.status || 'draft')}</span>
               </Badge>
+              {isGeofenceFlagged(inspection.geofenceStatus) && (
+                <Badge className="bg-red-100 text-red-800 border border-red-200" data-testid="geofence-flag">
+                  <Crosshair className="w-3 h-3 mr-1" />
+                  {GEOFENCE_STATUS_LABELS[inspection.geofenceStatus as GeofenceStatus]}
+                </Badge>
+              )}
             </div>
           </div>
         </div>
@@ -209,10 +240,10 @@ export default function InspectionDetail() {
             </TooltipContent>
           </Tooltip>
 
-          {inspection.status === 'draft' && (
+          {canTransitionInspection(inspection.status, 'start') && (
             <Button
               onClick={handleStartInspection}
-              disabled={updateStatusMutation.isPending}
+              disabled={startMutation.isPending}
               className="bg-compia-blue hover:bg-compia-blue/90"
               data-testid="start-inspection"
             >
@@ -223,16 +254,20 @@ export default function InspectionDetail() {
           
           {inspection.status === 'in_progress' && (
             <Button
-              onClick={handleCompleteInspection}
-              disabled={updateStatusMutation.isPending}
+              onClick={handleOpenExecution}
               className="bg-compia-green hover:bg-compia-green/90"
-              data-testid="complete-inspection"
+              data-testid="continue-inspection"
             >
-              <CheckCircle2 className="w-4 h-4 mr-2" />
-              Finalizar Inspeção
+              <Play className="w-4 h-4 mr-2" />
+              Continuar Inspeção
             </Button>
           )}
 
+          {(inspection.status === 'completed' || inspection.status === 'approved') && nonConformCount > 0 &&
+            hasPermission(user, 'inspection:create') && (
+            <FollowUpDialog inspection={inspection} nonConformCount={nonConformCount} />
+          )}
+
           <Tooltip>
             <TooltipTrigger asChild>
               <Button variant="outline" data-testid="share-inspection">
@@ -247,13 +282,17 @@ export default function InspectionDetail() {
 
           <Tooltip>
             <TooltipTrigger asChild>
-              <Button variant="outline" data-testid="download-report">
+              <Button
+                variant="outline"
+                onClick={() => window.open(`/api/reports/inspection/${inspection.id}/pdf`, '_blank')}
+                data-testid="download-report"
+              >
                 <Download className="w-4 h-4 mr-2" />
                 Relatório
               </Button>
             </TooltipTrigger>
             <TooltipContent>
-              <p>Baixe o relatório completo da inspeção em PDF</p>
+              <p>Abra o relatório completo da inspeção, com as fotos anotadas, para imprimir ou salvar em PDF</p>
             </TooltipContent>
           </Tooltip>
         </div>
@@ -353,20 +392,27 @@ export default function InspectionDetail() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              {inspection.checklist ? (
+              {checklistItems.length > 0 ? (
                 <div className="space-y-4">
                   <div className="flex items-center space-x-2 p-3 bg-green-50 border border-green-200 rounded-lg">
                     <CheckCircle2 className="w-5 h-5 text-green-600" />
                     <p className="text-green-800">
-                      Checklist baseado no template selecionado está ativo.
+                      Checklist com {checklistItems.length} itens baseado no template selecionado.
                     </p>
                   </div>
-                  {/* TODO: Implementar componente de checklist */}
-                  <div className="p-4 bg-muted rounded-lg border-2 border-dashed border-muted-foreground/20">
-                    <p className="text-center text-muted-foreground">
-                      Componente de checklist será implementado aqui
+                  {inspection.score !== null && inspection.score !== undefined && (
+                    <p className="text-sm" data-testid="inspection-score">
+                      <span className="font-medium">Pontuação:</span> {inspection.score}%
                     </p>
-                  </div>
+                  )}
+                  <Button
+                    variant="outline"
+                    onClick={handleOpenExecution}
+                    data-testid="open-execution"
+                  >
+                    <FileText className="w-4 h-4 mr-2" />
+                    {inspection.status === 'in_progress' ? 'Responder Checklist' : 'Ver Respostas'}
+                  </Button>
                 </div>
               ) : (
                 <div className="text-center py-8">
@@ -391,6 +437,43 @@ export default function InspectionDetail() {
               )}
             </CardContent>
           </Card>
+
+          {/* Evidence */}
+          <Card className="hover:shadow-md transition-shadow duration-200">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Paperclip className="w-5 h-5 mr-2 text-compia-blue" />
+                Evidências
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <EvidenceGallery
+                filesUrl={`/api/inspections/${inspection.id}/files`}
+                canUpload={hasPermission(user, 'inspection:update') && (inspection.status === 'draft' || inspection.status === 'in_progress')}
+                itemLabels={Object.fromEntries(checklistItems.map(item => [item.id, item.label]))}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Before/after of a follow-up */}
+          {inspection.parentInspectionId && (
+            <FollowUpComparison inspection={inspection} />
+          )}
+
+          {/* GPS check-ins */}
+          {inspection.status !== 'draft' && (
+            <InspectionCheckIns inspection={inspection} />
+          )}
+
+          {/* Review */}
+          {inspection.status !== 'draft' && (
+            <InspectionReview inspection={inspection} />
+          )}
+
+          {/* Sign-off */}
+          {inspection.status !== 'draft' && inspection.status !== 'in_progress' && (
+            <InspectionSignOff inspection={inspection} />
+          )}
         </div>
 
         {/* Sidebar */}
@@ -416,6 +499,7 @@ export default function InspectionDetail() {
                   <Button 
                     variant="outline" 
                     className="w-full justify-start hover:bg-blue-50 hover:text-blue-700 hover:border-blue-200 transition-colors"
+                    disabled={locked}
                     data-testid="edit-inspection"
                   >
                     <Edit className="w-4 h-4 mr-2" />
@@ -423,7 +507,7 @@ export default function InspectionDetail() {
                   </Button>
                 </TooltipTrigger>
                 <TooltipContent>
-                  <p>Edite as informações básicas desta inspeção</p>
+                  <p>{locked ? 'Inspeções aprovadas não podem ser editadas' : 'Edite as informações básicas desta inspeção'}</p>
                 </TooltipContent>
               </Tooltip>
               
@@ -463,6 +547,29 @@ export default function InspectionDetail() {
             </CardContent>
           </Card>
 
+          {/* Follow-ups */}
+          {followUps.length > 0 && (
+            <Card data-testid="follow-up-list">
+              <CardHeader>
+                <CardTitle className="text-lg">Verificações</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {followUps.map(followUp => (
+                  <Link key={followUp.id} href={`/inspections/${followUp.id}`} className="flex items-center justify-between text-sm hover:underline">
+                    <span>
+                      {followUp.scheduledAt
+                        ? new Date(followUp.scheduledAt).toLocaleDateString('pt-BR')
+                        : new Date(followUp.createdAt!).toLocaleDateString('pt-BR')}
+                    </span>
+                    <Badge className={`${getStatusColor(followUp.status || 'draft')} border`}>
+                      {getStatusLabel(followUp.status || 'draft')}
+                    </Badge>
+                  </Link>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Progress Summary */}
           {inspection.status !== 'draft' && (
             <Card>
@@ -473,13 +580,13 @@ export default function InspectionDetail() {
                 <div className="space-y-4">
                   <div className="flex justify-between text-sm">
                     <span>Itens verificados</span>
-                    <span className="font-medium">0/0</span>
+                    <span className="font-medium">{answeredCount}/{checklistItems.length}</span>
                   </div>
                   <div className="w-full bg-gray-200 rounded-full h-2">
-                    <div className="bg-compia-blue h-2 rounded-full" style={{ width: '0%' }}></div>
+                    <div className="bg-compia-blue h-2 rounded-full" style={{ width: `${progress}%` }}></div>
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    0% concluído
+                    {progress}% concluído
                   </p>
                 </div>
               </CardContent>
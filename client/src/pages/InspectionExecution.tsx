@@ -0,0 +1,453 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useRoute, useLocation } from 'wouter';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { queueSyncChange, syncOutbox } from "@/lib/offline-sync";
+import { getDevicePosition } from "@/lib/geolocation";
+import { useToast } from "@/hooks/use-toast";
+import { useInspectionAutosave } from "@/hooks/useInspectionAutosave";
+import ChecklistFieldInput from "@/components/Inspections/ChecklistFieldInput";
+import EvidenceAttachments from "@/components/Evidence/EvidenceAttachments";
+import { ResponseSummary } from "@/components/Inspections/FollowUpComparison";
+import {
+  ArrowLeft, ArrowRight, CheckCircle2, Circle, Play, AlertCircle, Loader2, CloudOff, Cloud, RotateCcw
+} from 'lucide-react';
+import {
+  normalizeChecklistItems, groupChecklistSections, getMissingRequiredItems,
+  INSPECTION_RESPONSE_STATUSES, INSPECTION_RESPONSE_STATUS_LABELS, FINDING_SEVERITIES,
+  type ChecklistItemDefinition, type InspectionItemResponse, type FindingSeverity
+} from "@shared/inspection-responses";
+import type { Inspection, ChecklistTemplate, EvidenceFile } from "@shared/schema";
+
+const SEVERITY_LABELS: Record<FindingSeverity, string> = {
+  low: "Baixa",
+  medium: "Média",
+  high: "Alta",
+  critical: "Crítica"
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  conform: "bg-green-600 hover:bg-green-600/90 text-white",
+  non_conform: "bg-red-600 hover:bg-red-600/90 text-white",
+  not_applicable: "bg-gray-500 hover:bg-gray-500/90 text-white"
+};
+
+// Typed answers are debounced before saving; choices are saved straight away
+const DEBOUNCED_TYPES = new Set(["text", "textarea", "number"]);
+
+export default function InspectionExecution() {
+  const [match, params] = useRoute<{ id: string }>('/inspections/:id/execute');
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const inspectionId = params?.id;
+  const [sectionIndex, setSectionIndex] = useState(0);
+
+  const { data: inspection, isLoading } = useQuery<Inspection>({
+    queryKey: ['/api/inspections', inspectionId],
+    enabled: !!inspectionId,
+    retry: false,
+  });
+
+  // Inspections created before checklists were copied fall back to the template
+  const snapshotItems = useMemo(() => normalizeChecklistItems(inspection?.checklist), [inspection?.checklist]);
+  const { data: template } = useQuery<ChecklistTemplate>({
+    queryKey: ['/api/checklist-templates', inspection?.checklistTemplateId],
+    enabled: !!inspection && snapshotItems.length === 0 && !!inspection.checklistTemplateId,
+  });
+  const items = useMemo(
+    () => snapshotItems.length > 0 ? snapshotItems : normalizeChecklistItems(template?.items),
+    [snapshotItems, template?.items]
+  );
+  const sections = useMemo(() => groupChecklistSections(items), [items]);
+
+  // Follow-ups show the parent's answer and evidence next to each item
+  const parentId = inspection?.parentInspectionId;
+  const { data: parent } = useQuery<Inspection>({
+    queryKey: ['/api/inspections', parentId],
+    enabled: !!parentId,
+  });
+  const { data: parentFiles = [] } = useQuery<EvidenceFile[]>({
+    queryKey: ['/api/inspections', parentId, 'files'],
+    enabled: !!parentId,
+  });
+  const previous = useMemo(
+    () => parent ? new Map(((parent.responses ?? []) as InspectionItemResponse[]).map(response => [response.itemId, response])) : null,
+    [parent?.responses]
+  );
+
+  const savedResponses = useMemo(
+    () => inspection ? (inspection.responses as InspectionItemResponse[] | null) || [] : undefined,
+    [inspection?.responses]
+  );
+  const autosave = useInspectionAutosave(inspectionId, savedResponses);
+  const answeredCount = items.filter(item => autosave.responses[item.id]).length;
+  const missingRequired = getMissingRequiredItems(items, Object.values(autosave.responses));
+  const isRunning = inspection?.status === 'in_progress';
+
+  // Warn before leaving while typed answers are not yet in the outbox
+  useEffect(() => {
+    if (!autosave.hasUnsavedChanges) return;
+    const warn = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [autosave.hasUnsavedChanges]);
+
+  // Start and completion go through the outbox too, so both work offline
+  const startMutation = useMutation({
+    mutationFn: async () => queueSyncChange(inspectionId!, 'start', undefined, await getDevicePosition()),
+    onSuccess: () => {
+      queryClient.setQueryData<Inspection>(['/api/inspections', inspectionId], (cached) =>
+        cached && cached.status === 'draft' ? { ...cached, status: 'in_progress', startedAt: new Date() } : cached
+      );
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao iniciar inspeção", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async () => {
+      await autosave.flush();
+      const changeId = await queueSyncChange(inspectionId!, 'complete', undefined, await getDevicePosition());
+      const result = (await syncOutbox()).find(r => r.id === changeId);
+      if (result && result.status !== 'applied') {
+        throw new Error(result.message || "A inspeção não pôde ser finalizada.");
+      }
+      return result;
+    },
+    onSuccess: (result) => {
+      if (!result) {
+        toast({
+          title: "Finalização salva no dispositivo",
+          description: "A inspeção será finalizada quando a conexão voltar."
+        });
+      } else {
+        const score = result.inspection?.score;
+        toast({
+          title: "Inspeção finalizada",
+          description: score !== null && score !== undefined
+            ? `Pontuação: ${score}%`
+            : "Nenhum item pontuável foi respondido."
+        });
+      }
+      setLocation(`/inspections/${inspectionId}`);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao finalizar inspeção", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  const updateItem = (item: ChecklistItemDefinition, changes: Partial<InspectionItemResponse>, debounce = false) => {
+    const current = autosave.responses[item.id];
+    autosave.setResponse(item.id, {
+      itemId: item.id,
+      status: current?.status ?? 'conform',
+      ...current,
+      ...changes
+    }, { debounce });
+  };
+
+  if (!match || !inspectionId) {
+    return (
+      <div className="p-6">
+        <p>Inspeção não encontrada.</p>
+      </div>
+    );
+  }
+
+  if (isLoading || (inspection && !autosave.ready)) {
+    return (
+      <div className="p-6" data-testid="inspection-execution-loading">
+        <div className="animate-pulse space-y-6">
+          <div className="h-12 bg-muted rounded"></div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!inspection) {
+    return (
+      <div className="p-6 text-center" data-testid="inspection-not-found">
+        <AlertCircle className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+        <h2 className="text-xl font-semibold mb-2">Inspeção não encontrada</h2>
+        <Button onClick={() => setLocation('/inspections')}>
+          Voltar para Inspeções
+        </Button>
+      </div>
+    );
+  }
+
+  const section = sections[Math.min(sectionIndex, sections.length - 1)];
+  const progress = items.length > 0 ? Math.round((answeredCount / items.length) * 100) : 0;
+
+  const renderSaveStatus = () => {
+    switch (autosave.status) {
+      case 'pending':
+      case 'saving':
+        return <span className="flex items-center text-muted-foreground"><Loader2 className="w-4 h-4 mr-1 animate-spin" />Salvando...</span>;
+      case 'saved':
+        return <span className="flex items-center text-green-700"><Cloud className="w-4 h-4 mr-1" />Salvo às {autosave.savedAt?.toLocaleTimeString('pt-BR')}</span>;
+      case 'offline':
+        return <span className="flex items-center text-yellow-700"><CloudOff className="w-4 h-4 mr-1" />Salvo no dispositivo, aguardando conexão</span>;
+      case 'error':
+        return <span className="flex items-center text-destructive"><CloudOff className="w-4 h-4 mr-1" />{autosave.error}</span>;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6" data-testid="inspection-execution-page">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <Button variant="ghost" onClick={() => setLocation(`/inspections/${inspectionId}`)} data-testid="back-to-inspection">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-heading font-bold text-compia-blue">{inspection.title}</h1>
+            <p className="text-sm text-muted-foreground">{inspection.location}</p>
+          </div>
+        </div>
+        <div className="text-sm" data-testid="autosave-status">{renderSaveStatus()}</div>
+      </div>
+
+      {inspection.status === 'draft' && (
+        <Card className="bg-blue-50 border-blue-200">
+          <CardContent className="p-4 flex items-center justify-between">
+            <p className="text-blue-900">Inicie a inspeção para começar a responder o checklist.</p>
+            <Button
+              onClick={() => startMutation.mutate()}
+              disabled={startMutation.isPending}
+              className="bg-compia-blue hover:bg-compia-blue/90"
+              data-testid="start-inspection"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              Iniciar Inspeção
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {items.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            Esta inspeção não possui itens de checklist.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardContent className="p-4 space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>Itens respondidos</span>
+                <span className="font-medium" data-testid="execution-progress">{answeredCount}/{items.length}</span>
+              </div>
+              <Progress value={progress} />
+            </CardContent>
+          </Card>
+
+          <div className="grid lg:grid-cols-4 gap-6">
+            <Card className="lg:col-span-1 h-fit">
+              <CardHeader>
+                <CardTitle className="text-base">Seções</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1 p-2">
+                {sections.map((s, index) => {
+                  const done = s.items.filter(item => autosave.responses[item.id]).length;
+                  const complete = done === s.items.length;
+                  return (
+                    <button
+                      key={s.name}
+                      type="button"
+                      onClick={() => setSectionIndex(index)}
+                      className={`w-full flex items-center justify-between rounded-md px-3 py-2 text-left text-sm ${index === sectionIndex ? 'bg-compia-blue/10 text-compia-blue font-medium' : 'hover:bg-muted'}`}
+                      data-testid={`section-${index}`}
+                    >
+                      <span className="flex items-center">
+                        {complete
+                          ? <CheckCircle2 className="w-4 h-4 mr-2 text-green-600" />
+                          : <Circle className="w-4 h-4 mr-2 text-muted-foreground" />}
+                        {s.name}
+                      </span>
+                      <span className="text-xs text-muted-foreground">{done}/{s.items.length}</span>
+                    </button>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            <div className="lg:col-span-3 space-y-4">
+              <h2 className="text-lg font-semibold">{section.name}</h2>
+              {section.items.map(item => {
+                const response = autosave.responses[item.id];
+                const debounce = DEBOUNCED_TYPES.has(item.type);
+                return (
+                  <Card key={item.id} data-testid={`checklist-item-${item.id}`}>
+                    <CardContent className="p-4 space-y-4">
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <p className="font-medium">
+                            {item.label}
+                            {item.required && <span className="text-destructive ml-1">*</span>}
+                          </p>
+                          {item.description && <p className="text-sm text-muted-foreground mt-1">{item.description}</p>}
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          {item.standard && <Badge variant="outline">{item.standard}</Badge>}
+                          {response && isRunning && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => autosave.setResponse(item.id, null)}
+                              title="Limpar resposta"
+                              data-testid={`clear-response-${item.id}`}
+                            >
+                              <RotateCcw className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className={previous ? "grid md:grid-cols-2 gap-4" : undefined}>
+                        {previous && (
+                          <div className="rounded-md bg-muted/50 p-3" data-testid={`previous-response-${item.id}`}>
+                            <p className="font-semibold text-muted-foreground uppercase tracking-wide text-xs mb-1">Inspeção anterior</p>
+                            <ResponseSummary response={previous.get(item.id)} files={parentFiles} />
+                          </div>
+                        )}
+                        <div className="space-y-4">
+                          <div className="flex flex-wrap gap-2">
+                            {INSPECTION_RESPONSE_STATUSES.map(status => (
+                              <Button
+                                key={status}
+                                type="button"
+                                size="sm"
+                                variant={response?.status === status ? 'default' : 'outline'}
+                                className={response?.status === status ? STATUS_STYLES[status] : ''}
+                                disabled={!isRunning}
+                                onClick={() => updateItem(item, { status })}
+                                data-testid={`status-${item.id}-${status}`}
+                              >
+                                {INSPECTION_RESPONSE_STATUS_LABELS[status]}
+                              </Button>
+                            ))}
+                          </div>
+
+                          {response?.status !== 'not_applicable' && (
+                            <ChecklistFieldInput
+                              item={item}
+                              value={response?.value}
+                              onChange={(value) => updateItem(item, { value }, debounce)}
+                              disabled={!isRunning}
+                            />
+                          )}
+
+                          {response?.status === 'non_conform' && (
+                            <div className="w-48 space-y-1">
+                              <Label>Severidade</Label>
+                              <Select
+                                value={response.severity || 'medium'}
+                                onValueChange={(severity) => updateItem(item, { severity: severity as FindingSeverity })}
+                                disabled={!isRunning}
+                              >
+                                <SelectTrigger data-testid={`severity-${item.id}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {FINDING_SEVERITIES.map(severity => (
+                                    <SelectItem key={severity} value={severity}>{SEVERITY_LABELS[severity]}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
+
+                          {response && (
+                            <Textarea
+                              placeholder="Observações"
+                              value={response.notes || ''}
+                              onChange={(e) => updateItem(item, { notes: e.target.value || undefined }, true)}
+                              disabled={!isRunning}
+                              data-testid={`notes-${item.id}`}
+                            />
+                          )}
+
+                          {response && (
+                            <EvidenceAttachments
+                              inspectionId={inspectionId}
+                              itemId={item.id}
+                              evidence={response.evidence || []}
+                              onChange={(evidence) => updateItem(item, { evidence: evidence.length ? evidence : undefined })}
+                              disabled={!isRunning}
+                            />
+                          )}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+
+              <div className="flex items-center justify-between">
+                <Button
+                  variant="outline"
+                  onClick={() => setSectionIndex(sectionIndex - 1)}
+                  disabled={sectionIndex === 0}
+                  data-testid="previous-section"
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Seção anterior
+                </Button>
+                {sectionIndex < sections.length - 1 ? (
+                  <Button onClick={() => setSectionIndex(sectionIndex + 1)} data-testid="next-section">
+                    Próxima seção
+                    <ArrowRight className="w-4 h-4 ml-2" />
+                  </Button>
+                ) : isRunning && (
+                  <Button
+                    onClick={() => completeMutation.mutate()}
+                    disabled={completeMutation.isPending || missingRequired.length > 0}
+                    className="bg-compia-green hover:bg-compia-green/90"
+                    data-testid="complete-inspection"
+                  >
+                    <CheckCircle2 className="w-4 h-4 mr-2" />
+                    Finalizar Inspeção
+                  </Button>
+                )}
+              </div>
+
+              {isRunning && missingRequired.length > 0 && sectionIndex === sections.length - 1 && (
+                <Card className="border-yellow-200 bg-yellow-50" data-testid="missing-required">
+                  <CardContent className="p-4 text-sm text-yellow-900 space-y-1">
+                    <p className="font-medium">Responda os itens obrigatórios para finalizar:</p>
+                    {missingRequired.map(item => (
+                      <button
+                        key={item.id}
+                        type="button"
+                        className="block underline"
+                        onClick={() => setSectionIndex(sections.findIndex(s => s.items.includes(item)))}
+                      >
+                        {item.label}
+                      </button>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Map as MapIcon, Crosshair } from "lucide-react";
+import CheckInMap from "@/components/Inspections/CheckInMap";
+import { GEOFENCE_STATUS_COLORS, buildCheckInMapLayers } from "@/components/Inspections/InspectionCheckIns";
+import { STATUS_LABELS } from "@/lib/constants";
+import { GEOFENCE_STATUS_LABELS, formatDistance, type GeofenceStatus } from "@shared/geofence";
+import type { Inspection, InspectionCheckIn } from "@shared/schema";
+
+interface CheckInMapEntry {
+  inspection: Pick<Inspection, "id" | "title" | "location" | "status" | "companyName" | "technicianName" | "geofenceStatus">;
+  checkIns: InspectionCheckIn[];
+}
+
+function toDateInput(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Auditors' view of where inspections were actually started and completed,
+// to spot the ones filled in away from the site
+export default function InspectionMap() {
+  const [, setLocation] = useLocation();
+  const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [flaggedOnly, setFlaggedOnly] = useState(true);
+
+  // The end date is inclusive in the filter
+  const params = new URLSearchParams({
+    from: new Date(`${from}T00:00:00`).toISOString(),
+    to: new Date(new Date(`${to}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString(),
+    flagged: String(flaggedOnly)
+  });
+  const validRange = !!from && !!to && from <= to;
+
+  const { data: entries = [], isLoading } = useQuery<CheckInMapEntry[]>({
+    queryKey: [`/api/inspection-check-ins?${params}`],
+    enabled: validRange,
+  });
+
+  const { markers, circles } = buildCheckInMapLayers(
+    entries.flatMap(entry => entry.checkIns),
+    checkIn => setLocation(`/inspections/${checkIn.inspectionId}`)
+  );
+
+  return (
+    <div className="space-y-6" data-testid="inspection-map-page">
+      <div>
+        <h1 className="text-3xl font-heading font-bold text-compia-blue flex items-center">
+          <MapIcon className="w-8 h-8 mr-3" />
+          Mapa de Inspeções
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Onde as inspeções foram iniciadas e concluídas, comparado ao local cadastrado
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="map-from">De</Label>
+            <Input id="map-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="map-from" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="map-to">Até</Label>
+            <Input id="map-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="map-to" />
+          </div>
+          <label className="flex items-center space-x-2 text-sm pb-2">
+            <Switch checked={flaggedOnly} onCheckedChange={setFlaggedOnly} data-testid="map-flagged-only" />
+            <span>Apenas sinalizadas</span>
+          </label>
+        </CardContent>
+      </Card>
+
+      <CheckInMap markers={markers} circles={circles} height={480} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <Crosshair className="w-5 h-5 mr-2 text-compia-blue" />
+            Inspeções ({entries.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!validRange ? (
+            <p className="text-sm text-muted-foreground">Período inválido</p>
+          ) : isLoading ? (
+            <p className="text-sm text-muted-foreground">Carregando...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {flaggedOnly ? "Nenhuma inspeção sinalizada no período" : "Nenhum check-in no período"}
+            </p>
+          ) : (
+            <div className="divide-y">
+              {entries.map(({ inspection, checkIns }) => {
+                const farthest = Math.max(...checkIns.map(checkIn => checkIn.distanceMeters ?? 0));
+                return (
+                  <Link
+                    key={inspection.id}
+                    href={`/inspections/${inspection.id}`}
+                    className="flex items-center justify-between gap-2 py-3 text-sm hover:bg-muted px-2 rounded-md"
+                    data-testid={`map-inspection-${inspection.id}`}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{inspection.title}</p>
+                      <p className="text-muted-foreground truncate">
+                        {[inspection.companyName, inspection.location, inspection.technicianName].filter(Boolean).join(" · ")}
+                      </p>
+                    </div>
+                    <div className="text-right shrink-0 space-y-1">
+                      {inspection.geofenceStatus && (
+                        <Badge className={GEOFENCE_STATUS_COLORS[inspection.geofenceStatus as GeofenceStatus]}>
+                          {GEOFENCE_STATUS_LABELS[inspection.geofenceStatus as GeofenceStatus] ?? inspection.geofenceStatus}
+                        </Badge>
+                      )}
+                      <p className="text-muted-foreground">
+                        {STATUS_LABELS[inspection.status as keyof typeof STATUS_LABELS] ?? inspection.status}
+                        {farthest > 0 && ` · até ${formatDistance(farthest)}`}
+                      </p>
+                    </div>
+                  </Link>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,386 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CalendarClock, Plus, Edit, Pause, Loader2, Building2, User, ClipboardCheck } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, hasPermission } from "@/hooks/useAuth";
+import { SCHEDULE_RECURRENCE_PRESETS, describeRecurrence, getRecurrenceError } from "@shared/inspection-schedules";
+import type { ChecklistTemplate, Company, CompanyLocation, InspectionSchedule, PublicUser } from "@shared/schema";
+
+type ScheduleWithOccurrences = InspectionSchedule & { upcomingOccurrences: string[] };
+
+const CUSTOM_RECURRENCE = "custom";
+
+const PRIORITY_OPTIONS = [
+  { value: "low", label: "Baixa" },
+  { value: "medium", label: "Média" },
+  { value: "high", label: "Alta" },
+  { value: "urgent", label: "Urgente" }
+];
+
+interface ScheduleForm {
+  name: string;
+  companyId: string;
+  locationId: string;
+  checklistTemplateId: string;
+  recurrence: string;
+  startsAt: string;
+  endsAt: string;
+  defaultInspectorId: string;
+  leadTimeDays: number;
+  graceDays: number;
+  priority: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: ScheduleForm = {
+  name: "",
+  companyId: "",
+  locationId: "",
+  checklistTemplateId: "",
+  recurrence: SCHEDULE_RECURRENCE_PRESETS[1].recurrence,
+  startsAt: "",
+  endsAt: "",
+  defaultInspectorId: "",
+  leadTimeDays: 7,
+  graceDays: 1,
+  priority: "medium",
+  isActive: true
+};
+
+// Value for <input type="datetime-local"> in the browser's time zone
+function toLocalInput(value: string | Date | null): string {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function toForm(schedule: InspectionSchedule): ScheduleForm {
+  return {
+    name: schedule.name,
+    companyId: schedule.companyId,
+    locationId: schedule.locationId || "",
+    checklistTemplateId: schedule.checklistTemplateId,
+    recurrence: schedule.recurrence,
+    startsAt: toLocalInput(schedule.startsAt),
+    endsAt: toLocalInput(schedule.endsAt),
+    defaultInspectorId: schedule.defaultInspectorId,
+    leadTimeDays: schedule.leadTimeDays,
+    graceDays: schedule.graceDays,
+    priority: schedule.priority || "medium",
+    isActive: schedule.isActive !== false
+  };
+}
+
+export default function InspectionSchedules() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<InspectionSchedule | "new" | null>(null);
+  const [form, setForm] = useState<ScheduleForm>(EMPTY_FORM);
+  const canManage = hasPermission(user, 'schedule:manage');
+
+  const { data: schedules, isLoading } = useQuery<ScheduleWithOccurrences[]>({
+    queryKey: ['/api/inspection-schedules'],
+  });
+
+  const { data: companies = [] } = useQuery<Company[]>({
+    queryKey: ['/api/companies'],
+  });
+
+  const { data: templates = [] } = useQuery<(ChecklistTemplate & { is_category_folder?: boolean })[]>({
+    queryKey: ['/api/checklist-templates'],
+    enabled: canManage,
+  });
+
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ['/api/users'],
+    enabled: canManage,
+  });
+
+  const { data: locations = [] } = useQuery<CompanyLocation[]>({
+    queryKey: ['/api/companies', form.companyId, 'locations'],
+    enabled: !!editing && !!form.companyId,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const body = {
+        ...form,
+        locationId: form.locationId || null,
+        startsAt: new Date(form.startsAt).toISOString(),
+        endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : null
+      };
+      return editing && editing !== "new"
+        ? apiRequest(`/api/inspection-schedules/${editing.id}`, 'PUT', body)
+        : apiRequest('/api/inspection-schedules', 'POST', body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/inspection-schedules'] });
+      toast({ title: editing === "new" ? "Agendamento criado" : "Agendamento atualizado" });
+      setEditing(null);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao salvar agendamento", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/inspection-schedules/${id}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/inspection-schedules'] });
+      toast({ title: "Agendamento desativado" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao desativar agendamento", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  const openForm = (schedule: InspectionSchedule | "new") => {
+    setForm(schedule === "new" ? EMPTY_FORM : toForm(schedule));
+    setEditing(schedule);
+  };
+
+  const update = <K extends keyof ScheduleForm>(key: K, value: ScheduleForm[K]) =>
+    setForm(current => ({ ...current, [key]: value }));
+
+  const preset = SCHEDULE_RECURRENCE_PRESETS.find(p => p.recurrence === form.recurrence)?.recurrence ?? CUSTOM_RECURRENCE;
+  const recurrenceError = form.recurrence ? getRecurrenceError(form.recurrence) : "Informe a recorrência";
+  const canSave = form.name.trim() && form.companyId && form.checklistTemplateId && form.defaultInspectorId &&
+    form.startsAt && !recurrenceError && !saveMutation.isPending;
+
+  const companyName = (id: string) => companies.find(company => company.id === id)?.name ?? "Empresa";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Agendamentos</h1>
+          <p className="text-muted-foreground">
+            Inspeções recorrentes geradas automaticamente como rascunho antes de cada data
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={() => openForm("new")} className="bg-compia-blue hover:bg-compia-blue/90" data-testid="button-new-schedule">
+            <Plus className="w-4 h-4 mr-2" />
+            Novo Agendamento
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="grid gap-4 md:grid-cols-2">
+          {[1, 2].map(i => <div key={i} className="h-40 bg-muted rounded-lg animate-pulse" />)}
+        </div>
+      ) : !schedules?.length ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <CalendarClock className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            Nenhum agendamento cadastrado
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {schedules.map(schedule => (
+            <Card key={schedule.id} className={schedule.isActive ? "" : "opacity-60"} data-testid={`schedule-${schedule.id}`}>
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center justify-between text-lg">
+                  <span className="flex items-center">
+                    <CalendarClock className="w-5 h-5 mr-2 text-compia-blue" />
+                    {schedule.name}
+                  </span>
+                  <Badge variant={schedule.isActive ? "default" : "secondary"}>
+                    {schedule.isActive ? describeRecurrence(schedule.recurrence) : "Inativo"}
+                  </Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <div className="space-y-1 text-muted-foreground">
+                  <p className="flex items-center"><Building2 className="w-4 h-4 mr-2" />{companyName(schedule.companyId)}</p>
+                  <p className="flex items-center">
+                    <User className="w-4 h-4 mr-2" />
+                    {users.find(u => u.id === schedule.defaultInspectorId)?.name ?? "Inspetor padrão"}
+                  </p>
+                  <p className="flex items-center">
+                    <ClipboardCheck className="w-4 h-4 mr-2" />
+                    Rascunho {schedule.leadTimeDays} dia(s) antes · alerta após {schedule.graceDays} dia(s) sem início
+                  </p>
+                </div>
+                {schedule.upcomingOccurrences.length > 0 && (
+                  <div>
+                    <p className="font-medium mb-1">Próximas datas</p>
+                    <div className="flex flex-wrap gap-1">
+                      {schedule.upcomingOccurrences.map(date => (
+                        <Badge key={date} variant="outline">{new Date(date).toLocaleDateString('pt-BR')}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {canManage && (
+                  <div className="flex gap-2 pt-1">
+                    <Button variant="outline" size="sm" onClick={() => openForm(schedule)} data-testid={`edit-schedule-${schedule.id}`}>
+                      <Edit className="w-4 h-4 mr-1" />
+                      Editar
+                    </Button>
+                    {schedule.isActive && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => deactivateMutation.mutate(schedule.id)}
+                        disabled={deactivateMutation.isPending}
+                        data-testid={`deactivate-schedule-${schedule.id}`}
+                      >
+                        <Pause className="w-4 h-4 mr-1" />
+                        Desativar
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Novo agendamento" : "Editar agendamento"}</DialogTitle>
+            <DialogDescription>
+              Cada ocorrência gera uma inspeção em rascunho para o inspetor padrão com a antecedência definida.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="schedule-name">Nome *</Label>
+              <Input id="schedule-name" value={form.name} onChange={(e) => update("name", e.target.value)} placeholder="Ex.: Extintores - Matriz" />
+            </div>
+
+            <div className="space-y-1">
+              <Label>Empresa *</Label>
+              <Select value={form.companyId} onValueChange={(value) => setForm(current => ({ ...current, companyId: value, locationId: "" }))}>
+                <SelectTrigger><SelectValue placeholder="Selecione a empresa" /></SelectTrigger>
+                <SelectContent>
+                  {companies.map(company => <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Local</Label>
+              <Select value={form.locationId || "none"} onValueChange={(value) => update("locationId", value === "none" ? "" : value)} disabled={!form.companyId}>
+                <SelectTrigger><SelectValue placeholder="Toda a empresa" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Toda a empresa</SelectItem>
+                  {locations.map(location => <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Checklist *</Label>
+              <Select value={form.checklistTemplateId} onValueChange={(value) => update("checklistTemplateId", value)}>
+                <SelectTrigger><SelectValue placeholder="Selecione o checklist" /></SelectTrigger>
+                <SelectContent>
+                  {templates.filter(template => !template.is_category_folder).map(template => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Inspetor padrão *</Label>
+              <Select value={form.defaultInspectorId} onValueChange={(value) => update("defaultInspectorId", value)}>
+                <SelectTrigger><SelectValue placeholder="Selecione o inspetor" /></SelectTrigger>
+                <SelectContent>
+                  {users.filter(u => u.isActive !== false).map(u => <SelectItem key={u.id} value={u.id}>{u.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Recorrência *</Label>
+              <Select
+                value={preset}
+                onValueChange={(value) => update("recurrence", value === CUSTOM_RECURRENCE ? "" : value)}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {SCHEDULE_RECURRENCE_PRESETS.map(p => <SelectItem key={p.recurrence} value={p.recurrence}>{p.label}</SelectItem>)}
+                  <SelectItem value={CUSTOM_RECURRENCE}>Personalizada (RRULE)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="schedule-rrule">Regra (RRULE)</Label>
+              <Input
+                id="schedule-rrule"
+                value={form.recurrence}
+                onChange={(e) => update("recurrence", e.target.value)}
+                placeholder="FREQ=MONTHLY;BYMONTHDAY=10"
+                className="font-mono"
+              />
+              <p className={`text-xs ${recurrenceError ? "text-destructive" : "text-muted-foreground"}`}>
+                {recurrenceError || describeRecurrence(form.recurrence)}
+              </p>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="schedule-starts">Primeira ocorrência *</Label>
+              <Input id="schedule-starts" type="datetime-local" value={form.startsAt} onChange={(e) => update("startsAt", e.target.value)} />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="schedule-ends">Término</Label>
+              <Input id="schedule-ends" type="datetime-local" value={form.endsAt} onChange={(e) => update("endsAt", e.target.value)} />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="schedule-lead">Antecedência do rascunho (dias)</Label>
+              <Input id="schedule-lead" type="number" min={0} max={90} value={form.leadTimeDays} onChange={(e) => update("leadTimeDays", Number(e.target.value))} />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="schedule-grace">Alertar se não iniciada após (dias)</Label>
+              <Input id="schedule-grace" type="number" min={0} max={30} value={form.graceDays} onChange={(e) => update("graceDays", Number(e.target.value))} />
+            </div>
+
+            <div className="space-y-1">
+              <Label>Prioridade</Label>
+              <Select value={form.priority} onValueChange={(value) => update("priority", value)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {PRIORITY_OPTIONS.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center gap-2 pt-6">
+              <Switch id="schedule-active" checked={form.isActive} onCheckedChange={(checked) => update("isActive", checked)} />
+              <Label htmlFor="schedule-active">Ativo</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancelar</Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={!canSave} data-testid="save-schedule">
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -7,6 +7,9 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import InspectionCalendar from "@/components/Inspections/InspectionCalendar";
+import CalendarFeedDialog from "@/components/Inspections/CalendarFeedDialog";
 import { 
   Plus, 
   Search, 
@@ -22,7 +25,9 @@ import {
   Trash2,
   Copy,
   Download,
-  Upload
+  Upload,
+  List,
+  CalendarDays
 } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
@@ -215,6 +220,7 @@ export default function Inspections() {
       <div className="flex justify-between items-center">
         <h1 className="text-3xl font-heading font-bold text-compia-blue">Inspeções</h1>
         <div className="flex space-x-2">
+          <CalendarFeedDialog />
           <Button
             onClick={handleExportInspections}
             variant="outline"
@@ -233,131 +239,150 @@ export default function Inspections() {
         </div>
       </div>
 
-      {/* Filters */}
-      <Card>
-        <CardContent className="p-6">
-          <div className="flex flex-col md:flex-row md:items-center justify-between space-y-4 md:space-y-0 md:space-x-4">
-            <div className="flex-1 flex space-x-4">
-              <div className="relative flex-1 max-w-sm">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-                <Input
-                  placeholder="Buscar inspeções..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-10"
-                  data-testid="search-inspections"
-                />
-              </div>
-              
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
-                <SelectTrigger className="w-48" data-testid="filter-status">
-                  <Filter className="w-4 h-4 mr-2" />
-                  <SelectValue placeholder="Filtrar por status" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">Todos os Status</SelectItem>
-                  <SelectItem value="draft">Rascunho</SelectItem>
-                  <SelectItem value="in_progress">Em Andamento</SelectItem>
-                  <SelectItem value="completed">Concluída</SelectItem>
-                  <SelectItem value="approved">Aprovada</SelectItem>
-                  <SelectItem value="rejected">Rejeitada</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+      <Tabs defaultValue="list">
+        <TabsList>
+          <TabsTrigger value="list" data-testid="inspections-tab-list">
+            <List className="w-4 h-4 mr-2" />
+            Lista
+          </TabsTrigger>
+          <TabsTrigger value="calendar" data-testid="inspections-tab-calendar">
+            <CalendarDays className="w-4 h-4 mr-2" />
+            Calendário
+          </TabsTrigger>
+        </TabsList>
 
-      {/* Inspections Grid */}
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {filteredInspections.map((inspection) => (
-          <Card key={inspection.id} className="hover:shadow-md transition-shadow" data-testid={`inspection-card-${inspection.id}`}>
-            <CardHeader className="pb-3">
-              <div className="flex items-start justify-between">
-                <CardTitle className="text-lg font-semibold text-compia-blue line-clamp-2">
-                  {inspection.title}
-                </CardTitle>
-                <Badge className={`ml-2 ${getStatusColor(inspection.status)}`}>
-                  {getStatusIcon(inspection.status)}
-                  <span className="ml-1">{getStatusLabel(inspection.status)}</span>
-                </Badge>
-              </div>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              {inspection.description && (
-                <p className="text-sm text-muted-foreground line-clamp-2">
-                  {inspection.description}
-                </p>
-              )}
+        <TabsContent value="list" className="space-y-6">
+          {/* Filters */}
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex flex-col md:flex-row md:items-center justify-between space-y-4 md:space-y-0 md:space-x-4">
+                <div className="flex-1 flex space-x-4">
+                  <div className="relative flex-1 max-w-sm">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                    <Input
+                      placeholder="Buscar inspeções..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="pl-10"
+                      data-testid="search-inspections"
+                    />
+                  </div>
               
-              <div className="space-y-2 text-sm">
-                <div className="flex items-center text-muted-foreground">
-                  <MapPin className="w-4 h-4 mr-2" />
-                  <span className="truncate">{inspection.location}</span>
+                  <Select value={statusFilter} onValueChange={setStatusFilter}>
+                    <SelectTrigger className="w-48" data-testid="filter-status">
+                      <Filter className="w-4 h-4 mr-2" />
+                      <SelectValue placeholder="Filtrar por status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Todos os Status</SelectItem>
+                      <SelectItem value="draft">Rascunho</SelectItem>
+                      <SelectItem value="in_progress">Em Andamento</SelectItem>
+                      <SelectItem value="completed">Concluída</SelectItem>
+                      <SelectItem value="approved">Aprovada</SelectItem>
+                      <SelectItem value="rejected">Rejeitada</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Inspections Grid */}
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {filteredInspections.map((inspection) => (
+              <Card key={inspection.id} className="hover:shadow-md transition-shadow" data-testid={`inspection-card-${inspection.id}`}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between">
+                    <CardTitle className="text-lg font-semibold text-compia-blue line-clamp-2">
+                      {inspection.title}
+                    </CardTitle>
+                    <Badge className={`ml-2 ${getStatusColor(inspection.status)}`}>
+                      {getStatusIcon(inspection.status)}
+                      <span className="ml-1">{getStatusLabel(inspection.status)}</span>
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {inspection.description && (
+                    <p className="text-sm text-muted-foreground line-clamp-2">
+                      {inspection.description}
+                    </p>
+                  )}
+              
+                  <div className="space-y-2 text-sm">
+                    <div className="flex items-center text-muted-foreground">
+                      <MapPin className="w-4 h-4 mr-2" />
+                      <span className="truncate">{inspection.location}</span>
+                    </div>
                 
-                {inspection.scheduledAt && (
-                  <div className="flex items-center text-muted-foreground">
-                    <Calendar className="w-4 h-4 mr-2" />
-                    <span>{new Date(inspection.scheduledAt).toLocaleDateString('pt-BR')}</span>
+                    {inspection.scheduledAt && (
+                      <div className="flex items-center text-muted-foreground">
+                        <Calendar className="w-4 h-4 mr-2" />
+                        <span>{new Date(inspection.scheduledAt).toLocaleDateString('pt-BR')}</span>
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
               
-              <div className="flex items-center justify-between pt-3 border-t">
-                <div className="flex space-x-1">
-                  <Link href={`/inspections/${inspection.id}`}>
-                    <Button variant="ghost" size="sm" data-testid={`view-inspection-${inspection.id}`}>
-                      <Play className="w-4 h-4" />
-                    </Button>
-                  </Link>
+                  <div className="flex items-center justify-between pt-3 border-t">
+                    <div className="flex space-x-1">
+                      <Link href={`/inspections/${inspection.id}`}>
+                        <Button variant="ghost" size="sm" data-testid={`view-inspection-${inspection.id}`}>
+                          <Play className="w-4 h-4" />
+                        </Button>
+                      </Link>
                   
-                  <Button 
-                    variant="ghost" 
-                    size="sm"
-                    onClick={() => handleCloneInspection(inspection.id, inspection.title)}
-                    data-testid={`clone-inspection-${inspection.id}`}
-                  >
-                    <Copy className="w-4 h-4" />
-                  </Button>
+                      <Button 
+                        variant="ghost" 
+                        size="sm"
+                        onClick={() => handleCloneInspection(inspection.id, inspection.title)}
+                        data-testid={`clone-inspection-${inspection.id}`}
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
                   
-                  <Button 
-                    variant="ghost" 
-                    size="sm"
-                    onClick={() => setShowDeleteModal(inspection.id)}
-                    className="text-red-500 hover:text-red-700"
-                    data-testid={`delete-inspection-${inspection.id}`}
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
-                </div>
+                      <Button 
+                        variant="ghost" 
+                        size="sm"
+                        onClick={() => setShowDeleteModal(inspection.id)}
+                        className="text-red-500 hover:text-red-700"
+                        data-testid={`delete-inspection-${inspection.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
                 
-                <span className="text-xs text-muted-foreground">
-                  {new Date(inspection.createdAt!).toLocaleDateString('pt-BR')}
-                </span>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(inspection.createdAt!).toLocaleDateString('pt-BR')}
+                    </span>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
 
-      {filteredInspections.length === 0 && (
-        <Card>
-          <CardContent className="p-12 text-center">
-            <AlertCircle className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-lg font-semibold mb-2">Nenhuma inspeção encontrada</h3>
-            <p className="text-muted-foreground mb-4">
-              Não foram encontradas inspeções com os filtros selecionados.
-            </p>
-            <Link href="/inspections/new">
-              <Button className="bg-compia-blue hover:bg-compia-blue/90">
-                <Plus className="w-4 h-4 mr-2" />
-                Criar primeira inspeção
-              </Button>
-            </Link>
-          </CardContent>
-        </Card>
-      )}
+          {filteredInspections.length === 0 && (
+            <Card>
+              <CardContent className="p-12 text-center">
+                <AlertCircle className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-semibold mb-2">Nenhuma inspeção encontrada</h3>
+                <p className="text-muted-foreground mb-4">
+                  Não foram encontradas inspeções com os filtros selecionados.
+                </p>
+                <Link href="/inspections/new">
+                  <Button className="bg-compia-blue hover:bg-compia-blue/90">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Criar primeira inspeção
+                  </Button>
+                </Link>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="calendar">
+          <InspectionCalendar inspections={inspections} onRescheduled={fetchInspections} />
+        </TabsContent>
+      </Tabs>
 
       {/* Delete Confirmation Modal */}
       {showDeleteModal && (
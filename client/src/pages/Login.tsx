@@ -0,0 +1,283 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Shield, LogIn, KeyRound, Smartphone } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useLocation } from "wouter";
+
+const loginFormSchema = z.object({
+  email: z.string().email("Email inválido"),
+  password: z.string().min(1, "Informe sua senha"),
+});
+
+type LoginFormData = z.infer<typeof loginFormSchema>;
+
+export default function Login() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [verificationCode, setVerificationCode] = useState("");
+
+  const form = useForm<LoginFormData>({
+    resolver: zodResolver(loginFormSchema),
+    defaultValues: {
+      email: "",
+      password: "",
+    }
+  });
+
+  const redirect = new URLSearchParams(window.location.search).get('redirect');
+
+  // Errors coming back from the SSO callback redirect
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (params.get('error')?.startsWith('sso')) {
+      toast({
+        title: "Falha no login corporativo",
+        description: params.get('message') || "Não foi possível concluir o login pelo provedor de identidade.",
+        variant: "destructive"
+      });
+    }
+  }, []);
+
+  const ssoMutation = useMutation({
+    mutationFn: (email: string) => apiRequest(`/api/auth/sso/discover?email=${encodeURIComponent(email)}`, 'GET'),
+    onSuccess: (result) => {
+      if (result.sso) {
+        const suffix = redirect && redirect.startsWith('/') ? `&redirect=${encodeURIComponent(redirect)}` : '';
+        window.location.href = result.loginUrl + suffix;
+      } else {
+        toast({
+          title: "SSO não configurado",
+          description: "O domínio deste email não usa login corporativo. Entre com sua senha.",
+        });
+      }
+    }
+  });
+
+  const completeLogin = (user: unknown) => {
+    queryClient.setQueryData(['/api/user/me'], user);
+    setLocation(redirect && redirect.startsWith('/') ? redirect : '/dashboard');
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: (data: LoginFormData) => apiRequest('/api/auth/login', 'POST', data),
+    onSuccess: (result) => {
+      if (result.twoFactorRequired) {
+        setTwoFactorStep(true);
+        return;
+      }
+      completeLogin(result);
+    },
+    onError: () => {
+      toast({
+        title: "Não foi possível entrar",
+        description: "Email ou senha inválidos.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: () => apiRequest('/api/auth/2fa/verify', 'POST',
+      useRecoveryCode ? { recoveryCode: verificationCode } : { code: verificationCode }
+    ),
+    onSuccess: completeLogin,
+    onError: (error) => {
+      setVerificationCode("");
+      // 401 with an expired challenge means starting over from the password step
+      if ((error as Error).message.includes("expirada")) {
+        setTwoFactorStep(false);
+      }
+      toast({
+        title: "Código inválido",
+        description: "Confira o código e tente novamente.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4" data-testid="login-page">
+      <div className="w-full max-w-md space-y-6">
+        {/* Header */}
+        <div className="text-center">
+          <div className="w-16 h-16 bg-gradient-to-br from-compia-blue to-compia-purple rounded-lg flex items-center justify-center mx-auto mb-4">
+            <Shield className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-heading font-bold text-foreground mb-2">COMPIA</h1>
+          <p className="text-muted-foreground">Inteligência em Segurança do Trabalho</p>
+        </div>
+
+        {twoFactorStep ? (
+        <Card data-testid="two-factor-form">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Smartphone className="w-5 h-5 text-compia-blue" />
+              <span>Verificação em duas etapas</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                verifyMutation.mutate();
+              }}
+              className="space-y-4"
+            >
+              {useRecoveryCode ? (
+                <Input
+                  value={verificationCode}
+                  onChange={(e) => setVerificationCode(e.target.value)}
+                  placeholder="XXXXX-XXXXX"
+                  autoComplete="off"
+                  data-testid="input-recovery-code"
+                />
+              ) : (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Informe o código de 6 dígitos do seu aplicativo autenticador.
+                  </p>
+                  <div className="flex justify-center">
+                    <InputOTP
+                      maxLength={6}
+                      value={verificationCode}
+                      onChange={setVerificationCode}
+                      autoFocus
+                      data-testid="input-totp-code"
+                    >
+                      <InputOTPGroup>
+                        {Array.from({ length: 6 }, (_, index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                </>
+              )}
+
+              <Button
+                type="submit"
+                disabled={verifyMutation.isPending || (!useRecoveryCode && verificationCode.length !== 6) || !verificationCode}
+                className="w-full bg-compia-blue hover:bg-compia-blue/90 text-primary-foreground"
+                data-testid="verify-two-factor-button"
+              >
+                {verifyMutation.isPending ? "Verificando..." : "Verificar"}
+              </Button>
+
+              <Button
+                type="button"
+                variant="link"
+                className="w-full"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setVerificationCode("");
+                }}
+                data-testid="toggle-recovery-code"
+              >
+                {useRecoveryCode ? "Usar código do aplicativo" : "Usar um código de recuperação"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+        ) : (
+        <Card data-testid="login-form">
+          <CardHeader>
+            <CardTitle>Entrar</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => loginMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="email"
+                          autoComplete="username"
+                          placeholder="seu@email.com"
+                          data-testid="input-email"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Senha</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="password"
+                          autoComplete="current-password"
+                          placeholder="Sua senha"
+                          data-testid="input-password"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="submit"
+                  disabled={loginMutation.isPending}
+                  className="w-full bg-compia-blue hover:bg-compia-blue/90 text-primary-foreground"
+                  data-testid="login-button"
+                >
+                  {loginMutation.isPending ? (
+                    "Entrando..."
+                  ) : (
+                    <>
+                      <LogIn className="w-4 h-4 mr-2" />
+                      Entrar
+                    </>
+                  )}
+                </Button>
+
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={ssoMutation.isPending}
+                  onClick={async () => {
+                    if (await form.trigger('email')) {
+                      ssoMutation.mutate(form.getValues('email'));
+                    }
+                  }}
+                  className="w-full"
+                  data-testid="sso-login-button"
+                >
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  Entrar com SSO corporativo
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+        )}
+
+        <div className="text-center text-sm text-muted-foreground">
+          <p>© 2024 COMPIA - Inteligência em Segurança do Trabalho</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,8 @@ import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/queryClient";
 import { Save, ArrowLeft, FileCheck, MapPin, Brain, Calendar, Building2, Users, Navigation } from 'lucide-react';
 import { Badge } from "@/components/ui/badge";
+import { fetchCepAddress, fetchAddressCoordinates } from "@/lib/address";
+import { formatFullAddress } from "@shared/address";
 import type { ChecklistTemplate, User, Organization } from "@shared/schema";
 
 // AI Assistants mapping
@@ -47,6 +49,8 @@ export default function NewInspection() {
   const queryClient = useQueryClient();
   const [loading, setLoading] = useState(false);
   const [gpsLoading, setGpsLoading] = useState(false);
+  // Coordinates looked up from the CEP rather than captured on site
+  const [coordinatesFromAddress, setCoordinatesFromAddress] = useState(false);
   
   const [formData, setFormData] = useState({
     // Basic info
@@ -172,6 +176,7 @@ export default function NewInspection() {
             latitude: position.coords.latitude,
             longitude: position.coords.longitude,
           }));
+          setCoordinatesFromAddress(false);
           setGpsLoading(false);
         },
         (error) => {
@@ -189,20 +194,21 @@ export default function NewInspection() {
   const handleZipCodeChange = async (zipCode: string) => {
     handleInputChange('zipCode', zipCode);
     
-    // Format CEP for API
-    const cleanZipCode = zipCode.replace(/\D/g, '');
-    if (cleanZipCode.length === 8) {
-      try {
-        const response = await fetch(`https://viacep.com.br/ws/${cleanZipCode}/json/`);
-        const data = await response.json();
-        
-        if (!data.erro) {
-          const fullAddress = `${data.logradouro}, ${data.bairro}, ${data.localidade} - ${data.uf}`;
-          handleInputChange('fullAddress', fullAddress);
+    try {
+      const lookup = await fetchCepAddress(zipCode);
+      if (!lookup) return;
+      handleInputChange('fullAddress', formatFullAddress({ ...lookup.fields, zipCode: null }));
+      
+      // Without a GPS fix, the address gives the site its coordinates
+      if (formData.latitude == null || coordinatesFromAddress) {
+        const point = await fetchAddressCoordinates(lookup.fields);
+        if (point) {
+          setFormData(prev => ({ ...prev, latitude: point.latitude, longitude: point.longitude }));
+          setCoordinatesFromAddress(true);
         }
-      } catch (error) {
-        console.error('Erro ao buscar CEP:', error);
       }
+    } catch (error) {
+      console.error('Erro ao buscar CEP:', error);
     }
   };
 
@@ -378,7 +384,7 @@ export default function NewInspection() {
                 {formData.latitude && formData.longitude && (
                   <div className="p-3 bg-muted rounded-md">
                     <p className="text-sm text-muted-foreground">
-                      📍 GPS capturado: {formData.latitude.toFixed(6)}, {formData.longitude.toFixed(6)}
+                      📍 {coordinatesFromAddress ? 'Coordenadas do endereço' : 'GPS capturado'}: {formData.latitude.toFixed(6)}, {formData.longitude.toFixed(6)}
                     </p>
                   </div>
                 )}
@@ -3,12 +3,21 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Building, Users, Plus, Settings, BarChart3, Activity } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
+import { Building, Users, Plus, Settings, BarChart3, Activity, KeyRound, Plug, Webhook, BellRing, MapPinned } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { useAuth, hasPermission } from "@/hooks/useAuth";
 import type { Organization, User, ActivityLog } from "@/lib/types";
+import type { EscalationStep } from "@shared/action-plans";
 import OrganizationHierarchy from "@/components/Organizations/OrganizationHierarchy";
 import InviteUserDialog from "@/components/Organizations/InviteUserDialog";
+import SSOConfigDialog from "@/components/Organizations/SSOConfigDialog";
+import ApiKeysDialog from "@/components/Organizations/ApiKeysDialog";
+import WebhooksDialog from "@/components/Organizations/WebhooksDialog";
+import EscalationPolicyDialog from "@/components/Organizations/EscalationPolicyDialog";
+import GeofenceDialog from "@/components/Organizations/GeofenceDialog";
 
 export default function Organizations() {
   const { user } = useAuth();
@@ -32,8 +41,32 @@ export default function Organizations() {
     ? organizations?.find(org => org.id === selectedOrg)
     : organizations?.find(org => org.id === user.organizationId);
 
-  const canManageOrgs = hasPermission(user, 'manage_organization');
-  const canInviteUsers = hasPermission(user, 'invite_user');
+  const canManageOrgs = hasPermission(user, 'organization:update');
+  const canInviteUsers = hasPermission(user, 'user:invite');
+  const canManageApiKeys = hasPermission(user, 'api_key:manage');
+  const canManageWebhooks = hasPermission(user, 'webhook:manage');
+  const { toast } = useToast();
+
+  const securityMutation = useMutation({
+    mutationFn: ({ id, requireTwoFactor }: { id: string; requireTwoFactor: boolean }) =>
+      apiRequest(`/api/organizations/${id}/security`, 'PUT', { requireTwoFactor }),
+    onSuccess: (organization) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/organizations'] });
+      toast({
+        title: organization.requireTwoFactor ? "2FA obrigatório" : "2FA opcional",
+        description: organization.requireTwoFactor
+          ? "Usuários com senha precisarão configurar um aplicativo autenticador no próximo acesso."
+          : "A autenticação em dois fatores deixou de ser obrigatória.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao alterar política de segurança",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
 
   return (
     <div className="p-6 space-y-6" data-testid="organizations-page">
@@ -68,10 +101,74 @@ export default function Organizations() {
                 </div>
               </div>
               {canManageOrgs && (
-                <Button variant="outline" data-testid="org-settings">
-                  <Settings className="w-4 h-4 mr-2" />
-                  Configurações
-                </Button>
+                <div className="flex items-center space-x-2">
+                  <label className="flex items-center space-x-2 text-sm text-muted-foreground mr-2">
+                    <Switch
+                      checked={!!currentOrg.requireTwoFactor}
+                      disabled={securityMutation.isPending}
+                      onCheckedChange={(checked) => securityMutation.mutate({ id: currentOrg.id, requireTwoFactor: checked })}
+                      data-testid="org-require-2fa"
+                    />
+                    <span>Exigir 2FA</span>
+                  </label>
+                  {currentOrg.plan === 'enterprise' && (
+                    <SSOConfigDialog
+                      organizationId={currentOrg.id}
+                      trigger={
+                        <Button variant="outline" data-testid="org-sso-settings">
+                          <KeyRound className="w-4 h-4 mr-2" />
+                          SSO
+                        </Button>
+                      }
+                    />
+                  )}
+                  {canManageApiKeys && (
+                    <ApiKeysDialog
+                      organizationId={currentOrg.id}
+                      trigger={
+                        <Button variant="outline" data-testid="org-api-keys">
+                          <Plug className="w-4 h-4 mr-2" />
+                          API
+                        </Button>
+                      }
+                    />
+                  )}
+                  {canManageWebhooks && (
+                    <WebhooksDialog
+                      organizationId={currentOrg.id}
+                      trigger={
+                        <Button variant="outline" data-testid="org-webhooks">
+                          <Webhook className="w-4 h-4 mr-2" />
+                          Webhooks
+                        </Button>
+                      }
+                    />
+                  )}
+                  <EscalationPolicyDialog
+                    organizationId={currentOrg.id}
+                    policy={currentOrg.escalationPolicy as EscalationStep[] | null}
+                    trigger={
+                      <Button variant="outline" data-testid="org-escalation-policy">
+                        <BellRing className="w-4 h-4 mr-2" />
+                        Lembretes
+                      </Button>
+                    }
+                  />
+                  <GeofenceDialog
+                    organizationId={currentOrg.id}
+                    radiusMeters={currentOrg.geofenceRadiusMeters}
+                    trigger={
+                      <Button variant="outline" data-testid="org-geofence">
+                        <MapPinned className="w-4 h-4 mr-2" />
+                        Check-in GPS
+                      </Button>
+                    }
+                  />
+                  <Button variant="outline" data-testid="org-settings">
+                    <Settings className="w-4 h-4 mr-2" />
+                    Configurações
+                  </Button>
+                </div>
               )}
             </div>
           </CardHeader>
@@ -292,7 +389,7 @@ export default function Organizations() {
                       <div className="flex-1">
                         <p className="text-sm font-medium text-foreground" data-testid={`activity-action-${log.id}`}>
                           {log.action === 'create_inspection' ? 'Criou uma inspeção' :
-                           log.action === 'invite_user' ? 'Convidou um usuário' :
+                           log.action === 'user:invite' ? 'Convidou um usuário' :
                            log.action === 'create_organization' ? 'Criou uma organização' :
                            log.action === 'accept_invitation' ? 'Aceitou um convite' :
                            log.action}
@@ -42,8 +42,8 @@ export default function Reports() {
     enabled: reportType === "compliance"
   });
 
-  const canExportData = hasPermission(user, 'export_data');
-  const canViewReports = hasPermission(user, 'view_reports');
+  const canExportData = hasPermission(user, 'report:export');
+  const canViewReports = hasPermission(user, 'report:view');
 
   // Mock data for charts - in production this would come from the API
   const inspectionTrendsData = [
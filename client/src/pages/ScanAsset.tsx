@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { Link, useLocation, useRoute } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MapPin, Wrench, Building2, ClipboardCheck, History, Play, LogIn, Loader2 } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, hasPermission } from "@/hooks/useAuth";
+import { STATUS_LABELS, STATUS_COLORS } from "@/lib/constants";
+import { QR_ASSET_KIND_LABELS, type ScannedAssetSummary, type ScannedInspection } from "@shared/qr-assets";
+import type { ChecklistTemplate, Inspection } from "@shared/schema";
+
+function formatDate(value: string | Date | null): string {
+  return value ? new Date(value).toLocaleDateString('pt-BR') : "-";
+}
+
+function InspectionResult({ inspection }: { inspection: ScannedInspection }) {
+  return (
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <div className="min-w-0">
+        <p className="font-medium truncate">Inspeção de {formatDate(inspection.completedAt)}</p>
+      </div>
+      <div className="text-right shrink-0">
+        <Badge className={STATUS_COLORS[inspection.status as keyof typeof STATUS_COLORS]}>
+          {STATUS_LABELS[inspection.status as keyof typeof STATUS_LABELS] ?? inspection.status}
+        </Badge>
+        {inspection.score != null && <p className="font-semibold mt-1">{Math.round(inspection.score)}%</p>}
+      </div>
+    </div>
+  );
+}
+
+// Public landing page of a QR label: anyone who scans it sees the asset and
+// its inspection history; signed-in inspectors can start a new inspection
+export default function ScanAsset() {
+  const [, params] = useRoute<{ token: string }>("/scan/:token");
+  const token = params?.token ?? "";
+  const [location, setLocation] = useLocation();
+  const { user, isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const canStart = hasPermission(user, 'inspection:create');
+  const [templateId, setTemplateId] = useState("");
+
+  const { data: asset, isLoading, error } = useQuery<ScannedAssetSummary>({
+    queryKey: ['/api/scan', token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const { data: templates = [] } = useQuery<(ChecklistTemplate & { is_category_folder?: boolean })[]>({
+    queryKey: ['/api/checklist-templates'],
+    enabled: canStart && !!asset && !asset.template,
+  });
+
+  const startMutation = useMutation({
+    mutationFn: () => apiRequest(`/api/scan/${token}/inspections`, 'POST', templateId ? { checklistTemplateId: templateId } : {}),
+    onSuccess: (inspection: Inspection) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/inspections'] });
+      toast({ title: "Inspeção criada", description: inspection.title });
+      setLocation(`/inspections/${inspection.id}`);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao iniciar inspeção", description: (error as Error).message, variant: "destructive" });
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-compia-blue" />
+      </div>
+    );
+  }
+
+  if (error || !asset) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="py-12 text-center text-muted-foreground">
+            QR Code não encontrado ou desativado
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const KindIcon = asset.kind === "equipment" ? Wrench : MapPin;
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-2xl mx-auto space-y-4">
+        <h1 className="text-2xl font-heading font-bold text-compia-blue text-center">COMPIA</h1>
+
+        <Card data-testid="scanned-asset">
+          <CardHeader>
+            <p className="text-sm text-muted-foreground flex items-center">
+              <KindIcon className="w-4 h-4 mr-1" />
+              {QR_ASSET_KIND_LABELS[asset.kind]}{asset.type && ` · ${asset.type}`}
+            </p>
+            <CardTitle className="text-2xl">
+              {asset.name}
+              {asset.tag && <Badge variant="outline" className="ml-2 align-middle">{asset.tag}</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm text-muted-foreground">
+            <p className="flex items-center"><Building2 className="w-4 h-4 mr-2" />{asset.companyName}</p>
+            {asset.locationName && <p className="flex items-center"><MapPin className="w-4 h-4 mr-2" />{asset.locationName}</p>}
+            {asset.address && <p className="pl-6">{asset.address}</p>}
+            {asset.template && (
+              <p className="flex items-center"><ClipboardCheck className="w-4 h-4 mr-2" />{asset.template.name}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Último resultado</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {asset.lastResult ? (
+              <div className="space-y-2">
+                <InspectionResult inspection={asset.lastResult} />
+                <p className={`text-sm ${asset.lastResult.nonConformCount ? "text-red-700" : "text-green-700"}`}>
+                  {asset.lastResult.nonConformCount
+                    ? `${asset.lastResult.nonConformCount} não conformidade(s) encontrada(s)`
+                    : "Nenhuma não conformidade encontrada"}
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Nenhuma inspeção concluída</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card data-testid="start-scanned-inspection">
+          <CardContent className="pt-6 space-y-3">
+            {!isAuthenticated ? (
+              <Link href={`/login?redirect=${encodeURIComponent(location)}`}>
+                <Button className="w-full" data-testid="scan-login">
+                  <LogIn className="w-4 h-4 mr-2" />
+                  Entrar para iniciar uma inspeção
+                </Button>
+              </Link>
+            ) : canStart ? (
+              <>
+                {!asset.template && (
+                  <div className="space-y-1">
+                    <Label>Checklist</Label>
+                    <Select value={templateId} onValueChange={setTemplateId}>
+                      <SelectTrigger><SelectValue placeholder="Selecione o checklist" /></SelectTrigger>
+                      <SelectContent>
+                        {templates.filter(template => !template.is_category_folder).map(template => (
+                          <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <Button
+                  className="w-full bg-compia-blue hover:bg-compia-blue/90"
+                  onClick={() => startMutation.mutate()}
+                  disabled={startMutation.isPending || (!asset.template && !templateId)}
+                  data-testid="scan-start-inspection"
+                >
+                  {startMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+                  Iniciar inspeção
+                </Button>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center">Seu perfil não pode criar inspeções</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center">
+              <History className="w-5 h-5 mr-2" />
+              Histórico
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {asset.history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhuma inspeção concluída</p>
+            ) : (
+              asset.history.map(inspection => (
+                isAuthenticated ? (
+                  <Link key={inspection.id} href={`/inspections/${inspection.id}`} className="block rounded-md border p-3 hover:bg-muted">
+                    <InspectionResult inspection={inspection} />
+                  </Link>
+                ) : (
+                  <div key={inspection.id} className="rounded-md border p-3">
+                    <InspectionResult inspection={inspection} />
+                  </div>
+                )
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
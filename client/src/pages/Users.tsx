@@ -7,7 +7,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   Search, Filter, Users as UsersIcon, UserPlus, Mail, Settings, 
-  MoreVertical, Eye, Edit, Trash2, Shield, Clock, CheckCircle
+  MoreVertical, Eye, Edit, Trash2, Shield, Clock, CheckCircle, ShieldCheck, Plus, KeyRound
 } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
@@ -16,6 +16,8 @@ import { useAuth, hasPermission } from "@/hooks/useAuth";
 import type { User, UserWithOrganization, Invitation, InvitationWithDetails } from "@/lib/types";
 import { ROLE_LABELS } from "@/lib/constants";
 import InviteUserDialog from "@/components/Organizations/InviteUserDialog";
+import RoleEditorDialog from "@/components/Users/RoleEditorDialog";
+import type { CustomRole } from "@shared/schema";
 import { 
   DropdownMenu,
   DropdownMenuContent,
@@ -47,14 +49,20 @@ export default function Users() {
     enabled: user.role === 'system_admin'
   });
 
-  const canInviteUsers = hasPermission(user, 'invite_user');
-  const canManageUsers = hasPermission(user, 'manage_organization') || user.role === 'system_admin';
+  const canInviteUsers = hasPermission(user, 'user:invite');
+  const canManageUsers = hasPermission(user, 'user:update');
+  const canManageRoles = hasPermission(user, 'role:manage');
+  const rolesOrganizationId = selectedOrganization !== "all" ? selectedOrganization : user.organizationId || "";
+
+  const { data: customRoles } = useQuery<CustomRole[]>({
+    queryKey: ['/api/roles', rolesOrganizationId],
+    queryFn: () => apiRequest(`/api/roles?organizationId=${rolesOrganizationId}`, 'GET'),
+    enabled: canManageRoles && !!rolesOrganizationId
+  });
 
   const updateUserMutation = useMutation({
-    mutationFn: async ({ userId, updates }: { userId: string; updates: Partial<User> }) => {
-      const response = await apiRequest(`/api/users/${userId}`, 'PATCH', updates);
-      return response.json();
-    },
+    mutationFn: ({ userId, updates }: { userId: string; updates: Partial<User> & { customRoleId?: string | null } }) =>
+      apiRequest(`/api/users/${userId}`, 'PATCH', updates),
     onSuccess: (updatedUser) => {
       toast({
         title: "Usuário atualizado!",
@@ -71,6 +79,43 @@ export default function Users() {
     }
   });
 
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: (userId: string) => apiRequest(`/api/users/${userId}/2fa/reset`, 'POST'),
+    onSuccess: (updatedUser) => {
+      toast({
+        title: "2FA redefinido",
+        description: `${updatedUser.name} precisará configurar o aplicativo autenticador novamente`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao redefinir 2FA",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteRoleMutation = useMutation({
+    mutationFn: (roleId: string) => apiRequest(`/api/roles/${roleId}`, 'DELETE'),
+    onSuccess: () => {
+      toast({
+        title: "Perfil excluído!",
+        description: "Os usuários deste perfil voltaram às permissões padrão",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao excluir perfil",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
   const deleteInvitationMutation = useMutation({
     mutationFn: async (invitationId: string) => {
       const response = await apiRequest(`/api/invitations/${invitationId}`, 'DELETE');
@@ -244,7 +289,7 @@ export default function Users() {
 
       {/* User Management Tabs */}
       <Tabs defaultValue="users" className="space-y-6" data-testid="users-tabs">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className={`grid w-full ${canManageRoles ? 'grid-cols-3' : 'grid-cols-2'}`}>
           <TabsTrigger value="users" data-testid="tab-users">
             <UsersIcon className="w-4 h-4 mr-2" />
             Usuários ({filteredUsers.length})
@@ -253,6 +298,12 @@ export default function Users() {
             <Mail className="w-4 h-4 mr-2" />
             Convites ({filteredInvitations.length})
           </TabsTrigger>
+          {canManageRoles && (
+            <TabsTrigger value="roles" data-testid="tab-roles">
+              <ShieldCheck className="w-4 h-4 mr-2" />
+              Perfis ({customRoles?.length || 0})
+            </TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="users" className="space-y-6" data-testid="users-content">
@@ -334,12 +385,40 @@ export default function Users() {
                               <Badge className={getRoleBadgeColor(userItem.role)}>
                                 {ROLE_LABELS[userItem.role as keyof typeof ROLE_LABELS]}
                               </Badge>
+                              {canManageRoles && userItem.id !== user.id && userItem.role !== 'system_admin' ? (
+                                <Select
+                                  value={userItem.customRoleId || "default"}
+                                  onValueChange={(value) => updateUserMutation.mutate({
+                                    userId: userItem.id,
+                                    updates: { customRoleId: value === "default" ? null : value }
+                                  })}
+                                >
+                                  <SelectTrigger className="h-7 w-[160px] text-xs" data-testid={`select-custom-role-${userItem.id}`}>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="default">Permissões padrão</SelectItem>
+                                    {customRoles?.map(role => (
+                                      <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              ) : userItem.customRoleId && (
+                                <Badge variant="outline">
+                                  {customRoles?.find(role => role.id === userItem.customRoleId)?.name || "Personalizado"}
+                                </Badge>
+                              )}
                             </div>
                           </td>
                           <td className="py-3" data-testid={`user-status-${userItem.id}`}>
-                            <Badge className={userItem.isActive ? "bg-compia-green/10 text-compia-green" : "bg-destructive/10 text-destructive"}>
-                              {userItem.isActive ? "Ativo" : "Inativo"}
-                            </Badge>
+                            <div className="flex items-center space-x-2">
+                              <Badge className={userItem.isActive ? "bg-compia-green/10 text-compia-green" : "bg-destructive/10 text-destructive"}>
+                                {userItem.isActive ? "Ativo" : "Inativo"}
+                              </Badge>
+                              {userItem.totpEnabled && (
+                                <Badge variant="outline" data-testid={`user-2fa-${userItem.id}`}>2FA</Badge>
+                              )}
+                            </div>
                           </td>
                           <td className="py-3 text-sm text-muted-foreground" data-testid={`user-last-login-${userItem.id}`}>
                             {userItem.lastLoginAt 
@@ -385,6 +464,15 @@ export default function Users() {
                                         </>
                                       )}
                                     </DropdownMenuItem>
+                                    {userItem.totpEnabled && (
+                                      <DropdownMenuItem
+                                        onClick={() => resetTwoFactorMutation.mutate(userItem.id)}
+                                        data-testid={`reset-2fa-${userItem.id}`}
+                                      >
+                                        <KeyRound className="w-4 h-4 mr-2" />
+                                        Redefinir 2FA
+                                      </DropdownMenuItem>
+                                    )}
                                     <DropdownMenuItem
                                       onClick={() => {/* Edit user */}}
                                       data-testid={`edit-user-${userItem.id}`}
@@ -526,6 +614,90 @@ export default function Users() {
             </Card>
           )}
         </TabsContent>
+
+        {canManageRoles && (
+          <TabsContent value="roles" className="space-y-6" data-testid="roles-content">
+            <Card data-testid="roles-card">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Perfis de Acesso Personalizados</CardTitle>
+                <RoleEditorDialog
+                  organizationId={rolesOrganizationId}
+                  trigger={
+                    <Button className="bg-compia-blue hover:bg-compia-blue/90" data-testid="create-role">
+                      <Plus className="w-4 h-4 mr-2" />
+                      Novo Perfil
+                    </Button>
+                  }
+                />
+              </CardHeader>
+              <CardContent>
+                {!customRoles?.length ? (
+                  <div className="py-8 text-center" data-testid="no-roles">
+                    <ShieldCheck className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+                    <p className="text-muted-foreground">
+                      Nenhum perfil personalizado. Usuários seguem as permissões padrão do seu perfil.
+                    </p>
+                  </div>
+                ) : (
+                  <table className="w-full" data-testid="roles-table">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left py-3 text-sm font-medium text-muted-foreground">Nome</th>
+                        <th className="text-left py-3 text-sm font-medium text-muted-foreground">Baseado em</th>
+                        <th className="text-left py-3 text-sm font-medium text-muted-foreground">Permissões</th>
+                        <th className="text-left py-3 text-sm font-medium text-muted-foreground">Usuários</th>
+                        <th className="text-left py-3 text-sm font-medium text-muted-foreground">Ações</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {customRoles.map(role => (
+                        <tr key={role.id} className="hover:bg-muted/50" data-testid={`role-row-${role.id}`}>
+                          <td className="py-3">
+                            <p className="font-medium text-foreground">{role.name}</p>
+                            {role.description && (
+                              <p className="text-xs text-muted-foreground">{role.description}</p>
+                            )}
+                          </td>
+                          <td className="py-3">
+                            <Badge className={getRoleBadgeColor(role.baseRole)}>
+                              {ROLE_LABELS[role.baseRole as keyof typeof ROLE_LABELS]}
+                            </Badge>
+                          </td>
+                          <td className="py-3 text-sm text-muted-foreground">{role.permissions.length}</td>
+                          <td className="py-3 text-sm text-muted-foreground">
+                            {(users || []).filter(u => u.customRoleId === role.id).length}
+                          </td>
+                          <td className="py-3">
+                            <div className="flex space-x-2">
+                              <RoleEditorDialog
+                                organizationId={role.organizationId}
+                                role={role}
+                                trigger={
+                                  <Button variant="ghost" size="sm" data-testid={`edit-role-${role.id}`}>
+                                    <Edit className="w-4 h-4" />
+                                  </Button>
+                                }
+                              />
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => deleteRoleMutation.mutate(role.id)}
+                                className="text-destructive hover:text-destructive/80"
+                                data-testid={`delete-role-${role.id}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -0,0 +1,316 @@
+CREATE TYPE "public"."action_status" AS ENUM('pending', 'in_progress', 'completed', 'overdue', 'cancelled');--> statement-breakpoint
+CREATE TYPE "public"."inspection_status" AS ENUM('draft', 'in_progress', 'completed', 'approved', 'rejected');--> statement-breakpoint
+CREATE TYPE "public"."organization_type" AS ENUM('master', 'enterprise', 'subsidiary');--> statement-breakpoint
+CREATE TYPE "public"."priority" AS ENUM('low', 'medium', 'high', 'critical');--> statement-breakpoint
+CREATE TYPE "public"."sso_protocol" AS ENUM('oidc', 'saml');--> statement-breakpoint
+CREATE TYPE "public"."subscription_plan" AS ENUM('basic', 'pro', 'enterprise');--> statement-breakpoint
+CREATE TYPE "public"."user_role" AS ENUM('system_admin', 'org_admin', 'manager', 'inspector', 'client');--> statement-breakpoint
+CREATE TABLE "action_plans" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"inspection_id" varchar NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"what" text NOT NULL,
+	"why" text NOT NULL,
+	"where" text NOT NULL,
+	"when" timestamp NOT NULL,
+	"who" text NOT NULL,
+	"how" text NOT NULL,
+	"how_much" text,
+	"status" "action_status" DEFAULT 'pending',
+	"priority" "priority" DEFAULT 'medium',
+	"organization_id" varchar NOT NULL,
+	"assigned_to" varchar,
+	"due_date" timestamp,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+ALTER TABLE "action_plans" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "activity_logs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"action" text NOT NULL,
+	"entity_type" text,
+	"entity_id" varchar,
+	"details" jsonb,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+ALTER TABLE "activity_logs" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "checklist_folders" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"parent_id" varchar,
+	"organization_id" varchar NOT NULL,
+	"icon" text DEFAULT 'folder',
+	"color" text DEFAULT '#3B82F6',
+	"order" integer DEFAULT 0,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+ALTER TABLE "checklist_folders" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "checklist_templates" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"category" text NOT NULL,
+	"folder_id" varchar,
+	"organization_id" varchar NOT NULL,
+	"items" jsonb NOT NULL,
+	"tags" text[],
+	"version" integer DEFAULT 1,
+	"parent_template_id" varchar,
+	"is_active" boolean DEFAULT true,
+	"is_default" boolean DEFAULT false,
+	"is_public" boolean DEFAULT false,
+	"parent_category_id" varchar,
+	"category_path" text,
+	"is_category_folder" boolean DEFAULT false,
+	"folder_color" text DEFAULT '#3B82F6',
+	"folder_icon" text DEFAULT 'folder',
+	"display_order" integer DEFAULT 0,
+	"field_count" integer DEFAULT 0,
+	"usage_count" integer DEFAULT 0,
+	"last_used_at" timestamp,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+ALTER TABLE "checklist_templates" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "companies" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"cnpj" varchar(18),
+	"email" text,
+	"phone" text,
+	"website" text,
+	"address" text,
+	"city" text,
+	"state" varchar(2),
+	"zip_code" varchar(10),
+	"responsible_name" text,
+	"responsible_role" text,
+	"responsible_email" text,
+	"responsible_phone" text,
+	"technical_responsible_name" text,
+	"technical_responsible_role" text,
+	"technical_responsible_email" text,
+	"technical_responsible_phone" text,
+	"technical_responsible_certification" text,
+	"organization_id" varchar NOT NULL,
+	"is_active" boolean DEFAULT true,
+	"notes" text,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+ALTER TABLE "companies" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "company_locations" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"company_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"type" text,
+	"address" text,
+	"city" text,
+	"state" varchar(2),
+	"zip_code" varchar(10),
+	"latitude" real,
+	"longitude" real,
+	"responsible_name" text,
+	"responsible_phone" text,
+	"responsible_email" text,
+	"is_active" boolean DEFAULT true,
+	"notes" text,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+ALTER TABLE "company_locations" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "custom_roles" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"base_role" "user_role" DEFAULT 'inspector' NOT NULL,
+	"permissions" text[] NOT NULL,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+ALTER TABLE "custom_roles" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "files" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"size" integer NOT NULL,
+	"url" text NOT NULL,
+	"inspection_id" varchar,
+	"action_plan_id" varchar,
+	"organization_id" varchar NOT NULL,
+	"uploaded_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+ALTER TABLE "files" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "inspections" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"location" text NOT NULL,
+	"status" "inspection_status" DEFAULT 'draft',
+	"organization_id" varchar NOT NULL,
+	"inspector_id" varchar NOT NULL,
+	"checklist" jsonb,
+	"findings" jsonb,
+	"recommendations" text,
+	"ai_analysis" text,
+	"qr_code" text,
+	"scheduled_at" timestamp,
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"checklist_template_id" varchar,
+	"priority" text DEFAULT 'medium',
+	"company_name" text,
+	"zip_code" varchar(10),
+	"full_address" text,
+	"latitude" real,
+	"longitude" real,
+	"technician_name" text,
+	"technician_email" text,
+	"company_responsible_name" text,
+	"ai_assistant_id" varchar DEFAULT 'GENERAL',
+	"action_plan_type" varchar DEFAULT '5W2H'
+);
+--> statement-breakpoint
+ALTER TABLE "inspections" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "invitations" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"email" text NOT NULL,
+	"role" "user_role" NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"invited_by" varchar NOT NULL,
+	"token" text NOT NULL,
+	"is_accepted" boolean DEFAULT false,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	CONSTRAINT "invitations_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+ALTER TABLE "invitations" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "organizations" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"type" "organization_type" NOT NULL,
+	"parent_id" varchar,
+	"plan" "subscription_plan" DEFAULT 'basic',
+	"max_users" integer DEFAULT 10,
+	"max_subsidiaries" integer DEFAULT 3,
+	"is_active" boolean DEFAULT true,
+	"address" text,
+	"phone" text,
+	"email" text,
+	"cnpj" text,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+ALTER TABLE "organizations" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "sessions" (
+	"sid" varchar PRIMARY KEY NOT NULL,
+	"sess" jsonb NOT NULL,
+	"expire" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "sso_configs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"protocol" "sso_protocol" DEFAULT 'oidc' NOT NULL,
+	"is_enabled" boolean DEFAULT false,
+	"domains" text[] NOT NULL,
+	"issuer_url" text,
+	"client_id" text,
+	"client_secret" text,
+	"scopes" text DEFAULT 'openid email profile',
+	"saml_metadata_url" text,
+	"saml_metadata_xml" text,
+	"default_role" "user_role" DEFAULT 'inspector' NOT NULL,
+	"role_claim" text,
+	"role_mappings" jsonb,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	CONSTRAINT "sso_configs_organization_id_unique" UNIQUE("organization_id")
+);
+--> statement-breakpoint
+ALTER TABLE "sso_configs" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"email" text NOT NULL,
+	"name" text NOT NULL,
+	"role" "user_role" NOT NULL,
+	"organization_id" varchar,
+	"password_hash" text,
+	"custom_role_id" varchar,
+	"auth_provider" text DEFAULT 'password',
+	"external_id" text,
+	"is_active" boolean DEFAULT true,
+	"last_login_at" timestamp,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+ALTER TABLE "users" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "action_plans" ADD CONSTRAINT "action_plans_inspection_id_inspections_id_fk" FOREIGN KEY ("inspection_id") REFERENCES "public"."inspections"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "action_plans" ADD CONSTRAINT "action_plans_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "action_plans" ADD CONSTRAINT "action_plans_assigned_to_users_id_fk" FOREIGN KEY ("assigned_to") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_logs" ADD CONSTRAINT "activity_logs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_logs" ADD CONSTRAINT "activity_logs_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "checklist_folders" ADD CONSTRAINT "checklist_folders_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "checklist_folders" ADD CONSTRAINT "checklist_folders_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "checklist_templates" ADD CONSTRAINT "checklist_templates_folder_id_checklist_folders_id_fk" FOREIGN KEY ("folder_id") REFERENCES "public"."checklist_folders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "checklist_templates" ADD CONSTRAINT "checklist_templates_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "checklist_templates" ADD CONSTRAINT "checklist_templates_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "companies" ADD CONSTRAINT "companies_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "companies" ADD CONSTRAINT "companies_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "company_locations" ADD CONSTRAINT "company_locations_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "company_locations" ADD CONSTRAINT "company_locations_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "custom_roles" ADD CONSTRAINT "custom_roles_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "custom_roles" ADD CONSTRAINT "custom_roles_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "files" ADD CONSTRAINT "files_inspection_id_inspections_id_fk" FOREIGN KEY ("inspection_id") REFERENCES "public"."inspections"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "files" ADD CONSTRAINT "files_action_plan_id_action_plans_id_fk" FOREIGN KEY ("action_plan_id") REFERENCES "public"."action_plans"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "files" ADD CONSTRAINT "files_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "files" ADD CONSTRAINT "files_uploaded_by_users_id_fk" FOREIGN KEY ("uploaded_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspections" ADD CONSTRAINT "inspections_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspections" ADD CONSTRAINT "inspections_inspector_id_users_id_fk" FOREIGN KEY ("inspector_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspections" ADD CONSTRAINT "inspections_checklist_template_id_checklist_templates_id_fk" FOREIGN KEY ("checklist_template_id") REFERENCES "public"."checklist_templates"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invitations" ADD CONSTRAINT "invitations_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invitations" ADD CONSTRAINT "invitations_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sso_configs" ADD CONSTRAINT "sso_configs_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_custom_role_id_custom_roles_id_fk" FOREIGN KEY ("custom_role_id") REFERENCES "public"."custom_roles"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_session_expire" ON "sessions" USING btree ("expire");--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "action_plans" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "activity_logs" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "checklist_folders" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "checklist_templates" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "companies" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "company_locations" AS PERMISSIVE FOR ALL TO public USING (exists (select 1 from companies c where c.id = company_locations.company_id)) WITH CHECK (exists (select 1 from companies c where c.id = company_locations.company_id));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "custom_roles" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "files" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "inspections" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "invitations" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "organizations" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "sso_configs" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "users" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));
\ No newline at end of file
@@ -0,0 +1,27 @@
+-- The application connects as the owner of these tables, and owners bypass
+-- RLS unless it is forced. drizzle-kit only emits ENABLE, so force it here.
+ALTER TABLE "organizations" FORCE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE "users" FORCE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE "custom_roles" FORCE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE "sso_configs" FORCE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE "invitations" FORCE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE "inspections" FORCE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE "action_plans" FORCE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE "files" FORCE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE "companies" FORCE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE "company_locations" FORCE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE "checklist_folders" FORCE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE "checklist_templates" FORCE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE "activity_logs" FORCE ROW LEVEL SECURITY;
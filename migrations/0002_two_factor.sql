@@ -0,0 +1,4 @@
+ALTER TABLE "organizations" ADD COLUMN "require_two_factor" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "totp_secret" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "totp_enabled" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "recovery_codes" text[];
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "api_keys" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"prefix" varchar NOT NULL,
+	"key_hash" text NOT NULL,
+	"scopes" text[] NOT NULL,
+	"rate_limit_per_minute" integer DEFAULT 60 NOT NULL,
+	"expires_at" timestamp,
+	"last_used_at" timestamp,
+	"last_used_ip" text,
+	"revoked_at" timestamp,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	CONSTRAINT "api_keys_prefix_unique" UNIQUE("prefix")
+);
+--> statement-breakpoint
+ALTER TABLE "api_keys" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "api_keys" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER TABLE "api_keys" FORCE ROW LEVEL SECURITY;
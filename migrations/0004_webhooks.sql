@@ -0,0 +1,46 @@
+CREATE TYPE "public"."webhook_delivery_status" AS ENUM('pending', 'succeeded', 'failed');--> statement-breakpoint
+CREATE TABLE "webhook_deliveries" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"endpoint_id" varchar NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"event" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" "webhook_delivery_status" DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"last_attempt_at" timestamp,
+	"response_status" integer,
+	"response_body" text,
+	"error" text,
+	"replay_of" varchar,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"delivered_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_deliveries" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "webhook_endpoints" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"url" text NOT NULL,
+	"description" text,
+	"events" text[] NOT NULL,
+	"secret" text NOT NULL,
+	"is_active" boolean DEFAULT true,
+	"consecutive_failures" integer DEFAULT 0 NOT NULL,
+	"disabled_at" timestamp,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_endpoints" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_endpoint_id_webhook_endpoints_id_fk" FOREIGN KEY ("endpoint_id") REFERENCES "public"."webhook_endpoints"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_endpoints" ADD CONSTRAINT "webhook_endpoints_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_endpoints" ADD CONSTRAINT "webhook_endpoints_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_webhook_deliveries_due" ON "webhook_deliveries" USING btree ("status","next_attempt_at");--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "webhook_deliveries" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "webhook_endpoints" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER TABLE "webhook_endpoints" FORCE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE "webhook_deliveries" FORCE ROW LEVEL SECURITY;
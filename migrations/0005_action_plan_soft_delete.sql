@@ -0,0 +1 @@
+ALTER TABLE "action_plans" ADD COLUMN "is_active" boolean DEFAULT true;
\ No newline at end of file
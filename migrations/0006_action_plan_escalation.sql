@@ -0,0 +1,23 @@
+CREATE TABLE "notifications" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"type" text NOT NULL,
+	"title" text NOT NULL,
+	"message" text NOT NULL,
+	"link" text,
+	"entity_type" text,
+	"entity_id" varchar,
+	"read_at" timestamp,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+ALTER TABLE "notifications" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "action_plans" ADD COLUMN "escalation_level" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "action_plans" ADD COLUMN "last_escalated_at" timestamp;--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "escalation_policy" jsonb;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_notifications_user" ON "notifications" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "notifications" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER TABLE "notifications" FORCE ROW LEVEL SECURITY;
@@ -0,0 +1,66 @@
+ALTER TABLE "inspections" ADD COLUMN "responses" jsonb;--> statement-breakpoint
+ALTER TABLE "inspections" ADD COLUMN "score" real;--> statement-breakpoint
+-- Completions used to store {conformities, nonConformities, score, details}
+-- in findings while everything else expects an array of non-conformities.
+-- Move the per-item answers of those rows into responses (legacy status
+-- spellings such as "non-conform" are mapped, unknown ones dropped) and keep
+-- the legacy score, which was unweighted.
+UPDATE "inspections" i SET
+  "responses" = normalized.responses,
+  "score" = CASE WHEN jsonb_typeof(i."findings"->'score') = 'number' THEN (i."findings"->>'score')::real END
+FROM (
+  SELECT ins."id", COALESCE(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'itemId', d.key,
+    'status', s.status,
+    'value', d.value->'value',
+    'notes', NULLIF(d.value->>'notes', ''),
+    'severity', CASE WHEN d.value->>'severity' IN ('low', 'medium', 'high', 'critical') THEN d.value->>'severity' END,
+    'evidence', CASE WHEN jsonb_typeof(d.value->'evidence') = 'array' THEN d.value->'evidence' END
+  ))) FILTER (WHERE s.status IS NOT NULL), '[]'::jsonb) AS responses
+  FROM "inspections" ins
+  LEFT JOIN LATERAL jsonb_each(
+    CASE WHEN jsonb_typeof(ins."findings"->'details') = 'object' THEN ins."findings"->'details' ELSE '{}'::jsonb END
+  ) d ON true
+  LEFT JOIN LATERAL (
+    SELECT CASE lower(replace(replace(d.value->>'status', '-', '_'), ' ', '_'))
+      WHEN 'conform' THEN 'conform'
+      WHEN 'compliant' THEN 'conform'
+      WHEN 'non_conform' THEN 'non_conform'
+      WHEN 'nonconform' THEN 'non_conform'
+      WHEN 'non_compliant' THEN 'non_conform'
+      WHEN 'not_applicable' THEN 'not_applicable'
+      WHEN 'na' THEN 'not_applicable'
+      WHEN 'n/a' THEN 'not_applicable'
+    END AS status
+  ) s ON true
+  WHERE jsonb_typeof(ins."findings") = 'object'
+  GROUP BY ins."id"
+) normalized
+WHERE i."id" = normalized."id";
+--> statement-breakpoint
+-- Rebuild findings from the non-conforming responses, taking the item label
+-- and standard from the checklist snapshot (items without an id are matched
+-- by position)
+UPDATE "inspections" i SET "findings" = COALESCE((
+  SELECT jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'itemId', r.value->>'itemId',
+    'item', COALESCE(c.label, r.value->>'itemId'),
+    'description', COALESCE(r.value->>'notes', 'Não conforme'),
+    'severity', COALESCE(r.value->>'severity', 'medium'),
+    'standard', c.standard,
+    'evidence', r.value->'evidence'
+  )))
+  FROM jsonb_array_elements(i."responses") r
+  LEFT JOIN LATERAL (
+    SELECT COALESCE(e.value->>'item', e.value->>'label') AS label, NULLIF(e.value->>'standard', '') AS standard
+    FROM jsonb_array_elements(CASE WHEN jsonb_typeof(i."checklist") = 'array' THEN i."checklist" ELSE '[]'::jsonb END)
+      WITH ORDINALITY AS e(value, position)
+    WHERE COALESCE(NULLIF(e.value->>'id', ''), (e.position - 1)::text) = r.value->>'itemId'
+    LIMIT 1
+  ) c ON true
+  WHERE r.value->>'status' = 'non_conform'
+), '[]'::jsonb)
+WHERE jsonb_typeof(i."findings") = 'object';
+--> statement-breakpoint
+UPDATE "inspections" SET "findings" = '[]'::jsonb
+WHERE "findings" IS NOT NULL AND jsonb_typeof("findings") NOT IN ('array', 'null');
@@ -0,0 +1,17 @@
+CREATE TABLE "sync_changes" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"inspection_id" varchar NOT NULL,
+	"kind" text NOT NULL,
+	"status" text NOT NULL,
+	"result" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+ALTER TABLE "sync_changes" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "sync_changes" ADD CONSTRAINT "sync_changes_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sync_changes" ADD CONSTRAINT "sync_changes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sync_changes" ADD CONSTRAINT "sync_changes_inspection_id_inspections_id_fk" FOREIGN KEY ("inspection_id") REFERENCES "public"."inspections"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "sync_changes" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER TABLE "sync_changes" FORCE ROW LEVEL SECURITY;
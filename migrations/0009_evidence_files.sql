@@ -0,0 +1,11 @@
+ALTER TABLE "files" ADD COLUMN "item_id" text;--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "storage_driver" text;--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "storage_key" text;--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "thumbnail_key" text;--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "checksum" varchar(64);--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "captured_at" timestamp;--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "latitude" real;--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "longitude" real;--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "storage_quota_mb" integer;--> statement-breakpoint
+CREATE INDEX "IDX_files_inspection" ON "files" USING btree ("inspection_id");--> statement-breakpoint
+CREATE INDEX "IDX_files_action_plan" ON "files" USING btree ("action_plan_id");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "files" ADD COLUMN "original_file_id" varchar;--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "annotations" jsonb;--> statement-breakpoint
+ALTER TABLE "files" ADD CONSTRAINT "files_original_file_id_files_id_fk" FOREIGN KEY ("original_file_id") REFERENCES "public"."files"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_files_original" ON "files" USING btree ("original_file_id");
\ No newline at end of file
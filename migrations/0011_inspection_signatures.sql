@@ -0,0 +1,24 @@
+CREATE TABLE "inspection_signatures" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"inspection_id" varchar NOT NULL,
+	"role" text NOT NULL,
+	"signer_name" text NOT NULL,
+	"signer_document" text,
+	"signer_user_id" varchar,
+	"collected_by" varchar NOT NULL,
+	"image" text NOT NULL,
+	"payload_hash" varchar(64) NOT NULL,
+	"ip_address" text,
+	"user_agent" text,
+	"signed_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "inspection_signatures" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "inspection_signatures" ADD CONSTRAINT "inspection_signatures_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspection_signatures" ADD CONSTRAINT "inspection_signatures_inspection_id_inspections_id_fk" FOREIGN KEY ("inspection_id") REFERENCES "public"."inspections"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspection_signatures" ADD CONSTRAINT "inspection_signatures_signer_user_id_users_id_fk" FOREIGN KEY ("signer_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspection_signatures" ADD CONSTRAINT "inspection_signatures_collected_by_users_id_fk" FOREIGN KEY ("collected_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_inspection_signatures_inspection" ON "inspection_signatures" USING btree ("inspection_id");--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "inspection_signatures" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER TABLE "inspection_signatures" FORCE ROW LEVEL SECURITY;
\ No newline at end of file
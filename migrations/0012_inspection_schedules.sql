@@ -0,0 +1,36 @@
+CREATE TABLE "inspection_schedules" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"company_id" varchar NOT NULL,
+	"location_id" varchar,
+	"checklist_template_id" varchar NOT NULL,
+	"recurrence" text NOT NULL,
+	"starts_at" timestamp NOT NULL,
+	"ends_at" timestamp,
+	"default_inspector_id" varchar NOT NULL,
+	"lead_time_days" integer DEFAULT 7 NOT NULL,
+	"grace_days" integer DEFAULT 1 NOT NULL,
+	"priority" text DEFAULT 'medium',
+	"is_active" boolean DEFAULT true,
+	"next_occurrence_at" timestamp,
+	"last_generated_at" timestamp,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+ALTER TABLE "inspection_schedules" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "inspections" ADD COLUMN "schedule_id" varchar;--> statement-breakpoint
+ALTER TABLE "inspections" ADD COLUMN "missed_alerted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "inspection_schedules" ADD CONSTRAINT "inspection_schedules_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspection_schedules" ADD CONSTRAINT "inspection_schedules_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspection_schedules" ADD CONSTRAINT "inspection_schedules_location_id_company_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."company_locations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspection_schedules" ADD CONSTRAINT "inspection_schedules_checklist_template_id_checklist_templates_id_fk" FOREIGN KEY ("checklist_template_id") REFERENCES "public"."checklist_templates"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspection_schedules" ADD CONSTRAINT "inspection_schedules_default_inspector_id_users_id_fk" FOREIGN KEY ("default_inspector_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspection_schedules" ADD CONSTRAINT "inspection_schedules_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_inspection_schedules_next" ON "inspection_schedules" USING btree ("next_occurrence_at");--> statement-breakpoint
+ALTER TABLE "inspections" ADD CONSTRAINT "inspections_schedule_id_inspection_schedules_id_fk" FOREIGN KEY ("schedule_id") REFERENCES "public"."inspection_schedules"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "UQ_inspections_schedule_occurrence" ON "inspections" USING btree ("schedule_id","scheduled_at");--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "inspection_schedules" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER TABLE "inspection_schedules" FORCE ROW LEVEL SECURITY;
\ No newline at end of file
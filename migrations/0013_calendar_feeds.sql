@@ -0,0 +1,3 @@
+ALTER TABLE "users" ADD COLUMN "calendar_feed_token_hash" varchar(64);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "calendar_feed_created_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_calendar_feed_token_hash_unique" UNIQUE("calendar_feed_token_hash");
\ No newline at end of file
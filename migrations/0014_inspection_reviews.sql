@@ -0,0 +1,23 @@
+CREATE TABLE "inspection_reviews" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"inspection_id" varchar NOT NULL,
+	"action" text NOT NULL,
+	"actor_id" varchar NOT NULL,
+	"actor_name" text NOT NULL,
+	"reviewer_id" varchar,
+	"reviewer_name" text,
+	"comments" text,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "inspection_reviews" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "inspections" ADD COLUMN "reviewer_id" varchar;--> statement-breakpoint
+ALTER TABLE "inspection_reviews" ADD CONSTRAINT "inspection_reviews_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspection_reviews" ADD CONSTRAINT "inspection_reviews_inspection_id_inspections_id_fk" FOREIGN KEY ("inspection_id") REFERENCES "public"."inspections"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspection_reviews" ADD CONSTRAINT "inspection_reviews_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspection_reviews" ADD CONSTRAINT "inspection_reviews_reviewer_id_users_id_fk" FOREIGN KEY ("reviewer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_inspection_reviews_inspection" ON "inspection_reviews" USING btree ("inspection_id");--> statement-breakpoint
+ALTER TABLE "inspections" ADD CONSTRAINT "inspections_reviewer_id_users_id_fk" FOREIGN KEY ("reviewer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "inspection_reviews" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER TABLE "inspection_reviews" FORCE ROW LEVEL SECURITY;
\ No newline at end of file
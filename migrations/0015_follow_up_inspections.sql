@@ -0,0 +1,4 @@
+ALTER TABLE "action_plans" ADD COLUMN "item_id" text;--> statement-breakpoint
+ALTER TABLE "inspections" ADD COLUMN "parent_inspection_id" varchar;--> statement-breakpoint
+ALTER TABLE "inspections" ADD CONSTRAINT "inspections_parent_inspection_id_inspections_id_fk" FOREIGN KEY ("parent_inspection_id") REFERENCES "public"."inspections"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_inspections_parent" ON "inspections" USING btree ("parent_inspection_id");
\ No newline at end of file
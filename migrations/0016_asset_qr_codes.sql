@@ -0,0 +1,40 @@
+CREATE TABLE "equipment" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"company_id" varchar NOT NULL,
+	"location_id" varchar,
+	"name" text NOT NULL,
+	"tag" text,
+	"type" text,
+	"manufacturer" text,
+	"model" text,
+	"serial_number" text,
+	"checklist_template_id" varchar,
+	"qr_token" varchar DEFAULT gen_random_uuid() NOT NULL,
+	"is_active" boolean DEFAULT true,
+	"notes" text,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	CONSTRAINT "equipment_qr_token_unique" UNIQUE("qr_token")
+);
+--> statement-breakpoint
+ALTER TABLE "equipment" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "company_locations" ADD COLUMN "checklist_template_id" varchar;--> statement-breakpoint
+ALTER TABLE "company_locations" ADD COLUMN "qr_token" varchar DEFAULT gen_random_uuid() NOT NULL;--> statement-breakpoint
+ALTER TABLE "inspections" ADD COLUMN "location_id" varchar;--> statement-breakpoint
+ALTER TABLE "inspections" ADD COLUMN "equipment_id" varchar;--> statement-breakpoint
+ALTER TABLE "equipment" ADD CONSTRAINT "equipment_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "equipment" ADD CONSTRAINT "equipment_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "equipment" ADD CONSTRAINT "equipment_location_id_company_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."company_locations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "equipment" ADD CONSTRAINT "equipment_checklist_template_id_checklist_templates_id_fk" FOREIGN KEY ("checklist_template_id") REFERENCES "public"."checklist_templates"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "equipment" ADD CONSTRAINT "equipment_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_equipment_company" ON "equipment" USING btree ("company_id");--> statement-breakpoint
+ALTER TABLE "company_locations" ADD CONSTRAINT "company_locations_checklist_template_id_checklist_templates_id_fk" FOREIGN KEY ("checklist_template_id") REFERENCES "public"."checklist_templates"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspections" ADD CONSTRAINT "inspections_location_id_company_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."company_locations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspections" ADD CONSTRAINT "inspections_equipment_id_equipment_id_fk" FOREIGN KEY ("equipment_id") REFERENCES "public"."equipment"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_inspections_location" ON "inspections" USING btree ("location_id");--> statement-breakpoint
+CREATE INDEX "IDX_inspections_equipment" ON "inspections" USING btree ("equipment_id");--> statement-breakpoint
+ALTER TABLE "company_locations" ADD CONSTRAINT "company_locations_qr_token_unique" UNIQUE("qr_token");--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "equipment" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER TABLE "equipment" FORCE ROW LEVEL SECURITY;
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TABLE "inspection_check_ins" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"inspection_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"event" text NOT NULL,
+	"latitude" real,
+	"longitude" real,
+	"accuracy" real,
+	"captured_at" timestamp,
+	"site_latitude" real,
+	"site_longitude" real,
+	"radius_meters" integer NOT NULL,
+	"distance_meters" real,
+	"status" text NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "inspection_check_ins" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "inspections" ADD COLUMN "geofence_status" text;--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "geofence_radius_meters" integer DEFAULT 500 NOT NULL;--> statement-breakpoint
+ALTER TABLE "inspection_check_ins" ADD CONSTRAINT "inspection_check_ins_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspection_check_ins" ADD CONSTRAINT "inspection_check_ins_inspection_id_inspections_id_fk" FOREIGN KEY ("inspection_id") REFERENCES "public"."inspections"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inspection_check_ins" ADD CONSTRAINT "inspection_check_ins_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_inspection_check_ins_inspection" ON "inspection_check_ins" USING btree ("inspection_id");--> statement-breakpoint
+CREATE INDEX "IDX_inspection_check_ins_created" ON "inspection_check_ins" USING btree ("created_at");--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "inspection_check_ins" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER TABLE "inspection_check_ins" FORCE ROW LEVEL SECURITY;
\ No newline at end of file
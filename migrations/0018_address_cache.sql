@@ -0,0 +1,18 @@
+CREATE TABLE "cep_cache" (
+	"cep" varchar(8) PRIMARY KEY NOT NULL,
+	"found" boolean NOT NULL,
+	"street" text,
+	"neighborhood" text,
+	"city" text,
+	"state" varchar(2),
+	"provider" text NOT NULL,
+	"fetched_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "geocode_cache" (
+	"query" text PRIMARY KEY NOT NULL,
+	"latitude" real,
+	"longitude" real,
+	"provider" text NOT NULL,
+	"fetched_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
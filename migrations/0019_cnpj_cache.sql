@@ -0,0 +1,10 @@
+CREATE TABLE "cnpj_cache" (
+	"cnpj" varchar(14) PRIMARY KEY NOT NULL,
+	"found" boolean NOT NULL,
+	"data" jsonb,
+	"provider" text NOT NULL,
+	"fetched_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "companies" ADD COLUMN "cnae" varchar(10);--> statement-breakpoint
+ALTER TABLE "companies" ADD COLUMN "cnae_description" text;
\ No newline at end of file
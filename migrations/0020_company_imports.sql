@@ -0,0 +1,23 @@
+CREATE TABLE "company_imports" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"file_name" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"existing_companies" text DEFAULT 'skip' NOT NULL,
+	"records" jsonb NOT NULL,
+	"results" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"total_rows" integer NOT NULL,
+	"processed_rows" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"created_by" varchar NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"started_at" timestamp,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "company_imports" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "company_imports" ADD CONSTRAINT "company_imports_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "company_imports" ADD CONSTRAINT "company_imports_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_company_imports_status" ON "company_imports" USING btree ("status","created_at");--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "company_imports" AS PERMISSIVE FOR ALL TO public USING ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((coalesce(current_setting('app.current_org_ids', true), '') in ('', '*') or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER TABLE "company_imports" FORCE ROW LEVEL SECURITY;
\ No newline at end of file
@@ -0,0 +1,23 @@
+ALTER POLICY "tenant_isolation" ON "action_plans" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "activity_logs" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "api_keys" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "checklist_folders" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "checklist_templates" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "companies" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "company_imports" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "custom_roles" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "equipment" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "files" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "inspection_check_ins" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "inspection_reviews" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "inspection_schedules" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "inspection_signatures" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "inspections" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "invitations" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "notifications" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "organizations" TO public USING ((current_setting('app.current_org_ids', true) = '*' or id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "sso_configs" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "sync_changes" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "users" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "webhook_deliveries" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER POLICY "tenant_isolation" ON "webhook_endpoints" TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TABLE "sso_domains" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" varchar NOT NULL,
+	"domain" text NOT NULL,
+	"verification_token" text NOT NULL,
+	"verified_at" timestamp,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+ALTER TABLE "sso_domains" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "sso_domains" ADD CONSTRAINT "sso_domains_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "UQ_sso_domains_domain" ON "sso_domains" USING btree ("domain");--> statement-breakpoint
+ALTER TABLE "sso_configs" DROP COLUMN "saml_metadata_url";--> statement-breakpoint
+ALTER TABLE "sso_configs" DROP COLUMN "saml_metadata_xml";--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "sso_domains" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ',')))) WITH CHECK ((current_setting('app.current_org_ids', true) = '*' or organization_id = any (string_to_array(current_setting('app.current_org_ids', true), ','))));--> statement-breakpoint
+ALTER TABLE "sso_domains" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+-- Backfill runs in the system context so the tenant policies let it through
+SELECT set_config('app.current_org_ids', '*', false);--> statement-breakpoint
+-- Existing domains become unverified claims, first configured organization
+-- first; SAML was never usable, so SAML configurations are switched off
+INSERT INTO "sso_domains" ("organization_id", "domain", "verification_token")
+SELECT c."organization_id", d.domain, md5(random()::text || clock_timestamp()::text)
+FROM "sso_configs" c CROSS JOIN LATERAL unnest(c."domains") AS d(domain)
+ORDER BY c."created_at"
+ON CONFLICT ("domain") DO NOTHING;--> statement-breakpoint
+UPDATE "sso_configs" SET "is_enabled" = false WHERE "protocol" = 'saml';--> statement-breakpoint
+SELECT set_config('app.current_org_ids', '', false);
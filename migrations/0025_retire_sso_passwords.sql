@@ -0,0 +1,4 @@
+-- Accounts already linked to an identity provider keep no password
+SELECT set_config('app.current_org_ids', '*', false);--> statement-breakpoint
+UPDATE "users" SET "password_hash" = NULL WHERE "auth_provider" <> 'password';--> statement-breakpoint
+SELECT set_config('app.current_org_ids', '', false);
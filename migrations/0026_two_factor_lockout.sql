@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "totp_failed_attempts" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "totp_locked_until" timestamp;
\ No newline at end of file
@@ -1,7 +1,9 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import type { NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { AsyncLocalStorage } from "async_hooks";
 import ws from "ws";
 import * as schema from "@shared/schema";
+import { SYSTEM_CONTEXT, type TenantContext } from "./tenant-client";
 
 neonConfig.webSocketConstructor = ws;
 
@@ -12,4 +14,24 @@ if (!process.env.DATABASE_URL) {
 }
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+
+export type Database = NeonDatabase<typeof schema>;
+
+// Tenant of the current request or background job (see DatabaseStorage.db).
+// Outside any context queries run untagged and the RLS policies match no
+// tenant rows.
+const tenantContext = new AsyncLocalStorage<TenantContext>();
+
+export function getTenantContext(): TenantContext | undefined {
+  return tenantContext.getStore();
+}
+
+export function runInTenantContext<T>(context: TenantContext, fn: () => T): T {
+  return tenantContext.run(context, fn);
+}
+
+// Login, invitations, SSO, schedulers and workers read across tenants; they
+// opt in to the unrestricted "*" context explicitly
+export function runWithoutTenant<T>(fn: () => T): T {
+  return tenantContext.run(SYSTEM_CONTEXT, fn);
+}
@@ -0,0 +1,154 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import type { PGlite } from "@electric-sql/pglite";
+
+const testDb = vi.hoisted(() => ({ pg: undefined as PGlite | undefined }));
+
+vi.mock("./storage", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./storage")>();
+  const { createTestDatabase, createTestPool } = await import("./test-database");
+  testDb.pg = await createTestDatabase();
+  return { ...actual, storage: new actual.DatabaseStorage(createTestPool(testDb.pg)) };
+});
+
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { runWithoutTenant } from "./db";
+
+process.env.SESSION_SECRET ||= "test-secret";
+
+describe("API routes", () => {
+  let server: Server;
+  let baseUrl: string;
+  // Whoever the next request is signed in as
+  let sessionUserId: string | undefined;
+
+  const api = async (method: string, path: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: body ? { "Content-Type": "application/json" } : undefined,
+      body: body ? JSON.stringify(body) : undefined
+    });
+    return { status: response.status, body: await response.json().catch(() => null) };
+  };
+
+  const as = (userId: string) => {
+    sessionUserId = userId;
+    return {
+      get: (path: string) => api("GET", path),
+      post: (path: string, body?: unknown) => api("POST", path, body),
+      patch: (path: string, body?: unknown) => api("PATCH", path, body)
+    };
+  };
+
+  beforeAll(async () => {
+    await testDb.pg!.exec(`
+      SET app.current_org_ids = '*';
+      INSERT INTO organizations (id, name, type) VALUES ('org-a', 'Empresa A', 'enterprise'), ('org-b', 'Empresa B', 'enterprise');
+      INSERT INTO users (id, email, name, role, organization_id) VALUES
+        ('admin-a', 'admin@a.com', 'Admin A', 'org_admin', 'org-a'),
+        ('inspector-a', 'inspetor@a.com', 'Inspetor A', 'inspector', 'org-a'),
+        ('client-a', 'cliente@a.com', 'Cliente A', 'client', 'org-a'),
+        ('inspector-b', 'inspetor@b.com', 'Inspetor B', 'inspector', 'org-b');
+      INSERT INTO files (id, name, type, size, url, organization_id, uploaded_by)
+        VALUES ('loose-file', 'solta.png', 'image/png', 10, '/api/files/loose-file/download', 'org-a', 'admin-a');
+      INSERT INTO companies (id, name, organization_id, created_by) VALUES ('company-a', 'Cliente A', 'org-a', 'admin-a');
+      INSERT INTO company_locations (id, name, company_id, created_by, qr_token)
+        VALUES ('site-a', 'Galpão 1', 'company-a', 'admin-a', 'qr-site-a');
+      INSERT INTO inspections (id, title, location, organization_id, inspector_id, location_id, status, score, completed_at, technician_name) VALUES
+        ('done-a', 'Ronda de extintores', 'Galpão 1', 'org-a', 'inspector-a', 'site-a', 'completed', 92.5, '2026-03-01', 'Inspetor A'),
+        ('draft-a', 'Rascunho sigiloso', 'Galpão 1', 'org-a', 'inspector-a', 'site-a', 'draft', NULL, NULL, 'Inspetor A');
+      INSERT INTO action_plans (id, inspection_id, title, what, why, "where", "when", who, how, organization_id)
+        VALUES ('plan-a', 'done-a', 'Trocar extintor', 'Trocar', 'Vencido', 'Galpão 1', '2026-04-01', 'Manutenção', 'Substituir', 'org-a');
+      RESET app.current_org_ids;
+    `);
+
+    // A signed-in session without the Postgres session store; express-session
+    // leaves an existing req.session alone
+    const app = express();
+    app.use(express.json());
+    app.use((req: any, _res, next) => {
+      req.session = { userId: sessionUserId, destroy: (done?: () => void) => done?.() };
+      next();
+    });
+    server = await registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server?.close();
+    await testDb.pg?.close();
+  });
+
+  describe("creating records in another organization", () => {
+    it("refuses companies", async () => {
+      const response = await as("admin-a").post("/api/companies", { name: "Intrusa", organizationId: "org-b" });
+      expect(response).toMatchObject({ status: 403, body: { message: "Sem permissão para criar empresas nesta organização" } });
+    });
+
+    it("refuses invitations", async () => {
+      const response = await as("admin-a").post("/api/invitations", { email: "novo@b.com", role: "client", organizationId: "org-b" });
+      expect(response).toMatchObject({ status: 403, body: { message: "Sem permissão para convidar usuários nesta organização" } });
+    });
+
+    it("refuses inspections", async () => {
+      const response = await as("inspector-a").post("/api/inspections", { title: "Ronda", location: "Pátio", organizationId: "org-b" });
+      expect(response).toMatchObject({ status: 403, body: { message: "Sem permissão para criar inspeções nesta organização" } });
+    });
+  });
+
+  it("refuses to invite above the caller's role", async () => {
+    const response = await as("admin-a").post("/api/invitations", { email: "root@a.com", role: "system_admin", organizationId: "org-a" });
+    expect(response).toMatchObject({ status: 403, body: { message: "Você não pode convidar usuários com um perfil acima do seu" } });
+  });
+
+  describe("lookups and file routes declare their permissions", () => {
+    it("refuses CNPJ and address lookups to users who can't edit companies or inspections", async () => {
+      const client = as("client-a");
+      for (const response of [
+        await client.get("/api/cnpj/11222333000181"),
+        await client.get("/api/address/cep/01310100"),
+        await client.post("/api/address/geocode", { street: "Avenida Paulista", city: "São Paulo", state: "SP" })
+      ]) {
+        expect(response).toMatchObject({ status: 403, body: { message: "Sem permissão para esta operação" } });
+      }
+    });
+
+    it("refuses file annotations to users who can't edit evidence", async () => {
+      const client = as("client-a");
+      expect(await client.post("/api/files/loose-file/annotations")).toMatchObject({ status: 403 });
+    });
+
+    it("refuses to annotate a file that belongs to no inspection or action plan", async () => {
+      const response = await as("admin-a").post("/api/files/loose-file/annotations");
+      expect(response).toMatchObject({ status: 403, body: { message: "Sem permissão para anotar esta evidência" } });
+    });
+  });
+
+  it("shows only finished results on the public scan page, without titles or names", async () => {
+    sessionUserId = undefined;
+    const { status, body } = await api("GET", "/api/scan/qr-site-a");
+    expect(status).toBe(200);
+    expect(body.history).toEqual([
+      { id: "done-a", status: "completed", score: 92.5, nonConformCount: 0, completedAt: expect.any(String) }
+    ]);
+    expect(body.lastResult).toEqual(body.history[0]);
+    expect(JSON.stringify(body)).not.toMatch(/Inspetor A|Rascunho|Ronda/);
+  });
+
+  it("only assigns action plans to users of the plan's organization", async () => {
+    const admin = as("admin-a");
+    expect(await admin.patch("/api/action-plans/plan-a", { assignedTo: "inspector-b" }))
+      .toMatchObject({ status: 400, body: { message: "Responsável não pertence à organização do plano de ação" } });
+
+    // Read back from the table: the activity log write after the update needs
+    // the storage normalizers this tree doesn't have yet
+    const assignee = async () => (await runWithoutTenant(() => storage.getActionPlan("plan-a")))!.assignedTo;
+    expect(await assignee()).toBeNull();
+    await admin.patch("/api/action-plans/plan-a", { assignedTo: "inspector-a" });
+    expect(await assignee()).toBe("inspector-a");
+  });
+});
@@ -1,17 +1,83 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { runWithoutTenant } from "./db";
 import { 
   insertOrganizationSchema, insertUserSchema, insertInvitationSchema,
   insertInspectionSchema, insertActionPlanSchema, acceptInviteSchema,
-  createInspectionSchema, updateInspectionSchema, createChecklistTemplateSchema
+  createInspectionSchema, updateInspectionSchema, createChecklistTemplateSchema,
+  loginSchema, insertSsoConfigSchema, insertCustomRoleSchema, updateUserAccessSchema, updateActionPlanSchema,
+  twoFactorVerifySchema, twoFactorCodeSchema, organizationSecuritySchema, createApiKeySchema, escalationPolicySchema,
+  webhookEndpointSchema, completeInspectionSchema, saveInspectionResponsesSchema, syncRequestSchema, storageQuotaSchema,
+  evidenceAnnotationsSchema, signInspectionSchema, inspectionScheduleSchema, rescheduleInspectionSchema,
+  reviewDecisionSchema, rejectInspectionSchema, assignReviewerSchema, followUpInspectionSchema,
+  equipmentInputSchema, startScannedInspectionSchema, startInspectionSchema, geofencePolicySchema, geocodeAddressSchema, companyImportSchema, type Organization, type User, type Invitation, type ActionPlan, type SsoConfig, type File as StoredFile
 } from "@shared/schema";
-import { authenticateUser, hasPermission, canAccessOrganization, filterByOrganizationAccess } from "./services/auth";
+import { 
+  authenticateUser, canAccessOrganization, filterByOrganizationAccess, getAccessibleOrganizationIds,
+  getOrganizationHierarchy, isTwoFactorSetupRequired,
+  getSession, hashPassword, toPublicUser, ensureBootstrapAdminPassword,
+  getEffectivePermissions, requirePermission, hasPermission
+} from "./services/auth";
+import { PERMISSION_RESOURCES, DEFAULT_ROLE_PERMISSIONS, API_KEY_SCOPES, isPermission, isApiKeyScope, canAssignRole, type Permission } from "@shared/permissions";
+import {
+  ACTION_PLAN_TRANSITIONS, canTransitionActionPlan, isActionPlanEditable, type ActionPlanTransition
+} from "@shared/action-plans";
+import { type InspectionItemResponse, type InspectionFinding } from "@shared/inspection-responses";
+import { REVIEW_DECISIONS, canTransitionInspection, isInspectionLocked } from "@shared/inspection-workflow";
+import { getNextOccurrence, getUpcomingOccurrences } from "@shared/inspection-schedules";
+import type { DevicePosition } from "@shared/geofence";
+import { postalAddressToFields } from "@shared/address";
+import { getCnpjError, formatCnpj, cnpjCompanyToFields } from "@shared/cnpj";
+import { 
+  findSsoConfigForEmail, buildSsoLoginUrl, completeSsoLogin, provisionSsoUser, invalidateSsoConfigCache,
+  syncSsoDomains, verifySsoDomain, toSsoDomainClaim
+} from "./services/sso";
+import { 
+  generateTotpSecret, getTotpStep, verifyUserTotpCode, buildEnrollment, generateRecoveryCodes, useRecoveryCode,
+  getTwoFactorLockout, recordTwoFactorFailure, clearTwoFactorFailures
+} from "./services/two-factor";
+import {
+  extractApiKey, authenticateApiKey, consumeRateLimit, generateApiKey, toPublicApiKey
+} from "./services/api-keys";
+import {
+  emitWebhookEvent, generateWebhookSecret, replayWebhookDelivery, sendTestWebhook,
+  startWebhookWorker, toPublicWebhookEndpoint, validateWebhookUrl
+} from "./services/webhooks";
+import { startActionPlanScheduler } from "./services/action-plan-scheduler";
+import { startInspectionScheduler, getScheduleReferenceError } from "./services/inspection-scheduler";
+import {
+  getInspectionChecklistItems, startInspection, saveInspectionResponses, completeInspection, applySyncChanges,
+  type SyncChangeInput
+} from "./services/inspection-execution";
+import {
+  receiveEvidenceUpload, storeEvidenceFiles, findForeignEvidence, toPublicFile, getStorageUsage,
+  createSignedFileUrl, verifyFileSignature, sendFileContent, groupEvidenceRevisions, getAnnotatableOriginal,
+  loadReportEvidenceImages, type FileVariant
+} from "./services/evidence";
+import { exportToPDF } from "./services/export";
+import { buildUserCalendar, calendarFeedUrl, generateCalendarFeedToken, hashCalendarFeedToken } from "./services/calendar-feed";
+import { signInspection, verifyInspectionSignatures, recordInvalidatedSignatures } from "./services/inspection-signatures";
+import { getEligibleReviewers, decideReview, reassignReviewer } from "./services/inspection-review";
+import {
+  createFollowUpInspection, getFollowUpComparison, getActionPlanItemError, getActionPlanAssigneeError
+} from "./services/inspection-follow-up";
+import { getCheckInMap } from "./services/inspection-check-ins";
+import { lookupCep, geocodeAddress, prepareAddressUpdate } from "./services/address";
+import { lookupCnpj } from "./services/cnpj";
+import {
+  buildImportErrorReport, previewCompanyImport, queueCompanyImport, startCompanyImportWorker, toCompanyImportView
+} from "./services/company-import";
+import {
+  resolveQrToken, getAssetReferenceError, getScannedAssetSummary, startInspectionFromScan, buildQrLabels
+} from "./services/qr-assets";
 import { analyzeInspectionFindings, generateActionPlanRecommendations, generateComplianceInsights } from "./services/openai";
 import { generateQRCode, generateInspectionReport, generateComplianceReport, calculateComplianceMetrics, generateInviteToken, isTokenValid } from "./services/documents";
 import { OpenAIAssistantsService } from "./services/openai-assistants";
 import OpenAI from "openai";
 
+const TWO_FACTOR_PENDING_TTL_MS = 5 * 60 * 1000;
+
 export async function registerRoutes(app: Express): Promise<Server> {
   
   // Initialize OpenAI services
@@ -26,1576 +92,3651 @@ export async function registerRoutes(app: Express): Promise<Server> {
     assistantsService.initializeAssistants().catch(console.error);
   }
   
-  // Middleware for authentication (simplified - in production use proper auth)
-  const requireAuth = async (req: any, res: any, next: any) => {
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  runWithoutTenant(async () => {
+    await storage.initializeDefaultData();
+    await ensureBootstrapAdminPassword();
+  }).catch(console.error);
+  startWebhookWorker();
+  startCompanyImportWorker();
+  startActionPlanScheduler();
+  startInspectionScheduler();
+
+  // Everything the handler queries from here on is tagged with the caller's
+  // organizations, so RLS backs up the route checks
+  const runInTenantScope = (user: User, organizationIds: string[] | "all", next: any) =>
+    storage.runInTenantScope({ userId: user.id, organizationIds }, next);
+
+  // Public routes that look up users, invitations, tokens or signed links
+  // before anyone is signed in run in the explicit system context
+  const systemContext = (_req: any, _res: any, next: any) => runWithoutTenant(next);
+
+  // Machine-to-machine requests: the key's scopes become req.permissions and
+  // every call is written to the activity log
+  const authenticateWithApiKey = async (rawKey: string, req: any, res: any, next: any) => {
+    const principal = await authenticateApiKey(rawKey);
+    if (!principal) {
+      return res.status(401).json({ message: "Chave de API inválida, expirada ou revogada" });
+    }
+
+    const { apiKey, user, permissions } = principal;
+    const path = req.originalUrl as string;
+    if (path.startsWith('/api/auth/') || path.startsWith('/api/user/')) {
+      return res.status(403).json({ message: "Esta rota não aceita chaves de API" });
+    }
+
+    const rateLimit = consumeRateLimit(apiKey);
+    if (!rateLimit.allowed) {
+      res.set('Retry-After', String(rateLimit.retryAfterSeconds));
+      return res.status(429).json({ message: "Limite de requisições da chave de API excedido" });
+    }
+
+    await Promise.all([
+      storage.updateApiKey(apiKey.id, { lastUsedAt: new Date(), lastUsedIp: req.ip }),
+      storage.createActivityLog({
+        userId: apiKey.createdBy,
+        organizationId: apiKey.organizationId,
+        action: 'api_key_used',
+        entityType: 'api_key',
+        entityId: apiKey.id,
+        details: { method: req.method, path, ip: req.ip }
+      })
+    ]);
+
+    req.user = user;
+    req.apiKey = apiKey;
+    req.permissions = permissions;
+    runInTenantScope(user, await getOrganizationHierarchy(apiKey.organizationId), next);
+  };
+
+  // Middleware for authentication - resolves the session user (or API key) on every request.
+  // The caller is looked up in the system context; the handler runs in its tenant scope.
+  const requireAuth = (req: any, res: any, next: any) => runWithoutTenant(() => authenticate(req, res, next));
+
+  const authenticate = async (req: any, res: any, next: any) => {
     try {
-      const userEmail = req.headers['x-user-email'] || 'admin@iasst.com'; // Simplified auth
-      const user = await authenticateUser(userEmail as string);
+      const userId = req.session?.userId;
+      if (!userId) {
+        const rawKey = extractApiKey(req.headers);
+        if (rawKey) {
+          return await authenticateWithApiKey(rawKey, req, res, next);
+        }
+        return res.status(401).json({ message: "Não autorizado" });
+      }
       
-      if (!user) {
+      const user = await storage.getUser(userId);
+      if (!user || user.isActive === false) {
+        req.session.destroy(() => {});
         return res.status(401).json({ message: "Não autorizado" });
       }
       
       req.user = user;
-      next();
+      req.permissions = await getEffectivePermissions(user);
+      
+      // Until a required second factor is enrolled only the auth endpoints are reachable
+      const path = req.originalUrl as string;
+      if (!path.startsWith('/api/auth/') && !path.startsWith('/api/user/me') && await isTwoFactorSetupRequired(user)) {
+        return res.status(403).json({
+          message: "Sua organização exige autenticação em dois fatores. Configure-a para continuar.",
+          code: "two_factor_setup_required"
+        });
+      }
+      
+      runInTenantScope(user, await getAccessibleOrganizationIds(user), next);
     } catch (error) {
       return res.status(401).json({ message: "Authentication failed" });
     }
   };
 
-  // Auth endpoint for frontend
-  app.get('/api/user/me', async (req, res) => {
-    try {
-      const userEmail = req.headers['x-user-email'] || 'admin@iasst.com';
-      const user = await authenticateUser(userEmail as string);
-      
-      if (!user) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-      
-      res.json(user);
-    } catch (error) {
-      res.status(500).json({ message: "Internal server error" });
-    }
+  // Public user plus the resolved permission list the client gates its UI on
+  const toSessionUser = async (user: User) => ({
+    ...toPublicUser(user),
+    permissions: Array.from(await getEffectivePermissions(user)),
+    twoFactorSetupRequired: await isTwoFactorSetupRequired(user)
   });
 
-  // Organizations routes
-  app.get('/api/organizations', requireAuth, async (req, res) => {
-    try {
-      const { user } = req;
-      let organizations = await storage.getOrganizations();
-      
-      // Filter by access permissions
-      if (user?.role !== 'system_admin') {
-        organizations = organizations.filter(org => 
-          org.id === user?.organizationId || org.parentId === user?.organizationId
-        );
-      }
-      
-      res.json(organizations);
-    } catch (error) {
-      res.status(500).json({ message: (error as Error).message });
-    }
-  });
+  // Regenerates the session id (prevents fixation) and binds it to the user
+  const startSession = (req: any, userId: string) =>
+    new Promise<void>((resolve, reject) => {
+      req.session.regenerate((err: any) => {
+        if (err) return reject(err);
+        req.session.userId = userId;
+        req.session.save((saveErr: any) => (saveErr ? reject(saveErr) : resolve()));
+      });
+    });
 
-  app.post('/api/organizations', requireAuth, async (req, res) => {
+  // Auth routes
+  app.post('/api/auth/login', systemContext, async (req, res) => {
     try {
-      const { user } = req;
+      const { email, password } = loginSchema.parse(req.body);
+      const user = await authenticateUser(email, password);
       
-      if (!user || !hasPermission(user, 'create_organization')) {
-        return res.status(403).json({ message: "Sem permissão para criar organizações" });
+      if (!user) {
+        return res.status(401).json({ message: "Email ou senha inválidos" });
       }
       
-      const orgData = insertOrganizationSchema.parse(req.body);
-      const organization = await storage.createOrganization(orgData);
-      
-      // Log activity
-      if (user) {
-        await storage.createActivityLog({
+      // Password is right but the session only starts after the TOTP step
+      if (user.totpEnabled) {
+        req.session.pendingTwoFactor = {
           userId: user.id,
-          organizationId: organization.id,
-          action: 'create_organization',
-          entityType: 'organization',
-          entityId: organization.id,
-          details: { name: organization.name, type: organization.type }
-        });
+          expiresAt: Date.now() + TWO_FACTOR_PENDING_TTL_MS
+        };
+        return res.json({ twoFactorRequired: true });
       }
       
-      res.status(201).json(organization);
+      await startSession(req, user.id);
+      
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: user.organizationId!,
+        action: 'login',
+        entityType: 'user',
+        entityId: user.id,
+        details: { ip: req.ip }
+      });
+      
+      res.json(await toSessionUser(user));
     } catch (error) {
       res.status(400).json({ message: (error as Error).message });
     }
   });
 
-  app.get('/api/organizations/:id', requireAuth, async (req, res) => {
+  // Two-factor authentication (TOTP)
+  app.post('/api/auth/2fa/verify', systemContext, async (req, res) => {
     try {
-      const { user } = req;
-      const { id } = req.params;
-      
-      if (!user || !canAccessOrganization(user, id)) {
-        return res.status(403).json({ message: "Sem permissão para acessar esta organização" });
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Verificação expirada. Entre novamente com email e senha" });
       }
       
-      const organization = await storage.getOrganization(id);
-      if (!organization) {
-        return res.status(404).json({ message: "Organização não encontrada" });
+      const { code, recoveryCode } = twoFactorVerifySchema.parse(req.body);
+      const user = await storage.getUser(pending.userId);
+      if (!user || user.isActive === false || !user.totpEnabled || !user.totpSecret) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Não autorizado" });
       }
       
-      res.json(organization);
-    } catch (error) {
-      res.status(500).json({ message: (error as Error).message });
-    }
-  });
-
-  // CNPJ lookup endpoint
-  app.get("/api/cnpj/:cnpj", async (req, res) => {
-    try {
-      const cnpj = req.params.cnpj.replace(/\D/g, ''); // Remove formatting
+      const lockedFor = getTwoFactorLockout(user);
+      if (lockedFor > 0) {
+        res.set('Retry-After', String(Math.ceil(lockedFor / 1000)));
+        return res.status(429).json({
+          message: `Muitas tentativas inválidas. Tente novamente em ${Math.ceil(lockedFor / 60000)} minuto(s)`
+        });
+      }
       
-      if (cnpj.length !== 14) {
-        return res.status(400).json({ message: "CNPJ deve ter 14 dígitos" });
+      let method: 'totp' | 'recovery_code' | null = null;
+      if (code && await verifyUserTotpCode(user, code)) {
+        method = 'totp';
+      } else if (recoveryCode && await useRecoveryCode(user, recoveryCode)) {
+        method = 'recovery_code';
       }
-
-      const response = await fetch(`https://www.receitaws.com.br/v1/cnpj/${cnpj}`);
-      const data = await response.json();
       
-      res.json(data);
-    } catch (error) {
-      console.error("Error fetching CNPJ data:", error);
-      res.status(500).json({ message: "Erro ao consultar CNPJ" });
-    }
-  });
-
-  // Companies routes
-  app.get('/api/companies', requireAuth, async (req, res) => {
-    try {
-      const { user } = req;
-      const { organizationId } = req.query;
+      if (!method) {
+        await recordTwoFactorFailure(user);
+        return res.status(401).json({ message: "Código inválido" });
+      }
       
-      const targetOrgId = organizationId as string || user?.organizationId || 'master-org-id';
+      await clearTwoFactorFailures(user);
+      await startSession(req, user.id);
       
-      if (!user || !canAccessOrganization(user, targetOrgId)) {
-        return res.status(403).json({ message: "Sem permissão para acessar empresas desta organização" });
-      }
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: user.organizationId!,
+        action: 'login',
+        entityType: 'user',
+        entityId: user.id,
+        details: { ip: req.ip, twoFactor: method }
+      });
       
-      const companies = await storage.getCompaniesByOrganization(targetOrgId);
-      res.json(companies);
+      res.json(await toSessionUser(user));
     } catch (error) {
-      res.status(500).json({ message: (error as Error).message });
+      res.status(400).json({ message: (error as Error).message });
     }
   });
 
-  app.get('/api/companies/:id', requireAuth, async (req, res) => {
+  app.post('/api/auth/2fa/setup', requireAuth, async (req, res) => {
     try {
-      const { user } = req;
-      const { id } = req.params;
+      const user = req.user!;
       
-      const company = await storage.getCompany(id);
-      if (!company) {
-        return res.status(404).json({ message: "Empresa não encontrada" });
+      if (user.authProvider !== 'password') {
+        return res.status(400).json({ message: "Usuários de SSO usam o segundo fator do provedor de identidade" });
       }
-      
-      if (!user || !canAccessOrganization(user, company.organizationId)) {
-        return res.status(403).json({ message: "Sem permissão para acessar esta empresa" });
+      if (user.totpEnabled) {
+        return res.status(409).json({ message: "Autenticação em dois fatores já está ativa" });
       }
       
-      res.json(company);
+      const secret = generateTotpSecret();
+      req.session.totpSetupSecret = secret;
+      
+      res.json(await buildEnrollment(secret, user.email));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.post('/api/companies', requireAuth, async (req, res) => {
+  app.post('/api/auth/2fa/enable', requireAuth, async (req, res) => {
     try {
-      const { user } = req;
+      const user = req.user!;
+      const { code } = twoFactorCodeSchema.parse(req.body);
       
-      if (!user || !hasPermission(user, 'manage_inspections')) {
-        return res.status(403).json({ message: "Sem permissão para cadastrar empresas" });
+      const secret = req.session.totpSetupSecret;
+      if (!secret) {
+        return res.status(400).json({ message: "Inicie a configuração novamente" });
+      }
+      const step = getTotpStep(secret, code);
+      if (step === null) {
+        return res.status(400).json({ message: "Código inválido. Confira o horário do seu celular e tente novamente" });
       }
       
-      const companyData = {
-        ...req.body,
-        organizationId: req.body.organizationId || user.organizationId,
-        createdBy: user.id
-      };
-      
-      const company = await storage.createCompany(companyData);
+      const { codes, hashes } = generateRecoveryCodes();
+      const updated = await storage.updateUser(user.id, {
+        totpSecret: secret,
+        totpEnabled: true,
+        totpLastUsedStep: step,
+        recoveryCodes: hashes
+      });
+      delete req.session.totpSetupSecret;
       
-      // Log activity
       await storage.createActivityLog({
         userId: user.id,
-        organizationId: company.organizationId,
-        action: 'create_company',
-        entityType: 'company',
-        entityId: company.id,
-        details: { name: company.name, cnpj: company.cnpj }
+        organizationId: user.organizationId!,
+        action: 'enable_two_factor',
+        entityType: 'user',
+        entityId: user.id,
+        details: {}
       });
       
-      res.status(201).json(company);
+      // Plain recovery codes are returned exactly once
+      res.json({ recoveryCodes: codes, user: await toSessionUser(updated) });
     } catch (error) {
       res.status(400).json({ message: (error as Error).message });
     }
   });
 
-  app.put('/api/companies/:id', requireAuth, async (req, res) => {
+  app.post('/api/auth/2fa/recovery-codes', requireAuth, async (req, res) => {
     try {
-      const { user } = req;
-      const { id } = req.params;
-      
-      const company = await storage.getCompany(id);
-      if (!company) {
-        return res.status(404).json({ message: "Empresa não encontrada" });
-      }
+      const user = req.user!;
+      const { code } = twoFactorCodeSchema.parse(req.body);
       
-      if (!user || !canAccessOrganization(user, company.organizationId) || !hasPermission(user, 'manage_inspections')) {
-        return res.status(403).json({ message: "Sem permissão para editar esta empresa" });
+      if (!user.totpEnabled || !await verifyUserTotpCode(user, code)) {
+        return res.status(400).json({ message: "Código inválido" });
       }
       
-      const updated = await storage.updateCompany(id, req.body);
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.updateUser(user.id, { recoveryCodes: hashes });
       
-      // Log activity
       await storage.createActivityLog({
         userId: user.id,
-        organizationId: company.organizationId,
-        action: 'update_company',
-        entityType: 'company',
-        entityId: id,
-        details: { changes: req.body }
+        organizationId: user.organizationId!,
+        action: 'regenerate_recovery_codes',
+        entityType: 'user',
+        entityId: user.id,
+        details: {}
       });
       
-      res.json(updated);
+      res.json({ recoveryCodes: codes });
     } catch (error) {
       res.status(400).json({ message: (error as Error).message });
     }
   });
 
-  app.delete('/api/companies/:id', requireAuth, async (req, res) => {
+  app.post('/api/auth/2fa/disable', requireAuth, async (req, res) => {
     try {
-      const { user } = req;
-      const { id } = req.params;
+      const user = req.user!;
+      const { code } = twoFactorCodeSchema.parse(req.body);
       
-      const company = await storage.getCompany(id);
-      if (!company) {
-        return res.status(404).json({ message: "Empresa não encontrada" });
+      if (!user.totpEnabled || !await verifyUserTotpCode(user, code)) {
+        return res.status(400).json({ message: "Código inválido" });
       }
       
-      if (!user || !canAccessOrganization(user, company.organizationId) || !hasPermission(user, 'manage_inspections')) {
-        return res.status(403).json({ message: "Sem permissão para excluir esta empresa" });
+      const organization = user.organizationId ? await storage.getOrganization(user.organizationId) : undefined;
+      if (organization?.requireTwoFactor) {
+        return res.status(403).json({ message: "Sua organização exige autenticação em dois fatores" });
       }
       
-      await storage.deleteCompany(id);
+      const updated = await storage.updateUser(user.id, {
+        totpSecret: null,
+        totpEnabled: false,
+        totpLastUsedStep: null,
+        recoveryCodes: null,
+        totpFailedAttempts: 0,
+        totpLockedUntil: null
+      });
       
-      // Log activity
       await storage.createActivityLog({
         userId: user.id,
-        organizationId: company.organizationId,
-        action: 'delete_company',
-        entityType: 'company',
-        entityId: id,
-        details: { name: company.name }
+        organizationId: user.organizationId!,
+        action: 'disable_two_factor',
+        entityType: 'user',
+        entityId: user.id,
+        details: {}
       });
       
-      res.json({ message: "Empresa excluída com sucesso" });
+      res.json(await toSessionUser(updated));
     } catch (error) {
       res.status(400).json({ message: (error as Error).message });
     }
   });
 
-  // Company Locations routes
-  app.get('/api/companies/:companyId/locations', requireAuth, async (req, res) => {
+  app.post('/api/auth/logout', (req, res) => {
+    req.session.destroy((err) => {
+      if (err) {
+        return res.status(500).json({ message: "Erro ao encerrar sessão" });
+      }
+      res.clearCookie('compia.sid');
+      res.json({ message: "Sessão encerrada" });
+    });
+  });
+
+  app.post('/api/auth/refresh', requireAuth, async (req, res) => {
     try {
       const { user } = req;
-      const { companyId } = req.params;
-      
-      const company = await storage.getCompany(companyId);
-      if (!company) {
-        return res.status(404).json({ message: "Empresa não encontrada" });
-      }
+      await startSession(req, user!.id);
+      res.json(await toSessionUser(user!));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Single sign-on (OIDC) routes
+  const ssoCallbackUrl = (req: any, organizationId: string) =>
+    `${req.protocol}://${req.get('host')}/api/auth/sso/${organizationId}/callback`;
+
+  app.get('/api/auth/sso/discover', systemContext, async (req, res) => {
+    try {
+      const email = String(req.query.email || '');
+      const sso = email ? await findSsoConfigForEmail(email) : undefined;
       
-      if (!user || !canAccessOrganization(user, company.organizationId)) {
-        return res.status(403).json({ message: "Sem permissão para acessar locais desta empresa" });
+      if (!sso) {
+        return res.json({ sso: false });
       }
       
-      const locations = await storage.getCompanyLocationsByCompany(companyId);
-      res.json(locations);
+      res.json({
+        sso: true,
+        protocol: sso.protocol,
+        organizationId: sso.organizationId,
+        loginUrl: `/api/auth/sso/${sso.organizationId}/login?email=${encodeURIComponent(email)}`
+      });
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.post('/api/companies/:companyId/locations', requireAuth, async (req, res) => {
+  app.get('/api/auth/sso/:organizationId/login', systemContext, async (req, res) => {
     try {
-      const { user } = req;
-      const { companyId } = req.params;
+      const { organizationId } = req.params;
+      const sso = await storage.getSsoConfigByOrganization(organizationId);
       
-      const company = await storage.getCompany(companyId);
-      if (!company) {
-        return res.status(404).json({ message: "Empresa não encontrada" });
+      if (!sso || !sso.isEnabled || sso.protocol !== 'oidc') {
+        return res.status(404).json({ message: "SSO não configurado para esta organização" });
       }
       
-      if (!user || !canAccessOrganization(user, company.organizationId) || !hasPermission(user, 'manage_inspections')) {
-        return res.status(403).json({ message: "Sem permissão para cadastrar locais" });
-      }
+      const email = req.query.email ? String(req.query.email) : undefined;
+      const { url, checks } = await buildSsoLoginUrl(sso, ssoCallbackUrl(req, organizationId), email);
       
-      const locationData = {
-        ...req.body,
-        companyId,
-        createdBy: user.id
+      const redirect = String(req.query.redirect || '');
+      req.session.sso = { 
+        organizationId, 
+        ...checks, 
+        redirect: redirect.startsWith('/') ? redirect : undefined 
       };
-      
-      const location = await storage.createCompanyLocation(locationData);
-      
-      // Log activity
-      await storage.createActivityLog({
-        userId: user.id,
-        organizationId: company.organizationId,
-        action: 'create_location',
-        entityType: 'location',
-        entityId: location.id,
-        details: { name: location.name, type: location.type }
-      });
-      
-      res.status(201).json(location);
+      req.session.save(() => res.redirect(url.href));
     } catch (error) {
-      res.status(400).json({ message: (error as Error).message });
+      console.error('SSO login error:', error);
+      res.status(502).json({ message: "Falha ao contatar o provedor de identidade" });
     }
   });
 
-  app.put('/api/companies/locations/:id', requireAuth, async (req, res) => {
+  app.get('/api/auth/sso/:organizationId/callback', systemContext, async (req, res) => {
+    const { organizationId } = req.params;
+    const pending = req.session.sso;
+    
     try {
-      const { user } = req;
-      const { id } = req.params;
-      
-      const location = await storage.getCompanyLocation(id);
-      if (!location) {
-        return res.status(404).json({ message: "Local não encontrado" });
+      if (!pending || pending.organizationId !== organizationId) {
+        return res.redirect('/login?error=sso_state');
       }
       
-      const company = await storage.getCompany(location.companyId);
-      if (!company) {
-        return res.status(404).json({ message: "Empresa não encontrada" });
+      const sso = await storage.getSsoConfigByOrganization(organizationId);
+      if (!sso || !sso.isEnabled) {
+        return res.redirect('/login?error=sso_disabled');
       }
       
-      if (!user || !canAccessOrganization(user, company.organizationId) || !hasPermission(user, 'manage_inspections')) {
-        return res.status(403).json({ message: "Sem permissão para editar este local" });
-      }
+      const currentUrl = new URL(`${ssoCallbackUrl(req, organizationId)}?${new URLSearchParams(req.query as any)}`);
+      const claims = await completeSsoLogin(sso, currentUrl, pending);
+      const user = await provisionSsoUser(sso, claims);
       
-      const updated = await storage.updateCompanyLocation(id, req.body);
+      await startSession(req, user.id);
       
-      // Log activity
       await storage.createActivityLog({
         userId: user.id,
-        organizationId: company.organizationId,
-        action: 'update_location',
-        entityType: 'location',
-        entityId: id,
-        details: { changes: req.body }
+        organizationId: user.organizationId!,
+        action: 'login',
+        entityType: 'user',
+        entityId: user.id,
+        details: { ip: req.ip, method: 'sso', protocol: sso.protocol }
       });
       
-      res.json(updated);
+      res.redirect(pending.redirect || '/dashboard');
     } catch (error) {
-      res.status(400).json({ message: (error as Error).message });
+      console.error('SSO callback error:', error);
+      delete req.session.sso;
+      res.redirect(`/login?error=sso&message=${encodeURIComponent((error as Error).message)}`);
     }
   });
 
-  app.delete('/api/companies/locations/:id', requireAuth, async (req, res) => {
+  // Auth endpoint for frontend
+  app.get('/api/user/me', requireAuth, async (req, res) => {
     try {
-      const { user } = req;
-      const { id } = req.params;
-      
-      const location = await storage.getCompanyLocation(id);
-      if (!location) {
-        return res.status(404).json({ message: "Local não encontrado" });
-      }
-      
-      const company = await storage.getCompany(location.companyId);
-      if (!company) {
-        return res.status(404).json({ message: "Empresa não encontrada" });
-      }
-      
-      if (!user || !canAccessOrganization(user, company.organizationId) || !hasPermission(user, 'manage_inspections')) {
-        return res.status(403).json({ message: "Sem permissão para excluir este local" });
-      }
-      
-      await storage.deleteCompanyLocation(id);
+      res.json(await toSessionUser(req.user!));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // In-app notifications for the current user
+  app.get('/api/notifications', requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getNotificationsByUser(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post('/api/notifications/read-all', requireAuth, async (req, res) => {
+    try {
+      await storage.markAllNotificationsRead(req.user!.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post('/api/notifications/:id/read', requireAuth, async (req, res) => {
+    try {
+      await storage.markNotificationRead(req.params.id, req.user!.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Personal iCalendar feed. The token in the URL is the only credential,
+  // so it is shown once on creation and can be rotated or revoked
+  app.get('/api/user/calendar-feed', requireAuth, async (req, res) => {
+    const user = req.user!;
+    res.json({ active: !!user.calendarFeedTokenHash, createdAt: user.calendarFeedCreatedAt });
+  });
+
+  app.post('/api/user/calendar-feed', requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const { token, tokenHash } = generateCalendarFeedToken();
+      const createdAt = new Date();
+      await storage.updateUser(user.id, { calendarFeedTokenHash: tokenHash, calendarFeedCreatedAt: createdAt });
       
-      // Log activity
       await storage.createActivityLog({
         userId: user.id,
-        organizationId: company.organizationId,
-        action: 'delete_location',
-        entityType: 'location',
-        entityId: id,
-        details: { name: location.name }
+        organizationId: user.organizationId,
+        action: user.calendarFeedTokenHash ? 'rotate_calendar_feed' : 'create_calendar_feed',
+        entityType: 'user',
+        entityId: user.id,
+        details: {}
       });
       
-      res.json({ message: "Local excluído com sucesso" });
+      res.status(201).json({ active: true, createdAt, url: calendarFeedUrl(token) });
     } catch (error) {
-      res.status(400).json({ message: (error as Error).message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Users routes
-  app.get('/api/users', requireAuth, async (req, res) => {
+  app.delete('/api/user/calendar-feed', requireAuth, async (req, res) => {
     try {
-      const { user } = req;
-      const { organizationId } = req.query;
+      const user = req.user!;
+      await storage.updateUser(user.id, { calendarFeedTokenHash: null, calendarFeedCreatedAt: null });
       
-      if (!user) {
-        return res.status(401).json({ message: "Usuário não autenticado" });
-      }
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: user.organizationId,
+        action: 'revoke_calendar_feed',
+        entityType: 'user',
+        entityId: user.id,
+        details: {}
+      });
       
-      let users;
-      if (organizationId) {
-        if (!canAccessOrganization(user, organizationId as string)) {
-          return res.status(403).json({ message: "Sem permissão para acessar usuários desta organização" });
-        }
-        users = await storage.getUsersByOrganization(organizationId as string);
-      } else {
-        if (user.role === 'system_admin') {
-          users = await storage.getUsersByOrganization(user.organizationId!);
-        } else {
-          users = await storage.getUsersByOrganization(user.organizationId!);
-        }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Polled by calendar clients without a session
+  app.get('/api/calendar/:token.ics', systemContext, async (req, res) => {
+    try {
+      const user = await storage.getUserByCalendarFeedTokenHash(hashCalendarFeedToken(req.params.token));
+      if (!user || user.isActive === false) {
+        return res.status(404).json({ message: "Calendário não encontrado" });
       }
       
-      res.json(users);
+      res.set('Content-Type', 'text/calendar; charset=utf-8');
+      res.set('Content-Disposition', 'inline; filename="compia.ics"');
+      res.set('Cache-Control', 'private, max-age=300');
+      res.send(await buildUserCalendar(user));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Invitations routes
-  app.post('/api/invitations', requireAuth, async (req, res) => {
+  // Permission catalog for the role editor
+  app.get('/api/permissions', requireAuth, async (req, res) => {
+    res.json({
+      resources: PERMISSION_RESOURCES,
+      defaults: DEFAULT_ROLE_PERMISSIONS
+    });
+  });
+
+  // Custom roles (organization-defined permission sets)
+  app.get('/api/roles', requireAuth, requirePermission('role:manage'), async (req, res) => {
     try {
       const { user } = req;
+      const targetOrgId = req.query.organizationId as string || user!.organizationId!;
       
-      if (!user || !hasPermission(user, 'invite_user')) {
-        return res.status(403).json({ message: "Sem permissão para convidar usuários" });
+      if (!(await canAccessOrganization(user!, targetOrgId))) {
+        return res.status(403).json({ message: "Sem permissão para acessar perfis desta organização" });
       }
       
-      const inviteData = insertInvitationSchema.parse({
+      const roles = await storage.getCustomRolesByOrganization(targetOrgId);
+      res.json(roles);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post('/api/roles', requireAuth, requirePermission('role:manage'), async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      const roleData = insertCustomRoleSchema.parse({
         ...req.body,
-        invitedBy: user.id
+        organizationId: req.body.organizationId || user.organizationId,
+        createdBy: user.id
       });
       
-      const invitation = await storage.createInvitation(inviteData);
+      if (!(await canAccessOrganization(user, roleData.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para criar perfis nesta organização" });
+      }
+      
+      const invalid = roleData.permissions.filter(p => !isPermission(p) || p === 'system:admin');
+      if (invalid.length > 0) {
+        return res.status(400).json({ message: `Permissões inválidas: ${invalid.join(', ')}` });
+      }
+      
+      // A role can only carry permissions its creator has
+      const notGranted = roleData.permissions.filter(p => !req.permissions!.has(p as Permission));
+      if (notGranted.length > 0) {
+        return res.status(403).json({ message: `Você não pode conceder permissões que não possui: ${notGranted.join(', ')}` });
+      }
+      
+      const role = await storage.createCustomRole(roleData);
       
-      // Log activity
       await storage.createActivityLog({
         userId: user.id,
-        organizationId: invitation.organizationId,
-        action: 'invite_user',
-        entityType: 'invitation',
-        entityId: invitation.id,
-        details: { email: invitation.email, role: invitation.role }
+        organizationId: role.organizationId,
+        action: 'create_role',
+        entityType: 'role',
+        entityId: role.id,
+        details: { name: role.name, permissions: role.permissions }
       });
       
-      res.status(201).json(invitation);
+      res.status(201).json(role);
     } catch (error) {
       res.status(400).json({ message: (error as Error).message });
     }
   });
 
-  app.post('/api/invitations/accept', async (req, res) => {
+  app.put('/api/roles/:id', requireAuth, requirePermission('role:manage'), async (req, res) => {
     try {
-      const { token, userInfo } = acceptInviteSchema.parse(req.body);
+      const user = req.user!;
       
-      const invitation = await storage.getInvitationByToken(token);
-      if (!invitation) {
-        return res.status(404).json({ message: "Convite não encontrado" });
+      const role = await storage.getCustomRole(req.params.id);
+      if (!role) {
+        return res.status(404).json({ message: "Perfil não encontrado" });
       }
       
-      if (invitation.isAccepted) {
-        return res.status(400).json({ message: "Convite já foi aceito" });
+      if (!(await canAccessOrganization(user, role.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para editar este perfil" });
       }
       
-      if (!isTokenValid(invitation.expiresAt)) {
-        return res.status(400).json({ message: "Convite expirado" });
+      const updates = insertCustomRoleSchema
+        .pick({ name: true, description: true, baseRole: true, permissions: true })
+        .partial()
+        .parse(req.body);
+      
+      const invalid = (updates.permissions || []).filter(p => !isPermission(p) || p === 'system:admin');
+      if (invalid.length > 0) {
+        return res.status(400).json({ message: `Permissões inválidas: ${invalid.join(', ')}` });
       }
       
-      // Create user
-      const user = await storage.createUser({
-        email: userInfo.email,
-        name: userInfo.name,
-        role: invitation.role,
-        organizationId: invitation.organizationId,
-        isActive: true
-      });
+      const notGranted = (updates.permissions || []).filter(p => !req.permissions!.has(p as Permission));
+      if (notGranted.length > 0) {
+        return res.status(403).json({ message: `Você não pode conceder permissões que não possui: ${notGranted.join(', ')}` });
+      }
       
-      // Mark invitation as accepted
-      await storage.updateInvitation(invitation.id, { isAccepted: true });
+      const updated = await storage.updateCustomRole(role.id, updates);
       
-      // Log activity
       await storage.createActivityLog({
         userId: user.id,
-        organizationId: user.organizationId!,
-        action: 'accept_invitation',
-        entityType: 'user',
-        entityId: user.id,
-        details: { email: user.email, role: user.role }
+        organizationId: role.organizationId,
+        action: 'update_role',
+        entityType: 'role',
+        entityId: role.id,
+        details: { name: updated.name, permissions: updated.permissions }
       });
       
-      res.json({ user, message: "Convite aceito com sucesso" });
+      res.json(updated);
     } catch (error) {
       res.status(400).json({ message: (error as Error).message });
     }
   });
 
-  // Inspections routes
-
-  // Create inspection (COMPIA implementation) - Must be before GET route
-  app.post('/api/inspections', requireAuth, async (req, res) => {
+  app.delete('/api/roles/:id', requireAuth, requirePermission('role:manage'), async (req, res) => {
     try {
-      const { user } = req;
-      
-      // Extract all data from request body
-      const {
-        title,
-        location, 
-        description,
-        checklistTemplateId,
-        scheduledAt,
-        organizationId,
-        priority,
-        companyName,
-        zipCode,
-        fullAddress,
-        latitude,
-        longitude,
-        technicianName,
-        technicianEmail,
-        companyResponsibleName,
-        aiAssistantId,
-        actionPlanType
-      } = req.body;
-      
-      if (!user) {
-        return res.status(401).json({ message: "Usuário não autenticado" });
-      }
+      const user = req.user!;
       
-      // Validate required fields manually
-      if (!title || !location) {
-        return res.status(400).json({ message: "Campos obrigatórios: title, location" });
-      }
-      
-      // Get the checklist template if provided and not "none"
-      let template = null;
-      if (checklistTemplateId && checklistTemplateId !== 'none') {
-        template = await storage.getChecklistTemplate(checklistTemplateId);
-        if (!template) {
-          return res.status(404).json({ message: "Template de checklist não encontrado" });
-        }
+      const role = await storage.getCustomRole(req.params.id);
+      if (!role) {
+        return res.status(404).json({ message: "Perfil não encontrado" });
       }
       
-      // Process scheduledAt to ensure it's a Date
-      let processedScheduledAt = scheduledAt;
-      if (scheduledAt && typeof scheduledAt === 'string') {
-        processedScheduledAt = new Date(scheduledAt);
-      } else if (!scheduledAt) {
-        processedScheduledAt = new Date();
+      if (!(await canAccessOrganization(user, role.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para excluir este perfil" });
       }
       
-      // Create inspection data with all new fields
-      const inspectionData = {
-        title: String(title),
-        location: String(location),
-        description: description ? String(description) : null,
-        checklistTemplateId: (checklistTemplateId && checklistTemplateId !== 'none') ? String(checklistTemplateId) : null,
-        scheduledAt: processedScheduledAt,
-        status: 'draft' as const,
-        organizationId: organizationId || user?.organizationId || 'master-org-id',
-        inspectorId: user?.id || 'admin-id',
-        
-        // New fields
-        priority: priority || 'medium',
-        companyName: companyName || null,
-        zipCode: zipCode || null,
-        fullAddress: fullAddress || null,
-        latitude: latitude || null,
-        longitude: longitude || null,
-        technicianName: technicianName || user?.name || null,
-        technicianEmail: technicianEmail || user?.email || null,
-        companyResponsibleName: companyResponsibleName || null,
-        aiAssistantId: aiAssistantId || 'GENERAL',
-        actionPlanType: actionPlanType || '5W2H',
-        
-        // Initialize checklist from template if available
-        checklist: template ? template.items : []
-      };
-      
-      console.log('Route - User data:', { id: user?.id, organizationId: user?.organizationId });
-      console.log('Route - Inspection data before storage:', inspectionData);
-      
-      const inspection = await storage.createInspection(inspectionData);
+      await storage.deleteCustomRole(role.id);
       
-      // Log activity
       await storage.createActivityLog({
-        userId: user?.id || 'admin-id',
-        organizationId: organizationId || user?.organizationId || 'master-org-id',
-        action: 'Inspeção criada',
-        entityType: 'inspection',
-        entityId: inspection.id,
-        details: { 
-          title, 
-          location,
-          companyName,
-          priority,
-          aiAssistantId,
-          hasTemplate: !!template
-        }
+        userId: user.id,
+        organizationId: role.organizationId,
+        action: 'delete_role',
+        entityType: 'role',
+        entityId: role.id,
+        details: { name: role.name }
       });
       
-      res.status(201).json(inspection);
+      res.status(204).send();
     } catch (error) {
-      console.error('Route error:', error);
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.get('/api/inspections/:id', requireAuth, async (req, res) => {
+  // API keys for machine-to-machine integrations
+  app.get('/api/api-keys', requireAuth, requirePermission('api_key:manage'), async (req, res) => {
     try {
       const { user } = req;
-      const { id } = req.params;
-      
-      if (!user) {
-        return res.status(401).json({ message: "Usuário não autenticado" });
-      }
-      
-      const inspection = await storage.getInspection(id);
-      if (!inspection) {
-        return res.status(404).json({ message: "Inspeção não encontrada" });
-      }
+      const targetOrgId = req.query.organizationId as string || user!.organizationId!;
       
-      // Check permissions
-      if (!canAccessOrganization(user, inspection.organizationId) && 
-          user.id !== inspection.inspectorId && 
-          user.role !== 'system_admin') {
-        return res.status(403).json({ message: "Sem permissão para acessar esta inspeção" });
+      if (!(await canAccessOrganization(user!, targetOrgId))) {
+        return res.status(403).json({ message: "Sem permissão para acessar chaves desta organização" });
       }
       
-      res.json(inspection);
+      const keys = await storage.getApiKeysByOrganization(targetOrgId);
+      res.json(keys.map(toPublicApiKey));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.get('/api/inspections', requireAuth, async (req, res) => {
+  app.post('/api/api-keys', requireAuth, requirePermission('api_key:manage'), async (req, res) => {
     try {
-      const { user } = req;
-      const { organizationId } = req.query;
+      const user = req.user!;
       
-      if (!user) {
-        return res.status(401).json({ message: "Usuário não autenticado" });
+      const keyData = createApiKeySchema.parse({
+        ...req.body,
+        organizationId: req.body.organizationId || user.organizationId
+      });
+      
+      if (!(await canAccessOrganization(user, keyData.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para criar chaves nesta organização" });
       }
       
-      let inspections;
-      if (organizationId && canAccessOrganization(user, organizationId as string)) {
-        inspections = await storage.getInspectionsByOrganization(organizationId as string);
-      } else if (user.role === 'inspector') {
-        inspections = await storage.getInspectionsByInspector(user.id);
-      } else {
-        inspections = await storage.getInspectionsByOrganization(user.organizationId!);
+      const invalid = keyData.scopes.filter(scope => !isApiKeyScope(scope));
+      if (invalid.length > 0) {
+        return res.status(400).json({ message: `Escopos inválidos: ${invalid.join(', ')}` });
       }
       
-      // Filter by permissions
-      inspections = await filterByOrganizationAccess(user, inspections);
-      
-      res.json(inspections);
-    } catch (error) {
-      res.status(500).json({ message: (error as Error).message });
-    }
-  });
-
-
-  app.patch('/api/inspections/:id', requireAuth, async (req, res) => {
-    try {
-      const { user } = req;
-      const { id } = req.params;
-      
-      const inspection = await storage.getInspection(id);
-      if (!inspection) {
-        return res.status(404).json({ message: "Inspeção não encontrada" });
-      }
-      
-      if (!user || (!hasPermission(user, 'edit_inspection') && inspection.inspectorId !== user.id)) {
-        return res.status(403).json({ message: "Sem permissão para editar esta inspeção" });
-      }
-      
-      const updates = req.body;
-      
-      // Add timestamp fields based on status change
-      if (updates.status) {
-        const now = new Date();
-        if (updates.status === 'in_progress' && !inspection.startedAt) {
-          updates.startedAt = now;
-        } else if (updates.status === 'completed' && !inspection.completedAt) {
-          updates.completedAt = now;
-        }
+      // A key can't carry access its creator doesn't have
+      const ungranted = keyData.scopes.filter(scope =>
+        isApiKeyScope(scope) && !API_KEY_SCOPES[scope].every(permission => req.permissions?.has(permission))
+      );
+      if (ungranted.length > 0) {
+        return res.status(403).json({ message: `Você não possui as permissões dos escopos: ${ungranted.join(', ')}` });
       }
       
-      // If findings are provided, analyze with AI
-      if (updates.findings && updates.findings.length > 0) {
-        try {
-          const analysis = await analyzeInspectionFindings({
-            title: inspection.title,
-            location: inspection.location,
-            description: inspection.description || undefined,
-            checklist: inspection.checklist as any[],
-            findings: updates.findings
-          });
-          
-          updates.recommendations = analysis.summary;
-          (updates as any).aiAnalysis = JSON.stringify(analysis);
-        } catch (aiError) {
-          console.error("AI analysis failed:", aiError);
-          // Continue without AI analysis if it fails
-        }
+      if (keyData.expiresAt && keyData.expiresAt.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "A data de expiração deve estar no futuro" });
       }
       
-      const updatedInspection = await storage.updateInspection(id, updates);
+      const { key, prefix, keyHash } = generateApiKey();
+      const apiKey = await storage.createApiKey({
+        organizationId: keyData.organizationId,
+        name: keyData.name,
+        prefix,
+        keyHash,
+        scopes: Array.from(new Set(keyData.scopes)),
+        rateLimitPerMinute: keyData.rateLimitPerMinute,
+        expiresAt: keyData.expiresAt ?? null,
+        createdBy: user.id
+      });
       
-      // Log activity
       await storage.createActivityLog({
         userId: user.id,
-        organizationId: inspection.organizationId,
-        action: 'update_inspection',
-        entityType: 'inspection',
-        entityId: id,
-        details: { status: updates.status, findingsCount: updates.findings?.length }
+        organizationId: apiKey.organizationId,
+        action: 'create_api_key',
+        entityType: 'api_key',
+        entityId: apiKey.id,
+        details: { name: apiKey.name, scopes: apiKey.scopes, expiresAt: apiKey.expiresAt }
       });
       
-      res.json(updatedInspection);
+      // The plain key is only ever returned here
+      res.status(201).json({ ...toPublicApiKey(apiKey), key });
     } catch (error) {
       res.status(400).json({ message: (error as Error).message });
     }
   });
 
-  app.post('/api/inspections/:id/clone', requireAuth, async (req, res) => {
+  app.delete('/api/api-keys/:id', requireAuth, requirePermission('api_key:manage'), async (req, res) => {
     try {
-      const { user } = req;
-      const { id } = req.params;
+      const user = req.user!;
       
-      const originalInspection = await storage.getInspection(id);
-      if (!originalInspection) {
-        return res.status(404).json({ message: "Inspeção não encontrada" });
+      const apiKey = await storage.getApiKey(req.params.id);
+      if (!apiKey) {
+        return res.status(404).json({ message: "Chave de API não encontrada" });
       }
       
-      if (!user || !canAccessOrganization(user, originalInspection.organizationId)) {
-        return res.status(403).json({ message: "Sem permissão para clonar esta inspeção" });
+      if (!(await canAccessOrganization(user, apiKey.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para revogar esta chave" });
       }
       
-      // Create cloned inspection with basic data only
-      const clonedData = {
-        title: `${originalInspection.title} (Cópia)`,
-        description: originalInspection.description,
-        location: originalInspection.location,
-        checklistTemplateId: originalInspection.checklistTemplateId,
-        organizationId: originalInspection.organizationId,
-        inspectorId: user.id,
-      };
-      
-      const clonedInspection = await storage.createInspection(clonedData);
-      
-      // Log activity
-      if (user) {
+      if (!apiKey.revokedAt) {
+        await storage.updateApiKey(apiKey.id, { revokedAt: new Date() });
+        
         await storage.createActivityLog({
           userId: user.id,
-          organizationId: originalInspection.organizationId,
-          action: 'clone_inspection',
-          entityType: 'inspection',
-          entityId: clonedInspection.id,
-          details: { originalId: id, title: clonedInspection.title }
+          organizationId: apiKey.organizationId,
+          action: 'revoke_api_key',
+          entityType: 'api_key',
+          entityId: apiKey.id,
+          details: { name: apiKey.name }
         });
       }
       
-      res.status(201).json(clonedInspection);
+      res.status(204).send();
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.delete('/api/inspections/:id', requireAuth, async (req, res) => {
+  // Outbound webhooks
+  app.get('/api/webhooks', requireAuth, requirePermission('webhook:manage'), async (req, res) => {
     try {
       const { user } = req;
-      const { id } = req.params;
-      
-      const inspection = await storage.getInspection(id);
-      if (!inspection) {
-        return res.status(404).json({ message: "Inspeção não encontrada" });
-      }
-      
-      if (!user || !hasPermission(user, 'delete_inspection') || !canAccessOrganization(user, inspection.organizationId)) {
-        return res.status(403).json({ message: "Sem permissão para excluir esta inspeção" });
-      }
-      
-      await storage.deleteInspection(id);
+      const targetOrgId = req.query.organizationId as string || user!.organizationId!;
       
-      // Log activity
-      if (user) {
-        await storage.createActivityLog({
-          userId: user.id,
-          organizationId: inspection.organizationId,
-          action: 'delete_inspection',
-          entityType: 'inspection',
-          entityId: id,
-          details: { title: inspection.title }
-        });
+      if (!(await canAccessOrganization(user!, targetOrgId))) {
+        return res.status(403).json({ message: "Sem permissão para acessar webhooks desta organização" });
       }
       
-      res.status(204).send();
+      const endpoints = await storage.getWebhookEndpointsByOrganization(targetOrgId);
+      res.json(endpoints.map(toPublicWebhookEndpoint));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Action Plans routes
-  app.get('/api/action-plans', requireAuth, async (req, res) => {
+  app.post('/api/webhooks', requireAuth, requirePermission('webhook:manage'), async (req, res) => {
     try {
-      const { user } = req;
-      const { inspectionId, organizationId } = req.query;
+      const user = req.user!;
       
-      let actionPlans;
-      if (inspectionId) {
-        actionPlans = await storage.getActionPlansByInspection(inspectionId as string);
-      } else if (organizationId && canAccessOrganization(user, organizationId as string)) {
-        actionPlans = await storage.getActionPlansByOrganization(organizationId as string);
-      } else {
-        actionPlans = await storage.getActionPlansByOrganization(user.organizationId!);
+      const endpointData = webhookEndpointSchema.parse({
+        ...req.body,
+        organizationId: req.body.organizationId || user.organizationId
+      });
+      await validateWebhookUrl(endpointData.url);
+      
+      if (!(await canAccessOrganization(user, endpointData.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para criar webhooks nesta organização" });
       }
       
-      // Filter by permissions
-      actionPlans = await filterByOrganizationAccess(user, actionPlans);
+      const endpoint = await storage.createWebhookEndpoint({
+        organizationId: endpointData.organizationId,
+        url: endpointData.url,
+        description: endpointData.description ?? null,
+        events: endpointData.events,
+        isActive: endpointData.isActive,
+        secret: generateWebhookSecret(),
+        createdBy: user.id
+      });
       
-      res.json(actionPlans);
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: endpoint.organizationId,
+        action: 'create_webhook',
+        entityType: 'webhook',
+        entityId: endpoint.id,
+        details: { url: endpoint.url, events: endpoint.events }
+      });
+      
+      // The signing secret is only returned on creation
+      res.status(201).json(endpoint);
     } catch (error) {
-      res.status(500).json({ message: (error as Error).message });
+      res.status(400).json({ message: (error as Error).message });
     }
   });
 
-  app.post('/api/action-plans', requireAuth, async (req, res) => {
+  app.put('/api/webhooks/:id', requireAuth, requirePermission('webhook:manage'), async (req, res) => {
     try {
-      const { user } = req;
+      const user = req.user!;
       
-      if (!hasPermission(user, 'manage_action_plans')) {
-        return res.status(403).json({ message: "Sem permissão para criar planos de ação" });
+      const endpoint = await storage.getWebhookEndpoint(req.params.id);
+      if (!endpoint) {
+        return res.status(404).json({ message: "Webhook não encontrado" });
       }
       
-      const planData = insertActionPlanSchema.parse({
-        ...req.body,
-        organizationId: user.organizationId
-      });
+      if (!(await canAccessOrganization(user, endpoint.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para editar este webhook" });
+      }
       
-      const actionPlan = await storage.createActionPlan(planData);
+      const updates = webhookEndpointSchema
+        .pick({ url: true, description: true, events: true, isActive: true })
+        .partial()
+        .parse(req.body);
+      if (updates.url) {
+        await validateWebhookUrl(updates.url);
+      }
+      
+      // Switching an endpoint back on clears the failure streak that disabled it
+      const reactivate = updates.isActive === true && !endpoint.isActive;
+      const updated = await storage.updateWebhookEndpoint(endpoint.id, reactivate
+        ? { ...updates, consecutiveFailures: 0, disabledAt: null }
+        : updates);
       
-      // Log activity
       await storage.createActivityLog({
         userId: user.id,
-        organizationId: user.organizationId!,
-        action: 'create_action_plan',
-        entityType: 'action_plan',
-        entityId: actionPlan.id,
-        details: { title: actionPlan.title, priority: actionPlan.priority }
+        organizationId: endpoint.organizationId,
+        action: 'update_webhook',
+        entityType: 'webhook',
+        entityId: endpoint.id,
+        details: updates
       });
       
-      res.status(201).json(actionPlan);
+      res.json(toPublicWebhookEndpoint(updated));
     } catch (error) {
       res.status(400).json({ message: (error as Error).message });
     }
   });
 
-  app.post('/api/action-plans/generate', requireAuth, async (req, res) => {
+  app.delete('/api/webhooks/:id', requireAuth, requirePermission('webhook:manage'), async (req, res) => {
     try {
-      const { user } = req;
-      const { finding } = req.body;
+      const user = req.user!;
       
-      if (!hasPermission(user, 'manage_action_plans')) {
-        return res.status(403).json({ message: "Sem permissão para gerar planos de ação" });
+      const endpoint = await storage.getWebhookEndpoint(req.params.id);
+      if (!endpoint) {
+        return res.status(404).json({ message: "Webhook não encontrado" });
       }
       
-      const recommendations = await generateActionPlanRecommendations(finding);
+      if (!(await canAccessOrganization(user, endpoint.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para excluir este webhook" });
+      }
       
-      res.json(recommendations);
+      await storage.deleteWebhookEndpoint(endpoint.id);
+      
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: endpoint.organizationId,
+        action: 'delete_webhook',
+        entityType: 'webhook',
+        entityId: endpoint.id,
+        details: { url: endpoint.url }
+      });
+      
+      res.status(204).send();
     } catch (error) {
-      res.status(400).json({ message: (error as Error).message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Dashboard and Analytics routes
-  app.get('/api/dashboard/stats', requireAuth, async (req, res) => {
+  app.get('/api/webhooks/:id/deliveries', requireAuth, requirePermission('webhook:manage'), async (req, res) => {
     try {
-      const { user } = req;
-      const { organizationId } = req.query;
+      const user = req.user!;
       
-      const targetOrgId = organizationId as string || user?.organizationId || 'master-org-id';
+      const endpoint = await storage.getWebhookEndpoint(req.params.id);
+      if (!endpoint) {
+        return res.status(404).json({ message: "Webhook não encontrado" });
+      }
       
-      if (!user || !canAccessOrganization(user, targetOrgId)) {
-        return res.status(403).json({ message: "Sem permissão para acessar dados desta organização" });
+      if (!(await canAccessOrganization(user, endpoint.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para acessar este webhook" });
       }
       
-      const inspections = await storage.getInspectionsByOrganization(targetOrgId);
-      const actionPlans = await storage.getActionPlansByOrganization(targetOrgId);
-      const users = await storage.getUsersByOrganization(targetOrgId);
-      const organizations = await storage.getOrganizationsByParent(targetOrgId);
+      res.json(await storage.getWebhookDeliveriesByEndpoint(endpoint.id));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post('/api/webhooks/:id/test', requireAuth, requirePermission('webhook:manage'), async (req, res) => {
+    try {
+      const user = req.user!;
       
-      const metrics = calculateComplianceMetrics(inspections, actionPlans);
+      const endpoint = await storage.getWebhookEndpoint(req.params.id);
+      if (!endpoint) {
+        return res.status(404).json({ message: "Webhook não encontrado" });
+      }
       
-      const stats = {
-        inspections: inspections.length,
-        nonCompliances: metrics.nonCompliances,
-        completedActions: metrics.completedActions,
-        activeOrganizations: organizations.length + 1, // Include current org
-        complianceRate: metrics.complianceRate,
-        actionCompletionRate: metrics.actionCompletionRate,
-        overdueActions: metrics.overdueActions,
-        activeUsers: users.filter(u => u.isActive).length
-      };
+      if (!(await canAccessOrganization(user, endpoint.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para testar este webhook" });
+      }
       
-      res.json(stats);
+      res.json(await sendTestWebhook(endpoint));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.get('/api/dashboard/insights', requireAuth, async (req, res) => {
+  app.post('/api/webhooks/deliveries/:id/replay', requireAuth, requirePermission('webhook:manage'), async (req, res) => {
     try {
-      const { user } = req;
-      const { organizationId } = req.query;
-      
-      const targetOrgId = organizationId as string || user?.organizationId || 'master-org-id';
+      const user = req.user!;
       
-      if (!user || !canAccessOrganization(user, targetOrgId)) {
-        return res.status(403).json({ message: "Sem permissão para acessar insights desta organização" });
+      const delivery = await storage.getWebhookDelivery(req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ message: "Entrega não encontrada" });
       }
       
-      const inspections = await storage.getInspectionsByOrganization(targetOrgId);
-      const actionPlans = await storage.getActionPlansByOrganization(targetOrgId);
+      if (!(await canAccessOrganization(user, delivery.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para reenviar esta entrega" });
+      }
       
-      const metrics = calculateComplianceMetrics(inspections, actionPlans);
+      const replay = await replayWebhookDelivery(delivery);
       
-      const insights = await generateComplianceInsights({
-        inspections: inspections.length,
-        nonCompliances: metrics.nonCompliances,
-        completedActions: metrics.completedActions,
-        period: "Últimos 30 dias"
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: delivery.organizationId,
+        action: 'replay_webhook_delivery',
+        entityType: 'webhook',
+        entityId: delivery.endpointId,
+        details: { deliveryId: delivery.id, replayId: replay.id, event: delivery.event }
       });
       
-      res.json(insights);
+      res.status(201).json(replay);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Checklist Templates - Extended functionality
-  app.post('/api/checklist-templates', requireAuth, async (req, res) => {
+  // Organizations routes
+  app.get('/api/organizations', requireAuth, requirePermission('organization:view'), async (req, res) => {
     try {
       const { user } = req;
-      // Convert fields to items format
-      const items = req.body.fields ? req.body.fields.map((field: any) => ({
-        type: field.field_type === 'boolean' ? 'checkbox' : field.field_type,
-        label: field.field_name,
-        required: field.is_required || false,
-        options: field.options ? field.options.split(',').map((o: string) => o.trim()) : undefined
-      })) : [];
+      let organizations = await storage.getOrganizations();
       
-      const templateData = {
-        name: req.body.name,
-        description: req.body.description,
-        category: req.body.parent_folder_id || req.body.category,
-        organizationId: user.organizationId,
-        items: items,
-        isActive: true,
-        isDefault: false,
-        createdBy: user.id,
-        parentFolderId: req.body.parent_folder_id || null
-      };
+      // Own organization and every descendant, never siblings or parents
+      const accessibleOrgs = await getAccessibleOrganizationIds(user!);
+      if (accessibleOrgs !== "all") {
+        organizations = organizations.filter(org => accessibleOrgs.includes(org.id));
+      }
       
-      const template = await storage.createChecklistTemplate(templateData);
-      res.status(201).json(template);
+      res.json(organizations);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.post('/api/checklist-templates/:id/duplicate', requireAuth, async (req, res) => {
+  app.post('/api/organizations', requireAuth, requirePermission('organization:create'), async (req, res) => {
     try {
       const { user } = req;
-      const { id } = req.params;
       
-      const originalTemplate = await storage.getChecklistTemplate(id);
-      if (!originalTemplate) {
-        return res.status(404).json({ message: "Template não encontrado" });
+      const orgData = insertOrganizationSchema.parse(req.body);
+      const { parentId } = orgData as Pick<Organization, "parentId">;
+      if (parentId && !(await canAccessOrganization(user, parentId))) {
+        return res.status(403).json({ message: "Sem permissão para criar organizações sob esta organização" });
       }
+      const organization = await storage.createOrganization(orgData);
       
-      const duplicatedTemplate = await storage.createChecklistTemplate({
-        ...originalTemplate,
-        id: undefined,
-        name: `${originalTemplate.name} (Cópia)`,
-        createdBy: user.id,
-        createdAt: undefined,
-        updatedAt: undefined
-      });
+      // Log activity
+      if (user) {
+        await storage.createActivityLog({
+          userId: user.id,
+          organizationId: organization.id,
+          action: 'create_organization',
+          entityType: 'organization',
+          entityId: organization.id,
+          details: { name: organization.name, type: organization.type }
+        });
+      }
       
-      res.status(201).json(duplicatedTemplate);
+      res.status(201).json(organization);
     } catch (error) {
-      res.status(500).json({ message: (error as Error).message });
+      res.status(400).json({ message: (error as Error).message });
     }
   });
 
-  app.post('/api/checklist-templates/folder', requireAuth, async (req, res) => {
-    try {
-      const { user } = req;
-      // Create folder as a special type of template with category='__folder__'
-      const folderData = {
-        name: req.body.name,
-        description: JSON.stringify({
-          is_category_folder: true,
-          folder_icon: req.body.icon || 'folder',
-          folder_color: req.body.color || 'blue',
-          parent_folder_id: req.body.parent_folder_id || null,
-          user_description: req.body.description || ''
-        }),
-        category: '__folder__', // Special category for folders
-        items: [], // Folders don't have items
-        organizationId: user.organizationId,
-        isActive: true,
-        isDefault: false,
-        createdBy: user.id
-      };
-      
-      const folder = await storage.createChecklistTemplate(folderData);
-      
-      // Transform response to include folder metadata
-      const folderMetadata = JSON.parse(folder.description || '{}');
-      res.status(201).json({
-        ...folder,
-        is_category_folder: true,
-        folder_icon: folderMetadata.folder_icon,
-        folder_color: folderMetadata.folder_color,
-        parent_folder_id: folderMetadata.parent_folder_id,
-        description: folderMetadata.user_description
-      });
-    } catch (error) {
-      res.status(500).json({ message: (error as Error).message });
-    }
-  });
-
-  app.delete('/api/checklist-templates/:id', requireAuth, async (req, res) => {
+  app.get('/api/organizations/:id', requireAuth, requirePermission('organization:view'), async (req, res) => {
     try {
       const { user } = req;
       const { id } = req.params;
       
-      const template = await storage.getChecklistTemplate(id);
-      if (!template) {
-        return res.status(404).json({ message: "Template não encontrado" });
+      if (!user || !(await canAccessOrganization(user, id))) {
+        return res.status(403).json({ message: "Sem permissão para acessar esta organização" });
       }
       
-      if (!canAccessOrganization(user, template.organizationId)) {
-        return res.status(403).json({ message: "Sem permissão para excluir este template" });
+      const organization = await storage.getOrganization(id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organização não encontrada" });
       }
       
-      await storage.deleteChecklistTemplate(id);
-      res.status(204).send();
+      res.json(organization);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // GET route for import page (returns empty template for the UI)
-  app.get('/api/checklist-templates/import', requireAuth, async (req, res) => {
-    // Return an empty template structure for the import page
-    res.json({
-      id: 'import',
-      name: 'Importar Checklist CSV',
-      description: 'Importe um checklist a partir de um arquivo CSV',
-      category: 'import',
-      items: []
-    });
-  });
-
-  // GET route for AI generator page
-  app.get('/api/checklist-templates/ai-generator', requireAuth, async (req, res) => {
-    // Return an empty template structure for the AI generator page
-    res.json({
-      id: 'ai-generator',
-      name: 'Gerar Checklist com IA',
-      description: 'Gere um checklist usando inteligência artificial',
-      category: 'ai',
-      items: []
-    });
-  });
-
-  // Import checklist from CSV
-  app.post('/api/checklist-templates/import', requireAuth, async (req, res) => {
+  // Organization security policy
+  app.put('/api/organizations/:id/security', requireAuth, requirePermission('organization:update'), async (req, res) => {
     try {
-      const { user } = req;
-      if (!user?.organizationId) {
-        return res.status(403).json({ message: 'Usuário sem organização' });
-      }
-      
-      const { csv_content, name, description, parent_folder_id } = req.body;
-      
-      // Parse CSV content and create checklist
-      const lines = csv_content.split('\n').filter((line: string) => line.trim());
-      const items = lines.map((line: string, index: number) => ({
-        id: `item-${Date.now()}-${index}`,
-        text: line.trim(),
-        type: 'checkbox' as const,
-        required: false
-      }));
-      
-      const template = {
-        name: name || 'Checklist Importado',
-        description: description || 'Importado via CSV',
-        category: parent_folder_id || 'geral',
-        items,
-        organizationId: user.organizationId,
-        isActive: true,
-        isDefault: false,
-        createdBy: user.id,
-        parentFolderId: parent_folder_id
-      };
+      const user = req.user!;
+      const { id } = req.params;
       
-      const created = await storage.createChecklistTemplate(template);
-      res.status(201).json(created);
-    } catch (error) {
-      res.status(500).json({ message: (error as Error).message });
-    }
-  });
-  
-  // Generate checklist with AI
-  app.post('/api/checklist-templates/ai-generator', requireAuth, async (req, res) => {
-    try {
-      const { user } = req;
-      if (!user?.organizationId) {
-        return res.status(403).json({ message: 'Usuário sem organização' });
+      if (!(await canAccessOrganization(user, id))) {
+        return res.status(403).json({ message: "Sem permissão para alterar esta organização" });
       }
       
-      const { prompt, category, name, parent_folder_id } = req.body;
+      const { requireTwoFactor } = organizationSecuritySchema.parse(req.body);
+      const organization = await storage.updateOrganization(id, { requireTwoFactor });
       
-      // Generate checklist items based on prompt
-      // For now, return a template response
-      const template = {
-        name: name || 'Checklist Gerado por IA',
-        description: `Gerado com IA: ${prompt}`,
-        category: parent_folder_id || category || 'geral',
-        items: [
-          { id: '1', text: 'Item gerado 1', type: 'checkbox' as const, required: true },
-          { id: '2', text: 'Item gerado 2', type: 'checkbox' as const, required: false },
-          { id: '3', text: 'Item gerado 3', type: 'checkbox' as const, required: false }
-        ],
-        organizationId: user.organizationId,
-        isActive: true,
-        isDefault: false,
-        createdBy: user.id,
-        parentFolderId: parent_folder_id
-      };
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: id,
+        action: 'update_security_policy',
+        entityType: 'organization',
+        entityId: id,
+        details: { requireTwoFactor }
+      });
       
-      const created = await storage.createChecklistTemplate(template);
-      res.status(201).json(created);
+      res.json(organization);
     } catch (error) {
-      res.status(500).json({ message: (error as Error).message });
+      res.status(400).json({ message: (error as Error).message });
     }
   });
 
-  // Checklist Templates routes
-  app.get('/api/checklist-templates', requireAuth, async (req, res) => {
+  app.put('/api/organizations/:id/escalation-policy', requireAuth, requirePermission('organization:update'), async (req, res) => {
     try {
-      const { user } = req;
-      const { category } = req.query;
+      const user = req.user!;
+      const { id } = req.params;
       
-      let templates;
-      if (category && typeof category === 'string') {
-        templates = await storage.getChecklistTemplatesByCategory(user?.organizationId || 'master-org-id', category);
-      } else {
-        templates = await storage.getChecklistTemplatesByOrganization(user?.organizationId || 'master-org-id');
+      if (!(await canAccessOrganization(user, id))) {
+        return res.status(403).json({ message: "Sem permissão para alterar esta organização" });
       }
       
-      // Transform templates to include folder metadata
-      const transformedTemplates = templates.map(template => {
-        if (template.category === '__folder__' && template.description) {
-          try {
-            const metadata = JSON.parse(template.description);
-            return {
-              ...template,
-              is_category_folder: true,
-              folder_icon: metadata.folder_icon || 'folder',
-              folder_color: metadata.folder_color || 'blue',
-              parent_folder_id: metadata.parent_folder_id || null,
-              description: metadata.user_description || '',
-              fields_count: 0,
-              created_at: template.createdAt,
-              updated_at: template.updatedAt
-            };
-          } catch (e) {
-            console.error('Error parsing folder metadata:', e);
-          }
-        }
-        return {
-          ...template,
-          is_category_folder: false,
-          fields_count: template.items?.length || 0,
-          created_at: template.createdAt,
-          updated_at: template.updatedAt
-        };
+      const { steps } = escalationPolicySchema.parse(req.body);
+      const escalationPolicy = [...steps].sort((a, b) => a.days - b.days);
+      const organization = await storage.updateOrganization(id, { escalationPolicy });
+      
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: id,
+        action: 'update_escalation_policy',
+        entityType: 'organization',
+        entityId: id,
+        details: { steps: escalationPolicy }
       });
       
-      res.json(transformedTemplates);
+      res.json(organization);
     } catch (error) {
-      res.status(500).json({ message: (error as Error).message });
+      res.status(400).json({ message: (error as Error).message });
     }
   });
 
-  app.get('/api/checklist-templates/:id', requireAuth, async (req, res) => {
+  app.put('/api/organizations/:id/geofence', requireAuth, requirePermission('organization:update'), async (req, res) => {
     try {
-      const { user } = req;
-      const template = await storage.getChecklistTemplate(req.params.id);
+      const user = req.user!;
+      const { id } = req.params;
       
-      if (!template) {
-        return res.status(404).json({ message: "Template não encontrado" });
+      if (!(await canAccessOrganization(user, id))) {
+        return res.status(403).json({ message: "Sem permissão para alterar esta organização" });
       }
       
-      if (!canAccessOrganization(user, template.organizationId)) {
-        return res.status(403).json({ message: "Sem permissão para acessar este template" });
+      const parsed = geofencePolicySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
       }
+      const organization = await storage.updateOrganization(id, { geofenceRadiusMeters: parsed.data.radiusMeters });
       
-      res.json(template);
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: id,
+        action: 'update_geofence_radius',
+        entityType: 'organization',
+        entityId: id,
+        details: { radiusMeters: parsed.data.radiusMeters }
+      });
+      
+      res.json(organization);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.put('/api/checklist-templates/:id', requireAuth, async (req, res) => {
+  // Organization SSO configuration
+  // Never send the client secret back to the browser
+  const toSsoConfigResponse = async (config: SsoConfig) => ({
+    ...config,
+    clientSecret: undefined,
+    hasClientSecret: !!config.clientSecret,
+    domainClaims: (await storage.getSsoDomains(config.organizationId)).map(toSsoDomainClaim)
+  });
+
+  app.get('/api/organizations/:id/sso', requireAuth, requirePermission('organization:update'), async (req, res) => {
     try {
       const { user } = req;
       const { id } = req.params;
       
-      const template = await storage.getChecklistTemplate(id);
-      if (!template) {
-        return res.status(404).json({ message: "Template não encontrado" });
+      if (!user || !(await canAccessOrganization(user, id))) {
+        return res.status(403).json({ message: "Sem permissão para configurar SSO desta organização" });
       }
       
-      if (!canAccessOrganization(user, template.organizationId)) {
-        return res.status(403).json({ message: "Sem permissão para editar este template" });
+      const config = await storage.getSsoConfigByOrganization(id);
+      if (!config) {
+        return res.json(null);
       }
       
-      const updated = await storage.updateChecklistTemplate(id, {
-        name: req.body.name,
-        description: req.body.description,
-        category: req.body.category,
-        items: req.body.items,
-        isPublic: (req.body as any).is_public ?? req.body.isPublic
-      });
-      
-      res.json(updated);
+      res.json(await toSsoConfigResponse(config));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.post('/api/checklist-templates', requireAuth, async (req, res) => {
+  app.put('/api/organizations/:id/sso', requireAuth, requirePermission('organization:update'), async (req, res) => {
     try {
       const { user } = req;
+      const { id } = req.params;
       
-      if (!hasPermission(user, 'create_inspection')) {
-        return res.status(403).json({ message: "Sem permissão para criar templates" });
+      if (!user || !(await canAccessOrganization(user, id))) {
+        return res.status(403).json({ message: "Sem permissão para configurar SSO desta organização" });
       }
       
-      const templateData = createChecklistTemplateSchema.parse({
+      const organization = await storage.getOrganization(id);
+      if (!organization) {
+        return res.status(404).json({ message: "Organização não encontrada" });
+      }
+      if (organization.plan !== 'enterprise') {
+        return res.status(403).json({ message: "SSO disponível apenas no plano Enterprise" });
+      }
+      
+      const existing = await storage.getSsoConfigByOrganization(id);
+      const configData = insertSsoConfigSchema.parse({
         ...req.body,
-        organizationId: user.organizationId,
-        createdBy: user.id
+        organizationId: id,
+        // Keep the stored secret when the form leaves it blank
+        clientSecret: req.body.clientSecret || existing?.clientSecret || null
       });
       
-      const template = await storage.createChecklistTemplate(templateData);
+      if (configData.isEnabled && (!configData.issuerUrl || !configData.clientId)) {
+        return res.status(400).json({ message: "Issuer e Client ID são obrigatórios para OIDC" });
+      }
+      
+      await syncSsoDomains(id, configData.domains);
+      const config = await storage.upsertSsoConfig(configData);
+      invalidateSsoConfigCache(id);
       
-      // Log activity
       await storage.createActivityLog({
         userId: user.id,
-        organizationId: user.organizationId!,
-        action: 'create_checklist_template',
-        entityType: 'checklist_template',
-        entityId: template.id,
-        details: { name: template.name, category: template.category }
+        organizationId: id,
+        action: 'update_sso_config',
+        entityType: 'organization',
+        entityId: id,
+        details: { protocol: config.protocol, isEnabled: config.isEnabled, domains: config.domains }
       });
       
-      res.status(201).json(template);
+      res.json(await toSsoConfigResponse(config));
     } catch (error) {
       res.status(400).json({ message: (error as Error).message });
     }
   });
 
-  app.put('/api/checklist-templates/:id', requireAuth, async (req, res) => {
+  // Checks the domain's DNS TXT record; until then its users are not sent to the IdP
+  app.post('/api/organizations/:id/sso/domains/:domain/verify', requireAuth, requirePermission('organization:update'), async (req, res) => {
     try {
       const { user } = req;
-      const template = await storage.getChecklistTemplate(req.params.id);
+      const { id, domain } = req.params;
       
-      if (!template) {
-        return res.status(404).json({ message: "Template não encontrado" });
+      if (!user || !(await canAccessOrganization(user, id))) {
+        return res.status(403).json({ message: "Sem permissão para configurar SSO desta organização" });
       }
       
-      if (!canAccessOrganization(user, template.organizationId)) {
-        return res.status(403).json({ message: "Sem permissão para editar este template" });
+      const claim = await storage.getSsoDomain(domain);
+      if (!claim || claim.organizationId !== id) {
+        return res.status(404).json({ message: "Domínio não encontrado" });
       }
       
-      const updates = createChecklistTemplateSchema.partial().parse(req.body);
-      const updatedTemplate = await storage.updateChecklistTemplate(req.params.id, updates);
+      let verified;
+      try {
+        verified = await verifySsoDomain(claim);
+      } catch (error) {
+        return res.status(400).json({ message: (error as Error).message });
+      }
       
-      // Log activity
-      await storage.createActivityLog({
-        userId: user.id,
-        organizationId: user.organizationId!,
-        action: 'update_checklist_template',
-        entityType: 'checklist_template',
-        entityId: template.id,
-        details: { name: template.name }
-      });
+      if (!claim.verifiedAt) {
+        await storage.createActivityLog({
+          userId: user.id,
+          organizationId: id,
+          action: 'verify_sso_domain',
+          entityType: 'organization',
+          entityId: id,
+          details: { domain: claim.domain }
+        });
+      }
       
-      res.json(updatedTemplate);
+      res.json(toSsoDomainClaim(verified));
     } catch (error) {
-      res.status(400).json({ message: (error as Error).message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.delete('/api/checklist-templates/:id', requireAuth, async (req, res) => {
+  // CNPJ registry lookup, cached and with provider fallback (see services/cnpj.ts)
+  app.get('/api/cnpj/:cnpj', requireAuth, requirePermission('company:create', 'company:update', 'organization:create'), async (req, res) => {
     try {
-      const { user } = req;
-      const template = await storage.getChecklistTemplate(req.params.id);
-      
-      if (!template) {
-        return res.status(404).json({ message: "Template não encontrado" });
+      const cnpjError = getCnpjError(req.params.cnpj);
+      if (cnpjError) {
+        return res.status(400).json({ message: cnpjError });
       }
       
-      if (!canAccessOrganization(user, template.organizationId) || !hasPermission(user, 'manage_organization')) {
-        return res.status(403).json({ message: "Sem permissão para excluir este template" });
+      const result = await lookupCnpj(req.params.cnpj);
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      if (!result.company) {
+        return res.status(404).json({ message: "CNPJ não encontrado na Receita Federal" });
       }
       
-      await storage.deleteChecklistTemplate(req.params.id);
-      
-      // Log activity
-      await storage.createActivityLog({
-        userId: user.id,
-        organizationId: user.organizationId!,
-        action: 'delete_checklist_template',
-        entityType: 'checklist_template',
-        entityId: template.id,
-        details: { name: template.name }
-      });
-      
-      res.status(204).send();
+      res.json({ ...result.company, fields: cnpjCompanyToFields(result.company) });
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Reports routes
-  app.get('/api/reports/inspection/:id', requireAuth, async (req, res) => {
+  // Address lookups, proxied and cached by the server (see services/address.ts),
+  // for whoever fills in a company, location or inspection address
+  const ADDRESS_LOOKUP_PERMISSIONS: [Permission, ...Permission[]] =
+    ['company:create', 'company:update', 'inspection:create', 'inspection:update'];
+  app.get('/api/address/cep/:cep', requireAuth, requirePermission(...ADDRESS_LOOKUP_PERMISSIONS), async (req, res) => {
     try {
-      const { user } = req;
-      const { id } = req.params;
-      
-      const inspection = await storage.getInspection(id);
-      if (!inspection) {
-        return res.status(404).json({ message: "Inspeção não encontrada" });
+      const result = await lookupCep(req.params.cep);
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      if (!result.address) {
+        return res.status(404).json({ message: "CEP não encontrado" });
       }
       
-      if (!canAccessOrganization(user, inspection.organizationId)) {
-        return res.status(403).json({ message: "Sem permissão para acessar este relatório" });
+      res.json({ ...result.address, fields: postalAddressToFields(result.address) });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post('/api/address/geocode', requireAuth, requirePermission(...ADDRESS_LOOKUP_PERMISSIONS), async (req, res) => {
+    try {
+      const parsed = geocodeAddressSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
       }
       
-      const actionPlans = await storage.getActionPlansByInspection(id);
-      const report = generateInspectionReport(inspection, actionPlans);
+      const result = await geocodeAddress(parsed.data);
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      if (!result.point) {
+        return res.status(404).json({ message: "Endereço não localizado" });
+      }
       
-      res.json(report);
+      res.json(result.point);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  app.get('/api/reports/compliance', requireAuth, async (req, res) => {
+  // Companies routes
+  app.get('/api/companies', requireAuth, requirePermission('company:view'), async (req, res) => {
     try {
       const { user } = req;
       const { organizationId } = req.query;
       
-      const targetOrgId = organizationId as string || user.organizationId!;
+      const targetOrgId = organizationId as string || user?.organizationId || 'master-org-id';
       
-      if (!canAccessOrganization(user, targetOrgId)) {
-        return res.status(403).json({ message: "Sem permissão para acessar este relatório" });
+      if (!user || !(await canAccessOrganization(user, targetOrgId))) {
+        return res.status(403).json({ message: "Sem permissão para acessar empresas desta organização" });
       }
       
-      const organization = await storage.getOrganization(targetOrgId);
-      const inspections = await storage.getInspectionsByOrganization(targetOrgId);
-      const actionPlans = await storage.getActionPlansByOrganization(targetOrgId);
-      
-      const metrics = calculateComplianceMetrics(inspections, actionPlans);
-      
-      const report = generateComplianceReport(organization, {
-        inspections,
-        actionPlans,
-        stats: {
-          ...metrics,
-          periodStart: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // 30 days ago
-          periodEnd: new Date(),
-          complianceTrend: "stable" // This would be calculated from historical data
-        }
-      });
-      
-      res.json(report);
+      const companies = await storage.getCompaniesByOrganization(targetOrgId);
+      res.json(companies);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Activity logs
-  app.get('/api/activity-logs', requireAuth, async (req, res) => {
+  app.get('/api/companies/:id', requireAuth, requirePermission('company:view'), async (req, res) => {
     try {
       const { user } = req;
-      const { organizationId, limit } = req.query;
-      
-      const targetOrgId = organizationId as string || user.organizationId!;
+      const { id } = req.params;
       
-      if (!canAccessOrganization(user, targetOrgId)) {
-        return res.status(403).json({ message: "Sem permissão para acessar logs desta organização" });
+      const company = await storage.getCompany(id);
+      if (!company) {
+        return res.status(404).json({ message: "Empresa não encontrada" });
       }
       
-      const logs = await storage.getActivityLogsByOrganization(
-        targetOrgId, 
-        limit ? parseInt(limit as string) : undefined
-      );
+      if (!user || !(await canAccessOrganization(user, company.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para acessar esta empresa" });
+      }
       
-      res.json(logs);
+      res.json(company);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // AI Chatbot route
-  app.post('/api/ai/chatbot', requireAuth, async (req, res) => {
+  app.post('/api/companies', requireAuth, requirePermission('company:create'), async (req, res) => {
     try {
-      const { simpleAI } = await import('./services/simple-ai');
-      const { message } = req.body;
-      const response = await simpleAI.chatResponse(message);
+      const { user } = req;
       
-      res.json({ response });
+      const targetOrganizationId = req.body.organizationId || user.organizationId;
+      if (!(await canAccessOrganization(user, targetOrganizationId))) {
+        return res.status(403).json({ message: "Sem permissão para criar empresas nesta organização" });
+      }
+      
+      const cnpjError = req.body.cnpj ? getCnpjError(req.body.cnpj) : null;
+      if (cnpjError) {
+        return res.status(400).json({ message: cnpjError });
+      }
+      
+      const companyData = {
+        ...(await prepareAddressUpdate(req.body, undefined, { geocode: false })),
+        cnpj: req.body.cnpj ? formatCnpj(req.body.cnpj) : null,
+        organizationId: targetOrganizationId,
+        createdBy: user.id
+      };
+      
+      const company = await storage.createCompany(companyData);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: company.organizationId,
+        action: 'create_company',
+        entityType: 'company',
+        entityId: company.id,
+        details: { name: company.name, cnpj: company.cnpj }
+      });
+      
+      res.status(201).json(company);
     } catch (error) {
-      console.error('Chatbot error:', error);
-      res.status(500).json({ message: "Erro ao processar mensagem" });
+      res.status(400).json({ message: (error as Error).message });
     }
   });
 
-  // AI-powered checklist generation
-  app.post('/api/checklist-templates/generate-ai', requireAuth, async (req, res) => {
+  app.put('/api/companies/:id', requireAuth, requirePermission('company:update'), async (req, res) => {
     try {
-      if (!openai) {
-        return res.status(503).json({ message: "Serviço de IA não disponível" });
-      }
-      
       const { user } = req;
-      const { 
-        industry, location_type, template_name, category,
-        num_questions, specific_requirements, assistant
-      } = req.body;
+      const { id } = req.params;
       
-      // Generate checklist using selected assistant
-      let prompt = `Crie um checklist de inspeção de segurança do trabalho com ${num_questions} perguntas para:
-      - Indústria: ${industry}
-      - Tipo de Local: ${location_type}
-      - Requisitos específicos: ${specific_requirements || 'Nenhum'}
+      const company = await storage.getCompany(id);
+      if (!company) {
+        return res.status(404).json({ message: "Empresa não encontrada" });
+      }
       
-      O checklist deve ser detalhado e seguir as melhores práticas de SST.
-      Retorne como JSON com formato: { items: [{ type: string, label: string, description: string, required: boolean, options?: string[] }] }`;
+      if (!user || !(await canAccessOrganization(user, company.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para editar esta empresa" });
+      }
       
-      // Use assistant if specified and available
-      let aiResponse;
-      if (assistant && assistant !== 'GENERAL' && assistantsService) {
-        const result = await assistantsService.analyzeWithAssistant(assistant, prompt);
-        aiResponse = result.analysis;
-      } else {
-        // Use regular OpenAI completion
-        const completion = await openai.chat.completions.create({
-          model: "gpt-4o-mini",
-          messages: [{ role: "user", content: prompt }],
-          response_format: { type: "json_object" }
-        });
-        aiResponse = completion.choices[0].message.content;
+      const cnpjError = req.body.cnpj ? getCnpjError(req.body.cnpj) : null;
+      if (cnpjError) {
+        return res.status(400).json({ message: cnpjError });
       }
       
-      const checklistData = JSON.parse(aiResponse || '{}');
+      const updates = await prepareAddressUpdate(req.body, company, { geocode: false });
+      if (updates.cnpj) updates.cnpj = formatCnpj(updates.cnpj);
+      const updated = await storage.updateCompany(id, updates);
       
-      // Save to database
-      const template = await storage.createChecklistTemplate({
-        name: template_name,
-        category,
-        organizationId: user.organizationId!,
-        items: checklistData.items || checklistData,
-        tags: [industry, location_type],
-        createdBy: user.id
+      // Log activity
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: company.organizationId,
+        action: 'update_company',
+        entityType: 'company',
+        entityId: id,
+        details: { changes: updates }
       });
       
-      res.json(template);
+      res.json(updated);
     } catch (error) {
-      console.error('AI generation error:', error);
-      res.status(500).json({ message: "Erro ao gerar checklist com IA" });
+      res.status(400).json({ message: (error as Error).message });
     }
   });
 
-  // Generate CSV from AI prompt
-  app.post('/api/checklist-templates/generate-from-prompt', requireAuth, async (req, res) => {
+  app.delete('/api/companies/:id', requireAuth, requirePermission('company:delete'), async (req, res) => {
     try {
-      if (!openai) {
-        return res.status(503).json({ message: "Serviço de IA não disponível" });
+      const { user } = req;
+      const { id } = req.params;
+      
+      const company = await storage.getCompany(id);
+      if (!company) {
+        return res.status(404).json({ message: "Empresa não encontrada" });
       }
       
-      const { prompt } = req.body;
+      if (!user || !(await canAccessOrganization(user, company.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para excluir esta empresa" });
+      }
       
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [{
-          role: "user",
-          content: `${prompt}
-          
-          Gere um CSV para este checklist com as seguintes colunas:
-          campo,tipo,obrigatorio,opcoes,descricao
-          
-          Tipos disponíveis: text, textarea, select, multiselect, checkbox, radio, boolean, date, time, datetime, number, rating, file, signature, location
-          
-          Para campos com opções (select, radio, multiselect), separe as opções com pipe (|).
-          
-          IMPORTANTE: Retorne APENAS o conteúdo CSV puro, sem markdown, sem explicações e sem formatação adicional.`
-        }]
+      await storage.deleteCompany(id);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: company.organizationId,
+        action: 'delete_company',
+        entityType: 'company',
+        entityId: id,
+        details: { name: company.name }
       });
       
-      const csv = completion.choices[0]?.message?.content || '';
+      res.json({ message: "Empresa excluída com sucesso" });
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+
+  // Spreadsheet import of companies and locations: a dry run, then a
+  // background job whose progress the client polls
+  app.post('/api/company-imports/preview', requireAuth, requirePermission('company:create'), async (req, res) => {
+    try {
+      const { user } = req;
+      const parsed = companyImportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
+      }
       
-      // Clean up any markdown formatting
-      let cleanCsv = csv;
-      if (cleanCsv.includes('```')) {
-        cleanCsv = cleanCsv.replace(/```csv\n?/g, '').replace(/```/g, '');
+      const organizationId = parsed.data.organizationId || user.organizationId;
+      if (!(await canAccessOrganization(user, organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para importar empresas nesta organização" });
+      }
+      if (parsed.data.existingCompanies === "update" && !hasPermission(user, 'company:update', req.permissions)) {
+        return res.status(403).json({ message: "Sem permissão para atualizar empresas já cadastradas" });
       }
       
-      res.json({ csv: cleanCsv.trim() });
+      res.json(await previewCompanyImport(organizationId, user.id, parsed.data));
     } catch (error) {
-      console.error('CSV generation error:', error);
-      res.status(500).json({ message: "Erro ao gerar CSV" });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Import CSV checklist
-  app.post('/api/checklist-templates/import-csv', requireAuth, async (req, res) => {
+  app.post('/api/company-imports', requireAuth, requirePermission('company:create'), async (req, res) => {
     try {
       const { user } = req;
-      const { name, category, csvData, fields } = req.body;
-      
-      // Convert fields to template format
-      const items = fields.map((field: any) => ({
-        type: field.type,
-        label: field.name || field.label,
-        description: field.description,
-        required: field.required || false,
-        options: field.options,
-        order: field.order
-      }));
+      const parsed = companyImportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
+      }
       
-      const template = await storage.createChecklistTemplate({
-        name,
-        category,
-        organizationId: user.organizationId!,
-        items,
-        createdBy: user.id
-      });
+      const organizationId = parsed.data.organizationId || user.organizationId;
+      if (!(await canAccessOrganization(user, organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para importar empresas nesta organização" });
+      }
+      if (parsed.data.existingCompanies === "update" && !hasPermission(user, 'company:update', req.permissions)) {
+        return res.status(403).json({ message: "Sem permissão para atualizar empresas já cadastradas" });
+      }
       
-      res.json(template);
+      const job = await queueCompanyImport(organizationId, user.id, parsed.data);
+      res.status(202).json(toCompanyImportView(job));
     } catch (error) {
-      console.error('CSV import error:', error);
-      res.status(500).json({ message: "Erro ao importar CSV" });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Manual checklist creation
-  app.post('/api/checklist-templates', requireAuth, async (req, res) => {
+  app.get('/api/company-imports/:id', requireAuth, requirePermission('company:create'), async (req, res) => {
+    try {
+      const job = await storage.getCompanyImport(req.params.id);
+      if (!job || !(await canAccessOrganization(req.user, job.organizationId))) {
+        return res.status(404).json({ message: "Importação não encontrada" });
+      }
+      res.json(toCompanyImportView(job));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get('/api/company-imports/:id/errors.csv', requireAuth, requirePermission('company:create'), async (req, res) => {
+    try {
+      const job = await storage.getCompanyImport(req.params.id);
+      if (!job || !(await canAccessOrganization(req.user, job.organizationId))) {
+        return res.status(404).json({ message: "Importação não encontrada" });
+      }
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="erros-importacao-${job.id}.csv"`);
+      res.send(buildImportErrorReport(job));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Company Locations routes
+  app.get('/api/companies/:companyId/locations', requireAuth, requirePermission('company:view'), async (req, res) => {
     try {
       const { user } = req;
-      const { name, description, category, fields, tags } = req.body;
+      const { companyId } = req.params;
+      
+      const company = await storage.getCompany(companyId);
+      if (!company) {
+        return res.status(404).json({ message: "Empresa não encontrada" });
+      }
+      
+      if (!user || !(await canAccessOrganization(user, company.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para acessar locais desta empresa" });
+      }
+      
+      const locations = await storage.getCompanyLocationsByCompany(companyId);
+      res.json(locations);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post('/api/companies/:companyId/locations', requireAuth, requirePermission('company:update'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { companyId } = req.params;
+      
+      const company = await storage.getCompany(companyId);
+      if (!company) {
+        return res.status(404).json({ message: "Empresa não encontrada" });
+      }
+      
+      if (!user || !(await canAccessOrganization(user, company.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para cadastrar locais" });
+      }
+      
+      const { qrToken, ...body } = req.body;
+      const referenceError = await getAssetReferenceError(company, { checklistTemplateId: body.checklistTemplateId });
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+      
+      const locationData = {
+        ...(await prepareAddressUpdate(body, undefined, { geocode: true })),
+        companyId,
+        createdBy: user.id
+      };
+      
+      const location = await storage.createCompanyLocation(locationData);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: company.organizationId,
+        action: 'create_location',
+        entityType: 'location',
+        entityId: location.id,
+        details: { name: location.name, type: location.type }
+      });
+      
+      res.status(201).json(location);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+
+  app.put('/api/companies/locations/:id', requireAuth, requirePermission('company:update'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { id } = req.params;
+      
+      const location = await storage.getCompanyLocation(id);
+      if (!location) {
+        return res.status(404).json({ message: "Local não encontrado" });
+      }
+      
+      const company = await storage.getCompany(location.companyId);
+      if (!company) {
+        return res.status(404).json({ message: "Empresa não encontrada" });
+      }
+      
+      if (!user || !(await canAccessOrganization(user, company.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para editar este local" });
+      }
+      
+      // The QR token is printed on labels and never changes
+      const { qrToken, ...body } = req.body;
+      const referenceError = await getAssetReferenceError(company, { checklistTemplateId: body.checklistTemplateId });
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+      
+      const updates = await prepareAddressUpdate(body, location, { geocode: true });
+      const updated = await storage.updateCompanyLocation(id, updates);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: company.organizationId,
+        action: 'update_location',
+        entityType: 'location',
+        entityId: id,
+        details: { changes: updates }
+      });
+      
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+
+  app.delete('/api/companies/locations/:id', requireAuth, requirePermission('company:update'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { id } = req.params;
+      
+      const location = await storage.getCompanyLocation(id);
+      if (!location) {
+        return res.status(404).json({ message: "Local não encontrado" });
+      }
+      
+      const company = await storage.getCompany(location.companyId);
+      if (!company) {
+        return res.status(404).json({ message: "Empresa não encontrada" });
+      }
+      
+      if (!user || !(await canAccessOrganization(user, company.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para excluir este local" });
+      }
+      
+      await storage.deleteCompanyLocation(id);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: company.organizationId,
+        action: 'delete_location',
+        entityType: 'location',
+        entityId: id,
+        details: { name: location.name }
+      });
+      
+      res.json({ message: "Local excluído com sucesso" });
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+
+  // Equipment assets of a company, each with its own QR label
+  app.get('/api/companies/:companyId/equipment', requireAuth, requirePermission('company:view'), async (req, res) => {
+    try {
+      const company = await storage.getCompany(req.params.companyId);
+      if (!company || !(await canAccessOrganization(req.user!, company.organizationId))) {
+        return res.status(404).json({ message: "Empresa não encontrada" });
+      }
+      
+      res.json(await storage.getEquipmentByCompany(company.id));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post('/api/companies/:companyId/equipment', requireAuth, requirePermission('company:update'), async (req, res) => {
+    try {
+      const { user } = req;
+      const company = await storage.getCompany(req.params.companyId);
+      if (!company || !(await canAccessOrganization(user!, company.organizationId))) {
+        return res.status(404).json({ message: "Empresa não encontrada" });
+      }
+      
+      const parsed = equipmentInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
+      }
+      const referenceError = await getAssetReferenceError(company, parsed.data);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+      
+      const item = await storage.createEquipment({
+        ...parsed.data,
+        organizationId: company.organizationId,
+        companyId: company.id,
+        createdBy: user!.id
+      });
+      
+      await storage.createActivityLog({
+        userId: user!.id,
+        organizationId: company.organizationId,
+        action: 'create_equipment',
+        entityType: 'equipment',
+        entityId: item.id,
+        details: { name: item.name, tag: item.tag }
+      });
+      
+      res.status(201).json(item);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.put('/api/equipment/:id', requireAuth, requirePermission('company:update'), async (req, res) => {
+    try {
+      const { user } = req;
+      const item = await storage.getEquipment(req.params.id);
+      const company = item && item.isActive !== false ? await storage.getCompany(item.companyId) : undefined;
+      if (!item || !company || !(await canAccessOrganization(user!, company.organizationId))) {
+        return res.status(404).json({ message: "Equipamento não encontrado" });
+      }
+      
+      const parsed = equipmentInputSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
+      }
+      const referenceError = await getAssetReferenceError(company, parsed.data);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+      
+      const updated = await storage.updateEquipment(item.id, parsed.data);
+      
+      await storage.createActivityLog({
+        userId: user!.id,
+        organizationId: company.organizationId,
+        action: 'update_equipment',
+        entityType: 'equipment',
+        entityId: item.id,
+        details: { changes: parsed.data }
+      });
+      
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.delete('/api/equipment/:id', requireAuth, requirePermission('company:update'), async (req, res) => {
+    try {
+      const { user } = req;
+      const item = await storage.getEquipment(req.params.id);
+      const company = item && item.isActive !== false ? await storage.getCompany(item.companyId) : undefined;
+      if (!item || !company || !(await canAccessOrganization(user!, company.organizationId))) {
+        return res.status(404).json({ message: "Equipamento não encontrado" });
+      }
+      
+      await storage.deleteEquipment(item.id);
+      
+      await storage.createActivityLog({
+        userId: user!.id,
+        organizationId: company.organizationId,
+        action: 'delete_equipment',
+        entityType: 'equipment',
+        entityId: item.id,
+        details: { name: item.name }
+      });
+      
+      res.json({ message: "Equipamento excluído com sucesso" });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Printable sheet of QR labels. ?locations= and ?equipment= take
+  // comma-separated ids; without either every site and equipment is printed
+  app.get('/api/companies/:companyId/qr-labels', requireAuth, requirePermission('company:view'), async (req, res) => {
+    try {
+      const company = await storage.getCompany(req.params.companyId);
+      if (!company || !(await canAccessOrganization(req.user!, company.organizationId))) {
+        return res.status(404).json({ message: "Empresa não encontrada" });
+      }
+      
+      const parseIds = (value: unknown) => typeof value === 'string' && value ? new Set(value.split(',')) : null;
+      const locationIds = parseIds(req.query.locations);
+      const equipmentIds = parseIds(req.query.equipment);
+      const selectAll = !locationIds && !equipmentIds;
+      
+      const [locations, items] = await Promise.all([
+        storage.getCompanyLocationsByCompany(company.id),
+        storage.getEquipmentByCompany(company.id)
+      ]);
+      const labels = await buildQrLabels(
+        company,
+        locations.filter(location => selectAll || locationIds?.has(location.id)),
+        items.filter(item => selectAll || equipmentIds?.has(item.id))
+      );
+      if (labels.length === 0) {
+        return res.status(400).json({ message: "Nenhum local ou equipamento selecionado" });
+      }
+      
+      const document = await exportToPDF(labels, "qr_labels");
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      res.setHeader("Content-Disposition", `inline; filename="etiquetas-qr-${company.id}.html"`);
+      res.send(document);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Landing page of a scanned QR label. Public: the label hangs on the wall,
+  // so it only shows the asset and the dates and scores of its inspections
+  app.get('/api/scan/:token', systemContext, async (req, res) => {
+    try {
+      const asset = await resolveQrToken(req.params.token);
+      if (!asset) {
+        return res.status(404).json({ message: "QR Code não encontrado" });
+      }
+      
+      res.json(await getScannedAssetSummary(asset));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post('/api/scan/:token/inspections', requireAuth, requirePermission('inspection:create'), async (req, res) => {
+    try {
+      const { user } = req;
+      const asset = await resolveQrToken(req.params.token);
+      if (!asset || !(await canAccessOrganization(user!, asset.company.organizationId))) {
+        return res.status(404).json({ message: "QR Code não encontrado" });
+      }
+      
+      const parsed = startScannedInspectionSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
+      }
+      
+      const result = await startInspectionFromScan(user!, asset, parsed.data.checklistTemplateId);
+      if ("error" in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      res.status(201).json(result);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Users routes
+  app.get('/api/users', requireAuth, requirePermission('user:view'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { organizationId } = req.query;
+      
+      if (!user) {
+        return res.status(401).json({ message: "Usuário não autenticado" });
+      }
+      
+      let users;
+      if (organizationId) {
+        if (!(await canAccessOrganization(user, organizationId as string))) {
+          return res.status(403).json({ message: "Sem permissão para acessar usuários desta organização" });
+        }
+        users = await storage.getUsersByOrganization(organizationId as string);
+      } else {
+        if (user.role === 'system_admin') {
+          users = await storage.getUsersByOrganization(user.organizationId!);
+        } else {
+          users = await storage.getUsersByOrganization(user.organizationId!);
+        }
+      }
+      
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.patch('/api/users/:id', requireAuth, requirePermission('user:update'), async (req, res) => {
+    try {
+      const user = req.user!;
+      const { id } = req.params;
+      
+      const target = await storage.getUser(id);
+      if (!target) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+      
+      if (!(await canAccessOrganization(user, target.organizationId!))) {
+        return res.status(403).json({ message: "Sem permissão para editar este usuário" });
+      }
+      if (target.role === 'system_admin' && user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Sem permissão para editar administradores do sistema" });
+      }
+      
+      const updates = updateUserAccessSchema.parse(req.body);
+      
+      if (updates.isActive === false && !req.permissions!.has('user:deactivate')) {
+        return res.status(403).json({ message: "Sem permissão para desativar usuários" });
+      }
+      if (updates.isActive === false && target.id === user.id) {
+        return res.status(400).json({ message: "Você não pode desativar sua própria conta" });
+      }
+      if ((updates.role !== undefined || updates.customRoleId !== undefined) && !req.permissions!.has('role:manage')) {
+        return res.status(403).json({ message: "Sem permissão para alterar perfis de acesso" });
+      }
+      if (updates.role !== undefined && (!canAssignRole(user.role, updates.role) || !canAssignRole(user.role, target.role))) {
+        return res.status(403).json({ message: "Você não pode atribuir um perfil acima do seu" });
+      }
+      if (updates.customRoleId) {
+        const customRole = await storage.getCustomRole(updates.customRoleId);
+        if (!customRole || customRole.organizationId !== target.organizationId) {
+          return res.status(400).json({ message: "Perfil personalizado inválido para esta organização" });
+        }
+      }
+      
+      const updated = await storage.updateUser(id, updates);
+      
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: target.organizationId!,
+        action: updates.isActive === false ? 'deactivate_user' : 'update_user',
+        entityType: 'user',
+        entityId: id,
+        details: { changes: updates }
+      });
+      
+      res.json(toPublicUser(updated));
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+
+  // Admin reset for users who lost their authenticator and recovery codes
+  app.post('/api/users/:id/2fa/reset', requireAuth, requirePermission('user:update'), async (req, res) => {
+    try {
+      const user = req.user!;
+      const { id } = req.params;
+      
+      const target = await storage.getUser(id);
+      if (!target) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+      if (!(await canAccessOrganization(user, target.organizationId!))) {
+        return res.status(403).json({ message: "Sem permissão para editar este usuário" });
+      }
+      if (target.role === 'system_admin' && user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Sem permissão para editar administradores do sistema" });
+      }
+      
+      const updated = await storage.updateUser(id, {
+        totpSecret: null,
+        totpEnabled: false,
+        totpLastUsedStep: null,
+        recoveryCodes: null,
+        totpFailedAttempts: 0,
+        totpLockedUntil: null
+      });
+      
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: target.organizationId!,
+        action: 'reset_two_factor',
+        entityType: 'user',
+        entityId: id,
+        details: { email: target.email }
+      });
+      
+      res.json(toPublicUser(updated));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Invitations routes
+  app.post('/api/invitations', requireAuth, requirePermission('user:invite'), async (req, res) => {
+    try {
+      const { user } = req;
+      
+      const inviteData = insertInvitationSchema.parse({
+        ...req.body,
+        invitedBy: user.id
+      }) as Pick<Invitation, "email" | "role" | "organizationId" | "invitedBy">;
+      
+      if (!(await canAccessOrganization(user, inviteData.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para convidar usuários nesta organização" });
+      }
+      if (!canAssignRole(user.role, inviteData.role)) {
+        return res.status(403).json({ message: "Você não pode convidar usuários com um perfil acima do seu" });
+      }
+      
+      const invitation = await storage.createInvitation(inviteData);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: invitation.organizationId,
+        action: 'invite_user',
+        entityType: 'invitation',
+        entityId: invitation.id,
+        details: { email: invitation.email, role: invitation.role }
+      });
+      
+      res.status(201).json(invitation);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get('/api/invitations/validate', systemContext, async (req, res) => {
+    try {
+      const invitation = await storage.getInvitationByToken(String(req.query.token || ''));
+      
+      if (!invitation || invitation.isAccepted || !isTokenValid(invitation.expiresAt)) {
+        return res.status(404).json({ message: "Convite inválido ou expirado" });
+      }
+      
+      const organization = await storage.getOrganization(invitation.organizationId);
+      const sso = await findSsoConfigForEmail(invitation.email);
+      
+      res.json({
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+        organization: organization ? { id: organization.id, name: organization.name } : null,
+        sso: sso
+          ? { enabled: true, loginUrl: `/api/auth/sso/${sso.organizationId}/login?email=${encodeURIComponent(invitation.email)}` }
+          : { enabled: false }
+      });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post('/api/invitations/accept', systemContext, async (req, res) => {
+    try {
+      const { token, userInfo } = acceptInviteSchema.parse(req.body);
+      
+      const invitation = await storage.getInvitationByToken(token);
+      if (!invitation) {
+        return res.status(404).json({ message: "Convite não encontrado" });
+      }
+      
+      if (invitation.isAccepted) {
+        return res.status(400).json({ message: "Convite já foi aceito" });
+      }
+      
+      if (!isTokenValid(invitation.expiresAt)) {
+        return res.status(400).json({ message: "Convite expirado" });
+      }
+      
+      // SSO domains are provisioned just-in-time on first login instead
+      if (await findSsoConfigForEmail(invitation.email)) {
+        return res.status(409).json({ message: "Esta organização usa login corporativo (SSO)" });
+      }
+      
+      if (await storage.getUserByEmail(userInfo.email)) {
+        return res.status(409).json({ message: "Já existe um usuário com este email" });
+      }
+      
+      // Create user
+      const created = await storage.createUser({
+        email: userInfo.email,
+        name: userInfo.name,
+        role: invitation.role,
+        organizationId: invitation.organizationId,
+        isActive: true
+      });
+      const user = await storage.updateUser(created.id, { 
+        passwordHash: await hashPassword(userInfo.password) 
+      });
+      
+      // Mark invitation as accepted
+      await storage.updateInvitation(invitation.id, { isAccepted: true });
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: user.organizationId!,
+        action: 'accept_invitation',
+        entityType: 'user',
+        entityId: user.id,
+        details: { email: user.email, role: user.role }
+      });
+      
+      await startSession(req, user.id);
+      
+      res.json({ user: toPublicUser(user), message: "Convite aceito com sucesso" });
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+
+  // Inspections routes
+
+  // Create inspection (COMPIA implementation) - Must be before GET route
+  app.post('/api/inspections', requireAuth, requirePermission('inspection:create'), async (req, res) => {
+    try {
+      const { user } = req;
+      
+      // Extract all data from request body
+      const {
+        title,
+        location, 
+        description,
+        checklistTemplateId,
+        scheduledAt,
+        organizationId,
+        priority,
+        companyName,
+        zipCode,
+        fullAddress,
+        latitude,
+        longitude,
+        technicianName,
+        technicianEmail,
+        companyResponsibleName,
+        aiAssistantId,
+        actionPlanType
+      } = req.body;
+      
+      if (!user) {
+        return res.status(401).json({ message: "Usuário não autenticado" });
+      }
+      
+      // Validate required fields manually
+      if (!title || !location) {
+        return res.status(400).json({ message: "Campos obrigatórios: title, location" });
+      }
+      
+      const targetOrganizationId = organizationId || user.organizationId || 'master-org-id';
+      if (!(await canAccessOrganization(user, targetOrganizationId))) {
+        return res.status(403).json({ message: "Sem permissão para criar inspeções nesta organização" });
+      }
+      
+      // Get the checklist template if provided and not "none"
+      let template = null;
+      if (checklistTemplateId && checklistTemplateId !== 'none') {
+        template = await storage.getChecklistTemplate(checklistTemplateId);
+        if (!template) {
+          return res.status(404).json({ message: "Template de checklist não encontrado" });
+        }
+      }
+      
+      // Process scheduledAt to ensure it's a Date
+      let processedScheduledAt = scheduledAt;
+      if (scheduledAt && typeof scheduledAt === 'string') {
+        processedScheduledAt = new Date(scheduledAt);
+      } else if (!scheduledAt) {
+        processedScheduledAt = new Date();
+      }
+      
+      // Create inspection data with all new fields
+      const inspectionData = {
+        title: String(title),
+        location: String(location),
+        description: description ? String(description) : null,
+        checklistTemplateId: (checklistTemplateId && checklistTemplateId !== 'none') ? String(checklistTemplateId) : null,
+        scheduledAt: processedScheduledAt,
+        status: 'draft' as const,
+        organizationId: targetOrganizationId,
+        inspectorId: user?.id || 'admin-id',
+        
+        // New fields
+        priority: priority || 'medium',
+        companyName: companyName || null,
+        zipCode: zipCode || null,
+        fullAddress: fullAddress || null,
+        latitude: latitude || null,
+        longitude: longitude || null,
+        technicianName: technicianName || user?.name || null,
+        technicianEmail: technicianEmail || user?.email || null,
+        companyResponsibleName: companyResponsibleName || null,
+        aiAssistantId: aiAssistantId || 'GENERAL',
+        actionPlanType: actionPlanType || '5W2H',
+        
+        // Initialize checklist from template if available
+        checklist: template ? template.items : []
+      };
+      
+      console.log('Route - User data:', { id: user?.id, organizationId: user?.organizationId });
+      console.log('Route - Inspection data before storage:', inspectionData);
+      
+      const inspection = await storage.createInspection(inspectionData);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: user?.id || 'admin-id',
+        organizationId: targetOrganizationId,
+        action: 'Inspeção criada',
+        entityType: 'inspection',
+        entityId: inspection.id,
+        details: { 
+          title, 
+          location,
+          companyName,
+          priority,
+          aiAssistantId,
+          hasTemplate: !!template
+        }
+      });
+      
+      await emitWebhookEvent(inspection.organizationId, 'inspection.created', inspection);
+      
+      res.status(201).json(inspection);
+    } catch (error) {
+      console.error('Route error:', error);
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get('/api/inspections/:id', requireAuth, requirePermission('inspection:view'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { id } = req.params;
+      
+      if (!user) {
+        return res.status(401).json({ message: "Usuário não autenticado" });
+      }
+      
+      const inspection = await storage.getInspection(id);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
+      
+      // Check permissions
+      if (!(await canAccessOrganization(user, inspection.organizationId)) && 
+          user.id !== inspection.inspectorId && 
+          user.role !== 'system_admin') {
+        return res.status(403).json({ message: "Sem permissão para acessar esta inspeção" });
+      }
+      
+      res.json(inspection);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get('/api/inspections', requireAuth, requirePermission('inspection:view'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { organizationId } = req.query;
+      
+      if (!user) {
+        return res.status(401).json({ message: "Usuário não autenticado" });
+      }
+      
+      let inspections;
+      if (organizationId && (await canAccessOrganization(user, organizationId as string))) {
+        inspections = await storage.getInspectionsByOrganization(organizationId as string);
+      } else if (user.role === 'inspector') {
+        inspections = await storage.getInspectionsByInspector(user.id);
+      } else {
+        inspections = await storage.getInspectionsByOrganization(user.organizationId!);
+      }
+      
+      // Filter by permissions
+      inspections = await filterByOrganizationAccess(user, inspections);
+      
+      res.json(inspections);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+
+  app.patch('/api/inspections/:id', requireAuth, requirePermission('inspection:update'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { id } = req.params;
+      
+      const inspection = await storage.getInspection(id);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
+      
+      if (!user || (!(await canAccessOrganization(user, inspection.organizationId)) && inspection.inspectorId !== user.id)) {
+        return res.status(403).json({ message: "Sem permissão para editar esta inspeção" });
+      }
+      
+      if (isInspectionLocked(inspection.status)) {
+        return res.status(409).json({ message: "Inspeção aprovada não pode ser alterada" });
+      }
+      
+      // Only these fields can be edited here: answers and score change through
+      // the responses/complete endpoints, status and review fields through the
+      // workflow endpoints, and ownership, tenant and checklist snapshot never
+      // come from the client. Anything else in the body is dropped.
+      const parsed = updateInspectionSchema
+        .pick({ title: true, description: true, location: true, findings: true, recommendations: true, status: true })
+        .safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
+      }
+      const updates = parsed.data;
+      
+      if (updates.status !== undefined && updates.status !== inspection.status) {
+        return res.status(400).json({
+          message: "O status só pode ser alterado pelas ações de iniciar, concluir, aprovar ou devolver a inspeção"
+        });
+      }
+      delete updates.status;
+      
+      // Newly referenced evidence must be a file uploaded to this inspection
+      if (Array.isArray(updates.findings)) {
+        const known = new Set(((inspection.findings ?? []) as InspectionFinding[]).flatMap(finding => finding.evidence ?? []));
+        const added = (updates.findings as InspectionFinding[]).flatMap(finding => finding.evidence ?? []).filter(id => !known.has(id));
+        const foreign = await findForeignEvidence(inspection.id, added);
+        if (foreign.length > 0) {
+          return res.status(400).json({ message: `Evidências não pertencem a esta inspeção: ${foreign.join(', ')}` });
+        }
+      }
+      
+      // If findings are provided, analyze with AI
+      if (updates.findings && updates.findings.length > 0) {
+        try {
+          const analysis = await analyzeInspectionFindings({
+            title: inspection.title,
+            location: inspection.location,
+            description: inspection.description || undefined,
+            checklist: inspection.checklist as any[],
+            findings: updates.findings
+          });
+          
+          updates.recommendations = analysis.summary;
+          (updates as any).aiAnalysis = JSON.stringify(analysis);
+        } catch (aiError) {
+          console.error("AI analysis failed:", aiError);
+          // Continue without AI analysis if it fails
+        }
+      }
+      
+      const signaturesBefore = await verifyInspectionSignatures(inspection);
+      const updatedInspection = await storage.updateInspection(id, updates);
+      await recordInvalidatedSignatures(user, signaturesBefore, updatedInspection);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: inspection.organizationId,
+        action: 'update_inspection',
+        entityType: 'inspection',
+        entityId: id,
+        details: { findingsCount: updates.findings?.length }
+      });
+      
+      res.json(updatedInspection);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post('/api/inspections/:id/clone', requireAuth, requirePermission('inspection:create'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { id } = req.params;
+      
+      const originalInspection = await storage.getInspection(id);
+      if (!originalInspection) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
+      
+      if (!user || !(await canAccessOrganization(user, originalInspection.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para clonar esta inspeção" });
+      }
+      
+      // Create cloned inspection with basic data only
+      const clonedData = {
+        title: `${originalInspection.title} (Cópia)`,
+        description: originalInspection.description,
+        location: originalInspection.location,
+        checklistTemplateId: originalInspection.checklistTemplateId,
+        organizationId: originalInspection.organizationId,
+        inspectorId: user.id,
+      };
+      
+      const clonedInspection = await storage.createInspection(clonedData);
+      
+      // Log activity
+      if (user) {
+        await storage.createActivityLog({
+          userId: user.id,
+          organizationId: originalInspection.organizationId,
+          action: 'clone_inspection',
+          entityType: 'inspection',
+          entityId: clonedInspection.id,
+          details: { originalId: id, title: clonedInspection.title }
+        });
+      }
+      
+      res.status(201).json(clonedInspection);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Verification visit for the non-conformities of a completed inspection
+  app.post('/api/inspections/:id/follow-up', requireAuth, requirePermission('inspection:create'), async (req, res) => {
+    try {
+      const user = req.user!;
+      const parsed = followUpInspectionSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
+      }
+      
+      const parent = await storage.getInspection(req.params.id);
+      if (!parent || !(await canAccessOrganization(user, parent.organizationId))) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
+      
+      const result = await createFollowUpInspection(user, parent, parsed.data);
+      if ('error' in result) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      
+      res.status(201).json(result);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get('/api/inspections/:id/follow-ups', requireAuth, requirePermission('inspection:view'), async (req, res) => {
+    try {
+      const inspection = await storage.getInspection(req.params.id);
+      if (!inspection || !(await canAccessOrganization(req.user!, inspection.organizationId))) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
+      
+      res.json(await storage.getFollowUpInspections(inspection.id));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Before/after of each re-checked item, with the action plans linked to it
+  app.get('/api/inspections/:id/follow-up-comparison', requireAuth, requirePermission('inspection:view'), async (req, res) => {
+    try {
+      const inspection = await storage.getInspection(req.params.id);
+      if (!inspection || !(await canAccessOrganization(req.user!, inspection.organizationId))) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
+      
+      const comparison = await getFollowUpComparison(inspection);
+      if (!comparison) {
+        return res.status(404).json({ message: "Esta inspeção não é uma verificação" });
+      }
+      
+      res.json(comparison);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.delete('/api/inspections/:id', requireAuth, requirePermission('inspection:delete'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { id } = req.params;
+      
+      const inspection = await storage.getInspection(id);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
+      
+      if (!user || !(await canAccessOrganization(user, inspection.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para excluir esta inspeção" });
+      }
+      
+      if (isInspectionLocked(inspection.status)) {
+        return res.status(409).json({ message: "Inspeção aprovada não pode ser excluída" });
+      }
+      
+      await storage.deleteInspection(id);
+      
+      // Log activity
+      if (user) {
+        await storage.createActivityLog({
+          userId: user.id,
+          organizationId: inspection.organizationId,
+          action: 'delete_inspection',
+          entityType: 'inspection',
+          entityId: id,
+          details: { title: inspection.title }
+        });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Recurring inspection schedules. The scheduler creates the draft
+  // inspections ahead of each occurrence (see services/inspection-scheduler)
+  app.get('/api/inspection-schedules', requireAuth, requirePermission('schedule:view'), async (req, res) => {
+    try {
+      const user = req.user!;
+      const targetOrgId = req.query.organizationId as string || user.organizationId!;
+      
+      if (!(await canAccessOrganization(user, targetOrgId))) {
+        return res.status(403).json({ message: "Sem permissão para acessar agendamentos desta organização" });
+      }
+      
+      const now = new Date();
+      const schedules = await storage.getInspectionSchedulesByOrganization(targetOrgId);
+      res.json(schedules.map(schedule => ({
+        ...schedule,
+        upcomingOccurrences: schedule.isActive
+          ? getUpcomingOccurrences(schedule.recurrence, schedule.startsAt, schedule.endsAt, now, 5)
+          : []
+      })));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post('/api/inspection-schedules', requireAuth, requirePermission('schedule:manage'), async (req, res) => {
+    try {
+      const user = req.user!;
+      const parsed = inspectionScheduleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
+      }
+      
+      const { organizationId = user.organizationId!, ...input } = parsed.data;
+      if (!(await canAccessOrganization(user, organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para criar agendamentos nesta organização" });
+      }
+      
+      const referenceError = await getScheduleReferenceError(organizationId, parsed.data);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+      
+      const schedule = await storage.createInspectionSchedule({
+        ...input,
+        locationId: input.locationId || null,
+        endsAt: input.endsAt ?? null,
+        organizationId,
+        nextOccurrenceAt: input.isActive ? getNextOccurrence(input.recurrence, input.startsAt, input.endsAt, new Date()) : null,
+        createdBy: user.id
+      } as any);
+      
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId,
+        action: 'create_inspection_schedule',
+        entityType: 'inspection_schedule',
+        entityId: schedule.id,
+        details: { name: schedule.name, recurrence: schedule.recurrence, nextOccurrenceAt: schedule.nextOccurrenceAt }
+      });
+      
+      res.status(201).json(schedule);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.put('/api/inspection-schedules/:id', requireAuth, requirePermission('schedule:manage'), async (req, res) => {
+    try {
+      const user = req.user!;
+      const schedule = await storage.getInspectionSchedule(req.params.id);
+      if (!schedule || !(await canAccessOrganization(user, schedule.organizationId))) {
+        return res.status(404).json({ message: "Agendamento não encontrado" });
+      }
+      
+      const parsed = inspectionScheduleSchema.safeParse({ ...req.body, organizationId: schedule.organizationId });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
+      }
+      
+      const { organizationId, ...input } = parsed.data;
+      const referenceError = await getScheduleReferenceError(schedule.organizationId, parsed.data);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+      
+      // Drafts already generated keep their date; the recurrence only
+      // applies from now on
+      const updated = await storage.updateInspectionSchedule(schedule.id, {
+        ...input,
+        locationId: input.locationId || null,
+        endsAt: input.endsAt ?? null,
+        nextOccurrenceAt: input.isActive ? getNextOccurrence(input.recurrence, input.startsAt, input.endsAt, new Date()) : null
+      });
+      
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: schedule.organizationId,
+        action: 'update_inspection_schedule',
+        entityType: 'inspection_schedule',
+        entityId: schedule.id,
+        details: { changes: input }
+      });
+      
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Schedules are deactivated rather than deleted, so the inspections they
+  // generated keep their link
+  app.delete('/api/inspection-schedules/:id', requireAuth, requirePermission('schedule:manage'), async (req, res) => {
+    try {
+      const user = req.user!;
+      const schedule = await storage.getInspectionSchedule(req.params.id);
+      if (!schedule || !(await canAccessOrganization(user, schedule.organizationId))) {
+        return res.status(404).json({ message: "Agendamento não encontrado" });
+      }
+      
+      await storage.updateInspectionSchedule(schedule.id, { isActive: false, nextOccurrenceAt: null });
+      
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: schedule.organizationId,
+        action: 'deactivate_inspection_schedule',
+        entityType: 'inspection_schedule',
+        entityId: schedule.id,
+        details: { name: schedule.name }
+      });
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Action Plans routes
+  app.get('/api/action-plans', requireAuth, requirePermission('action_plan:view'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { inspectionId, organizationId } = req.query;
+      
+      let actionPlans;
+      if (inspectionId) {
+        actionPlans = await storage.getActionPlansByInspection(inspectionId as string);
+      } else if (organizationId && (await canAccessOrganization(user, organizationId as string))) {
+        actionPlans = await storage.getActionPlansByOrganization(organizationId as string);
+      } else {
+        actionPlans = await storage.getActionPlansByOrganization(user.organizationId!);
+      }
+      
+      // Filter by permissions
+      actionPlans = await filterByOrganizationAccess(user, actionPlans);
+      
+      res.json(actionPlans);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post('/api/action-plans', requireAuth, requirePermission('action_plan:create'), async (req, res) => {
+    try {
+      const { user } = req;
+      
+      const planData = insertActionPlanSchema.parse({
+        ...req.body,
+        organizationId: user.organizationId
+      });
+      
+      const { inspectionId, itemId, organizationId, assignedTo } =
+        planData as Pick<ActionPlan, 'inspectionId' | 'itemId' | 'organizationId' | 'assignedTo'>;
+      const referenceError = await getActionPlanItemError(inspectionId, itemId)
+        || await getActionPlanAssigneeError(organizationId, assignedTo);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+      
+      const actionPlan = await storage.createActionPlan(planData);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: user.organizationId!,
+        action: 'create_action_plan',
+        entityType: 'action_plan',
+        entityId: actionPlan.id,
+        details: { title: actionPlan.title, priority: actionPlan.priority }
+      });
+      
+      await emitWebhookEvent(actionPlan.organizationId, 'action_plan.created', actionPlan);
+      
+      res.status(201).json(actionPlan);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post('/api/action-plans/generate', requireAuth, requirePermission('action_plan:create'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { finding } = req.body;
+      
+      const recommendations = await generateActionPlanRecommendations(finding);
+      
+      res.json(recommendations);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get('/api/action-plans/:id', requireAuth, requirePermission('action_plan:view'), async (req, res) => {
+    try {
+      const { user } = req;
+      
+      const actionPlan = await storage.getActionPlan(req.params.id);
+      if (!actionPlan || actionPlan.isActive === false) {
+        return res.status(404).json({ message: "Plano de ação não encontrado" });
+      }
+      
+      if (!(await canAccessOrganization(user!, actionPlan.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para acessar este plano de ação" });
+      }
+      
+      res.json(actionPlan);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.patch('/api/action-plans/:id', requireAuth, requirePermission('action_plan:update'), async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      const actionPlan = await storage.getActionPlan(req.params.id);
+      if (!actionPlan || actionPlan.isActive === false) {
+        return res.status(404).json({ message: "Plano de ação não encontrado" });
+      }
+      
+      if (!(await canAccessOrganization(user, actionPlan.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para editar este plano de ação" });
+      }
+      
+      if (!isActionPlanEditable(actionPlan.status)) {
+        return res.status(409).json({ message: "Reabra o plano de ação para editá-lo" });
+      }
+      
+      const updates: Partial<ActionPlan> = updateActionPlanSchema.parse(req.body);
+      
+      const referenceError = await getActionPlanItemError(actionPlan.inspectionId, updates.itemId)
+        || await getActionPlanAssigneeError(actionPlan.organizationId, updates.assignedTo);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+      
+      // A new due date restarts the reminder schedule, and an overdue plan
+      // whose deadline moved into the future is open again
+      if (updates.dueDate !== undefined && updates.dueDate?.getTime() !== actionPlan.dueDate?.getTime()) {
+        updates.escalationLevel = 0;
+        updates.lastEscalatedAt = null;
+        if (actionPlan.status === 'overdue' && (!updates.dueDate || updates.dueDate.getTime() > Date.now())) {
+          updates.status = 'pending';
+        }
+      }
+      
+      const updated = await storage.updateActionPlan(actionPlan.id, updates);
+      
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: actionPlan.organizationId,
+        action: 'update_action_plan',
+        entityType: 'action_plan',
+        entityId: actionPlan.id,
+        details: { fields: Object.keys(updates) }
+      });
+      
+      if (updated.status !== actionPlan.status) {
+        await emitWebhookEvent(actionPlan.organizationId, 'action_plan.status_changed', {
+          ...updated,
+          previousStatus: actionPlan.status
+        });
+      }
+      
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+
+  app.delete('/api/action-plans/:id', requireAuth, requirePermission('action_plan:delete'), async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      const actionPlan = await storage.getActionPlan(req.params.id);
+      if (!actionPlan || actionPlan.isActive === false) {
+        return res.status(404).json({ message: "Plano de ação não encontrado" });
+      }
+      
+      if (!(await canAccessOrganization(user, actionPlan.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para excluir este plano de ação" });
+      }
+      
+      await storage.deleteActionPlan(actionPlan.id);
+      
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: actionPlan.organizationId,
+        action: 'delete_action_plan',
+        entityType: 'action_plan',
+        entityId: actionPlan.id,
+        details: { title: actionPlan.title }
+      });
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Status transitions: POST /api/action-plans/:id/{start,complete,cancel,reopen}
+  for (const transition of Object.keys(ACTION_PLAN_TRANSITIONS) as ActionPlanTransition[]) {
+    app.post(`/api/action-plans/:id/${transition}`, requireAuth, requirePermission('action_plan:update'), async (req, res) => {
+      try {
+        const user = req.user!;
+        
+        const actionPlan = await storage.getActionPlan(req.params.id);
+        if (!actionPlan || actionPlan.isActive === false) {
+          return res.status(404).json({ message: "Plano de ação não encontrado" });
+        }
+        
+        if (!(await canAccessOrganization(user, actionPlan.organizationId))) {
+          return res.status(403).json({ message: "Sem permissão para alterar este plano de ação" });
+        }
+        
+        if (!canTransitionActionPlan(actionPlan.status, transition)) {
+          return res.status(409).json({
+            message: `Não é possível ${transition === 'reopen' ? 'reabrir' : 'alterar'} um plano com status "${actionPlan.status}"`,
+            status: actionPlan.status,
+            transition
+          });
+        }
+        
+        let status: string = ACTION_PLAN_TRANSITIONS[transition].to;
+        // A reopened plan that is already past its due date goes straight back to overdue
+        if (transition === 'reopen' && actionPlan.dueDate && actionPlan.dueDate.getTime() < Date.now()) {
+          status = 'overdue';
+        }
+        
+        const updated = await storage.updateActionPlan(actionPlan.id, {
+          status: status as any,
+          completedAt: status === 'completed' ? new Date() : null,
+          ...(transition === 'reopen' ? { escalationLevel: 0, lastEscalatedAt: null } : {})
+        });
+        
+        await storage.createActivityLog({
+          userId: user.id,
+          organizationId: actionPlan.organizationId,
+          action: `${transition}_action_plan`,
+          entityType: 'action_plan',
+          entityId: actionPlan.id,
+          details: { from: actionPlan.status, to: status, comment: req.body?.comment || undefined }
+        });
+        
+        await emitWebhookEvent(actionPlan.organizationId, 'action_plan.status_changed', {
+          ...updated,
+          previousStatus: actionPlan.status
+        });
+        
+        res.json(updated);
+      } catch (error) {
+        res.status(500).json({ message: (error as Error).message });
+      }
+    });
+  }
+
+  // Dashboard and Analytics routes
+  app.get('/api/dashboard/stats', requireAuth, requirePermission('dashboard:view'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { organizationId } = req.query;
+      
+      const targetOrgId = organizationId as string || user?.organizationId || 'master-org-id';
+      
+      if (!user || !(await canAccessOrganization(user, targetOrgId))) {
+        return res.status(403).json({ message: "Sem permissão para acessar dados desta organização" });
+      }
+      
+      const inspections = await storage.getInspectionsByOrganization(targetOrgId);
+      const actionPlans = await storage.getActionPlansByOrganization(targetOrgId);
+      const users = await storage.getUsersByOrganization(targetOrgId);
+      const organizationIds = await getOrganizationHierarchy(targetOrgId);
+      
+      const metrics = calculateComplianceMetrics(inspections, actionPlans);
+      
+      const stats = {
+        inspections: inspections.length,
+        nonCompliances: metrics.nonCompliances,
+        completedActions: metrics.completedActions,
+        activeOrganizations: organizationIds.length, // Includes the current org
+        complianceRate: metrics.complianceRate,
+        actionCompletionRate: metrics.actionCompletionRate,
+        overdueActions: metrics.overdueActions,
+        activeUsers: users.filter(u => u.isActive).length
+      };
+      
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get('/api/dashboard/insights', requireAuth, requirePermission('dashboard:view'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { organizationId } = req.query;
+      
+      const targetOrgId = organizationId as string || user?.organizationId || 'master-org-id';
+      
+      if (!user || !(await canAccessOrganization(user, targetOrgId))) {
+        return res.status(403).json({ message: "Sem permissão para acessar insights desta organização" });
+      }
+      
+      const inspections = await storage.getInspectionsByOrganization(targetOrgId);
+      const actionPlans = await storage.getActionPlansByOrganization(targetOrgId);
+      
+      const metrics = calculateComplianceMetrics(inspections, actionPlans);
+      
+      const insights = await generateComplianceInsights({
+        inspections: inspections.length,
+        nonCompliances: metrics.nonCompliances,
+        completedActions: metrics.completedActions,
+        period: "Últimos 30 dias"
+      });
+      
+      res.json(insights);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Checklist Templates - Extended functionality
+  app.post('/api/checklist-templates', requireAuth, requirePermission('checklist_template:create'), async (req, res) => {
+    try {
+      const { user } = req;
+      // Convert fields to items format. ChecklistBuilder sends { type, label,
+      // required, options[], weight }; NewChecklistTemplate sends snake_case fields
+      const items = req.body.fields ? req.body.fields.map((field: any, index: number) => ({
+        id: field.id || String(index),
+        type: field.type || (field.field_type === 'boolean' ? 'checkbox' : field.field_type),
+        label: field.label || field.field_name,
+        description: field.description || undefined,
+        required: field.required ?? field.is_required ?? false,
+        options: Array.isArray(field.options)
+          ? field.options
+          : field.options ? field.options.split(',').map((o: string) => o.trim()) : undefined,
+        min: field.min,
+        max: field.max,
+        weight: typeof field.weight === 'number' ? field.weight : 1
+      })) : [];
+      
+      const templateData = {
+        name: req.body.name,
+        description: req.body.description,
+        category: req.body.parent_folder_id || req.body.category,
+        organizationId: user.organizationId,
+        items: items,
+        isActive: true,
+        isDefault: false,
+        createdBy: user.id,
+        parentFolderId: req.body.parent_folder_id || null
+      };
+      
+      const template = await storage.createChecklistTemplate(templateData);
+      res.status(201).json(template);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post('/api/checklist-templates/:id/duplicate', requireAuth, requirePermission('checklist_template:create'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { id } = req.params;
+      
+      const originalTemplate = await storage.getChecklistTemplate(id);
+      if (!originalTemplate) {
+        return res.status(404).json({ message: "Template não encontrado" });
+      }
+      
+      if (!(await canAccessOrganization(user, originalTemplate.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para duplicar este template" });
+      }
+      
+      const duplicatedTemplate = await storage.createChecklistTemplate({
+        ...originalTemplate,
+        id: undefined,
+        name: `${originalTemplate.name} (Cópia)`,
+        createdBy: user.id,
+        createdAt: undefined,
+        updatedAt: undefined
+      });
+      
+      res.status(201).json(duplicatedTemplate);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post('/api/checklist-templates/folder', requireAuth, requirePermission('checklist_template:create'), async (req, res) => {
+    try {
+      const { user } = req;
+      // Create folder as a special type of template with category='__folder__'
+      const folderData = {
+        name: req.body.name,
+        description: JSON.stringify({
+          is_category_folder: true,
+          folder_icon: req.body.icon || 'folder',
+          folder_color: req.body.color || 'blue',
+          parent_folder_id: req.body.parent_folder_id || null,
+          user_description: req.body.description || ''
+        }),
+        category: '__folder__', // Special category for folders
+        items: [], // Folders don't have items
+        organizationId: user.organizationId,
+        isActive: true,
+        isDefault: false,
+        createdBy: user.id
+      };
+      
+      const folder = await storage.createChecklistTemplate(folderData);
+      
+      // Transform response to include folder metadata
+      const folderMetadata = JSON.parse(folder.description || '{}');
+      res.status(201).json({
+        ...folder,
+        is_category_folder: true,
+        folder_icon: folderMetadata.folder_icon,
+        folder_color: folderMetadata.folder_color,
+        parent_folder_id: folderMetadata.parent_folder_id,
+        description: folderMetadata.user_description
+      });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.delete('/api/checklist-templates/:id', requireAuth, requirePermission('checklist_template:delete'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { id } = req.params;
+      
+      const template = await storage.getChecklistTemplate(id);
+      if (!template) {
+        return res.status(404).json({ message: "Template não encontrado" });
+      }
+      
+      if (!(await canAccessOrganization(user, template.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para excluir este template" });
+      }
+      
+      await storage.deleteChecklistTemplate(id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // GET route for import page (returns empty template for the UI)
+  app.get('/api/checklist-templates/import', requireAuth, requirePermission('checklist_template:view'), async (req, res) => {
+    // Return an empty template structure for the import page
+    res.json({
+      id: 'import',
+      name: 'Importar Checklist CSV',
+      description: 'Importe um checklist a partir de um arquivo CSV',
+      category: 'import',
+      items: []
+    });
+  });
+
+  // GET route for AI generator page
+  app.get('/api/checklist-templates/ai-generator', requireAuth, requirePermission('checklist_template:view'), async (req, res) => {
+    // Return an empty template structure for the AI generator page
+    res.json({
+      id: 'ai-generator',
+      name: 'Gerar Checklist com IA',
+      description: 'Gere um checklist usando inteligência artificial',
+      category: 'ai',
+      items: []
+    });
+  });
+
+  // Import checklist from CSV
+  app.post('/api/checklist-templates/import', requireAuth, requirePermission('checklist_template:create'), async (req, res) => {
+    try {
+      const { user } = req;
+      if (!user?.organizationId) {
+        return res.status(403).json({ message: 'Usuário sem organização' });
+      }
+      
+      const { csv_content, name, description, parent_folder_id } = req.body;
+      
+      // Parse CSV content and create checklist
+      const lines = csv_content.split('\n').filter((line: string) => line.trim());
+      const items = lines.map((line: string, index: number) => ({
+        id: `item-${Date.now()}-${index}`,
+        text: line.trim(),
+        type: 'checkbox' as const,
+        required: false
+      }));
+      
+      const template = {
+        name: name || 'Checklist Importado',
+        description: description || 'Importado via CSV',
+        category: parent_folder_id || 'geral',
+        items,
+        organizationId: user.organizationId,
+        isActive: true,
+        isDefault: false,
+        createdBy: user.id,
+        parentFolderId: parent_folder_id
+      };
+      
+      const created = await storage.createChecklistTemplate(template);
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+  
+  // Generate checklist with AI
+  app.post('/api/checklist-templates/ai-generator', requireAuth, requirePermission('checklist_template:create'), async (req, res) => {
+    try {
+      const { user } = req;
+      if (!user?.organizationId) {
+        return res.status(403).json({ message: 'Usuário sem organização' });
+      }
+      
+      const { prompt, category, name, parent_folder_id } = req.body;
+      
+      // Generate checklist items based on prompt
+      // For now, return a template response
+      const template = {
+        name: name || 'Checklist Gerado por IA',
+        description: `Gerado com IA: ${prompt}`,
+        category: parent_folder_id || category || 'geral',
+        items: [
+          { id: '1', text: 'Item gerado 1', type: 'checkbox' as const, required: true },
+          { id: '2', text: 'Item gerado 2', type: 'checkbox' as const, required: false },
+          { id: '3', text: 'Item gerado 3', type: 'checkbox' as const, required: false }
+        ],
+        organizationId: user.organizationId,
+        isActive: true,
+        isDefault: false,
+        createdBy: user.id,
+        parentFolderId: parent_folder_id
+      };
+      
+      const created = await storage.createChecklistTemplate(template);
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Checklist Templates routes
+  app.get('/api/checklist-templates', requireAuth, requirePermission('checklist_template:view'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { category } = req.query;
+      
+      let templates;
+      if (category && typeof category === 'string') {
+        templates = await storage.getChecklistTemplatesByCategory(user?.organizationId || 'master-org-id', category);
+      } else {
+        templates = await storage.getChecklistTemplatesByOrganization(user?.organizationId || 'master-org-id');
+      }
+      
+      // Transform templates to include folder metadata
+      const transformedTemplates = templates.map(template => {
+        if (template.category === '__folder__' && template.description) {
+          try {
+            const metadata = JSON.parse(template.description);
+            return {
+              ...template,
+              is_category_folder: true,
+              folder_icon: metadata.folder_icon || 'folder',
+              folder_color: metadata.folder_color || 'blue',
+              parent_folder_id: metadata.parent_folder_id || null,
+              description: metadata.user_description || '',
+              fields_count: 0,
+              created_at: template.createdAt,
+              updated_at: template.updatedAt
+            };
+          } catch (e) {
+            console.error('Error parsing folder metadata:', e);
+          }
+        }
+        return {
+          ...template,
+          is_category_folder: false,
+          fields_count: template.items?.length || 0,
+          created_at: template.createdAt,
+          updated_at: template.updatedAt
+        };
+      });
+      
+      res.json(transformedTemplates);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get('/api/checklist-templates/:id', requireAuth, requirePermission('checklist_template:view'), async (req, res) => {
+    try {
+      const { user } = req;
+      const template = await storage.getChecklistTemplate(req.params.id);
+      
+      if (!template) {
+        return res.status(404).json({ message: "Template não encontrado" });
+      }
+      
+      if (!(await canAccessOrganization(user, template.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para acessar este template" });
+      }
+      
+      res.json(template);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.put('/api/checklist-templates/:id', requireAuth, requirePermission('checklist_template:update'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { id } = req.params;
+      
+      const template = await storage.getChecklistTemplate(id);
+      if (!template) {
+        return res.status(404).json({ message: "Template não encontrado" });
+      }
+      
+      if (!(await canAccessOrganization(user, template.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para editar este template" });
+      }
+      
+      const updated = await storage.updateChecklistTemplate(id, {
+        name: req.body.name,
+        description: req.body.description,
+        category: req.body.category,
+        items: req.body.items,
+        isPublic: (req.body as any).is_public ?? req.body.isPublic
+      });
+      
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post('/api/checklist-templates', requireAuth, requirePermission('checklist_template:create'), async (req, res) => {
+    try {
+      const { user } = req;
+      
+      const templateData = createChecklistTemplateSchema.parse({
+        ...req.body,
+        organizationId: user.organizationId,
+        createdBy: user.id
+      });
+      
+      const template = await storage.createChecklistTemplate(templateData);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: user.organizationId!,
+        action: 'create_checklist_template',
+        entityType: 'checklist_template',
+        entityId: template.id,
+        details: { name: template.name, category: template.category }
+      });
+      
+      res.status(201).json(template);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+
+  app.put('/api/checklist-templates/:id', requireAuth, requirePermission('checklist_template:update'), async (req, res) => {
+    try {
+      const { user } = req;
+      const template = await storage.getChecklistTemplate(req.params.id);
+      
+      if (!template) {
+        return res.status(404).json({ message: "Template não encontrado" });
+      }
+      
+      if (!(await canAccessOrganization(user, template.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para editar este template" });
+      }
+      
+      const updates = createChecklistTemplateSchema.partial().parse(req.body);
+      const updatedTemplate = await storage.updateChecklistTemplate(req.params.id, updates);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: user.organizationId!,
+        action: 'update_checklist_template',
+        entityType: 'checklist_template',
+        entityId: template.id,
+        details: { name: template.name }
+      });
+      
+      res.json(updatedTemplate);
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message });
+    }
+  });
+
+  app.delete('/api/checklist-templates/:id', requireAuth, requirePermission('checklist_template:delete'), async (req, res) => {
+    try {
+      const { user } = req;
+      const template = await storage.getChecklistTemplate(req.params.id);
+      
+      if (!template) {
+        return res.status(404).json({ message: "Template não encontrado" });
+      }
+      
+      if (!(await canAccessOrganization(user, template.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para excluir este template" });
+      }
+      
+      await storage.deleteChecklistTemplate(req.params.id);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: user.organizationId!,
+        action: 'delete_checklist_template',
+        entityType: 'checklist_template',
+        entityId: template.id,
+        details: { name: template.name }
+      });
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Reports routes
+  app.get('/api/reports/inspection/:id', requireAuth, requirePermission('report:view'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { id } = req.params;
+      
+      const inspection = await storage.getInspection(id);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
+      
+      if (!(await canAccessOrganization(user, inspection.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para acessar este relatório" });
+      }
+      
+      const actionPlans = await storage.getActionPlansByInspection(id);
+      const report = generateInspectionReport(inspection, actionPlans);
+      
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Printable inspection report with the evidence photos (annotated versions
+  // where they exist) and the signature verification block. Rendered as HTML,
+  // ready for the browser's print to PDF.
+  app.get('/api/reports/inspection/:id/pdf', requireAuth, requirePermission('report:view'), async (req, res) => {
+    try {
+      const inspection = await storage.getInspection(req.params.id);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
+      
+      if (!(await canAccessOrganization(req.user!, inspection.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para acessar este relatório" });
+      }
+      
+      const evidenceImages = await loadReportEvidenceImages(await storage.getFilesByInspection(inspection.id));
+      const signatureVerification = await verifyInspectionSignatures(inspection);
+      const document = await exportToPDF({ ...inspection, evidenceImages, signatureVerification }, "inspection");
+      
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      res.setHeader("Content-Disposition", `inline; filename="relatorio-inspecao-${inspection.id}.html"`);
+      res.send(document);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Printable before/after comparison of a follow-up inspection
+  app.get('/api/reports/inspection/:id/follow-up', requireAuth, requirePermission('report:view'), async (req, res) => {
+    try {
+      const inspection = await storage.getInspection(req.params.id);
+      if (!inspection || !(await canAccessOrganization(req.user!, inspection.organizationId))) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
+      
+      const comparison = await getFollowUpComparison(inspection);
+      if (!comparison) {
+        return res.status(404).json({ message: "Esta inspeção não é uma verificação" });
+      }
+      
+      const [beforeImages, afterImages] = await Promise.all([
+        storage.getFilesByInspection(comparison.parent.id).then(loadReportEvidenceImages),
+        storage.getFilesByInspection(inspection.id).then(loadReportEvidenceImages)
+      ]);
+      const document = await exportToPDF({ ...comparison, beforeImages, afterImages }, "follow_up");
+      
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      res.setHeader("Content-Disposition", `inline; filename="relatorio-verificacao-${inspection.id}.html"`);
+      res.send(document);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get('/api/reports/compliance', requireAuth, requirePermission('report:view'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { organizationId } = req.query;
+      
+      const targetOrgId = organizationId as string || user.organizationId!;
+      
+      if (!(await canAccessOrganization(user, targetOrgId))) {
+        return res.status(403).json({ message: "Sem permissão para acessar este relatório" });
+      }
+      
+      const organization = await storage.getOrganization(targetOrgId);
+      const inspections = await storage.getInspectionsByOrganization(targetOrgId);
+      const actionPlans = await storage.getActionPlansByOrganization(targetOrgId);
+      
+      const metrics = calculateComplianceMetrics(inspections, actionPlans);
+      
+      const report = generateComplianceReport(organization, {
+        inspections,
+        actionPlans,
+        stats: {
+          ...metrics,
+          periodStart: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // 30 days ago
+          periodEnd: new Date(),
+          complianceTrend: "stable" // This would be calculated from historical data
+        }
+      });
+      
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Activity logs
+  app.get('/api/activity-logs', requireAuth, requirePermission('activity_log:view'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { organizationId, limit } = req.query;
+      
+      const targetOrgId = organizationId as string || user.organizationId!;
+      
+      if (!(await canAccessOrganization(user, targetOrgId))) {
+        return res.status(403).json({ message: "Sem permissão para acessar logs desta organização" });
+      }
+      
+      const logs = await storage.getActivityLogsByOrganization(
+        targetOrgId, 
+        limit ? parseInt(limit as string) : undefined
+      );
+      
+      res.json(logs);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // AI Chatbot route
+  app.post('/api/ai/chatbot', requireAuth, requirePermission('ai:use'), async (req, res) => {
+    try {
+      const { simpleAI } = await import('./services/simple-ai');
+      const { message } = req.body;
+      const response = await simpleAI.chatResponse(message);
+      
+      res.json({ response });
+    } catch (error) {
+      console.error('Chatbot error:', error);
+      res.status(500).json({ message: "Erro ao processar mensagem" });
+    }
+  });
+
+  // AI-powered checklist generation
+  app.post('/api/checklist-templates/generate-ai', requireAuth, requirePermission('checklist_template:create'), async (req, res) => {
+    try {
+      if (!openai) {
+        return res.status(503).json({ message: "Serviço de IA não disponível" });
+      }
+      
+      const { user } = req;
+      const { 
+        industry, location_type, template_name, category,
+        num_questions, specific_requirements, assistant
+      } = req.body;
+      
+      // Generate checklist using selected assistant
+      let prompt = `Crie um checklist de inspeção de segurança do trabalho com ${num_questions} perguntas para:
+      - Indústria: ${industry}
+      - Tipo de Local: ${location_type}
+      - Requisitos específicos: ${specific_requirements || 'Nenhum'}
+      
+      O checklist deve ser detalhado e seguir as melhores práticas de SST.
+      Retorne como JSON com formato: { items: [{ type: string, label: string, description: string, required: boolean, options?: string[] }] }`;
+      
+      // Use assistant if specified and available
+      let aiResponse;
+      if (assistant && assistant !== 'GENERAL' && assistantsService) {
+        const result = await assistantsService.analyzeWithAssistant(assistant, prompt);
+        aiResponse = result.analysis;
+      } else {
+        // Use regular OpenAI completion
+        const completion = await openai.chat.completions.create({
+          model: "gpt-4o-mini",
+          messages: [{ role: "user", content: prompt }],
+          response_format: { type: "json_object" }
+        });
+        aiResponse = completion.choices[0].message.content;
+      }
+      
+      const checklistData = JSON.parse(aiResponse || '{}');
+      
+      // Save to database
+      const template = await storage.createChecklistTemplate({
+        name: template_name,
+        category,
+        organizationId: user.organizationId!,
+        items: checklistData.items || checklistData,
+        tags: [industry, location_type],
+        createdBy: user.id
+      });
+      
+      res.json(template);
+    } catch (error) {
+      console.error('AI generation error:', error);
+      res.status(500).json({ message: "Erro ao gerar checklist com IA" });
+    }
+  });
+
+  // Generate CSV from AI prompt
+  app.post('/api/checklist-templates/generate-from-prompt', requireAuth, requirePermission('checklist_template:create'), async (req, res) => {
+    try {
+      if (!openai) {
+        return res.status(503).json({ message: "Serviço de IA não disponível" });
+      }
+      
+      const { prompt } = req.body;
+      
+      const completion = await openai.chat.completions.create({
+        model: "gpt-4o-mini",
+        messages: [{
+          role: "user",
+          content: `${prompt}
+          
+          Gere um CSV para este checklist com as seguintes colunas:
+          campo,tipo,obrigatorio,opcoes,descricao
+          
+          Tipos disponíveis: text, textarea, select, multiselect, checkbox, radio, boolean, date, time, datetime, number, rating, file, signature, location
+          
+          Para campos com opções (select, radio, multiselect), separe as opções com pipe (|).
+          
+          IMPORTANTE: Retorne APENAS o conteúdo CSV puro, sem markdown, sem explicações e sem formatação adicional.`
+        }]
+      });
+      
+      const csv = completion.choices[0]?.message?.content || '';
+      
+      // Clean up any markdown formatting
+      let cleanCsv = csv;
+      if (cleanCsv.includes('```')) {
+        cleanCsv = cleanCsv.replace(/```csv\n?/g, '').replace(/```/g, '');
+      }
+      
+      res.json({ csv: cleanCsv.trim() });
+    } catch (error) {
+      console.error('CSV generation error:', error);
+      res.status(500).json({ message: "Erro ao gerar CSV" });
+    }
+  });
+
+  // Import CSV checklist
+  app.post('/api/checklist-templates/import-csv', requireAuth, requirePermission('checklist_template:create'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { name, category, csvData, fields } = req.body;
+      
+      // Convert fields to template format
+      const items = fields.map((field: any) => ({
+        type: field.type,
+        label: field.name || field.label,
+        description: field.description,
+        required: field.required || false,
+        options: field.options,
+        order: field.order
+      }));
+      
+      const template = await storage.createChecklistTemplate({
+        name,
+        category,
+        organizationId: user.organizationId!,
+        items,
+        createdBy: user.id
+      });
+      
+      res.json(template);
+    } catch (error) {
+      console.error('CSV import error:', error);
+      res.status(500).json({ message: "Erro ao importar CSV" });
+    }
+  });
+
+  // Manual checklist creation
+  app.post('/api/checklist-templates', requireAuth, requirePermission('checklist_template:create'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { name, description, category, fields, tags } = req.body;
       
       const items = fields.map((field: any) => ({
         type: field.type,
@@ -1613,305 +3754,824 @@ export async function registerRoutes(app: Express): Promise<Server> {
         name,
         description,
         category,
-        organizationId: user.organizationId!,
-        items,
-        tags,
-        createdBy: user.id
+        organizationId: user.organizationId!,
+        items,
+        tags,
+        createdBy: user.id
+      });
+      
+      res.json(template);
+    } catch (error) {
+      console.error('Template creation error:', error);
+      res.status(500).json({ message: "Erro ao criar template" });
+    }
+  });
+
+  // Create folder for checklist templates
+  app.post('/api/checklist-folders', requireAuth, requirePermission('checklist_template:create'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { name, description, parentId, icon, color } = req.body;
+      
+      const folder = await storage.createChecklistFolder({
+        name,
+        description,
+        parentId: parentId || null,
+        organizationId: user?.organizationId || 'master-org-id',
+        icon: icon || 'folder',
+        color: color || '#3B82F6',
+        createdBy: user?.id || 'admin-id'
+      });
+      
+      res.json(folder);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Get checklist templates with folder structure
+  app.get('/api/checklist-templates', requireAuth, requirePermission('checklist_template:view'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { category } = req.query;
+      
+      let templates;
+      if (category && typeof category === 'string') {
+        templates = await storage.getChecklistTemplatesByCategory(user?.organizationId || 'master-org-id', category);
+      } else {
+        templates = await storage.getChecklistTemplatesByOrganization(user?.organizationId || 'master-org-id');
+      }
+      
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Get single checklist template
+  app.get('/api/checklist-templates/:id', requireAuth, requirePermission('checklist_template:view'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { id } = req.params;
+      
+      const template = await storage.getChecklistTemplate(id);
+      if (!template) {
+        return res.status(404).json({ message: "Template não encontrado" });
+      }
+      
+      if (!user || !(await canAccessOrganization(user, template.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para acessar este template" });
+      }
+      
+      res.json(template);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Create checklist template
+  app.post('/api/checklist-templates', requireAuth, requirePermission('checklist_template:create'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { name, description, category, folderId, items, tags, isPublic } = req.body;
+      
+      const template = await storage.createChecklistTemplate({
+        name,
+        description,
+        category,
+        folderId: folderId || null,
+        organizationId: user?.organizationId || 'master-org-id',
+        items: items || [],
+        tags: tags || [],
+        isPublic: isPublic || false,
+        isActive: true,
+        isDefault: false,
+        createdBy: user?.id || 'admin-id'
+      });
+      
+      res.json(template);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Update checklist template
+  app.put('/api/checklist-templates/:id', requireAuth, requirePermission('checklist_template:update'), async (req, res) => {
+    try {
+      const { user } = req;
+      const template = await storage.getChecklistTemplate(req.params.id);
+      
+      if (!template) {
+        return res.status(404).json({ message: "Template não encontrado" });
+      }
+      
+      if (!user || !(await canAccessOrganization(user, template.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para editar este template" });
+      }
+      
+      const updated = await storage.updateChecklistTemplate(req.params.id, req.body);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Delete checklist template
+  app.delete('/api/checklist-templates/:id', requireAuth, requirePermission('checklist_template:delete'), async (req, res) => {
+    try {
+      const { user } = req;
+      const template = await storage.getChecklistTemplate(req.params.id);
+      
+      if (!template) {
+        return res.status(404).json({ message: "Template não encontrado" });
+      }
+      
+      if (!user || !(await canAccessOrganization(user, template.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão para excluir este template" });
+      }
+      
+      await storage.deleteChecklistTemplate(req.params.id);
+      res.json({ message: "Template excluído com sucesso" });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Get checklist folders
+  app.get('/api/checklist-folders', requireAuth, requirePermission('checklist_template:view'), async (req, res) => {
+    try {
+      const { user } = req;
+      const folders = await storage.getChecklistFoldersByOrganization(user?.organizationId || 'master-org-id');
+      res.json(folders);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Create inspection (COMPIA implementation)
+  app.post('/api/inspections', requireAuth, requirePermission('inspection:create'), async (req, res) => {
+    try {
+      const { user } = req;
+      
+      // Extract data from request body without validation
+      const title = req.body.title;
+      const location = req.body.location; 
+      const description = req.body.description;
+      const checklistTemplateId = req.body.checklistTemplateId;
+      let scheduledAt = req.body.scheduledAt;
+      
+      if (!user) {
+        return res.status(401).json({ message: "Usuário não autenticado" });
+      }
+      
+      // Validate required fields manually
+      if (!title || !location || !checklistTemplateId) {
+        return res.status(400).json({ message: "Campos obrigatórios: title, location, checklistTemplateId" });
+      }
+      
+      // Get the checklist template
+      const template = await storage.getChecklistTemplate(checklistTemplateId);
+      if (!template) {
+        return res.status(404).json({ message: "Template de checklist não encontrado" });
+      }
+      
+      // Process scheduledAt to ensure it's a Date
+      if (scheduledAt && typeof scheduledAt === 'string') {
+        scheduledAt = new Date(scheduledAt);
+      } else if (!scheduledAt) {
+        scheduledAt = new Date();
+      }
+      
+      // Create inspection data manually (no schema validation)
+      const inspectionData = {
+        title: String(title),
+        location: String(location),
+        description: description ? String(description) : null,
+        checklistTemplateId: String(checklistTemplateId),
+        scheduledAt: scheduledAt,
+        status: 'draft' as const,
+        organizationId: user?.organizationId || 'master-org-id',
+        inspectorId: user?.id || 'admin-id'
+      };
+      
+      console.log('Route - User data:', { id: user?.id, organizationId: user?.organizationId });
+      console.log('Route - Inspection data before storage:', inspectionData);
+      
+      const inspection = await storage.createInspection(inspectionData);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: user?.id || 'admin-id',
+        organizationId: user?.organizationId || 'master-org-id',
+        action: 'Inspeção criada',
+        entityType: 'inspection',
+        entityId: inspection.id,
+        details: { title, location }
+      });
+      
+      await emitWebhookEvent(inspection.organizationId, 'inspection.created', inspection);
+      
+      res.json(inspection);
+    } catch (error) {
+      console.error('Error creating inspection:', error);
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Start inspection
+  app.post('/api/inspections/:id/start', requireAuth, requirePermission('inspection:update'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { id } = req.params;
+      
+      const inspection = await storage.getInspection(id);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
+      
+      if (!user || !(await canAccessOrganization(user, inspection.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão" });
+      }
+      
+      if (!canTransitionInspection(inspection.status, 'start')) {
+        return res.status(409).json({ message: "Apenas inspeções em rascunho podem ser iniciadas" });
+      }
+      
+      const parsed = startInspectionSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
+      }
+      
+      res.json(await startInspection(user, inspection, parsed.data.position as DevicePosition));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Drag-and-drop from the calendar. Only inspections not started yet move;
+  // a new date also re-arms the missed-inspection alert
+  app.post('/api/inspections/:id/reschedule', requireAuth, requirePermission('inspection:update'), async (req, res) => {
+    try {
+      const user = req.user!;
+      const parsed = rescheduleInspectionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
+      }
+      
+      const inspection = await storage.getInspection(req.params.id);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
+      
+      if (!(await canAccessOrganization(user, inspection.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão" });
+      }
+      
+      if (inspection.status !== 'draft') {
+        return res.status(409).json({ message: "Apenas inspeções não iniciadas podem ser reagendadas" });
+      }
+      
+      let updated;
+      try {
+        updated = await storage.updateInspection(inspection.id, { scheduledAt: parsed.data.scheduledAt, missedAlertedAt: null });
+      } catch (error) {
+        if ((error as { code?: string }).code === '23505') {
+          return res.status(409).json({ message: "Já existe uma inspeção deste agendamento nesta data e hora" });
+        }
+        throw error;
+      }
+      
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: inspection.organizationId,
+        action: 'reschedule_inspection',
+        entityType: 'inspection',
+        entityId: inspection.id,
+        details: { from: inspection.scheduledAt, to: parsed.data.scheduledAt }
       });
       
-      res.json(template);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Autosave of checklist answers while the inspection is being executed
+  app.patch('/api/inspections/:id/responses', requireAuth, requirePermission('inspection:update'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { id } = req.params;
+      
+      const parsed = saveInspectionResponsesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
+      }
+      const responses = parsed.data.responses as InspectionItemResponse[];
+      
+      const inspection = await storage.getInspection(id);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
+      
+      if (!user || !(await canAccessOrganization(user, inspection.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão" });
+      }
+      
+      if (inspection.status !== 'in_progress') {
+        return res.status(409).json({ message: "Só é possível responder inspeções em andamento" });
+      }
+      
+      const result = await saveInspectionResponses(inspection, responses, parsed.data.removed);
+      if ('errors' in result) {
+        return res.status(400).json({ message: `Respostas inválidas: ${result.errors.join('; ')}`, errors: result.errors });
+      }
+      
+      res.json({ responses: result.inspection.responses, updatedAt: result.inspection.updatedAt });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Replays changes recorded offline (start, answers, completion) in order.
+  // Each result is applied, conflict (edited elsewhere) or rejected.
+  app.post('/api/sync', requireAuth, requirePermission('inspection:update'), async (req, res) => {
+    try {
+      const parsed = syncRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
+      }
+      
+      const results = await applySyncChanges(req.user!, parsed.data.changes as SyncChangeInput[]);
+      res.json({ results, serverTime: new Date().toISOString() });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Complete inspection
+  app.post('/api/inspections/:id/complete', requireAuth, requirePermission('inspection:update'), async (req, res) => {
+    try {
+      const { user } = req;
+      const { id } = req.params;
+      
+      const parsed = completeInspectionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
+      }
+      
+      const inspection = await storage.getInspection(id);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
+      
+      if (!user || !(await canAccessOrganization(user, inspection.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão" });
+      }
+      
+      if (!canTransitionInspection(inspection.status, 'complete')) {
+        return res.status(409).json({ message: "Apenas inspeções em andamento podem ser concluídas" });
+      }
+      
+      const responses = (parsed.data.responses ?? inspection.responses ?? []) as InspectionItemResponse[];
+      const result = await completeInspection(user, inspection, responses, parsed.data.reviewerId, parsed.data.position as DevicePosition);
+      if ('errors' in result) {
+        return res.status(400).json({ message: `Respostas inválidas: ${result.errors.join('; ')}`, errors: result.errors });
+      }
+      
+      res.json({ ...result.inspection, summary: result.summary });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // GPS check-ins recorded when the inspection was started and completed
+  app.get('/api/inspections/:id/check-ins', requireAuth, requirePermission('inspection:view'), async (req, res) => {
+    try {
+      const inspection = await storage.getInspection(req.params.id);
+      if (!inspection || !(await canAccessOrganization(req.user!, inspection.organizationId))) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
+      
+      res.json(await storage.getInspectionCheckIns(inspection.id));
     } catch (error) {
-      console.error('Template creation error:', error);
-      res.status(500).json({ message: "Erro ao criar template" });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Create folder for checklist templates
-  app.post('/api/checklist-folders', requireAuth, async (req, res) => {
+  // Auditor map of where inspections were performed. Defaults to the last
+  // 30 days; ?flagged=true keeps inspections outside the radius or without GPS
+  app.get('/api/inspection-check-ins', requireAuth, requirePermission('report:view'), async (req, res) => {
     try {
-      const { user } = req;
-      const { name, description, parentId, icon, color } = req.body;
-      
-      const folder = await storage.createChecklistFolder({
-        name,
-        description,
-        parentId: parentId || null,
-        organizationId: user?.organizationId || 'master-org-id',
-        icon: icon || 'folder',
-        color: color || '#3B82F6',
-        createdBy: user?.id || 'admin-id'
-      });
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        return res.status(400).json({ message: "Período inválido" });
+      }
       
-      res.json(folder);
+      res.json(await getCheckInMap(req.user!, from, to, req.query.flagged === 'true'));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Get checklist templates with folder structure
-  app.get('/api/checklist-templates', requireAuth, async (req, res) => {
+  // Review of completed inspections. Approval locks the inspection; a
+  // rejection sends it back to the inspector with mandatory comments.
+  app.get('/api/inspections/:id/reviews', requireAuth, requirePermission('inspection:view'), async (req, res) => {
     try {
-      const { user } = req;
-      const { category } = req.query;
+      const inspection = await storage.getInspection(req.params.id);
+      if (!inspection || !(await canAccessOrganization(req.user!, inspection.organizationId))) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
       
-      let templates;
-      if (category && typeof category === 'string') {
-        templates = await storage.getChecklistTemplatesByCategory(user?.organizationId || 'master-org-id', category);
-      } else {
-        templates = await storage.getChecklistTemplatesByOrganization(user?.organizationId || 'master-org-id');
+      res.json(await storage.getInspectionReviews(inspection.id));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get('/api/inspections/:id/reviewers', requireAuth, requirePermission('inspection:view'), async (req, res) => {
+    try {
+      const inspection = await storage.getInspection(req.params.id);
+      if (!inspection || !(await canAccessOrganization(req.user!, inspection.organizationId))) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
       }
       
-      res.json(templates);
+      const reviewers = await getEligibleReviewers(inspection);
+      res.json(reviewers.map(({ id, name, email }) => ({ id, name, email })));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Get single checklist template
-  app.get('/api/checklist-templates/:id', requireAuth, async (req, res) => {
+  for (const decision of REVIEW_DECISIONS) {
+    const schema = decision === 'reject' ? rejectInspectionSchema : reviewDecisionSchema;
+    app.post(`/api/inspections/:id/${decision}`, requireAuth, requirePermission('inspection:approve'), async (req, res) => {
+      try {
+        const user = req.user!;
+        const parsed = schema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+          return res.status(400).json({ message: parsed.error.message });
+        }
+        
+        const inspection = await storage.getInspection(req.params.id);
+        if (!inspection || !(await canAccessOrganization(user, inspection.organizationId))) {
+          return res.status(404).json({ message: "Inspeção não encontrada" });
+        }
+        
+        const result = await decideReview(user, inspection, decision, parsed.data.comments);
+        if ('error' in result) {
+          return res.status(result.status).json({ message: result.error });
+        }
+        
+        res.json(result);
+      } catch (error) {
+        res.status(500).json({ message: (error as Error).message });
+      }
+    });
+  }
+
+  app.put('/api/inspections/:id/reviewer', requireAuth, requirePermission('inspection:approve'), async (req, res) => {
     try {
-      const { user } = req;
-      const { id } = req.params;
+      const user = req.user!;
+      const parsed = assignReviewerSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
+      }
       
-      const template = await storage.getChecklistTemplate(id);
-      if (!template) {
-        return res.status(404).json({ message: "Template não encontrado" });
+      const inspection = await storage.getInspection(req.params.id);
+      if (!inspection || !(await canAccessOrganization(user, inspection.organizationId))) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
       }
       
-      if (!user || !canAccessOrganization(user, template.organizationId)) {
-        return res.status(403).json({ message: "Sem permissão para acessar este template" });
+      const result = await reassignReviewer(user, inspection, parsed.data.reviewerId as string);
+      if ('error' in result) {
+        return res.status(result.status).json({ message: result.error });
       }
       
-      res.json(template);
+      res.json(result);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Create checklist template
-  app.post('/api/checklist-templates', requireAuth, async (req, res) => {
+  // Sign-off of completed inspections by the technician and the company
+  // representative. Each signature is bound to the SHA-256 of the inspection
+  // content at signing time and reported invalid once the content changes.
+  app.get('/api/inspections/:id/signatures', requireAuth, requirePermission('inspection:view'), async (req, res) => {
     try {
-      const { user } = req;
-      const { name, description, category, folderId, items, tags, isPublic } = req.body;
-      
-      const template = await storage.createChecklistTemplate({
-        name,
-        description,
-        category,
-        folderId: folderId || null,
-        organizationId: user?.organizationId || 'master-org-id',
-        items: items || [],
-        tags: tags || [],
-        isPublic: isPublic || false,
-        isActive: true,
-        isDefault: false,
-        createdBy: user?.id || 'admin-id'
-      });
+      const inspection = await storage.getInspection(req.params.id);
+      if (!inspection || !(await canAccessOrganization(req.user!, inspection.organizationId))) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
       
-      res.json(template);
+      res.json(await verifyInspectionSignatures(inspection));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Update checklist template
-  app.put('/api/checklist-templates/:id', requireAuth, async (req, res) => {
+  app.post('/api/inspections/:id/signatures', requireAuth, requirePermission('inspection:update'), async (req, res) => {
     try {
-      const { user } = req;
-      const template = await storage.getChecklistTemplate(req.params.id);
+      const user = req.user!;
+      const parsed = signInspectionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.message });
+      }
       
-      if (!template) {
-        return res.status(404).json({ message: "Template não encontrado" });
+      const inspection = await storage.getInspection(req.params.id);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
       }
       
-      if (!user || !canAccessOrganization(user, template.organizationId)) {
-        return res.status(403).json({ message: "Sem permissão para editar este template" });
+      if (!(await canAccessOrganization(user, inspection.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão" });
       }
       
-      const updated = await storage.updateChecklistTemplate(req.params.id, req.body);
-      res.json(updated);
+      const signature = await signInspection(user, inspection, parsed.data, {
+        ipAddress: req.ip || null,
+        userAgent: req.get('user-agent') || null
+      });
+      if ('error' in signature) {
+        return res.status(signature.status).json({ message: signature.error });
+      }
+      
+      res.status(201).json(signature);
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Delete checklist template
-  app.delete('/api/checklist-templates/:id', requireAuth, async (req, res) => {
+  // Evidence files. Uploads are multipart/form-data with the files in "files";
+  // inspection uploads may name the checklist item in "itemId"
+  app.post('/api/inspections/:id/files', requireAuth, requirePermission('inspection:update'), async (req, res) => {
     try {
-      const { user } = req;
-      const template = await storage.getChecklistTemplate(req.params.id);
+      const user = req.user!;
+      const inspection = await storage.getInspection(req.params.id);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
       
-      if (!template) {
-        return res.status(404).json({ message: "Template não encontrado" });
+      if (!(await canAccessOrganization(user, inspection.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão" });
       }
       
-      if (!user || !canAccessOrganization(user, template.organizationId)) {
-        return res.status(403).json({ message: "Sem permissão para excluir este template" });
+      if (inspection.status !== 'draft' && inspection.status !== 'in_progress') {
+        return res.status(409).json({ message: "Evidências só podem ser anexadas a inspeções em andamento" });
       }
       
-      await storage.deleteChecklistTemplate(req.params.id);
-      res.json({ message: "Template excluído com sucesso" });
+      const received = await receiveEvidenceUpload(req, res);
+      if ('error' in received) {
+        return res.status(received.status).json({ message: received.error });
+      }
+      
+      const itemId = typeof req.body.itemId === 'string' && req.body.itemId ? req.body.itemId : undefined;
+      if (itemId && !(await getInspectionChecklistItems(inspection)).some(item => item.id === itemId)) {
+        return res.status(400).json({ message: `Item "${itemId}" não pertence ao checklist` });
+      }
+      
+      const stored = await storeEvidenceFiles(user, {
+        organizationId: inspection.organizationId,
+        inspectionId: inspection.id,
+        itemId
+      }, received.files);
+      if ('error' in stored) {
+        return res.status(stored.status).json({ message: stored.error });
+      }
+      
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: inspection.organizationId,
+        action: 'upload_evidence',
+        entityType: 'inspection',
+        entityId: inspection.id,
+        details: { itemId, files: stored.files.map(file => ({ id: file.id, name: file.name, size: file.size })) }
+      });
+      
+      res.status(201).json(stored.files.map(toPublicFile));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Get checklist folders
-  app.get('/api/checklist-folders', requireAuth, async (req, res) => {
+  app.get('/api/inspections/:id/files', requireAuth, requirePermission('inspection:view'), async (req, res) => {
     try {
-      const { user } = req;
-      const folders = await storage.getChecklistFoldersByOrganization(user?.organizationId || 'master-org-id');
-      res.json(folders);
+      const inspection = await storage.getInspection(req.params.id);
+      if (!inspection || !(await canAccessOrganization(req.user!, inspection.organizationId))) {
+        return res.status(404).json({ message: "Inspeção não encontrada" });
+      }
+      
+      const files = await storage.getFilesByInspection(inspection.id);
+      res.json(groupEvidenceRevisions(files));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Create inspection (COMPIA implementation)
-  app.post('/api/inspections', requireAuth, async (req, res) => {
+  app.post('/api/action-plans/:id/files', requireAuth, requirePermission('action_plan:update'), async (req, res) => {
     try {
-      const { user } = req;
-      
-      // Extract data from request body without validation
-      const title = req.body.title;
-      const location = req.body.location; 
-      const description = req.body.description;
-      const checklistTemplateId = req.body.checklistTemplateId;
-      let scheduledAt = req.body.scheduledAt;
-      
-      if (!user) {
-        return res.status(401).json({ message: "Usuário não autenticado" });
+      const user = req.user!;
+      const actionPlan = await storage.getActionPlan(req.params.id);
+      if (!actionPlan || actionPlan.isActive === false) {
+        return res.status(404).json({ message: "Plano de ação não encontrado" });
       }
       
-      // Validate required fields manually
-      if (!title || !location || !checklistTemplateId) {
-        return res.status(400).json({ message: "Campos obrigatórios: title, location, checklistTemplateId" });
+      if (!(await canAccessOrganization(user, actionPlan.organizationId))) {
+        return res.status(403).json({ message: "Sem permissão" });
       }
       
-      // Get the checklist template
-      const template = await storage.getChecklistTemplate(checklistTemplateId);
-      if (!template) {
-        return res.status(404).json({ message: "Template de checklist não encontrado" });
+      const received = await receiveEvidenceUpload(req, res);
+      if ('error' in received) {
+        return res.status(received.status).json({ message: received.error });
       }
       
-      // Process scheduledAt to ensure it's a Date
-      if (scheduledAt && typeof scheduledAt === 'string') {
-        scheduledAt = new Date(scheduledAt);
-      } else if (!scheduledAt) {
-        scheduledAt = new Date();
+      const stored = await storeEvidenceFiles(user, {
+        organizationId: actionPlan.organizationId,
+        actionPlanId: actionPlan.id
+      }, received.files);
+      if ('error' in stored) {
+        return res.status(stored.status).json({ message: stored.error });
       }
       
-      // Create inspection data manually (no schema validation)
-      const inspectionData = {
-        title: String(title),
-        location: String(location),
-        description: description ? String(description) : null,
-        checklistTemplateId: String(checklistTemplateId),
-        scheduledAt: scheduledAt,
-        status: 'draft' as const,
-        organizationId: user?.organizationId || 'master-org-id',
-        inspectorId: user?.id || 'admin-id'
-      };
-      
-      console.log('Route - User data:', { id: user?.id, organizationId: user?.organizationId });
-      console.log('Route - Inspection data before storage:', inspectionData);
-      
-      const inspection = await storage.createInspection(inspectionData);
-      
-      // Log activity
       await storage.createActivityLog({
-        userId: user?.id || 'admin-id',
-        organizationId: user?.organizationId || 'master-org-id',
-        action: 'Inspeção criada',
-        entityType: 'inspection',
-        entityId: inspection.id,
-        details: { title, location }
+        userId: user.id,
+        organizationId: actionPlan.organizationId,
+        action: 'upload_evidence',
+        entityType: 'action_plan',
+        entityId: actionPlan.id,
+        details: { files: stored.files.map(file => ({ id: file.id, name: file.name, size: file.size })) }
       });
       
-      res.json(inspection);
+      res.status(201).json(stored.files.map(toPublicFile));
     } catch (error) {
-      console.error('Error creating inspection:', error);
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Start inspection
-  app.post('/api/inspections/:id/start', requireAuth, async (req, res) => {
+  app.get('/api/action-plans/:id/files', requireAuth, requirePermission('action_plan:view'), async (req, res) => {
     try {
-      const { user } = req;
-      const { id } = req.params;
+      const actionPlan = await storage.getActionPlan(req.params.id);
+      if (!actionPlan || actionPlan.isActive === false || !(await canAccessOrganization(req.user!, actionPlan.organizationId))) {
+        return res.status(404).json({ message: "Plano de ação não encontrado" });
+      }
       
-      const inspection = await storage.getInspection(id);
-      if (!inspection) {
-        return res.status(404).json({ message: "Inspeção não encontrada" });
+      const files = await storage.getFilesByActionPlan(actionPlan.id);
+      res.json(groupEvidenceRevisions(files));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Session users need access to the organization and to what the file is attached to
+  const canReadFile = async (req: any, file: StoredFile) => {
+    if (!(await canAccessOrganization(req.user, file.organizationId))) return false;
+    if (file.inspectionId && !hasPermission(req.user, 'inspection:view', req.permissions)) return false;
+    if (file.actionPlanId && !hasPermission(req.user, 'action_plan:view', req.permissions)) return false;
+    return true;
+  };
+
+  // Annotated revision of an evidence photo: multipart with the rendered image
+  // in "files" and the vector drawing as JSON in "annotations". The original
+  // is kept; listings and reports show the newest revision in its place.
+  app.post('/api/files/:id/annotations', requireAuth, requirePermission('inspection:update', 'action_plan:update'), async (req: any, res) => {
+    try {
+      const user = req.user!;
+      const file = await storage.getFile(req.params.id);
+      if (!file || !(await canReadFile(req, file))) {
+        return res.status(404).json({ message: "Arquivo não encontrado" });
       }
       
-      if (!user || !canAccessOrganization(user, inspection.organizationId)) {
-        return res.status(403).json({ message: "Sem permissão" });
+      if ((!file.inspectionId && !file.actionPlanId) ||
+          (file.inspectionId && !hasPermission(user, 'inspection:update', req.permissions)) ||
+          (file.actionPlanId && !hasPermission(user, 'action_plan:update', req.permissions))) {
+        return res.status(403).json({ message: "Sem permissão para anotar esta evidência" });
       }
       
-      const updated = await storage.updateInspection(id, {
-        status: 'in_progress',
-        startedAt: new Date()
-      });
+      if (file.inspectionId) {
+        const inspection = await storage.getInspection(file.inspectionId);
+        if (inspection?.status !== 'draft' && inspection?.status !== 'in_progress') {
+          return res.status(409).json({ message: "Evidências só podem ser anotadas em inspeções em andamento" });
+        }
+      }
       
-      // Log activity
+      const original = await getAnnotatableOriginal(file);
+      if ('error' in original) {
+        return res.status(original.status).json({ message: original.error });
+      }
+      
+      const received = await receiveEvidenceUpload(req, res);
+      if ('error' in received) {
+        return res.status(received.status).json({ message: received.error });
+      }
+      if (received.files.length !== 1 || !received.files[0].mimetype.startsWith('image/')) {
+        return res.status(400).json({ message: "Envie uma única imagem anotada" });
+      }
+      
+      let annotations;
+      try {
+        annotations = evidenceAnnotationsSchema.parse(JSON.parse(req.body.annotations || 'null'));
+      } catch (error) {
+        return res.status(400).json({ message: `Anotações inválidas: ${(error as Error).message}` });
+      }
+      
+      const stored = await storeEvidenceFiles(user, {
+        organizationId: original.organizationId,
+        inspectionId: original.inspectionId ?? undefined,
+        actionPlanId: original.actionPlanId ?? undefined,
+        itemId: original.itemId ?? undefined
+      }, received.files, { original, annotations });
+      if ('error' in stored) {
+        return res.status(stored.status).json({ message: stored.error });
+      }
+      
+      const [revision] = stored.files;
       await storage.createActivityLog({
-        userId: user?.id || 'admin-id',
-        organizationId: user?.organizationId || 'master-org-id',
-        action: 'Inspeção iniciada',
-        entityType: 'inspection',
-        entityId: id,
-        details: { status: 'in_progress' }
+        userId: user.id,
+        organizationId: original.organizationId,
+        action: 'annotate_evidence',
+        entityType: original.inspectionId ? 'inspection' : 'action_plan',
+        entityId: (original.inspectionId || original.actionPlanId)!,
+        details: { originalFileId: original.id, fileId: revision.id, shapes: annotations.shapes.length }
       });
       
-      res.json(updated);
+      res.status(201).json(toPublicFile(revision));
     } catch (error) {
       res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Complete inspection
-  app.post('/api/inspections/:id/complete', requireAuth, async (req, res) => {
+  // Short-lived link that works without a session (reports, emails, integrations)
+  app.get('/api/files/:id/url', requireAuth, requirePermission('inspection:view', 'action_plan:view'), async (req, res) => {
     try {
-      const { user } = req;
-      const { id } = req.params;
-      const { responses } = req.body;
+      const file = await storage.getFile(req.params.id);
+      if (!file || !(await canReadFile(req, file))) {
+        return res.status(404).json({ message: "Arquivo não encontrado" });
+      }
       
-      const inspection = await storage.getInspection(id);
-      if (!inspection) {
-        return res.status(404).json({ message: "Inspeção não encontrada" });
+      const variant: FileVariant = req.query.variant === 'thumbnail' ? 'thumbnail' : 'download';
+      res.json(createSignedFileUrl(file, variant));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Accepts either a session or a signed link from /api/files/:id/url
+  const authorizeFileRequest = (req: any, res: any, next: any) =>
+    req.query.signature ? systemContext(req, res, next) : requireAuth(req, res, next);
+
+  app.get('/api/files/:id/:variant(download|thumbnail)', authorizeFileRequest, async (req: any, res) => {
+    try {
+      const variant = req.params.variant as FileVariant;
+      if (req.query.signature && !verifyFileSignature(req.params.id, variant, req.query.expires, req.query.signature)) {
+        return res.status(403).json({ message: "Link expirado ou inválido" });
       }
       
-      if (!user || !canAccessOrganization(user, inspection.organizationId)) {
-        return res.status(403).json({ message: "Sem permissão" });
+      const file = await storage.getFile(req.params.id);
+      if (!file || (!req.query.signature && !(await canReadFile(req, file)))) {
+        return res.status(404).json({ message: "Arquivo não encontrado" });
       }
       
-      // Calculate findings
-      const conformities = Object.values(responses || {}).filter((r: any) => r.status === 'conform').length;
-      const nonConformities = Object.values(responses || {}).filter((r: any) => r.status === 'non-conform').length;
-      const total = Object.keys(responses || {}).length;
-      const score = total > 0 ? Math.round((conformities / total) * 100) : 0;
-      
-      const updated = await storage.updateInspection(id, {
-        status: 'completed',
-        completedAt: new Date(),
-        findings: {
-          conformities,
-          nonConformities,
-          score,
-          details: responses
-        }
+      await sendFileContent(file, variant, res);
+    } catch (error) {
+      if (!res.headersSent) res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get('/api/organizations/:id/storage', requireAuth, requirePermission('organization:view'), async (req, res) => {
+    try {
+      if (!(await canAccessOrganization(req.user!, req.params.id))) {
+        return res.status(403).json({ message: "Sem permissão para acessar esta organização" });
+      }
+      res.json(await getStorageUsage(req.params.id));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Quotas are part of the subscription, so only platform admins change them
+  app.put('/api/organizations/:id/storage', requireAuth, requirePermission('system:admin'), async (req, res) => {
+    try {
+      const user = req.user!;
+      const { id } = req.params;
+      const { storageQuotaMb } = storageQuotaSchema.parse(req.body);
+      const organization = await storage.updateOrganization(id, { storageQuotaMb });
+      
+      await storage.createActivityLog({
+        userId: user.id,
+        organizationId: id,
+        action: 'update_storage_quota',
+        entityType: 'organization',
+        entityId: id,
+        details: { storageQuotaMb }
       });
       
-      res.json(updated);
+      res.json(organization);
     } catch (error) {
-      res.status(500).json({ message: (error as Error).message });
+      res.status(400).json({ message: (error as Error).message });
     }
   });
 
   // Analyze inspection with AI
-  app.post('/api/inspections/:id/analyze', requireAuth, async (req, res) => {
+  app.post('/api/inspections/:id/analyze', requireAuth, requirePermission('inspection:update'), async (req, res) => {
     try {
       const { user } = req;
       const { id } = req.params;
@@ -1921,10 +4581,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Inspeção não encontrada" });
       }
       
-      if (!user || !canAccessOrganization(user, inspection.organizationId)) {
+      if (!user || !(await canAccessOrganization(user, inspection.organizationId))) {
         return res.status(403).json({ message: "Sem permissão" });
       }
       
+      if (isInspectionLocked(inspection.status)) {
+        return res.status(409).json({ message: "Inspeção aprovada não pode ser alterada" });
+      }
+      
       if (assistantsService) {
         const analysis = await assistantsService.analyzeInspection(inspection);
         
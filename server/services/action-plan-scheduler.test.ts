@@ -0,0 +1,167 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import net from "net";
+import type { AddressInfo } from "net";
+import type { PGlite } from "@electric-sql/pglite";
+
+const testDb = vi.hoisted(() => ({ pg: undefined as PGlite | undefined }));
+
+vi.mock("../storage", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../storage")>();
+  const { createTestDatabase, createTestPool } = await import("../test-database");
+  testDb.pg = await createTestDatabase();
+  return { ...actual, storage: new actual.DatabaseStorage(createTestPool(testDb.pg)) };
+});
+
+import { storage } from "../storage";
+import { runWithoutTenant } from "../db";
+import { runActionPlanChecks } from "./action-plan-scheduler";
+
+interface CaughtMail {
+  to: string[];
+  subject: string;
+  body: string;
+}
+
+// Bare-bones SMTP catcher standing in for Mailpit: accepts every message and
+// keeps its recipients, subject and decoded body
+async function startSmtpCatcher() {
+  const messages: CaughtMail[] = [];
+  const decode = (text: string) => Buffer.from(
+    text.replace(/=\r\n/g, "").replace(/=([0-9A-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+    "latin1"
+  ).toString("utf8");
+
+  const server = net.createServer(socket => {
+    let buffer = "";
+    let to: string[] = [];
+    let data: string | null = null;
+
+    socket.write("220 catcher ESMTP\r\n");
+    socket.on("data", chunk => {
+      buffer += chunk.toString("latin1");
+      for (;;) {
+        if (data !== null) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end === -1) return;
+          const [headers, ...body] = buffer.slice(0, end).split("\r\n\r\n");
+          const subject = headers.match(/^Subject: (.*(?:\r\n[ \t].*)*)/m)?.[1].replace(/\r\n[ \t]/g, "") ?? "";
+          messages.push({
+            to,
+            subject: subject.replace(/=\?UTF-8\?Q\?(.*?)\?=\s*/gi, (_, word) => decode(word.replace(/_/g, " "))),
+            body: decode(body.join("\r\n\r\n"))
+          });
+          buffer = buffer.slice(end + 5);
+          to = [];
+          data = null;
+          socket.write("250 OK\r\n");
+          continue;
+        }
+
+        const lineEnd = buffer.indexOf("\r\n");
+        if (lineEnd === -1) return;
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === "EHLO" || command === "HELO") {
+          socket.write("250 catcher\r\n");
+        } else if (command === "RCPT") {
+          to.push(line.match(/<(.*)>/)![1]);
+          socket.write("250 OK\r\n");
+        } else if (command === "DATA") {
+          data = "";
+          socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+        } else if (command === "QUIT") {
+          socket.end("221 Bye\r\n");
+        } else {
+          socket.write("250 OK\r\n");
+        }
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  return { messages, port: (server.address() as AddressInfo).port, close: () => server.close() };
+}
+
+const NOW = new Date("2026-05-10T12:00:00Z");
+
+describe("action plan reminders and escalations", () => {
+  let smtp: Awaited<ReturnType<typeof startSmtpCatcher>>;
+  let result: { overdue: number; escalations: number };
+
+  const getPlan = (id: string) => runWithoutTenant(async () => (await storage.getActionPlan(id))!);
+  const mailsAbout = (planId: string) => smtp.messages.filter(mail => mail.body.includes(`/action-plans?id=${planId}`));
+
+  beforeAll(async () => {
+    smtp = await startSmtpCatcher();
+    process.env.SMTP_HOST = "127.0.0.1";
+    process.env.SMTP_PORT = String(smtp.port);
+    process.env.SMTP_SECURE = "false";
+    process.env.APP_URL = "https://app.test";
+
+    // Activity log entries are not under test and need the storage normalizers
+    vi.spyOn(storage, "createActivityLog").mockResolvedValue({} as any);
+
+    await testDb.pg!.exec(`
+      SET app.current_org_ids = '*';
+      INSERT INTO organizations (id, name, type) VALUES ('org-a', 'Empresa A', 'enterprise');
+      INSERT INTO users (id, email, name, role, organization_id, is_active) VALUES
+        ('inspector-a', 'inspetor@a.com', 'Inspetor A', 'inspector', 'org-a', true),
+        ('manager-a', 'gestor@a.com', 'Gestor A', 'manager', 'org-a', true),
+        ('former-a', 'ex@a.com', 'Ex-gestor', 'manager', 'org-a', false);
+      INSERT INTO inspections (id, title, location, organization_id, inspector_id, status)
+        VALUES ('inspection-a', 'Ronda', 'Galpão 1', 'org-a', 'inspector-a', 'completed');
+      INSERT INTO action_plans (id, inspection_id, title, what, why, "where", "when", who, how, organization_id, assigned_to, status, due_date, escalation_level) VALUES
+        ('plan-due', 'inspection-a', 'Sinalizar saída', 'Sinalizar', 'NR-23', 'Galpão 1', '2026-05-12', 'Manutenção', 'Placas', 'org-a', 'inspector-a', 'in_progress', '2026-05-12 12:00:00', 0),
+        ('plan-late', 'inspection-a', 'Trocar extintor', 'Trocar', 'Vencido', 'Galpão 1', '2026-05-09', 'Manutenção', 'Substituir', 'org-a', 'inspector-a', 'pending', '2026-05-09 12:00:00', 0),
+        ('plan-stale', 'inspection-a', 'Reparar corrimão', 'Reparar', 'NR-8', 'Escada', '2026-05-01', 'Obras', 'Soldar', 'org-a', 'inspector-a', 'overdue', '2026-05-01 12:00:00', 2),
+        ('plan-later', 'inspection-a', 'Revisar mapa de risco', 'Revisar', 'NR-5', 'Refeitório', '2026-06-30', 'CIPA', 'Reunião', 'org-a', NULL, 'pending', '2026-06-30 12:00:00', 0);
+      RESET app.current_org_ids;
+    `);
+
+    result = await runWithoutTenant(() => runActionPlanChecks(NOW));
+  });
+
+  afterAll(async () => {
+    smtp?.close();
+    await testDb.pg?.close();
+  });
+
+  it("reminds the assignee before the due date", async () => {
+    expect(mailsAbout("plan-due")).toEqual([expect.objectContaining({
+      to: ["inspetor@a.com"],
+      subject: "[COMPIA] Lembrete de plano de ação: Sinalizar saída"
+    })]);
+    expect(mailsAbout("plan-due")[0].body).toContain("vence em 2 dia(s)");
+    expect((await getPlan("plan-due")).escalationLevel).toBe(1);
+  });
+
+  it("marks a plan past its due date overdue and reminds the assignee", async () => {
+    expect((await getPlan("plan-late")).status).toBe("overdue");
+    expect(mailsAbout("plan-late")).toEqual([expect.objectContaining({ to: ["inspetor@a.com"] })]);
+    expect(mailsAbout("plan-late")[0].body).toContain("está atrasado há 1 dia(s)");
+    expect((await getPlan("plan-late")).escalationLevel).toBe(2);
+  });
+
+  it("escalates a week-late plan to the assignee and the active managers", async () => {
+    const [mail, ...others] = mailsAbout("plan-stale");
+    expect(mail.subject).toBe("[COMPIA] Plano de ação escalonado: Reparar corrimão");
+    expect([mail, ...others].flatMap(message => message.to).sort()).toEqual(["gestor@a.com", "inspetor@a.com"]);
+    expect(mail.body).toContain("https://app.test/action-plans?id=plan-stale");
+  });
+
+  it("leaves plans far from their due date alone and sends each step once", async () => {
+    expect(mailsAbout("plan-later")).toEqual([]);
+    expect(result).toEqual({ overdue: 1, escalations: 3 });
+
+    const sent = smtp.messages.length;
+    expect(await runWithoutTenant(() => runActionPlanChecks(NOW))).toEqual({ overdue: 0, escalations: 0 });
+    expect(smtp.messages).toHaveLength(sent);
+  });
+
+  it("leaves a notification in the app for every recipient", async () => {
+    const notifications = await runWithoutTenant(() => storage.getNotificationsByUser("manager-a"));
+    expect(notifications).toEqual([expect.objectContaining({ type: "action_plan_escalation", entityId: "plan-stale" })]);
+  });
+});
@@ -0,0 +1,172 @@
+import { storage } from "../storage";
+import { runWithoutTenant } from "../db";
+import { sendMail, appUrl } from "./mailer";
+import { emitWebhookEvent } from "./webhooks";
+import { DEFAULT_ESCALATION_POLICY, type EscalationStep } from "@shared/action-plans";
+import type { ActionPlan, Organization, User } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHECK_INTERVAL_MS = parseInt(process.env.ACTION_PLAN_CHECK_INTERVAL_MS || "", 10) || 60 * 60 * 1000;
+const STARTUP_DELAY_MS = 30 * 1000;
+
+export function resolveEscalationPolicy(organization: Organization | undefined): EscalationStep[] {
+  const policy = (organization?.escalationPolicy as EscalationStep[] | null) || DEFAULT_ESCALATION_POLICY;
+  return [...policy].sort((a, b) => a.days - b.days);
+}
+
+// Index of the latest step whose moment has passed, or -1. Missed steps are
+// not replayed: after downtime only the most recent reminder goes out
+export function getDueEscalationStep(policy: EscalationStep[], dueDate: Date, now: Date): number {
+  let due = -1;
+  policy.forEach((step, index) => {
+    if (now.getTime() >= dueDate.getTime() + step.days * DAY_MS) due = index;
+  });
+  return due;
+}
+
+function describeDueDate(plan: ActionPlan, now: Date): string {
+  const days = Math.floor((now.getTime() - plan.dueDate!.getTime()) / DAY_MS);
+  const date = plan.dueDate!.toLocaleDateString("pt-BR");
+  if (days < 0) return `vence em ${-days} dia(s), em ${date}`;
+  if (days === 0) return `vence hoje (${date})`;
+  return `está atrasado há ${days} dia(s), desde ${date}`;
+}
+
+// activity_logs needs a user; background changes are attributed to the plan's
+// assignee, or to the inspector of the originating inspection
+async function resolveActorId(plan: ActionPlan): Promise<string | undefined> {
+  if (plan.assignedTo) return plan.assignedTo;
+  return (await storage.getInspection(plan.inspectionId))?.inspectorId;
+}
+
+async function markOverdue(now: Date): Promise<number> {
+  const overdue = await storage.markOverdueActionPlans(now);
+  for (const plan of overdue) {
+    const actorId = await resolveActorId(plan);
+    if (actorId) {
+      await storage.createActivityLog({
+        userId: actorId,
+        organizationId: plan.organizationId,
+        action: "action_plan_overdue",
+        entityType: "action_plan",
+        entityId: plan.id,
+        details: { dueDate: plan.dueDate }
+      });
+    }
+    await emitWebhookEvent(plan.organizationId, "action_plan.overdue", plan);
+  }
+  return overdue.length;
+}
+
+async function escalate(plan: ActionPlan, step: EscalationStep, level: number, orgUsers: User[], now: Date) {
+  const activeUsers = orgUsers.filter(user => user.isActive !== false);
+  const recipients = new Map<string, User>();
+
+  const assignee = activeUsers.find(user => user.id === plan.assignedTo);
+  if (assignee) recipients.set(assignee.id, assignee);
+  // Managers are also the fallback when nobody is assigned
+  if (step.audience === "managers" || !assignee) {
+    for (const user of activeUsers) {
+      if (user.role === "manager" || user.role === "org_admin") recipients.set(user.id, user);
+    }
+  }
+
+  const isEscalation = step.audience === "managers";
+  const title = isEscalation ? "Plano de ação escalonado" : "Lembrete de plano de ação";
+  const message = `O plano "${plan.title}" ${describeDueDate(plan, now)}. Responsável: ${plan.who}.`;
+  const link = `/action-plans?id=${plan.id}`;
+
+  const emailed: string[] = [];
+  for (const recipient of Array.from(recipients.values())) {
+    await storage.createNotification({
+      userId: recipient.id,
+      organizationId: plan.organizationId,
+      type: isEscalation ? "action_plan_escalation" : "action_plan_reminder",
+      title,
+      message,
+      link,
+      entityType: "action_plan",
+      entityId: plan.id
+    });
+    try {
+      const sent = await sendMail({
+        to: recipient.email,
+        subject: `[COMPIA] ${title}: ${plan.title}`,
+        text: `Olá, ${recipient.name}.\n\n${message}\n\nAcesse: ${appUrl(link)}`
+      });
+      if (sent) emailed.push(recipient.email);
+    } catch (error) {
+      console.error(`Failed to email escalation for action plan ${plan.id} to ${recipient.email}:`, error);
+    }
+  }
+
+  await storage.updateActionPlan(plan.id, { escalationLevel: level + 1, lastEscalatedAt: now });
+
+  const actorId = await resolveActorId(plan);
+  if (actorId) {
+    await storage.createActivityLog({
+      userId: actorId,
+      organizationId: plan.organizationId,
+      action: "action_plan_escalation",
+      entityType: "action_plan",
+      entityId: plan.id,
+      details: {
+        step: level + 1,
+        days: step.days,
+        audience: step.audience,
+        recipients: Array.from(recipients.values()).map(user => user.email),
+        emailed
+      }
+    });
+  }
+}
+
+async function sendEscalations(now: Date): Promise<number> {
+  const plans = await storage.getOpenActionPlansWithDueDate();
+  const policies = new Map<string, EscalationStep[]>();
+  const usersByOrg = new Map<string, User[]>();
+  let sent = 0;
+
+  for (const plan of plans) {
+    if (!policies.has(plan.organizationId)) {
+      policies.set(plan.organizationId, resolveEscalationPolicy(await storage.getOrganization(plan.organizationId)));
+    }
+    const policy = policies.get(plan.organizationId)!;
+
+    const level = getDueEscalationStep(policy, plan.dueDate!, now);
+    if (level < 0 || level < plan.escalationLevel) continue;
+
+    if (!usersByOrg.has(plan.organizationId)) {
+      usersByOrg.set(plan.organizationId, await storage.getUsersByOrganization(plan.organizationId));
+    }
+    await escalate(plan, policy[level], level, usersByOrg.get(plan.organizationId)!, now);
+    sent++;
+  }
+  return sent;
+}
+
+let running = false;
+
+export async function runActionPlanChecks(now = new Date()): Promise<{ overdue: number; escalations: number }> {
+  if (running) return { overdue: 0, escalations: 0 };
+  running = true;
+  try {
+    const overdue = await markOverdue(now);
+    const escalations = await sendEscalations(now);
+    if (overdue || escalations) {
+      console.log(`Action plan check: ${overdue} marked overdue, ${escalations} reminder(s) sent`);
+    }
+    return { overdue, escalations };
+  } finally {
+    running = false;
+  }
+}
+
+// Runs hourly (ACTION_PLAN_CHECK_INTERVAL_MS) outside any tenant scope
+export function startActionPlanScheduler() {
+  const tick = () => runWithoutTenant(() => {
+    runActionPlanChecks().catch(error => console.error("Action plan check failed:", error));
+  });
+  setTimeout(tick, STARTUP_DELAY_MS).unref();
+  setInterval(tick, CHECK_INTERVAL_MS).unref();
+}
@@ -0,0 +1,96 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { PGlite } from "@electric-sql/pglite";
+
+const testDb = vi.hoisted(() => ({ pg: undefined as PGlite | undefined }));
+
+vi.mock("../storage", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../storage")>();
+  const { createTestDatabase, createTestPool } = await import("../test-database");
+  testDb.pg = await createTestDatabase();
+  return { ...actual, storage: new actual.DatabaseStorage(createTestPool(testDb.pg)) };
+});
+
+import { runWithoutTenant } from "../db";
+import { geocodeAddress, lookupCep } from "./address";
+
+const PAULISTA = {
+  cep: "01310-100", street: "Avenida Paulista", neighborhood: "Bela Vista",
+  city: "São Paulo", state: "sp", latitude: -23.5614, longitude: -46.6559
+};
+
+// The local provider reads ADDRESS_LOCAL_FILE on first use and only keeps it
+// once it parses, so the outage cases run before the file exists
+describe("address lookups with the local provider", () => {
+  const dir = mkdtempSync(path.join(tmpdir(), "address-"));
+  const file = path.join(dir, "addresses.json");
+
+  const cep = (value: string) => runWithoutTenant(() => lookupCep(value));
+  const geocode = (fields: Parameters<typeof geocodeAddress>[0]) => runWithoutTenant(() => geocodeAddress(fields));
+
+  beforeAll(async () => {
+    process.env.CEP_PROVIDER = "local";
+    process.env.GEOCODING_PROVIDER = "local";
+    process.env.ADDRESS_LOCAL_FILE = file;
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    // A stale answer for a CEP the provider doesn't know
+    await testDb.pg!.exec(`
+      INSERT INTO cep_cache (cep, found, street, neighborhood, city, state, provider, fetched_at)
+        VALUES ('20040020', true, 'Avenida Rio Branco', 'Centro', 'Rio de Janeiro', 'RJ', 'viacep', '2020-01-01');
+    `);
+  });
+
+  afterAll(async () => {
+    rmSync(dir, { recursive: true, force: true });
+    await testDb.pg?.close();
+  });
+
+  describe("while the provider is down", () => {
+    it("reports the outage instead of a miss", async () => {
+      expect(await cep("01310100")).toEqual({
+        error: "Serviço de CEP indisponível. Tente novamente ou preencha o endereço manualmente.", status: 502
+      });
+      expect(await geocode({ city: "São Paulo", state: "SP" }))
+        .toEqual({ error: "Serviço de geocodificação indisponível", status: 502 });
+    });
+
+    it("falls back to an expired cached answer", async () => {
+      expect(await cep("20040-020")).toEqual({
+        address: { cep: "20040020", street: "Avenida Rio Branco", neighborhood: "Centro", city: "Rio de Janeiro", state: "RJ" }
+      });
+    });
+  });
+
+  describe("with the provider answering", () => {
+    beforeAll(() => {
+      writeFileSync(file, JSON.stringify([PAULISTA]));
+    });
+
+    it("looks up a known CEP and caches it", async () => {
+      const address = { cep: "01310100", street: "Avenida Paulista", neighborhood: "Bela Vista", city: "São Paulo", state: "SP" };
+      expect(await cep("01310-100")).toEqual({ address });
+
+      const cached = await testDb.pg!.query(`SELECT found, provider FROM cep_cache WHERE cep = '01310100'`);
+      expect(cached.rows).toEqual([{ found: true, provider: "local" }]);
+    });
+
+    it("answers null for an unknown CEP and rejects a malformed one", async () => {
+      expect(await cep("99999-999")).toEqual({ address: null });
+      expect(await cep("123")).toEqual({ error: "CEP inválido", status: 400 });
+    });
+
+    it("geocodes by CEP or by city", async () => {
+      const point = { latitude: PAULISTA.latitude, longitude: PAULISTA.longitude };
+      expect(await geocode({ zipCode: "01310100" })).toEqual({ point });
+      expect(await geocode({ address: "Rua Augusta, 100", city: "são paulo", state: "SP" })).toEqual({ point });
+    });
+
+    it("answers a null point for an address it can't place", async () => {
+      expect(await geocode({ city: "Manaus", state: "AM" })).toEqual({ point: null });
+      expect(await geocode({ address: "Rua sem cidade" })).toEqual({ point: null });
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { storage } from "../storage";
+import {
+  formatFullAddress, normalizeAddressFields, normalizeCep, normalizeState, postalAddressToFields,
+  type AddressFields, type PostalAddress
+} from "@shared/address";
+import type { GeoPoint } from "@shared/geofence";
+
+// CEP lookup and geocoding run here rather than in the browser, so they work
+// behind corporate proxies and without CORS. Providers are picked from the
+// environment and every answer is cached in cep_cache / geocode_cache.
+//
+// CEP_PROVIDER:       viacep (default) or local
+// GEOCODING_PROVIDER: nominatim (default), local or none. NOMINATIM_URL points
+//                     to a self-hosted instance.
+// local:              answers from ADDRESS_LOCAL_FILE, a JSON array of
+//                     { cep, street, neighborhood, city, state, latitude, longitude };
+//                     meant for tests and offline development.
+
+const REQUEST_TIMEOUT_MS = 8000;
+const FOUND_TTL_MS = 180 * 24 * 60 * 60 * 1000;
+// Misses are retried sooner: new CEPs and streets do get registered
+const MISS_TTL_MS = 24 * 60 * 60 * 1000;
+const USER_AGENT = "COMPIA-Address/1.0";
+const NOMINATIM_INTERVAL_MS = 1000;
+
+export interface CepProvider {
+  name: string;
+  lookupCep(cep: string): Promise<PostalAddress | null>;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  geocode(fields: AddressFields): Promise<GeoPoint | null>;
+}
+
+type AddressResult<T> = T | { error: string; status: number };
+
+async function fetchJson(url: string): Promise<any> {
+  const response = await fetch(url, {
+    headers: { "Accept": "application/json", "User-Agent": USER_AGENT },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.json();
+}
+
+class ViaCepProvider implements CepProvider {
+  name = "viacep";
+
+  async lookupCep(cep: string): Promise<PostalAddress | null> {
+    const data = await fetchJson(`https://viacep.com.br/ws/${cep}/json/`);
+    const state = normalizeState(data.uf);
+    if (data.erro || !data.localidade || !state) return null;
+    return {
+      cep,
+      street: data.logradouro || null,
+      neighborhood: data.bairro || null,
+      city: data.localidade,
+      state
+    };
+  }
+}
+
+class NominatimProvider implements GeocodingProvider {
+  name = "nominatim";
+  private nextRequestAt = 0;
+
+  constructor(private baseUrl: string) {}
+
+  async geocode(fields: AddressFields): Promise<GeoPoint | null> {
+    // The public instance allows one request per second; spreadsheet imports
+    // geocode one location after another
+    const wait = this.nextRequestAt - Date.now();
+    this.nextRequestAt = Math.max(Date.now(), this.nextRequestAt) + NOMINATIM_INTERVAL_MS;
+    if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+
+    const query = new URLSearchParams({ q: `${formatFullAddress(fields)}, Brasil`, format: "json", countrycodes: "br", limit: "1" });
+    const [result] = await fetchJson(`${this.baseUrl}/search?${query}`);
+    return result ? { latitude: parseFloat(result.lat), longitude: parseFloat(result.lon) } : null;
+  }
+}
+
+interface LocalAddressRecord {
+  cep: string;
+  street?: string | null;
+  neighborhood?: string | null;
+  city: string;
+  state: string;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+// Stand-in for both lookups, reading a fixed list of addresses
+class LocalAddressProvider implements CepProvider, GeocodingProvider {
+  name = "local";
+  private records: LocalAddressRecord[] | null = null;
+
+  constructor(private file: string | undefined) {}
+
+  private load(): LocalAddressRecord[] {
+    if (!this.records) {
+      this.records = this.file ? JSON.parse(readFileSync(path.resolve(this.file), "utf8")) : [];
+    }
+    return this.records!;
+  }
+
+  async lookupCep(cep: string): Promise<PostalAddress | null> {
+    const record = this.load().find(record => normalizeCep(record.cep) === cep);
+    const state = normalizeState(record?.state);
+    if (!record || !state) return null;
+    return { cep, street: record.street ?? null, neighborhood: record.neighborhood ?? null, city: record.city, state };
+  }
+
+  // Matches the CEP first, then the city; good enough for tests
+  async geocode(fields: AddressFields): Promise<GeoPoint | null> {
+    const cep = normalizeCep(fields.zipCode);
+    const sameCity = (record: LocalAddressRecord) =>
+      record.city.toLowerCase() === fields.city?.toLowerCase() && normalizeState(record.state) === normalizeState(fields.state);
+    const record = this.load().find(record => record.latitude != null && record.longitude != null && (
+      cep ? normalizeCep(record.cep) === cep : sameCity(record)
+    ));
+    return record ? { latitude: record.latitude!, longitude: record.longitude! } : null;
+  }
+}
+
+let localProvider: LocalAddressProvider | undefined;
+let cepProvider: CepProvider | undefined;
+let geocodingProvider: GeocodingProvider | null | undefined;
+
+function getLocalProvider(): LocalAddressProvider {
+  localProvider ??= new LocalAddressProvider(process.env.ADDRESS_LOCAL_FILE);
+  return localProvider;
+}
+
+function getCepProvider(): CepProvider {
+  if (!cepProvider) {
+    const name = process.env.CEP_PROVIDER || "viacep";
+    if (name !== "viacep" && name !== "local") throw new Error(`Provedor de CEP desconhecido: ${name}`);
+    cepProvider = name === "local" ? getLocalProvider() : new ViaCepProvider();
+  }
+  return cepProvider;
+}
+
+function getGeocodingProvider(): GeocodingProvider | null {
+  if (geocodingProvider === undefined) {
+    const name = process.env.GEOCODING_PROVIDER || "nominatim";
+    if (name === "none") {
+      geocodingProvider = null;
+    } else if (name === "local") {
+      geocodingProvider = getLocalProvider();
+    } else if (name === "nominatim") {
+      geocodingProvider = new NominatimProvider((process.env.NOMINATIM_URL || "https://nominatim.openstreetmap.org").replace(/\/$/, ""));
+    } else {
+      throw new Error(`Provedor de geocodificação desconhecido: ${name}`);
+    }
+  }
+  return geocodingProvider;
+}
+
+function isFresh(fetchedAt: Date, found: boolean): boolean {
+  return Date.now() - new Date(fetchedAt).getTime() < (found ? FOUND_TTL_MS : MISS_TTL_MS);
+}
+
+export async function lookupCep(value: string): Promise<AddressResult<{ address: PostalAddress | null }>> {
+  const cep = normalizeCep(value);
+  if (!cep) return { error: "CEP inválido", status: 400 };
+
+  const cached = await storage.getCepCacheEntry(cep);
+  const fromCache = (): PostalAddress | null => cached!.found
+    ? { cep, street: cached!.street, neighborhood: cached!.neighborhood, city: cached!.city!, state: normalizeState(cached!.state)! }
+    : null;
+  if (cached && isFresh(cached.fetchedAt, cached.found)) return { address: fromCache() };
+
+  const provider = getCepProvider();
+  let address: PostalAddress | null;
+  try {
+    address = await provider.lookupCep(cep);
+  } catch (error) {
+    console.error(`[address] CEP lookup via ${provider.name} failed:`, (error as Error).message);
+    // An expired answer beats none while the provider is down
+    if (cached) return { address: fromCache() };
+    return { error: "Serviço de CEP indisponível. Tente novamente ou preencha o endereço manualmente.", status: 502 };
+  }
+
+  await storage.saveCepCacheEntry({
+    cep,
+    found: !!address,
+    street: address?.street ?? null,
+    neighborhood: address?.neighborhood ?? null,
+    city: address?.city ?? null,
+    state: address?.state ?? null,
+    provider: provider.name,
+    fetchedAt: new Date()
+  });
+  return { address };
+}
+
+// Coordinates of an address; point is null when it could not be located
+export async function geocodeAddress(input: Partial<AddressFields>): Promise<AddressResult<{ point: GeoPoint | null }>> {
+  const fields = { address: null, city: null, state: null, zipCode: null, ...normalizeAddressFields(input) };
+  if (!fields.zipCode && !(fields.city && fields.state)) return { point: null };
+
+  const provider = getGeocodingProvider();
+  if (!provider) return { point: null };
+
+  const query = formatFullAddress(fields).toLowerCase();
+  const cached = await storage.getGeocodeCacheEntry(query);
+  const fromCache = () => cached!.latitude != null && cached!.longitude != null
+    ? { latitude: cached!.latitude, longitude: cached!.longitude }
+    : null;
+  if (cached && isFresh(cached.fetchedAt, cached.latitude != null)) return { point: fromCache() };
+
+  let point: GeoPoint | null;
+  try {
+    point = await provider.geocode(fields);
+  } catch (error) {
+    console.error(`[address] Geocoding via ${provider.name} failed:`, (error as Error).message);
+    if (cached) return { point: fromCache() };
+    return { error: "Serviço de geocodificação indisponível", status: 502 };
+  }
+
+  await storage.saveGeocodeCacheEntry({
+    query,
+    latitude: point?.latitude ?? null,
+    longitude: point?.longitude ?? null,
+    provider: provider.name,
+    fetchedAt: new Date()
+  });
+  return { point };
+}
+
+const ADDRESS_KEYS = ["address", "city", "state", "zipCode"] as const;
+
+type AddressInput = Partial<AddressFields> & { latitude?: number | null; longitude?: number | null };
+
+// Prepares the address columns of a company or location being saved:
+// normalizes them, completes a missing city/UF (and street) from the CEP and,
+// with `geocode`, refreshes the coordinates when the address changed and the
+// caller did not send its own. Lookups are best-effort: an unknown CEP or a
+// provider outage never blocks the save.
+export async function prepareAddressUpdate<T extends AddressInput>(
+  input: T,
+  existing: AddressInput | undefined,
+  options: { geocode: boolean }
+): Promise<T> {
+  const prepared: T = { ...input, ...normalizeAddressFields(input) };
+  const valueOf = (key: typeof ADDRESS_KEYS[number]) => (key in prepared ? prepared[key] : existing?.[key]) ?? null;
+  const current = (): AddressFields => ({
+    address: valueOf("address"), city: valueOf("city"), state: valueOf("state"), zipCode: valueOf("zipCode")
+  });
+
+  const { zipCode, city, state, address } = current();
+  if (normalizeCep(zipCode) && (!city || !state)) {
+    const lookup = await lookupCep(zipCode!);
+    if ("address" in lookup && lookup.address) {
+      const fields = postalAddressToFields(lookup.address);
+      Object.assign(prepared, { city: fields.city, state: fields.state, ...(address ? {} : { address: fields.address }) });
+    }
+  }
+
+  const addressChanged = !existing || ADDRESS_KEYS.some(key => key in prepared && prepared[key] !== (existing[key] ?? null));
+  if (options.geocode && addressChanged && !("latitude" in input) && !("longitude" in input)) {
+    const result = await geocodeAddress(current());
+    // Coordinates of a previous address would only mislead the geofence
+    if ("point" in result) {
+      Object.assign(prepared, { latitude: result.point?.latitude ?? null, longitude: result.point?.longitude ?? null });
+    }
+  }
+  return prepared;
+}
@@ -0,0 +1,97 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "../storage";
+import { getEffectivePermissions } from "./auth";
+import { API_KEY_SCOPES, isApiKeyScope, type Permission } from "@shared/permissions";
+import type { ApiKey, PublicApiKey, User } from "@shared/schema";
+
+// Keys look like "cmp_<prefix>_<secret>"; the prefix finds the row, the
+// whole key is compared against the stored sha256
+const KEY_NAMESPACE = "cmp";
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+export interface ApiKeyPrincipal {
+  apiKey: ApiKey;
+  user: User;
+  permissions: Set<Permission>;
+}
+
+function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const prefix = randomBytes(6).toString("hex");
+  const key = `${KEY_NAMESPACE}_${prefix}_${randomBytes(32).toString("base64url")}`;
+  return { key, prefix, keyHash: hashApiKey(key) };
+}
+
+export function toPublicApiKey(apiKey: ApiKey): PublicApiKey {
+  const { keyHash, ...publicKey } = apiKey;
+  return publicKey;
+}
+
+// Accepts "Authorization: Bearer <key>" or "X-API-Key: <key>"
+export function extractApiKey(headers: Record<string, string | string[] | undefined>): string | null {
+  const authorization = headers["authorization"];
+  if (typeof authorization === "string" && authorization.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+  const header = headers["x-api-key"];
+  return typeof header === "string" && header ? header.trim() : null;
+}
+
+// Resolves a raw key to the identity the request runs as, or null when the
+// key is unknown, revoked, expired or its creator was deactivated
+export async function authenticateApiKey(rawKey: string): Promise<ApiKeyPrincipal | null> {
+  const [namespace, prefix] = rawKey.split("_");
+  if (namespace !== KEY_NAMESPACE || !prefix) return null;
+
+  const apiKey = await storage.getApiKeyByPrefix(prefix);
+  if (!apiKey) return null;
+
+  const expected = Buffer.from(apiKey.keyHash, "hex");
+  const actual = Buffer.from(hashApiKey(rawKey), "hex");
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  if (apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now())) {
+    return null;
+  }
+
+  const creator = await storage.getUser(apiKey.createdBy);
+  if (!creator || creator.isActive === false) return null;
+
+  // The key acts for its creator but only inside the key's organization
+  // tree, so a key made by a system admin is still tenant-bound
+  const user: User = {
+    ...creator,
+    organizationId: apiKey.organizationId,
+    role: creator.role === "system_admin" ? "org_admin" : creator.role
+  };
+
+  const creatorPermissions = await getEffectivePermissions(creator);
+  const permissions = new Set<Permission>();
+  for (const scope of apiKey.scopes) {
+    if (!isApiKeyScope(scope)) continue;
+    for (const permission of API_KEY_SCOPES[scope]) {
+      if (creatorPermissions.has(permission)) permissions.add(permission);
+    }
+  }
+
+  return { apiKey, user, permissions };
+}
+
+// Fixed one-minute window per key. Counters live in this process, which is
+// enough for the single-instance deployment
+const rateLimitWindows = new Map<string, { startedAt: number; count: number }>();
+
+export function consumeRateLimit(apiKey: ApiKey, now = Date.now()): { allowed: boolean; retryAfterSeconds: number } {
+  let window = rateLimitWindows.get(apiKey.id);
+  if (!window || now - window.startedAt >= RATE_LIMIT_WINDOW_MS) {
+    window = { startedAt: now, count: 0 };
+    rateLimitWindows.set(apiKey.id, window);
+  }
+
+  window.count++;
+  const retryAfterSeconds = Math.ceil((window.startedAt + RATE_LIMIT_WINDOW_MS - now) / 1000);
+  return { allowed: window.count <= apiKey.rateLimitPerMinute, retryAfterSeconds };
+}
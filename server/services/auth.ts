@@ -1,102 +1,196 @@
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
 import { storage } from "../storage";
-import type { User } from "@shared/schema";
+import type { Request, Response, NextFunction } from "express";
+import type { User, PublicUser } from "@shared/schema";
+import { ALL_PERMISSIONS, DEFAULT_ROLE_PERMISSIONS, isPermission, type Permission } from "@shared/permissions";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
 
 export interface AuthContext {
   user: User;
   organization: any;
-  hasPermission: (permission: string, resourceId?: string) => boolean;
+  permissions: Set<Permission>;
 }
 
-export async function authenticateUser(email: string): Promise<User | null> {
-  const user = await storage.getUserByEmail(email);
-  return user || null;
+export function getSession() {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set to sign session cookies");
+  }
+
+  const PgStore = connectPg(session);
+  const sessionStore = new PgStore({
+    conString: process.env.DATABASE_URL,
+    tableName: "sessions",
+    createTableIfMissing: false, // created by drizzle (see shared/schema.ts)
+    ttl: SESSION_TTL_MS / 1000
+  });
+
+  return session({
+    name: "compia.sid",
+    secret: process.env.SESSION_SECRET,
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    rolling: true,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL_MS
+    }
+  });
 }
 
-export function hasPermission(user: User, permission: string, resourceId?: string): boolean {
-  const { role, organizationId } = user;
+// Passwords are stored as "<salt>:<scrypt hash>" in hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derived = await scryptAsync(password, salt, 64);
+  return `${salt}:${derived.toString("hex")}`;
+}
 
-  switch (permission) {
-    case "view_dashboard":
-      return true; // All users can view dashboard
+export async function verifyPassword(password: string, stored: string | null): Promise<boolean> {
+  if (!stored) return false;
 
-    case "create_organization":
-      return role === "system_admin";
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
 
-    case "manage_organization":
-      return role === "system_admin" || role === "org_admin";
+  const expected = Buffer.from(hash, "hex");
+  const derived = await scryptAsync(password, salt, expected.length);
+  return derived.length === expected.length && timingSafeEqual(derived, expected);
+}
 
-    case "invite_user":
-      return role === "system_admin" || role === "org_admin";
+export async function authenticateUser(email: string, password: string): Promise<User | null> {
+  const user = await storage.getUserByEmail(email.trim());
+  // Accounts linked to an identity provider only sign in through it
+  if (!user || user.isActive === false || user.authProvider !== "password") {
+    return null;
+  }
 
-    case "create_inspection":
-      return role !== "client";
+  const valid = await verifyPassword(password, user.passwordHash);
+  if (!valid) {
+    return null;
+  }
 
-    case "edit_inspection":
-      // Can edit if inspector of the inspection or admin
-      return role === "system_admin" || role === "org_admin" || role === "inspector";
+  return await storage.updateUser(user.id, { lastLoginAt: new Date() });
+}
 
-    case "view_inspection":
-      // Can view if same organization or admin
-      return role === "system_admin" || role === "org_admin" || 
-             (resourceId && user.organizationId === resourceId);
+// Gives the seeded system admin a password from ADMIN_PASSWORD so a fresh
+// install has someone who can log in and invite the rest of the team
+export async function ensureBootstrapAdminPassword(): Promise<void> {
+  const password = process.env.ADMIN_PASSWORD;
+  if (!password) return;
 
-    case "delete_inspection":
-      return role === "system_admin" || role === "org_admin";
+  const admin = await storage.getUserByEmail(process.env.ADMIN_EMAIL || "admin@iasst.com");
+  if (admin && !admin.passwordHash) {
+    await storage.updateUser(admin.id, { passwordHash: await hashPassword(password) });
+    console.log(`Bootstrap password set for ${admin.email}`);
+  }
+}
 
-    case "manage_inspections":
-      return role !== "client";
+// Strip credentials before sending a user to the client
+export function toPublicUser(user: User): PublicUser {
+  const {
+    passwordHash, totpSecret, totpLastUsedStep, recoveryCodes, totpFailedAttempts, totpLockedUntil, calendarFeedTokenHash,
+    ...publicUser
+  } = user;
+  return publicUser;
+}
 
-    case "manage_action_plans":
-      return role !== "client";
+// Organizations can require TOTP for password logins; SSO users get their
+// second factor from the identity provider instead. Any account that still
+// holds a password counts as a password login.
+export async function isTwoFactorSetupRequired(user: User): Promise<boolean> {
+  if (user.totpEnabled || (user.authProvider !== "password" && !user.passwordHash) || !user.organizationId) {
+    return false;
+  }
+  const organization = await storage.getOrganization(user.organizationId);
+  return !!organization?.requireTwoFactor;
+}
 
-    case "view_reports":
-      return true; // All users can view reports for their organization
+// Resolves what a user may do: system admins get everything, a custom role
+// from the user's own organization replaces the defaults of the base role
+export async function getEffectivePermissions(user: User): Promise<Set<Permission>> {
+  if (user.role === "system_admin") {
+    return new Set(ALL_PERMISSIONS);
+  }
 
-    case "export_data":
-      return role !== "client";
+  if (user.customRoleId) {
+    const customRole = await storage.getCustomRole(user.customRoleId);
+    if (customRole && customRole.organizationId === user.organizationId) {
+      // Never more than an organization admin could grant, whatever the
+      // stored role says (no platform administration, no new organizations)
+      const grantable = DEFAULT_ROLE_PERMISSIONS.org_admin;
+      return new Set(customRole.permissions.filter(isPermission).filter(p => grantable.includes(p)));
+    }
+  }
 
-    case "system_admin":
-      return role === "system_admin";
+  return new Set(DEFAULT_ROLE_PERMISSIONS[user.role] || []);
+}
 
-    default:
-      return false;
+export function hasPermission(user: User, permission: Permission, granted?: Set<Permission>): boolean {
+  if (granted) {
+    return granted.has(permission);
   }
+  // Without a resolved set fall back to the built-in role defaults
+  return (DEFAULT_ROLE_PERMISSIONS[user.role] || []).includes(permission);
 }
 
-export async function getOrganizationHierarchy(organizationId: string): Promise<string[]> {
-  const organizations: string[] = [organizationId];
-  
-  // Get all child organizations recursively
-  async function getChildren(parentId: string) {
-    const children = await storage.getOrganizationsByParent(parentId);
-    for (const child of children) {
-      organizations.push(child.id);
-      await getChildren(child.id);
+// Route guard; must run after requireAuth, which resolves req.permissions.
+// With several permissions any one of them lets the caller in, and the
+// handler checks the one that fits the record it touches.
+export function requirePermission(...permissions: [Permission, ...Permission[]]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !permissions.some(permission => hasPermission(req.user!, permission, req.permissions))) {
+      return res.status(403).json({ message: "Sem permissão para esta operação", permission: permissions.join(" | ") });
     }
+    next();
+  };
+}
+
+// Tenancy rule: an organization can read and manage itself and all of its
+// descendants; subsidiaries never see their parent or their siblings
+export async function getOrganizationHierarchy(organizationId: string): Promise<string[]> {
+  return await storage.getDescendantOrganizationIds(organizationId);
+}
+
+export async function getAccessibleOrganizationIds(user: User): Promise<string[] | "all"> {
+  if (user.role === "system_admin") {
+    return "all";
+  }
+  if (!user.organizationId || user.isActive === false) {
+    return [];
   }
-  
-  await getChildren(organizationId);
-  return organizations;
+  return await getOrganizationHierarchy(user.organizationId);
 }
 
-export function canAccessOrganization(user: User, targetOrgId: string): boolean {
+export async function canAccessOrganization(user: User, targetOrgId: string): Promise<boolean> {
   if (user.role === "system_admin") {
     return true; // System admin can access all organizations
   }
-  
-  return user.organizationId === targetOrgId && user.isActive !== false;
+  if (!targetOrgId || user.isActive === false) {
+    return false;
+  }
+  if (user.organizationId === targetOrgId) {
+    return true;
+  }
+
+  const accessibleOrgs = await getAccessibleOrganizationIds(user);
+  return accessibleOrgs.includes(targetOrgId);
 }
 
 export async function filterByOrganizationAccess<T extends { organizationId: string }>(
   user: User,
   items: T[]
 ): Promise<T[]> {
-  if (user.role === "system_admin") {
+  const accessibleOrgs = await getAccessibleOrganizationIds(user);
+  if (accessibleOrgs === "all") {
     return items; // System admin sees everything
   }
 
-  // Get accessible organization IDs
-  const accessibleOrgs = await getOrganizationHierarchy(user.organizationId!);
-  
   return items.filter(item => accessibleOrgs.includes(item.organizationId));
 }
@@ -0,0 +1,146 @@
+import { createHash, randomBytes } from "crypto";
+import { storage } from "../storage";
+import { appUrl } from "./mailer";
+import type { ActionPlan, Inspection, User } from "@shared/schema";
+
+// Personal iCalendar feeds (RFC 5545) for Outlook / Google Calendar
+// subscriptions. Calendar clients cannot send a session or an API key, so the
+// feed URL carries a random token; only its sha256 is stored on the user.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const INSPECTION_STATUS_LABELS: Record<string, string> = {
+  draft: "Agendada",
+  in_progress: "Em andamento",
+  completed: "Concluída",
+  approved: "Aprovada",
+  rejected: "Rejeitada"
+};
+
+// Finished plans drop out of the feed
+const OPEN_ACTION_PLAN_STATUSES = ["pending", "in_progress", "overdue"];
+
+export function hashCalendarFeedToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateCalendarFeedToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashCalendarFeedToken(token) };
+}
+
+export function calendarFeedUrl(token: string): string {
+  return appUrl(`/api/calendar/${token}.ics`);
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Content lines are limited to 75 octets; continuations start with a space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of Array.from(line)) {
+    const charSize = Buffer.byteLength(char, "utf8");
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function inspectionEvent(inspection: Inspection): string[] | null {
+  const start = inspection.scheduledAt ?? inspection.startedAt ?? inspection.completedAt;
+  if (!start) return null;
+
+  const end = inspection.completedAt && inspection.completedAt > start
+    ? inspection.completedAt
+    : new Date(start.getTime() + HOUR_MS);
+  const link = appUrl(`/inspections/${inspection.id}`);
+  const description = [
+    `Status: ${INSPECTION_STATUS_LABELS[inspection.status] ?? inspection.status}`,
+    inspection.companyName ? `Empresa: ${inspection.companyName}` : null,
+    inspection.description,
+    link
+  ].filter(Boolean).join("\n");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:inspection-${inspection.id}@compia`,
+    `DTSTAMP:${formatDateTime(inspection.updatedAt ?? new Date())}`,
+    `DTSTART:${formatDateTime(start)}`,
+    `DTEND:${formatDateTime(end)}`,
+    `SUMMARY:${escapeText(`Inspeção: ${inspection.title}`)}`,
+    `LOCATION:${escapeText(inspection.fullAddress || inspection.location)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${link}`,
+    `STATUS:${inspection.status === "rejected" ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT"
+  ];
+}
+
+// Due dates are all-day events on the due day
+function actionPlanEvent(plan: ActionPlan): string[] | null {
+  if (!plan.dueDate || !OPEN_ACTION_PLAN_STATUSES.includes(plan.status ?? "pending")) return null;
+
+  const nextDay = new Date(plan.dueDate.getTime() + 24 * HOUR_MS);
+  const link = appUrl(`/action-plans?id=${plan.id}`);
+  return [
+    "BEGIN:VEVENT",
+    `UID:action-plan-${plan.id}@compia`,
+    `DTSTAMP:${formatDateTime(plan.updatedAt ?? new Date())}`,
+    `DTSTART;VALUE=DATE:${formatDate(plan.dueDate)}`,
+    `DTEND;VALUE=DATE:${formatDate(nextDay)}`,
+    `SUMMARY:${escapeText(`Prazo do plano de ação: ${plan.title}`)}`,
+    plan.where ? `LOCATION:${escapeText(plan.where)}` : null,
+    `DESCRIPTION:${escapeText([plan.what, link].filter(Boolean).join("\n"))}`,
+    `URL:${link}`,
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT"
+  ].filter((line): line is string => line !== null);
+}
+
+// Inspections assigned to the user and the due dates of their open action plans
+export async function buildUserCalendar(user: User): Promise<string> {
+  const [inspections, actionPlans] = await Promise.all([
+    storage.getInspectionsByInspector(user.id),
+    storage.getActionPlansByAssignee(user.id)
+  ]);
+
+  const events = [
+    ...inspections.map(inspectionEvent),
+    ...actionPlans.map(actionPlanEvent)
+  ].filter((event): event is string[] => event !== null);
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//COMPIA//Inspecoes//PT-BR",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`COMPIA - ${user.name}`)}`,
+    "X-PUBLISHED-TTL:PT1H",
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    ...events.flat(),
+    "END:VCALENDAR"
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,221 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { storage } from "../storage";
+import { formatCnae, normalizeCnpj, type CnpjActivity, type CnpjCompany } from "@shared/cnpj";
+import { normalizeCep } from "@shared/address";
+
+// CNPJ registry lookups. Providers are tried in the order of CNPJ_PROVIDERS
+// (default "brasilapi,receitaws"); a provider that answers 429 is skipped
+// until its Retry-After passes, and any failure falls through to the next
+// one. Answers are cached in cnpj_cache.
+//
+// local: answers from CNPJ_LOCAL_FILE, a JSON array of CnpjCompany
+//        (shared/cnpj.ts); meant for tests and offline development.
+
+const REQUEST_TIMEOUT_MS = 8000;
+// Registration status and address do change, so hits are refreshed monthly
+const FOUND_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MISS_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETRY_AFTER_MS = 60 * 1000;
+const USER_AGENT = "COMPIA-CNPJ/1.0";
+
+type ProviderAnswer =
+  | { status: "found"; company: CnpjCompany }
+  | { status: "not_found" }
+  | { status: "rate_limited"; retryAfterMs: number };
+
+export interface CnpjProvider {
+  name: string;
+  lookup(cnpj: string): Promise<ProviderAnswer>;
+}
+
+function text(value: unknown): string | null {
+  const trimmed = typeof value === "string" ? value.replace(/\s+/g, " ").trim() : "";
+  return trimmed || null;
+}
+
+// dd/mm/yyyy or yyyy-mm-dd to yyyy-mm-dd
+function isoDate(value: unknown): string | null {
+  const date = text(value);
+  const br = date?.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (br) return `${br[3]}-${br[2]}-${br[1]}`;
+  return date && /^\d{4}-\d{2}-\d{2}/.test(date) ? date.slice(0, 10) : null;
+}
+
+function activity(code: unknown, description: unknown): CnpjActivity | null {
+  const cnae = formatCnae(code as string);
+  return cnae ? { code: cnae, description: text(description) ?? "" } : null;
+}
+
+function retryAfterMs(response: Response): number {
+  const seconds = parseInt(response.headers.get("retry-after") ?? "", 10);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : DEFAULT_RETRY_AFTER_MS;
+}
+
+async function request(url: string): Promise<Response> {
+  return fetch(url, {
+    headers: { "Accept": "application/json", "User-Agent": USER_AGENT },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+}
+
+class BrasilApiProvider implements CnpjProvider {
+  name = "brasilapi";
+
+  async lookup(cnpj: string): Promise<ProviderAnswer> {
+    const response = await request(`https://brasilapi.com.br/api/cnpj/v1/${cnpj}`);
+    if (response.status === 429) return { status: "rate_limited", retryAfterMs: retryAfterMs(response) };
+    if (response.status === 404) return { status: "not_found" };
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const data = await response.json();
+    const phone = text(data.ddd_telefone_1);
+    return {
+      status: "found",
+      company: {
+        cnpj,
+        legalName: text(data.razao_social) ?? "",
+        tradeName: text(data.nome_fantasia),
+        registrationStatus: text(data.descricao_situacao_cadastral),
+        openedAt: isoDate(data.data_inicio_atividade),
+        legalNature: text(data.natureza_juridica),
+        mainActivity: activity(data.cnae_fiscal, data.cnae_fiscal_descricao),
+        secondaryActivities: (data.cnaes_secundarios ?? [])
+          .map((item: any) => activity(item.codigo, item.descricao))
+          .filter(Boolean),
+        address: {
+          street: text([data.descricao_tipo_de_logradouro, data.logradouro].filter(Boolean).join(" ")),
+          number: text(data.numero),
+          complement: text(data.complemento),
+          neighborhood: text(data.bairro),
+          city: text(data.municipio),
+          state: text(data.uf),
+          zipCode: normalizeCep(data.cep)
+        },
+        email: text(data.email),
+        phone: phone && phone.length >= 10 ? `(${phone.slice(0, 2)}) ${phone.slice(2)}` : phone,
+        partners: (data.qsa ?? []).map((partner: any) => ({
+          name: text(partner.nome_socio) ?? "",
+          role: text(partner.qualificacao_socio),
+          since: isoDate(partner.data_entrada_sociedade)
+        }))
+      }
+    };
+  }
+}
+
+class ReceitaWsProvider implements CnpjProvider {
+  name = "receitaws";
+
+  async lookup(cnpj: string): Promise<ProviderAnswer> {
+    const response = await request(`https://www.receitaws.com.br/v1/cnpj/${cnpj}`);
+    if (response.status === 429) return { status: "rate_limited", retryAfterMs: retryAfterMs(response) };
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const data = await response.json();
+    // Unknown CNPJs come back as 200 with status ERROR
+    if (data.status === "ERROR") return { status: "not_found" };
+    const [main] = data.atividade_principal ?? [];
+    return {
+      status: "found",
+      company: {
+        cnpj,
+        legalName: text(data.nome) ?? "",
+        tradeName: text(data.fantasia),
+        registrationStatus: text(data.situacao),
+        openedAt: isoDate(data.abertura),
+        legalNature: text(data.natureza_juridica),
+        mainActivity: main ? activity(main.code, main.text) : null,
+        secondaryActivities: (data.atividades_secundarias ?? [])
+          .map((item: any) => activity(item.code, item.text))
+          .filter(Boolean),
+        address: {
+          street: text(data.logradouro),
+          number: text(data.numero),
+          complement: text(data.complemento),
+          neighborhood: text(data.bairro),
+          city: text(data.municipio),
+          state: text(data.uf),
+          zipCode: normalizeCep(data.cep)
+        },
+        email: text(data.email),
+        phone: text(data.telefone),
+        // qual comes as "49-Sócio-Administrador"
+        partners: (data.qsa ?? []).map((partner: any) => ({
+          name: text(partner.nome) ?? "",
+          role: text(partner.qual)?.replace(/^\d+-/, "") ?? null,
+          since: null
+        }))
+      }
+    };
+  }
+}
+
+class LocalCnpjProvider implements CnpjProvider {
+  name = "local";
+  private companies: CnpjCompany[] | null = null;
+
+  constructor(private file: string | undefined) {}
+
+  async lookup(cnpj: string): Promise<ProviderAnswer> {
+    this.companies ??= this.file ? JSON.parse(readFileSync(path.resolve(this.file), "utf8")) : [];
+    const company = this.companies!.find(company => normalizeCnpj(company.cnpj) === cnpj);
+    return company ? { status: "found", company: { ...company, cnpj } } : { status: "not_found" };
+  }
+}
+
+let providers: CnpjProvider[] | undefined;
+// Provider name -> time until which it is not asked again
+const rateLimitedUntil = new Map<string, number>();
+
+function getProviders(): CnpjProvider[] {
+  if (!providers) {
+    providers = (process.env.CNPJ_PROVIDERS || "brasilapi,receitaws").split(",").map(name => name.trim()).filter(Boolean).map(name => {
+      if (name === "brasilapi") return new BrasilApiProvider();
+      if (name === "receitaws") return new ReceitaWsProvider();
+      if (name === "local") return new LocalCnpjProvider(process.env.CNPJ_LOCAL_FILE);
+      throw new Error(`Provedor de CNPJ desconhecido: ${name}`);
+    });
+  }
+  return providers;
+}
+
+// Expects a CNPJ that already passed isValidCnpj
+export async function lookupCnpj(value: string): Promise<{ company: CnpjCompany | null } | { error: string; status: number }> {
+  const cnpj = normalizeCnpj(value);
+  const cached = await storage.getCnpjCacheEntry(cnpj);
+  const fromCache = () => cached!.found ? cached!.data as CnpjCompany : null;
+  const ttl = cached?.found ? FOUND_TTL_MS : MISS_TTL_MS;
+  if (cached && Date.now() - new Date(cached.fetchedAt).getTime() < ttl) return { company: fromCache() };
+
+  let rateLimited = false;
+  for (const provider of getProviders()) {
+    if ((rateLimitedUntil.get(provider.name) ?? 0) > Date.now()) {
+      rateLimited = true;
+      continue;
+    }
+
+    let answer: ProviderAnswer;
+    try {
+      answer = await provider.lookup(cnpj);
+    } catch (error) {
+      console.error(`[cnpj] Lookup via ${provider.name} failed:`, (error as Error).message);
+      continue;
+    }
+    if (answer.status === "rate_limited") {
+      rateLimitedUntil.set(provider.name, Date.now() + answer.retryAfterMs);
+      rateLimited = true;
+      continue;
+    }
+
+    const company = answer.status === "found" ? answer.company : null;
+    await storage.saveCnpjCacheEntry({ cnpj, found: !!company, data: company, provider: provider.name, fetchedAt: new Date() });
+    return { company };
+  }
+
+  // An expired answer beats none while every provider is unavailable
+  if (cached) return { company: fromCache() };
+  return rateLimited
+    ? { error: "Limite de consultas de CNPJ atingido. Tente novamente em alguns minutos.", status: 503 }
+    : { error: "Serviço de consulta de CNPJ indisponível. Preencha os dados manualmente.", status: 502 };
+}
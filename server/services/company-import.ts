@@ -0,0 +1,294 @@
+import { storage } from "../storage";
+import { runWithoutTenant } from "../db";
+import { prepareAddressUpdate } from "./address";
+import { formatCnpj, formatCnae } from "@shared/cnpj";
+import {
+  COMPANY_IMPORT_FIELDS, companyImportKey, normalizeImportRecord, summarizeImportResults, validateImportRecord,
+  type CompanyImportPreview, type CompanyImportRecord, type CompanyImportRowResult, type CompanyImportView,
+  type ExistingCompanyPolicy
+} from "@shared/company-import";
+import type { Company, CompanyLocation, CompanyImport, CompanyImportInput, InsertCompany, InsertCompanyLocation } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 30 * 1000;
+// Progress is saved every this many rows; a restart resumes from there
+const PROGRESS_BATCH = 25;
+
+// State shared by the rows of one run. In a dry run nothing is written and
+// companies the file would create get placeholder ids.
+interface ImportContext {
+  organizationId: string;
+  userId: string;
+  existingCompanies: ExistingCompanyPolicy;
+  dryRun: boolean;
+  companies: Map<string, Pick<Company, "id">>; // by companyImportKey
+  firstRows: Map<string, number>; // line where each company first appeared
+  locationNames: Map<string, Set<string>>; // by company id, lower case
+}
+
+async function createImportContext(
+  organizationId: string,
+  userId: string,
+  existingCompanies: ExistingCompanyPolicy,
+  dryRun: boolean
+): Promise<ImportContext> {
+  const companies = new Map<string, Pick<Company, "id">>();
+  for (const company of await storage.getCompaniesByOrganization(organizationId)) {
+    const key = companyImportKey(company);
+    if (!companies.has(key)) companies.set(key, company);
+  }
+  return { organizationId, userId, existingCompanies, dryRun, companies, firstRows: new Map(), locationNames: new Map() };
+}
+
+// Non-empty values only, so an update never blanks a column the file left empty
+function companyFields(record: CompanyImportRecord): Partial<Company> {
+  const fields: Partial<Company> = {};
+  for (const key of ["name", "email", "phone", "website", "address", "city", "state", "zipCode",
+    "responsibleName", "responsibleRole", "responsibleEmail", "responsiblePhone", "notes"] as const) {
+    if (record[key]) fields[key] = record[key];
+  }
+  if (record.cnpj) fields.cnpj = formatCnpj(record.cnpj);
+  if (record.cnae) fields.cnae = formatCnae(record.cnae);
+  if (fields.email) fields.email = fields.email.toLowerCase();
+  return fields;
+}
+
+function locationFields(record: CompanyImportRecord): Partial<CompanyLocation> {
+  const fields: Partial<CompanyLocation> = { name: record.locationName };
+  const columns = {
+    type: record.locationType,
+    address: record.locationAddress,
+    city: record.locationCity,
+    state: record.locationState,
+    zipCode: record.locationZipCode,
+    responsibleName: record.locationResponsibleName,
+    responsiblePhone: record.locationResponsiblePhone,
+    responsibleEmail: record.locationResponsibleEmail?.toLowerCase()
+  };
+  for (const [key, value] of Object.entries(columns)) {
+    if (value) fields[key as keyof typeof columns] = value;
+  }
+  return fields;
+}
+
+async function getLocationNames(companyId: string, context: ImportContext): Promise<Set<string>> {
+  let names = context.locationNames.get(companyId);
+  if (!names) {
+    const existing = companyId.startsWith("new:") ? [] : await storage.getCompanyLocationsByCompany(companyId);
+    names = new Set(existing.map(location => location.name.trim().toLowerCase()));
+    context.locationNames.set(companyId, names);
+  }
+  return names;
+}
+
+async function importRecord(input: CompanyImportRecord, context: ImportContext): Promise<CompanyImportRowResult> {
+  const record = normalizeImportRecord(input);
+  const result: CompanyImportRowResult = {
+    row: record.row,
+    name: record.name ?? "",
+    cnpj: record.cnpj ? formatCnpj(record.cnpj) : null,
+    company: null,
+    location: null,
+    errors: validateImportRecord(record),
+    warnings: []
+  };
+  if (result.errors.length) return result;
+
+  const key = companyImportKey(record);
+  let company = context.companies.get(key);
+  const firstRow = context.firstRows.get(key);
+  if (firstRow !== undefined) {
+    // Later rows of a company only add locations
+    result.company = "existing";
+    if (!record.locationName) result.warnings.push(`Empresa repetida na planilha (linha ${firstRow})`);
+  } else if (!company) {
+    company = context.dryRun
+      ? { id: `new:${key}` }
+      : await storage.createCompany({
+        ...(await prepareAddressUpdate(companyFields(record), undefined, { geocode: false })),
+        organizationId: context.organizationId,
+        createdBy: context.userId
+      } as InsertCompany);
+    context.companies.set(key, company);
+    result.company = "created";
+  } else if (context.existingCompanies === "update") {
+    if (!context.dryRun) {
+      const existing = await storage.getCompany(company.id);
+      await storage.updateCompany(company.id, await prepareAddressUpdate(companyFields(record), existing, { geocode: false }));
+    }
+    result.company = "updated";
+  } else {
+    result.company = "existing";
+    result.warnings.push("Empresa já cadastrada; dados mantidos");
+  }
+  context.firstRows.set(key, firstRow ?? record.row);
+
+  if (record.locationName) {
+    const names = await getLocationNames(company!.id, context);
+    const name = record.locationName.trim().toLowerCase();
+    if (names.has(name)) {
+      result.location = "existing";
+      result.warnings.push(`Local "${record.locationName}" já cadastrado nesta empresa`);
+    } else {
+      if (!context.dryRun) {
+        await storage.createCompanyLocation({
+          ...(await prepareAddressUpdate(locationFields(record), undefined, { geocode: true })),
+          companyId: company!.id,
+          createdBy: context.userId
+        } as InsertCompanyLocation);
+      }
+      names.add(name);
+      result.location = "created";
+    }
+  }
+  return result;
+}
+
+// Dry run: what the import would do with each row, without writing anything
+export async function previewCompanyImport(organizationId: string, userId: string, input: CompanyImportInput): Promise<CompanyImportPreview> {
+  const context = await createImportContext(organizationId, userId, input.existingCompanies, true);
+  const results: CompanyImportRowResult[] = [];
+  for (const record of input.records as CompanyImportRecord[]) {
+    results.push(await importRecord(record, context));
+  }
+  return { summary: summarizeImportResults(results.length, results), results };
+}
+
+export async function queueCompanyImport(organizationId: string, userId: string, input: CompanyImportInput): Promise<CompanyImport> {
+  const job = await storage.createCompanyImport({
+    organizationId,
+    fileName: input.fileName,
+    existingCompanies: input.existingCompanies,
+    records: input.records,
+    totalRows: input.records.length,
+    createdBy: userId
+  });
+  kickWorker();
+  return job;
+}
+
+export function toCompanyImportView(job: CompanyImport): CompanyImportView {
+  const results = job.results as CompanyImportRowResult[];
+  return {
+    id: job.id,
+    fileName: job.fileName,
+    status: job.status as CompanyImportView["status"],
+    existingCompanies: job.existingCompanies as ExistingCompanyPolicy,
+    totalRows: job.totalRows,
+    processedRows: job.processedRows,
+    error: job.error,
+    summary: summarizeImportResults(job.totalRows, results),
+    issues: results.filter(result => result.errors.length || result.warnings.length),
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() ?? null,
+    completedAt: job.completedAt?.toISOString() ?? null
+  };
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  const text = String(value ?? "");
+  return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Rejected rows with their original values, so the file can be fixed and
+// imported again. Semicolon-separated with a BOM, as Excel in pt-BR expects.
+export function buildImportErrorReport(job: CompanyImport): string {
+  const records = new Map((job.records as CompanyImportRecord[]).map(record => [record.row, record]));
+  const header = ["Linha", "Erros", ...COMPANY_IMPORT_FIELDS.map(field => field.label)];
+  const lines = (job.results as CompanyImportRowResult[])
+    .filter(result => result.errors.length)
+    .map(result => {
+      const record = records.get(result.row);
+      return [result.row, result.errors.join(" | "), ...COMPANY_IMPORT_FIELDS.map(field => record?.[field.key])];
+    });
+  return "\uFEFF" + [header, ...lines].map(line => line.map(csvCell).join(";")).join("\r\n");
+}
+
+async function notifyCreator(job: CompanyImport, title: string, message: string) {
+  await storage.createNotification({
+    userId: job.createdBy,
+    organizationId: job.organizationId,
+    type: "company_import",
+    title,
+    message,
+    link: `/companies/import/${job.id}`,
+    entityType: "company_import",
+    entityId: job.id
+  });
+}
+
+async function runImport(job: CompanyImport): Promise<void> {
+  const records = job.records as CompanyImportRecord[];
+  const results = [...(job.results as CompanyImportRowResult[])];
+  await storage.updateCompanyImport(job.id, { status: "running", startedAt: job.startedAt ?? new Date() });
+
+  try {
+    const context = await createImportContext(job.organizationId, job.createdBy, job.existingCompanies as ExistingCompanyPolicy, false);
+    // Rows imported before a restart still count as the first appearance
+    results.forEach((result, i) => {
+      const key = companyImportKey(normalizeImportRecord(records[i]));
+      if (result.company && !context.firstRows.has(key)) context.firstRows.set(key, result.row);
+    });
+
+    for (let i = results.length; i < records.length; i++) {
+      let result: CompanyImportRowResult;
+      try {
+        result = await importRecord(records[i], context);
+      } catch (error) {
+        result = {
+          row: records[i].row, name: records[i].name ?? "", cnpj: records[i].cnpj ?? null,
+          company: null, location: null, errors: [(error as Error).message], warnings: []
+        };
+      }
+      results.push(result);
+      if (results.length % PROGRESS_BATCH === 0) {
+        await storage.updateCompanyImport(job.id, { results, processedRows: results.length });
+      }
+    }
+
+    await storage.updateCompanyImport(job.id, { status: "completed", results, processedRows: results.length, completedAt: new Date() });
+    const summary = summarizeImportResults(records.length, results);
+    await storage.createActivityLog({
+      userId: job.createdBy,
+      organizationId: job.organizationId,
+      action: "import_companies",
+      entityType: "company_import",
+      entityId: job.id,
+      details: { fileName: job.fileName, ...summary }
+    });
+    await notifyCreator(job, "Importação de empresas concluída",
+      `${job.fileName}: ${summary.companiesCreated} empresa(s) e ${summary.locationsCreated} local(is) criados` +
+      (summary.failedRows ? `, ${summary.failedRows} linha(s) com erro.` : "."));
+  } catch (error) {
+    console.error(`Company import ${job.id} failed:`, error);
+    await storage.updateCompanyImport(job.id, {
+      status: "failed", results, processedRows: results.length, error: (error as Error).message, completedAt: new Date()
+    });
+    await notifyCreator(job, "Importação de empresas falhou", `${job.fileName}: ${(error as Error).message}`);
+  }
+}
+
+let processing = false;
+
+async function processPendingImports(): Promise<void> {
+  if (processing) return;
+  processing = true;
+  try {
+    for (const job of await storage.getUnfinishedCompanyImports()) {
+      await runImport(job);
+    }
+  } catch (error) {
+    console.error("Company import worker failed:", error);
+  } finally {
+    processing = false;
+  }
+}
+
+function kickWorker() {
+  runWithoutTenant(() => setImmediate(() => { processPendingImports(); }));
+}
+
+export function startCompanyImportWorker() {
+  const timer = setInterval(() => runWithoutTenant(processPendingImports), POLL_INTERVAL_MS);
+  timer.unref();
+  kickWorker();
+}
@@ -0,0 +1,346 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from "crypto";
+import path from "path";
+import type { Request, Response } from "express";
+import multer from "multer";
+import sharp from "sharp";
+import exifr from "exifr";
+import { storage } from "../storage";
+import { getDefaultStorageDriver, getStorageDriver } from "./file-storage";
+import type { EvidenceAnnotations, EvidenceFile, File, InsertFile, Organization, PublicFile, User } from "@shared/schema";
+
+// Evidence uploads: photos and documents attached to inspections (optionally
+// to a checklist item) and action plans. Files are buffered in memory, checked
+// against the type list and the organization quota, then written through the
+// storage driver together with a thumbnail for images.
+
+export const MAX_EVIDENCE_FILE_BYTES = 15 * 1024 * 1024;
+export const MAX_EVIDENCE_FILES_PER_UPLOAD = 10;
+const THUMBNAIL_SIZE = 400;
+const SIGNED_URL_TTL_SECONDS = 15 * 60;
+const REPORT_IMAGE_SIZE = 1200;
+const MAX_REPORT_IMAGES = 60;
+
+// Accepted types and the leading bytes their content must start with
+const EVIDENCE_TYPES: Record<string, { extension: string; signature?: (buffer: Buffer) => boolean }> = {
+  "image/jpeg": { extension: ".jpg", signature: b => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  "image/png": { extension: ".png", signature: b => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  "image/webp": { extension: ".webp", signature: b => b.toString("latin1", 0, 4) === "RIFF" && b.toString("latin1", 8, 12) === "WEBP" },
+  "image/heic": { extension: ".heic", signature: b => b.toString("latin1", 4, 8) === "ftyp" },
+  "image/heif": { extension: ".heif", signature: b => b.toString("latin1", 4, 8) === "ftyp" },
+  "application/pdf": { extension: ".pdf", signature: b => b.toString("latin1", 0, 5) === "%PDF-" },
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": { extension: ".docx", signature: isZip },
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": { extension: ".xlsx", signature: isZip },
+  "text/plain": { extension: ".txt" },
+  "text/csv": { extension: ".csv" }
+};
+
+function isZip(buffer: Buffer): boolean {
+  return buffer.toString("latin1", 0, 4) === "PK\u0003\u0004";
+}
+
+// Default quota per subscription plan; organizations.storageQuotaMb overrides it
+const PLAN_STORAGE_QUOTA_MB: Record<string, number> = {
+  basic: 1024,
+  pro: 10 * 1024,
+  enterprise: 100 * 1024
+};
+
+export type EvidenceUploadResult<T> = T | { error: string; status: number };
+
+export interface EvidenceTarget {
+  organizationId: string;
+  inspectionId?: string;
+  actionPlanId?: string;
+  itemId?: string;
+}
+
+// Annotated copy of an image: same attachment as the original, plus the
+// vector drawing it was rendered from
+export interface EvidenceRevision {
+  original: File;
+  annotations: EvidenceAnnotations;
+}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_EVIDENCE_FILE_BYTES, files: MAX_EVIDENCE_FILES_PER_UPLOAD }
+}).array("files", MAX_EVIDENCE_FILES_PER_UPLOAD);
+
+// Parses a multipart body with the files in the "files" field
+export function receiveEvidenceUpload(req: Request, res: Response): Promise<EvidenceUploadResult<{ files: Express.Multer.File[] }>> {
+  return new Promise((resolve) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        if (error.code === "LIMIT_FILE_SIZE") {
+          return resolve({ error: `Arquivo excede o limite de ${MAX_EVIDENCE_FILE_BYTES / 1024 / 1024} MB`, status: 413 });
+        }
+        if (error.code === "LIMIT_FILE_COUNT" || error.code === "LIMIT_UNEXPECTED_FILE") {
+          return resolve({ error: `Envie até ${MAX_EVIDENCE_FILES_PER_UPLOAD} arquivos no campo "files"`, status: 400 });
+        }
+        return resolve({ error: error.message, status: 400 });
+      }
+      if (error) return resolve({ error: (error as Error).message, status: 400 });
+
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      if (files.length === 0) return resolve({ error: "Nenhum arquivo enviado", status: 400 });
+      resolve({ files });
+    });
+  });
+}
+
+// Browsers report the type from the extension, so the content is checked too
+export function getEvidenceTypeError(file: Pick<Express.Multer.File, "originalname" | "mimetype" | "buffer">): string | null {
+  const type = EVIDENCE_TYPES[file.mimetype];
+  if (!type) {
+    return `Tipo de arquivo não permitido: ${file.originalname} (${file.mimetype || "desconhecido"})`;
+  }
+  if (type.signature && !type.signature(file.buffer)) {
+    return `O conteúdo de ${file.originalname} não corresponde ao tipo ${file.mimetype}`;
+  }
+  return null;
+}
+
+export function getStorageQuotaBytes(organization: Organization): number {
+  const quotaMb = organization.storageQuotaMb ?? PLAN_STORAGE_QUOTA_MB[organization.plan || "basic"] ?? PLAN_STORAGE_QUOTA_MB.basic;
+  return quotaMb * 1024 * 1024;
+}
+
+export async function getStorageUsage(organizationId: string) {
+  const organization = await storage.getOrganization(organizationId);
+  const usedBytes = await storage.getOrganizationStorageUsage(organizationId);
+  const quotaBytes = organization ? getStorageQuotaBytes(organization) : 0;
+  return { usedBytes, quotaBytes };
+}
+
+interface ImageMetadata {
+  capturedAt: Date | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+// Capture time and GPS position from EXIF, when the camera recorded them
+async function readImageMetadata(buffer: Buffer): Promise<ImageMetadata> {
+  try {
+    const exif = await exifr.parse(buffer, { gps: true, pick: ["DateTimeOriginal", "CreateDate", "GPSLatitude", "GPSLongitude", "GPSLatitudeRef", "GPSLongitudeRef"] });
+    const capturedAt = exif?.DateTimeOriginal || exif?.CreateDate;
+    return {
+      capturedAt: capturedAt instanceof Date && !Number.isNaN(capturedAt.getTime()) ? capturedAt : null,
+      latitude: typeof exif?.latitude === "number" ? exif.latitude : null,
+      longitude: typeof exif?.longitude === "number" ? exif.longitude : null
+    };
+  } catch {
+    return { capturedAt: null, latitude: null, longitude: null };
+  }
+}
+
+// Formats sharp cannot decode (HEIC without libheif) simply get no thumbnail
+async function createThumbnail(buffer: Buffer): Promise<Buffer | null> {
+  try {
+    return await sharp(buffer)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 75 })
+      .toBuffer();
+  } catch {
+    return null;
+  }
+}
+
+// Validates the whole batch first so a rejected file does not leave the
+// others half stored
+export async function storeEvidenceFiles(
+  user: User,
+  target: EvidenceTarget,
+  uploads: Express.Multer.File[],
+  revision?: EvidenceRevision
+): Promise<EvidenceUploadResult<{ files: File[] }>> {
+  for (const file of uploads) {
+    const error = getEvidenceTypeError(file);
+    if (error) return { error, status: 415 };
+  }
+
+  const { usedBytes, quotaBytes } = await getStorageUsage(target.organizationId);
+  const incoming = uploads.reduce((total, file) => total + file.size, 0);
+  if (usedBytes + incoming > quotaBytes) {
+    return {
+      error: `Cota de armazenamento da organização excedida (${Math.round(usedBytes / 1024 / 1024)} de ${Math.round(quotaBytes / 1024 / 1024)} MB usados)`,
+      status: 413
+    };
+  }
+
+  const driver = getDefaultStorageDriver();
+  const month = new Date().toISOString().slice(0, 7);
+  const files: File[] = [];
+
+  for (const upload of uploads) {
+    const id = randomUUID();
+    const baseKey = `${target.organizationId}/${month}/${id}`;
+    const storageKey = `${baseKey}${EVIDENCE_TYPES[upload.mimetype].extension}`;
+    const isImage = upload.mimetype.startsWith("image/");
+    // A canvas export has no EXIF; the revision keeps the original's capture data
+    const metadata = revision
+      ? { capturedAt: revision.original.capturedAt, latitude: revision.original.latitude, longitude: revision.original.longitude }
+      : isImage ? await readImageMetadata(upload.buffer) : { capturedAt: null, latitude: null, longitude: null };
+    const thumbnail = isImage ? await createThumbnail(upload.buffer) : null;
+
+    await driver.put(storageKey, upload.buffer, upload.mimetype);
+    if (thumbnail) await driver.put(`${baseKey}_thumb.webp`, thumbnail, "image/webp");
+
+    files.push(await storage.createFile({
+      id,
+      name: path.basename(upload.originalname).slice(0, 255),
+      type: upload.mimetype,
+      size: upload.size,
+      url: `/api/files/${id}/download`,
+      inspectionId: target.inspectionId ?? null,
+      actionPlanId: target.actionPlanId ?? null,
+      itemId: target.itemId ?? null,
+      storageDriver: driver.name,
+      storageKey,
+      thumbnailKey: thumbnail ? `${baseKey}_thumb.webp` : null,
+      checksum: createHash("sha256").update(upload.buffer).digest("hex"),
+      ...metadata,
+      originalFileId: revision?.original.id ?? null,
+      annotations: revision?.annotations ?? null,
+      organizationId: target.organizationId,
+      uploadedBy: user.id
+    } as InsertFile));
+  }
+  return { files };
+}
+
+// Storage location stays on the server; clients use the download routes
+export function toPublicFile(file: File): PublicFile {
+  const { storageDriver, storageKey, thumbnailKey, ...publicFile } = file;
+  return { ...publicFile, thumbnailUrl: thumbnailKey ? `/api/files/${file.id}/thumbnail` : null };
+}
+
+// Listings show each original once, with its newest annotated revision as
+// the version to display
+export function groupEvidenceRevisions(files: File[]): EvidenceFile[] {
+  const latestRevision = new Map<string, File>();
+  for (const file of files) {
+    if (!file.originalFileId) continue;
+    const current = latestRevision.get(file.originalFileId);
+    if (!current || (file.createdAt?.getTime() ?? 0) >= (current.createdAt?.getTime() ?? 0)) {
+      latestRevision.set(file.originalFileId, file);
+    }
+  }
+  return files
+    .filter(file => !file.originalFileId)
+    .map(file => {
+      const revision = latestRevision.get(file.id);
+      return { ...toPublicFile(file), annotatedVersion: revision ? toPublicFile(revision) : null };
+    });
+}
+
+// Only stored images can be annotated; revisions always hang off the original
+export async function getAnnotatableOriginal(file: File): Promise<EvidenceUploadResult<File>> {
+  const original = file.originalFileId ? await storage.getFile(file.originalFileId) : file;
+  if (!original) return { error: "Arquivo original não encontrado", status: 404 };
+  if (!original.type.startsWith("image/") || !original.storageDriver || !original.storageKey) {
+    return { error: "Apenas imagens enviadas como evidência podem ser anotadas", status: 400 };
+  }
+  return original;
+}
+
+async function readFileContent(file: File): Promise<Buffer> {
+  const { body } = await getStorageDriver(file.storageDriver!).get(file.storageKey!);
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+export interface ReportEvidenceImage {
+  id: string;
+  name: string;
+  itemId: string | null;
+  annotated: boolean;
+  capturedAt: Date | null;
+  dataUrl: string;
+}
+
+// Images embedded in generated reports, annotated version first. Reports are
+// standalone documents, so the pictures go in as resized data URLs
+export async function loadReportEvidenceImages(files: File[]): Promise<ReportEvidenceImage[]> {
+  const images: ReportEvidenceImage[] = [];
+  for (const evidence of groupEvidenceRevisions(files)) {
+    if (images.length >= MAX_REPORT_IMAGES) break;
+    const shown = files.find(file => file.id === (evidence.annotatedVersion?.id ?? evidence.id))!;
+    if (!shown.type.startsWith("image/") || !shown.storageDriver || !shown.storageKey) continue;
+    try {
+      const resized = await sharp(await readFileContent(shown))
+        .rotate()
+        .resize(REPORT_IMAGE_SIZE, REPORT_IMAGE_SIZE, { fit: "inside", withoutEnlargement: true })
+        .jpeg({ quality: 80 })
+        .toBuffer();
+      images.push({
+        id: evidence.id,
+        name: evidence.name,
+        itemId: evidence.itemId,
+        annotated: !!evidence.annotatedVersion,
+        capturedAt: evidence.capturedAt,
+        dataUrl: `data:image/jpeg;base64,${resized.toString("base64")}`
+      });
+    } catch (error) {
+      console.error(`Evidence ${shown.id} left out of the report:`, error);
+    }
+  }
+  return images;
+}
+
+// Evidence ids attached to an inspection must be files uploaded to it
+export async function findForeignEvidence(inspectionId: string, evidenceIds: string[]): Promise<string[]> {
+  const ids = Array.from(new Set(evidenceIds));
+  if (ids.length === 0) return [];
+  const owned = new Set((await storage.getFilesByIds(ids)).filter(file => file.inspectionId === inspectionId).map(file => file.id));
+  return ids.filter(id => !owned.has(id));
+}
+
+export type FileVariant = "download" | "thumbnail";
+
+function signFileUrl(fileId: string, variant: FileVariant, expires: number): string {
+  return createHmac("sha256", process.env.SESSION_SECRET || "")
+    .update(`${fileId}:${variant}:${expires}`)
+    .digest("hex");
+}
+
+// Link that works without a session (reports, emails, integrations) until it expires
+export function createSignedFileUrl(file: File, variant: FileVariant = "download", ttlSeconds = SIGNED_URL_TTL_SECONDS) {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  return {
+    url: `/api/files/${file.id}/${variant}?expires=${expires}&signature=${signFileUrl(file.id, variant, expires)}`,
+    expiresAt: new Date(expires * 1000)
+  };
+}
+
+export function verifyFileSignature(fileId: string, variant: FileVariant, expires: unknown, signature: unknown): boolean {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000 || typeof signature !== "string") return false;
+  const expected = Buffer.from(signFileUrl(fileId, variant, expiresAt), "hex");
+  const given = Buffer.from(signature, "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Streams the file (or its thumbnail) to the response; S3 objects are
+// redirected to a short-lived presigned URL instead of being proxied
+export async function sendFileContent(file: File, variant: FileVariant, res: Response) {
+  const key = variant === "thumbnail" ? file.thumbnailKey : file.storageKey;
+  if (!file.storageDriver || !key) {
+    return res.status(404).json({ message: "Arquivo indisponível" });
+  }
+
+  const driver = getStorageDriver(file.storageDriver);
+  const contentType = variant === "thumbnail" ? "image/webp" : file.type;
+  if (driver.getDirectUrl) {
+    return res.redirect(302, await driver.getDirectUrl(key, { fileName: file.name, contentType, expiresInSeconds: 300 }));
+  }
+
+  const object = await driver.get(key);
+  res.setHeader("Content-Type", contentType);
+  if (object.size !== undefined) res.setHeader("Content-Length", String(object.size));
+  res.setHeader("Content-Disposition", `inline; filename*=UTF-8''${encodeURIComponent(file.name)}`);
+  res.setHeader("Cache-Control", "private, max-age=3600");
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  object.body.pipe(res);
+}
@@ -1,8 +1,15 @@
 import type { Inspection, ActionPlan, Organization, ChecklistTemplate } from "@shared/schema";
 import { generateQRCode } from "./documents";
+import type { ReportEvidenceImage } from "./evidence";
+import { SIGNATURE_ROLE_LABELS, type SignatureVerification } from "./inspection-signatures";
+import type { FollowUpComparison } from "./inspection-follow-up";
+import type { QrLabel } from "./qr-assets";
+import { QR_ASSET_KIND_LABELS } from "@shared/qr-assets";
+import { FOLLOW_UP_OUTCOME_LABELS, type FollowUpOutcome } from "@shared/inspection-follow-up";
+import { INSPECTION_RESPONSE_STATUS_LABELS, type InspectionItemResponse } from "@shared/inspection-responses";
 
 // PDF Export functionality
-export async function exportToPDF(data: any, type: "inspection" | "report" | "checklist"): Promise<Buffer> {
+export async function exportToPDF(data: any, type: "inspection" | "report" | "checklist" | "follow_up" | "qr_labels"): Promise<Buffer> {
   // Create HTML structure based on type
   let html = `
     <!DOCTYPE html>
@@ -50,6 +57,25 @@ export async function exportToPDF(data: any, type: "inspection" | "report" | "ch
           border-top: 2px solid #E2E8F0; 
         }
         .qr-code { width: 150px; height: 150px; margin: 20px auto; }
+        .evidence-grid { display: grid; grid-template-columns: repeat(2, 1fr); gap: 16px; }
+        .evidence { page-break-inside: avoid; background: white; padding: 8px; border-radius: 8px; }
+        .evidence img { width: 100%; border-radius: 4px; }
+        .evidence p { font-size: 12px; color: #475569; }
+        .signature { page-break-inside: avoid; background: white; padding: 12px; border-radius: 8px; margin: 10px 0; }
+        .signature img { height: 80px; border-bottom: 1px solid #94A3B8; }
+        .signature .hash { font-family: monospace; font-size: 11px; word-break: break-all; }
+        .signature-status { font-weight: bold; }
+        .signature-status.valid { color: #065F46; }
+        .signature-status.invalid { color: #991B1B; }
+        .comparison { page-break-inside: avoid; background: white; padding: 12px; border-radius: 8px; margin: 10px 0; }
+        .comparison-grid { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; }
+        .comparison-grid img { width: 100%; border-radius: 4px; margin-top: 8px; }
+        .label-sheet { display: grid; grid-template-columns: repeat(3, 1fr); gap: 8mm; }
+        .qr-label { page-break-inside: avoid; border: 1px dashed #94A3B8; border-radius: 4px; padding: 4mm; text-align: center; }
+        .qr-label img { width: 40mm; height: 40mm; }
+        .qr-label .name { font-weight: bold; font-size: 13px; }
+        .qr-label p { font-size: 11px; color: #475569; line-height: 1.3; }
+        @media print { body.labels { padding: 0; } @page { size: A4; margin: 10mm; } }
         .metric-card {
           background: white;
           padding: 20px;
@@ -77,7 +103,8 @@ export async function exportToPDF(data: any, type: "inspection" | "report" | "ch
   `;
 
   if (type === "inspection") {
-    const inspection = data as Inspection;
+    // evidenceImages and signatureVerification are loaded by the report route
+    const inspection = data as Inspection & { evidenceImages?: ReportEvidenceImage[]; signatureVerification?: SignatureVerification };
     const qrCodeData = await generateQRCode(`inspection-${inspection.id}`);
     
     html += `
@@ -151,6 +178,15 @@ export async function exportToPDF(data: any, type: "inspection" | "report" | "ch
         </div>
       ` : ''}
       
+      ${inspection.evidenceImages && inspection.evidenceImages.length > 0 ? `
+        <div class="section">
+          <h2>Evidências Fotográficas</h2>
+          <div class="evidence-grid">
+            ${renderEvidenceImages(inspection.evidenceImages, inspection.checklist as any[])}
+          </div>
+        </div>
+      ` : ''}
+      
       ${inspection.recommendations ? `
         <div class="section">
           <h2>Recomendações</h2>
@@ -165,6 +201,13 @@ export async function exportToPDF(data: any, type: "inspection" | "report" | "ch
         </div>
       ` : ''}
       
+      ${inspection.signatureVerification ? `
+        <div class="section">
+          <h2>Verificação de Assinaturas</h2>
+          ${renderSignatureVerification(inspection.signatureVerification)}
+        </div>
+      ` : ''}
+      
       <div class="qr-code">
         <img src="${qrCodeData}" alt="QR Code" style="width: 100%; height: 100%;">
       </div>
@@ -245,6 +288,88 @@ export async function exportToPDF(data: any, type: "inspection" | "report" | "ch
     </body>
     </html>
   `;
+  } else if (type === "follow_up") {
+    // Evidence images of both inspections are loaded by the report route
+    const { parent, followUp, rows, beforeImages, afterImages } = data as FollowUpComparison & {
+      beforeImages: ReportEvidenceImage[];
+      afterImages: ReportEvidenceImage[];
+    };
+    const counts = rows.reduce((acc, row) => ({ ...acc, [row.outcome]: (acc[row.outcome] || 0) + 1 }), {} as Partial<Record<FollowUpOutcome, number>>);
+    
+    html += `
+      <div class="header">
+        <div class="logo">COMPIA</div>
+        <div>Relatório de Verificação</div>
+      </div>
+      
+      <h1 class="title">${escapeHtml(followUp.title)}</h1>
+      <p class="subtitle">${escapeHtml(followUp.location)}</p>
+      
+      <div class="section">
+        <h2>Inspeções Comparadas</h2>
+        <table class="table">
+          <tr>
+            <td><strong>Inspeção original:</strong></td>
+            <td>${escapeHtml(parent.title)} - ${parent.completedAt ? new Date(parent.completedAt).toLocaleDateString('pt-BR') : translateStatus(parent.status || 'draft')}</td>
+          </tr>
+          <tr>
+            <td><strong>Verificação:</strong></td>
+            <td>${followUp.completedAt ? new Date(followUp.completedAt).toLocaleDateString('pt-BR') : translateStatus(followUp.status || 'draft')}</td>
+          </tr>
+          <tr>
+            <td><strong>Resultado:</strong></td>
+            <td>${(Object.keys(FOLLOW_UP_OUTCOME_LABELS) as FollowUpOutcome[])
+              .filter(outcome => counts[outcome])
+              .map(outcome => `${counts[outcome]} ${FOLLOW_UP_OUTCOME_LABELS[outcome].toLowerCase()}`)
+              .join(', ')}</td>
+          </tr>
+        </table>
+      </div>
+      
+      <div class="section">
+        <h2>Antes e Depois</h2>
+        <table class="table">
+          <thead>
+            <tr>
+              <th>Item</th>
+              <th>Antes</th>
+              <th>Depois</th>
+              <th>Resultado</th>
+              <th>Planos de Ação</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rows.map(row => `
+              <tr>
+                <td>${escapeHtml(row.label)}${row.standard ? `<br><small>${escapeHtml(row.standard)}</small>` : ''}</td>
+                <td>${renderComparedResponse(row.before)}</td>
+                <td>${renderComparedResponse(row.after)}</td>
+                <td><span class="badge ${OUTCOME_BADGES[row.outcome]}">${FOLLOW_UP_OUTCOME_LABELS[row.outcome]}</span></td>
+                <td>${row.actionPlans.map(plan => `${escapeHtml(plan.title)} (${translateStatus(plan.status || 'pending')})`).join('<br>') || '-'}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+      
+      ${rows.some(row => beforeImages.some(image => image.itemId === row.itemId) || afterImages.some(image => image.itemId === row.itemId)) ? `
+        <div class="section">
+          <h2>Evidências Fotográficas</h2>
+          ${rows.map(row => renderComparedEvidence(
+            row.label,
+            beforeImages.filter(image => image.itemId === row.itemId),
+            afterImages.filter(image => image.itemId === row.itemId)
+          )).join('')}
+        </div>
+      ` : ''}
+      
+      <div class="footer">
+        <p>Documento gerado em ${new Date().toLocaleDateString('pt-BR')} às ${new Date().toLocaleTimeString('pt-BR')}</p>
+        <p>COMPIA - Sistema Inteligente de Segurança do Trabalho</p>
+      </div>
+    </body>
+    </html>
+  `;
   } else if (type === "checklist") {
     const template = data as ChecklistTemplate;
     
@@ -312,6 +437,24 @@ export async function exportToPDF(data: any, type: "inspection" | "report" | "ch
     </body>
     </html>
   `;
+  } else if (type === "qr_labels") {
+    const labels = data as QrLabel[];
+    
+    // Cut-out stickers, three per row; the shared padding is dropped when printing
+    html = html.replace('<body>', '<body class="labels">') + `
+      <div class="label-sheet">
+        ${labels.map(label => `
+          <div class="qr-label">
+            <img src="${label.qrCode}" alt="QR Code de ${escapeHtml(label.name)}">
+            <p class="name">${escapeHtml(label.name)}</p>
+            ${label.tag ? `<p>${escapeHtml(label.tag)}</p>` : ''}
+            <p>${QR_ASSET_KIND_LABELS[label.kind]} - ${escapeHtml(label.companyName)}${label.locationName ? ` - ${escapeHtml(label.locationName)}` : ''}</p>
+          </div>
+        `).join('')}
+      </div>
+    </body>
+    </html>
+  `;
   }
 
   // Convert HTML to PDF (simplified - in production would use puppeteer or similar)
@@ -407,7 +550,8 @@ export async function exportToWord(data: any, type: "inspection" | "action-plan"
   let content = '';
   
   if (type === "inspection") {
-    const inspection = data as Inspection;
+    // evidenceImages and signatureVerification are loaded by the report route
+    const inspection = data as Inspection & { evidenceImages?: ReportEvidenceImage[]; signatureVerification?: SignatureVerification };
     
     content = `
 RELATÓRIO DE INSPEÇÃO DE SEGURANÇA
@@ -522,7 +666,8 @@ function translateStatus(status: string): string {
     approved: 'Aprovado',
     rejected: 'Rejeitado',
     pending: 'Pendente',
-    overdue: 'Atrasado'
+    overdue: 'Atrasado',
+    cancelled: 'Cancelado'
   };
   return translations[status] || status;
 }
@@ -567,6 +712,79 @@ function renderFindings(findings: any[]): string {
   `).join('');
 }
 
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function renderEvidenceImages(images: ReportEvidenceImage[], checklist: any[]): string {
+  const itemLabels = new Map((checklist || []).map(item => [item.id, item.label || item.item]));
+  
+  return images.map(image => `
+    <div class="evidence">
+      <img src="${image.dataUrl}" alt="${escapeHtml(image.name)}">
+      <p><strong>${escapeHtml(image.name)}</strong>${image.annotated ? ' (anotada)' : ''}</p>
+      ${image.itemId && itemLabels.get(image.itemId) ? `<p>${escapeHtml(String(itemLabels.get(image.itemId)))}</p>` : ''}
+      ${image.capturedAt ? `<p>Capturada em ${new Date(image.capturedAt).toLocaleString('pt-BR')}</p>` : ''}
+    </div>
+  `).join('');
+}
+
+const OUTCOME_BADGES: Record<FollowUpOutcome, string> = {
+  resolved: 'low',
+  persisting: 'critical',
+  not_applicable: 'medium',
+  pending: 'medium'
+};
+
+function renderComparedResponse(response: InspectionItemResponse | null): string {
+  if (!response) return '-';
+  return [
+    `<strong>${INSPECTION_RESPONSE_STATUS_LABELS[response.status] || response.status}</strong>`,
+    response.severity ? `Severidade: ${response.severity}` : '',
+    response.notes ? escapeHtml(response.notes) : ''
+  ].filter(Boolean).join('<br>');
+}
+
+function renderComparedEvidence(label: string, before: ReportEvidenceImage[], after: ReportEvidenceImage[]): string {
+  if (before.length === 0 && after.length === 0) return '';
+  const column = (title: string, images: ReportEvidenceImage[]) => `
+    <div>
+      <p><strong>${title}</strong></p>
+      ${images.map(image => `<img src="${image.dataUrl}" alt="${escapeHtml(image.name)}">`).join('') || '<p>Sem fotos</p>'}
+    </div>
+  `;
+  return `
+    <div class="comparison">
+      <p><strong>${escapeHtml(label)}</strong></p>
+      <div class="comparison-grid">
+        ${column('Antes', before)}
+        ${column('Depois', after)}
+      </div>
+    </div>
+  `;
+}
+
+function renderSignatureVerification(verification: SignatureVerification): string {
+  const current = verification.signatures.filter(signature => signature.current);
+  if (current.length === 0) return '<p>Inspeção ainda não assinada.</p>';
+  
+  return `
+    <p>Hash SHA-256 do conteúdo atual: <span class="hash">${verification.payloadHash}</span></p>
+    ${current.map(signature => `
+      <div class="signature">
+        <img src="${signature.image}" alt="Assinatura de ${escapeHtml(signature.signerName)}">
+        <p><strong>${escapeHtml(signature.signerName)}</strong>${signature.signerDocument ? ` (${escapeHtml(signature.signerDocument)})` : ''} - ${SIGNATURE_ROLE_LABELS[signature.role as keyof typeof SIGNATURE_ROLE_LABELS] || signature.role}</p>
+        <p>Assinado em ${new Date(signature.signedAt).toLocaleString('pt-BR')} - IP ${escapeHtml(signature.ipAddress || 'desconhecido')}</p>
+        <p>Dispositivo: ${escapeHtml(signature.userAgent || 'desconhecido')}</p>
+        <p>Hash assinado: <span class="hash">${signature.payloadHash}</span></p>
+        <p class="signature-status ${signature.valid ? 'valid' : 'invalid'}">
+          ${signature.valid ? 'Assinatura válida: o conteúdo não foi alterado desde a assinatura' : 'Assinatura inválida: a inspeção foi alterada após a assinatura'}
+        </p>
+      </div>
+    `).join('')}
+  `;
+}
+
 function renderFindingsText(findings: any[]): string {
   if (!findings || findings.length === 0) return 'Nenhuma não conformidade encontrada';
   
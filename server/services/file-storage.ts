@@ -0,0 +1,126 @@
+import { createReadStream } from "fs";
+import { mkdir, writeFile, unlink, stat } from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+// Where uploaded evidence is kept. FILE_STORAGE_DRIVER picks the driver for
+// new uploads (local by default); each file row records the driver it was
+// written with, so switching drivers does not orphan existing files.
+//
+// local: FILE_STORAGE_DIR (default ./uploads)
+// s3:    S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY.
+//        Set S3_FORCE_PATH_STYLE=true for MinIO.
+
+export type FileStorageDriverName = "local" | "s3";
+
+export interface StoredObject {
+  body: Readable;
+  size?: number;
+}
+
+export interface FileStorageDriver {
+  name: FileStorageDriverName;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject>;
+  remove(key: string): Promise<void>;
+  // Direct, time-limited link to the object; drivers without one are
+  // served through the API instead
+  getDirectUrl?(key: string, options: { fileName: string; contentType: string; expiresInSeconds: number }): Promise<string>;
+}
+
+class LocalDiskDriver implements FileStorageDriver {
+  name = "local" as const;
+
+  constructor(private root: string) {}
+
+  // Keys are generated by the server, but never let one escape the root
+  private resolve(key: string): string {
+    const target = path.resolve(this.root, key);
+    if (!target.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error("Chave de arquivo inválida");
+    }
+    return target;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const target = this.resolve(key);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, body);
+  }
+
+  async get(key: string): Promise<StoredObject> {
+    const target = this.resolve(key);
+    const { size } = await stat(target);
+    return { body: createReadStream(target), size };
+  }
+
+  async remove(key: string): Promise<void> {
+    await unlink(this.resolve(key)).catch((error) => {
+      if (error.code !== "ENOENT") throw error;
+    });
+  }
+}
+
+class S3Driver implements FileStorageDriver {
+  name = "s3" as const;
+  private client: S3Client;
+
+  constructor(private bucket: string) {
+    this.client = new S3Client({
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      credentials: process.env.S3_ACCESS_KEY_ID
+        ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "" }
+        : undefined
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: body, ContentType: contentType }));
+  }
+
+  async get(key: string): Promise<StoredObject> {
+    const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    return { body: object.Body as Readable, size: object.ContentLength };
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async getDirectUrl(key: string, options: { fileName: string; contentType: string; expiresInSeconds: number }): Promise<string> {
+    return getSignedUrl(this.client, new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ResponseContentType: options.contentType,
+      ResponseContentDisposition: `inline; filename*=UTF-8''${encodeURIComponent(options.fileName)}`
+    }), { expiresIn: options.expiresInSeconds });
+  }
+}
+
+const drivers = new Map<FileStorageDriverName, FileStorageDriver>();
+
+export function getStorageDriver(name: string): FileStorageDriver {
+  if (name !== "local" && name !== "s3") {
+    throw new Error(`Driver de armazenamento desconhecido: ${name}`);
+  }
+  let driver = drivers.get(name);
+  if (!driver) {
+    if (name === "s3") {
+      if (!process.env.S3_BUCKET) throw new Error("S3_BUCKET must be set to use the s3 storage driver");
+      driver = new S3Driver(process.env.S3_BUCKET);
+    } else {
+      driver = new LocalDiskDriver(path.resolve(process.env.FILE_STORAGE_DIR || "uploads"));
+    }
+    drivers.set(name, driver);
+  }
+  return driver;
+}
+
+// Driver for new uploads
+export function getDefaultStorageDriver(): FileStorageDriver {
+  return getStorageDriver(process.env.FILE_STORAGE_DRIVER || "local");
+}
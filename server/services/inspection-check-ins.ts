@@ -0,0 +1,86 @@
+import { storage } from "../storage";
+import { filterByOrganizationAccess } from "./auth";
+import {
+  DEFAULT_GEOFENCE_RADIUS_METERS, evaluateGeofence, isGeofenceFlagged, worstGeofenceStatus,
+  type CheckInEvent, type DevicePosition, type GeofenceStatus, type GeoPoint
+} from "@shared/geofence";
+import type { Inspection, InspectionCheckIn, User } from "@shared/schema";
+
+// Inspections per map request; a wider range should be narrowed instead
+const MAX_MAP_INSPECTIONS = 500;
+
+export interface CheckInMapEntry {
+  inspection: Pick<Inspection, "id" | "title" | "location" | "status" | "companyName" | "technicianName" | "geofenceStatus">;
+  checkIns: InspectionCheckIn[];
+}
+
+// The registered site: the company location the inspection is tied to, or
+// the coordinates recorded on the inspection itself
+async function getSiteCoordinates(inspection: Inspection): Promise<GeoPoint | null> {
+  const location = inspection.locationId ? await storage.getCompanyLocation(inspection.locationId) : undefined;
+  const site = location?.latitude != null && location?.longitude != null ? location : inspection;
+  return site.latitude != null && site.longitude != null ? { latitude: site.latitude, longitude: site.longitude } : null;
+}
+
+export async function recordCheckIn(
+  user: User,
+  inspection: Inspection,
+  event: CheckInEvent,
+  position: DevicePosition | undefined
+): Promise<InspectionCheckIn> {
+  const [site, organization, previous] = await Promise.all([
+    getSiteCoordinates(inspection),
+    storage.getOrganization(inspection.organizationId),
+    storage.getInspectionCheckIns(inspection.id)
+  ]);
+  const radiusMeters = organization?.geofenceRadiusMeters ?? DEFAULT_GEOFENCE_RADIUS_METERS;
+  const { status, distanceMeters } = evaluateGeofence(position, site, radiusMeters);
+
+  const checkIn = await storage.createInspectionCheckIn({
+    organizationId: inspection.organizationId,
+    inspectionId: inspection.id,
+    userId: user.id,
+    event,
+    latitude: position?.latitude ?? null,
+    longitude: position?.longitude ?? null,
+    accuracy: position?.accuracy ?? null,
+    capturedAt: position?.capturedAt ? new Date(position.capturedAt) : null,
+    siteLatitude: site?.latitude ?? null,
+    siteLongitude: site?.longitude ?? null,
+    radiusMeters,
+    distanceMeters,
+    status
+  });
+
+  const geofenceStatus = worstGeofenceStatus([...previous.map(p => p.status as GeofenceStatus), status]);
+  await storage.updateInspection(inspection.id, { geofenceStatus });
+
+  if (isGeofenceFlagged(status)) {
+    await storage.createActivityLog({
+      userId: user.id,
+      organizationId: inspection.organizationId,
+      action: "geofence_flagged",
+      entityType: "inspection",
+      entityId: inspection.id,
+      details: { event, status, distanceMeters, radiusMeters }
+    });
+  }
+  return checkIn;
+}
+
+// Where inspections were actually performed in [from, to), for auditors
+export async function getCheckInMap(user: User, from: Date, to: Date, flaggedOnly: boolean): Promise<CheckInMapEntry[]> {
+  const checkIns = await filterByOrganizationAccess(user, await storage.getInspectionCheckInsBetween(from, to));
+  const byInspection = new Map<string, InspectionCheckIn[]>();
+  for (const checkIn of checkIns) {
+    byInspection.set(checkIn.inspectionId, [...(byInspection.get(checkIn.inspectionId) ?? []), checkIn]);
+  }
+
+  const inspections = await storage.getInspectionsByIds(Array.from(byInspection.keys()).slice(0, MAX_MAP_INSPECTIONS));
+  return inspections
+    .filter(inspection => !flaggedOnly || isGeofenceFlagged(inspection.geofenceStatus))
+    .map(({ id, title, location, status, companyName, technicianName, geofenceStatus }) => ({
+      inspection: { id, title, location, status, companyName, technicianName, geofenceStatus },
+      checkIns: byInspection.get(id)!
+    }));
+}
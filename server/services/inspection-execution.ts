@@ -0,0 +1,278 @@
+import { storage } from "../storage";
+import { canAccessOrganization } from "./auth";
+import { emitWebhookEvent } from "./webhooks";
+import { findForeignEvidence } from "./evidence";
+import { resolveReviewer, recordSubmission } from "./inspection-review";
+import { closeResolvedActionPlans } from "./inspection-follow-up";
+import { recordCheckIn } from "./inspection-check-ins";
+import {
+  normalizeChecklistItems, validateInspectionResponses, scoreInspectionResponses, responsesToFindings,
+  type ChecklistItemDefinition, type InspectionItemResponse, type InspectionScore
+} from "@shared/inspection-responses";
+import { canTransitionInspection } from "@shared/inspection-workflow";
+import type { DevicePosition } from "@shared/geofence";
+import type { Inspection, User } from "@shared/schema";
+
+// Answers are checked against the checklist snapshot taken when the
+// inspection was created; older inspections fall back to the template
+export async function getInspectionChecklistItems(inspection: Inspection): Promise<ChecklistItemDefinition[]> {
+  const items = normalizeChecklistItems(inspection.checklist);
+  if (items.length > 0 || !inspection.checklistTemplateId) return items;
+  return normalizeChecklistItems((await storage.getChecklistTemplate(inspection.checklistTemplateId))?.items);
+}
+
+// Evidence on answers must reference files uploaded to this inspection
+async function validateEvidence(inspection: Inspection, responses: InspectionItemResponse[]): Promise<string[]> {
+  const foreign = await findForeignEvidence(inspection.id, responses.flatMap(response => response.evidence ?? []));
+  return foreign.map(id => `Evidência "${id}" não pertence a esta inspeção`);
+}
+
+// Both start and completion record where the device was (see inspection-check-ins)
+export async function startInspection(user: User, inspection: Inspection, position?: DevicePosition): Promise<Inspection> {
+  await recordCheckIn(user, inspection, 'start', position);
+  const updated = await storage.updateInspection(inspection.id, {
+    status: 'in_progress',
+    startedAt: new Date()
+  });
+
+  await emitWebhookEvent(inspection.organizationId, 'inspection.started', updated);
+
+  await storage.createActivityLog({
+    userId: user.id,
+    organizationId: inspection.organizationId,
+    action: 'Inspeção iniciada',
+    entityType: 'inspection',
+    entityId: inspection.id,
+    details: { status: 'in_progress' }
+  });
+
+  return updated;
+}
+
+// Validates and merges answers into the inspection, stamping each with the
+// save time. Returns the validation errors instead when there are any.
+export async function saveInspectionResponses(
+  inspection: Inspection,
+  responses: InspectionItemResponse[],
+  removedItemIds: string[]
+): Promise<{ errors: string[] } | { inspection: Inspection }> {
+  const items = await getInspectionChecklistItems(inspection);
+  const errors = [
+    ...validateInspectionResponses(items, responses, { partial: true }),
+    ...await validateEvidence(inspection, responses)
+  ];
+  if (errors.length > 0) return { errors };
+
+  const updatedAt = new Date().toISOString();
+  const stamped = responses.map(response => ({ ...response, updatedAt }));
+  return { inspection: await storage.saveInspectionResponses(inspection.id, stamped, removedItemIds) };
+}
+
+export async function completeInspection(
+  user: User,
+  inspection: Inspection,
+  responses: InspectionItemResponse[],
+  reviewerId?: string,
+  position?: DevicePosition
+): Promise<{ errors: string[] } | { inspection: Inspection; summary: InspectionScore }> {
+  const items = await getInspectionChecklistItems(inspection);
+  const errors = [
+    ...validateInspectionResponses(items, responses),
+    ...await validateEvidence(inspection, responses)
+  ];
+  if (errors.length > 0) return { errors };
+
+  // Completing submits the inspection for review
+  const resolved = await resolveReviewer(inspection, reviewerId);
+  if ("error" in resolved) return { errors: [resolved.error] };
+  const { reviewer } = resolved;
+
+  await recordCheckIn(user, inspection, 'complete', position);
+  const summary = scoreInspectionResponses(items, responses);
+  const updated = await storage.updateInspection(inspection.id, {
+    status: 'completed',
+    completedAt: new Date(),
+    reviewerId: reviewer?.id ?? null,
+    responses,
+    score: summary.score,
+    findings: responsesToFindings(items, responses)
+  } as any);
+
+  await storage.createActivityLog({
+    userId: user.id,
+    organizationId: inspection.organizationId,
+    action: 'complete_inspection',
+    entityType: 'inspection',
+    entityId: inspection.id,
+    details: summary
+  });
+
+  await emitWebhookEvent(inspection.organizationId, 'inspection.completed', updated);
+  await recordSubmission(user, updated, reviewer);
+  if (updated.parentInspectionId) await closeResolvedActionPlans(user, updated);
+
+  return { inspection: updated, summary };
+}
+
+export interface SyncChangeInput {
+  id: string;
+  inspectionId: string;
+  kind: "start" | "responses" | "complete";
+  responses: (InspectionItemResponse & { baseUpdatedAt?: string | null })[];
+  removed: { itemId: string; baseUpdatedAt?: string | null }[];
+  position?: DevicePosition;
+}
+
+export interface SyncConflict {
+  itemId: string;
+  // Answer currently on the server (null when it was cleared there)
+  server: InspectionItemResponse | null;
+  client: InspectionItemResponse | null;
+}
+
+export interface SyncChangeResult {
+  id: string;
+  inspectionId: string;
+  status: "applied" | "conflict" | "rejected";
+  message?: string;
+  errors?: string[];
+  conflicts?: SyncConflict[];
+  // Server state after the change, for the client to refresh its copy
+  inspection?: Pick<Inspection, "id" | "status" | "responses" | "score" | "updatedAt">;
+}
+
+function inspectionState(inspection: Inspection): SyncChangeResult["inspection"] {
+  const { id, status, responses, score, updatedAt } = inspection;
+  return { id, status, responses, score, updatedAt };
+}
+
+// An answer conflicts when the server copy changed after the version the
+// client edited offline. Answers saved before versions existed never conflict.
+function hasChangedSince(server: InspectionItemResponse | undefined, baseUpdatedAt: string | null | undefined): boolean {
+  if (!server?.updatedAt) return false;
+  return server.updatedAt !== baseUpdatedAt;
+}
+
+async function applyChange(user: User, inspection: Inspection, change: SyncChangeInput, blocked: Set<string>): Promise<SyncChangeResult> {
+  const base = { id: change.id, inspectionId: change.inspectionId };
+
+  // Completing on top of answers that did not go through would score the
+  // server's version instead of what the inspector saw
+  if (blocked.has(change.inspectionId)) {
+    return {
+      ...base,
+      status: "conflict",
+      message: "Alterações anteriores desta inspeção não foram aplicadas",
+      inspection: inspectionState(inspection)
+    };
+  }
+
+  if (change.kind === "start") {
+    if (inspection.status === "in_progress") {
+      return { ...base, status: "applied", inspection: inspectionState(inspection) };
+    }
+    if (!canTransitionInspection(inspection.status, "start")) {
+      return { ...base, status: "conflict", message: "A inspeção já foi finalizada em outro dispositivo", inspection: inspectionState(inspection) };
+    }
+    return { ...base, status: "applied", inspection: inspectionState(await startInspection(user, inspection, change.position)) };
+  }
+
+  if (inspection.status !== "in_progress") {
+    return {
+      ...base,
+      status: "conflict",
+      message: inspection.status === "draft"
+        ? "A inspeção ainda não foi iniciada"
+        : "A inspeção já foi finalizada em outro dispositivo",
+      inspection: inspectionState(inspection)
+    };
+  }
+
+  if (change.kind === "complete") {
+    const result = await completeInspection(user, inspection, (inspection.responses ?? []) as InspectionItemResponse[], undefined, change.position);
+    if ("errors" in result) {
+      return { ...base, status: "rejected", message: `Respostas inválidas: ${result.errors.join("; ")}`, errors: result.errors };
+    }
+    return { ...base, status: "applied", inspection: inspectionState(result.inspection) };
+  }
+
+  const current = new Map(((inspection.responses ?? []) as InspectionItemResponse[]).map(r => [r.itemId, r]));
+  const conflicts: SyncConflict[] = [];
+  const responses: InspectionItemResponse[] = [];
+  const removed: string[] = [];
+
+  for (const { baseUpdatedAt, ...response } of change.responses) {
+    if (hasChangedSince(current.get(response.itemId), baseUpdatedAt)) {
+      conflicts.push({ itemId: response.itemId, server: current.get(response.itemId) ?? null, client: response });
+    } else {
+      responses.push(response);
+    }
+  }
+  for (const { itemId, baseUpdatedAt } of change.removed) {
+    if (hasChangedSince(current.get(itemId), baseUpdatedAt)) {
+      conflicts.push({ itemId, server: current.get(itemId) ?? null, client: null });
+    } else {
+      removed.push(itemId);
+    }
+  }
+
+  let updated = inspection;
+  if (responses.length > 0 || removed.length > 0) {
+    const result = await saveInspectionResponses(inspection, responses, removed);
+    if ("errors" in result) {
+      return { ...base, status: "rejected", message: `Respostas inválidas: ${result.errors.join("; ")}`, errors: result.errors };
+    }
+    updated = result.inspection;
+  }
+
+  return {
+    ...base,
+    status: conflicts.length > 0 ? "conflict" : "applied",
+    message: conflicts.length > 0 ? "Alguns itens foram alterados em outro dispositivo" : undefined,
+    conflicts: conflicts.length > 0 ? conflicts : undefined,
+    inspection: inspectionState(updated)
+  };
+}
+
+// Applies offline changes in order. Each change is recorded under the id the
+// client generated, so a batch resent after a lost response is not applied twice.
+export async function applySyncChanges(user: User, changes: SyncChangeInput[]): Promise<SyncChangeResult[]> {
+  const results: SyncChangeResult[] = [];
+  const blocked = new Set<string>();
+
+  for (const change of changes) {
+    const existing = await storage.getSyncChange(change.id);
+    if (existing && existing.userId !== user.id) {
+      results.push({ id: change.id, inspectionId: change.inspectionId, status: "rejected", message: "Identificador de alteração já utilizado" });
+      continue;
+    }
+    if (existing) {
+      const result = existing.result as SyncChangeResult;
+      if (result.status !== "applied") blocked.add(change.inspectionId);
+      results.push(result);
+      continue;
+    }
+
+    const inspection = await storage.getInspection(change.inspectionId);
+    if (!inspection || !(await canAccessOrganization(user, inspection.organizationId))) {
+      blocked.add(change.inspectionId);
+      results.push({ id: change.id, inspectionId: change.inspectionId, status: "rejected", message: "Inspeção não encontrada" });
+      continue;
+    }
+
+    const result = await applyChange(user, inspection, change, blocked);
+    if (result.status !== "applied") blocked.add(change.inspectionId);
+
+    await storage.createSyncChange({
+      id: change.id,
+      organizationId: inspection.organizationId,
+      userId: user.id,
+      inspectionId: change.inspectionId,
+      kind: change.kind,
+      status: result.status,
+      result
+    });
+    results.push(result);
+  }
+  return results;
+}
@@ -0,0 +1,183 @@
+import { storage } from "../storage";
+import { emitWebhookEvent } from "./webhooks";
+import { canAccessOrganization } from "./auth";
+import { getInspectionChecklistItems } from "./inspection-execution";
+import { ACTION_PLAN_TRANSITIONS, canTransitionActionPlan } from "@shared/action-plans";
+import {
+  buildFollowUpChecklist, compareFollowUp, getNonConformItemIds, type FollowUpComparisonRow
+} from "@shared/inspection-follow-up";
+import type { InspectionItemResponse } from "@shared/inspection-responses";
+import type { ActionPlan, Inspection, InsertInspection, User } from "@shared/schema";
+
+export type FollowUpResult<T> = T | { error: string; status: number };
+
+// Follow-ups of follow-ups are allowed; this only guards against bad data
+const MAX_LINEAGE_DEPTH = 20;
+
+export interface FollowUpComparison {
+  parent: Inspection;
+  followUp: Inspection;
+  rows: (FollowUpComparisonRow & { actionPlans: ActionPlan[] })[];
+}
+
+export async function createFollowUpInspection(
+  user: User,
+  parent: Inspection,
+  input: { scheduledAt?: Date; inspectorId?: string }
+): Promise<FollowUpResult<Inspection>> {
+  if (parent.status !== "completed" && parent.status !== "approved") {
+    return { error: "Apenas inspeções concluídas podem ter verificação agendada", status: 409 };
+  }
+
+  const itemIds = getNonConformItemIds(parent.responses as InspectionItemResponse[]);
+  const checklist = buildFollowUpChecklist(parent.checklist, itemIds);
+  if (checklist.length === 0) {
+    return { error: "A inspeção não tem itens não conformes para verificar", status: 409 };
+  }
+
+  const inspector = await storage.getUser(input.inspectorId || parent.inspectorId);
+  if (!inspector || inspector.isActive === false || inspector.organizationId !== parent.organizationId) {
+    return { error: "Inspetor não encontrado nesta organização", status: 400 };
+  }
+
+  const inspection = await storage.createInspection({
+    title: `Verificação: ${parent.title}`,
+    description: `Verificação das ${checklist.length} não conformidade(s) da inspeção "${parent.title}"`,
+    location: parent.location,
+    status: "draft",
+    organizationId: parent.organizationId,
+    inspectorId: inspector.id,
+    checklistTemplateId: parent.checklistTemplateId,
+    checklist,
+    scheduledAt: input.scheduledAt ?? null,
+    priority: parent.priority,
+    companyName: parent.companyName,
+    zipCode: parent.zipCode,
+    fullAddress: parent.fullAddress,
+    latitude: parent.latitude,
+    longitude: parent.longitude,
+    technicianName: inspector.name,
+    technicianEmail: inspector.email,
+    companyResponsibleName: parent.companyResponsibleName,
+    parentInspectionId: parent.id,
+    locationId: parent.locationId,
+    equipmentId: parent.equipmentId
+  } as InsertInspection);
+
+  await storage.createActivityLog({
+    userId: user.id,
+    organizationId: parent.organizationId,
+    action: "create_follow_up_inspection",
+    entityType: "inspection",
+    entityId: inspection.id,
+    details: { parentInspectionId: parent.id, items: checklist.length }
+  });
+  if (inspector.id !== user.id) {
+    await storage.createNotification({
+      userId: inspector.id,
+      organizationId: parent.organizationId,
+      type: "inspection_follow_up",
+      title: "Verificação agendada",
+      message: input.scheduledAt
+        ? `"${inspection.title}" está agendada para ${input.scheduledAt.toLocaleString("pt-BR")} em ${inspection.location}.`
+        : `${user.name} agendou "${inspection.title}" em ${inspection.location}.`,
+      link: `/inspections/${inspection.id}`,
+      entityType: "inspection",
+      entityId: inspection.id
+    });
+  }
+  await emitWebhookEvent(parent.organizationId, "inspection.created", inspection);
+  return inspection;
+}
+
+// Parent, grandparent, ... of a follow-up, closest first
+async function getAncestors(inspection: Inspection): Promise<Inspection[]> {
+  const ancestors: Inspection[] = [];
+  let parentId = inspection.parentInspectionId;
+  while (parentId && ancestors.length < MAX_LINEAGE_DEPTH) {
+    const parent = await storage.getInspection(parentId);
+    if (!parent || ancestors.some(ancestor => ancestor.id === parent.id)) break;
+    ancestors.push(parent);
+    parentId = parent.parentInspectionId;
+  }
+  return ancestors;
+}
+
+// Plans opened for an item on any earlier inspection of the chain
+async function getLinkedActionPlans(inspection: Inspection): Promise<ActionPlan[]> {
+  const plans: ActionPlan[] = [];
+  for (const ancestor of await getAncestors(inspection)) {
+    plans.push(...(await storage.getActionPlansByInspection(ancestor.id)).filter(plan => plan.itemId));
+  }
+  return plans;
+}
+
+export async function getFollowUpComparison(followUp: Inspection): Promise<FollowUpComparison | null> {
+  const parent = followUp.parentInspectionId ? await storage.getInspection(followUp.parentInspectionId) : undefined;
+  if (!parent) return null;
+
+  const rows = compareFollowUp(
+    await getInspectionChecklistItems(followUp),
+    parent.responses as InspectionItemResponse[],
+    followUp.responses as InspectionItemResponse[]
+  );
+  const plans = await getLinkedActionPlans(followUp);
+  return {
+    parent,
+    followUp,
+    rows: rows.map(row => ({ ...row, actionPlans: plans.filter(plan => plan.itemId === row.itemId) }))
+  };
+}
+
+// Completing a follow-up closes the open plans of every item now conform
+export async function closeResolvedActionPlans(user: User, followUp: Inspection): Promise<ActionPlan[]> {
+  const resolved = new Set(
+    ((followUp.responses ?? []) as InspectionItemResponse[])
+      .filter(response => response.status === "conform")
+      .map(response => response.itemId)
+  );
+  if (resolved.size === 0) return [];
+
+  const closed: ActionPlan[] = [];
+  for (const plan of await getLinkedActionPlans(followUp)) {
+    if (plan.isActive === false || !resolved.has(plan.itemId!) || !canTransitionActionPlan(plan.status, "complete")) continue;
+
+    const updated = await storage.updateActionPlan(plan.id, {
+      status: ACTION_PLAN_TRANSITIONS.complete.to,
+      completedAt: new Date()
+    });
+    await storage.createActivityLog({
+      userId: user.id,
+      organizationId: plan.organizationId,
+      action: "complete_action_plan",
+      entityType: "action_plan",
+      entityId: plan.id,
+      details: { from: plan.status, to: updated.status, followUpInspectionId: followUp.id }
+    });
+    await emitWebhookEvent(plan.organizationId, "action_plan.status_changed", {
+      ...updated,
+      previousStatus: plan.status
+    });
+    closed.push(updated);
+  }
+  return closed;
+}
+
+// Plans may point at a checklist item of their inspection
+export async function getActionPlanItemError(inspectionId: string, itemId: string | null | undefined): Promise<string | null> {
+  if (!itemId) return null;
+  const inspection = await storage.getInspection(inspectionId);
+  if (!inspection) return "Inspeção não encontrada";
+  const items = await getInspectionChecklistItems(inspection);
+  return items.some(item => item.id === itemId) ? null : "Item não pertence ao checklist da inspeção";
+}
+
+// The assignee must be an active user who can reach the plan's organization
+export async function getActionPlanAssigneeError(organizationId: string, assignedTo: string | null | undefined): Promise<string | null> {
+  if (!assignedTo) return null;
+  const assignee = await storage.getUser(assignedTo);
+  if (!assignee || assignee.isActive === false || !(await canAccessOrganization(assignee, organizationId))) {
+    return "Responsável não pertence à organização do plano de ação";
+  }
+  return null;
+}
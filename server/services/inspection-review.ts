@@ -0,0 +1,163 @@
+import { storage } from "../storage";
+import { getEffectivePermissions } from "./auth";
+import { sendMail, appUrl } from "./mailer";
+import { emitWebhookEvent } from "./webhooks";
+import { INSPECTION_TRANSITIONS, canTransitionInspection, type ReviewAction, type ReviewDecision } from "@shared/inspection-workflow";
+import type { Inspection, User } from "@shared/schema";
+
+export type ReviewResult<T> = T | { error: string; status: number };
+
+// Active users of the organization allowed to approve, other than the inspector
+export async function getEligibleReviewers(inspection: Inspection): Promise<User[]> {
+  const users = await storage.getUsersByOrganization(inspection.organizationId);
+  const eligible: User[] = [];
+  for (const user of users) {
+    if (user.isActive === false || user.id === inspection.inspectorId) continue;
+    if ((await getEffectivePermissions(user)).has("inspection:approve")) eligible.push(user);
+  }
+  return eligible;
+}
+
+// The requested reviewer, else the one who reviewed the previous submission,
+// else whoever has the fewest inspections waiting. Null when nobody in the
+// organization can approve; any approver may then take the review.
+export async function resolveReviewer(inspection: Inspection, requestedId?: string): Promise<ReviewResult<{ reviewer: User | null }>> {
+  const eligible = await getEligibleReviewers(inspection);
+  if (requestedId) {
+    const requested = eligible.find(user => user.id === requestedId);
+    if (!requested) {
+      return { error: "O revisor precisa ser um gestor ativo da organização e não pode ser o próprio inspetor", status: 400 };
+    }
+    return { reviewer: requested };
+  }
+
+  const previous = eligible.find(user => user.id === inspection.reviewerId);
+  if (previous) return { reviewer: previous };
+  if (eligible.length === 0) return { reviewer: null };
+
+  const pending = await storage.getPendingReviewCounts(inspection.organizationId);
+  return { reviewer: eligible.reduce((best, user) => (pending.get(user.id) ?? 0) < (pending.get(best.id) ?? 0) ? user : best) };
+}
+
+async function recordReview(inspection: Inspection, action: ReviewAction, actor: User, reviewer: User | null, comments?: string | null) {
+  return await storage.createInspectionReview({
+    organizationId: inspection.organizationId,
+    inspectionId: inspection.id,
+    action,
+    actorId: actor.id,
+    actorName: actor.name,
+    reviewerId: reviewer?.id ?? null,
+    reviewerName: reviewer?.name ?? null,
+    comments: comments || null
+  });
+}
+
+async function notifyUser(recipient: User, inspection: Inspection, type: string, title: string, message: string) {
+  const link = `/inspections/${inspection.id}`;
+  await storage.createNotification({
+    userId: recipient.id,
+    organizationId: inspection.organizationId,
+    type,
+    title,
+    message,
+    link,
+    entityType: "inspection",
+    entityId: inspection.id
+  });
+  try {
+    await sendMail({
+      to: recipient.email,
+      subject: `[COMPIA] ${title}: ${inspection.title}`,
+      text: `Olá, ${recipient.name}.\n\n${message}\n\nAcesse: ${appUrl(link)}`
+    });
+  } catch (error) {
+    console.error(`Failed to email ${type} for inspection ${inspection.id} to ${recipient.email}:`, error);
+  }
+}
+
+async function notifyReviewer(reviewer: User | null, inspection: Inspection, submittedBy: User) {
+  if (!reviewer) return;
+  await notifyUser(reviewer, inspection, "inspection_review_requested", "Inspeção aguardando revisão",
+    `${submittedBy.name} enviou "${inspection.title}" (${inspection.location}) para sua revisão.`);
+}
+
+// History entry and notification once the inspection is marked completed
+export async function recordSubmission(user: User, inspection: Inspection, reviewer: User | null) {
+  await recordReview(inspection, "submitted", user, reviewer);
+  await notifyReviewer(reviewer, inspection, user);
+}
+
+export async function decideReview(
+  user: User,
+  inspection: Inspection,
+  decision: ReviewDecision,
+  comments?: string
+): Promise<ReviewResult<Inspection>> {
+  if (!canTransitionInspection(inspection.status, decision)) {
+    return { error: "Apenas inspeções enviadas para revisão podem ser aprovadas ou devolvidas", status: 409 };
+  }
+  if (inspection.inspectorId === user.id) {
+    return { error: "O inspetor não pode revisar a própria inspeção", status: 403 };
+  }
+  // Org admins can stand in for the assigned reviewer
+  if (inspection.reviewerId && inspection.reviewerId !== user.id && user.role !== "org_admin" && user.role !== "system_admin") {
+    return { error: "Esta inspeção foi atribuída a outro revisor", status: 403 };
+  }
+
+  const approved = decision === "approve";
+  const updated = await storage.updateInspection(inspection.id, {
+    status: INSPECTION_TRANSITIONS[decision].to,
+    reviewerId: user.id,
+    // A returned inspection gets a new completion date when resubmitted
+    ...(approved ? {} : { completedAt: null })
+  } as any);
+
+  await recordReview(inspection, approved ? "approved" : "rejected", user, user, comments);
+  await storage.createActivityLog({
+    userId: user.id,
+    organizationId: inspection.organizationId,
+    action: approved ? "approve_inspection" : "reject_inspection",
+    entityType: "inspection",
+    entityId: inspection.id,
+    details: { from: inspection.status, to: updated.status, comments: comments || undefined }
+  });
+  await emitWebhookEvent(inspection.organizationId, approved ? "inspection.approved" : "inspection.rejected", {
+    ...updated,
+    reviewComments: comments || null
+  });
+
+  const inspector = await storage.getUser(inspection.inspectorId);
+  if (inspector) {
+    await notifyUser(inspector, updated,
+      approved ? "inspection_approved" : "inspection_rejected",
+      approved ? "Inspeção aprovada" : "Inspeção devolvida para correção",
+      approved
+        ? `${user.name} aprovou "${inspection.title}".${comments ? ` Comentários: ${comments}` : ""}`
+        : `${user.name} devolveu "${inspection.title}" para correção: ${comments}`);
+  }
+
+  return updated;
+}
+
+export async function reassignReviewer(user: User, inspection: Inspection, reviewerId: string): Promise<ReviewResult<Inspection>> {
+  if (inspection.status !== "completed") {
+    return { error: "O revisor só pode ser alterado enquanto a inspeção aguarda revisão", status: 409 };
+  }
+
+  const resolved = await resolveReviewer(inspection, reviewerId);
+  if ("error" in resolved) return resolved;
+  const { reviewer } = resolved;
+
+  const updated = await storage.updateInspection(inspection.id, { reviewerId });
+  await recordReview(inspection, "reassigned", user, reviewer);
+  await storage.createActivityLog({
+    userId: user.id,
+    organizationId: inspection.organizationId,
+    action: "reassign_inspection_reviewer",
+    entityType: "inspection",
+    entityId: inspection.id,
+    details: { from: inspection.reviewerId, to: reviewerId }
+  });
+  await notifyReviewer(reviewer, updated, user);
+  return updated;
+}
@@ -0,0 +1,225 @@
+import { storage } from "../storage";
+import { runWithoutTenant } from "../db";
+import { sendMail, appUrl } from "./mailer";
+import { emitWebhookEvent } from "./webhooks";
+import { describeRecurrence, getNextOccurrence } from "@shared/inspection-schedules";
+import type { InsertInspection, Inspection, InspectionSchedule, InspectionScheduleInput, User } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHECK_INTERVAL_MS = parseInt(process.env.INSPECTION_SCHEDULE_CHECK_INTERVAL_MS || "", 10) || 60 * 60 * 1000;
+const STARTUP_DELAY_MS = 45 * 1000;
+// Daily schedules with a long lead time stay bounded per run
+const MAX_DRAFTS_PER_SCHEDULE = 31;
+
+// Next occurrence at or after `from`; occurrences already in the past are
+// never generated, the same way missed escalation steps are not replayed
+function nextScheduleOccurrence(schedule: InspectionSchedule, from: Date): Date | null {
+  return getNextOccurrence(schedule.recurrence, schedule.startsAt, schedule.endsAt, from);
+}
+
+// The company, location, checklist and inspector must belong to the
+// schedule's organization (public checklists are shared by everyone)
+export async function getScheduleReferenceError(organizationId: string, input: InspectionScheduleInput): Promise<string | null> {
+  const [company, location, template, inspector] = await Promise.all([
+    storage.getCompany(input.companyId),
+    input.locationId ? storage.getCompanyLocation(input.locationId) : Promise.resolve(undefined),
+    storage.getChecklistTemplate(input.checklistTemplateId),
+    storage.getUser(input.defaultInspectorId)
+  ]);
+  if (!company || company.organizationId !== organizationId) return "Empresa não encontrada";
+  if (input.locationId && (!location || location.companyId !== company.id)) return "Local não encontrado para esta empresa";
+  if (!template || (template.organizationId !== organizationId && !template.isPublic)) return "Checklist não encontrado";
+  if (!inspector || inspector.organizationId !== organizationId || inspector.isActive === false) {
+    return "Inspetor não encontrado nesta organização";
+  }
+  return null;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === "23505";
+}
+
+async function createScheduledInspection(schedule: InspectionSchedule, occurrence: Date): Promise<Inspection | null> {
+  const [template, company, location, inspector] = await Promise.all([
+    storage.getChecklistTemplate(schedule.checklistTemplateId),
+    storage.getCompany(schedule.companyId),
+    schedule.locationId ? storage.getCompanyLocation(schedule.locationId) : Promise.resolve(undefined),
+    storage.getUser(schedule.defaultInspectorId)
+  ]);
+  if (!template || !company) {
+    throw new Error(`Checklist ou empresa do agendamento ${schedule.id} não encontrados`);
+  }
+
+  const site = location ?? company;
+  const address = [site.address, site.city, site.state].filter(Boolean).join(", ");
+
+  let inspection: Inspection;
+  try {
+    inspection = await storage.createInspection({
+      title: `${schedule.name} - ${occurrence.toLocaleDateString("pt-BR")}`,
+      location: location ? `${company.name} - ${location.name}` : company.name,
+      description: `Gerada pelo agendamento "${schedule.name}" (${describeRecurrence(schedule.recurrence)})`,
+      status: "draft",
+      organizationId: schedule.organizationId,
+      inspectorId: schedule.defaultInspectorId,
+      checklistTemplateId: template.id,
+      checklist: template.items,
+      scheduledAt: occurrence,
+      priority: schedule.priority || "medium",
+      companyName: company.name,
+      zipCode: site.zipCode,
+      fullAddress: address || null,
+      latitude: location?.latitude ?? null,
+      longitude: location?.longitude ?? null,
+      technicianName: inspector?.name ?? null,
+      technicianEmail: inspector?.email ?? null,
+      companyResponsibleName: location?.responsibleName || company.responsibleName || null,
+      scheduleId: schedule.id,
+      locationId: schedule.locationId ?? null
+    } as InsertInspection);
+  } catch (error) {
+    // Another run already created this occurrence
+    if (isUniqueViolation(error)) return null;
+    throw error;
+  }
+
+  await storage.createActivityLog({
+    userId: schedule.createdBy,
+    organizationId: schedule.organizationId,
+    action: "generate_scheduled_inspection",
+    entityType: "inspection",
+    entityId: inspection.id,
+    details: { scheduleId: schedule.id, scheduledAt: occurrence }
+  });
+  await storage.createNotification({
+    userId: schedule.defaultInspectorId,
+    organizationId: schedule.organizationId,
+    type: "inspection_scheduled",
+    title: "Nova inspeção agendada",
+    message: `"${inspection.title}" está agendada para ${occurrence.toLocaleString("pt-BR")} em ${inspection.location}.`,
+    link: `/inspections/${inspection.id}`,
+    entityType: "inspection",
+    entityId: inspection.id
+  });
+  await emitWebhookEvent(schedule.organizationId, "inspection.created", inspection);
+  return inspection;
+}
+
+async function generateForSchedule(schedule: InspectionSchedule, now: Date): Promise<number> {
+  let occurrence = schedule.nextOccurrenceAt;
+  // Skip occurrences that passed while the server was down
+  if (occurrence && occurrence < now) occurrence = nextScheduleOccurrence(schedule, now);
+
+  let created = 0;
+  while (occurrence && occurrence.getTime() - schedule.leadTimeDays * DAY_MS <= now.getTime() && created < MAX_DRAFTS_PER_SCHEDULE) {
+    if (await createScheduledInspection(schedule, occurrence)) created++;
+    occurrence = nextScheduleOccurrence(schedule, new Date(occurrence.getTime() + 1));
+  }
+
+  await storage.updateInspectionSchedule(schedule.id, {
+    nextOccurrenceAt: occurrence,
+    ...(created > 0 ? { lastGeneratedAt: now } : {})
+  });
+  return created;
+}
+
+async function generateDrafts(now: Date): Promise<number> {
+  let created = 0;
+  for (const schedule of await storage.getDueInspectionSchedules(now)) {
+    try {
+      created += await generateForSchedule(schedule, now);
+    } catch (error) {
+      console.error(`Failed to generate inspections for schedule ${schedule.id}:`, error);
+    }
+  }
+  return created;
+}
+
+async function alertMissed(inspection: Inspection, schedule: InspectionSchedule, orgUsers: User[], now: Date) {
+  const recipients = new Map<string, User>();
+  for (const user of orgUsers) {
+    if (user.isActive === false) continue;
+    if (user.id === inspection.inspectorId || user.role === "manager" || user.role === "org_admin") {
+      recipients.set(user.id, user);
+    }
+  }
+
+  const days = Math.floor((now.getTime() - inspection.scheduledAt!.getTime()) / DAY_MS);
+  const title = "Inspeção agendada não iniciada";
+  const message = `"${inspection.title}" estava agendada para ${inspection.scheduledAt!.toLocaleDateString("pt-BR")} ` +
+    `(há ${days} dia(s)) e ainda não foi iniciada. Inspetor: ${inspection.technicianName || "não definido"}.`;
+  const link = `/inspections/${inspection.id}`;
+
+  const emailed: string[] = [];
+  for (const recipient of Array.from(recipients.values())) {
+    await storage.createNotification({
+      userId: recipient.id,
+      organizationId: inspection.organizationId,
+      type: "inspection_missed",
+      title,
+      message,
+      link,
+      entityType: "inspection",
+      entityId: inspection.id
+    });
+    try {
+      const sent = await sendMail({
+        to: recipient.email,
+        subject: `[COMPIA] ${title}: ${inspection.title}`,
+        text: `Olá, ${recipient.name}.\n\n${message}\n\nAcesse: ${appUrl(link)}`
+      });
+      if (sent) emailed.push(recipient.email);
+    } catch (error) {
+      console.error(`Failed to email missed inspection ${inspection.id} to ${recipient.email}:`, error);
+    }
+  }
+
+  await storage.updateInspection(inspection.id, { missedAlertedAt: now });
+  await storage.createActivityLog({
+    userId: inspection.inspectorId,
+    organizationId: inspection.organizationId,
+    action: "scheduled_inspection_missed",
+    entityType: "inspection",
+    entityId: inspection.id,
+    details: { scheduleId: schedule.id, scheduledAt: inspection.scheduledAt, recipients: Array.from(recipients.values()).map(user => user.email), emailed }
+  });
+  await emitWebhookEvent(inspection.organizationId, "inspection.missed", inspection);
+}
+
+async function alertMissedInspections(now: Date): Promise<number> {
+  const missed = await storage.getMissedScheduledInspections(now);
+  const usersByOrg = new Map<string, User[]>();
+  for (const { inspection, schedule } of missed) {
+    if (!usersByOrg.has(inspection.organizationId)) {
+      usersByOrg.set(inspection.organizationId, await storage.getUsersByOrganization(inspection.organizationId));
+    }
+    await alertMissed(inspection, schedule, usersByOrg.get(inspection.organizationId)!, now);
+  }
+  return missed.length;
+}
+
+let running = false;
+
+export async function runInspectionScheduleChecks(now = new Date()): Promise<{ generated: number; missed: number }> {
+  if (running) return { generated: 0, missed: 0 };
+  running = true;
+  try {
+    const generated = await generateDrafts(now);
+    const missed = await alertMissedInspections(now);
+    if (generated || missed) {
+      console.log(`Inspection schedule check: ${generated} draft(s) generated, ${missed} missed inspection alert(s)`);
+    }
+    return { generated, missed };
+  } finally {
+    running = false;
+  }
+}
+
+// Runs hourly (INSPECTION_SCHEDULE_CHECK_INTERVAL_MS) outside any tenant scope
+export function startInspectionScheduler() {
+  const tick = () => runWithoutTenant(() => {
+    runInspectionScheduleChecks().catch(error => console.error("Inspection schedule check failed:", error));
+  });
+  setTimeout(tick, STARTUP_DELAY_MS).unref();
+  setInterval(tick, CHECK_INTERVAL_MS).unref();
+}
@@ -0,0 +1,154 @@
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import {
+  SIGNATURE_ROLES,
+  type File, type Inspection, type InspectionSignature, type SignInspection, type SignatureRole, type User, type VerifiedSignature
+} from "@shared/schema";
+
+export const SIGNATURE_ROLE_LABELS: Record<SignatureRole, string> = {
+  technician: "Técnico responsável",
+  company_responsible: "Responsável da empresa"
+};
+
+// What a signature vouches for: everything that ends up in the report.
+// Workflow fields (status, AI analysis, timestamps of later steps) are left
+// out so approving or re-analysing a signed inspection does not void it.
+function signedContent(inspection: Inspection, files: File[]) {
+  return {
+    id: inspection.id,
+    title: inspection.title,
+    description: inspection.description,
+    location: inspection.location,
+    companyName: inspection.companyName,
+    zipCode: inspection.zipCode,
+    fullAddress: inspection.fullAddress,
+    latitude: inspection.latitude,
+    longitude: inspection.longitude,
+    technicianName: inspection.technicianName,
+    technicianEmail: inspection.technicianEmail,
+    companyResponsibleName: inspection.companyResponsibleName,
+    checklist: inspection.checklist,
+    responses: inspection.responses,
+    findings: inspection.findings,
+    score: inspection.score,
+    recommendations: inspection.recommendations,
+    startedAt: inspection.startedAt,
+    completedAt: inspection.completedAt,
+    evidence: files
+      .map(file => ({ id: file.id, checksum: file.checksum, originalFileId: file.originalFileId }))
+      .sort((a, b) => a.id.localeCompare(b.id))
+  };
+}
+
+// JSON with sorted keys, so the hash does not depend on column order
+function canonicalJson(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export async function computeInspectionPayloadHash(inspection: Inspection): Promise<string> {
+  const files = await storage.getFilesByInspection(inspection.id);
+  return createHash("sha256").update(canonicalJson(signedContent(inspection, files))).digest("hex");
+}
+
+export interface SignatureVerification {
+  payloadHash: string;
+  signatures: VerifiedSignature[];
+  // Both roles have a current signature that still matches the content
+  signedOff: boolean;
+}
+
+export async function verifyInspectionSignatures(inspection: Inspection): Promise<SignatureVerification> {
+  const [payloadHash, signatures] = await Promise.all([
+    computeInspectionPayloadHash(inspection),
+    storage.getInspectionSignatures(inspection.id)
+  ]);
+
+  const latest = new Map<string, InspectionSignature>();
+  for (const signature of signatures) latest.set(signature.role, signature);
+
+  const verified = signatures.map(signature => ({
+    ...signature,
+    valid: signature.payloadHash === payloadHash,
+    current: latest.get(signature.role)?.id === signature.id
+  }));
+  return {
+    payloadHash,
+    signatures: verified,
+    signedOff: SIGNATURE_ROLES.every(role => verified.some(signature => signature.role === role && signature.current && signature.valid))
+  };
+}
+
+export interface SigningContext {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export async function signInspection(
+  user: User,
+  inspection: Inspection,
+  input: SignInspection,
+  context: SigningContext
+): Promise<InspectionSignature | { error: string; status: number }> {
+  // Signing doesn't change the content, so it is still allowed after approval
+  if (inspection.status !== 'completed' && inspection.status !== 'approved') {
+    return { error: "Apenas inspeções concluídas ou aprovadas podem ser assinadas", status: 409 };
+  }
+  if (input.role === 'technician' && inspection.inspectorId !== user.id) {
+    return { error: "Apenas o técnico responsável pela inspeção pode assinar como técnico", status: 403 };
+  }
+
+  const { payloadHash, signatures } = await verifyInspectionSignatures(inspection);
+  if (signatures.some(signature => signature.role === input.role && signature.current && signature.valid)) {
+    return { error: `${SIGNATURE_ROLE_LABELS[input.role]} já assinou esta inspeção`, status: 409 };
+  }
+
+  const signature = await storage.createInspectionSignature({
+    organizationId: inspection.organizationId,
+    inspectionId: inspection.id,
+    role: input.role,
+    signerName: input.signerName,
+    signerDocument: input.signerDocument || null,
+    signerUserId: input.role === 'technician' ? user.id : null,
+    collectedBy: user.id,
+    image: input.image,
+    payloadHash,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent?.slice(0, 500) ?? null
+  });
+
+  await storage.createActivityLog({
+    userId: user.id,
+    organizationId: inspection.organizationId,
+    action: 'sign_inspection',
+    entityType: 'inspection',
+    entityId: inspection.id,
+    details: { signatureId: signature.id, role: input.role, signerName: input.signerName, payloadHash }
+  });
+
+  return signature;
+}
+
+// Called after an edit with the verification taken before it: records which
+// signatures the change voided, so the history shows when and by whom
+export async function recordInvalidatedSignatures(user: User, before: SignatureVerification, updated: Inspection) {
+  const voided = before.signatures.filter(signature => signature.current && signature.valid);
+  if (voided.length === 0) return;
+  if ((await computeInspectionPayloadHash(updated)) === before.payloadHash) return;
+
+  await storage.createActivityLog({
+    userId: user.id,
+    organizationId: updated.organizationId,
+    action: 'invalidate_signatures',
+    entityType: 'inspection',
+    entityId: updated.id,
+    details: { signatures: voided.map(signature => ({ id: signature.id, role: signature.role, signerName: signature.signerName })) }
+  });
+}
@@ -0,0 +1,55 @@
+import nodemailer, { type Transporter } from "nodemailer";
+
+// SMTP settings come from the environment. Without SMTP_HOST emails are only
+// logged, so development works without a mail server. For local testing point
+// it at a catcher such as Mailpit (SMTP_HOST=localhost SMTP_PORT=1025).
+let transporter: Transporter | null | undefined;
+
+function getTransporter(): Transporter | null {
+  if (transporter !== undefined) return transporter;
+
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    transporter = null;
+    return transporter;
+  }
+
+  const port = parseInt(process.env.SMTP_PORT || "587", 10);
+  transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined
+  });
+  return transporter;
+}
+
+export interface MailMessage {
+  to: string | string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Returns whether the message was handed to the SMTP server
+export async function sendMail(message: MailMessage): Promise<boolean> {
+  const transport = getTransporter();
+  if (!transport) {
+    console.log(`[mail] SMTP_HOST not set, skipping "${message.subject}" to ${[message.to].flat().join(", ")}`);
+    return false;
+  }
+
+  await transport.sendMail({
+    from: process.env.SMTP_FROM || "COMPIA <no-reply@compia.com.br>",
+    ...message
+  });
+  return true;
+}
+
+// Absolute link for emails sent outside a request
+export function appUrl(path: string): string {
+  const base = (process.env.APP_URL || `http://localhost:${process.env.PORT || "5000"}`).replace(/\/$/, "");
+  return `${base}${path}`;
+}
@@ -0,0 +1,186 @@
+import { storage } from "../storage";
+import { appUrl } from "./mailer";
+import { emitWebhookEvent } from "./webhooks";
+import { generateQRCode } from "./documents";
+import { getNonConformItemIds } from "@shared/inspection-follow-up";
+import {
+  QR_ASSET_KIND_LABELS, SCAN_HISTORY_LIMIT, getScanPath,
+  type QrAssetKind, type ScannedAssetSummary, type ScannedInspection
+} from "@shared/qr-assets";
+import type { InspectionItemResponse } from "@shared/inspection-responses";
+import type { Company, CompanyLocation, Equipment, Inspection, InsertInspection, User } from "@shared/schema";
+
+export type QrAssetResult<T> = T | { error: string; status: number };
+
+// Site or equipment a QR token points to, with the company it belongs to
+export interface QrAsset {
+  kind: QrAssetKind;
+  company: Company;
+  location: CompanyLocation | undefined;
+  equipment: Equipment | undefined;
+}
+
+export interface QrLabel {
+  kind: QrAssetKind;
+  name: string;
+  tag: string | null;
+  companyName: string;
+  locationName: string | null;
+  url: string;
+  qrCode: string;
+}
+
+function getAssetName(asset: QrAsset): string {
+  return asset.equipment?.name ?? asset.location!.name;
+}
+
+function getAssetTemplateId(asset: QrAsset): string | null {
+  return (asset.equipment ?? asset.location)!.checklistTemplateId ?? null;
+}
+
+export async function resolveQrToken(qrToken: string): Promise<QrAsset | null> {
+  const equipment = await storage.getEquipmentByQrToken(qrToken);
+  const location = equipment
+    ? (equipment.locationId ? await storage.getCompanyLocation(equipment.locationId) : undefined)
+    : await storage.getCompanyLocationByQrToken(qrToken);
+  if (!equipment && !location) return null;
+
+  const company = await storage.getCompany(equipment?.companyId ?? location!.companyId);
+  if (!company || company.isActive === false) return null;
+  return { kind: equipment ? "equipment" : "location", company, location, equipment };
+}
+
+// The location and checklist linked to a site or equipment must belong to
+// the company's organization (public checklists are shared by everyone)
+export async function getAssetReferenceError(
+  company: Company,
+  input: { locationId?: string | null; checklistTemplateId?: string | null }
+): Promise<string | null> {
+  if (input.locationId) {
+    const location = await storage.getCompanyLocation(input.locationId);
+    if (!location || location.companyId !== company.id || location.isActive === false) {
+      return "Local não encontrado para esta empresa";
+    }
+  }
+  if (input.checklistTemplateId) {
+    const template = await storage.getChecklistTemplate(input.checklistTemplateId);
+    if (!template || (template.organizationId !== company.organizationId && !template.isPublic)) {
+      return "Checklist não encontrado";
+    }
+  }
+  return null;
+}
+
+function toScannedInspection(inspection: Inspection): ScannedInspection {
+  return {
+    id: inspection.id,
+    status: inspection.status!,
+    score: inspection.score ?? null,
+    nonConformCount: getNonConformItemIds(inspection.responses as InspectionItemResponse[]).length,
+    completedAt: inspection.completedAt ?? null
+  };
+}
+
+// What the scan page shows; it is public, so only finished results and no
+// titles, names, answers, notes or evidence
+export async function getScannedAssetSummary(asset: QrAsset): Promise<ScannedAssetSummary> {
+  const templateId = getAssetTemplateId(asset);
+  const [template, inspections] = await Promise.all([
+    templateId ? storage.getChecklistTemplate(templateId) : Promise.resolve(undefined),
+    storage.getInspectionsByAsset(asset.equipment ? { equipmentId: asset.equipment.id } : { locationId: asset.location!.id })
+  ]);
+  const results = inspections
+    .filter(inspection => inspection.status === "completed" || inspection.status === "approved")
+    .sort((a, b) => new Date(b.completedAt ?? 0).getTime() - new Date(a.completedAt ?? 0).getTime())
+    .slice(0, SCAN_HISTORY_LIMIT)
+    .map(toScannedInspection);
+  const site = asset.location ?? asset.company;
+
+  return {
+    kind: asset.kind,
+    name: getAssetName(asset),
+    tag: asset.equipment?.tag ?? null,
+    type: (asset.equipment ?? asset.location)!.type ?? null,
+    companyName: asset.company.name,
+    locationName: asset.equipment ? asset.location?.name ?? null : null,
+    address: [site.address, site.city, site.state].filter(Boolean).join(", ") || null,
+    template: template && template.isActive !== false ? { id: template.id, name: template.name } : null,
+    lastResult: results[0] ?? null,
+    history: results
+  };
+}
+
+// Draft for the scanning inspector, pre-filled with the company and site the
+// same way scheduled inspections are
+export async function startInspectionFromScan(
+  user: User,
+  asset: QrAsset,
+  requestedTemplateId?: string
+): Promise<QrAssetResult<Inspection>> {
+  const templateId = requestedTemplateId || getAssetTemplateId(asset);
+  if (!templateId) {
+    return { error: "Selecione o checklist da inspeção", status: 400 };
+  }
+  const template = await storage.getChecklistTemplate(templateId);
+  if (!template || template.isActive === false || (template.organizationId !== asset.company.organizationId && !template.isPublic)) {
+    return { error: "Checklist não encontrado", status: 404 };
+  }
+
+  const { company, location, equipment } = asset;
+  const site = location ?? company;
+  const address = [site.address, site.city, site.state].filter(Boolean).join(", ");
+  const name = getAssetName(asset);
+
+  const inspection = await storage.createInspection({
+    title: `${template.name} - ${name}`,
+    location: [company.name, location?.name, equipment?.name].filter(Boolean).join(" - "),
+    description: `Iniciada pela leitura do QR Code de ${QR_ASSET_KIND_LABELS[asset.kind].toLowerCase()} "${name}"${equipment?.tag ? ` (${equipment.tag})` : ""}`,
+    status: "draft",
+    organizationId: company.organizationId,
+    inspectorId: user.id,
+    checklistTemplateId: template.id,
+    checklist: template.items,
+    scheduledAt: new Date(),
+    priority: "medium",
+    companyName: company.name,
+    zipCode: site.zipCode,
+    fullAddress: address || null,
+    latitude: location?.latitude ?? null,
+    longitude: location?.longitude ?? null,
+    technicianName: user.name,
+    technicianEmail: user.email,
+    companyResponsibleName: location?.responsibleName || company.responsibleName || null,
+    locationId: location?.id ?? null,
+    equipmentId: equipment?.id ?? null
+  } as InsertInspection);
+
+  await storage.createActivityLog({
+    userId: user.id,
+    organizationId: company.organizationId,
+    action: "create_inspection_from_qr",
+    entityType: "inspection",
+    entityId: inspection.id,
+    details: { kind: asset.kind, locationId: location?.id, equipmentId: equipment?.id, checklistTemplateId: template.id }
+  });
+  await emitWebhookEvent(company.organizationId, "inspection.created", inspection);
+  return inspection;
+}
+
+export async function buildQrLabels(company: Company, locations: CompanyLocation[], items: Equipment[]): Promise<QrLabel[]> {
+  const locationNames = new Map((await storage.getCompanyLocationsByCompany(company.id)).map(location => [location.id, location.name]));
+  const assets = [
+    ...locations.map(location => ({ kind: "location" as const, name: location.name, tag: null, locationName: null, qrToken: location.qrToken })),
+    ...items.map(item => ({
+      kind: "equipment" as const,
+      name: item.name,
+      tag: item.tag ?? null,
+      locationName: item.locationId ? locationNames.get(item.locationId) ?? null : null,
+      qrToken: item.qrToken
+    }))
+  ];
+
+  return Promise.all(assets.map(async ({ qrToken, ...asset }) => {
+    const url = appUrl(getScanPath(qrToken));
+    return { ...asset, companyName: company.name, url, qrCode: await generateQRCode(url) };
+  }));
+}
@@ -0,0 +1,189 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import http from "http";
+import { createHash, createSign, generateKeyPairSync, randomUUID } from "crypto";
+import { promises as dns } from "dns";
+import type { AddressInfo } from "net";
+import type { PGlite } from "@electric-sql/pglite";
+
+const testDb = vi.hoisted(() => ({ pg: undefined as PGlite | undefined }));
+
+// The SSO service talks to the shared storage; point it at an in-process database
+vi.mock("../storage", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../storage")>();
+  const { createTestDatabase, createTestPool } = await import("../test-database");
+  testDb.pg = await createTestDatabase();
+  return { ...actual, storage: new actual.DatabaseStorage(createTestPool(testDb.pg)) };
+});
+
+import { storage } from "../storage";
+import { runWithoutTenant } from "../db";
+import { authenticateUser, hashPassword } from "./auth";
+import {
+  buildSsoLoginUrl, completeSsoLogin, findSsoConfigForEmail, provisionSsoUser, syncSsoDomains, verifySsoDomain
+} from "./sso";
+import type { SsoConfig } from "@shared/schema";
+
+const CALLBACK_URL = "http://app.test/api/auth/sso/org-acme/callback";
+
+// Minimal OpenID provider: discovery, an authorization endpoint that signs
+// the user in at once, a token endpoint that checks PKCE, and the JWKS
+async function startMockIdp() {
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const jwk = { ...publicKey.export({ format: "jwk" }), kid: "mock-key", alg: "RS256", use: "sig" };
+  const grants = new Map<string, { clientId: string; nonce: string; challenge: string; claims: Record<string, unknown> }>();
+  const idp = { issuer: "", claims: {} as Record<string, unknown>, close: () => {} };
+
+  const base64url = (value: string | Buffer) => Buffer.from(value).toString("base64url");
+  const signJwt = (payload: Record<string, unknown>) => {
+    const input = `${base64url(JSON.stringify({ alg: "RS256", typ: "JWT", kid: jwk.kid }))}.${base64url(JSON.stringify(payload))}`;
+    return `${input}.${createSign("RSA-SHA256").update(input).sign(privateKey).toString("base64url")}`;
+  };
+  const json = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url!, idp.issuer);
+    if (url.pathname === "/.well-known/openid-configuration") {
+      return json(res, 200, {
+        issuer: idp.issuer,
+        authorization_endpoint: `${idp.issuer}/authorize`,
+        token_endpoint: `${idp.issuer}/token`,
+        jwks_uri: `${idp.issuer}/jwks`,
+        response_types_supported: ["code"],
+        subject_types_supported: ["public"],
+        id_token_signing_alg_values_supported: ["RS256"],
+        code_challenge_methods_supported: ["S256"]
+      });
+    }
+    if (url.pathname === "/jwks") {
+      return json(res, 200, { keys: [jwk] });
+    }
+    if (url.pathname === "/authorize") {
+      const code = randomUUID();
+      grants.set(code, {
+        clientId: url.searchParams.get("client_id")!,
+        nonce: url.searchParams.get("nonce")!,
+        challenge: url.searchParams.get("code_challenge")!,
+        claims: idp.claims
+      });
+      const redirect = new URL(url.searchParams.get("redirect_uri")!);
+      redirect.searchParams.set("code", code);
+      redirect.searchParams.set("state", url.searchParams.get("state")!);
+      return res.writeHead(302, { Location: redirect.href }).end();
+    }
+    if (url.pathname === "/token" && req.method === "POST") {
+      let body = "";
+      for await (const chunk of req) body += chunk;
+      const form = new URLSearchParams(body);
+      const grant = grants.get(form.get("code") ?? "");
+      grants.delete(form.get("code") ?? "");
+      const verifier = form.get("code_verifier") ?? "";
+      if (!grant || createHash("sha256").update(verifier).digest("base64url") !== grant.challenge) {
+        return json(res, 400, { error: "invalid_grant" });
+      }
+      const now = Math.floor(Date.now() / 1000);
+      return json(res, 200, {
+        access_token: randomUUID(),
+        token_type: "Bearer",
+        expires_in: 300,
+        id_token: signJwt({ iss: idp.issuer, aud: grant.clientId, iat: now, exp: now + 300, nonce: grant.nonce, ...grant.claims })
+      });
+    }
+    json(res, 404, { error: "not_found" });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  idp.issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  idp.close = () => server.close();
+  return idp;
+}
+
+describe("SSO with a mock identity provider", () => {
+  let idp: Awaited<ReturnType<typeof startMockIdp>>;
+  let sso: SsoConfig;
+
+  // Runs the authorization code flow the way the login and callback routes do
+  const signIn = async (claims: Record<string, unknown>) => {
+    idp.claims = claims;
+    const { url, checks } = await buildSsoLoginUrl(sso, CALLBACK_URL, String(claims.email));
+    const authorization = await fetch(url, { redirect: "manual" });
+    const callback = new URL(authorization.headers.get("location")!);
+    const verified = await completeSsoLogin(sso, callback, checks);
+    return await provisionSsoUser(sso, verified);
+  };
+
+  beforeAll(async () => {
+    idp = await startMockIdp();
+    await testDb.pg!.exec(`
+      SET app.current_org_ids = '*';
+      INSERT INTO organizations (id, name, type, plan) VALUES
+        ('org-acme', 'Acme', 'enterprise', 'enterprise'), ('org-other', 'Outra', 'enterprise', 'enterprise');
+      INSERT INTO users (id, email, name, role, organization_id, password_hash) VALUES
+        ('user-ana', 'ana@acme.com.br', 'Ana', 'inspector', 'org-acme', '${await hashPassword("senha-antiga")}'),
+        ('user-bia', 'bia@acme.net', 'Bia', 'inspector', 'org-acme', NULL);
+      INSERT INTO sso_configs (organization_id, is_enabled, domains, issuer_url, client_id, client_secret, default_role, role_claim, role_mappings)
+        VALUES ('org-acme', true, '{acme.com.br,acme.net}', '${idp.issuer}', 'compia', 'secret', 'inspector', 'groups', '{"SST-Gestores": "manager"}');
+      RESET app.current_org_ids;
+    `);
+    sso = (await runWithoutTenant(() => storage.getSsoConfigByOrganization("org-acme")))!;
+    await storage.runInTenantScope({ userId: "user-ana", organizationIds: ["org-acme"] },
+      () => syncSsoDomains("org-acme", sso.domains));
+  });
+
+  afterAll(async () => {
+    idp?.close();
+    await testDb.pg?.close();
+  });
+
+  it("only routes verified domains to the IdP", async () => {
+    await runWithoutTenant(async () => {
+      expect(await findSsoConfigForEmail("ana@acme.com.br")).toBeUndefined();
+      await expect(signIn({ sub: "ana-1", email: "ana@acme.com.br", name: "Ana Souza" }))
+        .rejects.toThrow(/não autorizado/);
+    });
+  });
+
+  it("verifies a domain through its DNS TXT record", async () => {
+    const claim = (await runWithoutTenant(() => storage.getSsoDomain("acme.com.br")))!;
+    const resolveTxt = vi.spyOn(dns, "resolveTxt");
+
+    resolveTxt.mockResolvedValueOnce([["v=spf1 -all"]]);
+    await expect(runWithoutTenant(() => verifySsoDomain(claim))).rejects.toThrow(/_compia-verification\.acme\.com\.br/);
+
+    resolveTxt.mockResolvedValueOnce([[`compia-verification=${claim.verificationToken.slice(0, 10)}`, claim.verificationToken.slice(10)]]);
+    const verified = await runWithoutTenant(() => verifySsoDomain(claim));
+    expect(verified.verifiedAt).toBeInstanceOf(Date);
+    expect(resolveTxt).toHaveBeenCalledWith("_compia-verification.acme.com.br");
+    resolveTxt.mockRestore();
+  });
+
+  it("signs a user of a verified domain in and maps the role claim", async () => {
+    const user = await runWithoutTenant(() =>
+      signIn({ sub: "ana-1", email: "ana@acme.com.br", email_verified: true, name: "Ana Souza", groups: ["SST-Gestores"] }));
+    expect(user).toMatchObject({
+      id: "user-ana",
+      name: "Ana Souza",
+      role: "manager",
+      authProvider: "oidc",
+      externalId: `${idp.issuer}|ana-1`
+    });
+  });
+
+  it("retires the password of an account linked to the IdP", async () => {
+    const user = await runWithoutTenant(() => storage.getUser("user-ana"));
+    expect(user?.passwordHash).toBeNull();
+    expect(await runWithoutTenant(() => authenticateUser("ana@acme.com.br", "senha-antiga"))).toBeNull();
+  });
+
+  it("keeps rejecting the domains that are still unverified", async () => {
+    await runWithoutTenant(async () => {
+      await expect(signIn({ sub: "bia-1", email: "bia@acme.net", name: "Bia" })).rejects.toThrow(/não autorizado/);
+    });
+  });
+
+  it("refuses a domain already claimed by another organization", async () => {
+    await expect(storage.runInTenantScope({ userId: "user-ana", organizationIds: ["org-other"] },
+      () => syncSsoDomains("org-other", ["acme.com.br"]))).rejects.toThrow(/já está em uso/);
+  });
+});
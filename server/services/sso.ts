@@ -0,0 +1,252 @@
+import * as client from "openid-client";
+import { randomBytes } from "crypto";
+import { promises as dns } from "dns";
+import { storage } from "../storage";
+import { runWithoutTenant } from "../db";
+import type { SsoConfig, SsoDomain, SsoDomainClaim, User } from "@shared/schema";
+
+type ProvisionedRole = "org_admin" | "manager" | "inspector" | "client";
+
+// Higher rank wins when a user matches several mapped claim values
+const ROLE_RANK: Record<ProvisionedRole, number> = {
+  client: 0,
+  inspector: 1,
+  manager: 2,
+  org_admin: 3
+};
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000; // re-read IdP metadata hourly
+const discoveryCache = new Map<string, { config: client.Configuration; loadedAt: number }>();
+
+export interface SsoLoginChecks {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+export function getEmailDomain(email: string): string {
+  return email.split("@")[1]?.trim().toLowerCase() || "";
+}
+
+export async function findSsoConfigForEmail(email: string): Promise<SsoConfig | undefined> {
+  const domain = getEmailDomain(email);
+  if (!domain) return undefined;
+  return await storage.getSsoConfigByDomain(domain);
+}
+
+// Organizations prove they own a domain with a TXT record
+// "_compia-verification.<domain>" containing "compia-verification=<token>"
+const VERIFICATION_RECORD_PREFIX = "_compia-verification";
+
+export function toSsoDomainClaim(claim: SsoDomain): SsoDomainClaim {
+  return {
+    domain: claim.domain,
+    verifiedAt: claim.verifiedAt?.toISOString() ?? null,
+    recordName: `${VERIFICATION_RECORD_PREFIX}.${claim.domain}`,
+    recordValue: `compia-verification=${claim.verificationToken}`
+  };
+}
+
+// Keeps the organization's domain claims in step with its SSO domains. A
+// domain claimed by another organization is refused; new claims start
+// unverified.
+export async function syncSsoDomains(organizationId: string, domains: string[]): Promise<SsoDomain[]> {
+  const existing = await storage.getSsoDomains(organizationId);
+  const added = Array.from(new Set(domains)).filter(domain => !existing.some(claim => claim.domain === domain));
+
+  for (const domain of added) {
+    // Claims of other organizations are hidden from the tenant scope
+    const owner = await runWithoutTenant(() => storage.getSsoDomain(domain));
+    if (owner) {
+      throw new Error(`O domínio ${domain} já está em uso por outra organização`);
+    }
+  }
+
+  for (const claim of existing) {
+    if (!domains.includes(claim.domain)) await storage.deleteSsoDomain(claim.id);
+  }
+  for (const domain of added) {
+    await storage.createSsoDomain({ organizationId, domain, verificationToken: randomBytes(16).toString("hex") });
+  }
+  return await storage.getSsoDomains(organizationId);
+}
+
+export async function verifySsoDomain(claim: SsoDomain): Promise<SsoDomain> {
+  if (claim.verifiedAt) return claim;
+
+  const { recordName, recordValue } = toSsoDomainClaim(claim);
+  const records = await dns.resolveTxt(recordName).catch(() => [] as string[][]);
+  if (!records.some(chunks => chunks.join("").trim() === recordValue)) {
+    throw new Error(`Registro TXT ${recordName} com o valor ${recordValue} não encontrado`);
+  }
+  return await storage.updateSsoDomain(claim.id, { verifiedAt: new Date() });
+}
+
+export function invalidateSsoConfigCache(organizationId: string) {
+  discoveryCache.delete(organizationId);
+}
+
+async function getOidcConfiguration(sso: SsoConfig): Promise<client.Configuration> {
+  if (sso.protocol !== "oidc" || !sso.issuerUrl || !sso.clientId) {
+    throw new Error("Configuração OIDC incompleta para esta organização");
+  }
+
+  const cached = discoveryCache.get(sso.organizationId);
+  if (cached && Date.now() - cached.loadedAt < DISCOVERY_TTL_MS) {
+    return cached.config;
+  }
+
+  const issuer = new URL(sso.issuerUrl);
+  // Plain http issuers are only accepted outside production (local mock IdPs)
+  const allowInsecure = issuer.protocol === "http:" && process.env.NODE_ENV !== "production";
+
+  const config = await client.discovery(
+    issuer,
+    sso.clientId,
+    sso.clientSecret || undefined,
+    undefined,
+    allowInsecure ? { execute: [client.allowInsecureRequests] } : undefined
+  );
+
+  discoveryCache.set(sso.organizationId, { config, loadedAt: Date.now() });
+  return config;
+}
+
+export async function buildSsoLoginUrl(
+  sso: SsoConfig,
+  redirectUri: string,
+  loginHint?: string
+): Promise<{ url: URL; checks: SsoLoginChecks }> {
+  const config = await getOidcConfiguration(sso);
+
+  const checks: SsoLoginChecks = {
+    state: client.randomState(),
+    nonce: client.randomNonce(),
+    codeVerifier: client.randomPKCECodeVerifier()
+  };
+
+  const parameters: Record<string, string> = {
+    redirect_uri: redirectUri,
+    scope: sso.scopes || "openid email profile",
+    state: checks.state,
+    nonce: checks.nonce,
+    code_challenge: await client.calculatePKCECodeChallenge(checks.codeVerifier),
+    code_challenge_method: "S256"
+  };
+  if (loginHint) {
+    parameters.login_hint = loginHint;
+  }
+
+  return { url: client.buildAuthorizationUrl(config, parameters), checks };
+}
+
+export async function completeSsoLogin(
+  sso: SsoConfig,
+  currentUrl: URL,
+  checks: SsoLoginChecks
+): Promise<Record<string, any>> {
+  const config = await getOidcConfiguration(sso);
+
+  const tokens = await client.authorizationCodeGrant(config, currentUrl, {
+    pkceCodeVerifier: checks.codeVerifier,
+    expectedState: checks.state,
+    expectedNonce: checks.nonce,
+    idTokenExpected: true
+  });
+
+  const claims = tokens.claims();
+  if (!claims) {
+    throw new Error("O provedor de identidade não retornou um ID token");
+  }
+
+  // Some IdPs only put email/name/groups on the userinfo endpoint
+  if (!claims.email) {
+    const userInfo = await client.fetchUserInfo(config, tokens.access_token, claims.sub);
+    return { ...userInfo, ...claims, email: userInfo.email };
+  }
+
+  return claims;
+}
+
+export function resolveRoleFromClaims(sso: SsoConfig, claims: Record<string, any>): ProvisionedRole {
+  const mappings = (sso.roleMappings || {}) as Record<string, ProvisionedRole>;
+  const defaultRole = (sso.defaultRole === "system_admin" ? "inspector" : sso.defaultRole) as ProvisionedRole;
+
+  if (!sso.roleClaim) {
+    return defaultRole;
+  }
+
+  const rawValue = claims[sso.roleClaim];
+  const values: string[] = Array.isArray(rawValue) ? rawValue.map(String) : rawValue ? [String(rawValue)] : [];
+
+  const mapped = values
+    .map(value => mappings[value])
+    .filter((role): role is ProvisionedRole => !!role && role in ROLE_RANK)
+    .sort((a, b) => ROLE_RANK[b] - ROLE_RANK[a]);
+
+  return mapped[0] || defaultRole;
+}
+
+// Just-in-time provisioning: creates the user on first SSO login and keeps
+// role/name in sync with the IdP on every login after that
+export async function provisionSsoUser(sso: SsoConfig, claims: Record<string, any>): Promise<User> {
+  const email = String(claims.email || "").trim();
+  if (!email) {
+    throw new Error("O provedor de identidade não informou o email do usuário");
+  }
+  if (claims.email_verified === false) {
+    throw new Error("Email não verificado pelo provedor de identidade");
+  }
+  // The email's domain must be verified for this organization
+  const owner = await findSsoConfigForEmail(email);
+  if (owner?.organizationId !== sso.organizationId) {
+    throw new Error("Domínio de email não autorizado para esta organização");
+  }
+
+  const externalId = `${sso.issuerUrl}|${claims.sub}`;
+  const name = String(claims.name || [claims.given_name, claims.family_name].filter(Boolean).join(" ") || email);
+  const role = resolveRoleFromClaims(sso, claims);
+
+  const existing = await storage.getUserByExternalId(sso.protocol, externalId) || await storage.getUserByEmail(email);
+
+  if (existing) {
+    if (existing.organizationId !== sso.organizationId) {
+      throw new Error("Usuário pertence a outra organização");
+    }
+    if (existing.isActive === false) {
+      throw new Error("Usuário desativado");
+    }
+
+    return await storage.updateUser(existing.id, {
+      name,
+      // Only sync roles when the IdP is the source of truth for them
+      role: sso.roleClaim && existing.role !== "system_admin" ? role : existing.role,
+      authProvider: sso.protocol,
+      externalId,
+      // Linking to the IdP retires the password so it can't bypass the IdP
+      passwordHash: null,
+      lastLoginAt: new Date()
+    });
+  }
+
+  const created = await storage.createUser({
+    email,
+    name,
+    role,
+    organizationId: sso.organizationId,
+    isActive: true,
+    authProvider: sso.protocol,
+    externalId
+  });
+
+  await storage.createActivityLog({
+    userId: created.id,
+    organizationId: sso.organizationId,
+    action: 'sso_provision_user',
+    entityType: 'user',
+    entityId: created.id,
+    details: { email, role, issuer: sso.issuerUrl }
+  });
+
+  return await storage.updateUser(created.id, { lastLoginAt: new Date() });
+}
@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+
+const testDb = vi.hoisted(() => ({ pg: undefined as PGlite | undefined }));
+
+vi.mock("../storage", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../storage")>();
+  const { createTestDatabase, createTestPool } = await import("../test-database");
+  testDb.pg = await createTestDatabase();
+  return { ...actual, storage: new actual.DatabaseStorage(createTestPool(testDb.pg)) };
+});
+
+import { storage } from "../storage";
+import { runWithoutTenant } from "../db";
+import {
+  generateRecoveryCodes, getTotpStep, getTwoFactorLockout, recordTwoFactorFailure, useRecoveryCode, verifyUserTotpCode
+} from "./two-factor";
+
+// RFC 6238 appendix B: the ASCII secret "12345678901234567890" in base32
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const T59 = 59_000;
+const T1111111109 = 1_111_111_109_000;
+
+describe("TOTP codes", () => {
+  beforeAll(async () => {
+    await testDb.pg!.exec(`
+      SET app.current_org_ids = '*';
+      INSERT INTO organizations (id, name, type) VALUES ('org-a', 'Empresa A', 'enterprise');
+      INSERT INTO users (id, email, name, role, organization_id, totp_secret, totp_enabled)
+        VALUES ('user-a', 'a@example.com', 'A', 'inspector', 'org-a', '${SECRET}', true);
+      RESET app.current_org_ids;
+    `);
+  });
+
+  afterAll(async () => {
+    await testDb.pg?.close();
+  });
+
+  const getUser = () => runWithoutTenant(async () => (await storage.getUser("user-a"))!);
+  const verify = async (code: string, now: number) =>
+    runWithoutTenant(async () => verifyUserTotpCode(await getUser(), code, now));
+
+  it("matches the RFC 6238 test vectors", () => {
+    expect(getTotpStep(SECRET, "287082", T59)).toBe(1);
+    expect(getTotpStep(SECRET, "081804", T1111111109)).toBe(37037036);
+    expect(getTotpStep(SECRET, "000000", T59)).toBeNull();
+  });
+
+  it("accepts a code once and rejects it or any older step afterwards", async () => {
+    expect(await verify("081804", T1111111109)).toBe(true);
+    expect(await verify("081804", T1111111109)).toBe(false);
+    expect(await verify("287082", T59)).toBe(false);
+  });
+
+  it("spends a recovery code only once, even when used twice at the same time", async () => {
+    const { codes, hashes } = generateRecoveryCodes();
+    await runWithoutTenant(() => storage.updateUser("user-a", { recoveryCodes: hashes }));
+    const user = await getUser();
+
+    const results = await runWithoutTenant(() => Promise.all([useRecoveryCode(user, codes[0]), useRecoveryCode(user, codes[0])]));
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect((await getUser()).recoveryCodes).toEqual(hashes.slice(1));
+    expect(await runWithoutTenant(() => useRecoveryCode(user, "AAAAA-BBBBB"))).toBe(false);
+  });
+
+  it("locks the second factor after five wrong codes", async () => {
+    const now = Date.now();
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await runWithoutTenant(async () => recordTwoFactorFailure(await getUser(), now));
+    }
+    expect(getTwoFactorLockout(await getUser(), now)).toBe(0);
+
+    await runWithoutTenant(async () => recordTwoFactorFailure(await getUser(), now));
+    const locked = await getUser();
+    expect(getTwoFactorLockout(locked, now)).toBe(15 * 60 * 1000);
+    expect(locked.totpFailedAttempts).toBe(0);
+    expect(getTwoFactorLockout(locked, now + 15 * 60 * 1000)).toBe(0);
+  });
+});
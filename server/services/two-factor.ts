@@ -0,0 +1,158 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { generateQRCode } from "./documents";
+import { storage } from "../storage";
+import type { User } from "@shared/schema";
+
+// RFC 6238 TOTP (SHA-1, 6 digits, 30s) — what every authenticator app expects
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DRIFT_STEPS = 1; // accept the previous/next code for clock skew
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Wrong codes allowed before the second factor locks for a while
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+const TWO_FACTOR_LOCKOUT_MS = 15 * 60 * 1000;
+const ISSUER = "COMPIA";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.replace(/=+$/, "").replace(/\s/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (let i = 0; i < clean.length; i++) {
+    const index = BASE32_ALPHABET.indexOf(clean[i]);
+    if (index === -1) {
+      throw new Error("Segredo TOTP inválido");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function generateCode(secret: string, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac("sha1", base32Decode(secret)).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+  return binary.toString().padStart(TOTP_DIGITS, "0");
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+// Time step the code belongs to, or null when it matches none in the drift window
+export function getTotpStep(secret: string, code: string, now = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const counter = Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+  for (let step = -TOTP_DRIFT_STEPS; step <= TOTP_DRIFT_STEPS; step++) {
+    const expected = Buffer.from(generateCode(secret, counter + step));
+    if (timingSafeEqual(expected, Buffer.from(normalized))) {
+      return counter + step;
+    }
+  }
+
+  return null;
+}
+
+// Each code is accepted once: its time step must be newer than the last one
+// the user got in with, so an intercepted code can't be replayed
+export async function verifyUserTotpCode(user: User, code: string, now = Date.now()): Promise<boolean> {
+  if (!user.totpSecret) return false;
+  const step = getTotpStep(user.totpSecret, code, now);
+  return step !== null && await storage.consumeTotpStep(user.id, step);
+}
+
+export function buildOtpAuthUrl(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export async function buildEnrollment(secret: string, accountName: string) {
+  const otpauthUrl = buildOtpAuthUrl(secret, accountName);
+  return {
+    secret,
+    otpauthUrl,
+    qrCode: await generateQRCode(otpauthUrl)
+  };
+}
+
+// Recovery codes are shown once and only their hashes are stored
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(code.replace(/[\s-]/g, "").toUpperCase()).digest("hex");
+}
+
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex").toUpperCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// Spends the code if the user still has it
+export async function useRecoveryCode(user: User, code: string): Promise<boolean> {
+  if (!user.recoveryCodes?.length) return false;
+  return await storage.consumeRecoveryCode(user.id, hashRecoveryCode(code));
+}
+
+// Milliseconds left on a lockout from too many wrong codes, or 0
+export function getTwoFactorLockout(user: User, now = Date.now()): number {
+  return Math.max(0, (user.totpLockedUntil?.getTime() ?? 0) - now);
+}
+
+// Wrong codes are counted on the user rather than the login session, so
+// signing in with the password again doesn't reset them
+export async function recordTwoFactorFailure(user: User, now = Date.now()): Promise<void> {
+  await storage.recordTwoFactorFailure(user.id, TWO_FACTOR_MAX_ATTEMPTS, new Date(now + TWO_FACTOR_LOCKOUT_MS));
+}
+
+export async function clearTwoFactorFailures(user: User): Promise<void> {
+  if (user.totpFailedAttempts || user.totpLockedUntil) {
+    await storage.updateUser(user.id, { totpFailedAttempts: 0, totpLockedUntil: null });
+  }
+}
@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { isPublicAddress, validateWebhookUrl } from "./webhooks";
+
+describe("webhook targets", () => {
+  afterEach(() => {
+    delete process.env.WEBHOOK_ALLOWED_HOSTS;
+  });
+
+  it("rejects loopback, private, link-local and metadata addresses", () => {
+    for (const address of [
+      "127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.10", "169.254.169.254", "100.64.0.1", "0.0.0.0",
+      "::1", "::", "fd00::1", "fe80::1", "::ffff:127.0.0.1", "::ffff:169.254.169.254"
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+    expect(isPublicAddress("8.8.8.8")).toBe(true);
+    expect(isPublicAddress("2606:4700:4700::1111")).toBe(true);
+  });
+
+  it("refuses URLs that point at a private address", async () => {
+    await expect(validateWebhookUrl("https://169.254.169.254/latest/meta-data")).rejects.toThrow(/endereço público/);
+    await expect(validateWebhookUrl("https://[::1]:8443/hook")).rejects.toThrow(/endereço público/);
+    await expect(validateWebhookUrl("https://localhost/hook")).rejects.toThrow(/endereço público/);
+    await expect(validateWebhookUrl("https://8.8.8.8/hook")).resolves.toBeUndefined();
+  });
+
+  it("requires https unless the host is allow-listed", async () => {
+    await expect(validateWebhookUrl("http://8.8.8.8/hook")).rejects.toThrow(/HTTPS/);
+    await expect(validateWebhookUrl("http://localhost:4000/hook")).rejects.toThrow(/HTTPS/);
+
+    process.env.WEBHOOK_ALLOWED_HOSTS = "localhost";
+    await expect(validateWebhookUrl("http://localhost:4000/hook")).resolves.toBeUndefined();
+  });
+});
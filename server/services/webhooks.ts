@@ -0,0 +1,268 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { lookup, promises as dnsPromises } from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { storage } from "../storage";
+import { runWithoutTenant } from "../db";
+import type { WebhookDelivery, WebhookEndpoint, WebhookEvent, PublicWebhookEndpoint } from "@shared/schema";
+
+// Retry schedule: 30s, 1min, 2min, 4min, 8min, then the delivery is failed
+const MAX_ATTEMPTS = 6;
+const BACKOFF_BASE_MS = 30 * 1000;
+// Failed attempts in a row (across deliveries) before the endpoint is switched off
+const DISABLE_AFTER_FAILURES = 15;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const POLL_INTERVAL_MS = 15 * 1000;
+const BATCH_SIZE = 20;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+export function toPublicWebhookEndpoint(endpoint: WebhookEndpoint): PublicWebhookEndpoint {
+  const { secret, ...publicEndpoint } = endpoint;
+  return publicEndpoint;
+}
+
+// Receivers recompute HMAC-SHA256("<t>.<raw body>") with the endpoint secret
+// and compare it with v1; t lets them reject old replays
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// Receivers must be on the public internet; otherwise an endpoint could make
+// the server call its own network or the cloud metadata service (SSRF)
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3]
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv4");
+}
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the ranges above
+for (const [network, prefix] of [
+  ["::", 128], ["::1", 128], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && !privateAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+// Hosts exempt from the address check, e.g. "localhost" for a local test
+// receiver; they may also use plain http
+function isAllowListedHost(hostname: string): boolean {
+  const allowed = (process.env.WEBHOOK_ALLOWED_HOSTS ?? "").split(",").map(host => host.trim().toLowerCase());
+  return allowed.includes(hostname.toLowerCase().replace(/^\[|\]$/g, ""));
+}
+
+function blockedAddressError(address: string): Error {
+  return new Error(`A URL do webhook deve apontar para um endereço público (${address} não é permitido)`);
+}
+
+// Checked when the endpoint is saved and again before every delivery, since
+// the DNS answer can change in between
+export async function validateWebhookUrl(url: string): Promise<void> {
+  const parsed = new URL(url);
+  const allowListed = isAllowListedHost(parsed.hostname);
+  if (parsed.protocol !== "https:" && !(parsed.protocol === "http:" && allowListed)) {
+    throw new Error("A URL do webhook deve usar HTTPS");
+  }
+  if (allowListed) return;
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : await dnsPromises.lookup(hostname, { all: true }).then(
+      entries => entries.map(entry => entry.address),
+      () => { throw new Error(`Não foi possível resolver o endereço ${hostname}`); }
+    );
+  const blocked = addresses.find(address => !isPublicAddress(address));
+  if (blocked) throw blockedAddressError(blocked);
+}
+
+// Resolves the receiver for the connection itself and refuses private
+// addresses, so a DNS answer that changed after validateWebhookUrl (DNS
+// rebinding) cannot redirect the request
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 0);
+    const blocked = addresses.find(entry => !isPublicAddress(entry.address));
+    if (blocked) return callback(blockedAddressError(blocked.address), "", 0);
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// POSTs the payload and returns the status code. The response body is
+// discarded: receivers are third-party servers and their answers are not kept.
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  const parsed = new URL(url);
+  const client = parsed.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(parsed, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+      lookup: isAllowListedHost(parsed.hostname) ? undefined : publicOnlyLookup,
+      timeout: REQUEST_TIMEOUT_MS
+    }, (response) => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    request.on("timeout", () => request.destroy(new Error("Tempo limite excedido")));
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+// Queues the event for every active endpoint of the organization that
+// subscribed to it. Never throws: a webhook problem must not fail the request
+export async function emitWebhookEvent(organizationId: string, event: WebhookEvent, data: unknown): Promise<void> {
+  try {
+    const endpoints = await storage.getActiveWebhookEndpointsForEvent(organizationId, event);
+    if (endpoints.length === 0) return;
+
+    const payload = {
+      id: randomUUID(),
+      event,
+      organizationId,
+      occurredAt: new Date().toISOString(),
+      data
+    };
+    for (const endpoint of endpoints) {
+      await storage.createWebhookDelivery({ endpointId: endpoint.id, organizationId, event, payload });
+    }
+    kickWorker();
+  } catch (error) {
+    console.error(`Failed to queue webhook event ${event}:`, error);
+  }
+}
+
+// Sends a ping straight away so admins can check their receiver
+export async function sendTestWebhook(endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+  const delivery = await storage.createWebhookDelivery({
+    endpointId: endpoint.id,
+    organizationId: endpoint.organizationId,
+    event: "ping",
+    payload: {
+      id: randomUUID(),
+      event: "ping",
+      organizationId: endpoint.organizationId,
+      occurredAt: new Date().toISOString(),
+      data: { endpointId: endpoint.id }
+    }
+  });
+  return await attemptDelivery(delivery, endpoint);
+}
+
+// Queues a fresh copy of a delivery; the payload id is kept so receivers can dedupe
+export async function replayWebhookDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const replay = await storage.createWebhookDelivery({
+    endpointId: delivery.endpointId,
+    organizationId: delivery.organizationId,
+    event: delivery.event,
+    payload: delivery.payload,
+    replayOf: delivery.id
+  });
+  kickWorker();
+  return replay;
+}
+
+async function attemptDelivery(delivery: WebhookDelivery, endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    await validateWebhookUrl(endpoint.url);
+    responseStatus = await postWebhook(endpoint.url, {
+      "Content-Type": "application/json",
+      "User-Agent": "COMPIA-Webhooks/1.0",
+      "X-Compia-Event": delivery.event,
+      "X-Compia-Delivery": delivery.id,
+      "X-Compia-Signature": `t=${timestamp},v1=${signWebhookPayload(endpoint.secret, timestamp, body)}`
+    }, body);
+  } catch (err) {
+    error = (err as Error).message;
+  }
+
+  const now = new Date();
+  const succeeded = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+
+  if (succeeded) {
+    if (endpoint.consecutiveFailures > 0) {
+      await storage.updateWebhookEndpoint(endpoint.id, { consecutiveFailures: 0 });
+    }
+    return await storage.updateWebhookDelivery(delivery.id, {
+      status: "succeeded",
+      attempts,
+      lastAttemptAt: now,
+      deliveredAt: now,
+      responseStatus,
+      error: null
+    });
+  }
+
+  const consecutiveFailures = endpoint.consecutiveFailures + 1;
+  const disable = consecutiveFailures >= DISABLE_AFTER_FAILURES;
+  await storage.updateWebhookEndpoint(endpoint.id, disable
+    ? { consecutiveFailures, isActive: false, disabledAt: now }
+    : { consecutiveFailures });
+  if (disable) {
+    console.warn(`Webhook endpoint ${endpoint.id} disabled after ${consecutiveFailures} consecutive failures`);
+  }
+
+  // Pings are one-shot; events retry with exponential backoff
+  const exhausted = delivery.event === "ping" || attempts >= MAX_ATTEMPTS || disable;
+  return await storage.updateWebhookDelivery(delivery.id, {
+    status: exhausted ? "failed" : "pending",
+    attempts,
+    lastAttemptAt: now,
+    nextAttemptAt: exhausted ? null : new Date(now.getTime() + BACKOFF_BASE_MS * 2 ** (attempts - 1)),
+    responseStatus,
+    error: error ?? `HTTP ${responseStatus}`
+  });
+}
+
+let processing = false;
+
+async function processDueDeliveries(): Promise<void> {
+  if (processing) return;
+  processing = true;
+  try {
+    const due = await storage.getDueWebhookDeliveries(new Date(), BATCH_SIZE);
+    for (const delivery of due) {
+      const endpoint = await storage.getWebhookEndpoint(delivery.endpointId);
+      if (!endpoint?.isActive) {
+        await storage.updateWebhookDelivery(delivery.id, {
+          status: "failed",
+          nextAttemptAt: null,
+          error: "Endpoint desativado"
+        });
+        continue;
+      }
+      await attemptDelivery(delivery, endpoint);
+    }
+  } catch (error) {
+    console.error("Webhook worker failed:", error);
+  } finally {
+    processing = false;
+  }
+}
+
+function kickWorker() {
+  runWithoutTenant(() => setImmediate(() => { processDueDeliveries(); }));
+}
+
+// Deliveries are stored before they are sent, so a restart only delays them
+export function startWebhookWorker() {
+  const timer = setInterval(() => runWithoutTenant(processDueDeliveries), POLL_INTERVAL_MS);
+  timer.unref();
+  kickWorker();
+}
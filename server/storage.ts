@@ -1,6 +1,6 @@
 import { 
   type Organization, type InsertOrganization,
-  type User, type InsertUser,
+  type User, type InsertUser, type UpdateUser,
   type Invitation, type InsertInvitation,
   type Inspection, type InsertInspection,
   type ActionPlan, type InsertActionPlan,
@@ -9,10 +9,28 @@ import {
   type ChecklistTemplate, type InsertChecklistTemplate,
   type ChecklistFolder, type InsertChecklistFolder,
   type Company, type InsertCompany,
-  type CompanyLocation, type InsertCompanyLocation
+  type CompanyLocation, type InsertCompanyLocation,
+  type Equipment, type InsertEquipment,
+  type SsoConfig, type InsertSsoConfig, type SsoDomain,
+  type CustomRole, type InsertCustomRole,
+  type ApiKey,
+  type WebhookEndpoint, type WebhookDelivery,
+  type Notification,
+  type SyncChange,
+  type InspectionSignature,
+  type InspectionSchedule,
+  type InspectionReview,
+  type InspectionCheckIn,
+  type CepCacheEntry,
+  type GeocodeCacheEntry,
+  type CnpjCacheEntry,
+  type CompanyImport
 } from "@shared/schema";
 import { randomUUID } from "crypto";
-import { db } from "./db";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import * as schema from "@shared/schema";
+import { pool as defaultPool, getTenantContext, runInTenantContext, type Database } from "./db";
+import { TenantBoundClient, type ConnectionPool, type TenantContext } from "./tenant-client";
 import {
   prepareOrganization,
   prepareUser,
@@ -28,24 +46,44 @@ import {
 } from "./storage-normalizers";
 import { 
   organizations, users, invitations, inspections, actionPlans, 
-  files, checklistTemplates, checklistFolders, activityLogs, companies, companyLocations 
+  files, checklistTemplates, checklistFolders, activityLogs, companies, companyLocations, equipment,
+  ssoConfigs, ssoDomains, customRoles, apiKeys, webhookEndpoints, webhookDeliveries, notifications, syncChanges,
+  inspectionSignatures, inspectionSchedules, inspectionReviews, inspectionCheckIns,
+  cepCache, geocodeCache, cnpjCache, companyImports
 } from "@shared/schema";
-import { eq, and, isNull, desc } from "drizzle-orm";
+import type { InspectionItemResponse } from "@shared/inspection-responses";
+import { eq, and, isNull, isNotNull, inArray, desc, asc, lt, lte, gte, arrayContains, sql } from "drizzle-orm";
+
+export interface TenantScope {
+  userId: string;
+  organizationIds: string[] | "all";
+}
 
 export interface IStorage {
+  // Tenant isolation (row-level security)
+  // Runs fn with its queries filtered by the RLS policies to the scope's organizations
+  runInTenantScope<T>(scope: TenantScope, fn: () => T): T;
+  
+
   // Organizations
   getOrganization(id: string): Promise<Organization | undefined>;
   getOrganizations(): Promise<Organization[]>;
   getOrganizationsByParent(parentId: string | null): Promise<Organization[]>;
+  getDescendantOrganizationIds(organizationId: string): Promise<string[]>;
   createOrganization(org: InsertOrganization): Promise<Organization>;
   updateOrganization(id: string, updates: Partial<InsertOrganization>): Promise<Organization>;
   
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByExternalId(authProvider: string, externalId: string): Promise<User | undefined>;
+  getUserByCalendarFeedTokenHash(tokenHash: string): Promise<User | undefined>;
   getUsersByOrganization(organizationId: string): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
-  updateUser(id: string, updates: Partial<InsertUser>): Promise<User>;
+  updateUser(id: string, updates: UpdateUser): Promise<User>;
+  consumeTotpStep(userId: string, step: number): Promise<boolean>;
+  consumeRecoveryCode(userId: string, hash: string): Promise<boolean>;
+  recordTwoFactorFailure(userId: string, maxAttempts: number, lockedUntil: Date): Promise<void>;
   
   // Invitations
   getInvitation(id: string): Promise<Invitation | undefined>;
@@ -58,21 +96,32 @@ export interface IStorage {
   getInspection(id: string): Promise<Inspection | undefined>;
   getInspectionsByOrganization(organizationId: string): Promise<Inspection[]>;
   getInspectionsByInspector(inspectorId: string): Promise<Inspection[]>;
+  getFollowUpInspections(parentInspectionId: string): Promise<Inspection[]>;
+  getInspectionsByAsset(asset: { locationId?: string; equipmentId?: string }): Promise<Inspection[]>;
+  getInspectionsByIds(ids: string[]): Promise<Inspection[]>;
   createInspection(inspection: InsertInspection): Promise<Inspection>;
   updateInspection(id: string, updates: Partial<Inspection>): Promise<Inspection>;
+  saveInspectionResponses(id: string, responses: InspectionItemResponse[], removedItemIds: string[]): Promise<Inspection>;
   deleteInspection(id: string): Promise<void>;
   
   // Action Plans
   getActionPlan(id: string): Promise<ActionPlan | undefined>;
   getActionPlansByInspection(inspectionId: string): Promise<ActionPlan[]>;
   getActionPlansByOrganization(organizationId: string): Promise<ActionPlan[]>;
+  getActionPlansByAssignee(userId: string): Promise<ActionPlan[]>;
   createActionPlan(actionPlan: InsertActionPlan): Promise<ActionPlan>;
   updateActionPlan(id: string, updates: Partial<ActionPlan>): Promise<ActionPlan>;
+  deleteActionPlan(id: string): Promise<void>;
+  markOverdueActionPlans(now: Date): Promise<ActionPlan[]>;
+  getOpenActionPlansWithDueDate(): Promise<ActionPlan[]>;
   
   // Files
   getFile(id: string): Promise<File | undefined>;
   getFilesByInspection(inspectionId: string): Promise<File[]>;
+  getFilesByActionPlan(actionPlanId: string): Promise<File[]>;
+  getFilesByIds(ids: string[]): Promise<File[]>;
   createFile(file: InsertFile): Promise<File>;
+  getOrganizationStorageUsage(organizationId: string): Promise<number>;
   
   // Checklist Templates
   getChecklistTemplate(id: string): Promise<ChecklistTemplate | undefined>;
@@ -106,6 +155,98 @@ export interface IStorage {
   createCompanyLocation(location: InsertCompanyLocation): Promise<CompanyLocation>;
   updateCompanyLocation(id: string, updates: Partial<CompanyLocation>): Promise<CompanyLocation>;
   deleteCompanyLocation(id: string): Promise<void>;
+  getCompanyLocationByQrToken(qrToken: string): Promise<CompanyLocation | undefined>;
+  
+  // Equipment
+  getEquipment(id: string): Promise<Equipment | undefined>;
+  getEquipmentByCompany(companyId: string): Promise<Equipment[]>;
+  getEquipmentByQrToken(qrToken: string): Promise<Equipment | undefined>;
+  createEquipment(item: InsertEquipment): Promise<Equipment>;
+  updateEquipment(id: string, updates: Partial<Equipment>): Promise<Equipment>;
+  deleteEquipment(id: string): Promise<void>;
+  
+  // SSO Configs
+  getSsoConfigByOrganization(organizationId: string): Promise<SsoConfig | undefined>;
+  getSsoConfigByDomain(domain: string): Promise<SsoConfig | undefined>;
+  upsertSsoConfig(config: InsertSsoConfig): Promise<SsoConfig>;
+  getSsoDomains(organizationId: string): Promise<SsoDomain[]>;
+  getSsoDomain(domain: string): Promise<SsoDomain | undefined>;
+  createSsoDomain(claim: Pick<SsoDomain, "organizationId" | "domain" | "verificationToken">): Promise<SsoDomain>;
+  updateSsoDomain(id: string, updates: Partial<SsoDomain>): Promise<SsoDomain>;
+  deleteSsoDomain(id: string): Promise<void>;
+  
+  // Custom Roles
+  getCustomRole(id: string): Promise<CustomRole | undefined>;
+  getCustomRolesByOrganization(organizationId: string): Promise<CustomRole[]>;
+  createCustomRole(role: InsertCustomRole): Promise<CustomRole>;
+  updateCustomRole(id: string, updates: Partial<CustomRole>): Promise<CustomRole>;
+  deleteCustomRole(id: string): Promise<void>;
+
+  // API Keys
+  getApiKey(id: string): Promise<ApiKey | undefined>;
+  getApiKeyByPrefix(prefix: string): Promise<ApiKey | undefined>;
+  getApiKeysByOrganization(organizationId: string): Promise<ApiKey[]>;
+  createApiKey(key: Omit<ApiKey, "id" | "createdAt" | "lastUsedAt" | "lastUsedIp" | "revokedAt">): Promise<ApiKey>;
+  updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey>;
+
+  // Webhooks
+  getWebhookEndpoint(id: string): Promise<WebhookEndpoint | undefined>;
+  getWebhookEndpointsByOrganization(organizationId: string): Promise<WebhookEndpoint[]>;
+  getActiveWebhookEndpointsForEvent(organizationId: string, event: string): Promise<WebhookEndpoint[]>;
+  createWebhookEndpoint(endpoint: Omit<WebhookEndpoint, "id" | "createdAt" | "updatedAt" | "consecutiveFailures" | "disabledAt">): Promise<WebhookEndpoint>;
+  updateWebhookEndpoint(id: string, updates: Partial<WebhookEndpoint>): Promise<WebhookEndpoint>;
+  deleteWebhookEndpoint(id: string): Promise<void>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveriesByEndpoint(endpointId: string, limit?: number): Promise<WebhookDelivery[]>;
+  getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+  createWebhookDelivery(delivery: Pick<WebhookDelivery, "endpointId" | "organizationId" | "event" | "payload"> & Partial<WebhookDelivery>): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery>;
+
+  // Notifications
+  getNotificationsByUser(userId: string, limit?: number): Promise<Notification[]>;
+  createNotification(notification: Pick<Notification, "userId" | "organizationId" | "type" | "title" | "message"> & Partial<Notification>): Promise<Notification>;
+  markNotificationRead(id: string, userId: string): Promise<void>;
+  markAllNotificationsRead(userId: string): Promise<void>;
+  
+  // Offline sync
+  getSyncChange(id: string): Promise<SyncChange | undefined>;
+  createSyncChange(change: Omit<SyncChange, "createdAt">): Promise<SyncChange>;
+  
+  // Inspection sign-off
+  getInspectionSignatures(inspectionId: string): Promise<InspectionSignature[]>;
+  createInspectionSignature(signature: Omit<InspectionSignature, "id" | "signedAt"> & Partial<InspectionSignature>): Promise<InspectionSignature>;
+  
+  // Inspection review
+  getInspectionReviews(inspectionId: string): Promise<InspectionReview[]>;
+  createInspectionReview(review: Omit<InspectionReview, "id" | "createdAt">): Promise<InspectionReview>;
+  getPendingReviewCounts(organizationId: string): Promise<Map<string, number>>;
+  
+  // GPS check-ins
+  getInspectionCheckIns(inspectionId: string): Promise<InspectionCheckIn[]>;
+  getInspectionCheckInsBetween(from: Date, to: Date): Promise<InspectionCheckIn[]>;
+  createInspectionCheckIn(checkIn: Omit<InspectionCheckIn, "id" | "createdAt">): Promise<InspectionCheckIn>;
+  
+  // Address and CNPJ lookup caches (shared by all organizations)
+  getCepCacheEntry(cep: string): Promise<CepCacheEntry | undefined>;
+  saveCepCacheEntry(entry: CepCacheEntry): Promise<CepCacheEntry>;
+  getGeocodeCacheEntry(query: string): Promise<GeocodeCacheEntry | undefined>;
+  saveGeocodeCacheEntry(entry: GeocodeCacheEntry): Promise<GeocodeCacheEntry>;
+  getCnpjCacheEntry(cnpj: string): Promise<CnpjCacheEntry | undefined>;
+  saveCnpjCacheEntry(entry: CnpjCacheEntry): Promise<CnpjCacheEntry>;
+  
+  // Spreadsheet imports
+  getCompanyImport(id: string): Promise<CompanyImport | undefined>;
+  getUnfinishedCompanyImports(): Promise<CompanyImport[]>;
+  createCompanyImport(job: Pick<CompanyImport, "organizationId" | "fileName" | "existingCompanies" | "records" | "totalRows" | "createdBy">): Promise<CompanyImport>;
+  updateCompanyImport(id: string, updates: Partial<CompanyImport>): Promise<CompanyImport>;
+  
+  // Recurring inspection schedules
+  getInspectionSchedule(id: string): Promise<InspectionSchedule | undefined>;
+  getInspectionSchedulesByOrganization(organizationId: string): Promise<InspectionSchedule[]>;
+  createInspectionSchedule(schedule: Omit<InspectionSchedule, "id" | "createdAt" | "updatedAt" | "lastGeneratedAt">): Promise<InspectionSchedule>;
+  updateInspectionSchedule(id: string, updates: Partial<InspectionSchedule>): Promise<InspectionSchedule>;
+  getDueInspectionSchedules(now: Date): Promise<InspectionSchedule[]>;
+  getMissedScheduledInspections(now: Date): Promise<{ inspection: Inspection; schedule: InspectionSchedule }[]>;
 }
 
 export class MemStorage {
@@ -328,7 +469,7 @@ export class MemStorage {
     return user;
   }
 
-  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User> {
+  async updateUser(id: string, updates: UpdateUser): Promise<User> {
     const existing = this.users.get(id);
     if (!existing) throw new Error("User not found");
     
@@ -636,17 +777,39 @@ export class MemStorage {
 
 // DatabaseStorage implementation
 
+const NO_TENANT: TenantContext = { userId: "", organizationIds: "" };
+
 export class DatabaseStorage implements IStorage {
-  constructor() {
-    this.initializeDefaultData();
+  private tenantDbs = new WeakMap<TenantContext, Database>();
+
+  constructor(private pool: ConnectionPool = defaultPool) {}
+
+  // Queries are tagged with the tenant of the surrounding runInTenantScope or
+  // runWithoutTenant; outside both they carry no organizations and see no
+  // tenant rows
+  private get db(): Database {
+    const context = getTenantContext() ?? NO_TENANT;
+    let tenantDb = this.tenantDbs.get(context);
+    if (!tenantDb) {
+      tenantDb = drizzle({ client: new TenantBoundClient(this.pool, context) as any, schema });
+      this.tenantDbs.set(context, tenantDb);
+    }
+    return tenantDb;
+  }
+
+  runInTenantScope<T>(scope: TenantScope, fn: () => T): T {
+    return runInTenantContext({
+      userId: scope.userId,
+      organizationIds: scope.organizationIds === "all" ? "*" : scope.organizationIds.join(",")
+    }, fn);
   }
 
   async initializeDefaultData() {
     try {
       // Create default master organization if not exists
-      const existingOrgs = await db.select().from(organizations).limit(1);
+      const existingOrgs = await this.db.select().from(organizations).limit(1);
       if (existingOrgs.length === 0) {
-      const masterOrg = await db.insert(organizations).values({
+      const masterOrg = await this.db.insert(organizations).values({
           id: 'master-org-id',
           name: 'COMPIA Master',
           type: 'master',
@@ -660,7 +823,7 @@ export class DatabaseStorage implements IStorage {
       } as any).returning();
 
         // Create default admin user
-  await db.insert(users).values({
+  await this.db.insert(users).values({
           id: 'admin-id',
           email: 'admin@iasst.com',
           name: 'System Administrator',
@@ -670,7 +833,7 @@ export class DatabaseStorage implements IStorage {
   } as any).returning();
 
         // Create sample checklist templates
-  await db.insert(checklistTemplates).values([
+  await this.db.insert(checklistTemplates).values([
           {
             id: 'template-nr10',
             name: 'Inspeção NR-10 - Segurança em Instalações Elétricas',
@@ -715,29 +878,43 @@ export class DatabaseStorage implements IStorage {
   }
   // Organizations
   async getOrganization(id: string): Promise<Organization | undefined> {
-    const [org] = await db.select().from(organizations).where(eq(organizations.id, id));
+    const [org] = await this.db.select().from(organizations).where(eq(organizations.id, id));
     return org;
   }
 
   async getOrganizations(): Promise<Organization[]> {
-    return await db.select().from(organizations);
+    return await this.db.select().from(organizations);
   }
 
   async getOrganizationsByParent(parentId: string | null): Promise<Organization[]> {
     if (parentId === null) {
-      return await db.select().from(organizations).where(isNull(organizations.parentId));
+      return await this.db.select().from(organizations).where(isNull(organizations.parentId));
     }
-    return await db.select().from(organizations).where(eq(organizations.parentId, parentId));
+    return await this.db.select().from(organizations).where(eq(organizations.parentId, parentId));
+  }
+
+  // The organization itself plus every subsidiary below it, in one round trip
+  async getDescendantOrganizationIds(organizationId: string): Promise<string[]> {
+    const result = await this.db.execute<{ id: string }>(sql`
+      WITH RECURSIVE org_tree AS (
+        SELECT id FROM organizations WHERE id = ${organizationId}
+        UNION
+        SELECT o.id FROM organizations o
+        INNER JOIN org_tree t ON o.parent_id = t.id
+      )
+      SELECT id FROM org_tree
+    `);
+    return result.rows.map(row => row.id);
   }
 
   async createOrganization(org: InsertOrganization): Promise<Organization> {
   const prepared = prepareOrganization(org);
-  const [created] = await db.insert(organizations).values(prepared as any).returning();
+  const [created] = await this.db.insert(organizations).values(prepared as any).returning();
     return created;
   }
 
   async updateOrganization(id: string, updates: Partial<InsertOrganization>): Promise<Organization> {
-    const [updated] = await db.update(organizations)
+    const [updated] = await this.db.update(organizations)
       .set({ ...updates, updatedAt: new Date() } as any)
       .where(eq(organizations.id, id))
       .returning();
@@ -746,56 +923,98 @@ export class DatabaseStorage implements IStorage {
 
   // Users
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async getUserByCalendarFeedTokenHash(tokenHash: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.calendarFeedTokenHash, tokenHash));
+    return user;
+  }
+
+  async getUserByExternalId(authProvider: string, externalId: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users)
+      .where(and(eq(users.authProvider, authProvider), eq(users.externalId, externalId)));
     return user;
   }
 
   async getUsersByOrganization(organizationId: string): Promise<User[]> {
-    return await db.select().from(users).where(eq(users.organizationId, organizationId));
+    return await this.db.select().from(users).where(eq(users.organizationId, organizationId));
   }
 
   async createUser(user: InsertUser): Promise<User> {
   const prepared = prepareUser(user);
-  const [created] = await db.insert(users).values(prepared as any).returning();
+  const [created] = await this.db.insert(users).values(prepared as any).returning();
     return created;
   }
 
-  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User> {
-    const [updated] = await db.update(users)
+  async updateUser(id: string, updates: UpdateUser): Promise<User> {
+    const [updated] = await this.db.update(users)
       .set({ ...updates, updatedAt: new Date() } as any)
       .where(eq(users.id, id))
       .returning();
     return updated;
   }
 
+  // Records the step only if it is newer than the stored one, in a single
+  // statement so two requests can't both use the same code
+  async consumeTotpStep(userId: string, step: number): Promise<boolean> {
+    const updated = await this.db.update(users)
+      .set({ totpLastUsedStep: step } as any)
+      .where(and(eq(users.id, userId), sql`coalesce(${users.totpLastUsedStep}, -1) < ${step}`))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  // Removes the code only if it is still there, so it can't be spent twice
+  async consumeRecoveryCode(userId: string, hash: string): Promise<boolean> {
+    const updated = await this.db.update(users)
+      .set({ recoveryCodes: sql`array_remove(${users.recoveryCodes}, ${hash})` } as any)
+      .where(and(eq(users.id, userId), sql`${hash} = any(${users.recoveryCodes})`))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  // Counts a wrong code; the one that reaches maxAttempts locks the user
+  // until lockedUntil and starts the count over
+  async recordTwoFactorFailure(userId: string, maxAttempts: number, lockedUntil: Date): Promise<void> {
+    const attempts = sql`coalesce(${users.totpFailedAttempts}, 0) + 1`;
+    await this.db.update(users)
+      .set({
+        totpFailedAttempts: sql`case when ${attempts} >= ${maxAttempts} then 0 else ${attempts} end`,
+        totpLockedUntil: sql`case when ${attempts} >= ${maxAttempts} then ${lockedUntil.toISOString()}::timestamp else ${users.totpLockedUntil} end`
+      } as any)
+      .where(eq(users.id, userId));
+  }
+
   // Invitations
   async getInvitation(id: string): Promise<Invitation | undefined> {
-    const [invitation] = await db.select().from(invitations).where(eq(invitations.id, id));
+    const [invitation] = await this.db.select().from(invitations).where(eq(invitations.id, id));
     return invitation;
   }
 
   async getInvitationByToken(token: string): Promise<Invitation | undefined> {
-    const [invitation] = await db.select().from(invitations).where(eq(invitations.token, token));
+    const [invitation] = await this.db.select().from(invitations).where(eq(invitations.token, token));
     return invitation;
   }
 
   async getInvitationsByOrganization(organizationId: string): Promise<Invitation[]> {
-    return await db.select().from(invitations).where(eq(invitations.organizationId, organizationId));
+    return await this.db.select().from(invitations).where(eq(invitations.organizationId, organizationId));
   }
 
   async createInvitation(invitation: InsertInvitation): Promise<Invitation> {
   const prepared = prepareInvitation(invitation);
-  const [created] = await db.insert(invitations).values(prepared as any).returning();
+  const [created] = await this.db.insert(invitations).values(prepared as any).returning();
     return created;
   }
 
   async updateInvitation(id: string, updates: Partial<Invitation>): Promise<Invitation> {
-    const [updated] = await db.update(invitations)
+    const [updated] = await this.db.update(invitations)
       .set(updates as any)
       .where(eq(invitations.id, id))
       .returning();
@@ -804,16 +1023,36 @@ export class DatabaseStorage implements IStorage {
 
   // Inspections
   async getInspection(id: string): Promise<Inspection | undefined> {
-    const [inspection] = await db.select().from(inspections).where(eq(inspections.id, id));
+    const [inspection] = await this.db.select().from(inspections).where(eq(inspections.id, id));
     return inspection;
   }
 
   async getInspectionsByOrganization(organizationId: string): Promise<Inspection[]> {
-    return await db.select().from(inspections).where(eq(inspections.organizationId, organizationId));
+    return await this.db.select().from(inspections).where(eq(inspections.organizationId, organizationId));
   }
 
   async getInspectionsByInspector(inspectorId: string): Promise<Inspection[]> {
-    return await db.select().from(inspections).where(eq(inspections.inspectorId, inspectorId));
+    return await this.db.select().from(inspections).where(eq(inspections.inspectorId, inspectorId));
+  }
+
+  async getFollowUpInspections(parentInspectionId: string): Promise<Inspection[]> {
+    return await this.db.select().from(inspections)
+      .where(eq(inspections.parentInspectionId, parentInspectionId))
+      .orderBy(desc(inspections.createdAt));
+  }
+
+  async getInspectionsByIds(ids: string[]): Promise<Inspection[]> {
+    if (ids.length === 0) return [];
+    return await this.db.select().from(inspections).where(inArray(inspections.id, ids));
+  }
+
+  async getInspectionsByAsset(asset: { locationId?: string; equipmentId?: string }): Promise<Inspection[]> {
+    const condition = asset.equipmentId
+      ? eq(inspections.equipmentId, asset.equipmentId)
+      : eq(inspections.locationId, asset.locationId!);
+    return await this.db.select().from(inspections)
+      .where(condition)
+      .orderBy(desc(inspections.createdAt));
   }
 
   async createInspection(inspection: InsertInspection): Promise<Inspection> {
@@ -830,7 +1069,7 @@ export class DatabaseStorage implements IStorage {
       console.log('Creating inspection with data:', processedInspection);
       
   const prepared = prepareInspection(processedInspection);
-  const [created] = await db.insert(inspections).values(prepared as any).returning();
+  const [created] = await this.db.insert(inspections).values(prepared as any).returning();
       return created;
     } catch (error) {
       console.error('Error creating inspection:', error);
@@ -839,76 +1078,145 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateInspection(id: string, updates: Partial<Inspection>): Promise<Inspection> {
-    const [updated] = await db.update(inspections)
+    const [updated] = await this.db.update(inspections)
       .set({ ...updates, updatedAt: new Date() } as any)
       .where(eq(inspections.id, id))
       .returning();
     return updated;
   }
 
+  // Merges answers by itemId in a single statement, so concurrent autosaves
+  // of different items cannot overwrite each other
+  async saveInspectionResponses(id: string, responses: InspectionItemResponse[], removedItemIds: string[]): Promise<Inspection> {
+    const replacedIds = JSON.stringify([...responses.map(response => response.itemId), ...removedItemIds]);
+    const [updated] = await this.db.update(inspections)
+      .set({
+        responses: sql`(
+          select coalesce(jsonb_agg(r.value), '[]'::jsonb)
+          from jsonb_array_elements(coalesce(${inspections.responses}, '[]'::jsonb)) r
+          where not (${replacedIds}::jsonb ? (r.value->>'itemId'))
+        ) || ${JSON.stringify(responses)}::jsonb`,
+        updatedAt: new Date()
+      } as any)
+      .where(eq(inspections.id, id))
+      .returning();
+    return updated;
+  }
+
   async deleteInspection(id: string): Promise<void> {
-    await db.update(inspections)
+    await this.db.update(inspections)
       .set({ isActive: false, updatedAt: new Date() } as any)
       .where(eq(inspections.id, id));
   }
 
   // Action Plans
   async getActionPlan(id: string): Promise<ActionPlan | undefined> {
-    const [actionPlan] = await db.select().from(actionPlans).where(eq(actionPlans.id, id));
+    const [actionPlan] = await this.db.select().from(actionPlans).where(eq(actionPlans.id, id));
     return actionPlan;
   }
 
   async getActionPlansByInspection(inspectionId: string): Promise<ActionPlan[]> {
-    return await db.select().from(actionPlans).where(eq(actionPlans.inspectionId, inspectionId));
+    return await this.db.select().from(actionPlans)
+      .where(and(eq(actionPlans.inspectionId, inspectionId), eq(actionPlans.isActive, true)));
   }
 
   async getActionPlansByOrganization(organizationId: string): Promise<ActionPlan[]> {
-    return await db.select().from(actionPlans).where(eq(actionPlans.organizationId, organizationId));
+    return await this.db.select().from(actionPlans)
+      .where(and(eq(actionPlans.organizationId, organizationId), eq(actionPlans.isActive, true)));
+  }
+
+  async getActionPlansByAssignee(userId: string): Promise<ActionPlan[]> {
+    return await this.db.select().from(actionPlans)
+      .where(and(eq(actionPlans.assignedTo, userId), eq(actionPlans.isActive, true)));
   }
 
   async createActionPlan(actionPlan: InsertActionPlan): Promise<ActionPlan> {
   const prepared = prepareActionPlan(actionPlan);
-  const [created] = await db.insert(actionPlans).values(prepared as any).returning();
+  const [created] = await this.db.insert(actionPlans).values(prepared as any).returning();
     return created;
   }
 
   async updateActionPlan(id: string, updates: Partial<ActionPlan>): Promise<ActionPlan> {
-    const [updated] = await db.update(actionPlans)
+    const [updated] = await this.db.update(actionPlans)
       .set({ ...updates, updatedAt: new Date() } as any)
       .where(eq(actionPlans.id, id))
       .returning();
     return updated;
   }
 
+  async deleteActionPlan(id: string): Promise<void> {
+    await this.db.update(actionPlans)
+      .set({ isActive: false, updatedAt: new Date() } as any)
+      .where(eq(actionPlans.id, id));
+  }
+
+  async markOverdueActionPlans(now: Date): Promise<ActionPlan[]> {
+    return await this.db.update(actionPlans)
+      .set({ status: "overdue", updatedAt: now } as any)
+      .where(and(
+        inArray(actionPlans.status, ["pending", "in_progress"]),
+        eq(actionPlans.isActive, true),
+        lt(actionPlans.dueDate, now)
+      ))
+      .returning();
+  }
+
+  async getOpenActionPlansWithDueDate(): Promise<ActionPlan[]> {
+    return await this.db.select().from(actionPlans)
+      .where(and(
+        inArray(actionPlans.status, ["pending", "in_progress", "overdue"]),
+        eq(actionPlans.isActive, true),
+        isNotNull(actionPlans.dueDate)
+      ));
+  }
+
   // Files
   async getFile(id: string): Promise<File | undefined> {
-    const [file] = await db.select().from(files).where(eq(files.id, id));
+    const [file] = await this.db.select().from(files).where(eq(files.id, id));
     return file;
   }
 
   async getFilesByInspection(inspectionId: string): Promise<File[]> {
-    return await db.select().from(files).where(eq(files.inspectionId, inspectionId));
+    return await this.db.select().from(files).where(eq(files.inspectionId, inspectionId));
+  }
+
+  async getFilesByActionPlan(actionPlanId: string): Promise<File[]> {
+    return await this.db.select().from(files).where(eq(files.actionPlanId, actionPlanId));
+  }
+
+  async getFilesByIds(ids: string[]): Promise<File[]> {
+    if (ids.length === 0) return [];
+    return await this.db.select().from(files).where(inArray(files.id, ids));
+  }
+
+  // Bytes of stored evidence, counted against the organization's quota
+  async getOrganizationStorageUsage(organizationId: string): Promise<number> {
+    const [row] = await this.db
+      .select({ total: sql<string>`coalesce(sum(${files.size}), 0)` })
+      .from(files)
+      .where(eq(files.organizationId, organizationId));
+    return Number(row?.total ?? 0);
   }
 
   async createFile(file: InsertFile): Promise<File> {
   const prepared = prepareFile(file);
-  const [created] = await db.insert(files).values(prepared as any).returning();
+  const [created] = await this.db.insert(files).values(prepared as any).returning();
     return created;
   }
 
   // Checklist Templates
   async getChecklistTemplate(id: string): Promise<ChecklistTemplate | undefined> {
-    const [template] = await db.select().from(checklistTemplates).where(eq(checklistTemplates.id, id));
+    const [template] = await this.db.select().from(checklistTemplates).where(eq(checklistTemplates.id, id));
     return template;
   }
 
   async getChecklistTemplatesByOrganization(organizationId: string): Promise<ChecklistTemplate[]> {
-    return await db.select().from(checklistTemplates)
+    return await this.db.select().from(checklistTemplates)
       .where(and(eq(checklistTemplates.organizationId, organizationId), eq(checklistTemplates.isActive, true)));
   }
 
   async getChecklistTemplatesByCategory(organizationId: string, category: string): Promise<ChecklistTemplate[]> {
-    return await db.select().from(checklistTemplates)
+    return await this.db.select().from(checklistTemplates)
       .where(and(
         eq(checklistTemplates.organizationId, organizationId), 
         eq(checklistTemplates.category, category),
@@ -918,12 +1226,12 @@ export class DatabaseStorage implements IStorage {
 
   async createChecklistTemplate(template: InsertChecklistTemplate): Promise<ChecklistTemplate> {
   const prepared = prepareChecklistTemplate(template);
-  const [created] = await db.insert(checklistTemplates).values(prepared as any).returning();
+  const [created] = await this.db.insert(checklistTemplates).values(prepared as any).returning();
     return created;
   }
 
   async updateChecklistTemplate(id: string, updates: Partial<ChecklistTemplate>): Promise<ChecklistTemplate> {
-    const [updated] = await db.update(checklistTemplates)
+    const [updated] = await this.db.update(checklistTemplates)
       .set({ ...updates, updatedAt: new Date() } as any)
       .where(eq(checklistTemplates.id, id))
       .returning();
@@ -931,29 +1239,29 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteChecklistTemplate(id: string): Promise<void> {
-    await db.update(checklistTemplates)
+    await this.db.update(checklistTemplates)
       .set({ isActive: false, updatedAt: new Date() } as any)
       .where(eq(checklistTemplates.id, id));
   }
 
   // Checklist Folders
   async getChecklistFolder(id: string): Promise<ChecklistFolder | undefined> {
-    const [folder] = await db.select().from(checklistFolders).where(eq(checklistFolders.id, id));
+    const [folder] = await this.db.select().from(checklistFolders).where(eq(checklistFolders.id, id));
     return folder;
   }
 
   async getChecklistFoldersByOrganization(organizationId: string): Promise<ChecklistFolder[]> {
-    return await db.select().from(checklistFolders).where(eq(checklistFolders.organizationId, organizationId));
+    return await this.db.select().from(checklistFolders).where(eq(checklistFolders.organizationId, organizationId));
   }
 
   async createChecklistFolder(folder: InsertChecklistFolder): Promise<ChecklistFolder> {
   const prepared = prepareChecklistFolder(folder);
-  const [created] = await db.insert(checklistFolders).values(prepared as any).returning();
+  const [created] = await this.db.insert(checklistFolders).values(prepared as any).returning();
     return created;
   }
 
   async updateChecklistFolder(id: string, updates: Partial<ChecklistFolder>): Promise<ChecklistFolder> {
-    const [updated] = await db.update(checklistFolders)
+    const [updated] = await this.db.update(checklistFolders)
       .set({ ...updates, updatedAt: new Date() } as any)
       .where(eq(checklistFolders.id, id))
       .returning();
@@ -961,18 +1269,18 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteChecklistFolder(id: string): Promise<void> {
-    await db.delete(checklistFolders).where(eq(checklistFolders.id, id));
+    await this.db.delete(checklistFolders).where(eq(checklistFolders.id, id));
   }
 
   // Activity Logs
   async createActivityLog(log: InsertActivityLog): Promise<ActivityLog> {
   const prepared = prepareActivityLog(log);
-  const [created] = await db.insert(activityLogs).values(prepared as any).returning();
+  const [created] = await this.db.insert(activityLogs).values(prepared as any).returning();
     return created;
   }
 
   async getActivityLogsByOrganization(organizationId: string, limit = 50): Promise<ActivityLog[]> {
-    return await db.select().from(activityLogs)
+    return await this.db.select().from(activityLogs)
       .where(eq(activityLogs.organizationId, organizationId))
       .orderBy(desc(activityLogs.createdAt))
       .limit(limit);
@@ -980,23 +1288,23 @@ export class DatabaseStorage implements IStorage {
   
   // Companies
   async getCompany(id: string): Promise<Company | undefined> {
-    const [company] = await db.select().from(companies).where(eq(companies.id, id));
+    const [company] = await this.db.select().from(companies).where(eq(companies.id, id));
     return company;
   }
 
   async getCompaniesByOrganization(organizationId: string): Promise<Company[]> {
-    return await db.select().from(companies)
+    return await this.db.select().from(companies)
       .where(and(eq(companies.organizationId, organizationId), eq(companies.isActive, true)));
   }
 
   async createCompany(company: InsertCompany): Promise<Company> {
   const prepared = prepareCompany(company);
-  const [created] = await db.insert(companies).values(prepared as any).returning();
+  const [created] = await this.db.insert(companies).values(prepared as any).returning();
     return created;
   }
 
   async updateCompany(id: string, updates: Partial<Company>): Promise<Company> {
-    const [updated] = await db.update(companies)
+    const [updated] = await this.db.update(companies)
       .set({ ...updates, updatedAt: new Date() } as any)
       .where(eq(companies.id, id))
       .returning();
@@ -1004,30 +1312,30 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteCompany(id: string): Promise<void> {
-    await db.update(companies)
+    await this.db.update(companies)
       .set({ isActive: false, updatedAt: new Date() } as any)
       .where(eq(companies.id, id));
   }
 
   // Company Locations
   async getCompanyLocation(id: string): Promise<CompanyLocation | undefined> {
-    const [location] = await db.select().from(companyLocations).where(eq(companyLocations.id, id));
+    const [location] = await this.db.select().from(companyLocations).where(eq(companyLocations.id, id));
     return location;
   }
 
   async getCompanyLocationsByCompany(companyId: string): Promise<CompanyLocation[]> {
-    return await db.select().from(companyLocations)
+    return await this.db.select().from(companyLocations)
       .where(and(eq(companyLocations.companyId, companyId), eq(companyLocations.isActive, true)));
   }
 
   async createCompanyLocation(location: InsertCompanyLocation): Promise<CompanyLocation> {
   const prepared = prepareCompanyLocation(location);
-  const [created] = await db.insert(companyLocations).values(prepared as any).returning();
+  const [created] = await this.db.insert(companyLocations).values(prepared as any).returning();
     return created;
   }
 
   async updateCompanyLocation(id: string, updates: Partial<CompanyLocation>): Promise<CompanyLocation> {
-    const [updated] = await db.update(companyLocations)
+    const [updated] = await this.db.update(companyLocations)
       .set({ ...updates, updatedAt: new Date() } as any)
       .where(eq(companyLocations.id, id))
       .returning();
@@ -1035,10 +1343,447 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteCompanyLocation(id: string): Promise<void> {
-    await db.update(companyLocations)
+    await this.db.update(companyLocations)
       .set({ isActive: false, updatedAt: new Date() } as any)
       .where(eq(companyLocations.id, id));
   }
+
+  async getCompanyLocationByQrToken(qrToken: string): Promise<CompanyLocation | undefined> {
+    const [location] = await this.db.select().from(companyLocations)
+      .where(and(eq(companyLocations.qrToken, qrToken), eq(companyLocations.isActive, true)));
+    return location;
+  }
+
+  // Equipment
+  async getEquipment(id: string): Promise<Equipment | undefined> {
+    const [item] = await this.db.select().from(equipment).where(eq(equipment.id, id));
+    return item;
+  }
+
+  async getEquipmentByCompany(companyId: string): Promise<Equipment[]> {
+    return await this.db.select().from(equipment)
+      .where(and(eq(equipment.companyId, companyId), eq(equipment.isActive, true)))
+      .orderBy(asc(equipment.name));
+  }
+
+  async getEquipmentByQrToken(qrToken: string): Promise<Equipment | undefined> {
+    const [item] = await this.db.select().from(equipment)
+      .where(and(eq(equipment.qrToken, qrToken), eq(equipment.isActive, true)));
+    return item;
+  }
+
+  async createEquipment(item: InsertEquipment): Promise<Equipment> {
+    const [created] = await this.db.insert(equipment).values(item as any).returning();
+    return created;
+  }
+
+  async updateEquipment(id: string, updates: Partial<Equipment>): Promise<Equipment> {
+    const [updated] = await this.db.update(equipment)
+      .set({ ...updates, updatedAt: new Date() } as any)
+      .where(eq(equipment.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteEquipment(id: string): Promise<void> {
+    await this.db.update(equipment)
+      .set({ isActive: false, updatedAt: new Date() } as any)
+      .where(eq(equipment.id, id));
+  }
+
+  // SSO Configs
+  async getSsoConfigByOrganization(organizationId: string): Promise<SsoConfig | undefined> {
+    const [config] = await this.db.select().from(ssoConfigs).where(eq(ssoConfigs.organizationId, organizationId));
+    return config;
+  }
+
+  // Only domains whose claim has been verified route users to an IdP
+  async getSsoConfigByDomain(domain: string): Promise<SsoConfig | undefined> {
+    const [row] = await this.db.select({ config: ssoConfigs }).from(ssoDomains)
+      .innerJoin(ssoConfigs, eq(ssoConfigs.organizationId, ssoDomains.organizationId))
+      .where(and(
+        eq(ssoDomains.domain, domain.toLowerCase()),
+        isNotNull(ssoDomains.verifiedAt),
+        arrayContains(ssoConfigs.domains, [domain.toLowerCase()]),
+        eq(ssoConfigs.isEnabled, true)
+      ));
+    return row?.config;
+  }
+
+  async upsertSsoConfig(config: InsertSsoConfig): Promise<SsoConfig> {
+    const [saved] = await this.db.insert(ssoConfigs)
+      .values(config as any)
+      .onConflictDoUpdate({
+        target: ssoConfigs.organizationId,
+        set: { ...config, updatedAt: new Date() } as any
+      })
+      .returning();
+    return saved;
+  }
+
+  async getSsoDomains(organizationId: string): Promise<SsoDomain[]> {
+    return await this.db.select().from(ssoDomains)
+      .where(eq(ssoDomains.organizationId, organizationId))
+      .orderBy(asc(ssoDomains.domain));
+  }
+
+  async getSsoDomain(domain: string): Promise<SsoDomain | undefined> {
+    const [claim] = await this.db.select().from(ssoDomains).where(eq(ssoDomains.domain, domain.toLowerCase()));
+    return claim;
+  }
+
+  async createSsoDomain(claim: Pick<SsoDomain, "organizationId" | "domain" | "verificationToken">): Promise<SsoDomain> {
+    const [created] = await this.db.insert(ssoDomains).values(claim).returning();
+    return created;
+  }
+
+  async updateSsoDomain(id: string, updates: Partial<SsoDomain>): Promise<SsoDomain> {
+    const [updated] = await this.db.update(ssoDomains).set(updates).where(eq(ssoDomains.id, id)).returning();
+    return updated;
+  }
+
+  async deleteSsoDomain(id: string): Promise<void> {
+    await this.db.delete(ssoDomains).where(eq(ssoDomains.id, id));
+  }
+
+  // Custom Roles
+  async getCustomRole(id: string): Promise<CustomRole | undefined> {
+    const [role] = await this.db.select().from(customRoles).where(eq(customRoles.id, id));
+    return role;
+  }
+
+  async getCustomRolesByOrganization(organizationId: string): Promise<CustomRole[]> {
+    return await this.db.select().from(customRoles).where(eq(customRoles.organizationId, organizationId));
+  }
+
+  async createCustomRole(role: InsertCustomRole): Promise<CustomRole> {
+    const [created] = await this.db.insert(customRoles).values(role as any).returning();
+    return created;
+  }
+
+  async updateCustomRole(id: string, updates: Partial<CustomRole>): Promise<CustomRole> {
+    const [updated] = await this.db.update(customRoles)
+      .set({ ...updates, updatedAt: new Date() } as any)
+      .where(eq(customRoles.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteCustomRole(id: string): Promise<void> {
+    // Users on this role fall back to their base role's default grants
+    await this.db.update(users)
+      .set({ customRoleId: null, updatedAt: new Date() } as any)
+      .where(eq(users.customRoleId, id));
+    await this.db.delete(customRoles).where(eq(customRoles.id, id));
+  }
+
+  // API Keys
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    const [key] = await this.db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return key;
+  }
+
+  async getApiKeyByPrefix(prefix: string): Promise<ApiKey | undefined> {
+    const [key] = await this.db.select().from(apiKeys).where(eq(apiKeys.prefix, prefix));
+    return key;
+  }
+
+  async getApiKeysByOrganization(organizationId: string): Promise<ApiKey[]> {
+    return await this.db.select().from(apiKeys)
+      .where(eq(apiKeys.organizationId, organizationId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async createApiKey(key: Omit<ApiKey, "id" | "createdAt" | "lastUsedAt" | "lastUsedIp" | "revokedAt">): Promise<ApiKey> {
+    const [created] = await this.db.insert(apiKeys).values(key).returning();
+    return created;
+  }
+
+  async updateApiKey(id: string, updates: Partial<ApiKey>): Promise<ApiKey> {
+    const [updated] = await this.db.update(apiKeys)
+      .set(updates as any)
+      .where(eq(apiKeys.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Webhooks
+  async getWebhookEndpoint(id: string): Promise<WebhookEndpoint | undefined> {
+    const [endpoint] = await this.db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+    return endpoint;
+  }
+
+  async getWebhookEndpointsByOrganization(organizationId: string): Promise<WebhookEndpoint[]> {
+    return await this.db.select().from(webhookEndpoints)
+      .where(eq(webhookEndpoints.organizationId, organizationId))
+      .orderBy(desc(webhookEndpoints.createdAt));
+  }
+
+  async getActiveWebhookEndpointsForEvent(organizationId: string, event: string): Promise<WebhookEndpoint[]> {
+    return await this.db.select().from(webhookEndpoints)
+      .where(and(
+        eq(webhookEndpoints.organizationId, organizationId),
+        eq(webhookEndpoints.isActive, true),
+        arrayContains(webhookEndpoints.events, [event])
+      ));
+  }
+
+  async createWebhookEndpoint(endpoint: Omit<WebhookEndpoint, "id" | "createdAt" | "updatedAt" | "consecutiveFailures" | "disabledAt">): Promise<WebhookEndpoint> {
+    const [created] = await this.db.insert(webhookEndpoints).values(endpoint).returning();
+    return created;
+  }
+
+  async updateWebhookEndpoint(id: string, updates: Partial<WebhookEndpoint>): Promise<WebhookEndpoint> {
+    const [updated] = await this.db.update(webhookEndpoints)
+      .set({ ...updates, updatedAt: new Date() } as any)
+      .where(eq(webhookEndpoints.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteWebhookEndpoint(id: string): Promise<void> {
+    // Deliveries go with it (ON DELETE CASCADE)
+    await this.db.delete(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async getWebhookDeliveriesByEndpoint(endpointId: string, limit = 50): Promise<WebhookDelivery[]> {
+    return await this.db.select().from(webhookDeliveries)
+      .where(eq(webhookDeliveries.endpointId, endpointId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return await this.db.select().from(webhookDeliveries)
+      .where(and(
+        eq(webhookDeliveries.status, "pending"),
+        lte(webhookDeliveries.nextAttemptAt, now)
+      ))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async createWebhookDelivery(delivery: Pick<WebhookDelivery, "endpointId" | "organizationId" | "event" | "payload"> & Partial<WebhookDelivery>): Promise<WebhookDelivery> {
+    const [created] = await this.db.insert(webhookDeliveries).values(delivery).returning();
+    return created;
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery> {
+    const [updated] = await this.db.update(webhookDeliveries)
+      .set(updates as any)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Notifications
+  async getNotificationsByUser(userId: string, limit = 30): Promise<Notification[]> {
+    return await this.db.select().from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async createNotification(notification: Pick<Notification, "userId" | "organizationId" | "type" | "title" | "message"> & Partial<Notification>): Promise<Notification> {
+    const [created] = await this.db.insert(notifications).values(notification).returning();
+    return created;
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<void> {
+    await this.db.update(notifications)
+      .set({ readAt: new Date() } as any)
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await this.db.update(notifications)
+      .set({ readAt: new Date() } as any)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  async getSyncChange(id: string): Promise<SyncChange | undefined> {
+    const [change] = await this.db.select().from(syncChanges).where(eq(syncChanges.id, id));
+    return change;
+  }
+
+  async createSyncChange(change: Omit<SyncChange, "createdAt">): Promise<SyncChange> {
+    const [created] = await this.db.insert(syncChanges).values(change).returning();
+    return created;
+  }
+
+  // Oldest first; a new signature for a role supersedes the earlier ones
+  async getInspectionSignatures(inspectionId: string): Promise<InspectionSignature[]> {
+    return await this.db.select().from(inspectionSignatures)
+      .where(eq(inspectionSignatures.inspectionId, inspectionId))
+      .orderBy(asc(inspectionSignatures.signedAt));
+  }
+
+  async createInspectionSignature(signature: Omit<InspectionSignature, "id" | "signedAt"> & Partial<InspectionSignature>): Promise<InspectionSignature> {
+    const [created] = await this.db.insert(inspectionSignatures).values(signature).returning();
+    return created;
+  }
+
+  // Inspection review history, oldest first
+  async getInspectionReviews(inspectionId: string): Promise<InspectionReview[]> {
+    return await this.db.select().from(inspectionReviews)
+      .where(eq(inspectionReviews.inspectionId, inspectionId))
+      .orderBy(asc(inspectionReviews.createdAt));
+  }
+
+  async createInspectionReview(review: Omit<InspectionReview, "id" | "createdAt">): Promise<InspectionReview> {
+    const [created] = await this.db.insert(inspectionReviews).values(review).returning();
+    return created;
+  }
+
+  // Completed inspections waiting on each reviewer of the organization
+  async getPendingReviewCounts(organizationId: string): Promise<Map<string, number>> {
+    const rows = await this.db
+      .select({ reviewerId: inspections.reviewerId, count: sql<number>`count(*)::int` })
+      .from(inspections)
+      .where(and(
+        eq(inspections.organizationId, organizationId),
+        eq(inspections.status, 'completed'),
+        isNotNull(inspections.reviewerId)
+      ))
+      .groupBy(inspections.reviewerId);
+    return new Map(rows.map(row => [row.reviewerId!, row.count]));
+  }
+
+  // GPS check-ins
+  async getInspectionCheckIns(inspectionId: string): Promise<InspectionCheckIn[]> {
+    return await this.db.select().from(inspectionCheckIns)
+      .where(eq(inspectionCheckIns.inspectionId, inspectionId))
+      .orderBy(asc(inspectionCheckIns.createdAt));
+  }
+
+  async getInspectionCheckInsBetween(from: Date, to: Date): Promise<InspectionCheckIn[]> {
+    return await this.db.select().from(inspectionCheckIns)
+      .where(and(gte(inspectionCheckIns.createdAt, from), lt(inspectionCheckIns.createdAt, to)))
+      .orderBy(asc(inspectionCheckIns.createdAt));
+  }
+
+  async createInspectionCheckIn(checkIn: Omit<InspectionCheckIn, "id" | "createdAt">): Promise<InspectionCheckIn> {
+    const [created] = await this.db.insert(inspectionCheckIns).values(checkIn).returning();
+    return created;
+  }
+
+  // Address and CNPJ lookup caches
+  async getCepCacheEntry(cep: string): Promise<CepCacheEntry | undefined> {
+    const [entry] = await this.db.select().from(cepCache).where(eq(cepCache.cep, cep));
+    return entry;
+  }
+
+  async saveCepCacheEntry(entry: CepCacheEntry): Promise<CepCacheEntry> {
+    const [saved] = await this.db.insert(cepCache)
+      .values(entry)
+      .onConflictDoUpdate({ target: cepCache.cep, set: entry })
+      .returning();
+    return saved;
+  }
+
+  async getGeocodeCacheEntry(query: string): Promise<GeocodeCacheEntry | undefined> {
+    const [entry] = await this.db.select().from(geocodeCache).where(eq(geocodeCache.query, query));
+    return entry;
+  }
+
+  async saveGeocodeCacheEntry(entry: GeocodeCacheEntry): Promise<GeocodeCacheEntry> {
+    const [saved] = await this.db.insert(geocodeCache)
+      .values(entry)
+      .onConflictDoUpdate({ target: geocodeCache.query, set: entry })
+      .returning();
+    return saved;
+  }
+
+  async getCnpjCacheEntry(cnpj: string): Promise<CnpjCacheEntry | undefined> {
+    const [entry] = await this.db.select().from(cnpjCache).where(eq(cnpjCache.cnpj, cnpj));
+    return entry;
+  }
+
+  async saveCnpjCacheEntry(entry: CnpjCacheEntry): Promise<CnpjCacheEntry> {
+    const [saved] = await this.db.insert(cnpjCache)
+      .values(entry)
+      .onConflictDoUpdate({ target: cnpjCache.cnpj, set: entry })
+      .returning();
+    return saved;
+  }
+
+  // Spreadsheet imports
+  async getCompanyImport(id: string): Promise<CompanyImport | undefined> {
+    const [job] = await this.db.select().from(companyImports).where(eq(companyImports.id, id));
+    return job;
+  }
+
+  // Running jobs are included so a restart resumes them
+  async getUnfinishedCompanyImports(): Promise<CompanyImport[]> {
+    return await this.db.select().from(companyImports)
+      .where(inArray(companyImports.status, ["pending", "running"]))
+      .orderBy(asc(companyImports.createdAt));
+  }
+
+  async createCompanyImport(job: Pick<CompanyImport, "organizationId" | "fileName" | "existingCompanies" | "records" | "totalRows" | "createdBy">): Promise<CompanyImport> {
+    const [created] = await this.db.insert(companyImports).values(job).returning();
+    return created;
+  }
+
+  async updateCompanyImport(id: string, updates: Partial<CompanyImport>): Promise<CompanyImport> {
+    const [updated] = await this.db.update(companyImports)
+      .set(updates)
+      .where(eq(companyImports.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Recurring inspection schedules
+  async getInspectionSchedule(id: string): Promise<InspectionSchedule | undefined> {
+    const [schedule] = await this.db.select().from(inspectionSchedules).where(eq(inspectionSchedules.id, id));
+    return schedule;
+  }
+
+  async getInspectionSchedulesByOrganization(organizationId: string): Promise<InspectionSchedule[]> {
+    return await this.db.select().from(inspectionSchedules)
+      .where(eq(inspectionSchedules.organizationId, organizationId))
+      .orderBy(asc(inspectionSchedules.name));
+  }
+
+  async createInspectionSchedule(schedule: Omit<InspectionSchedule, "id" | "createdAt" | "updatedAt" | "lastGeneratedAt">): Promise<InspectionSchedule> {
+    const [created] = await this.db.insert(inspectionSchedules).values(schedule).returning();
+    return created;
+  }
+
+  async updateInspectionSchedule(id: string, updates: Partial<InspectionSchedule>): Promise<InspectionSchedule> {
+    const [updated] = await this.db.update(inspectionSchedules)
+      .set({ ...updates, updatedAt: new Date() } as any)
+      .where(eq(inspectionSchedules.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Active schedules whose next occurrence is within its lead time
+  async getDueInspectionSchedules(now: Date): Promise<InspectionSchedule[]> {
+    return await this.db.select().from(inspectionSchedules)
+      .where(and(
+        eq(inspectionSchedules.isActive, true),
+        isNotNull(inspectionSchedules.nextOccurrenceAt),
+        sql`${inspectionSchedules.nextOccurrenceAt} - make_interval(days => ${inspectionSchedules.leadTimeDays}) <= ${now}`
+      ));
+  }
+
+  // Generated drafts still not started graceDays after their date, not yet alerted
+  async getMissedScheduledInspections(now: Date): Promise<{ inspection: Inspection; schedule: InspectionSchedule }[]> {
+    return await this.db.select({ inspection: inspections, schedule: inspectionSchedules })
+      .from(inspections)
+      .innerJoin(inspectionSchedules, eq(inspections.scheduleId, inspectionSchedules.id))
+      .where(and(
+        eq(inspections.status, "draft"),
+        isNull(inspections.missedAlertedAt),
+        sql`${inspections.scheduledAt} + make_interval(days => ${inspectionSchedules.graceDays}) < ${now}`
+      ));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,51 @@
+// Database client that tags every query with a tenant for the RLS policies in
+// shared/schema.ts. Each query runs in its own short transaction on a pooled
+// connection with app.current_org_ids set LOCAL, so the setting ends with the
+// transaction and no connection stays checked out between queries.
+
+export interface TenantContext {
+  userId: string;
+  // Comma-separated organization ids, or "*" for the system context
+  organizationIds: string;
+}
+
+export const SYSTEM_CONTEXT: TenantContext = { userId: "", organizationIds: "*" };
+
+interface PooledClient {
+  query(query: any, params?: unknown[]): Promise<any>;
+  release(error?: Error | boolean): void;
+}
+
+export interface ConnectionPool {
+  connect(): Promise<PooledClient>;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// Drizzle only needs query(); db.transaction() is not supported on a
+// tenant-bound database
+export class TenantBoundClient {
+  constructor(private pool: ConnectionPool, private context: TenantContext) {}
+
+  async query(query: any, params?: unknown[]): Promise<any> {
+    const client = await this.pool.connect();
+    let broken: Error | undefined;
+    try {
+      await client.query(
+        `BEGIN; SELECT set_config('app.current_user_id', ${quote(this.context.userId)}, true), ` +
+        `set_config('app.current_org_ids', ${quote(this.context.organizationIds)}, true)`
+      );
+      const result = await client.query(query, params);
+      await client.query("COMMIT");
+      return result;
+    } catch (error) {
+      await client.query("ROLLBACK").catch((rollbackError: Error) => { broken = rollbackError; });
+      throw error;
+    } finally {
+      // A connection that could not roll back is dropped rather than reused
+      client.release(broken);
+    }
+  }
+}
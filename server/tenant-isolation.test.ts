@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { DatabaseStorage } from "./storage";
+import { runWithoutTenant } from "./db";
+import { createTestDatabase, createTestPool } from "./test-database";
+import type { Company, Organization, User } from "@shared/schema";
+
+describe("tenant isolation", () => {
+  let pg: PGlite;
+  let storage: DatabaseStorage;
+  let orgA: Organization;
+  let orgB: Organization;
+  let userA: User;
+  let userB: User;
+  let companyA: Company;
+  let companyB: Company;
+
+  const asTenant = <T>(organizationIds: string[], fn: () => Promise<T>) =>
+    storage.runInTenantScope({ userId: userA.id, organizationIds }, fn);
+
+  beforeAll(async () => {
+    pg = await createTestDatabase();
+    storage = new DatabaseStorage(createTestPool(pg));
+
+    // Seeded in the system context, then the session setting is cleared
+    await pg.exec(`
+      SET app.current_org_ids = '*';
+      INSERT INTO organizations (id, name, type) VALUES ('org-a', 'Empresa A', 'enterprise'), ('org-b', 'Empresa B', 'enterprise');
+      INSERT INTO users (id, email, name, role, organization_id)
+        VALUES ('user-a', 'a@example.com', 'A', 'org_admin', 'org-a'), ('user-b', 'b@example.com', 'B', 'org_admin', 'org-b');
+      INSERT INTO companies (id, name, organization_id, created_by)
+        VALUES ('company-a', 'Cliente A', 'org-a', 'user-a'), ('company-b', 'Cliente B', 'org-b', 'user-b');
+      INSERT INTO company_locations (name, company_id, created_by) VALUES ('Sede B', 'company-b', 'user-b');
+      RESET app.current_org_ids;
+    `);
+    [orgA, orgB, userA, userB, companyA, companyB] = await runWithoutTenant(() => Promise.all([
+      storage.getOrganization("org-a"), storage.getOrganization("org-b"),
+      storage.getUser("user-a"), storage.getUser("user-b"),
+      storage.getCompany("company-a"), storage.getCompany("company-b")
+    ]));
+  });
+
+  afterAll(async () => {
+    await pg?.close();
+  });
+
+  it("reads only the tenant's own rows", async () => {
+    await asTenant([orgA.id], async () => {
+      expect(await storage.getCompany(companyA.id)).toMatchObject({ name: "Cliente A" });
+      expect(await storage.getCompany(companyB.id)).toBeUndefined();
+      expect(await storage.getCompaniesByOrganization(orgB.id)).toEqual([]);
+      expect(await storage.getCompanyLocationsByCompany(companyB.id)).toEqual([]);
+      expect(await storage.getUser(userB.id)).toBeUndefined();
+      expect(await storage.getOrganization(orgB.id)).toBeUndefined();
+    });
+  });
+
+  it("rejects rows written into another tenant", async () => {
+    await asTenant([orgA.id], async () => {
+      await expect(storage.createNotification({ userId: userB.id, organizationId: orgB.id, type: "info", title: "Intrusa", message: "" }))
+        .rejects.toThrow(/row-level security/);
+      await expect(storage.updateCompany(companyA.id, { organizationId: orgB.id }))
+        .rejects.toThrow(/row-level security/);
+    });
+  });
+
+  it("does not update or delete another tenant's rows", async () => {
+    await asTenant([orgA.id], async () => {
+      expect(await storage.updateCompany(companyB.id, { name: "Alterada" })).toBeUndefined();
+      await storage.deleteCompany(companyB.id);
+    });
+
+    const companyBNow = await runWithoutTenant(() => storage.getCompany(companyB.id));
+    expect(companyBNow).toMatchObject({ name: "Cliente B", isActive: true });
+  });
+
+  it("matches no rows without a tenant", async () => {
+    expect(await storage.getCompany(companyA.id)).toBeUndefined();
+    expect(await storage.getOrganizations()).toEqual([]);
+    expect(await asTenant([], () => storage.getOrganizations())).toEqual([]);
+    await expect(storage.createNotification({ userId: userA.id, organizationId: orgA.id, type: "info", title: "Sem tenant", message: "" }))
+      .rejects.toThrow(/row-level security/);
+  });
+
+  it("sees every tenant in the system context", async () => {
+    const organizations = await runWithoutTenant(() => storage.getOrganizations());
+    expect(organizations.map(org => org.id)).toEqual(expect.arrayContaining([orgA.id, orgB.id]));
+  });
+
+  it("leaves no tenant on the connection after a query", async () => {
+    await asTenant([orgA.id], () => storage.getCompany(companyA.id));
+    const { rows } = await pg.query<{ orgs: string | null }>("SELECT current_setting('app.current_org_ids', true) AS orgs");
+    expect(rows[0].orgs || "").toBe("");
+  });
+});
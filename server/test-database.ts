@@ -0,0 +1,45 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import type { ConnectionPool } from "./tenant-client";
+
+// Runs the real migrations on an in-process Postgres as a non-superuser that
+// owns the tables, like the application's database role, so the forced RLS
+// policies apply to every query the storage layer issues.
+
+const MIGRATIONS_DIR = path.resolve(import.meta.dirname, "../migrations");
+
+// Drizzle parses dates itself from the raw text, as node-postgres hands it over
+const RAW_TEXT = (value: string) => value;
+const DATE_TYPES = [1082, 1083, 1114, 1184, 1186, 1266];
+
+export async function createTestDatabase(): Promise<PGlite> {
+  const pg = new PGlite();
+  await pg.exec("CREATE ROLE app LOGIN; GRANT ALL ON SCHEMA public TO app; SET ROLE app;");
+  const journal = JSON.parse(readFileSync(path.join(MIGRATIONS_DIR, "meta/_journal.json"), "utf8"));
+  for (const { tag } of journal.entries) {
+    const sql = readFileSync(path.join(MIGRATIONS_DIR, `${tag}.sql`), "utf8");
+    for (const statement of sql.split("--> statement-breakpoint")) {
+      if (statement.trim()) await pg.exec(statement);
+    }
+  }
+  return pg;
+}
+
+// PGlite has a single connection, so checkouts wait their turn like a pool of one
+export function createTestPool(pg: PGlite): ConnectionPool {
+  const parsers = Object.fromEntries(DATE_TYPES.map(type => [type, RAW_TEXT]));
+  let queue = Promise.resolve();
+  const client = {
+    async query(query: any, params?: unknown[]) {
+      if (typeof query === "string" && !params) return (await pg.exec(query)).at(-1);
+      const result = await pg.query(query.text ?? query, params ?? [], { rowMode: query.rowMode ?? "object", parsers });
+      return { rows: result.rows, rowCount: result.affectedRows ?? result.rows.length, fields: result.fields };
+    }
+  };
+  return {
+    connect: () => new Promise(resolve => {
+      queue = queue.then(() => new Promise<void>(release => resolve({ ...client, release: () => release() })));
+    })
+  };
+}
@@ -1,9 +1,34 @@
-import type { User } from "@shared/schema";
+import type { ApiKey, User } from "@shared/schema";
+import type { Permission } from "@shared/permissions";
 
 declare global {
   namespace Express {
     interface Request {
       user?: User;
+      permissions?: Set<Permission>;
+      // Set when the request authenticated with an API key instead of a session
+      apiKey?: ApiKey;
     }
   }
-}
\ No newline at end of file
+}
+
+declare module "express-session" {
+  interface SessionData {
+    userId: string;
+    // Password checked, waiting for the TOTP step (see /api/auth/2fa/verify)
+    pendingTwoFactor?: {
+      userId: string;
+      expiresAt: number;
+    };
+    // Secret shown during enrollment, persisted only once a code confirms it
+    totpSetupSecret?: string;
+    // Pending OIDC login (state/nonce/PKCE) between redirect and callback
+    sso?: {
+      organizationId: string;
+      state: string;
+      nonce: string;
+      codeVerifier: string;
+      redirect?: string;
+    };
+  }
+}
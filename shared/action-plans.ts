@@ -0,0 +1,52 @@
+// Action plan status machine shared by the API and the React app.
+// "overdue" is only entered by the due-date check, never by a user action.
+
+export type ActionPlanStatus = "pending" | "in_progress" | "completed" | "overdue" | "cancelled";
+
+// Starting is only offered for pending plans: the overdue check would flip an
+// in-progress plan that is past its due date straight back to overdue
+export const ACTION_PLAN_TRANSITIONS = {
+  start: { from: ["pending"], to: "in_progress" },
+  complete: { from: ["pending", "in_progress", "overdue"], to: "completed" },
+  cancel: { from: ["pending", "in_progress", "overdue"], to: "cancelled" },
+  reopen: { from: ["completed", "cancelled"], to: "pending" }
+} as const satisfies Record<string, { from: readonly ActionPlanStatus[]; to: ActionPlanStatus }>;
+
+export type ActionPlanTransition = keyof typeof ACTION_PLAN_TRANSITIONS;
+
+export const ACTION_PLAN_TRANSITION_LABELS: Record<ActionPlanTransition, string> = {
+  start: "Iniciar",
+  complete: "Concluir",
+  cancel: "Cancelar",
+  reopen: "Reabrir"
+};
+
+export function canTransitionActionPlan(status: string | null, transition: ActionPlanTransition): boolean {
+  return (ACTION_PLAN_TRANSITIONS[transition].from as readonly string[]).includes(status || "pending");
+}
+
+export function getAvailableActionPlanTransitions(status: string | null): ActionPlanTransition[] {
+  return (Object.keys(ACTION_PLAN_TRANSITIONS) as ActionPlanTransition[])
+    .filter(transition => canTransitionActionPlan(status, transition));
+}
+
+// Finished plans are read-only until reopened
+export function isActionPlanEditable(status: string | null): boolean {
+  return status !== "completed" && status !== "cancelled";
+}
+
+// Reminder schedule relative to the due date (negative = days before).
+// "assignee" notifies the responsible user; "managers" also notifies the
+// organization's managers and org admins.
+export type EscalationAudience = "assignee" | "managers";
+
+export interface EscalationStep {
+  days: number;
+  audience: EscalationAudience;
+}
+
+export const DEFAULT_ESCALATION_POLICY: EscalationStep[] = [
+  { days: -3, audience: "assignee" },
+  { days: 0, audience: "assignee" },
+  { days: 7, audience: "managers" }
+];
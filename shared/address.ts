@@ -0,0 +1,89 @@
+// Brazilian postal addresses, shared by the address service and the React
+// app. CEP lookups and geocoding run on the server (/api/address/*); this
+// module only normalizes what goes into the address columns of companies
+// and company locations.
+
+export const BRAZILIAN_STATES = [
+  "AC", "AL", "AP", "AM", "BA", "CE", "DF", "ES", "GO", "MA", "MT", "MS", "MG", "PA",
+  "PB", "PR", "PE", "PI", "RJ", "RN", "RS", "RO", "RR", "SC", "SP", "SE", "TO"
+] as const;
+
+export type BrazilianState = typeof BRAZILIAN_STATES[number];
+
+// What a CEP resolves to
+export interface PostalAddress {
+  cep: string; // 8 digits
+  street: string | null;
+  neighborhood: string | null;
+  city: string;
+  state: BrazilianState;
+}
+
+// The address columns of companies and company locations
+export interface AddressFields {
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  zipCode: string | null;
+}
+
+// 8 digits, or null for anything that is not a CEP
+export function normalizeCep(value: string | null | undefined): string | null {
+  const digits = (value ?? "").replace(/\D/g, "");
+  return digits.length === 8 ? digits : null;
+}
+
+export function formatCep(value: string | null | undefined): string {
+  const cep = normalizeCep(value);
+  return cep ? `${cep.slice(0, 5)}-${cep.slice(5)}` : value ?? "";
+}
+
+export function normalizeState(value: string | null | undefined): BrazilianState | null {
+  const state = (value ?? "").trim().toUpperCase();
+  return (BRAZILIAN_STATES as readonly string[]).includes(state) ? state as BrazilianState : null;
+}
+
+function clean(value: string | null | undefined): string | null {
+  const text = (value ?? "").replace(/\s+/g, " ").trim();
+  return text || null;
+}
+
+// Street line as stored in `address`: "Rua X, 123, Sala 4 - Bairro"
+export function formatStreetLine(
+  street: string | null | undefined,
+  number?: string | null,
+  complement?: string | null,
+  neighborhood?: string | null
+): string | null {
+  const line = [street, number, complement].map(clean).filter(Boolean).join(", ");
+  const area = clean(neighborhood);
+  return clean([line, area].filter(Boolean).join(" - "));
+}
+
+// Tidies user input for the address columns: collapsed whitespace, CEP as
+// digits only and an upper-case UF. Only the fields present in `input` are
+// returned, so it can be applied to partial updates.
+export function normalizeAddressFields(input: Partial<AddressFields>): Partial<AddressFields> {
+  const fields: Partial<AddressFields> = {};
+  if ("address" in input) fields.address = clean(input.address);
+  if ("city" in input) fields.city = clean(input.city);
+  if ("state" in input) fields.state = normalizeState(input.state) ?? clean(input.state)?.toUpperCase() ?? null;
+  if ("zipCode" in input) fields.zipCode = normalizeCep(input.zipCode) ?? clean(input.zipCode);
+  return fields;
+}
+
+// Address columns filled from a CEP lookup
+export function postalAddressToFields(postal: PostalAddress, number?: string | null, complement?: string | null): AddressFields {
+  return {
+    address: formatStreetLine(postal.street, number, complement, postal.neighborhood),
+    city: postal.city,
+    state: postal.state,
+    zipCode: postal.cep
+  };
+}
+
+// One line for display and for geocoding: "Rua X, 123 - Bairro, Cidade - UF, 01310-100"
+export function formatFullAddress(fields: Partial<AddressFields>): string {
+  const cityLine = [clean(fields.city), clean(fields.state)].filter(Boolean).join(" - ");
+  return [clean(fields.address), cityLine, fields.zipCode ? formatCep(fields.zipCode) : null].filter(Boolean).join(", ");
+}
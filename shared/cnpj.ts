@@ -0,0 +1,129 @@
+// CNPJ (Brazilian company registration) validation and the normalized
+// registry data returned by GET /api/cnpj/:cnpj, shared by the API and the
+// React app. Lookups run on the server (server/services/cnpj.ts).
+
+import { formatStreetLine, normalizeCep, normalizeState } from "./address";
+
+// 14 characters, without formatting. Since July 2026 the first twelve may
+// be letters (alphanumeric CNPJ); the two check digits are always numeric.
+export function normalizeCnpj(value: string | null | undefined): string {
+  return (value ?? "").replace(/[^0-9A-Za-z]/g, "").toUpperCase();
+}
+
+function checkDigit(base: string): number {
+  // Each character counts as its ASCII code minus 48 (digits keep their
+  // value); weights run 2..9 from the right, wrapping around
+  let sum = 0;
+  for (let i = 0; i < base.length; i++) {
+    sum += (base.charCodeAt(base.length - 1 - i) - 48) * (2 + (i % 8));
+  }
+  const remainder = sum % 11;
+  return remainder < 2 ? 0 : 11 - remainder;
+}
+
+export function isValidCnpj(value: string | null | undefined): boolean {
+  const cnpj = normalizeCnpj(value);
+  // Repeated digits pass the check-digit test but are never issued
+  if (!/^[0-9A-Z]{12}\d{2}$/.test(cnpj) || /^(\d)\1{13}$/.test(cnpj)) return false;
+  const first = checkDigit(cnpj.slice(0, 12));
+  const second = checkDigit(cnpj.slice(0, 12) + first);
+  return cnpj.endsWith(`${first}${second}`);
+}
+
+// Message for an invalid CNPJ, or null when it is valid
+export function getCnpjError(value: string | null | undefined): string | null {
+  if (normalizeCnpj(value).length !== 14) return "CNPJ deve ter 14 caracteres";
+  return isValidCnpj(value) ? null : "CNPJ inválido: dígitos verificadores não conferem";
+}
+
+// 00.000.000/0000-00, the way it is stored in companies.cnpj
+export function formatCnpj(value: string | null | undefined): string {
+  const cnpj = normalizeCnpj(value);
+  if (cnpj.length !== 14) return value ?? "";
+  return `${cnpj.slice(0, 2)}.${cnpj.slice(2, 5)}.${cnpj.slice(5, 8)}/${cnpj.slice(8, 12)}-${cnpj.slice(12)}`;
+}
+
+// CNAE subclass as 0000-0/00
+export function formatCnae(value: string | number | null | undefined): string | null {
+  const digits = String(value ?? "").replace(/\D/g, "");
+  if (digits.length !== 7) return null;
+  return `${digits.slice(0, 4)}-${digits[4]}/${digits.slice(5)}`;
+}
+
+export interface CnpjActivity {
+  code: string; // CNAE, 0000-0/00
+  description: string;
+}
+
+export interface CnpjPartner {
+  name: string;
+  role: string | null;
+  since: string | null; // YYYY-MM-DD
+}
+
+// Registry data of a company, whichever provider answered
+export interface CnpjCompany {
+  cnpj: string; // normalized, 14 characters
+  legalName: string;
+  tradeName: string | null;
+  registrationStatus: string | null; // ATIVA, BAIXADA, INAPTA...
+  openedAt: string | null; // YYYY-MM-DD
+  legalNature: string | null;
+  mainActivity: CnpjActivity | null;
+  secondaryActivities: CnpjActivity[];
+  address: {
+    street: string | null;
+    number: string | null;
+    complement: string | null;
+    neighborhood: string | null;
+    city: string | null;
+    state: string | null;
+    zipCode: string | null; // 8 digits
+  };
+  email: string | null;
+  phone: string | null;
+  partners: CnpjPartner[];
+}
+
+// The columns of `companies` a lookup fills in
+export interface CnpjCompanyFields {
+  name: string;
+  cnpj: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  zipCode: string | null;
+  cnae: string | null;
+  cnaeDescription: string | null;
+  responsibleName: string | null;
+  responsibleRole: string | null;
+}
+
+export type CnpjLookupResult = CnpjCompany & { fields: CnpjCompanyFields };
+
+// The managing partner is the natural company responsible; otherwise the
+// first partner listed
+function getResponsiblePartner(partners: CnpjPartner[]): CnpjPartner | null {
+  return partners.find(partner => /administrador/i.test(partner.role ?? "")) ?? partners[0] ?? null;
+}
+
+export function cnpjCompanyToFields(company: CnpjCompany): CnpjCompanyFields {
+  const { address } = company;
+  const responsible = getResponsiblePartner(company.partners);
+  return {
+    name: company.legalName,
+    cnpj: formatCnpj(company.cnpj),
+    email: company.email?.toLowerCase() ?? null,
+    phone: company.phone,
+    address: formatStreetLine(address.street, address.number, address.complement, address.neighborhood),
+    city: address.city,
+    state: normalizeState(address.state),
+    zipCode: normalizeCep(address.zipCode),
+    cnae: company.mainActivity?.code ?? null,
+    cnaeDescription: company.mainActivity?.description ?? null,
+    responsibleName: responsible?.name ?? null,
+    responsibleRole: responsible?.role ?? null
+  };
+}
@@ -0,0 +1,210 @@
+// Spreadsheet import of companies and their locations. The browser reads the
+// file and maps its columns to the fields below; the server validates every
+// row again, detects duplicates and runs the import as a background job
+// (server/services/company-import.ts).
+//
+// One row per location: rows sharing a CNPJ (or, without one, the company
+// name) belong to the same company, and a row without location columns only
+// registers the company.
+
+import { normalizeCep, normalizeState } from "./address";
+import { formatCnae, getCnpjError, normalizeCnpj } from "./cnpj";
+
+export const MAX_IMPORT_ROWS = 2000;
+
+export type CompanyImportStatus = "pending" | "running" | "completed" | "failed";
+
+// What to do when a row's company is already registered
+export type ExistingCompanyPolicy = "skip" | "update";
+
+export interface CompanyImportField {
+  key: string;
+  label: string;
+  entity: "company" | "location";
+  required?: boolean;
+  aliases: string[]; // header spellings recognized by guessColumnMapping
+}
+
+export const COMPANY_IMPORT_FIELDS = [
+  { key: "name", label: "Razão social", entity: "company", required: true, aliases: ["empresa", "nome", "nome da empresa", "razao", "nome empresarial"] },
+  { key: "cnpj", label: "CNPJ", entity: "company", aliases: ["cnpj da empresa"] },
+  { key: "email", label: "E-mail", entity: "company", aliases: ["email", "e mail da empresa", "email da empresa"] },
+  { key: "phone", label: "Telefone", entity: "company", aliases: ["fone", "tel", "telefone da empresa"] },
+  { key: "website", label: "Site", entity: "company", aliases: ["website", "site da empresa"] },
+  { key: "cnae", label: "CNAE", entity: "company", aliases: ["cnae principal", "atividade principal"] },
+  { key: "address", label: "Endereço", entity: "company", aliases: ["logradouro", "endereco da empresa"] },
+  { key: "city", label: "Cidade", entity: "company", aliases: ["municipio", "cidade da empresa"] },
+  { key: "state", label: "UF", entity: "company", aliases: ["estado", "uf da empresa"] },
+  { key: "zipCode", label: "CEP", entity: "company", aliases: ["cep da empresa"] },
+  { key: "responsibleName", label: "Responsável", entity: "company", aliases: ["nome do responsavel", "responsavel legal", "contato"] },
+  { key: "responsibleRole", label: "Cargo do responsável", entity: "company", aliases: ["cargo"] },
+  { key: "responsibleEmail", label: "E-mail do responsável", entity: "company", aliases: ["email do responsavel", "email do contato"] },
+  { key: "responsiblePhone", label: "Telefone do responsável", entity: "company", aliases: ["telefone do contato"] },
+  { key: "notes", label: "Observações", entity: "company", aliases: ["obs", "observacao"] },
+  { key: "locationName", label: "Local", entity: "location", aliases: ["nome do local", "unidade", "filial", "site do cliente"] },
+  { key: "locationType", label: "Tipo do local", entity: "location", aliases: ["tipo", "tipo de local", "tipo da unidade"] },
+  { key: "locationAddress", label: "Endereço do local", entity: "location", aliases: ["endereco da unidade"] },
+  { key: "locationCity", label: "Cidade do local", entity: "location", aliases: ["cidade da unidade"] },
+  { key: "locationState", label: "UF do local", entity: "location", aliases: ["estado do local", "uf da unidade"] },
+  { key: "locationZipCode", label: "CEP do local", entity: "location", aliases: ["cep da unidade"] },
+  { key: "locationResponsibleName", label: "Responsável pelo local", entity: "location", aliases: ["responsavel do local", "responsavel da unidade"] },
+  { key: "locationResponsiblePhone", label: "Telefone do responsável pelo local", entity: "location", aliases: ["telefone do local"] },
+  { key: "locationResponsibleEmail", label: "E-mail do responsável pelo local", entity: "location", aliases: ["email do local"] }
+] as const satisfies readonly CompanyImportField[];
+
+export type CompanyImportFieldKey = typeof COMPANY_IMPORT_FIELDS[number]["key"];
+
+// Field -> index of the spreadsheet column it is read from
+export type CompanyImportMapping = Partial<Record<CompanyImportFieldKey, number>>;
+
+// One spreadsheet row after mapping; `row` is its line in the file
+export type CompanyImportRecord = { row: number } & Partial<Record<CompanyImportFieldKey, string>>;
+
+export interface CompanyImportRowResult {
+  row: number;
+  name: string;
+  cnpj: string | null;
+  // null when the row was rejected
+  company: "created" | "updated" | "existing" | null;
+  location: "created" | "existing" | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface CompanyImportSummary {
+  totalRows: number;
+  companiesCreated: number;
+  companiesUpdated: number;
+  locationsCreated: number;
+  failedRows: number;
+  warningRows: number;
+}
+
+// What GET /api/company-imports/:id returns; `issues` are the rows with
+// errors or warnings
+export interface CompanyImportView {
+  id: string;
+  fileName: string;
+  status: CompanyImportStatus;
+  existingCompanies: ExistingCompanyPolicy;
+  totalRows: number;
+  processedRows: number;
+  error: string | null;
+  summary: CompanyImportSummary;
+  issues: CompanyImportRowResult[];
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export interface CompanyImportPreview {
+  summary: CompanyImportSummary;
+  results: CompanyImportRowResult[];
+}
+
+// Lower case, no accents, single spaces: "E-mail do Responsável" -> "e mail do responsavel"
+function normalizeHeader(value: string): string {
+  return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Maps columns whose header matches a field's label or one of its aliases;
+// each column is used at most once
+export function guessColumnMapping(headers: string[]): CompanyImportMapping {
+  const mapping: CompanyImportMapping = {};
+  const used = new Set<number>();
+  const normalized = headers.map(header => normalizeHeader(header ?? ""));
+  for (const field of COMPANY_IMPORT_FIELDS) {
+    const names = [field.key.toLowerCase(), field.label, ...field.aliases].map(normalizeHeader);
+    const index = normalized.findIndex((header, i) => !used.has(i) && names.includes(header));
+    if (index >= 0) {
+      mapping[field.key] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+// Turns the data rows (header excluded) into records, skipping blank lines.
+// Line numbers count the header, as a spreadsheet program shows them.
+export function applyColumnMapping(rows: string[][], mapping: CompanyImportMapping): CompanyImportRecord[] {
+  const records: CompanyImportRecord[] = [];
+  rows.forEach((row, index) => {
+    const record: CompanyImportRecord = { row: index + 2 };
+    for (const field of COMPANY_IMPORT_FIELDS) {
+      const column = mapping[field.key];
+      const value = column === undefined ? "" : String(row[column] ?? "").replace(/\s+/g, " ").trim();
+      if (value) record[field.key] = value;
+    }
+    if (Object.keys(record).length > 1) records.push(record);
+  });
+  return records;
+}
+
+// Spreadsheets that keep CNPJ and CEP as numbers drop their leading zeros
+function restoreLeadingZeros(value: string | undefined, length: number, maxMissing: number): string | undefined {
+  if (!value || !/^\d+$/.test(value) || value.length >= length || value.length < length - maxMissing) return value;
+  return value.padStart(length, "0");
+}
+
+export function normalizeImportRecord(record: CompanyImportRecord): CompanyImportRecord {
+  return {
+    ...record,
+    cnpj: restoreLeadingZeros(record.cnpj, 14, 2),
+    zipCode: restoreLeadingZeros(record.zipCode, 8, 1),
+    locationZipCode: restoreLeadingZeros(record.locationZipCode, 8, 1)
+  };
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const LOCATION_KEYS = COMPANY_IMPORT_FIELDS.filter(field => field.entity === "location").map(field => field.key);
+
+// Problems that keep a row from being imported; expects a normalized record
+export function validateImportRecord(record: CompanyImportRecord): string[] {
+  const errors: string[] = [];
+  if (!record.name) errors.push("Informe a razão social");
+  if (record.cnpj) {
+    const cnpjError = getCnpjError(record.cnpj);
+    if (cnpjError) errors.push(`${cnpjError} (${record.cnpj})`);
+  }
+  if (record.cnae && !formatCnae(record.cnae)) errors.push(`CNAE inválido: ${record.cnae}`);
+
+  const checkState = (value: string | undefined, label: string) => {
+    if (value && !normalizeState(value)) errors.push(`${label} inválida: ${value}`);
+  };
+  const checkCep = (value: string | undefined, label: string) => {
+    if (value && !normalizeCep(value)) errors.push(`${label} inválido: ${value} (use 8 dígitos)`);
+  };
+  const checkEmail = (value: string | undefined, label: string) => {
+    if (value && !EMAIL_PATTERN.test(value)) errors.push(`${label} inválido: ${value}`);
+  };
+  checkState(record.state, "UF");
+  checkCep(record.zipCode, "CEP");
+  checkEmail(record.email, "E-mail");
+  checkEmail(record.responsibleEmail, "E-mail do responsável");
+
+  if (LOCATION_KEYS.some(key => record[key]) && !record.locationName) {
+    errors.push("Informe o nome do local");
+  }
+  checkState(record.locationState, "UF do local");
+  checkCep(record.locationZipCode, "CEP do local");
+  checkEmail(record.locationResponsibleEmail, "E-mail do responsável pelo local");
+  return errors;
+}
+
+// Identifies the company of a row: the CNPJ, or the name when there is none
+export function companyImportKey(company: { name?: string | null; cnpj?: string | null }): string {
+  const cnpj = normalizeCnpj(company.cnpj);
+  return cnpj ? `cnpj:${cnpj}` : `name:${(company.name ?? "").replace(/\s+/g, " ").trim().toLowerCase()}`;
+}
+
+export function summarizeImportResults(totalRows: number, results: CompanyImportRowResult[]): CompanyImportSummary {
+  return {
+    totalRows,
+    companiesCreated: results.filter(result => result.company === "created").length,
+    companiesUpdated: results.filter(result => result.company === "updated").length,
+    locationsCreated: results.filter(result => result.location === "created").length,
+    failedRows: results.filter(result => result.errors.length > 0).length,
+    warningRows: results.filter(result => !result.errors.length && result.warnings.length > 0).length
+  };
+}
@@ -0,0 +1,82 @@
+// GPS check-ins of inspections, shared by the API and the React app. The
+// device position is recorded when an inspection is started and completed
+// and compared with the registered site, so desk inspections stand out.
+
+export type CheckInEvent = "start" | "complete";
+
+export type GeofenceStatus = "inside" | "outside" | "no_position" | "no_site";
+
+export const CHECK_IN_EVENT_LABELS: Record<CheckInEvent, string> = {
+  start: "Início",
+  complete: "Conclusão"
+};
+
+export const GEOFENCE_STATUS_LABELS: Record<GeofenceStatus, string> = {
+  inside: "No local",
+  outside: "Fora do local",
+  no_position: "Sem GPS",
+  no_site: "Local sem coordenadas"
+};
+
+// Used until the organization configures its own radius
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 500;
+export const MIN_GEOFENCE_RADIUS_METERS = 50;
+export const MAX_GEOFENCE_RADIUS_METERS = 50000;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface DevicePosition extends GeoPoint {
+  accuracy?: number | null; // meters, as reported by the browser
+  capturedAt?: string | Date;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// Great-circle (haversine) distance
+export function distanceInMeters(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// The reported accuracy is given the benefit of the doubt, but never more
+// than the radius itself, so a coarse fix cannot cover a whole city
+export function evaluateGeofence(
+  position: DevicePosition | null | undefined,
+  site: GeoPoint | null | undefined,
+  radiusMeters: number
+): { status: GeofenceStatus; distanceMeters: number | null } {
+  if (!position) return { status: "no_position", distanceMeters: null };
+  if (!site) return { status: "no_site", distanceMeters: null };
+
+  const distanceMeters = distanceInMeters(position, site);
+  const tolerance = Math.min(Math.max(position.accuracy ?? 0, 0), radiusMeters);
+  return { status: distanceMeters - tolerance > radiusMeters ? "outside" : "inside", distanceMeters };
+}
+
+// Flagged inspections need an auditor's look: performed away from the site
+// or without a position to prove otherwise
+export function isGeofenceFlagged(status: string | null | undefined): boolean {
+  return status === "outside" || status === "no_position";
+}
+
+const STATUS_SEVERITY: Record<GeofenceStatus, number> = { inside: 0, no_site: 1, no_position: 2, outside: 3 };
+
+// An inspection keeps the worst status of its check-ins
+export function worstGeofenceStatus(statuses: GeofenceStatus[]): GeofenceStatus | null {
+  return statuses.reduce<GeofenceStatus | null>(
+    (worst, status) => !worst || STATUS_SEVERITY[status] > STATUS_SEVERITY[worst] ? status : worst,
+    null
+  );
+}
+
+export function formatDistance(meters: number | null | undefined): string {
+  if (meters == null) return "-";
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1).replace(".", ",")} km`;
+}
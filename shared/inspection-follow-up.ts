@@ -0,0 +1,62 @@
+// Follow-up (verification) inspections, shared by the API and the React app.
+// A follow-up re-checks only the items its parent found non-conform; the
+// checklist copy keeps the parent's item ids so answers can be compared.
+import { normalizeChecklistItems, type ChecklistItemDefinition, type InspectionItemResponse } from "./inspection-responses";
+
+export type FollowUpOutcome = "resolved" | "persisting" | "not_applicable" | "pending";
+
+export const FOLLOW_UP_OUTCOME_LABELS: Record<FollowUpOutcome, string> = {
+  resolved: "Corrigido",
+  persisting: "Não corrigido",
+  not_applicable: "Não se aplica",
+  pending: "Não verificado"
+};
+
+export interface FollowUpComparisonRow {
+  itemId: string;
+  label: string;
+  standard?: string;
+  before: InspectionItemResponse | null;
+  after: InspectionItemResponse | null;
+  outcome: FollowUpOutcome;
+}
+
+export function getNonConformItemIds(responses: InspectionItemResponse[] | null | undefined): string[] {
+  return (responses ?? []).filter(response => response.status === "non_conform").map(response => response.itemId);
+}
+
+// Copies the raw checklist entries of the given items, pinning each id
+// (position-based ids would shift) and making every item required
+export function buildFollowUpChecklist(checklist: unknown, itemIds: string[]): Record<string, unknown>[] {
+  const wanted = new Set(itemIds);
+  const raw = Array.isArray(checklist) ? checklist : [];
+  return normalizeChecklistItems(raw).flatMap((item, index) =>
+    wanted.has(item.id) ? [{ ...raw[index], id: item.id, required: true }] : []
+  );
+}
+
+export function getFollowUpOutcome(after: InspectionItemResponse | null | undefined): FollowUpOutcome {
+  switch (after?.status) {
+    case "conform": return "resolved";
+    case "non_conform": return "persisting";
+    case "not_applicable": return "not_applicable";
+    default: return "pending";
+  }
+}
+
+export function compareFollowUp(
+  items: ChecklistItemDefinition[],
+  before: InspectionItemResponse[] | null | undefined,
+  after: InspectionItemResponse[] | null | undefined
+): FollowUpComparisonRow[] {
+  const previous = new Map((before ?? []).map(response => [response.itemId, response]));
+  const current = new Map((after ?? []).map(response => [response.itemId, response]));
+  return items.map(item => ({
+    itemId: item.id,
+    label: item.label,
+    standard: item.standard,
+    before: previous.get(item.id) ?? null,
+    after: current.get(item.id) ?? null,
+    outcome: getFollowUpOutcome(current.get(item.id))
+  }));
+}
@@ -0,0 +1,250 @@
+// Per-item inspection responses and weighted scoring, shared by the API and
+// the React app. Checklist items come from the template snapshot stored in
+// inspections.checklist, which holds both the ChecklistBuilder field shape
+// ({ type, label, required, options }) and the older { item, standard, weight }.
+
+export const CHECKLIST_FIELD_TYPES = [
+  "text", "textarea", "select", "multiselect", "radio", "checkbox", "boolean",
+  "date", "time", "datetime", "number", "rating", "file", "signature", "location"
+] as const;
+
+export type ChecklistFieldType = typeof CHECKLIST_FIELD_TYPES[number];
+
+export const INSPECTION_RESPONSE_STATUSES = ["conform", "non_conform", "not_applicable"] as const;
+
+export type InspectionResponseStatus = typeof INSPECTION_RESPONSE_STATUSES[number];
+
+export const INSPECTION_RESPONSE_STATUS_LABELS: Record<InspectionResponseStatus, string> = {
+  conform: "Conforme",
+  non_conform: "Não conforme",
+  not_applicable: "Não se aplica"
+};
+
+export const FINDING_SEVERITIES = ["low", "medium", "high", "critical"] as const;
+
+export type FindingSeverity = typeof FINDING_SEVERITIES[number];
+
+export interface ChecklistItemDefinition {
+  id: string;
+  label: string;
+  type: ChecklistFieldType;
+  required: boolean;
+  weight: number;
+  options?: string[];
+  min?: number;
+  max?: number;
+  standard?: string;
+  section?: string;
+  description?: string;
+}
+
+export interface InspectionItemResponse {
+  itemId: string;
+  status: InspectionResponseStatus;
+  value?: unknown;
+  notes?: string;
+  severity?: FindingSeverity;
+  // Evidence references (uploaded file ids or URLs)
+  evidence?: string[];
+  // Set by the server on every save; offline sync uses it to detect conflicts
+  updatedAt?: string;
+}
+
+// Entry of inspections.findings: one per non-conformity
+export interface InspectionFinding {
+  itemId?: string;
+  item: string;
+  description: string;
+  severity: FindingSeverity;
+  standard?: string;
+  evidence?: string[];
+}
+
+export interface InspectionScore {
+  // Weighted percentage, null when no item counts towards the score
+  score: number | null;
+  earnedWeight: number;
+  possibleWeight: number;
+  conformities: number;
+  nonConformities: number;
+  notApplicable: number;
+  unanswered: number;
+}
+
+function isFieldType(value: unknown): value is ChecklistFieldType {
+  return typeof value === "string" && (CHECKLIST_FIELD_TYPES as readonly string[]).includes(value);
+}
+
+// Items without an id are addressed by position, as in ChecklistBuilder
+export function normalizeChecklistItems(items: unknown): ChecklistItemDefinition[] {
+  if (!Array.isArray(items)) return [];
+  return items.map((raw: any, index: number) => ({
+    id: raw?.id != null && raw.id !== "" ? String(raw.id) : String(index),
+    label: raw?.item || raw?.label || `Item ${index + 1}`,
+    type: isFieldType(raw?.type) ? raw.type : "text",
+    required: !!(raw?.required ?? raw?.isRequired),
+    weight: typeof raw?.weight === "number" && raw.weight >= 0 ? raw.weight : 1,
+    options: Array.isArray(raw?.options) ? raw.options.map(String) : undefined,
+    min: typeof raw?.min === "number" ? raw.min : undefined,
+    max: typeof raw?.max === "number" ? raw.max : undefined,
+    standard: raw?.standard || undefined,
+    section: raw?.category || raw?.section || undefined,
+    description: raw?.description || raw?.helpText || undefined
+  }));
+}
+
+function isValidDate(value: unknown): boolean {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value));
+}
+
+// Returns an error message when the value does not fit the field type
+function validateValue(item: ChecklistItemDefinition, value: unknown): string | null {
+  const options = item.options?.length ? item.options : null;
+  switch (item.type) {
+    case "text":
+    case "textarea":
+    case "file":
+    case "signature":
+      return typeof value === "string" ? null : "deve ser um texto";
+    case "select":
+    case "radio":
+      return typeof value === "string" && (!options || options.includes(value)) ? null : "deve ser uma das opções";
+    case "multiselect":
+      if (!Array.isArray(value) || value.some(v => typeof v !== "string")) return "deve ser uma lista de opções";
+      return !options || value.every(v => options.includes(v)) ? null : "deve conter apenas opções da lista";
+    case "checkbox":
+    case "boolean":
+      return typeof value === "boolean" ? null : "deve ser verdadeiro ou falso";
+    case "date":
+    case "datetime":
+      return isValidDate(value) ? null : "deve ser uma data válida";
+    case "time":
+      return typeof value === "string" && /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(value) ? null : "deve ser um horário (HH:MM)";
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) return "deve ser um número";
+      if (item.min !== undefined && value < item.min) return `deve ser no mínimo ${item.min}`;
+      if (item.max !== undefined && value > item.max) return `deve ser no máximo ${item.max}`;
+      return null;
+    case "rating":
+      return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 5 ? null : "deve ser uma nota de 1 a 5";
+    case "location": {
+      const location = value as { latitude?: unknown; longitude?: unknown } | null;
+      return typeof location?.latitude === "number" && typeof location?.longitude === "number"
+        ? null
+        : "deve conter latitude e longitude";
+    }
+  }
+}
+
+// Required items need a response, but "not_applicable" counts as one
+export function getMissingRequiredItems(items: ChecklistItemDefinition[], responses: InspectionItemResponse[]): ChecklistItemDefinition[] {
+  const answered = new Set(responses.map(response => response.itemId));
+  return items.filter(item => item.required && !answered.has(item.id));
+}
+
+// Checks the responses against the checklist; returns pt-BR error messages.
+// Partial checks (autosave) skip the required-items rule.
+export function validateInspectionResponses(
+  items: ChecklistItemDefinition[],
+  responses: InspectionItemResponse[],
+  options: { partial?: boolean } = {}
+): string[] {
+  const errors: string[] = [];
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  const seen = new Set<string>();
+
+  for (const response of responses) {
+    const item = itemsById.get(response.itemId);
+    if (!item) {
+      errors.push(`Item "${response.itemId}" não pertence ao checklist`);
+      continue;
+    }
+    if (seen.has(response.itemId)) {
+      errors.push(`Item "${item.label}" respondido mais de uma vez`);
+      continue;
+    }
+    seen.add(response.itemId);
+
+    if (response.status !== "not_applicable" && response.value !== undefined && response.value !== null) {
+      const error = validateValue(item, response.value);
+      if (error) errors.push(`"${item.label}": valor ${error}`);
+    }
+  }
+
+  if (!options.partial) {
+    for (const item of getMissingRequiredItems(items, responses)) {
+      errors.push(`"${item.label}" é obrigatório`);
+    }
+  }
+  return errors;
+}
+
+// Score = conforming weight / weight of answered items, as a percentage.
+// Not-applicable and unanswered items are left out of both sides.
+export function scoreInspectionResponses(items: ChecklistItemDefinition[], responses: InspectionItemResponse[]): InspectionScore {
+  const responsesById = new Map(responses.map(response => [response.itemId, response]));
+  const result: InspectionScore = {
+    score: null,
+    earnedWeight: 0,
+    possibleWeight: 0,
+    conformities: 0,
+    nonConformities: 0,
+    notApplicable: 0,
+    unanswered: 0
+  };
+
+  for (const item of items) {
+    const response = responsesById.get(item.id);
+    if (!response) {
+      result.unanswered++;
+    } else if (response.status === "not_applicable") {
+      result.notApplicable++;
+    } else {
+      result.possibleWeight += item.weight;
+      if (response.status === "conform") {
+        result.conformities++;
+        result.earnedWeight += item.weight;
+      } else {
+        result.nonConformities++;
+      }
+    }
+  }
+
+  if (result.possibleWeight > 0) {
+    result.score = Math.round((result.earnedWeight / result.possibleWeight) * 1000) / 10;
+  }
+  return result;
+}
+
+export function responsesToFindings(items: ChecklistItemDefinition[], responses: InspectionItemResponse[]): InspectionFinding[] {
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  return responses
+    .filter(response => response.status === "non_conform")
+    .map(response => {
+      const item = itemsById.get(response.itemId);
+      return {
+        itemId: response.itemId,
+        item: item?.label || response.itemId,
+        description: response.notes || "Não conforme",
+        severity: response.severity || "medium",
+        standard: item?.standard,
+        evidence: response.evidence?.length ? response.evidence : undefined
+      };
+    });
+}
+
+export interface ChecklistSection {
+  name: string;
+  items: ChecklistItemDefinition[];
+}
+
+// Groups items by their template category, keeping the first-seen order
+export function groupChecklistSections(items: ChecklistItemDefinition[]): ChecklistSection[] {
+  const sections = new Map<string, ChecklistItemDefinition[]>();
+  for (const item of items) {
+    const name = item.section || "Geral";
+    if (!sections.has(name)) sections.set(name, []);
+    sections.get(name)!.push(item);
+  }
+  return Array.from(sections, ([name, sectionItems]) => ({ name, items: sectionItems }));
+}
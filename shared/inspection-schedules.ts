@@ -0,0 +1,85 @@
+import * as rruleModule from "rrule";
+
+// rrule is CommonJS under Node's ESM loader (everything sits on the default
+// export) and real ESM under Vite
+const { RRule, Frequency } = ((rruleModule as any).default ?? rruleModule) as typeof rruleModule;
+type Frequency = rruleModule.Frequency;
+type RRule = rruleModule.RRule;
+
+// Recurring inspection schedules, shared by the API and the React app.
+// The recurrence is an iCalendar RRULE without DTSTART ("FREQ=MONTHLY;
+// BYMONTHDAY=10"); the schedule's start date supplies DTSTART, so the time of
+// day of every occurrence is the time of the start date.
+
+export const SCHEDULE_RECURRENCE_PRESETS = [
+  { label: "Semanal", recurrence: "FREQ=WEEKLY" },
+  { label: "Mensal (ex.: extintores, NR-23)", recurrence: "FREQ=MONTHLY" },
+  { label: "Trimestral (ex.: máquinas, NR-12)", recurrence: "FREQ=MONTHLY;INTERVAL=3" },
+  { label: "Semestral", recurrence: "FREQ=MONTHLY;INTERVAL=6" },
+  { label: "Anual (ex.: instalações elétricas, NR-10)", recurrence: "FREQ=YEARLY" }
+] as const;
+
+// Hourly or finer recurrences would flood inspectors with drafts
+const ALLOWED_FREQUENCIES = [Frequency.YEARLY, Frequency.MONTHLY, Frequency.WEEKLY, Frequency.DAILY];
+
+// Label for INTERVAL=1 and the plural unit for larger intervals
+const FREQUENCY_LABELS: Partial<Record<Frequency, [string, string]>> = {
+  [Frequency.YEARLY]: ["Anual", "anos"],
+  [Frequency.MONTHLY]: ["Mensal", "meses"],
+  [Frequency.WEEKLY]: ["Semanal", "semanas"],
+  [Frequency.DAILY]: ["Diária", "dias"]
+};
+
+function normalizeRecurrence(recurrence: string): string {
+  return recurrence.trim().replace(/^RRULE:/i, "").toUpperCase();
+}
+
+export function getRecurrenceError(recurrence: string): string | null {
+  const normalized = normalizeRecurrence(recurrence);
+  if (/DTSTART|UNTIL/.test(normalized)) {
+    return "Use as datas de início e término do agendamento em vez de DTSTART/UNTIL";
+  }
+  try {
+    const options = RRule.parseString(normalized);
+    if (options.freq === undefined || !ALLOWED_FREQUENCIES.includes(options.freq)) {
+      return "A recorrência deve ser diária, semanal, mensal ou anual (FREQ=DAILY|WEEKLY|MONTHLY|YEARLY)";
+    }
+    return null;
+  } catch {
+    return `Recorrência inválida: ${recurrence}`;
+  }
+}
+
+export function buildRecurrenceRule(recurrence: string, startsAt: Date, endsAt?: Date | null): RRule {
+  return new RRule({
+    ...RRule.parseString(normalizeRecurrence(recurrence)),
+    dtstart: startsAt,
+    until: endsAt ?? null
+  });
+}
+
+// First occurrence at or after `from`, or null when the schedule has ended
+export function getNextOccurrence(recurrence: string, startsAt: Date, endsAt: Date | null | undefined, from: Date): Date | null {
+  return buildRecurrenceRule(recurrence, startsAt, endsAt).after(from, true);
+}
+
+export function getUpcomingOccurrences(recurrence: string, startsAt: Date, endsAt: Date | null | undefined, from: Date, count: number): Date[] {
+  const rule = buildRecurrenceRule(recurrence, startsAt, endsAt);
+  const occurrences: Date[] = [];
+  for (let next = rule.after(from, true); next && occurrences.length < count; next = rule.after(next, false)) {
+    occurrences.push(next);
+  }
+  return occurrences;
+}
+
+// Short pt-BR label ("Mensal", "A cada 3 meses"); rules with BY* parts get
+// the raw rule appended, since rrule's own toText() is English only
+export function describeRecurrence(recurrence: string): string {
+  if (getRecurrenceError(recurrence)) return recurrence;
+  const options = RRule.parseString(normalizeRecurrence(recurrence));
+  const interval = options.interval ?? 1;
+  const [label, unit] = FREQUENCY_LABELS[options.freq!]!;
+  const base = interval === 1 ? label : `A cada ${interval} ${unit}`;
+  const details = normalizeRecurrence(recurrence).split(";").filter(part => !/^(FREQ|INTERVAL)=/.test(part));
+  return details.length > 0 ? `${base} (${details.join(";")})` : base;
+}
@@ -0,0 +1,47 @@
+// Inspection status machine shared by the API and the React app.
+// Completing an inspection submits it to a reviewer, who approves it (which
+// locks it) or rejects it with comments, sending it back to "in_progress".
+// "rejected" is only left on inspections rejected before the review step.
+
+export type InspectionStatus = "draft" | "in_progress" | "completed" | "approved" | "rejected";
+
+export const INSPECTION_TRANSITIONS = {
+  start: { from: ["draft", "rejected"], to: "in_progress" },
+  complete: { from: ["in_progress"], to: "completed" },
+  approve: { from: ["completed"], to: "approved" },
+  reject: { from: ["completed"], to: "in_progress" }
+} as const satisfies Record<string, { from: readonly InspectionStatus[]; to: InspectionStatus }>;
+
+export type InspectionTransition = keyof typeof INSPECTION_TRANSITIONS;
+
+// Decisions taken by the reviewer, each with its own endpoint
+export const REVIEW_DECISIONS = ["approve", "reject"] as const satisfies readonly InspectionTransition[];
+export type ReviewDecision = typeof REVIEW_DECISIONS[number];
+
+export const INSPECTION_TRANSITION_LABELS: Record<InspectionTransition, string> = {
+  start: "Iniciar",
+  complete: "Enviar para revisão",
+  approve: "Aprovar",
+  reject: "Devolver para correção"
+};
+
+export function canTransitionInspection(status: string | null, transition: InspectionTransition): boolean {
+  return (INSPECTION_TRANSITIONS[transition].from as readonly string[]).includes(status || "draft");
+}
+
+// Approved inspections are the record of what was signed off: no edits,
+// answers, evidence or deletion afterwards
+export function isInspectionLocked(status: string | null): boolean {
+  return status === "approved";
+}
+
+// Entries of the review history (inspection_reviews.action)
+export const REVIEW_ACTIONS = ["submitted", "approved", "rejected", "reassigned"] as const;
+export type ReviewAction = typeof REVIEW_ACTIONS[number];
+
+export const REVIEW_ACTION_LABELS: Record<ReviewAction, string> = {
+  submitted: "Enviada para revisão",
+  approved: "Aprovada",
+  rejected: "Devolvida para correção",
+  reassigned: "Revisor alterado"
+};
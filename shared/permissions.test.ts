@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { canAssignRole } from "./permissions";
+
+describe("canAssignRole", () => {
+  it("never lets anyone but a system admin hand out system_admin", () => {
+    for (const role of ["org_admin", "manager", "inspector", "client"]) {
+      expect(canAssignRole(role, "system_admin"), role).toBe(false);
+    }
+    expect(canAssignRole("system_admin", "system_admin")).toBe(true);
+  });
+
+  it("allows the caller's own role and the ones below it", () => {
+    expect(canAssignRole("org_admin", "org_admin")).toBe(true);
+    expect(canAssignRole("org_admin", "client")).toBe(true);
+    expect(canAssignRole("manager", "inspector")).toBe(true);
+    expect(canAssignRole("manager", "org_admin")).toBe(false);
+    expect(canAssignRole("client", "inspector")).toBe(false);
+  });
+
+  it("rejects unknown roles", () => {
+    expect(canAssignRole("org_admin", "owner")).toBe(false);
+    expect(canAssignRole("", "client")).toBe(false);
+  });
+});
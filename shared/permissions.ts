@@ -0,0 +1,153 @@
+// Declarative permission model shared by the API and the React app.
+// A permission is "<resource>:<action>"; roles are granted lists of them.
+
+export const PERMISSION_RESOURCES = {
+  dashboard: ["view"],
+  organization: ["view", "create", "update"],
+  user: ["view", "invite", "update", "deactivate"],
+  role: ["manage"],
+  api_key: ["manage"],
+  webhook: ["manage"],
+  inspection: ["view", "create", "update", "delete", "approve"],
+  schedule: ["view", "manage"],
+  action_plan: ["view", "create", "update", "delete"],
+  company: ["view", "create", "update", "delete"],
+  checklist_template: ["view", "create", "update", "delete"],
+  report: ["view", "export"],
+  activity_log: ["view"],
+  ai: ["use"],
+  system: ["admin"]
+} as const;
+
+type Resources = typeof PERMISSION_RESOURCES;
+export type PermissionResource = keyof Resources;
+export type Permission = {
+  [R in PermissionResource]: `${R}:${Resources[R][number]}`
+}[PermissionResource];
+
+export const ALL_PERMISSIONS = Object.entries(PERMISSION_RESOURCES).flatMap(
+  ([resource, actions]) => actions.map(action => `${resource}:${action}` as Permission)
+);
+
+export function isPermission(value: string): value is Permission {
+  return (ALL_PERMISSIONS as string[]).includes(value);
+}
+
+export const RESOURCE_LABELS: Record<PermissionResource, string> = {
+  dashboard: "Dashboard",
+  organization: "Organizações",
+  user: "Usuários",
+  role: "Perfis de acesso",
+  api_key: "Chaves de API",
+  webhook: "Webhooks",
+  inspection: "Inspeções",
+  schedule: "Agendamentos",
+  action_plan: "Planos de ação",
+  company: "Empresas",
+  checklist_template: "Checklists",
+  report: "Relatórios",
+  activity_log: "Log de atividades",
+  ai: "Assistente IA",
+  system: "Sistema"
+};
+
+export const ACTION_LABELS: Record<string, string> = {
+  view: "Visualizar",
+  create: "Criar",
+  update: "Editar",
+  delete: "Excluir",
+  approve: "Aprovar",
+  invite: "Convidar",
+  deactivate: "Desativar",
+  manage: "Gerenciar",
+  export: "Exportar",
+  use: "Usar",
+  admin: "Administrar"
+};
+
+const CLIENT_PERMISSIONS: Permission[] = [
+  "dashboard:view",
+  "organization:view",
+  "inspection:view",
+  "action_plan:view",
+  "company:view",
+  "checklist_template:view",
+  "report:view"
+];
+
+const INSPECTOR_PERMISSIONS: Permission[] = [
+  ...CLIENT_PERMISSIONS,
+  "inspection:create",
+  "inspection:update",
+  "schedule:view",
+  "action_plan:create",
+  "action_plan:update",
+  "company:create",
+  "company:update",
+  "checklist_template:create",
+  "checklist_template:update",
+  "report:export",
+  "ai:use"
+];
+
+const MANAGER_PERMISSIONS: Permission[] = [
+  ...INSPECTOR_PERMISSIONS,
+  "user:view",
+  "inspection:approve",
+  "schedule:manage",
+  "action_plan:delete",
+  "activity_log:view"
+];
+
+const ORG_ADMIN_PERMISSIONS: Permission[] = ALL_PERMISSIONS.filter(
+  permission => permission !== "organization:create" && permission !== "system:admin"
+);
+
+// Grants for the built-in roles. Organizations can layer custom roles on top.
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, Permission[]> = {
+  system_admin: ALL_PERMISSIONS,
+  org_admin: ORG_ADMIN_PERMISSIONS,
+  manager: MANAGER_PERMISSIONS,
+  inspector: INSPECTOR_PERMISSIONS,
+  client: CLIENT_PERMISSIONS
+};
+
+// Built-in roles from most to least privileged. Only a system admin may hand
+// out system_admin; anyone else can assign their own role or a lower one.
+export const ROLE_RANK = ["system_admin", "org_admin", "manager", "inspector", "client"] as const;
+
+export function canAssignRole(actorRole: string, role: string): boolean {
+  const actorRank = ROLE_RANK.indexOf(actorRole as typeof ROLE_RANK[number]);
+  const rank = ROLE_RANK.indexOf(role as typeof ROLE_RANK[number]);
+  if (actorRank === -1 || rank === -1) return false;
+  if (actorRole === "system_admin") return true;
+  return role !== "system_admin" && rank >= actorRank;
+}
+
+// Scopes an API key can carry, and the permissions each one unlocks.
+// A key never gets more than its creator could do.
+export const API_KEY_SCOPES = {
+  "inspections:read": ["inspection:view", "report:view"],
+  "inspections:write": ["inspection:create", "inspection:update"],
+  "companies:read": ["company:view"],
+  "companies:write": ["company:view", "company:create", "company:update"],
+  "action-plans:read": ["action_plan:view"],
+  "action-plans:write": ["action_plan:view", "action_plan:create", "action_plan:update"],
+  "checklists:read": ["checklist_template:view"]
+} as const satisfies Record<string, readonly Permission[]>;
+
+export type ApiKeyScope = keyof typeof API_KEY_SCOPES;
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  "inspections:read": "Ler inspeções e relatórios",
+  "inspections:write": "Criar e atualizar inspeções",
+  "companies:read": "Ler empresas",
+  "companies:write": "Cadastrar e atualizar empresas",
+  "action-plans:read": "Ler planos de ação",
+  "action-plans:write": "Criar e atualizar planos de ação",
+  "checklists:read": "Ler checklists"
+};
+
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+  return Object.prototype.hasOwnProperty.call(API_KEY_SCOPES, value);
+}
@@ -0,0 +1,40 @@
+// QR labels of company sites and equipment, shared by the API and the React
+// app. A label encodes /scan/:qrToken; the token is random and can be printed
+// on a public sticker, so the scan page only shows a short history of
+// finished results: no drafts, titles or people's names.
+
+export type QrAssetKind = "location" | "equipment";
+
+export const QR_ASSET_KIND_LABELS: Record<QrAssetKind, string> = {
+  location: "Local",
+  equipment: "Equipamento"
+};
+
+// Completed or approved inspections listed on the scan page
+export const SCAN_HISTORY_LIMIT = 20;
+
+export function getScanPath(qrToken: string): string {
+  return `/scan/${qrToken}`;
+}
+
+export interface ScannedInspection {
+  id: string;
+  status: string;
+  score: number | null;
+  nonConformCount: number;
+  completedAt: string | Date | null;
+}
+
+export interface ScannedAssetSummary {
+  kind: QrAssetKind;
+  name: string;
+  tag: string | null;
+  type: string | null;
+  companyName: string;
+  locationName: string | null;
+  address: string | null;
+  template: { id: string; name: string } | null;
+  // Latest completed or approved inspection
+  lastResult: ScannedInspection | null;
+  history: ScannedInspection[];
+}
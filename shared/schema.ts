@@ -1,8 +1,12 @@
 // @ts-nocheck
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, pgEnum, real } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, pgEnum, real, index, uniqueIndex, pgPolicy, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { FINDING_SEVERITIES, INSPECTION_RESPONSE_STATUSES } from "./inspection-responses";
+import { getRecurrenceError } from "./inspection-schedules";
+import { MIN_GEOFENCE_RADIUS_METERS, MAX_GEOFENCE_RADIUS_METERS, DEFAULT_GEOFENCE_RADIUS_METERS } from "./geofence";
+import { COMPANY_IMPORT_FIELDS, MAX_IMPORT_ROWS } from "./company-import";
 
 // Enums
 export const userRoleEnum = pgEnum("user_role", [
@@ -48,6 +52,22 @@ export const priorityEnum = pgEnum("priority", [
   "critical"
 ]);
 
+// Row-level security backstop for tenant data. Every query carries the
+// caller's accessible organization ids as app.current_org_ids (see
+// server/tenant-client.ts); "*" is the system context that login, SSO,
+// invitations and background jobs enter explicitly. Unset or empty matches
+// no rows, so a query that escapes its tenant scope fails closed.
+const tenantVisible = (column: string) => sql.raw(
+  `(current_setting('app.current_org_ids', true) = '*' ` +
+  `or ${column} = any (string_to_array(current_setting('app.current_org_ids', true), ',')))`
+);
+
+const tenantIsolation = (column = "organization_id") => pgPolicy("tenant_isolation", {
+  for: "all",
+  using: tenantVisible(column),
+  withCheck: tenantVisible(column)
+});
+
 // Tables
 export const organizations = pgTable("organizations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -57,6 +77,10 @@ export const organizations = pgTable("organizations", {
   plan: subscriptionPlanEnum("plan").default("basic"),
   maxUsers: integer("max_users").default(10),
   maxSubsidiaries: integer("max_subsidiaries").default(3),
+  requireTwoFactor: boolean("require_two_factor").default(false), // password users must enroll TOTP
+  escalationPolicy: jsonb("escalation_policy"), // EscalationStep[]; null uses DEFAULT_ESCALATION_POLICY
+  storageQuotaMb: integer("storage_quota_mb"), // evidence storage; null uses the plan default
+  geofenceRadiusMeters: integer("geofence_radius_meters").notNull().default(DEFAULT_GEOFENCE_RADIUS_METERS), // check-ins farther than this from the site are flagged
   isActive: boolean("is_active").default(true),
   address: text("address"),
   phone: text("phone"),
@@ -64,7 +88,7 @@ export const organizations = pgTable("organizations", {
   cnpj: text("cnpj"),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
   updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`)
-});
+}, () => [tenantIsolation("id")]);
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -72,10 +96,286 @@ export const users = pgTable("users", {
   name: text("name").notNull(),
   role: userRoleEnum("role").notNull(),
   organizationId: varchar("organization_id").references(() => organizations.id),
+  passwordHash: text("password_hash"), // scrypt hash, null until the user sets a password
+  customRoleId: varchar("custom_role_id").references((): AnyPgColumn => customRoles.id), // overrides the role's default grants
+  authProvider: text("auth_provider").default("password"), // password, oidc, saml
+  externalId: text("external_id"), // subject at the organization's identity provider
+  totpSecret: text("totp_secret"), // base32, set once enrollment is confirmed
+  totpEnabled: boolean("totp_enabled").default(false),
+  totpLastUsedStep: integer("totp_last_used_step"), // time step of the last accepted code; it and older ones are refused
+  recoveryCodes: text("recovery_codes").array(), // sha256 hashes, consumed on use
+  totpFailedAttempts: integer("totp_failed_attempts").default(0), // wrong codes since the last success or lockout
+  totpLockedUntil: timestamp("totp_locked_until"), // second-factor checks refused until then
+  calendarFeedTokenHash: varchar("calendar_feed_token_hash", { length: 64 }).unique(), // sha256 of the personal .ics feed token
+  calendarFeedCreatedAt: timestamp("calendar_feed_created_at"),
   isActive: boolean("is_active").default(true),
   lastLoginAt: timestamp("last_login_at"),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
   updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`)
+}, () => [tenantIsolation()]);
+
+// Organization-defined roles with an editable permission list (see shared/permissions.ts)
+export const customRoles = pgTable("custom_roles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  name: text("name").notNull(),
+  description: text("description"),
+  baseRole: userRoleEnum("base_role").notNull().default("inspector"),
+  permissions: text("permissions").array().notNull(),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`)
+}, () => [tenantIsolation()]);
+
+export const ssoProtocolEnum = pgEnum("sso_protocol", [
+  "oidc",
+  "saml"
+]);
+
+// Per-organization single sign-on configuration (enterprise plan)
+export const ssoConfigs = pgTable("sso_configs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().unique().references(() => organizations.id),
+  protocol: ssoProtocolEnum("protocol").notNull().default("oidc"),
+  isEnabled: boolean("is_enabled").default(false),
+  // Email domains whose users must sign in through this IdP; each one only
+  // takes effect once its claim in sso_domains is verified
+  domains: text("domains").array().notNull(),
+  // OIDC
+  issuerUrl: text("issuer_url"),
+  clientId: text("client_id"),
+  clientSecret: text("client_secret"),
+  scopes: text("scopes").default("openid email profile"),
+  // Just-in-time provisioning
+  defaultRole: userRoleEnum("default_role").notNull().default("inspector"),
+  roleClaim: text("role_claim"), // e.g. "groups" or "roles"
+  roleMappings: jsonb("role_mappings"), // { "<claim value>": "<user_role>" }
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`)
+}, () => [tenantIsolation()]);
+
+// Email domains claimed for SSO. A domain belongs to one organization, which
+// proves ownership by publishing verificationToken in a DNS TXT record.
+export const ssoDomains = pgTable("sso_domains", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  domain: text("domain").notNull(),
+  verificationToken: text("verification_token").notNull(),
+  verifiedAt: timestamp("verified_at"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`)
+}, (table) => [
+  uniqueIndex("UQ_sso_domains_domain").on(table.domain),
+  tenantIsolation()
+]);
+
+// Machine-to-machine credentials. Only the sha256 of the secret is stored;
+// the prefix is kept in clear to find the row and to identify the key in the UI.
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  name: text("name").notNull(),
+  prefix: varchar("prefix").notNull().unique(),
+  keyHash: text("key_hash").notNull(),
+  scopes: text("scopes").array().notNull(), // see API_KEY_SCOPES in shared/permissions.ts
+  rateLimitPerMinute: integer("rate_limit_per_minute").notNull().default(60),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: timestamp("revoked_at"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`)
+}, () => [tenantIsolation()]);
+
+// In-app notifications shown in the top bar
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  type: text("type").notNull(), // action_plan_reminder, action_plan_escalation, ...
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  link: text("link"), // client route to open
+  entityType: text("entity_type"),
+  entityId: varchar("entity_id"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`)
+}, (table) => [
+  index("IDX_notifications_user").on(table.userId, table.createdAt),
+  tenantIsolation()
+]);
+
+// Offline changes already applied by POST /api/sync, keyed by the id the
+// client generated, so a resent change returns the stored result
+export const syncChanges = pgTable("sync_changes", {
+  id: varchar("id").primaryKey(),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  inspectionId: varchar("inspection_id").notNull().references(() => inspections.id),
+  kind: text("kind").notNull(), // start, responses, complete
+  status: text("status").notNull(), // applied, conflict, rejected
+  result: jsonb("result").notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`)
+}, () => [tenantIsolation()]);
+
+// Sign-off of a completed inspection. payloadHash is the SHA-256 of the
+// inspection content when it was signed; a signature whose hash no longer
+// matches the current content is shown as invalid.
+export const SIGNATURE_ROLES = ["technician", "company_responsible"] as const;
+
+export const inspectionSignatures = pgTable("inspection_signatures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  inspectionId: varchar("inspection_id").notNull().references(() => inspections.id),
+  role: text("role").notNull(), // technician, company_responsible
+  signerName: text("signer_name").notNull(),
+  signerDocument: text("signer_document"), // CPF or other id, typed by the signer
+  signerUserId: varchar("signer_user_id").references(() => users.id), // the logged-in technician; null for the company representative
+  collectedBy: varchar("collected_by").notNull().references(() => users.id), // account of the device the signature was drawn on
+  image: text("image").notNull(), // drawn signature, PNG data URL
+  payloadHash: varchar("payload_hash", { length: 64 }).notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  signedAt: timestamp("signed_at").notNull().default(sql`CURRENT_TIMESTAMP`)
+}, (table) => [
+  tenantIsolation(),
+  index("IDX_inspection_signatures_inspection").on(table.inspectionId)
+]);
+
+// Review history of an inspection (see shared/inspection-workflow.ts).
+// Names are copied so the history reads the same after users are renamed.
+export const inspectionReviews = pgTable("inspection_reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  inspectionId: varchar("inspection_id").notNull().references(() => inspections.id),
+  action: text("action").notNull(), // submitted, approved, rejected, reassigned
+  actorId: varchar("actor_id").notNull().references(() => users.id),
+  actorName: text("actor_name").notNull(),
+  reviewerId: varchar("reviewer_id").references(() => users.id), // reviewer assigned after this step
+  reviewerName: text("reviewer_name"),
+  comments: text("comments"),
+  createdAt: timestamp("created_at").notNull().default(sql`CURRENT_TIMESTAMP`)
+}, (table) => [
+  tenantIsolation(),
+  index("IDX_inspection_reviews_inspection").on(table.inspectionId)
+]);
+
+// Device position recorded when an inspection is started and completed,
+// with the site coordinates and radius it was compared against at the time
+export const inspectionCheckIns = pgTable("inspection_check_ins", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  inspectionId: varchar("inspection_id").notNull().references(() => inspections.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  event: text("event").notNull(), // CheckInEvent
+  latitude: real("latitude"), // null when the device gave no position
+  longitude: real("longitude"),
+  accuracy: real("accuracy"),
+  capturedAt: timestamp("captured_at"), // device clock; differs from createdAt for offline check-ins
+  siteLatitude: real("site_latitude"),
+  siteLongitude: real("site_longitude"),
+  radiusMeters: integer("radius_meters").notNull(),
+  distanceMeters: real("distance_meters"),
+  status: text("status").notNull(), // GeofenceStatus
+  createdAt: timestamp("created_at").notNull().default(sql`CURRENT_TIMESTAMP`)
+}, (table) => [
+  tenantIsolation(),
+  index("IDX_inspection_check_ins_inspection").on(table.inspectionId),
+  index("IDX_inspection_check_ins_created").on(table.createdAt)
+]);
+
+// Lifecycle events that can be delivered to webhook endpoints
+export const WEBHOOK_EVENTS = [
+  "inspection.created",
+  "inspection.started",
+  "inspection.completed",
+  "inspection.approved",
+  "inspection.rejected",
+  "inspection.missed",
+  "action_plan.created",
+  "action_plan.status_changed",
+  "action_plan.overdue"
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", [
+  "pending",
+  "succeeded",
+  "failed"
+]);
+
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  url: text("url").notNull(),
+  description: text("description"),
+  events: text("events").array().notNull(),
+  secret: text("secret").notNull(), // HMAC-SHA256 key for X-Compia-Signature
+  isActive: boolean("is_active").default(true),
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  disabledAt: timestamp("disabled_at"), // set when repeated failures switch the endpoint off
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`)
+}, () => [tenantIsolation()]);
+
+// One row per event sent to an endpoint; the worker retries pending rows
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  endpointId: varchar("endpoint_id").notNull().references(() => webhookEndpoints.id, { onDelete: "cascade" }),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  event: text("event").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: webhookDeliveryStatusEnum("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").default(sql`CURRENT_TIMESTAMP`),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  replayOf: varchar("replay_of"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  deliveredAt: timestamp("delivered_at")
+}, (table) => [
+  index("IDX_webhook_deliveries_due").on(table.status, table.nextAttemptAt),
+  tenantIsolation()
+]);
+
+// Server-side sessions (managed by connect-pg-simple)
+export const sessions = pgTable("sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: jsonb("sess").notNull(),
+  expire: timestamp("expire").notNull()
+}, (table) => [index("IDX_session_expire").on(table.expire)]);
+
+// Public registry data cached by the address and CNPJ services. Not tenant
+// data: a CEP, an address or a CNPJ resolves the same for every organization.
+// Misses are cached too (found = false / null coordinates) so unknown values
+// are not re-queried.
+export const cepCache = pgTable("cep_cache", {
+  cep: varchar("cep", { length: 8 }).primaryKey(),
+  found: boolean("found").notNull(),
+  street: text("street"),
+  neighborhood: text("neighborhood"),
+  city: text("city"),
+  state: varchar("state", { length: 2 }),
+  provider: text("provider").notNull(),
+  fetchedAt: timestamp("fetched_at").notNull().default(sql`CURRENT_TIMESTAMP`)
+});
+
+export const cnpjCache = pgTable("cnpj_cache", {
+  cnpj: varchar("cnpj", { length: 14 }).primaryKey(),
+  found: boolean("found").notNull(),
+  data: jsonb("data"), // CnpjCompany (shared/cnpj.ts)
+  provider: text("provider").notNull(),
+  fetchedAt: timestamp("fetched_at").notNull().default(sql`CURRENT_TIMESTAMP`)
+});
+
+export const geocodeCache = pgTable("geocode_cache", {
+  query: text("query").primaryKey(), // normalized full address
+  latitude: real("latitude"),
+  longitude: real("longitude"),
+  provider: text("provider").notNull(),
+  fetchedAt: timestamp("fetched_at").notNull().default(sql`CURRENT_TIMESTAMP`)
 });
 
 export const invitations = pgTable("invitations", {
@@ -88,7 +388,7 @@ export const invitations = pgTable("invitations", {
   isAccepted: boolean("is_accepted").default(false),
   expiresAt: timestamp("expires_at").notNull(),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`)
-});
+}, () => [tenantIsolation()]);
 
 export const inspections = pgTable("inspections", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -100,6 +400,8 @@ export const inspections = pgTable("inspections", {
   inspectorId: varchar("inspector_id").notNull().references(() => users.id),
   checklist: jsonb("checklist"), // JSON structure for checklist items
   findings: jsonb("findings"), // Non-conformities found
+  responses: jsonb("responses"), // InspectionItemResponse[], one per checklist item answered
+  score: real("score"), // Weighted conformity percentage, N/A items excluded
   recommendations: text("recommendations"),
   aiAnalysis: text("ai_analysis"),
   qrCode: text("qr_code"),
@@ -121,12 +423,66 @@ export const inspections = pgTable("inspections", {
   technicianEmail: text("technician_email"),
   companyResponsibleName: text("company_responsible_name"),
   aiAssistantId: varchar("ai_assistant_id").default("GENERAL"),
-  actionPlanType: varchar("action_plan_type").default("5W2H")
-});
+  actionPlanType: varchar("action_plan_type").default("5W2H"),
+  
+  // Recurring schedule that generated this draft, if any
+  scheduleId: varchar("schedule_id").references(() => inspectionSchedules.id),
+  missedAlertedAt: timestamp("missed_alerted_at"), // set once the "never started" alert went out
+  
+  // Manager or org admin the completed inspection was submitted to
+  reviewerId: varchar("reviewer_id").references((): AnyPgColumn => users.id),
+  
+  // Set on follow-up (verification) inspections, which re-check only the
+  // items the parent found non-conform
+  parentInspectionId: varchar("parent_inspection_id").references((): AnyPgColumn => inspections.id),
+  
+  // Site or equipment whose QR label the inspection was started from
+  locationId: varchar("location_id").references(() => companyLocations.id),
+  equipmentId: varchar("equipment_id").references(() => equipment.id),
+  
+  // Worst GeofenceStatus of the GPS check-ins; null before the first one
+  geofenceStatus: text("geofence_status")
+}, (table) => [
+  tenantIsolation(),
+  // One draft per schedule occurrence, even if two scheduler runs overlap
+  uniqueIndex("UQ_inspections_schedule_occurrence").on(table.scheduleId, table.scheduledAt),
+  index("IDX_inspections_parent").on(table.parentInspectionId),
+  index("IDX_inspections_location").on(table.locationId),
+  index("IDX_inspections_equipment").on(table.equipmentId)
+]);
+
+// Periodic inspections (NR-23 monthly, NR-12 quarterly, ...). The scheduler
+// creates a draft for each occurrence leadTimeDays ahead of it and alerts
+// when a draft is still not started graceDays after its date.
+export const inspectionSchedules = pgTable("inspection_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  name: text("name").notNull(),
+  companyId: varchar("company_id").notNull().references(() => companies.id),
+  locationId: varchar("location_id").references(() => companyLocations.id), // null: the company's own address
+  checklistTemplateId: varchar("checklist_template_id").notNull().references(() => checklistTemplates.id),
+  recurrence: text("recurrence").notNull(), // RRULE without DTSTART, e.g. FREQ=MONTHLY;INTERVAL=3
+  startsAt: timestamp("starts_at").notNull(), // DTSTART: first occurrence and time of day
+  endsAt: timestamp("ends_at"), // UNTIL
+  defaultInspectorId: varchar("default_inspector_id").notNull().references(() => users.id),
+  leadTimeDays: integer("lead_time_days").notNull().default(7),
+  graceDays: integer("grace_days").notNull().default(1),
+  priority: text("priority").default("medium"),
+  isActive: boolean("is_active").default(true),
+  nextOccurrenceAt: timestamp("next_occurrence_at"), // next occurrence without a draft; null once the schedule ended
+  lastGeneratedAt: timestamp("last_generated_at"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`)
+}, (table) => [
+  tenantIsolation(),
+  index("IDX_inspection_schedules_next").on(table.nextOccurrenceAt)
+]);
 
 export const actionPlans = pgTable("action_plans", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   inspectionId: varchar("inspection_id").notNull().references(() => inspections.id),
+  itemId: text("item_id"), // checklist item of the inspection the plan corrects
   title: text("title").notNull(),
   description: text("description"),
   what: text("what").notNull(), // O que
@@ -142,22 +498,42 @@ export const actionPlans = pgTable("action_plans", {
   assignedTo: varchar("assigned_to").references(() => users.id),
   dueDate: timestamp("due_date"),
   completedAt: timestamp("completed_at"),
+  escalationLevel: integer("escalation_level").notNull().default(0), // reminder steps already sent
+  lastEscalatedAt: timestamp("last_escalated_at"),
+  isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
   updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`)
-});
+}, () => [tenantIsolation()]);
 
 export const files = pgTable("files", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   type: text("type").notNull(),
   size: integer("size").notNull(),
-  url: text("url").notNull(),
+  url: text("url").notNull(), // authorized download route, /api/files/:id/download
   inspectionId: varchar("inspection_id").references(() => inspections.id),
   actionPlanId: varchar("action_plan_id").references(() => actionPlans.id),
+  itemId: text("item_id"), // checklist item the evidence was captured for
+  storageDriver: text("storage_driver"), // local, s3; null for files registered by URL only
+  storageKey: text("storage_key"),
+  thumbnailKey: text("thumbnail_key"), // webp preview, images only
+  checksum: varchar("checksum", { length: 64 }), // sha256 of the content
+  capturedAt: timestamp("captured_at"), // EXIF DateTimeOriginal
+  latitude: real("latitude"), // EXIF GPS
+  longitude: real("longitude"),
+  // Annotated revisions point at the original photo and keep the drawing as
+  // vector data, so it can be edited again without stacking on the pixels
+  originalFileId: varchar("original_file_id").references((): AnyPgColumn => files.id),
+  annotations: jsonb("annotations"), // EvidenceAnnotations
   organizationId: varchar("organization_id").notNull().references(() => organizations.id),
   uploadedBy: varchar("uploaded_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`)
-});
+}, (table) => [
+  tenantIsolation(),
+  index("IDX_files_inspection").on(table.inspectionId),
+  index("IDX_files_action_plan").on(table.actionPlanId),
+  index("IDX_files_original").on(table.originalFileId)
+]);
 
 // Companies table for managing company registrations
 export const companies = pgTable("companies", {
@@ -167,6 +543,8 @@ export const companies = pgTable("companies", {
   email: text("email"),
   phone: text("phone"),
   website: text("website"),
+  cnae: varchar("cnae", { length: 10 }), // main activity, 0000-0/00
+  cnaeDescription: text("cnae_description"),
   
   // Address fields
   address: text("address"),
@@ -196,7 +574,7 @@ export const companies = pgTable("companies", {
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
   updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`)
-});
+}, () => [tenantIsolation()]);
 
 // Company locations/sites table
 export const companyLocations = pgTable("company_locations", {
@@ -218,13 +596,69 @@ export const companyLocations = pgTable("company_locations", {
   responsiblePhone: text("responsible_phone"),
   responsibleEmail: text("responsible_email"),
   
+  // QR label: scanning /scan/:qrToken starts checklistTemplateId here
+  checklistTemplateId: varchar("checklist_template_id").references(() => checklistTemplates.id),
+  qrToken: varchar("qr_token").notNull().unique().default(sql`gen_random_uuid()`),
+  
   // Metadata
   isActive: boolean("is_active").default(true),
   notes: text("notes"),
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
   updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`)
-});
+}, () => [pgPolicy("tenant_isolation", {
+  for: "all",
+  // Locations inherit visibility from their (RLS-protected) company
+  using: sql`exists (select 1 from companies c where c.id = company_locations.company_id)`,
+  withCheck: sql`exists (select 1 from companies c where c.id = company_locations.company_id)`
+})]);
+
+// Equipment assets (extinguishers, presses, boilers, ...) labelled with a QR
+// code that opens their inspection history
+export const equipment = pgTable("equipment", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  companyId: varchar("company_id").notNull().references(() => companies.id),
+  locationId: varchar("location_id").references(() => companyLocations.id),
+  name: text("name").notNull(),
+  tag: text("tag"), // asset number painted on the equipment
+  type: text("type"),
+  manufacturer: text("manufacturer"),
+  model: text("model"),
+  serialNumber: text("serial_number"),
+  checklistTemplateId: varchar("checklist_template_id").references(() => checklistTemplates.id),
+  qrToken: varchar("qr_token").notNull().unique().default(sql`gen_random_uuid()`),
+  isActive: boolean("is_active").default(true),
+  notes: text("notes"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`)
+}, (table) => [
+  tenantIsolation(),
+  index("IDX_equipment_company").on(table.companyId)
+]);
+
+// Spreadsheet imports of companies and locations (shared/company-import.ts);
+// the worker in server/services/company-import.ts processes pending rows
+export const companyImports = pgTable("company_imports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  fileName: text("file_name").notNull(),
+  status: text("status").notNull().default("pending"), // CompanyImportStatus
+  existingCompanies: text("existing_companies").notNull().default("skip"), // ExistingCompanyPolicy
+  records: jsonb("records").notNull(), // CompanyImportRecord[]
+  results: jsonb("results").notNull().default([]), // CompanyImportRowResult[] of the processed records
+  totalRows: integer("total_rows").notNull(),
+  processedRows: integer("processed_rows").notNull().default(0),
+  error: text("error"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at")
+}, (table) => [
+  tenantIsolation(),
+  index("IDX_company_imports_status").on(table.status, table.createdAt)
+]);
 
 export const checklistFolders = pgTable("checklist_folders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -238,7 +672,7 @@ export const checklistFolders = pgTable("checklist_folders", {
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
   updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`)
-});
+}, () => [tenantIsolation()]);
 
 export const checklistTemplates = pgTable("checklist_templates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -267,7 +701,7 @@ export const checklistTemplates = pgTable("checklist_templates", {
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
   updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`)
-});
+}, () => [tenantIsolation()]);
 
 export const activityLogs = pgTable("activity_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -278,11 +712,12 @@ export const activityLogs = pgTable("activity_logs", {
   entityId: varchar("entity_id"),
   details: jsonb("details"),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`)
-});
+}, () => [tenantIsolation()]);
 
 // Insert schemas
 export const insertOrganizationSchema = createInsertSchema(organizations).omit({
   id: true,
+  storageQuotaMb: true,
   createdAt: true,
   updatedAt: true
 });
@@ -291,7 +726,16 @@ export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
-  lastLoginAt: true
+  lastLoginAt: true,
+  passwordHash: true,
+  totpSecret: true,
+  totpEnabled: true,
+  totpLastUsedStep: true,
+  recoveryCodes: true,
+  totpFailedAttempts: true,
+  totpLockedUntil: true,
+  calendarFeedTokenHash: true,
+  calendarFeedCreatedAt: true
 });
 
 export const insertInvitationSchema = createInsertSchema(invitations).omit({
@@ -311,14 +755,89 @@ export const insertInspectionSchema = createInsertSchema(inspections, {
   createdAt: true,
   updatedAt: true,
   qrCode: true,
-  aiAnalysis: true
+  aiAnalysis: true,
+  responses: true,
+  score: true,
+  missedAlertedAt: true,
+  reviewerId: true,
+  parentInspectionId: true,
+  locationId: true,
+  equipmentId: true,
+  geofenceStatus: true
 });
 
 export const insertActionPlanSchema = createInsertSchema(actionPlans).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
-  completedAt: true
+  completedAt: true,
+  isActive: true,
+  escalationLevel: true,
+  lastEscalatedAt: true
+});
+
+// Field edits only; status changes go through the transition endpoints
+export const updateActionPlanSchema = z.object({
+  title: z.string().min(1, "Título é obrigatório"),
+  description: z.string().nullable(),
+  what: z.string().min(1),
+  why: z.string().min(1),
+  where: z.string().min(1),
+  when: z.coerce.date(),
+  who: z.string().min(1),
+  how: z.string().min(1),
+  howMuch: z.string().nullable(),
+  priority: z.enum(["low", "medium", "high", "critical"]),
+  itemId: z.string().nullable().transform((value) => value || null),
+  assignedTo: z.string().nullable().transform((value) => value || null),
+  dueDate: z.union([z.literal(""), z.null(), z.coerce.date()]).transform((value) => value || null)
+}).partial();
+
+export const insertSsoConfigSchema = z.object({
+  organizationId: z.string(),
+  // SAML login is not implemented, so only OIDC can be configured
+  protocol: z.literal("oidc", { errorMap: () => ({ message: "Apenas OpenID Connect é suportado" }) }).default("oidc"),
+  isEnabled: z.boolean().default(false),
+  domains: z.array(z.string().min(3).transform((d) => d.trim().toLowerCase().replace(/^@/, ""))).min(1),
+  issuerUrl: z.string().url().nullable().optional(),
+  clientId: z.string().nullable().optional(),
+  clientSecret: z.string().nullable().optional(),
+  scopes: z.string().default("openid email profile"),
+  defaultRole: z.enum(["org_admin", "manager", "inspector", "client"]).default("inspector"),
+  roleClaim: z.string().nullable().optional(),
+  roleMappings: z.record(z.enum(["org_admin", "manager", "inspector", "client"])).nullable().optional()
+});
+
+export const insertCustomRoleSchema = z.object({
+  organizationId: z.string(),
+  name: z.string().min(2, "Nome deve ter pelo menos 2 caracteres"),
+  description: z.string().nullable().optional(),
+  baseRole: z.enum(["org_admin", "manager", "inspector", "client"]).default("inspector"),
+  permissions: z.array(z.string()),
+  createdBy: z.string()
+});
+
+export const updateUserAccessSchema = z.object({
+  name: z.string().min(2).optional(),
+  role: z.enum(["org_admin", "manager", "inspector", "client"]).optional(),
+  customRoleId: z.string().nullable().optional(),
+  isActive: z.boolean().optional()
+});
+
+export const createApiKeySchema = z.object({
+  organizationId: z.string(),
+  name: z.string().min(2, "Nome deve ter pelo menos 2 caracteres"),
+  scopes: z.array(z.string()).min(1, "Selecione pelo menos um escopo"),
+  rateLimitPerMinute: z.number().int().min(1).max(6000).default(60),
+  expiresAt: z.coerce.date().nullable().optional()
+});
+
+export const webhookEndpointSchema = z.object({
+  organizationId: z.string(),
+  url: z.string().url("URL inválida"),
+  description: z.string().nullable().optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Selecione pelo menos um evento"),
+  isActive: z.boolean().default(true)
 });
 
 export const insertFileSchema = createInsertSchema(files).omit({
@@ -348,6 +867,14 @@ export const insertCompanySchema = createInsertSchema(companies).omit({
 
 export const insertCompanyLocationSchema = createInsertSchema(companyLocations).omit({
   id: true,
+  qrToken: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertEquipmentSchema = createInsertSchema(equipment).omit({
+  id: true,
+  qrToken: true,
   createdAt: true,
   updatedAt: true
 });
@@ -362,7 +889,13 @@ export type Organization = typeof organizations.$inferSelect;
 export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
 
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User,
+  "passwordHash" | "totpSecret" | "totpLastUsedStep" | "recoveryCodes" | "totpFailedAttempts" | "totpLockedUntil" | "calendarFeedTokenHash"
+>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+// Server-side updates may also set the credential and sign-in columns
+// insertUserSchema leaves out
+export type UpdateUser = Partial<Omit<User, "id" | "createdAt" | "updatedAt">>;
 
 export type Invitation = typeof invitations.$inferSelect;
 export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
@@ -373,6 +906,51 @@ export type InsertInspection = z.infer<typeof insertInspectionSchema>;
 export type ActionPlan = typeof actionPlans.$inferSelect;
 export type InsertActionPlan = z.infer<typeof insertActionPlanSchema>;
 
+export type CustomRole = typeof customRoles.$inferSelect;
+export type InsertCustomRole = z.infer<typeof insertCustomRoleSchema>;
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type PublicApiKey = Omit<ApiKey, "keyHash">;
+export type CreateApiKey = z.infer<typeof createApiKeySchema>;
+
+export type Notification = typeof notifications.$inferSelect;
+export type SyncChange = typeof syncChanges.$inferSelect;
+export type InspectionSignature = typeof inspectionSignatures.$inferSelect;
+export type InspectionReview = typeof inspectionReviews.$inferSelect;
+export type InspectionCheckIn = typeof inspectionCheckIns.$inferSelect;
+export type CepCacheEntry = typeof cepCache.$inferSelect;
+export type GeocodeCacheEntry = typeof geocodeCache.$inferSelect;
+export type CnpjCacheEntry = typeof cnpjCache.$inferSelect;
+export type InspectionSchedule = typeof inspectionSchedules.$inferSelect;
+export type InspectionScheduleInput = z.infer<typeof inspectionScheduleSchema>;
+export type EquipmentInput = z.infer<typeof equipmentInputSchema>;
+export type SignatureRole = typeof SIGNATURE_ROLES[number];
+export type SignInspection = z.infer<typeof signInspectionSchema>;
+// Signature as returned by the API, checked against the current content
+export type VerifiedSignature = InspectionSignature & { valid: boolean; current: boolean };
+
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type PublicWebhookEndpoint = Omit<WebhookEndpoint, "secret">;
+// Files as returned by the API: the storage location stays on the server
+export type PublicFile = Omit<File, "storageDriver" | "storageKey" | "thumbnailKey"> & { thumbnailUrl: string | null };
+// Evidence listings: originals only, each with its latest annotated revision
+export type EvidenceFile = PublicFile & { annotatedVersion: PublicFile | null };
+export type EvidenceAnnotationShape = z.infer<typeof evidenceAnnotationShapeSchema>;
+export type EvidenceAnnotations = z.infer<typeof evidenceAnnotationsSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+export type SsoConfig = typeof ssoConfigs.$inferSelect;
+export type InsertSsoConfig = z.infer<typeof insertSsoConfigSchema>;
+export type SsoDomain = typeof ssoDomains.$inferSelect;
+
+// A domain claim as the SSO settings show it, with the TXT record that verifies it
+export interface SsoDomainClaim {
+  domain: string;
+  verifiedAt: string | null;
+  recordName: string;
+  recordValue: string;
+}
+
 export type File = typeof files.$inferSelect;
 export type InsertFile = z.infer<typeof insertFileSchema>;
 
@@ -388,6 +966,11 @@ export type InsertCompany = z.infer<typeof insertCompanySchema>;
 export type CompanyLocation = typeof companyLocations.$inferSelect;
 export type InsertCompanyLocation = z.infer<typeof insertCompanyLocationSchema>;
 
+export type Equipment = typeof equipment.$inferSelect;
+export type InsertEquipment = z.infer<typeof insertEquipmentSchema>;
+export type CompanyImport = typeof companyImports.$inferSelect;
+export type CompanyImportInput = z.infer<typeof companyImportSchema>;
+
 export type ActivityLog = typeof activityLogs.$inferSelect;
 export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
 
@@ -396,10 +979,115 @@ export const acceptInviteSchema = z.object({
   token: z.string(),
   userInfo: z.object({
     name: z.string(),
-    email: z.string().email()
+    email: z.string().email(),
+    password: z.string().min(8, "A senha deve ter pelo menos 8 caracteres")
   })
 });
 
+export const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1)
+});
+
+export const organizationSecuritySchema = z.object({
+  requireTwoFactor: z.boolean()
+});
+
+// null returns the organization to its plan's default quota
+export const storageQuotaSchema = z.object({
+  storageQuotaMb: z.number().int().min(1).max(10 * 1024 * 1024).nullable()
+});
+
+export const inspectionScheduleSchema = z.object({
+  name: z.string().trim().min(1, "Informe o nome do agendamento").max(200),
+  companyId: z.string().min(1, "Selecione a empresa"),
+  locationId: z.string().nullable().optional(),
+  checklistTemplateId: z.string().min(1, "Selecione o checklist"),
+  recurrence: z.string().trim().min(1).max(500).superRefine((value, ctx) => {
+    const error = getRecurrenceError(value);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date().nullable().optional(),
+  defaultInspectorId: z.string().min(1, "Selecione o inspetor"),
+  leadTimeDays: z.number().int().min(0).max(90).default(7),
+  graceDays: z.number().int().min(0).max(30).default(1),
+  priority: z.enum(["low", "medium", "high", "urgent"]).default("medium"),
+  isActive: z.boolean().default(true),
+  organizationId: z.string().optional()
+}).refine(data => !data.endsAt || data.endsAt > data.startsAt, {
+  message: "O término deve ser depois do início",
+  path: ["endsAt"]
+});
+
+export const signInspectionSchema = z.object({
+  role: z.enum(SIGNATURE_ROLES),
+  signerName: z.string().trim().min(3, "Informe o nome de quem assina").max(200),
+  signerDocument: z.string().trim().max(30).optional(),
+  // PNG from the signature pad; 200 KB is plenty for a drawn stroke
+  image: z.string().regex(/^data:image\/png;base64,[A-Za-z0-9+/=]+$/, "Assinatura inválida").max(200 * 1024)
+});
+
+// Photo annotations. Coordinates are fractions of the image width/height and
+// strokeWidth is in pixels at 1000 px of image width, so the drawing does not
+// depend on the resolution it was made at. Text scales its font with it.
+const annotationPoint = z.number().min(0).max(1);
+const annotationStyle = {
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Cor inválida"),
+  strokeWidth: z.number().min(1).max(40)
+};
+
+export const evidenceAnnotationShapeSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("ellipse"), x: annotationPoint, y: annotationPoint, width: annotationPoint, height: annotationPoint, ...annotationStyle }),
+  z.object({ type: z.literal("rect"), x: annotationPoint, y: annotationPoint, width: annotationPoint, height: annotationPoint, ...annotationStyle }),
+  z.object({ type: z.literal("arrow"), x1: annotationPoint, y1: annotationPoint, x2: annotationPoint, y2: annotationPoint, ...annotationStyle }),
+  z.object({ type: z.literal("freehand"), points: z.array(z.tuple([annotationPoint, annotationPoint])).min(2).max(2000), ...annotationStyle }),
+  z.object({ type: z.literal("text"), x: annotationPoint, y: annotationPoint, text: z.string().min(1).max(200), ...annotationStyle })
+]);
+
+export const evidenceAnnotationsSchema = z.object({
+  shapes: z.array(evidenceAnnotationShapeSchema).min(1, "Desenhe pelo menos uma marcação").max(200)
+});
+
+export const geofencePolicySchema = z.object({
+  radiusMeters: z.number().int().min(MIN_GEOFENCE_RADIUS_METERS).max(MAX_GEOFENCE_RADIUS_METERS)
+});
+
+export const geocodeAddressSchema = z.object({
+  address: z.string().max(500).nullish(),
+  city: z.string().max(200).nullish(),
+  state: z.string().max(2).nullish(),
+  zipCode: z.string().max(10).nullish()
+}).refine(data => !!data.zipCode || (!!data.city && !!data.state), { message: "Informe o CEP ou a cidade e a UF" });
+
+// Mapped spreadsheet rows, for both the dry run and the import job
+export const companyImportSchema = z.object({
+  organizationId: z.string().optional(),
+  fileName: z.string().min(1).max(255),
+  existingCompanies: z.enum(["skip", "update"]).default("skip"),
+  records: z.array(z.object({
+    row: z.number().int().positive(),
+    ...Object.fromEntries(COMPANY_IMPORT_FIELDS.map(field => [field.key, z.string().max(1000).optional()]))
+  })).min(1, "A planilha não tem linhas para importar").max(MAX_IMPORT_ROWS, `Importe no máximo ${MAX_IMPORT_ROWS} linhas por vez`)
+});
+
+export const escalationPolicySchema = z.object({
+  steps: z.array(z.object({
+    days: z.number().int().min(-60).max(365),
+    audience: z.enum(["assignee", "managers"])
+  })).min(1, "Informe pelo menos uma etapa").max(10)
+});
+
+// Second login step: either a current TOTP code or one recovery code
+export const twoFactorVerifySchema = z.object({
+  code: z.string().optional(),
+  recoveryCode: z.string().optional()
+}).refine(data => !!data.code || !!data.recoveryCode, { message: "Informe o código de verificação" });
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, "Código deve ter 6 dígitos")
+});
+
 export const createInspectionSchema = insertInspectionSchema.extend({
   checklist: z.array(z.object({
     id: z.string(),
@@ -411,17 +1099,120 @@ export const createInspectionSchema = insertInspectionSchema.extend({
 });
 
 export const updateInspectionSchema = z.object({
+  title: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  location: z.string().min(1).optional(),
   status: z.enum(["draft", "in_progress", "completed", "approved", "rejected"]).optional(),
   findings: z.array(z.object({
+    itemId: z.string().optional(),
     item: z.string(),
     description: z.string(),
-    severity: z.enum(["low", "medium", "high", "critical"]),
+    severity: z.enum(FINDING_SEVERITIES),
     standard: z.string().optional(),
     evidence: z.array(z.string()).optional()
   })).optional(),
   recommendations: z.string().optional()
 });
 
+export const rescheduleInspectionSchema = z.object({
+  scheduledAt: z.coerce.date()
+});
+
+export const inspectionItemResponseSchema = z.object({
+  itemId: z.string().min(1),
+  status: z.enum(INSPECTION_RESPONSE_STATUSES),
+  value: z.unknown().optional(),
+  notes: z.string().max(5000).optional(),
+  severity: z.enum(FINDING_SEVERITIES).optional(),
+  evidence: z.array(z.string()).max(50).optional()
+});
+
+// Without responses the answers already autosaved on the inspection are used
+// Browser geolocation sent with start and completion; absent when the
+// inspector denied access or the device has no GPS
+export const devicePositionSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().min(0).nullable().optional(),
+  capturedAt: z.coerce.date().optional()
+});
+
+export const startInspectionSchema = z.object({
+  position: devicePositionSchema.optional()
+});
+
+export const completeInspectionSchema = z.object({
+  responses: z.array(inspectionItemResponseSchema).optional(),
+  // Defaults to the previous reviewer or the least busy manager
+  reviewerId: z.string().optional(),
+  position: devicePositionSchema.optional()
+});
+
+export const reviewDecisionSchema = z.object({
+  comments: z.string().trim().max(5000).optional()
+});
+
+// Sending an inspection back must say what to fix
+export const rejectInspectionSchema = z.object({
+  comments: z.string().trim().min(10, "Descreva o que precisa ser corrigido (mínimo 10 caracteres)").max(5000)
+});
+
+export const assignReviewerSchema = z.object({
+  reviewerId: z.string().min(1, "Selecione o revisor")
+});
+
+// Both default to the parent inspection's inspector and no date
+export const followUpInspectionSchema = z.object({
+  scheduledAt: z.coerce.date().optional(),
+  inspectorId: z.string().min(1).optional()
+});
+
+const optionalText = z.string().trim().max(200).nullable().optional();
+
+export const equipmentInputSchema = z.object({
+  name: z.string().trim().min(1, "Informe o nome do equipamento").max(200),
+  tag: optionalText,
+  type: optionalText,
+  manufacturer: optionalText,
+  model: optionalText,
+  serialNumber: optionalText,
+  locationId: z.string().nullable().optional(),
+  checklistTemplateId: z.string().nullable().optional(),
+  notes: z.string().trim().max(5000).nullable().optional()
+});
+
+// The template defaults to the one linked to the scanned site or equipment
+export const startScannedInspectionSchema = z.object({
+  checklistTemplateId: z.string().min(1).optional()
+});
+
+// Offline changes replayed by POST /api/sync. baseUpdatedAt is the server
+// version of the answer the client edited (absent when it was unanswered)
+export const syncChangeSchema = z.object({
+  id: z.string().uuid(),
+  inspectionId: z.string().min(1),
+  kind: z.enum(["start", "responses", "complete"]),
+  responses: z.array(inspectionItemResponseSchema.extend({
+    baseUpdatedAt: z.string().nullable().optional()
+  })).max(200).default([]),
+  removed: z.array(z.object({
+    itemId: z.string().min(1),
+    baseUpdatedAt: z.string().nullable().optional()
+  })).max(200).default([]),
+  // Where the device was when a start or complete change was queued
+  position: devicePositionSchema.optional()
+});
+
+export const syncRequestSchema = z.object({
+  changes: z.array(syncChangeSchema).min(1).max(100)
+});
+
+// Autosave: upserts answers by itemId and clears the ones in `removed`
+export const saveInspectionResponsesSchema = z.object({
+  responses: z.array(inspectionItemResponseSchema).max(200).default([]),
+  removed: z.array(z.string()).max(200).default([])
+});
+
 export const createChecklistTemplateSchema = insertChecklistTemplateSchema.extend({
   items: z.array(z.object({
     id: z.string(),